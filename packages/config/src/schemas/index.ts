@@ -14,14 +14,29 @@ export {
   type LogReaderMode,
   LogReaderConfigSchema,
   type LogReaderConfig,
+  LogCheckpointConfigSchema,
+  type LogCheckpointConfig,
+  RconQueueConfigSchema,
+  type RconQueueConfig,
   RconConfigSchema,
   type RconConfig,
   AdminListSourceTypeSchema,
   type AdminListSourceType,
   AdminListSourceSchema,
   type AdminListSource,
+  BanListActionSchema,
+  type BanListAction,
+  BanListSubscriptionSchema,
+  type BanListSubscription,
+  CustomLogRuleFieldSchema,
+  CustomLogRuleSchema,
+  type CustomLogRule,
+  ChatCommandsConfigSchema,
+  type ChatCommandsConfig,
   ConnectorConfigSchema,
   type ConnectorConfig,
+  PluginBudgetConfigSchema,
+  type PluginBudgetConfig,
   PluginConfigSchema,
   type PluginConfig,
   VerbosityConfigSchema,
@@ -31,6 +46,8 @@ export {
   RootConfigSchema,
   type RootConfig,
   DiscordConnectorSchema,
+  SqliteConnectorSchema,
+  PostgresConnectorSchema,
 } from './server.js';
 
 // Plugin schemas
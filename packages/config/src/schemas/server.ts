@@ -45,6 +45,22 @@ export const LogReaderModeSchema = z.enum(['tail', 'ftp', 'sftp']);
 
 export type LogReaderMode = z.output<typeof LogReaderModeSchema>;
 
+/**
+ * Log reader checkpoint configuration schema.
+ */
+export const LogCheckpointConfigSchema = z.object({
+  /** Path of the JSON file the read position is saved to. */
+  file: z.string().min(1, 'Checkpoint file is required'),
+
+  /** Oldest checkpoint still resumed from (ms). */
+  maxCatchUpAge: z.number().int().positive().optional(),
+
+  /** Largest backlog read on resume (bytes). */
+  maxCatchUpBytes: z.number().int().positive().optional(),
+});
+
+export type LogCheckpointConfig = z.output<typeof LogCheckpointConfigSchema>;
+
 /**
  * Log reader configuration schema.
  */
@@ -60,6 +76,9 @@ export const LogReaderConfigSchema = z.object({
 
   /** FTP configuration (required for ftp/sftp modes). */
   ftp: FtpConfigSchema.optional(),
+
+  /** Resume from the last read position after a restart. */
+  checkpoint: LogCheckpointConfigSchema.optional(),
 }).refine(
   (data) => {
     // FTP config is required for ftp/sftp modes
@@ -80,6 +99,28 @@ export type LogReaderConfig = z.output<typeof LogReaderConfigSchema>;
 // RCON Configuration Schema
 // =============================================================================
 
+/**
+ * RCON command queue configuration schema.
+ */
+export const RconQueueConfigSchema = z.object({
+  /** Commands sent per second. */
+  rate: z.number().positive().optional(),
+
+  /** Commands that may be sent back to back before the rate applies. */
+  burst: z.number().int().positive().optional(),
+
+  /** Commands awaiting a response at once. */
+  maxInFlight: z.number().int().positive().optional(),
+
+  /** Queued commands before new ones are rejected. */
+  maxQueueSize: z.number().int().positive().optional(),
+
+  /** Share one response between identical pending queries. */
+  coalesce: z.boolean().optional(),
+});
+
+export type RconQueueConfig = z.output<typeof RconQueueConfigSchema>;
+
 /**
  * RCON connection configuration schema.
  */
@@ -104,6 +145,9 @@ export const RconConfigSchema = z.object({
 
   /** Connection timeout (ms). */
   timeout: z.number().int().positive().default(10000),
+
+  /** Command priority queue and rate limit. */
+  queue: RconQueueConfigSchema.optional(),
 });
 
 export type RconConfig = z.output<typeof RconConfigSchema>;
@@ -135,6 +179,103 @@ export const AdminListSourceSchema = z.object({
 
 export type AdminListSource = z.output<typeof AdminListSourceSchema>;
 
+// =============================================================================
+// Ban List Configuration Schema
+// =============================================================================
+
+/**
+ * Enforcement for players found on a subscribed ban list.
+ */
+export const BanListActionSchema = z.enum(['kick', 'alert', 'log']);
+
+export type BanListAction = z.output<typeof BanListActionSchema>;
+
+/**
+ * Ban list subscription configuration schema.
+ */
+export const BanListSubscriptionSchema = z.object({
+  /** Name shown in logs, alerts and kick messages. */
+  name: z.string().min(1, 'Ban list name is required'),
+
+  /** Source type. */
+  type: z.enum(['local', 'remote']),
+
+  /** Path or URL of a Bans.cfg-style list. */
+  source: z.string().min(1, 'Source is required'),
+
+  /** Refresh interval in milliseconds. */
+  refreshInterval: z.number().int().positive().optional(),
+
+  /** What to do when a listed player joins. */
+  action: BanListActionSchema.default('log'),
+
+  /** Kick message (kick action only). */
+  kickReason: z.string().optional(),
+
+  /** Shared secret to verify the list's signature (optional). */
+  secret: z.string().min(1).optional(),
+});
+
+export type BanListSubscription = z.output<typeof BanListSubscriptionSchema>;
+
+// =============================================================================
+// Custom Log Rule Schema
+// =============================================================================
+
+/**
+ * Maps a capture group (index or name) to an event field.
+ */
+export const CustomLogRuleFieldSchema = z.union([
+  z.number().int().positive(),
+  z.string().min(1),
+  z.object({
+    group: z.union([z.number().int().positive(), z.string().min(1)]),
+    type: z.enum(['string', 'number', 'boolean']).optional(),
+  }),
+]);
+
+/**
+ * Custom log parsing rule schema. Matches are emitted as CUSTOM_LOG_EVENT.
+ */
+export const CustomLogRuleSchema = z.object({
+  /** Unique rule name. */
+  name: z.string().min(1, 'Rule name is required'),
+
+  /** Event name reported on the emitted event (UPPER_SNAKE_CASE). */
+  event: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Event name must be UPPER_SNAKE_CASE'),
+
+  /** Regular expression, matched after the [timestamp][chainID] prefix. */
+  pattern: z.string().min(1, 'Pattern is required'),
+
+  /** Set to false to match the pattern anywhere in the line. */
+  prefix: z.boolean().optional(),
+
+  /** Capture groups to copy into the event's data. */
+  fields: z.record(z.string(), CustomLogRuleFieldSchema).optional(),
+});
+
+export type CustomLogRule = z.output<typeof CustomLogRuleSchema>;
+
+// =============================================================================
+// Chat Commands Schema
+// =============================================================================
+
+/**
+ * Chat command settings schema.
+ */
+export const ChatCommandsConfigSchema = z.object({
+  /** Prefixes that start a command. */
+  prefixes: z.array(z.string().min(1)).min(1).default(['!']),
+
+  /** Whether to register the built-in help command. */
+  help: z.boolean().default(true),
+
+  /** Whether to suggest close matches for unknown commands. */
+  suggestions: z.boolean().default(true),
+});
+
+export type ChatCommandsConfig = z.output<typeof ChatCommandsConfigSchema>;
+
 // =============================================================================
 // Connector Configuration Schema
 // =============================================================================
@@ -146,6 +287,25 @@ export const DiscordConnectorSchema = z.object({
   type: z.literal('discord'),
   token: z.string().min(1, 'Discord token is required'),
   guildId: z.string().optional(),
+  intents: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * SQLite database connector configuration schema.
+ */
+export const SqliteConnectorSchema = z.object({
+  type: z.literal('sqlite'),
+  path: z.string().min(1, 'SQLite database path is required'),
+});
+
+/**
+ * Postgres database connector configuration schema.
+ * Falls back to the DATABASE_URL environment variable when `url` is omitted.
+ */
+export const PostgresConnectorSchema = z.object({
+  type: z.literal('postgres'),
+  url: z.string().min(1).optional(),
+  max: z.number().int().positive().optional(),
 });
 
 /**
@@ -155,6 +315,8 @@ export const ConnectorConfigSchema = z.record(
   z.string(),
   z.union([
     DiscordConnectorSchema,
+    SqliteConnectorSchema,
+    PostgresConnectorSchema,
     z.object({
       type: z.string(),
     }).passthrough(),
@@ -167,6 +329,34 @@ export type ConnectorConfig = z.output<typeof ConnectorConfigSchema>;
 // Plugin Configuration Schema
 // =============================================================================
 
+/**
+ * Plugin resource budget schema. Unset limits use the server defaults.
+ */
+export const PluginBudgetConfigSchema = z.object({
+  /** Longest a handler may run in milliseconds. */
+  maxHandlerDuration: z.number().int().positive().optional(),
+
+  /** Longest a handler may block the event loop in milliseconds. */
+  maxBlockingDuration: z.number().int().positive().optional(),
+
+  /** Runs of one handler that may be in progress at once. */
+  maxConcurrency: z.number().int().positive().optional(),
+
+  /** Runs of one handler that may wait for a free slot. */
+  maxQueueSize: z.number().int().nonnegative().optional(),
+
+  /** Longest a run may wait for a free slot in milliseconds. */
+  maxQueueDelay: z.number().int().positive().optional(),
+
+  /** Intervals and timeouts a plugin may have at once. */
+  maxTimers: z.number().int().positive().optional(),
+
+  /** Heap a sandboxed plugin may use in megabytes. */
+  maxMemory: z.number().int().positive().optional(),
+});
+
+export type PluginBudgetConfig = z.output<typeof PluginBudgetConfigSchema>;
+
 /**
  * Plugin configuration schema.
  */
@@ -182,6 +372,9 @@ export const PluginConfigSchema = z.object({
 
   /** Connectors to inject. */
   connectors: z.record(z.string(), z.string()).optional(),
+
+  /** Resource budget overrides (optional). */
+  budget: PluginBudgetConfigSchema.optional(),
 });
 
 export type PluginConfig = z.output<typeof PluginConfigSchema>;
@@ -226,12 +419,27 @@ export const ServerConfigSchema = z.object({
   /** Admin list sources (optional). */
   adminLists: z.array(AdminListSourceSchema).optional(),
 
+  /** Path of the server's Bans.cfg to keep in sync with the ban list (optional). */
+  bansFile: z.string().min(1).optional(),
+
+  /** Ban lists shared by other communities to enforce (optional). */
+  banLists: z.array(BanListSubscriptionSchema).optional(),
+
+  /** Extra log parsing rules for lines the built-in rules don't match (optional). */
+  logRules: z.array(CustomLogRuleSchema).optional(),
+
+  /** Chat command settings (optional). */
+  chatCommands: ChatCommandsConfigSchema.optional(),
+
   /** Connectors configuration (optional). */
   connectors: ConnectorConfigSchema.optional(),
 
   /** Plugins configuration (optional). */
   plugins: z.array(PluginConfigSchema).optional(),
 
+  /** Default resource budget of every plugin (optional). */
+  pluginBudget: PluginBudgetConfigSchema.optional(),
+
   /** Logging verbosity settings (optional). */
   verbosity: VerbosityConfigSchema.optional(),
 });
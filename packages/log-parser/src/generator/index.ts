@@ -0,0 +1,19 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Log generator exports.
+ *
+ * @module
+ */
+
+export {
+  generateMatchLog,
+  generatedPlayerIds,
+  randomMatchScript,
+  type GeneratedPlayerIds,
+  type MatchScript,
+  type RandomMatchOptions,
+  type ScriptedEvent,
+  type ScriptedPlayer,
+  type ScriptedTeam,
+} from './log-generator.js';
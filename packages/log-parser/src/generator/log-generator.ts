@@ -0,0 +1,497 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Synthetic SquadGame.log generator.
+ *
+ * Turns a scripted match description into log lines in the format the
+ * dedicated server writes, covering every default parsing rule. Output
+ * is deterministic for a given script, so generated logs can be used as
+ * regression fixtures and replayed with ReplayLogReader.
+ *
+ * @module
+ */
+
+import { createHash } from 'node:crypto';
+import { formatLogTimestamp } from '../utils/date-parser.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A player taking part in a scripted match.
+ */
+export interface ScriptedPlayer {
+  readonly name: string;
+  readonly team: 1 | 2;
+  /** EOS ID (default: derived from the name). */
+  readonly eosID?: string | undefined;
+  /** Steam ID (default: derived from the name). */
+  readonly steamID?: string | undefined;
+  /** IP address (default: derived from the player's position in the script). */
+  readonly ip?: string | undefined;
+  /** When the player joins, in ms from the start of the match (default: 0). */
+  readonly joinAt?: number | undefined;
+  /** When the player leaves, in ms from the start (default: stays). */
+  readonly leaveAt?: number | undefined;
+}
+
+/**
+ * A team's faction as written in round results.
+ */
+export interface ScriptedTeam {
+  readonly faction: string;
+  readonly subfaction: string;
+}
+
+/**
+ * Something that happens during a scripted match. Players are referred
+ * to by name and `at` is in ms from the start of the match.
+ */
+export type ScriptedEvent =
+  | {
+    readonly type: 'kill';
+    readonly at: number;
+    readonly attacker: string;
+    readonly victim: string;
+    readonly weapon?: string | undefined;
+    readonly damage?: number | undefined;
+    /** Teammate who revives the victim instead of them dying. */
+    readonly revivedBy?: string | undefined;
+    /** Time between the wound and the revive or death (default: 10000). */
+    readonly downTime?: number | undefined;
+  }
+  | {
+    readonly type: 'damage';
+    readonly at: number;
+    readonly attacker: string;
+    readonly victim: string;
+    readonly weapon?: string | undefined;
+    readonly damage?: number | undefined;
+  }
+  | { readonly type: 'revive'; readonly at: number; readonly reviver: string; readonly victim: string }
+  | { readonly type: 'possess'; readonly at: number; readonly player: string; readonly pawn?: string | undefined }
+  | { readonly type: 'unpossess'; readonly at: number; readonly player: string; readonly pawn?: string | undefined }
+  | {
+    readonly type: 'deployable-damage';
+    readonly at: number;
+    readonly attacker: string;
+    readonly deployable: string;
+    readonly weapon?: string | undefined;
+    readonly damage?: number | undefined;
+  }
+  | {
+    readonly type: 'deployable-built';
+    readonly at: number;
+    readonly player: string;
+    /** Deployable class; the same class refers to the same instance. */
+    readonly deployable: string;
+  }
+  | {
+    readonly type: 'deployable-destroyed';
+    readonly at: number;
+    readonly deployable: string;
+    readonly attacker?: string | undefined;
+    readonly weapon?: string | undefined;
+  }
+  | {
+    readonly type: 'vehicle-enter';
+    readonly at: number;
+    readonly player: string;
+    /** Vehicle class; the same class refers to the same instance. */
+    readonly vehicle: string;
+    readonly seat?: number | undefined;
+  }
+  | {
+    readonly type: 'vehicle-damage';
+    readonly at: number;
+    readonly attacker: string;
+    readonly vehicle: string;
+    readonly weapon?: string | undefined;
+    readonly damage?: number | undefined;
+  }
+  | {
+    readonly type: 'vehicle-destroyed';
+    readonly at: number;
+    readonly vehicle: string;
+    /** Omit to write a line without a cause. */
+    readonly attacker?: string | undefined;
+    readonly weapon?: string | undefined;
+  }
+  | { readonly type: 'broadcast'; readonly at: number; readonly message: string; readonly from?: string | undefined }
+  | { readonly type: 'tick-rate'; readonly at: number; readonly rate: number }
+  /** A line body written as-is after the timestamp and chain ID. */
+  | { readonly type: 'raw'; readonly at: number; readonly body: string };
+
+/**
+ * A scripted match.
+ */
+export interface MatchScript {
+  /** Wall-clock time of the first line (default: 2024-01-01T12:00:00Z). */
+  readonly start?: Date | undefined;
+  /** Map name, e.g. "Narva". */
+  readonly level: string;
+  /** Layer class name, e.g. "Narva_RAAS_v1". */
+  readonly layer: string;
+  readonly teams?: readonly [ScriptedTeam, ScriptedTeam] | undefined;
+  readonly players: readonly ScriptedPlayer[];
+  readonly events?: readonly ScriptedEvent[] | undefined;
+  /** Match length in ms; the round ends at this offset. */
+  readonly duration: number;
+  /** Winning team (default: 1). */
+  readonly winner?: 1 | 2 | undefined;
+  /** Remaining tickets of team 1 and team 2 (default: [150, 0] for the winner). */
+  readonly tickets?: readonly [number, number] | undefined;
+  /** Interval between tick rate lines in ms, 0 to disable (default: 30000). */
+  readonly tickRateInterval?: number | undefined;
+  /** Tick rate to report (default: 50). */
+  readonly tickRate?: number | undefined;
+}
+
+/**
+ * Options for randomMatchScript.
+ */
+export interface RandomMatchOptions {
+  /** Seed for the pseudo-random generator; equal seeds give equal scripts. */
+  readonly seed?: number | undefined;
+  /** Number of players (default: 80). */
+  readonly players?: number | undefined;
+  /** Match length in ms (default: 30 minutes). */
+  readonly duration?: number | undefined;
+  /** Average kills per minute across the server (default: 20). */
+  readonly killsPerMinute?: number | undefined;
+  /** Share of downed players who get revived, 0-1 (default: 0.4). */
+  readonly reviveRate?: number | undefined;
+  readonly level?: string | undefined;
+  readonly layer?: string | undefined;
+}
+
+/**
+ * The IDs the generator uses for a player.
+ */
+export interface GeneratedPlayerIds {
+  readonly eosID: string;
+  readonly steamID: string;
+  readonly controller: string;
+}
+
+interface ResolvedPlayer extends GeneratedPlayerIds {
+  readonly name: string;
+  readonly team: 1 | 2;
+  readonly ip: string;
+}
+
+interface PendingLine {
+  readonly at: number;
+  readonly chain: number;
+  readonly body: string;
+}
+
+const DEFAULT_START = new Date(Date.UTC(2024, 0, 1, 12, 0, 0));
+const DEFAULT_TEAMS: readonly [ScriptedTeam, ScriptedTeam] = [
+  { faction: 'United States Army', subfaction: '1st Cavalry Regiment' },
+  { faction: 'Russian Ground Forces', subfaction: '49th Combined Arms Army' },
+];
+const DEFAULT_WEAPON = 'BP_M4_M68';
+const DEFAULT_PAWN = 'BP_Soldier_Rifleman';
+const SPAWN_DELAY_MS = 5_000;
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Derives stable IDs for a player name.
+ *
+ * @param name - Player name
+ * @param index - Position of the player in the script (used for the controller)
+ */
+export function generatedPlayerIds(name: string, index = 0): GeneratedPlayerIds {
+  const hash = createHash('md5').update(name).digest('hex');
+  const steamSuffix = (parseInt(hash.slice(0, 12), 16) % 10_000_000_000).toString().padStart(10, '0');
+
+  return {
+    eosID: hash,
+    steamID: `7656119${steamSuffix}`,
+    controller: `BP_PlayerController_C_${2_130_400_000 + index}`,
+  };
+}
+
+/**
+ * Generates the log lines for a scripted match, in order.
+ */
+export function generateMatchLog(script: MatchScript): string[] {
+  const start = (script.start ?? DEFAULT_START).getTime();
+  const teams = script.teams ?? DEFAULT_TEAMS;
+  const mapPath = `/Game/Maps/${script.level}/Gameplay_Layers/${script.layer}`;
+  const players = new Map<string, ResolvedPlayer>();
+  const lines: PendingLine[] = [];
+  let chain = 0;
+  let objectId = 0;
+
+  const push = (at: number, body: string, chainId = ++chain): number => {
+    lines.push({ at, chain: chainId, body });
+    return chainId;
+  };
+
+  const assets = new Map<string, string>();
+  const asset = (className: string): string => {
+    let instance = assets.get(className);
+    if (instance === undefined) {
+      instance = `${className}_C_${++objectId}`;
+      assets.set(className, instance);
+    }
+    return instance;
+  };
+
+  const player = (name: string): ResolvedPlayer => {
+    const found = players.get(name);
+    if (!found) {
+      throw new Error(`Unknown player in match script: ${name}`);
+    }
+    return found;
+  };
+
+  script.players.forEach((p, index) => {
+    const generated = generatedPlayerIds(p.name, index);
+    players.set(p.name, {
+      name: p.name,
+      team: p.team,
+      eosID: p.eosID ?? generated.eosID,
+      steamID: p.steamID ?? generated.steamID,
+      controller: generated.controller,
+      ip: p.ip ?? `10.0.${Math.floor(index / 250)}.${(index % 250) + 1}`,
+    });
+  });
+
+  // Map load
+  push(0, `LogWorld: Bringing World ${mapPath}.${script.layer} up for play (max tick rate ${script.tickRate ?? 50}) at ${formatLogTimestamp(new Date(start))}`);
+
+  // Joins, spawns and leaves
+  for (const scripted of script.players) {
+    const p = player(scripted.name);
+    const joinAt = scripted.joinAt ?? 0;
+
+    const joinChain = push(joinAt, `LogSquad: PostLogin: NewPlayer: BP_PlayerController_C ${mapPath}.${script.layer}:PersistentLevel.${p.controller} (IP: ${p.ip} | Online IDs: ${onlineIds(p)})`);
+    push(joinAt, `LogNet: Join succeeded: ${p.name}`, joinChain);
+    push(joinAt + SPAWN_DELAY_MS, `LogSquadTrace: [DedicatedServer]ASQPlayerController::OnPossess(): PC=${p.name} (Online IDs: ${onlineIds(p)}) Pawn=${DEFAULT_PAWN}_C_${++objectId} FullPath=${DEFAULT_PAWN}_C ${mapPath}.${script.layer}:PersistentLevel.${DEFAULT_PAWN}_C_${objectId}`);
+
+    if (scripted.leaveAt !== undefined) {
+      push(scripted.leaveAt, `LogNet: UChannel::Close: Sending CloseBunch. ChIndex == 0. Name: [UChannel] ChIndex: 0, Closing: 0 [UNetConnection] RemoteAddr: ${p.ip}:7777, Name: EOSIpNetConnection_${++objectId}, Driver: GameNetDriver EOSNetDriver_0, IsServer: YES, PC: ${p.controller}, Owner: ${p.controller}, UniqueId: RedpointEOS:${p.eosID}`);
+    }
+  }
+
+  // Scripted events
+  for (const event of script.events ?? []) {
+    switch (event.type) {
+      case 'damage': {
+        const attacker = player(event.attacker);
+        push(event.at, damageLine(event.victim, event.damage ?? 30, attacker, event.weapon ?? DEFAULT_WEAPON, ++objectId));
+        break;
+      }
+
+      case 'kill': {
+        const attacker = player(event.attacker);
+        const weapon = event.weapon ?? DEFAULT_WEAPON;
+        const damage = event.damage ?? 100;
+        const downTime = event.downTime ?? 10_000;
+        const weaponId = ++objectId;
+
+        const killChain = push(event.at, damageLine(event.victim, damage, attacker, weapon, weaponId));
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQSoldier::Wound(): Player:${event.victim} KillingDamage=${damage.toFixed(1)} from ${attacker.controller} (Online IDs: ${onlineIds(attacker)} | Controller ID: ${attacker.controller}) caused by ${weapon}_C_${weaponId}`, killChain);
+
+        if (event.revivedBy !== undefined) {
+          const reviver = player(event.revivedBy);
+          const victim = player(event.victim);
+          push(event.at + downTime, reviveLine(reviver, victim));
+        } else {
+          push(event.at + downTime, `LogSquadTrace: [DedicatedServer]ASQSoldier::Die(): Player:${event.victim} KillingDamage=${damage.toFixed(1)} from ${attacker.controller} (Online IDs: ${onlineIds(attacker)} | Contoller ID: ${attacker.controller}) caused by ${weapon}_C_${weaponId}`, killChain);
+        }
+        break;
+      }
+
+      case 'revive':
+        push(event.at, reviveLine(player(event.reviver), player(event.victim)));
+        break;
+
+      case 'possess': {
+        const p = player(event.player);
+        const pawn = event.pawn ?? DEFAULT_PAWN;
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQPlayerController::OnPossess(): PC=${p.name} (Online IDs: ${onlineIds(p)}) Pawn=${pawn}_C_${++objectId} FullPath=${pawn}_C ${mapPath}.${script.layer}:PersistentLevel.${pawn}_C_${objectId}`);
+        break;
+      }
+
+      case 'unpossess': {
+        const p = player(event.player);
+        const pawn = event.pawn ?? DEFAULT_PAWN;
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQPlayerController::OnUnPossess(): PC=${p.name} (Online IDs: ${onlineIds(p)}) Exited Vehicle Pawn=${pawn}_C_${++objectId} (Asset Name=${pawn}) FullPath=${pawn}_C`);
+        break;
+      }
+
+      case 'deployable-damage': {
+        const attacker = player(event.attacker);
+        const weapon = event.weapon ?? 'BP_Projectile_RPG7_HEAT';
+        const damage = event.damage ?? 500;
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQDeployable::TakeDamage(): ${event.deployable}_C_${++objectId}: ${damage.toFixed(2)} damage attempt by causer ${weapon}_C_${++objectId} instigator ${attacker.name} with damage type BP_Fragmentation_DamageType_C health remaining ${Math.max(0, 1000 - damage).toFixed(2)}`);
+        break;
+      }
+
+      case 'deployable-built': {
+        const p = player(event.player);
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQDeployable::OnConstructed(): ${asset(event.deployable)} constructed by ${p.name} on team ${p.team}`);
+        break;
+      }
+
+      case 'deployable-destroyed':
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQDeployable::Die(): ${asset(event.deployable)} destroyed${causeSuffix(event.attacker, event.weapon ?? 'BP_SatchelCharge', ++objectId)}`);
+        break;
+
+      case 'vehicle-enter': {
+        const p = player(event.player);
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQVehicleSeat::SeatPlayer(): Player:${p.name} (Online IDs: ${onlineIds(p)}) entered ${asset(event.vehicle)} seat ${event.seat ?? 0}`);
+        break;
+      }
+
+      case 'vehicle-damage': {
+        const attacker = player(event.attacker);
+        const weapon = event.weapon ?? 'BP_Projectile_RPG7_HEAT';
+        const damage = event.damage ?? 300;
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQVehicle::TakeDamage(): ${asset(event.vehicle)}: ${damage.toFixed(2)} damage attempt by causer ${weapon}_C_${++objectId} instigator ${attacker.name} with damage type BP_HEAT_DamageType_C health remaining ${Math.max(0, 1000 - damage).toFixed(2)}`);
+        break;
+      }
+
+      case 'vehicle-destroyed':
+        push(event.at, `LogSquadTrace: [DedicatedServer]ASQVehicle::Die(): ${asset(event.vehicle)} destroyed${causeSuffix(event.attacker, event.weapon ?? 'BP_Projectile_RPG7_HEAT', ++objectId)}`);
+        break;
+
+      case 'broadcast':
+        push(event.at, `LogSquad: ADMIN COMMAND: Message broadcasted <${event.message}> from ${event.from ?? 'RCON'}`);
+        break;
+
+      case 'tick-rate':
+        push(event.at, `LogSquad: USQGameState: Server Tick Rate: ${event.rate.toFixed(2)}`);
+        break;
+
+      case 'raw':
+        push(event.at, event.body);
+        break;
+    }
+  }
+
+  // Periodic tick rate
+  const tickRateInterval = script.tickRateInterval ?? 30_000;
+  if (tickRateInterval > 0) {
+    for (let at = tickRateInterval; at < script.duration; at += tickRateInterval) {
+      push(at, `LogSquad: USQGameState: Server Tick Rate: ${(script.tickRate ?? 50).toFixed(2)}`);
+    }
+  }
+
+  // Round end
+  const winner = script.winner ?? 1;
+  const loser = winner === 1 ? 2 : 1;
+  const tickets = script.tickets ?? (winner === 1 ? [150, 0] : [0, 150]);
+  const layerName = script.layer.replace(/_/g, ' ');
+  const winnerTeam = teams[winner - 1]!;
+  const loserTeam = teams[loser - 1]!;
+
+  push(script.duration, `LogSquadTrace: [DedicatedServer]ASQGameMode::DetermineMatchWinner(): ${winnerTeam.faction} won on ${layerName}`);
+  push(script.duration, `LogSquadGameEvents: Display: Team ${winner}, ${winnerTeam.subfaction} ( ${winnerTeam.faction} ) has won the match with ${tickets[winner - 1]} Tickets on layer ${layerName} (level ${script.level})!`);
+  push(script.duration, `LogSquadGameEvents: Display: Team ${loser}, ${loserTeam.subfaction} ( ${loserTeam.faction} ) has lost the match with ${tickets[loser - 1]} Tickets on layer ${layerName} (level ${script.level})!`);
+  push(script.duration, 'LogGameState: Match State Changed from InProgress to WaitingPostMatch');
+
+  // Array.prototype.sort is stable, so same-time lines keep script order
+  return lines
+    .sort((a, b) => a.at - b.at)
+    .map(({ at, chain: chainId, body }) =>
+      `[${formatLogTimestamp(new Date(start + at))}][${String(chainId).padStart(3, ' ')}]${body}`,
+    );
+}
+
+/**
+ * Builds a random but reproducible match script, for load tests.
+ */
+export function randomMatchScript(options: RandomMatchOptions = {}): MatchScript {
+  const random = mulberry32(options.seed ?? 1);
+  const playerCount = options.players ?? 80;
+  const duration = options.duration ?? 30 * 60_000;
+  const killCount = Math.round((duration / 60_000) * (options.killsPerMinute ?? 20));
+  const reviveRate = options.reviveRate ?? 0.4;
+
+  const players: ScriptedPlayer[] = Array.from({ length: playerCount }, (_, i) => ({
+    name: `Player${i + 1}`,
+    team: i % 2 === 0 ? 1 : 2,
+    joinAt: Math.floor(random() * 60_000),
+  }));
+
+  const pick = (team: 1 | 2, except?: string): ScriptedPlayer | undefined => {
+    const candidates = players.filter((p) => p.team === team && p.name !== except);
+    return candidates[Math.floor(random() * candidates.length)];
+  };
+
+  const events: ScriptedEvent[] = [];
+  for (let i = 0; i < killCount; i++) {
+    const attackerTeam: 1 | 2 = random() < 0.5 ? 1 : 2;
+    const attacker = pick(attackerTeam);
+    const victim = pick(attackerTeam === 1 ? 2 : 1);
+    if (!attacker || !victim) continue;
+
+    const reviver = random() < reviveRate ? pick(victim.team, victim.name) : undefined;
+    events.push({
+      type: 'kill',
+      at: 90_000 + Math.floor(random() * Math.max(0, duration - 120_000)),
+      attacker: attacker.name,
+      victim: victim.name,
+      damage: Math.round(30 + random() * 120),
+      revivedBy: reviver?.name,
+    });
+  }
+
+  return {
+    level: options.level ?? 'Narva',
+    layer: options.layer ?? 'Narva_RAAS_v1',
+    players,
+    events,
+    duration,
+    winner: random() < 0.5 ? 1 : 2,
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function onlineIds(player: ResolvedPlayer): string {
+  return `EOS: ${player.eosID} steam: ${player.steamID}`;
+}
+
+function damageLine(
+  victim: string,
+  damage: number,
+  attacker: ResolvedPlayer,
+  weapon: string,
+  weaponId: number,
+): string {
+  return `LogSquad: Player:${victim} ActualDamage=${damage.toFixed(1)} from ${attacker.name} (Online IDs: ${onlineIds(attacker)} | Player Controller ID: ${attacker.controller})caused by ${weapon}_C_${weaponId}`;
+}
+
+function causeSuffix(attacker: string | undefined, weapon: string, weaponId: number): string {
+  return attacker === undefined ? '' : ` by causer ${weapon}_C_${weaponId} instigator ${attacker}`;
+}
+
+function reviveLine(reviver: ResolvedPlayer, victim: ResolvedPlayer): string {
+  return `LogSquad: ${reviver.name} (Online IDs: ${onlineIds(reviver)}) has revived ${victim.name} (Online IDs: ${onlineIds(victim)}).`;
+}
+
+/**
+ * Small seeded PRNG so random scripts are reproducible.
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
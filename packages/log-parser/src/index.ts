@@ -43,33 +43,63 @@ export {
 
 export {
 	createLogReader,
+	FileCheckpointStore,
 	FtpLogReader,
+	LogCheckpointer,
+	ReplayLogReader,
 	SftpLogReader,
 	TailLogReader,
+	type CheckpointStore,
 	type FtpLogReaderOptions,
+	type LineInfo,
+	type LogCheckpoint,
+	type LogCheckpointOptions,
 	type LogReader,
+	type ReplayLogReaderOptions,
 	type SftpLogReaderOptions,
 	type TailLogReaderOptions,
 } from "./readers";
 
+// ============================================================================
+// Log Generator
+// ============================================================================
+
+export {
+	generateMatchLog,
+	generatedPlayerIds,
+	randomMatchScript,
+	type GeneratedPlayerIds,
+	type MatchScript,
+	type RandomMatchOptions,
+	type ScriptedEvent,
+	type ScriptedPlayer,
+	type ScriptedTeam,
+} from "./generator";
+
 // ============================================================================
 // Parsing Rules
 // ============================================================================
 
 export {
 	adminBroadcastRule,
+	CUSTOM_LOG_EVENT,
+	createCustomRule,
 	createLogRegex,
 	defaultRules,
 	defineRule,
+	deployableConstructedRule,
 	deployableDamagedRule,
+	deployableDestroyedRule,
 	excludeRules,
 	extendRules,
 	filterRules,
+	findPlayerByName,
 	newGameRule,
 	playerConnectedRule,
 	playerDamagedRule,
 	playerDiedRule,
 	playerDisconnectedRule,
+	playerEnteredVehicleRule,
 	playerJoinSucceededRule,
 	playerPossessRule,
 	playerRevivedRule,
@@ -79,6 +109,8 @@ export {
 	roundTicketsRule,
 	roundWinnerRule,
 	serverTickRateRule,
+	vehicleDamagedRule,
+	vehicleDestroyedRule,
 	type ParsingRule,
 } from "./rules";
 
@@ -102,8 +134,20 @@ export {
 	type JoinRequest,
 	type RoundResult,
 	type StoredPlayer,
+	type VehicleDamage,
 } from "./store";
 
+// ============================================================================
+// Statistics
+// ============================================================================
+
+export {
+	normalizeUnmatchedLine,
+	type UnmatchedLineCluster,
+	type UnmatchedLineClustersOptions,
+	UnmatchedLineClusters,
+} from "./stats";
+
 // ============================================================================
 // Events
 // ============================================================================
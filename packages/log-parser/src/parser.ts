@@ -17,6 +17,7 @@ import type { ParsingRule, ParseContext } from './rules/base.js';
 import { defaultRules } from './rules/index.js';
 import { EventStore } from './store/event-store.js';
 import { BoundedQueue } from './queue/bounded-queue.js';
+import { UnmatchedLineClusters, type UnmatchedLineCluster } from './stats/unmatched-clusters.js';
 import { LogParserError } from './errors.js';
 import type {
   LogParserEventMap,
@@ -25,6 +26,9 @@ import type {
   InternalStats,
 } from './types.js';
 
+/** Clusters included in getStats(); getUnmatchedClusters() returns all. */
+const STATS_CLUSTER_LIMIT = 20;
+
 // =============================================================================
 // LogParser Class
 // =============================================================================
@@ -64,10 +68,10 @@ import type {
 export class LogParser extends TypedEventEmitter<LogParserEventMap> {
   private readonly reader: LogReader;
   private readonly logger: Logger;
-  private readonly rules: readonly ParsingRule[];
+  private readonly rules: ParsingRule[];
   private readonly store: EventStore;
   private readonly queue: BoundedQueue<string>;
-  private readonly unmatchedSamples: string[] = [];
+  private readonly unmatched: UnmatchedLineClusters;
 
   private isWatching = false;
   private processingInterval: ReturnType<typeof setInterval> | null = null;
@@ -78,7 +82,9 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
     linesMatched: 0,
     linesUnmatched: 0,
     linesDropped: 0,
+    linesReplayed: 0,
     eventCounts: {},
+    ruleCounts: {},
     totalLatencyMs: 0,
     matchedForLatency: 0,
   };
@@ -88,8 +94,11 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
 
     this.reader = options.reader;
     this.logger = options.logger;
-    this.rules = options.rules ?? defaultRules;
+    this.rules = [...(options.rules ?? defaultRules)];
     this.store = options.store ?? new EventStore();
+    this.unmatched = new UnmatchedLineClusters({
+      maxClusters: options.maxUnmatchedClusters ?? 100,
+    });
 
     // Create bounded queue with backpressure handling
     this.queue = new BoundedQueue<string>({
@@ -125,9 +134,14 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
 
     this.logger.info('log-parser', 'Starting log parser...');
 
-    // Start the log reader
-    const watchResult = await this.reader.watch((line) => {
-      this.queue.enqueue(line);
+    // Start the log reader. Catch-up lines skip the queue: dropping
+    // them on overflow would reopen the gap the checkpoint closes.
+    const watchResult = await this.reader.watch((line, info) => {
+      if (info?.replayed) {
+        this.processLine(line, true);
+      } else {
+        this.queue.enqueue(line);
+      }
     });
 
     if (!watchResult.ok) {
@@ -210,15 +224,27 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
       linesMatched: this.stats.linesMatched,
       linesUnmatched: this.stats.linesUnmatched,
       linesDropped: this.stats.linesDropped,
+      linesReplayed: this.stats.linesReplayed,
       eventCounts: { ...this.stats.eventCounts },
+      ruleCounts: { ...this.stats.ruleCounts },
       queueDepth: queueStats.currentDepth,
       averageLatencyMs: this.stats.matchedForLatency > 0
         ? this.stats.totalLatencyMs / this.stats.matchedForLatency
         : 0,
       peakQueueDepth: queueStats.peakDepth,
+      unmatchedClusters: this.unmatched.getClusters(STATS_CLUSTER_LIMIT),
     };
   }
 
+  /**
+   * Returns all tracked unmatched line clusters, most frequent first.
+   *
+   * @param limit - Maximum number of clusters to return
+   */
+  getUnmatchedClusters(limit?: number): UnmatchedLineCluster[] {
+    return this.unmatched.getClusters(limit);
+  }
+
   /**
    * Resets statistics counters.
    */
@@ -227,10 +253,65 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
     this.stats.linesMatched = 0;
     this.stats.linesUnmatched = 0;
     this.stats.linesDropped = 0;
+    this.stats.linesReplayed = 0;
     this.stats.eventCounts = {};
+    this.stats.ruleCounts = {};
     this.stats.totalLatencyMs = 0;
     this.stats.matchedForLatency = 0;
     this.queue.resetStats();
+    this.unmatched.reset();
+  }
+
+  /**
+   * Registers a parsing rule while the parser is running.
+   *
+   * Rules added at runtime are evaluated after the existing rules by
+   * default, so they only see lines nothing else matched.
+   *
+   * @param rule - The rule to add
+   * @param options - `position: 'first'` evaluates it before every other rule
+   * @returns Result failing with RULE_ERROR if a rule with the same name exists
+   */
+  addRule(
+    rule: ParsingRule,
+    options: { position?: 'first' | 'last' } = {},
+  ): Result<void, LogParserError> {
+    if (this.rules.some((existing) => existing.name === rule.name)) {
+      return Err(new LogParserError(
+        'RULE_ERROR',
+        `A rule named "${rule.name}" is already registered`,
+        { rule: rule.name },
+      ));
+    }
+
+    if (options.position === 'first') {
+      this.rules.unshift(rule);
+    } else {
+      this.rules.push(rule);
+    }
+
+    return Ok(undefined);
+  }
+
+  /**
+   * Removes a parsing rule by name.
+   *
+   * @param name - The rule name
+   * @returns Whether a rule was removed
+   */
+  removeRule(name: string): boolean {
+    const index = this.rules.findIndex((rule) => rule.name === name);
+    if (index === -1) return false;
+
+    this.rules.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Returns the rules in evaluation order.
+   */
+  getRules(): readonly ParsingRule[] {
+    return [...this.rules];
   }
 
   /**
@@ -265,9 +346,14 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
 
   /**
    * Processes a single log line.
+   *
+   * @param replayed - Whether the line was caught up from a checkpoint
    */
-  private processLine(line: string): void {
+  private processLine(line: string, replayed = false): void {
     this.stats.linesProcessed++;
+    if (replayed) {
+      this.stats.linesReplayed++;
+    }
 
     const context: ParseContext = {
       store: this.store,
@@ -293,11 +379,13 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
           this.stats.linesMatched++;
           this.stats.eventCounts[rule.eventName] =
             (this.stats.eventCounts[rule.eventName] ?? 0) + 1;
+          this.stats.ruleCounts[rule.name] = (this.stats.ruleCounts[rule.name] ?? 0) + 1;
           this.stats.totalLatencyMs += endTime - startTime;
           this.stats.matchedForLatency++;
 
-          // Emit the event
-          this.emit(rule.eventName as keyof LogParserEventMap, event as never);
+          // Emit the event, flagged if it happened before we started
+          const emitted = replayed ? Object.freeze({ ...event, replayed: true }) : event;
+          this.emit(rule.eventName as keyof LogParserEventMap, emitted as never);
         }
       } catch (error) {
         this.logger.error('log-parser', `Error in rule ${rule.name}`, error instanceof Error ? error : undefined);
@@ -310,9 +398,7 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
     // No rule matched
     this.stats.linesUnmatched++;
 
-    if (this.unmatchedSamples.length < 5 && line.length > 0) {
-      this.unmatchedSamples.push(line.slice(0, 220));
-    }
+    this.unmatched.record(line);
 
     // Log unmatched lines at trace level for debugging
     this.logger.verbose('log-parser', `Unmatched line: ${line.slice(0, 100)}...`);
@@ -338,7 +424,7 @@ export class LogParser extends TypedEventEmitter<LogParserEventMap> {
         'log-parser',
         'No log lines matched parser rules yet; Squad log format may differ from expected patterns',
         {
-          sampleUnmatchedLines: this.unmatchedSamples,
+          sampleUnmatchedLines: stats.unmatchedClusters.slice(0, 5).map((cluster) => cluster.sample),
         },
       );
     }
@@ -12,17 +12,30 @@
 
 import type { Result } from '@squadscript/types';
 import type { LogReaderError } from '../errors.js';
+import type { LogCheckpointOptions } from './checkpoint.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * Details about a delivered line.
+ */
+export interface LineInfo {
+  /**
+   * Whether the line was written before the reader started and is being
+   * caught up from a checkpoint.
+   */
+  readonly replayed: boolean;
+}
+
 /**
  * Callback for receiving log lines.
  *
  * @param line - A single line from the log file (without line ending)
+ * @param info - Details about the line
  */
-export type LineCallback = (line: string) => void;
+export type LineCallback = (line: string, info?: LineInfo) => void;
 
 /**
  * Options common to all log readers.
@@ -41,6 +54,12 @@ export interface LogReaderBaseOptions {
    * @default "SquadGame.log"
    */
   readonly filename?: string | undefined;
+
+  /**
+   * Persist the read position and resume from it on the next start.
+   * Without it, readers start at their usual position.
+   */
+  readonly checkpoint?: LogCheckpointOptions | undefined;
 }
 
 /**
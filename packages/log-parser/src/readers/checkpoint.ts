@@ -0,0 +1,297 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Read checkpoints for gap-free resume after a restart.
+ *
+ * Readers record how far they have delivered the log and, on the next
+ * start, pick up from there instead of the end of the file. Lines read
+ * while catching up are delivered as replayed.
+ *
+ * @module
+ */
+
+import { dirname } from 'node:path';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+import { LOG_PREFIX } from '../utils/regex.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Position of a reader in a log file.
+ */
+export interface LogCheckpoint {
+  /** Path of the log file the checkpoint belongs to. */
+  readonly filePath: string;
+
+  /** Byte offset just past the last delivered line. */
+  readonly offset: number;
+
+  /**
+   * The last delivered line. Identifies the file: after a rotation or
+   * truncation it no longer ends at `offset`.
+   */
+  readonly lastLine: string;
+
+  /** Timestamp of the last delivered line (ISO 8601), if it had one. */
+  readonly lastLineTime: string | null;
+
+  /** When the checkpoint was written (ISO 8601). */
+  readonly savedAt: string;
+}
+
+/**
+ * Persistence for a reader's checkpoint.
+ */
+export interface CheckpointStore {
+  /** Returns the saved checkpoint, or null if there is none. */
+  load(): Promise<LogCheckpoint | null>;
+
+  /** Replaces the saved checkpoint. */
+  save(checkpoint: LogCheckpoint): Promise<void>;
+}
+
+/**
+ * Checkpoint options shared by all readers.
+ */
+export interface LogCheckpointOptions {
+  /** Where the checkpoint is kept. */
+  readonly store: CheckpointStore;
+
+  /**
+   * Oldest checkpoint still resumed from, in ms. After a longer outage
+   * the reader starts from the end of the file as if there were none.
+   * @default 900000 (15 minutes)
+   */
+  readonly maxCatchUpAge?: number | undefined;
+
+  /**
+   * Largest backlog read on resume, in bytes. A bigger backlog is
+   * skipped and the reader starts from the end of the file.
+   * @default 33554432 (32 MiB)
+   */
+  readonly maxCatchUpBytes?: number | undefined;
+
+  /**
+   * Interval in ms between checkpoint saves while watching.
+   * @default 5000
+   */
+  readonly saveInterval?: number | undefined;
+}
+
+// =============================================================================
+// FileCheckpointStore Class
+// =============================================================================
+
+/**
+ * Keeps a checkpoint in a JSON file.
+ *
+ * Writes go to a temporary file that is renamed over the old one, so a
+ * crash mid-write never leaves a corrupt checkpoint behind.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<LogCheckpoint | null> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(text) as Partial<LogCheckpoint>;
+      if (
+        typeof data.filePath !== 'string'
+        || typeof data.offset !== 'number'
+        || typeof data.lastLine !== 'string'
+        || typeof data.savedAt !== 'string'
+      ) {
+        return null;
+      }
+      return {
+        filePath: data.filePath,
+        offset: data.offset,
+        lastLine: data.lastLine,
+        lastLineTime: typeof data.lastLineTime === 'string' ? data.lastLineTime : null,
+        savedAt: data.savedAt,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async save(checkpoint: LogCheckpoint): Promise<void> {
+    const tempPath = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    await rename(tempPath, this.path);
+  }
+}
+
+// =============================================================================
+// LogCheckpointer Class
+// =============================================================================
+
+/**
+ * Tracks a reader's position and saves it periodically.
+ *
+ * Readers call `restore()` on watch to find where to resume, `commit()`
+ * after delivering lines, and `stop()` on unwatch.
+ */
+export class LogCheckpointer {
+  private readonly store: CheckpointStore;
+  private readonly maxCatchUpAge: number;
+  private readonly maxCatchUpBytes: number;
+  private readonly saveInterval: number;
+
+  private offset = 0;
+  private lastLine: string | null = null;
+  private lastLineTime: string | null = null;
+  private dirty = false;
+  private saveTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    options: LogCheckpointOptions,
+  ) {
+    this.store = options.store;
+    this.maxCatchUpAge = options.maxCatchUpAge ?? 15 * 60 * 1000;
+    this.maxCatchUpBytes = options.maxCatchUpBytes ?? 32 * 1024 * 1024;
+    this.saveInterval = options.saveInterval ?? 5000;
+  }
+
+  /**
+   * Loads the saved checkpoint if it can be resumed from.
+   *
+   * Returns null when there is none, it belongs to another file, or it
+   * is older than `maxCatchUpAge`.
+   */
+  async restore(): Promise<LogCheckpoint | null> {
+    let checkpoint: LogCheckpoint | null;
+    try {
+      checkpoint = await this.store.load();
+    } catch {
+      return null;
+    }
+
+    if (!checkpoint || checkpoint.filePath !== this.filePath) {
+      return null;
+    }
+
+    const age = Date.now() - new Date(checkpoint.savedAt).getTime();
+    if (!(age <= this.maxCatchUpAge)) {
+      return null;
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * Byte range that must be read to check the checkpoint still matches
+   * the file: the last line and its line ending.
+   *
+   * Returns null when there is nothing worth reading: the file is now
+   * shorter than the checkpoint, or the backlog is too large either way.
+   */
+  probeRange(checkpoint: LogCheckpoint, size: number): { start: number; end: number } | null {
+    const length = Buffer.byteLength(checkpoint.lastLine) + 2;
+    const start = Math.max(0, checkpoint.offset - length);
+    if (checkpoint.offset === 0 || size < checkpoint.offset || size - start > this.maxCatchUpBytes) {
+      return null;
+    }
+    return { start, end: checkpoint.offset };
+  }
+
+  /**
+   * Decides where to resume reading.
+   *
+   * @param checkpoint - Checkpoint returned by `restore()`
+   * @param size - Current size of the file
+   * @param probe - Content of `probeRange()`, or null if it couldn't be read
+   * @returns Offset to read from, or null to start from the end of the file
+   */
+  resumeOffset(checkpoint: LogCheckpoint, size: number, probe: string | null): number | null {
+    const sameFile = size >= checkpoint.offset
+      && probe !== null
+      && probe.replace(/\r?\n$/, '').endsWith(checkpoint.lastLine);
+
+    // Rotated or truncated: the whole new file is backlog
+    const start = sameFile ? checkpoint.offset : 0;
+    return size - start > this.maxCatchUpBytes ? null : start;
+  }
+
+  /**
+   * Records that every line up to `offset` has been delivered.
+   *
+   * @param offset - Byte offset just past the last complete line
+   * @param lastLine - The last delivered line, or null if none was delivered
+   */
+  commit(offset: number, lastLine: string | null): void {
+    if (offset === this.offset && lastLine === null) {
+      return;
+    }
+
+    this.offset = offset;
+    if (lastLine !== null) {
+      this.lastLine = lastLine;
+      const match = LOG_PREFIX.exec(lastLine);
+      const time = match?.[1] ? parseLogTimestamp(match[1]) : null;
+      if (time) {
+        this.lastLineTime = time.toISOString();
+      }
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Starts saving the checkpoint periodically.
+   */
+  start(): void {
+    this.stopTimer();
+    this.saveTimer = setInterval(() => {
+      void this.flush();
+    }, this.saveInterval);
+  }
+
+  /**
+   * Stops periodic saves and writes the final position.
+   */
+  async stop(): Promise<void> {
+    this.stopTimer();
+    await this.flush();
+  }
+
+  /**
+   * Saves the checkpoint if it changed since the last save.
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty || this.lastLine === null) {
+      return;
+    }
+
+    this.dirty = false;
+    try {
+      await this.store.save({
+        filePath: this.filePath,
+        offset: this.offset,
+        lastLine: this.lastLine,
+        lastLineTime: this.lastLineTime,
+        savedAt: new Date().toISOString(),
+      });
+    } catch {
+      // Keep watching; the next save retries
+      this.dirty = true;
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+}
@@ -4,15 +4,18 @@
  * FTP-based log reader for remote servers.
  *
  * Periodically fetches log file content from an FTP server and
- * delivers new lines since the last fetch.
+ * delivers new lines since the last fetch. With a checkpoint, resumes
+ * where the previous run stopped.
  *
  * @module
  */
 
+import type { Client } from 'basic-ftp';
 import type { Result } from '@squadscript/types';
 import { Ok, Err } from '@squadscript/types';
 import type { LogReader, LineCallback, LogReaderBaseOptions } from './base.js';
 import { LogReaderError } from '../errors.js';
+import { LogCheckpointer } from './checkpoint.js';
 
 // =============================================================================
 // Types
@@ -99,6 +102,7 @@ export class FtpLogReader implements LogReader {
   private readonly options: FtpLogReaderOptions;
   private readonly _filePath: string;
   private readonly fetchInterval: number;
+  private readonly checkpointer: LogCheckpointer | null;
 
   private callback: LineCallback | null = null;
   private fetchTimer: ReturnType<typeof setInterval> | null = null;
@@ -106,12 +110,17 @@ export class FtpLogReader implements LogReader {
   private lineBuffer = '';
   private _isWatching = false;
   private isFetching = false;
+  private resuming = false;
+  private replaying = false;
 
   constructor(options: FtpLogReaderOptions) {
     this.options = options;
     const filename = options.filename ?? 'SquadGame.log';
     this._filePath = `${options.logDir}/${filename}`.replace(/\/+/g, '/');
     this.fetchInterval = options.fetchInterval ?? 5000;
+    this.checkpointer = options.checkpoint
+      ? new LogCheckpointer(this._filePath, options.checkpoint)
+      : null;
   }
 
   /**
@@ -151,6 +160,10 @@ export class FtpLogReader implements LogReader {
     this.lastPosition = 0;
     this.lineBuffer = '';
 
+    // With a checkpoint, the first fetch decides where to start
+    this.resuming = this.checkpointer !== null;
+    this.checkpointer?.start();
+
     // Start periodic fetching
     this.fetchTimer = setInterval(() => {
       void this.fetchNewContent();
@@ -178,9 +191,14 @@ export class FtpLogReader implements LogReader {
       this.fetchTimer = null;
     }
 
+    // Save the final position
+    await this.checkpointer?.stop();
+
     this.callback = null;
     this._isWatching = false;
     this.lineBuffer = '';
+    this.resuming = false;
+    this.replaying = false;
 
     return Ok(undefined);
   }
@@ -268,6 +286,12 @@ export class FtpLogReader implements LogReader {
         // Get file size
         const size = await client.size(this._filePath);
 
+        // Resume from the checkpoint on the first fetch
+        if (this.resuming) {
+          await this.restoreCheckpoint(client, size);
+          this.resuming = false;
+        }
+
         // Detect log rotation
         if (size < this.lastPosition) {
           this.lastPosition = 0;
@@ -276,24 +300,14 @@ export class FtpLogReader implements LogReader {
 
         // Read new content if available
         if (size > this.lastPosition) {
-          // Create a writable stream to collect data
-          const chunks: Buffer[] = [];
-          const { Writable } = await import('node:stream');
-
-          const writableStream = new Writable({
-            write(chunk: Buffer, _encoding, callback) {
-              chunks.push(chunk);
-              callback();
-            },
-          });
-
           // Download from last position
-          await client.downloadTo(writableStream, this._filePath, this.lastPosition);
-
-          const content = Buffer.concat(chunks).toString('utf-8');
-          this.lastPosition = size;
-          this.processContent(content);
+          const data = await this.download(client, this.lastPosition);
+          this.lastPosition += data.length;
+          this.deliver(data);
         }
+
+        // Everything written before the reader started has been delivered
+        this.replaying = false;
       } finally {
         client.close();
       }
@@ -304,11 +318,80 @@ export class FtpLogReader implements LogReader {
     }
   }
 
+  /**
+   * Downloads the log file from `startAt` to its end.
+   */
+  private async download(client: Client, startAt: number): Promise<Buffer> {
+    // Create a writable stream to collect data
+    const chunks: Buffer[] = [];
+    const { Writable } = await import('node:stream');
+
+    const writableStream = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+    await client.downloadTo(writableStream, this._filePath, startAt);
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Picks the starting position from the checkpoint. Without a usable
+   * checkpoint, reading starts at the end of the file.
+   */
+  private async restoreCheckpoint(client: Client, size: number): Promise<void> {
+    this.lastPosition = size;
+
+    const checkpoint = await this.checkpointer?.restore();
+    if (!this.checkpointer || !checkpoint) {
+      return;
+    }
+
+    // The probe download also holds the backlog when the file is unchanged
+    const range = this.checkpointer.probeRange(checkpoint, size);
+    let probe: string | null = null;
+    let backlog: Buffer | null = null;
+    if (range) {
+      const data = await this.download(client, range.start);
+      probe = data.subarray(0, range.end - range.start).toString('utf-8');
+      backlog = data.subarray(range.end - range.start);
+    }
+
+    const resumeFrom = this.checkpointer.resumeOffset(checkpoint, size, probe);
+    if (resumeFrom === null) {
+      return;
+    }
+
+    this.replaying = true;
+    if (resumeFrom === checkpoint.offset && backlog) {
+      this.lastPosition = checkpoint.offset + backlog.length;
+      this.deliver(backlog);
+    } else {
+      this.lastPosition = resumeFrom;
+    }
+  }
+
+  /**
+   * Delivers downloaded content and records the new position.
+   * `lastPosition` must already include the content.
+   */
+  private deliver(data: Buffer): void {
+    const lastLine = this.processContent(data.toString('utf-8'));
+    this.checkpointer?.commit(
+      this.lastPosition - Buffer.byteLength(this.lineBuffer),
+      lastLine,
+    );
+  }
+
   /**
    * Processes content and delivers complete lines to callback.
+   *
+   * @returns The last line delivered, or null if none was
    */
-  private processContent(content: string): void {
-    if (!this.callback) return;
+  private processContent(content: string): string | null {
+    if (!this.callback) return null;
 
     // Add to line buffer
     this.lineBuffer += content;
@@ -320,10 +403,15 @@ export class FtpLogReader implements LogReader {
     this.lineBuffer = lines.pop() ?? '';
 
     // Deliver complete lines
+    const info = { replayed: this.replaying };
+    let lastLine: string | null = null;
     for (const line of lines) {
       if (line.length > 0) {
-        this.callback(line);
+        this.callback(line, info);
+        lastLine = line;
       }
     }
+
+    return lastLine;
   }
 }
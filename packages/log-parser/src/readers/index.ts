@@ -7,16 +7,25 @@
  */
 
 import type { LogReaderConfig } from '@squadscript/types';
-import type { LogReader } from './base.js';
+import type { LogReader, LogReaderBaseOptions } from './base.js';
 import { TailLogReader } from './tail.js';
 import { FtpLogReader } from './ftp.js';
 import { SftpLogReader } from './sftp.js';
+import { FileCheckpointStore } from './checkpoint.js';
 
 // Re-export base types and implementations
-export { type LogReader, type LineCallback, type LogReaderBaseOptions } from './base.js';
+export { type LogReader, type LineCallback, type LineInfo, type LogReaderBaseOptions } from './base.js';
+export {
+  FileCheckpointStore,
+  LogCheckpointer,
+  type CheckpointStore,
+  type LogCheckpoint,
+  type LogCheckpointOptions,
+} from './checkpoint.js';
 export { TailLogReader, type TailLogReaderOptions } from './tail.js';
 export { FtpLogReader, type FtpLogReaderOptions, type FtpConfig } from './ftp.js';
 export { SftpLogReader, type SftpLogReaderOptions, type SftpConfig } from './sftp.js';
+export { ReplayLogReader, type ReplayLogReaderOptions } from './replay.js';
 
 /**
  * Creates a LogReader from a configuration object.
@@ -40,20 +49,26 @@ export { SftpLogReader, type SftpLogReaderOptions, type SftpConfig } from './sft
  * ```
  */
 export function createLogReader(config: LogReaderConfig): LogReader {
+  const base: LogReaderBaseOptions = {
+    logDir: config.logDir,
+    filename: config.filename,
+    checkpoint: config.checkpoint && {
+      store: new FileCheckpointStore(config.checkpoint.file),
+      maxCatchUpAge: config.checkpoint.maxCatchUpAge,
+      maxCatchUpBytes: config.checkpoint.maxCatchUpBytes,
+    },
+  };
+
   switch (config.mode) {
     case 'tail':
-      return new TailLogReader({
-        logDir: config.logDir,
-        filename: config.filename,
-      });
+      return new TailLogReader(base);
 
     case 'ftp':
       if (!config.ftp) {
         throw new Error('FTP configuration required for FTP mode');
       }
       return new FtpLogReader({
-        logDir: config.logDir,
-        filename: config.filename,
+        ...base,
         ftp: config.ftp,
       });
 
@@ -62,8 +77,7 @@ export function createLogReader(config: LogReaderConfig): LogReader {
         throw new Error('SFTP configuration required for SFTP mode');
       }
       return new SftpLogReader({
-        logDir: config.logDir,
-        filename: config.filename,
+        ...base,
         sftp: config.ftp,
       });
 
@@ -0,0 +1,306 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Replay reader for archived log files.
+ *
+ * Plays a recorded SquadGame.log back line by line, spacing lines by the
+ * gaps between their timestamps. Used for load tests, regression fixtures
+ * and running plugins without a live server.
+ *
+ * @module
+ */
+
+import { join } from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import type { Result } from '@squadscript/types';
+import { Ok, Err } from '@squadscript/types';
+import type { LogReader, LineCallback, LogReaderBaseOptions } from './base.js';
+import { LogReaderError } from '../errors.js';
+import { formatLogTimestamp, parseLogTimestamp } from '../utils/date-parser.js';
+import { LOG_PREFIX } from '../utils/regex.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for ReplayLogReader.
+ */
+export interface ReplayLogReaderOptions extends LogReaderBaseOptions {
+  /**
+   * Playback speed multiplier. 1 replays in real time, 10 ten times
+   * faster. `Infinity` delivers lines as fast as possible.
+   * @default 1
+   */
+  readonly speed?: number;
+
+  /**
+   * Whether to keep the recorded timestamps or rewrite them so the
+   * first line is stamped with the time playback started.
+   * @default "preserve"
+   */
+  readonly timestamps?: 'preserve' | 'rewrite';
+
+  /**
+   * Longest wait between two lines in ms (after applying speed), so
+   * quiet stretches such as map changes don't stall playback.
+   * @default Infinity
+   */
+  readonly maxGap?: number;
+
+  /**
+   * Lines delivered per tick when playing at `Infinity` speed.
+   * @default 100
+   */
+  readonly batchSize?: number;
+
+  /**
+   * Start again from the first line after the last one.
+   * @default false
+   */
+  readonly loop?: boolean;
+
+  /**
+   * Called after the last line has been delivered (each pass when looping).
+   */
+  readonly onEnd?: () => void;
+}
+
+interface ReplayLine {
+  readonly line: string;
+  /** Recorded time in ms, or null for lines without a timestamp. */
+  readonly time: number | null;
+}
+
+// =============================================================================
+// ReplayLogReader Class
+// =============================================================================
+
+/**
+ * Replays an archived log file at real or accelerated speed.
+ *
+ * Lines without a timestamp (multi-line messages, engine banners) are
+ * delivered together with the line before them.
+ *
+ * @example
+ * ```typescript
+ * const reader = new ReplayLogReader({
+ *   logDir: './fixtures',
+ *   filename: 'match.log',
+ *   speed: 20,
+ *   timestamps: 'rewrite',
+ * });
+ *
+ * const parser = new LogParser({ reader, logger });
+ * await parser.watch();
+ * ```
+ */
+export class ReplayLogReader implements LogReader {
+  private readonly _filePath: string;
+  private readonly speed: number;
+  private readonly rewriteTimestamps: boolean;
+  private readonly maxGap: number;
+  private readonly batchSize: number;
+  private readonly loop: boolean;
+  private readonly onEnd: (() => void) | null;
+
+  private callback: LineCallback | null = null;
+  private lines: ReplayLine[] = [];
+  private position = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private playbackStart = 0;
+  private recordingStart = 0;
+  private _linesDelivered = 0;
+  private _isWatching = false;
+
+  constructor(options: ReplayLogReaderOptions) {
+    const filename = options.filename ?? 'SquadGame.log';
+    this._filePath = join(options.logDir, filename);
+    this.speed = options.speed ?? 1;
+    this.rewriteTimestamps = options.timestamps === 'rewrite';
+    this.maxGap = options.maxGap ?? Infinity;
+    this.batchSize = options.batchSize ?? 100;
+    this.loop = options.loop ?? false;
+    this.onEnd = options.onEnd ?? null;
+  }
+
+  /**
+   * The full path to the log file being replayed.
+   */
+  get filePath(): string {
+    return this._filePath;
+  }
+
+  /**
+   * Whether the reader is currently replaying.
+   */
+  get isWatching(): boolean {
+    return this._isWatching;
+  }
+
+  /**
+   * Number of lines delivered so far (across all loops).
+   */
+  get linesDelivered(): number {
+    return this._linesDelivered;
+  }
+
+  /**
+   * Whether every line has been delivered (never true when looping).
+   */
+  get finished(): boolean {
+    return this.lines.length > 0 && this.position >= this.lines.length;
+  }
+
+  /**
+   * Loads the file and starts playback.
+   */
+  async watch(callback: LineCallback): Promise<Result<void, LogReaderError>> {
+    if (this._isWatching) {
+      return Err(new LogReaderError(
+        'ALREADY_WATCHING',
+        `Already replaying ${this._filePath}`,
+        { filePath: this._filePath },
+      ));
+    }
+
+    if (!existsSync(this._filePath)) {
+      return Err(new LogReaderError(
+        'FILE_NOT_FOUND',
+        `Log file not found: ${this._filePath}`,
+        { filePath: this._filePath },
+      ));
+    }
+
+    try {
+      const content = await readFile(this._filePath, 'utf-8');
+      this.lines = content
+        .split(/\r?\n/)
+        .filter((line) => line.length > 0)
+        .map((line) => ({ line, time: readTimestamp(line) }));
+    } catch (error) {
+      return Err(new LogReaderError(
+        'READ_FAILED',
+        `Failed to read log file: ${this._filePath}`,
+        { filePath: this._filePath },
+        error instanceof Error ? error : undefined,
+      ));
+    }
+
+    this.callback = callback;
+    this._linesDelivered = 0;
+    this._isWatching = true;
+    this.restart();
+
+    return Ok(undefined);
+  }
+
+  /**
+   * Stops playback.
+   */
+  async unwatch(): Promise<Result<void, LogReaderError>> {
+    if (!this._isWatching) {
+      return Err(new LogReaderError(
+        'NOT_WATCHING',
+        'Not currently watching any file',
+      ));
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.callback = null;
+    this.lines = [];
+    this.position = 0;
+    this._isWatching = false;
+    return Ok(undefined);
+  }
+
+  /**
+   * Starts a pass from the first line.
+   */
+  private restart(): void {
+    this.position = 0;
+    this.playbackStart = Date.now();
+    this.recordingStart = this.lines.find((l) => l.time !== null)?.time ?? 0;
+    this.schedule(0);
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.deliver();
+    }, delay);
+  }
+
+  /**
+   * Delivers every line that is due, then schedules the next one.
+   */
+  private deliver(): void {
+    if (!this.callback) return;
+
+    const unlimited = this.speed === Infinity;
+    let delivered = 0;
+
+    while (this.position < this.lines.length) {
+      const next = this.lines[this.position]!;
+
+      if (unlimited) {
+        if (delivered >= this.batchSize) {
+          this.schedule(0);
+          return;
+        }
+      } else if (next.time !== null) {
+        const due = this.playbackStart + (next.time - this.recordingStart) / this.speed;
+        const wait = due - Date.now();
+        if (wait > 0) {
+          if (wait > this.maxGap) {
+            // Pull the rest of the recording forward to skip the gap
+            this.playbackStart -= wait - this.maxGap;
+          }
+          this.schedule(Math.min(wait, this.maxGap));
+          return;
+        }
+      }
+
+      this.position++;
+      delivered++;
+      this._linesDelivered++;
+      this.callback(this.rewrite(next));
+    }
+
+    this.onEnd?.();
+    // onEnd may have stopped playback
+    if (this.loop && this._isWatching) {
+      this.restart();
+    }
+  }
+
+  /**
+   * Rewrites a line's timestamp to its playback time when enabled.
+   */
+  private rewrite({ line, time }: ReplayLine): string {
+    if (!this.rewriteTimestamps || time === null) {
+      return line;
+    }
+
+    const playbackTime = this.speed === Infinity
+      ? Date.now()
+      : this.playbackStart + (time - this.recordingStart) / this.speed;
+    const stamp = formatLogTimestamp(new Date(playbackTime));
+    return `[${stamp}]${line.slice(line.indexOf(']') + 1)}`;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function readTimestamp(line: string): number | null {
+  const match = LOG_PREFIX.exec(line);
+  if (!match?.[1]) return null;
+  return parseLogTimestamp(match[1])?.getTime() ?? null;
+}
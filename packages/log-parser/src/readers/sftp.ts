@@ -4,15 +4,18 @@
  * SFTP-based log reader for remote servers.
  *
  * Periodically fetches log file content from an SFTP server and
- * delivers new lines since the last fetch.
+ * delivers new lines since the last fetch. With a checkpoint, resumes
+ * where the previous run stopped.
  *
  * @module
  */
 
+import type SftpClient from 'ssh2-sftp-client';
 import type { Result } from '@squadscript/types';
 import { Ok, Err } from '@squadscript/types';
 import type { LogReader, LineCallback, LogReaderBaseOptions } from './base.js';
 import { LogReaderError } from '../errors.js';
+import { LogCheckpointer } from './checkpoint.js';
 
 // =============================================================================
 // Types
@@ -90,6 +93,7 @@ export class SftpLogReader implements LogReader {
   private readonly options: SftpLogReaderOptions;
   private readonly _filePath: string;
   private readonly fetchInterval: number;
+  private readonly checkpointer: LogCheckpointer | null;
 
   private callback: LineCallback | null = null;
   private fetchTimer: ReturnType<typeof setInterval> | null = null;
@@ -97,12 +101,17 @@ export class SftpLogReader implements LogReader {
   private lineBuffer = '';
   private _isWatching = false;
   private isFetching = false;
+  private resuming = false;
+  private replaying = false;
 
   constructor(options: SftpLogReaderOptions) {
     this.options = options;
     const filename = options.filename ?? 'SquadGame.log';
     this._filePath = `${options.logDir}/${filename}`.replace(/\/+/g, '/');
     this.fetchInterval = options.fetchInterval ?? 5000;
+    this.checkpointer = options.checkpoint
+      ? new LogCheckpointer(this._filePath, options.checkpoint)
+      : null;
   }
 
   /**
@@ -142,6 +151,10 @@ export class SftpLogReader implements LogReader {
     this.lastPosition = 0;
     this.lineBuffer = '';
 
+    // With a checkpoint, the first fetch decides where to start
+    this.resuming = this.checkpointer !== null;
+    this.checkpointer?.start();
+
     // Start periodic fetching
     this.fetchTimer = setInterval(() => {
       void this.fetchNewContent();
@@ -169,9 +182,14 @@ export class SftpLogReader implements LogReader {
       this.fetchTimer = null;
     }
 
+    // Save the final position
+    await this.checkpointer?.stop();
+
     this.callback = null;
     this._isWatching = false;
     this.lineBuffer = '';
+    this.resuming = false;
+    this.replaying = false;
 
     return Ok(undefined);
   }
@@ -257,6 +275,12 @@ export class SftpLogReader implements LogReader {
         const stats = await client.stat(this._filePath);
         const size = stats.size;
 
+        // Resume from the checkpoint on the first fetch
+        if (this.resuming) {
+          await this.restoreCheckpoint(client, size);
+          this.resuming = false;
+        }
+
         // Detect log rotation
         if (size < this.lastPosition) {
           this.lastPosition = 0;
@@ -265,33 +289,13 @@ export class SftpLogReader implements LogReader {
 
         // Read new content if available
         if (size > this.lastPosition) {
-          // Use createReadStream with start position for partial file read
-          const bytesToRead = size - this.lastPosition;
-          const chunks: Buffer[] = [];
-
-          await new Promise<void>((resolve, reject) => {
-            const stream = client.createReadStream(this._filePath, {
-              start: this.lastPosition,
-              end: this.lastPosition + bytesToRead - 1,
-            });
-
-            stream.on('data', (chunk: Buffer) => {
-              chunks.push(chunk);
-            });
-
-            stream.on('end', () => {
-              resolve();
-            });
-
-            stream.on('error', (err: Error) => {
-              reject(err);
-            });
-          });
-
-          const content = Buffer.concat(chunks).toString('utf-8');
-          this.lastPosition = size;
-          this.processContent(content);
+          const data = await this.readRange(client, this.lastPosition, size);
+          this.lastPosition += data.length;
+          this.deliver(data);
         }
+
+        // Everything written before the reader started has been delivered
+        this.replaying = false;
       } finally {
         await client.end();
       }
@@ -302,11 +306,78 @@ export class SftpLogReader implements LogReader {
     }
   }
 
+  /**
+   * Reads the bytes from `start` up to (not including) `end`.
+   */
+  private async readRange(client: SftpClient, start: number, end: number): Promise<Buffer> {
+    // Use createReadStream with start position for partial file read
+    const chunks: Buffer[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = client.createReadStream(this._filePath, {
+        start,
+        end: end - 1,
+      });
+
+      stream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+
+      stream.on('end', () => {
+        resolve();
+      });
+
+      stream.on('error', (err: Error) => {
+        reject(err);
+      });
+    });
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Picks the starting position from the checkpoint. Without a usable
+   * checkpoint, reading starts at the end of the file.
+   */
+  private async restoreCheckpoint(client: SftpClient, size: number): Promise<void> {
+    this.lastPosition = size;
+
+    const checkpoint = await this.checkpointer?.restore();
+    if (!this.checkpointer || !checkpoint) {
+      return;
+    }
+
+    const range = this.checkpointer.probeRange(checkpoint, size);
+    const probe = range
+      ? (await this.readRange(client, range.start, range.end)).toString('utf-8')
+      : null;
+
+    const resumeFrom = this.checkpointer.resumeOffset(checkpoint, size, probe);
+    if (resumeFrom !== null) {
+      this.lastPosition = resumeFrom;
+      this.replaying = true;
+    }
+  }
+
+  /**
+   * Delivers downloaded content and records the new position.
+   * `lastPosition` must already include the content.
+   */
+  private deliver(data: Buffer): void {
+    const lastLine = this.processContent(data.toString('utf-8'));
+    this.checkpointer?.commit(
+      this.lastPosition - Buffer.byteLength(this.lineBuffer),
+      lastLine,
+    );
+  }
+
   /**
    * Processes content and delivers complete lines to callback.
+   *
+   * @returns The last line delivered, or null if none was
    */
-  private processContent(content: string): void {
-    if (!this.callback) return;
+  private processContent(content: string): string | null {
+    if (!this.callback) return null;
 
     // Add to line buffer
     this.lineBuffer += content;
@@ -318,10 +389,15 @@ export class SftpLogReader implements LogReader {
     this.lineBuffer = lines.pop() ?? '';
 
     // Deliver complete lines
+    const info = { replayed: this.replaying };
+    let lastLine: string | null = null;
     for (const line of lines) {
       if (line.length > 0) {
-        this.callback(line);
+        this.callback(line, info);
+        lastLine = line;
       }
     }
+
+    return lastLine;
   }
 }
@@ -5,17 +5,19 @@
  *
  * Watches a local log file and delivers new lines as they are appended.
  * Uses fs.watch for file change notifications with polling fallback.
+ * With a checkpoint, resumes where the previous run stopped.
  *
  * @module
  */
 
 import { join } from 'node:path';
-import { watch as fsWatch, type FSWatcher, existsSync } from 'node:fs';
+import { watch as fsWatch, type FSWatcher, type Stats, existsSync } from 'node:fs';
 import { open, stat, type FileHandle } from 'node:fs/promises';
 import type { Result } from '@squadscript/types';
 import { Ok, Err } from '@squadscript/types';
 import type { LogReader, LineCallback, LogReaderBaseOptions } from './base.js';
 import { LogReaderError } from '../errors.js';
+import { LogCheckpointer } from './checkpoint.js';
 
 // =============================================================================
 // Types
@@ -55,8 +57,8 @@ export interface TailLogReaderOptions extends LogReaderBaseOptions {
  * Local file tail reader using native fs.watch with polling fallback.
  *
  * This reader watches a local log file and delivers new lines as they
- * are appended. It handles log rotation by detecting when the file
- * shrinks (which indicates rotation).
+ * are appended. It handles log rotation by detecting when the file is
+ * replaced (the rest of the old file is read first) or shrinks.
  *
  * @example
  * ```typescript
@@ -78,6 +80,7 @@ export class TailLogReader implements LogReader {
   private readonly pollInterval: number;
   private readonly encoding: BufferEncoding;
   private readonly startFromEnd: boolean;
+  private readonly checkpointer: LogCheckpointer | null;
 
   private callback: LineCallback | null = null;
   private watcher: FSWatcher | null = null;
@@ -86,6 +89,8 @@ export class TailLogReader implements LogReader {
   private filePosition = 0;
   private lineBuffer = '';
   private _isWatching = false;
+  private isReading = false;
+  private replaying = false;
 
   constructor(options: TailLogReaderOptions) {
     const filename = options.filename ?? 'SquadGame.log';
@@ -93,6 +98,9 @@ export class TailLogReader implements LogReader {
     this.pollInterval = options.pollInterval ?? 1000;
     this.encoding = options.encoding ?? 'utf-8';
     this.startFromEnd = options.startFromEnd ?? true;
+    this.checkpointer = options.checkpoint
+      ? new LogCheckpointer(this._filePath, options.checkpoint)
+      : null;
   }
 
   /**
@@ -135,10 +143,13 @@ export class TailLogReader implements LogReader {
       this.fileHandle = await open(this._filePath, 'r');
 
       // Get initial file size
-      const stats = await stat(this._filePath);
+      const stats = await this.fileHandle.stat();
 
-      // Position at end if startFromEnd, otherwise at beginning
-      this.filePosition = this.startFromEnd ? stats.size : 0;
+      // Resume from the checkpoint, otherwise position at end if
+      // startFromEnd, otherwise at beginning
+      const resumeFrom = await this.restoreCheckpoint(stats.size);
+      this.filePosition = resumeFrom ?? (this.startFromEnd ? stats.size : 0);
+      this.replaying = resumeFrom !== null;
       this.callback = callback;
       this.lineBuffer = '';
 
@@ -155,9 +166,11 @@ export class TailLogReader implements LogReader {
       }, this.pollInterval);
 
       this._isWatching = true;
+      this.checkpointer?.start();
 
-      // If not starting from end, read existing content
-      if (!this.startFromEnd) {
+      // Catch up from the checkpoint, or read existing content if not
+      // starting from end
+      if (resumeFrom !== null || !this.startFromEnd) {
         await this.readNewContent();
       }
 
@@ -194,50 +207,135 @@ export class TailLogReader implements LogReader {
    * Reads new content from the file and delivers lines to callback.
    */
   private async readNewContent(): Promise<void> {
-    if (!this.fileHandle || !this.callback) {
+    if (!this.fileHandle || !this.callback || this.isReading) {
       return;
     }
 
+    this.isReading = true;
+
     try {
       // Get current file size
       const stats = await stat(this._filePath);
-      const currentSize = stats.size;
 
-      // Detect log rotation (file shrunk)
-      if (currentSize < this.filePosition) {
+      // Detect log rotation (file replaced)
+      if (await this.isReplaced(stats)) {
+        await this.switchToNewFile();
+      }
+
+      // Detect truncation (file shrunk)
+      if (stats.size < this.filePosition) {
         this.filePosition = 0;
         this.lineBuffer = '';
       }
 
-      // Read new content
-      if (currentSize > this.filePosition) {
-        const bytesToRead = currentSize - this.filePosition;
-        const buffer = Buffer.alloc(bytesToRead);
-
-        const { bytesRead } = await this.fileHandle.read(
-          buffer,
-          0,
-          bytesToRead,
-          this.filePosition,
-        );
-
-        if (bytesRead > 0) {
-          this.filePosition += bytesRead;
-          const content = buffer.toString(this.encoding, 0, bytesRead);
-          this.processContent(content);
-        }
-      }
+      await this.readTo(stats.size);
+
+      // Everything written before the reader started has been delivered
+      this.replaying = false;
     } catch {
       // File might be temporarily unavailable during rotation
       // Just skip this read cycle
+    } finally {
+      this.isReading = false;
+    }
+  }
+
+  /**
+   * Reads from the current position up to `size` and delivers the lines.
+   */
+  private async readTo(size: number): Promise<void> {
+    if (!this.fileHandle || size <= this.filePosition) {
+      return;
+    }
+
+    const bytesToRead = size - this.filePosition;
+    const buffer = Buffer.alloc(bytesToRead);
+
+    const { bytesRead } = await this.fileHandle.read(
+      buffer,
+      0,
+      bytesToRead,
+      this.filePosition,
+    );
+
+    if (bytesRead > 0) {
+      this.filePosition += bytesRead;
+      const content = buffer.toString(this.encoding, 0, bytesRead);
+      const lastLine = this.processContent(content);
+      this.checkpointer?.commit(
+        this.filePosition - Buffer.byteLength(this.lineBuffer, this.encoding),
+        lastLine,
+      );
+    }
+  }
+
+  /**
+   * Whether the path now points to a different file than the open one.
+   */
+  private async isReplaced(stats: Stats): Promise<boolean> {
+    if (!this.fileHandle || stats.ino === 0) {
+      return false;
+    }
+
+    const openStats = await this.fileHandle.stat();
+    return openStats.ino !== stats.ino;
+  }
+
+  /**
+   * Finishes reading the rotated file, then opens the new one.
+   */
+  private async switchToNewFile(): Promise<void> {
+    if (!this.fileHandle) {
+      return;
+    }
+
+    const openStats = await this.fileHandle.stat();
+    await this.readTo(openStats.size);
+
+    const next = await open(this._filePath, 'r');
+    try {
+      await this.fileHandle.close();
+    } catch {
+      // Ignore close errors
     }
+
+    this.fileHandle = next;
+    this.filePosition = 0;
+    this.lineBuffer = '';
+  }
+
+  /**
+   * Finds where to resume from the checkpoint, or null to start as usual.
+   */
+  private async restoreCheckpoint(size: number): Promise<number | null> {
+    if (!this.checkpointer || !this.fileHandle) {
+      return null;
+    }
+
+    const checkpoint = await this.checkpointer.restore();
+    if (!checkpoint) {
+      return null;
+    }
+
+    const range = this.checkpointer.probeRange(checkpoint, size);
+    let probe: string | null = null;
+    if (range) {
+      const length = range.end - range.start;
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await this.fileHandle.read(buffer, 0, length, range.start);
+      probe = buffer.toString(this.encoding, 0, bytesRead);
+    }
+
+    return this.checkpointer.resumeOffset(checkpoint, size, probe);
   }
 
   /**
    * Processes content and delivers complete lines to callback.
+   *
+   * @returns The last line delivered, or null if none was
    */
-  private processContent(content: string): void {
-    if (!this.callback) return;
+  private processContent(content: string): string | null {
+    if (!this.callback) return null;
 
     // Add to line buffer
     this.lineBuffer += content;
@@ -249,17 +347,25 @@ export class TailLogReader implements LogReader {
     this.lineBuffer = lines.pop() ?? '';
 
     // Deliver complete lines
+    const info = { replayed: this.replaying };
+    let lastLine: string | null = null;
     for (const line of lines) {
       if (line.length > 0) {
-        this.callback(line);
+        this.callback(line, info);
+        lastLine = line;
       }
     }
+
+    return lastLine;
   }
 
   /**
    * Cleans up resources.
    */
   private async cleanup(): Promise<void> {
+    // Save the final position
+    await this.checkpointer?.stop();
+
     // Stop watcher
     if (this.watcher) {
       this.watcher.close();
@@ -284,6 +390,7 @@ export class TailLogReader implements LogReader {
 
     this.callback = null;
     this.lineBuffer = '';
+    this.replaying = false;
     this._isWatching = false;
   }
 }
@@ -10,6 +10,8 @@
  */
 
 import type { Logger } from '@squadscript/logger';
+import type { Player, PlayerController } from '@squadscript/types';
+import { asPlayerID } from '@squadscript/types';
 import type { EventStore } from '../store/event-store.js';
 
 // =============================================================================
@@ -163,3 +165,33 @@ export const IP_PATTERN = String.raw`\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}`;
 export function createLogRegex(pattern: string): RegExp {
   return new RegExp(`^${LOG_LINE_PREFIX}${pattern}`);
 }
+
+/**
+ * Looks up a player by the name or suffix shown in trace lines.
+ *
+ * Damage and asset lines only name the instigator, so the EOS ID and
+ * controller come from the event store.
+ *
+ * @param store - The event store
+ * @param name - Player name or join suffix from the log line
+ * @returns The player, or null if nobody in the store has this name
+ */
+export function findPlayerByName(store: EventStore, name: string): Player | null {
+  const stored = store.getPlayerByName(name);
+  if (!stored) {
+    return null;
+  }
+
+  return {
+    playerID: asPlayerID(0)!, // Will be resolved by SquadServer
+    eosID: stored.eosID,
+    steamID: stored.steamID ?? null,
+    name: stored.name ?? name,
+    teamID: null,
+    squadID: null,
+    isSquadLeader: false,
+    role: null,
+    controller: (stored.controller as PlayerController | undefined) ?? null,
+    suffix: stored.suffix ?? null,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Custom rules built from declarative definitions.
+ *
+ * Lets config files and plugins match lines the built-in rules don't
+ * know about (mods, new game patches) without shipping code. Every
+ * custom rule emits CUSTOM_LOG_EVENT.
+ *
+ * @module
+ */
+
+import type {
+  CustomLogEvent,
+  CustomLogFieldValue,
+  CustomLogRuleDefinition,
+  Result,
+} from '@squadscript/types';
+import { Ok, Err } from '@squadscript/types';
+import type { ParsingRule } from './base.js';
+import { defineRule, LOG_LINE_PREFIX } from './base.js';
+import { LogParserError } from '../errors.js';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+import { LOG_PREFIX } from '../utils/regex.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Event name emitted by every custom rule.
+ */
+export const CUSTOM_LOG_EVENT = 'CUSTOM_LOG_EVENT';
+
+/** Capture groups in LOG_LINE_PREFIX (timestamp and chain ID). */
+const PREFIX_GROUPS = 2;
+
+const EVENT_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CompiledField {
+  readonly name: string;
+  /** Index into the match array, or a named group. */
+  readonly group: number | string;
+  readonly type: 'string' | 'number' | 'boolean';
+}
+
+// =============================================================================
+// Rule Factory
+// =============================================================================
+
+/**
+ * Compiles a declarative rule definition into a ParsingRule.
+ *
+ * Fails when the pattern does not compile, the event name is not
+ * UPPER_SNAKE_CASE, or a field references a capture group the pattern
+ * does not have.
+ *
+ * @param definition - The rule definition
+ * @returns The compiled rule
+ *
+ * @example
+ * ```typescript
+ * const result = createCustomRule({
+ *   name: 'vehicle-spawned',
+ *   event: 'VEHICLE_SPAWNED',
+ *   pattern: String.raw`LogSquadVehicleSpawner: Spawned (\w+) for team (\d)`,
+ *   fields: { vehicle: 1, team: { group: 2, type: 'number' } },
+ * });
+ *
+ * if (result.ok) parser.addRule(result.value);
+ * ```
+ */
+export function createCustomRule(
+  definition: CustomLogRuleDefinition,
+): Result<ParsingRule<CustomLogEvent>, LogParserError> {
+  const { name, event } = definition;
+  const fail = (message: string, cause?: Error) =>
+    Err(new LogParserError('RULE_ERROR', message, { rule: name }, cause));
+
+  if (name.length === 0) {
+    return fail('Custom rule name is required');
+  }
+  if (!EVENT_NAME_PATTERN.test(event)) {
+    return fail(`Custom rule "${name}" has an invalid event name "${event}" (expected UPPER_SNAKE_CASE)`);
+  }
+
+  const usePrefix = definition.prefix ?? true;
+  const source = typeof definition.pattern === 'string'
+    ? definition.pattern
+    : definition.pattern.source;
+  const flags = typeof definition.pattern === 'string'
+    ? ''
+    : definition.pattern.flags.replace('g', '');
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(usePrefix ? `^${LOG_LINE_PREFIX}${source}` : source, flags);
+  } catch (error) {
+    return fail(
+      `Custom rule "${name}" has an invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  // Matching the empty alternative reveals how many groups the pattern has
+  const probe = new RegExp(`${source}|`, flags).exec('')!;
+  const groupCount = probe.length - 1;
+  const groupNames = new Set(Object.keys(probe.groups ?? {}));
+
+  const fields: CompiledField[] = [];
+  for (const [field, mapping] of Object.entries(definition.fields ?? {})) {
+    const { group, type } = typeof mapping === 'object'
+      ? { group: mapping.group, type: mapping.type ?? 'string' }
+      : { group: mapping, type: 'string' as const };
+
+    const valid = typeof group === 'string'
+      ? groupNames.has(group)
+      : Number.isInteger(group) && group >= 1 && group <= groupCount;
+    if (!valid) {
+      return fail(`Custom rule "${name}" maps field "${field}" to a missing capture group`);
+    }
+
+    fields.push({
+      name: field,
+      group: typeof group === 'number' && usePrefix ? group + PREFIX_GROUPS : group,
+      type,
+    });
+  }
+
+  const customParse = definition.parse;
+
+  return Ok(defineRule<CustomLogEvent>({
+    name,
+    eventName: CUSTOM_LOG_EVENT,
+    regex,
+
+    parse(match) {
+      const data = customParse ? customParse(match) : extractFields(match, fields);
+      if (data === null) return null;
+
+      const prefix = LOG_PREFIX.exec(match.input);
+      const time = (prefix?.[1] ? parseLogTimestamp(prefix[1]) : null) ?? new Date();
+      const chainID = prefix?.[2] ? Number.parseInt(prefix[2].trim(), 10) : null;
+
+      return Object.freeze({
+        time,
+        raw: match[0],
+        event,
+        rule: name,
+        chainID: chainID !== null && Number.isFinite(chainID) ? chainID : null,
+        data: Object.freeze(data) as CustomLogEvent['data'],
+      });
+    },
+  }));
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function extractFields(
+  match: RegExpExecArray,
+  fields: readonly CompiledField[],
+): Record<string, CustomLogFieldValue> {
+  const data: Record<string, CustomLogFieldValue> = {};
+
+  for (const field of fields) {
+    const value = typeof field.group === 'string'
+      ? match.groups?.[field.group]
+      : match[field.group];
+    data[field.name] = convert(value, field.type);
+  }
+
+  return data;
+}
+
+function convert(value: string | undefined, type: CompiledField['type']): CustomLogFieldValue {
+  if (value === undefined) return null;
+
+  switch (type) {
+    case 'number': {
+      const number = Number(value.trim());
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return /^(?:true|1|yes)$/i.test(value.trim());
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Rule: Deployable Constructed
+ *
+ * Matches when a deployable (FOB radio, HAB, emplacement, etc.) is
+ * fully built.
+ *
+ * Log format:
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQDeployable::OnConstructed(): DeployableClass_C_XXX constructed by PlayerName on team N
+ *
+ * @module
+ */
+
+import type { DeployableConstructedEvent } from '@squadscript/types';
+import { asTeamID } from '@squadscript/types';
+import { defineRule, createLogRegex, findPlayerByName } from './base.js';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+
+/**
+ * Rule for DEPLOYABLE_CONSTRUCTED events.
+ */
+export const deployableConstructedRule = defineRule<DeployableConstructedEvent>({
+  name: 'deployable-constructed',
+  eventName: 'DEPLOYABLE_CONSTRUCTED',
+
+  regex: createLogRegex(
+    String.raw`LogSquadTrace: \[DedicatedServer\]ASQDeployable::OnConstructed\(\): (([A-Za-z0-9_]+)_C_[0-9]+) constructed by (.+) on team ([0-9]+)`,
+  ),
+
+  parse(match, context) {
+    const [raw, timestamp, , deployableID, deployable, playerSuffix, teamStr] = match;
+
+    // Ensure required groups matched
+    if (!timestamp || !deployableID || !deployable || !playerSuffix || !teamStr) {
+      context.logger.warn('deployable-constructed', 'Missing required fields in deployable constructed event');
+      return null;
+    }
+
+    const time = parseLogTimestamp(timestamp);
+    if (!time) {
+      context.logger.warn('deployable-constructed', 'Failed to parse timestamp in deployable constructed event');
+      return null;
+    }
+
+    return Object.freeze({
+      time,
+      raw,
+      deployable,
+      deployableID,
+      teamID: asTeamID(parseInt(teamStr, 10)),
+      player: findPlayerByName(context.store, playerSuffix),
+    });
+  },
+});
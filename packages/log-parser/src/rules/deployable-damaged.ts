@@ -11,9 +11,8 @@
  * @module
  */
 
-import type { DeployableDamagedEvent, Player, PlayerController } from '@squadscript/types';
-import { asPlayerID } from '@squadscript/types';
-import { defineRule, createLogRegex } from './base.js';
+import type { DeployableDamagedEvent } from '@squadscript/types';
+import { defineRule, createLogRegex, findPlayerByName } from './base.js';
 import { parseLogTimestamp } from '../utils/date-parser.js';
 
 /**
@@ -44,35 +43,13 @@ export const deployableDamagedRule = defineRule<DeployableDamagedEvent>({
 
     const damage = parseFloat(damageStr);
 
-    // Try to find attacker by suffix
-    let attacker: Player | null = null;
-
-    // Look through stored players to find match
-    for (const [eosID, storedPlayer] of context.store.getAllPlayers()) {
-      if (storedPlayer.suffix === playerSuffix || storedPlayer.name === playerSuffix) {
-        attacker = {
-          playerID: asPlayerID(0)!,
-          eosID,
-          steamID: storedPlayer.steamID ?? null,
-          name: storedPlayer.name ?? playerSuffix,
-          teamID: null,
-          squadID: null,
-          isSquadLeader: false,
-          role: null,
-          controller: (storedPlayer.controller as PlayerController | undefined) ?? null,
-          suffix: storedPlayer.suffix ?? null,
-        };
-        break;
-      }
-    }
-
     return Object.freeze({
       time,
       raw,
       deployable,
       weapon,
       damage,
-      attacker,
+      attacker: findPlayerByName(context.store, playerSuffix),
     });
   },
 });
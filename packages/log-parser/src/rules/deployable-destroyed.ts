@@ -0,0 +1,55 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Rule: Deployable Destroyed
+ *
+ * Matches when a deployable (FOB radio, HAB, emplacement, etc.) is
+ * destroyed, including when it is dug down by its own team.
+ *
+ * Log format:
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQDeployable::Die(): DeployableClass_C_XXX destroyed by causer Weapon_C_XXX instigator PlayerName
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQDeployable::Die(): DeployableClass_C_XXX destroyed
+ *
+ * @module
+ */
+
+import type { DeployableDestroyedEvent } from '@squadscript/types';
+import { defineRule, createLogRegex, findPlayerByName } from './base.js';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+
+/**
+ * Rule for DEPLOYABLE_DESTROYED events.
+ */
+export const deployableDestroyedRule = defineRule<DeployableDestroyedEvent>({
+  name: 'deployable-destroyed',
+  eventName: 'DEPLOYABLE_DESTROYED',
+
+  regex: createLogRegex(
+    String.raw`LogSquadTrace: \[DedicatedServer\]ASQDeployable::Die\(\): (([A-Za-z0-9_]+)_C_[0-9]+) destroyed(?: by causer ([A-Za-z0-9_]+?)(?:_C_[0-9]+)? instigator (.+))?$`,
+  ),
+
+  parse(match, context) {
+    const [raw, timestamp, , deployableID, deployable, weapon, playerSuffix] = match;
+
+    // Ensure required groups matched
+    if (!timestamp || !deployableID || !deployable) {
+      context.logger.warn('deployable-destroyed', 'Missing required fields in deployable destroyed event');
+      return null;
+    }
+
+    const time = parseLogTimestamp(timestamp);
+    if (!time) {
+      context.logger.warn('deployable-destroyed', 'Failed to parse timestamp in deployable destroyed event');
+      return null;
+    }
+
+    return Object.freeze({
+      time,
+      raw,
+      deployable,
+      deployableID,
+      weapon: weapon ?? null,
+      attacker: playerSuffix ? findPlayerByName(context.store, playerSuffix) : null,
+    });
+  },
+});
@@ -23,6 +23,11 @@ import { roundTicketsRule } from './round-tickets.js';
 import { adminBroadcastRule } from './admin-broadcast.js';
 import { serverTickRateRule } from './server-tick-rate.js';
 import { deployableDamagedRule } from './deployable-damaged.js';
+import { deployableConstructedRule } from './deployable-constructed.js';
+import { deployableDestroyedRule } from './deployable-destroyed.js';
+import { vehicleDamagedRule } from './vehicle-damaged.js';
+import { vehicleDestroyedRule } from './vehicle-destroyed.js';
+import { playerEnteredVehicleRule } from './player-entered-vehicle.js';
 
 // Re-export base types
 export {
@@ -36,8 +41,11 @@ export {
   WEAPON_PATTERN,
   DAMAGE_PATTERN,
   IP_PATTERN,
+  findPlayerByName,
 } from './base.js';
 
+export { createCustomRule, CUSTOM_LOG_EVENT } from './custom.js';
+
 // Re-export individual rules for custom configurations
 export { playerConnectedRule } from './player-connected.js';
 export { playerDisconnectedRule } from './player-disconnected.js';
@@ -55,6 +63,11 @@ export { roundTicketsRule } from './round-tickets.js';
 export { adminBroadcastRule } from './admin-broadcast.js';
 export { serverTickRateRule } from './server-tick-rate.js';
 export { deployableDamagedRule } from './deployable-damaged.js';
+export { deployableConstructedRule } from './deployable-constructed.js';
+export { deployableDestroyedRule } from './deployable-destroyed.js';
+export { vehicleDamagedRule } from './vehicle-damaged.js';
+export { vehicleDestroyedRule } from './vehicle-destroyed.js';
+export { playerEnteredVehicleRule } from './player-entered-vehicle.js';
 
 /**
  * All built-in parsing rules in evaluation order.
@@ -89,6 +102,15 @@ export const defaultRules: readonly ParsingRule[] = Object.freeze([
   // Deployable Events
   // ==========================================================================
   deployableDamagedRule,
+  deployableConstructedRule,
+  deployableDestroyedRule,
+
+  // ==========================================================================
+  // Vehicle Events
+  // ==========================================================================
+  vehicleDamagedRule,
+  vehicleDestroyedRule,
+  playerEnteredVehicleRule,
 
   // ==========================================================================
   // Game Events
@@ -23,7 +23,7 @@ export const newGameRule = defineRule<NewGameEvent>({
   eventName: 'NEW_GAME',
 
   regex: createLogRegex(
-    String.raw`LogWorld: Bringing World \/([A-Za-z0-9]+)\/(?:Maps\/)?([A-Za-z0-9-]+)\/(?:.+\/)?([A-Za-z0-9-]+)(?:\.[A-Za-z0-9-]+)`,
+    String.raw`LogWorld: Bringing World \/([A-Za-z0-9_]+)\/(?:Maps\/)?([A-Za-z0-9_-]+)\/(?:.+\/)?([A-Za-z0-9_-]+)(?:\.[A-Za-z0-9_-]+)`,
   ),
 
   parse(match, context) {
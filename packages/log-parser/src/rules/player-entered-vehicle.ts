@@ -0,0 +1,87 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Rule: Player Entered Vehicle
+ *
+ * Matches when a player takes a seat in a vehicle, including switching
+ * seats inside the same vehicle. Seat 0 is the driver.
+ *
+ * Log format:
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQVehicleSeat::SeatPlayer(): Player:PlayerName (Online IDs:...) entered VehicleClass_C_XXX seat N
+ *
+ * @module
+ */
+
+import type { PlayerEnteredVehicleEvent, Player, PlayerController } from '@squadscript/types';
+import { asPlayerID } from '@squadscript/types';
+import { defineRule, createLogRegex } from './base.js';
+import { parseOnlineIDs, hasInvalidIDs } from '../utils/id-parser.js';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+
+/**
+ * Rule for PLAYER_ENTERED_VEHICLE events.
+ */
+export const playerEnteredVehicleRule = defineRule<PlayerEnteredVehicleEvent>({
+  name: 'player-entered-vehicle',
+  eventName: 'PLAYER_ENTERED_VEHICLE',
+
+  regex: createLogRegex(
+    String.raw`LogSquadTrace: \[DedicatedServer\]ASQVehicleSeat::SeatPlayer\(\): Player:(.+) \(Online IDs:([^)]+)\) entered (([A-Za-z0-9_]+)_C_[0-9]+) seat ([0-9]+)`,
+  ),
+
+  parse(match, context) {
+    const [raw, timestamp, , playerSuffix, idsString, vehicleID, vehicle, seatStr] = match;
+
+    // Ensure required groups matched
+    if (!timestamp || !playerSuffix || !idsString || !vehicleID || !vehicle || !seatStr) {
+      context.logger.warn('player-entered-vehicle', 'Missing required fields in player entered vehicle event');
+      return null;
+    }
+
+    // Bail on invalid IDs
+    if (hasInvalidIDs(idsString)) {
+      context.logger.verbose('player-entered-vehicle', 'Skipping player entered vehicle with invalid IDs');
+      return null;
+    }
+
+    const time = parseLogTimestamp(timestamp);
+    if (!time) {
+      context.logger.warn('player-entered-vehicle', 'Failed to parse timestamp in player entered vehicle event');
+      return null;
+    }
+
+    const ids = parseOnlineIDs(idsString);
+    if (!ids.eosID) {
+      context.logger.warn('player-entered-vehicle', 'Player entered vehicle without EOS ID');
+      return null;
+    }
+
+    // Get stored player data
+    const storedPlayer = context.store.getPlayer(ids.eosID);
+
+    const player: Player = {
+      playerID: asPlayerID(0)!, // Will be resolved by SquadServer
+      eosID: ids.eosID,
+      steamID: storedPlayer?.steamID ?? ids.steamID,
+      name: storedPlayer?.name ?? playerSuffix,
+      teamID: null,
+      squadID: null,
+      isSquadLeader: false,
+      role: null,
+      controller: (storedPlayer?.controller as PlayerController | undefined) ?? null,
+      suffix: storedPlayer?.suffix ?? playerSuffix,
+    };
+
+    const seat = parseInt(seatStr, 10);
+
+    return Object.freeze({
+      time,
+      raw,
+      player,
+      vehicle,
+      vehicleID,
+      seat,
+      driver: seat === 0,
+    });
+  },
+});
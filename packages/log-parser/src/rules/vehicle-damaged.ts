@@ -0,0 +1,62 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Rule: Vehicle Damaged
+ *
+ * Matches when a vehicle takes damage.
+ *
+ * Log format:
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQVehicle::TakeDamage(): VehicleClass_C_XXX: Y.Y damage attempt by causer Weapon_C_XXX instigator PlayerName with damage type DamageType_C health remaining Z.Z
+ *
+ * @module
+ */
+
+import type { VehicleDamagedEvent } from '@squadscript/types';
+import { defineRule, createLogRegex, findPlayerByName } from './base.js';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+
+/**
+ * Rule for VEHICLE_DAMAGED events.
+ */
+export const vehicleDamagedRule = defineRule<VehicleDamagedEvent>({
+  name: 'vehicle-damaged',
+  eventName: 'VEHICLE_DAMAGED',
+
+  regex: createLogRegex(
+    String.raw`LogSquadTrace: \[DedicatedServer\]ASQVehicle::TakeDamage\(\): (([A-Za-z0-9_]+)_C_[0-9]+): ([0-9.]+) damage attempt by causer ([A-Za-z0-9_]+?)(?:_C_[0-9]+)? instigator (.+) with damage type ([A-Za-z0-9_]+)_C health remaining ([0-9.]+)`,
+  ),
+
+  parse(match, context) {
+    const [raw, timestamp, , vehicleID, vehicle, damageStr, weapon, playerSuffix, _damageType, healthStr] = match;
+
+    // Ensure required groups matched
+    if (!timestamp || !vehicleID || !vehicle || !damageStr || !weapon || !playerSuffix || !healthStr) {
+      context.logger.warn('vehicle-damaged', 'Missing required fields in vehicle damaged event');
+      return null;
+    }
+
+    const time = parseLogTimestamp(timestamp);
+    if (!time) {
+      context.logger.warn('vehicle-damaged', 'Failed to parse timestamp in vehicle damaged event');
+      return null;
+    }
+
+    // Remember the hit so the destruction can be attributed
+    context.store.setVehicleDamage(vehicleID, {
+      vehicleID,
+      weapon,
+      attackerName: playerSuffix,
+    });
+
+    return Object.freeze({
+      time,
+      raw,
+      vehicle,
+      vehicleID,
+      weapon,
+      damage: parseFloat(damageStr),
+      healthRemaining: parseFloat(healthStr),
+      attacker: findPlayerByName(context.store, playerSuffix),
+    });
+  },
+});
@@ -0,0 +1,62 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Rule: Vehicle Destroyed
+ *
+ * Matches when a vehicle is destroyed. The cause is missing when the
+ * vehicle is abandoned or burns out; the last recorded hit is used then.
+ *
+ * Log format:
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQVehicle::Die(): VehicleClass_C_XXX destroyed by causer Weapon_C_XXX instigator PlayerName
+ * [timestamp][chainID]LogSquadTrace: [DedicatedServer]ASQVehicle::Die(): VehicleClass_C_XXX destroyed
+ *
+ * @module
+ */
+
+import type { VehicleDestroyedEvent } from '@squadscript/types';
+import { defineRule, createLogRegex, findPlayerByName } from './base.js';
+import { parseLogTimestamp } from '../utils/date-parser.js';
+
+/**
+ * Rule for VEHICLE_DESTROYED events.
+ */
+export const vehicleDestroyedRule = defineRule<VehicleDestroyedEvent>({
+  name: 'vehicle-destroyed',
+  eventName: 'VEHICLE_DESTROYED',
+
+  regex: createLogRegex(
+    String.raw`LogSquadTrace: \[DedicatedServer\]ASQVehicle::Die\(\): (([A-Za-z0-9_]+)_C_[0-9]+) destroyed(?: by causer ([A-Za-z0-9_]+?)(?:_C_[0-9]+)? instigator (.+))?$`,
+  ),
+
+  parse(match, context) {
+    const [raw, timestamp, , vehicleID, vehicle, weaponMatch, playerMatch] = match;
+
+    // Ensure required groups matched
+    if (!timestamp || !vehicleID || !vehicle) {
+      context.logger.warn('vehicle-destroyed', 'Missing required fields in vehicle destroyed event');
+      return null;
+    }
+
+    const time = parseLogTimestamp(timestamp);
+    if (!time) {
+      context.logger.warn('vehicle-destroyed', 'Failed to parse timestamp in vehicle destroyed event');
+      return null;
+    }
+
+    // Fall back to the last hit when the line names no cause
+    const lastDamage = context.store.getVehicleDamage(vehicleID);
+    context.store.deleteVehicleDamage(vehicleID);
+
+    const weapon = weaponMatch ?? lastDamage?.weapon ?? null;
+    const attackerName = playerMatch ?? lastDamage?.attackerName;
+
+    return Object.freeze({
+      time,
+      raw,
+      vehicle,
+      vehicleID,
+      weapon,
+      attacker: attackerName ? findPlayerByName(context.store, attackerName) : null,
+    });
+  },
+});
@@ -0,0 +1,14 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Statistics exports.
+ *
+ * @module
+ */
+
+export {
+  UnmatchedLineClusters,
+  normalizeUnmatchedLine,
+  type UnmatchedLineCluster,
+  type UnmatchedLineClustersOptions,
+} from './unmatched-clusters.js';
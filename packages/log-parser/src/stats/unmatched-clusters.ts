@@ -0,0 +1,207 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Groups log lines no rule matched by their shape.
+ *
+ * Lines that differ only in IDs, addresses and numbers normalize to the
+ * same shape, so a game update that breaks a rule (or adds a new kind of
+ * line) shows up as one cluster with a rising count instead of thousands
+ * of distinct samples.
+ *
+ * @module
+ */
+
+import { LOG_PREFIX } from '../utils/regex.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for UnmatchedLineClusters.
+ */
+export interface UnmatchedLineClustersOptions {
+  /**
+   * Maximum number of clusters kept. When exceeded, the least frequent
+   * cluster is evicted.
+   * @default 100
+   */
+  readonly maxClusters?: number;
+}
+
+/**
+ * Unmatched lines sharing one normalized shape.
+ */
+export interface UnmatchedLineCluster {
+  /** Log category (e.g. 'LogSquadTrace'), or 'Unknown'. */
+  readonly category: string;
+
+  /** The line with its prefix removed and variable parts replaced. */
+  readonly shape: string;
+
+  /** Number of lines with this shape. */
+  readonly count: number;
+
+  /** The first line seen with this shape. */
+  readonly sample: string;
+
+  /** When the first line was seen. */
+  readonly firstSeen: Date;
+
+  /** When the latest line was seen. */
+  readonly lastSeen: Date;
+}
+
+interface MutableCluster {
+  category: string;
+  shape: string;
+  count: number;
+  sample: string;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+const MAX_SHAPE_LENGTH = 160;
+const MAX_SAMPLE_LENGTH = 220;
+
+const CATEGORY = /^([A-Za-z]\w*):/;
+
+/** Replacements applied in order; IDs before the generic number pass. */
+const NORMALIZERS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/\b[0-9a-f]{32}\b/gi, '<id>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  [/\d+(?:\.\d+)?/g, '#'],
+  [/\s+/g, ' '],
+];
+
+/**
+ * Reduces a log line to its category and shape.
+ *
+ * @example
+ * ```typescript
+ * normalizeUnmatchedLine('[2024.01.15-12.30.45:123][ 42]LogNet: Closing connection 17 from 10.0.0.5:7787');
+ * // { category: 'LogNet', shape: 'LogNet: Closing connection # from <ip>' }
+ * ```
+ */
+export function normalizeUnmatchedLine(line: string): { category: string; shape: string } {
+  let shape = line.replace(LOG_PREFIX, '');
+  const category = CATEGORY.exec(shape)?.[1] ?? 'Unknown';
+
+  for (const [pattern, replacement] of NORMALIZERS) {
+    shape = shape.replace(pattern, replacement);
+  }
+
+  return { category, shape: shape.trim().slice(0, MAX_SHAPE_LENGTH) };
+}
+
+// =============================================================================
+// UnmatchedLineClusters Class
+// =============================================================================
+
+/**
+ * Counts unmatched lines per normalized shape.
+ *
+ * @example
+ * ```typescript
+ * const clusters = new UnmatchedLineClusters({ maxClusters: 50 });
+ * clusters.record(line);
+ *
+ * for (const cluster of clusters.getClusters(10)) {
+ *   console.log(cluster.count, cluster.shape);
+ * }
+ * ```
+ */
+export class UnmatchedLineClusters {
+  private readonly maxClusters: number;
+  private readonly clusters = new Map<string, MutableCluster>();
+
+  constructor(options: UnmatchedLineClustersOptions = {}) {
+    this.maxClusters = Math.max(1, options.maxClusters ?? 100);
+  }
+
+  /**
+   * Number of clusters currently tracked.
+   */
+  get size(): number {
+    return this.clusters.size;
+  }
+
+  /**
+   * Counts a line towards its cluster.
+   *
+   * @param line - The unmatched line
+   * @param now - When the line was seen
+   */
+  record(line: string, now: Date = new Date()): void {
+    if (line.length === 0) return;
+
+    const { category, shape } = normalizeUnmatchedLine(line);
+    const existing = this.clusters.get(shape);
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      return;
+    }
+
+    if (this.clusters.size >= this.maxClusters) {
+      this.evictLeastFrequent();
+    }
+
+    this.clusters.set(shape, {
+      category,
+      shape,
+      count: 1,
+      sample: line.slice(0, MAX_SAMPLE_LENGTH),
+      firstSeen: now,
+      lastSeen: now,
+    });
+  }
+
+  /**
+   * Returns clusters, most frequent first.
+   *
+   * @param limit - Maximum number of clusters to return
+   */
+  getClusters(limit?: number): UnmatchedLineCluster[] {
+    const sorted = [...this.clusters.values()]
+      .sort((a, b) => b.count - a.count || b.lastSeen.getTime() - a.lastSeen.getTime());
+
+    return sorted
+      .slice(0, limit ?? sorted.length)
+      .map((cluster) => ({ ...cluster }));
+  }
+
+  /**
+   * Removes all clusters.
+   */
+  reset(): void {
+    this.clusters.clear();
+  }
+
+  /**
+   * Drops the cluster with the lowest count, oldest first on ties.
+   */
+  private evictLeastFrequent(): void {
+    let victim: MutableCluster | null = null;
+
+    for (const cluster of this.clusters.values()) {
+      if (
+        victim === null
+        || cluster.count < victim.count
+        || (cluster.count === victim.count && cluster.lastSeen < victim.lastSeen)
+      ) {
+        victim = cluster;
+      }
+    }
+
+    if (victim) {
+      this.clusters.delete(victim.shape);
+    }
+  }
+}
@@ -10,6 +10,7 @@
  * Examples:
  * - PLAYER_CONNECTED -> JOIN_SUCCEEDED (same ChainID)
  * - PLAYER_DAMAGED -> PLAYER_WOUNDED -> PLAYER_DIED (same victim)
+ * - VEHICLE_DAMAGED -> VEHICLE_DESTROYED (same vehicle instance)
  * - ROUND_WINNER -> NEW_GAME (winner stored for next game event)
  *
  * @module
@@ -21,6 +22,7 @@ import type {
   JoinRequest,
   CombatSession,
   RoundResult,
+  VehicleDamage,
 } from './types.js';
 
 // Re-export types for external use
@@ -29,6 +31,7 @@ export type {
   JoinRequest,
   CombatSession,
   RoundResult,
+  VehicleDamage,
 };
 
 // =============================================================================
@@ -43,6 +46,7 @@ export type {
  * - `joinRequests`: Pending connection requests indexed by ChainID
  * - `disconnected`: Recently disconnected players (cleared on map change)
  * - `session`: Combat session data for damage correlation
+ * - `vehicleDamage`: Last hit on each vehicle
  * - `roundResult`: Current round winner/loser info
  *
  * @example
@@ -97,6 +101,12 @@ export class EventStore {
    */
   private readonly session = new Map<string, CombatSession>();
 
+  /**
+   * Last damage indexed by vehicle instance.
+   * Used to attribute vehicle destruction.
+   */
+  private readonly vehicleDamage = new Map<string, VehicleDamage>();
+
   /**
    * Current round result data.
    * Set by ROUND_WINNER, consumed by NEW_GAME.
@@ -126,6 +136,18 @@ export class EventStore {
     return undefined;
   }
 
+  /**
+   * Gets stored player data by name or join suffix.
+   */
+  getPlayerByName(name: string): StoredPlayer | undefined {
+    for (const player of this.players.values()) {
+      if (player.suffix === name || player.name === name) {
+        return player;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Sets or updates player data.
    */
@@ -255,6 +277,31 @@ export class EventStore {
     return this.session.delete(victimName);
   }
 
+  // =========================================================================
+  // Vehicle Methods
+  // =========================================================================
+
+  /**
+   * Gets the last damage dealt to a vehicle.
+   */
+  getVehicleDamage(vehicleID: string): VehicleDamage | undefined {
+    return this.vehicleDamage.get(vehicleID);
+  }
+
+  /**
+   * Records the last damage dealt to a vehicle.
+   */
+  setVehicleDamage(vehicleID: string, data: VehicleDamage): void {
+    this.vehicleDamage.set(vehicleID, data);
+  }
+
+  /**
+   * Deletes the damage record for a vehicle.
+   */
+  deleteVehicleDamage(vehicleID: string): boolean {
+    return this.vehicleDamage.delete(vehicleID);
+  }
+
   // =========================================================================
   // Round Result Methods
   // =========================================================================
@@ -301,6 +348,7 @@ export class EventStore {
 
     // Clear combat session data
     this.session.clear();
+    this.vehicleDamage.clear();
 
     // Clear join requests (shouldn't have any pending at map change)
     this.joinRequests.clear();
@@ -316,6 +364,7 @@ export class EventStore {
     this.joinRequests.clear();
     this.disconnected.clear();
     this.session.clear();
+    this.vehicleDamage.clear();
     this.roundResult = null;
   }
 
@@ -327,6 +376,7 @@ export class EventStore {
     joinRequestCount: number;
     disconnectedCount: number;
     sessionCount: number;
+    vehicleDamageCount: number;
     hasRoundResult: boolean;
   } {
     return {
@@ -334,6 +384,7 @@ export class EventStore {
       joinRequestCount: this.joinRequests.size,
       disconnectedCount: this.disconnected.size,
       sessionCount: this.session.size,
+      vehicleDamageCount: this.vehicleDamage.size,
       hasRoundResult: this.roundResult !== null,
     };
   }
@@ -13,4 +13,5 @@ export type {
   JoinRequest,
   CombatSession,
   RoundResult,
+  VehicleDamage,
 } from './types.js';
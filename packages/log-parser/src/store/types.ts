@@ -96,6 +96,21 @@ export interface CombatSession {
   } | undefined;
 }
 
+/**
+ * Last damage to a vehicle, for attributing VEHICLE_DESTROYED when the
+ * destruction line names no cause.
+ */
+export interface VehicleDamage {
+  /** Vehicle instance (used as key). */
+  readonly vehicleID: string;
+
+  /** The weapon of the last hit. */
+  readonly weapon: string;
+
+  /** The instigator name of the last hit. */
+  readonly attackerName: string;
+}
+
 /**
  * Round result data for correlating ROUND_WINNER -> ROUND_ENDED events.
  */
@@ -24,10 +24,17 @@ import type {
   AdminBroadcastEvent,
   ServerTickRateEvent,
   DeployableDamagedEvent,
+  DeployableConstructedEvent,
+  DeployableDestroyedEvent,
+  VehicleDamagedEvent,
+  VehicleDestroyedEvent,
+  PlayerEnteredVehicleEvent,
+  CustomLogEvent,
 } from '@squadscript/types';
 import type { LogReader } from './readers/base.js';
 import type { ParsingRule } from './rules/base.js';
 import type { EventStore } from './store/event-store.js';
+import type { UnmatchedLineCluster } from './stats/unmatched-clusters.js';
 
 // =============================================================================
 // Event Map
@@ -54,6 +61,13 @@ export interface LogParserEventMap {
 
   // Deployable events
   DEPLOYABLE_DAMAGED: DeployableDamagedEvent;
+  DEPLOYABLE_CONSTRUCTED: DeployableConstructedEvent;
+  DEPLOYABLE_DESTROYED: DeployableDestroyedEvent;
+
+  // Vehicle events
+  VEHICLE_DAMAGED: VehicleDamagedEvent;
+  VEHICLE_DESTROYED: VehicleDestroyedEvent;
+  PLAYER_ENTERED_VEHICLE: PlayerEnteredVehicleEvent;
 
   // Game events
   NEW_GAME: NewGameEvent;
@@ -66,6 +80,9 @@ export interface LogParserEventMap {
 
   // Admin events
   ADMIN_BROADCAST: AdminBroadcastEvent;
+
+  // Custom rules
+  CUSTOM_LOG_EVENT: CustomLogEvent;
 }
 
 /**
@@ -115,6 +132,12 @@ export interface LogParserOptions {
    * @default true
    */
   readonly skipExisting?: boolean;
+
+  /**
+   * Maximum number of unmatched line clusters to track.
+   * @default 100
+   */
+  readonly maxUnmatchedClusters?: number;
 }
 
 // =============================================================================
@@ -137,9 +160,15 @@ export interface ParserStats {
   /** Lines dropped due to queue overflow. */
   readonly linesDropped: number;
 
+  /** Lines caught up from a checkpoint after a restart. */
+  readonly linesReplayed: number;
+
   /** Events emitted by type. */
   readonly eventCounts: Readonly<Record<string, number>>;
 
+  /** Matches by rule name. */
+  readonly ruleCounts: Readonly<Record<string, number>>;
+
   /** Current queue depth. */
   readonly queueDepth: number;
 
@@ -148,6 +177,9 @@ export interface ParserStats {
 
   /** Peak queue depth reached. */
   readonly peakQueueDepth: number;
+
+  /** Most frequent unmatched line shapes, most frequent first. */
+  readonly unmatchedClusters: readonly UnmatchedLineCluster[];
 }
 
 // =============================================================================
@@ -162,7 +194,9 @@ export interface InternalStats {
   linesMatched: number;
   linesUnmatched: number;
   linesDropped: number;
+  linesReplayed: number;
   eventCounts: Record<string, number>;
+  ruleCounts: Record<string, number>;
   totalLatencyMs: number;
   matchedForLatency: number;
 }
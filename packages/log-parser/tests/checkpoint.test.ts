@@ -0,0 +1,207 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Unit tests for reader checkpoints and catch-up after a restart.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { appendFile, mkdtemp, rename, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Logger, LogLevel } from "@squadscript/logger";
+import { Ok } from "@squadscript/types";
+import { LogParser } from "../src/parser";
+import type { LineCallback, LineInfo, LogReader } from "../src/readers/base";
+import { FileCheckpointStore } from "../src/readers/checkpoint";
+import { TailLogReader } from "../src/readers/tail";
+
+function tickLine(n: number): string {
+	const second = String(n % 60).padStart(2, "0");
+	return `[2024.01.01-12.00.${second}:000][${String(n).padStart(3, " ")}]LogSquad: USQGameState: Server Tick Rate: ${n}.00`;
+}
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+	const started = Date.now();
+	while (!condition()) {
+		if (Date.now() - started > timeout) {
+			throw new Error("Timed out waiting for condition");
+		}
+		await Bun.sleep(10);
+	}
+}
+
+describe("TailLogReader checkpoints", () => {
+	let logDir: string;
+	let logFile: string;
+	let store: FileCheckpointStore;
+
+	beforeEach(async () => {
+		logDir = await mkdtemp(join(tmpdir(), "checkpoint-"));
+		logFile = join(logDir, "SquadGame.log");
+		store = new FileCheckpointStore(join(logDir, "state", "checkpoint.json"));
+		await writeFile(logFile, `${tickLine(1)}\n`);
+	});
+
+	afterEach(async () => {
+		await rm(logDir, { recursive: true, force: true });
+	});
+
+	function start(checkpoint: Partial<ConstructorParameters<typeof TailLogReader>[0]["checkpoint"]> = {}) {
+		const received: { line: string; replayed: boolean }[] = [];
+		const reader = new TailLogReader({
+			logDir,
+			pollInterval: 20,
+			checkpoint: { store, ...checkpoint },
+		});
+		const callback: LineCallback = (line, info?: LineInfo) => {
+			received.push({ line, replayed: info?.replayed ?? false });
+		};
+		return { reader, received, watching: reader.watch(callback) };
+	}
+
+	it("should start from the end without a checkpoint", async () => {
+		const { reader, received, watching } = start();
+		expect((await watching).ok).toBe(true);
+
+		await appendFile(logFile, `${tickLine(2)}\n`);
+		await waitFor(() => received.length === 1);
+
+		expect(received).toEqual([{ line: tickLine(2), replayed: false }]);
+		await reader.unwatch();
+	});
+
+	it("should save the position on unwatch", async () => {
+		const { reader, received, watching } = start();
+		await watching;
+		await appendFile(logFile, `${tickLine(2)}\n`);
+		await waitFor(() => received.length === 1);
+		await reader.unwatch();
+
+		const checkpoint = await store.load();
+		expect(checkpoint).toMatchObject({
+			filePath: logFile,
+			offset: Buffer.byteLength(`${tickLine(1)}\n${tickLine(2)}\n`),
+			lastLine: tickLine(2),
+			lastLineTime: "2024-01-01T12:00:02.000Z",
+		});
+	});
+
+	it("should deliver lines written while stopped as replayed", async () => {
+		const first = start();
+		await first.watching;
+		await appendFile(logFile, `${tickLine(2)}\n`);
+		await waitFor(() => first.received.length === 1);
+		await first.reader.unwatch();
+
+		await appendFile(logFile, `${tickLine(3)}\n${tickLine(4)}\n`);
+
+		const second = start();
+		await second.watching;
+		await appendFile(logFile, `${tickLine(5)}\n`);
+		await waitFor(() => second.received.length === 3);
+
+		expect(second.received).toEqual([
+			{ line: tickLine(3), replayed: true },
+			{ line: tickLine(4), replayed: true },
+			{ line: tickLine(5), replayed: false },
+		]);
+		await second.reader.unwatch();
+	});
+
+	it("should read a rotated file from the beginning", async () => {
+		const first = start();
+		await first.watching;
+		await appendFile(logFile, `${tickLine(2)}\n`);
+		await waitFor(() => first.received.length === 1);
+		await first.reader.unwatch();
+
+		// New file, longer than the old one
+		await writeFile(logFile, `${tickLine(10)}\n${tickLine(11)}\n${tickLine(12)}\n`);
+
+		const second = start();
+		await second.watching;
+		await waitFor(() => second.received.length === 3);
+
+		expect(second.received.map((r) => r.line)).toEqual([tickLine(10), tickLine(11), tickLine(12)]);
+		expect(second.received.every((r) => r.replayed)).toBe(true);
+		await second.reader.unwatch();
+	});
+
+	it("should skip catch-up when the checkpoint is too old", async () => {
+		await store.save({
+			filePath: logFile,
+			offset: Buffer.byteLength(`${tickLine(1)}\n`),
+			lastLine: tickLine(1),
+			lastLineTime: null,
+			savedAt: new Date(Date.now() - 60_000).toISOString(),
+		});
+		await appendFile(logFile, `${tickLine(2)}\n`);
+
+		const { reader, received, watching } = start({ maxCatchUpAge: 30_000 });
+		await watching;
+		await appendFile(logFile, `${tickLine(3)}\n`);
+		await waitFor(() => received.length === 1);
+
+		expect(received).toEqual([{ line: tickLine(3), replayed: false }]);
+		await reader.unwatch();
+	});
+
+	it("should skip catch-up when the backlog is too large", async () => {
+		await store.save({
+			filePath: logFile,
+			offset: Buffer.byteLength(`${tickLine(1)}\n`),
+			lastLine: tickLine(1),
+			lastLineTime: null,
+			savedAt: new Date().toISOString(),
+		});
+		await appendFile(logFile, `${tickLine(2)}\n${tickLine(3)}\n`);
+
+		const { reader, received, watching } = start({ maxCatchUpBytes: 100 });
+		await watching;
+		await appendFile(logFile, `${tickLine(4)}\n`);
+		await waitFor(() => received.length === 1);
+
+		expect(received).toEqual([{ line: tickLine(4), replayed: false }]);
+		await reader.unwatch();
+	});
+
+	it("should finish the old file before following a rotated one", async () => {
+		const { reader, received, watching } = start();
+		await watching;
+
+		await appendFile(logFile, `${tickLine(2)}\n`);
+		await rename(logFile, join(logDir, "SquadGame-backup.log"));
+		await writeFile(logFile, `${tickLine(3)}\n`);
+		await waitFor(() => received.length === 2);
+
+		expect(received.map((r) => r.line)).toEqual([tickLine(2), tickLine(3)]);
+		await reader.unwatch();
+	});
+});
+
+describe("LogParser replayed lines", () => {
+	it("should flag events from replayed lines", async () => {
+		let deliver!: LineCallback;
+		const reader: LogReader = {
+			watch: async (callback) => {
+				deliver = callback;
+				return Ok(undefined);
+			},
+			unwatch: async () => Ok(undefined),
+			isWatching: true,
+			filePath: "SquadGame.log",
+		};
+		const parser = new LogParser({ reader, logger: new Logger({ defaultLevel: LogLevel.ERROR }) });
+		const flags: (boolean | undefined)[] = [];
+		parser.on("SERVER_TICK_RATE", (event) => flags.push(event.replayed));
+
+		await parser.watch();
+		deliver(tickLine(1), { replayed: true });
+		deliver(tickLine(2));
+		await waitFor(() => flags.length === 2);
+		await parser.unwatch();
+
+		expect(flags).toEqual([true, undefined]);
+		expect(parser.getStats().linesReplayed).toBe(1);
+	});
+});
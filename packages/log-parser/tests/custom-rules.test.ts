@@ -0,0 +1,202 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Unit tests for custom rules and runtime rule registration.
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { CustomLogEvent } from "@squadscript/types";
+import { Logger, LogLevel } from "@squadscript/logger";
+import { LogParser } from "../src/parser";
+import type { LineCallback, LogReader } from "../src/readers";
+import { createCustomRule, defaultRules } from "../src/rules";
+
+const VEHICLE_LINE =
+	"[2024.01.01-12.00.00:000][ 17]LogSquadVehicleSpawner: Spawned BP_BTR80 for team 2 (claimed: true)";
+const BROADCAST_LINE =
+	"[2024.01.01-12.00.01:000][ 18]LogSquad: ADMIN COMMAND: Message broadcasted <hi> from RCON";
+
+/**
+ * Feeds lines straight into the parser.
+ */
+class ArrayLogReader implements LogReader {
+	readonly filePath = "memory";
+	isWatching = false;
+	private callback: LineCallback | null = null;
+
+	async watch(callback: LineCallback) {
+		this.callback = callback;
+		this.isWatching = true;
+		return { ok: true, value: undefined } as const;
+	}
+
+	async unwatch() {
+		this.isWatching = false;
+		return { ok: true, value: undefined } as const;
+	}
+
+	push(lines: readonly string[]): void {
+		for (const line of lines) this.callback?.(line);
+	}
+}
+
+function createParser() {
+	const reader = new ArrayLogReader();
+	const parser = new LogParser({
+		reader,
+		logger: new Logger({ defaultLevel: LogLevel.ERROR }),
+	});
+	const events: CustomLogEvent[] = [];
+	parser.on("CUSTOM_LOG_EVENT", (event) => {
+		events.push(event);
+	});
+
+	const feed = async (lines: readonly string[]) => {
+		reader.push(lines);
+		while (parser.getStats().queueDepth > 0) {
+			await Bun.sleep(10);
+		}
+	};
+
+	return { parser, events, feed };
+}
+
+const vehicleRule = () => {
+	const result = createCustomRule({
+		name: "vehicle-spawned",
+		event: "VEHICLE_SPAWNED",
+		pattern: String.raw`LogSquadVehicleSpawner: Spawned (?<vehicle>\w+) for team (\d) \(claimed: (\w+)\)`,
+		fields: {
+			vehicle: "vehicle",
+			team: { group: 2, type: "number" },
+			claimed: { group: 3, type: "boolean" },
+		},
+	});
+	if (!result.ok) throw result.error;
+	return result.value;
+};
+
+describe("createCustomRule", () => {
+	it("should map capture groups to typed fields", () => {
+		const rule = vehicleRule();
+		const match = rule.regex.exec(VEHICLE_LINE)!;
+		const event = rule.parse(match, {} as never)!;
+
+		expect(rule.eventName).toBe("CUSTOM_LOG_EVENT");
+		expect(event).toMatchObject({
+			event: "VEHICLE_SPAWNED",
+			rule: "vehicle-spawned",
+			chainID: 17,
+			raw: VEHICLE_LINE,
+			data: { vehicle: "BP_BTR80", team: 2, claimed: true },
+		});
+		expect(event.time.toISOString()).toBe("2024-01-01T12:00:00.000Z");
+	});
+
+	it("should match anywhere in the line without the prefix", () => {
+		const result = createCustomRule({
+			name: "claimed",
+			event: "CLAIMED",
+			pattern: /claimed: (\w+)/,
+			prefix: false,
+			fields: { value: 1 },
+		});
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		const event = result.value.parse(result.value.regex.exec(VEHICLE_LINE)!, {} as never)!;
+		expect(event.data).toEqual({ value: "true" });
+		expect(event.chainID).toBe(17);
+	});
+
+	it("should use a custom parse function", () => {
+		const result = createCustomRule({
+			name: "vehicle",
+			event: "VEHICLE",
+			pattern: String.raw`LogSquadVehicleSpawner: Spawned (\w+)`,
+			parse: (match) => (match[3] === "BP_BTR80" ? { vehicle: match[3].slice(3) } : null),
+		});
+		if (!result.ok) throw result.error;
+
+		const event = result.value.parse(result.value.regex.exec(VEHICLE_LINE)!, {} as never);
+		expect(event?.data).toEqual({ vehicle: "BTR80" });
+	});
+
+	it("should reject invalid definitions", () => {
+		const cases = [
+			{ name: "bad-event", event: "vehicle spawned", pattern: "x" },
+			{ name: "bad-regex", event: "X", pattern: "(unclosed" },
+			{ name: "bad-group", event: "X", pattern: "(a)", fields: { a: 2 } },
+			{ name: "bad-name", event: "X", pattern: "(a)", fields: { a: "missing" } },
+		];
+
+		for (const definition of cases) {
+			const result = createCustomRule(definition);
+			expect(result.ok).toBe(false);
+			expect(!result.ok && result.error.code).toBe("RULE_ERROR");
+		}
+	});
+});
+
+describe("LogParser runtime rules", () => {
+	it("should emit events from rules added after construction", async () => {
+		const { parser, events, feed } = createParser();
+		await parser.watch();
+
+		await feed([VEHICLE_LINE]);
+		expect(events).toHaveLength(0);
+		expect(parser.getStats().linesUnmatched).toBe(1);
+		expect(parser.getStats().unmatchedClusters[0]).toMatchObject({
+			category: "LogSquadVehicleSpawner",
+			count: 1,
+		});
+
+		expect(parser.addRule(vehicleRule()).ok).toBe(true);
+		await feed([VEHICLE_LINE]);
+		await parser.unwatch();
+
+		expect(events).toHaveLength(1);
+		expect(events[0]!.data.vehicle).toBe("BP_BTR80");
+		expect(parser.getStats().eventCounts.CUSTOM_LOG_EVENT).toBe(1);
+		expect(parser.getStats().ruleCounts["vehicle-spawned"]).toBe(1);
+	});
+
+	it("should evaluate added rules after the defaults unless asked otherwise", async () => {
+		const greedy = createCustomRule({ name: "any-squad", event: "ANY", pattern: "LogSquad: (.+)", fields: { text: 1 } });
+		if (!greedy.ok) throw greedy.error;
+
+		const { parser, events, feed } = createParser();
+		const broadcasts: unknown[] = [];
+		parser.on("ADMIN_BROADCAST", (event) => {
+			broadcasts.push(event);
+		});
+		await parser.watch();
+
+		parser.addRule(greedy.value);
+		await feed([BROADCAST_LINE]);
+		expect(broadcasts).toHaveLength(1);
+		expect(events).toHaveLength(0);
+
+		parser.removeRule("any-squad");
+		parser.addRule(greedy.value, { position: "first" });
+		await feed([BROADCAST_LINE]);
+		await parser.unwatch();
+
+		expect(broadcasts).toHaveLength(1);
+		expect(events).toHaveLength(1);
+		expect(parser.getRules()[0]!.name).toBe("any-squad");
+	});
+
+	it("should reject duplicate names and remove rules", () => {
+		const { parser } = createParser();
+
+		expect(parser.addRule(vehicleRule()).ok).toBe(true);
+		const duplicate = parser.addRule(vehicleRule());
+		expect(!duplicate.ok && duplicate.error.code).toBe("RULE_ERROR");
+		expect(parser.getRules()).toHaveLength(defaultRules.length + 1);
+
+		expect(parser.removeRule("vehicle-spawned")).toBe(true);
+		expect(parser.removeRule("vehicle-spawned")).toBe(false);
+		expect(parser.getRules()).toHaveLength(defaultRules.length);
+	});
+});
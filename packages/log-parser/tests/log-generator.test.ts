@@ -0,0 +1,173 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Regression tests for the parsing rules, using generated match logs.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Logger, LogLevel } from "@squadscript/logger";
+import { LogParser } from "../src/parser";
+import type { LineCallback, LogReader } from "../src/readers";
+import { defaultRules } from "../src/rules";
+import {
+	generateMatchLog,
+	generatedPlayerIds,
+	randomMatchScript,
+	type MatchScript,
+} from "../src/generator";
+
+const script: MatchScript = {
+	level: "Narva",
+	layer: "Narva_RAAS_v1",
+	players: [
+		{ name: "Alice", team: 1 },
+		{ name: "Bob", team: 2 },
+		{ name: "Carol", team: 2, joinAt: 10_000, leaveAt: 200_000 },
+	],
+	events: [
+		{ type: "damage", at: 60_000, attacker: "Alice", victim: "Bob", damage: 25 },
+		{ type: "kill", at: 70_000, attacker: "Alice", victim: "Bob", revivedBy: "Carol" },
+		{ type: "kill", at: 120_000, attacker: "Bob", victim: "Alice", weapon: "BP_AK74M" },
+		{ type: "possess", at: 130_000, player: "Bob", pawn: "BP_BTR80" },
+		{ type: "unpossess", at: 140_000, player: "Bob", pawn: "BP_BTR80" },
+		{ type: "vehicle-enter", at: 125_000, player: "Bob", vehicle: "BP_BTR80_RUS" },
+		{ type: "vehicle-damage", at: 135_000, attacker: "Alice", vehicle: "BP_BTR80_RUS" },
+		{ type: "vehicle-destroyed", at: 136_000, vehicle: "BP_BTR80_RUS" },
+		{ type: "deployable-built", at: 145_000, player: "Carol", deployable: "BP_FOBRadio_RUS" },
+		{ type: "deployable-damage", at: 150_000, attacker: "Alice", deployable: "BP_FOBRadio_RUS" },
+		{ type: "deployable-destroyed", at: 155_000, attacker: "Alice", deployable: "BP_FOBRadio_RUS" },
+		{ type: "broadcast", at: 160_000, message: "Play fair" },
+	],
+	duration: 300_000,
+	winner: 2,
+	tickets: [0, 87],
+};
+
+/**
+ * Feeds lines straight into the parser.
+ */
+class ArrayLogReader implements LogReader {
+	readonly filePath = "memory";
+	isWatching = false;
+	private callback: LineCallback | null = null;
+
+	async watch(callback: LineCallback) {
+		this.callback = callback;
+		this.isWatching = true;
+		return { ok: true, value: undefined } as const;
+	}
+
+	async unwatch() {
+		this.isWatching = false;
+		return { ok: true, value: undefined } as const;
+	}
+
+	push(lines: readonly string[]): void {
+		for (const line of lines) this.callback?.(line);
+	}
+}
+
+async function parse(lines: readonly string[]) {
+	const reader = new ArrayLogReader();
+	const parser = new LogParser({
+		reader,
+		logger: new Logger({ defaultLevel: LogLevel.ERROR }),
+		maxQueueSize: lines.length + 1,
+	});
+	const events: { name: string; event: Record<string, unknown> }[] = [];
+	for (const rule of defaultRules) {
+		parser.on(rule.eventName as never, ((event: Record<string, unknown>) => {
+			events.push({ name: rule.eventName, event });
+		}) as never);
+	}
+
+	await parser.watch();
+	reader.push(lines);
+	while (parser.getStats().queueDepth > 0) {
+		await Bun.sleep(10);
+	}
+	await parser.unwatch();
+
+	return { events, stats: parser.getStats() };
+}
+
+describe("generateMatchLog", () => {
+	it("should be deterministic", () => {
+		expect(generateMatchLog(script)).toEqual(generateMatchLog(script));
+		expect(randomMatchScript({ seed: 7 })).toEqual(randomMatchScript({ seed: 7 }));
+	});
+
+	it("should order lines by time", () => {
+		const lines = generateMatchLog(script);
+		const stamps = lines.map((line) => line.slice(1, 24));
+
+		expect([...stamps].sort()).toEqual(stamps);
+		expect(lines[0]).toStartWith("[2024.01.01-12.00.00:000]");
+	});
+
+	it("should reject unknown players", () => {
+		expect(() =>
+			generateMatchLog({ ...script, events: [{ type: "revive", at: 0, reviver: "Nobody", victim: "Bob" }] }),
+		).toThrow("Unknown player");
+	});
+});
+
+describe("default rules against a generated match", () => {
+	it("should match every generated line", async () => {
+		const lines = generateMatchLog(script);
+		const { stats } = await parse(lines);
+
+		expect(stats.linesProcessed).toBe(lines.length);
+		expect(stats.linesUnmatched).toBe(0);
+	});
+
+	it("should emit every event type", async () => {
+		const { events } = await parse(generateMatchLog(script));
+		const emitted = new Set(events.map((e) => e.name));
+
+		for (const rule of defaultRules) {
+			expect(emitted.has(rule.eventName)).toBe(true);
+		}
+	});
+
+	it("should parse the scripted details", async () => {
+		const { events } = await parse(generateMatchLog(script));
+		const alice = generatedPlayerIds("Alice");
+		const find = (name: string) => events.filter((e) => e.name === name).map((e) => e.event);
+
+		expect(find("NEW_GAME")[0]).toMatchObject({ level: "Narva", layerName: "Narva_RAAS_v1" });
+		expect(find("PLAYER_JOIN_SUCCEEDED").map((e) => (e.player as { name: string }).name)).toEqual([
+			"Alice",
+			"Bob",
+			"Carol",
+		]);
+		expect(find("PLAYER_WOUNDED")).toHaveLength(2);
+		expect(find("PLAYER_DIED")).toHaveLength(1);
+		expect(find("PLAYER_DIED")[0]).toMatchObject({ weapon: "BP_AK74M", suicide: false });
+		expect(find("PLAYER_REVIVED")[0]).toMatchObject({
+			reviver: { name: "Carol" },
+			victim: { name: "Bob" },
+		});
+		expect(find("PLAYER_DAMAGED")[0]).toMatchObject({
+			damage: 25,
+			attacker: { eosID: alice.eosID, steamID: alice.steamID },
+		});
+		expect(find("DEPLOYABLE_DAMAGED")[0]).toMatchObject({
+			deployable: "BP_FOBRadio_RUS",
+			attacker: { name: "Alice" },
+		});
+		expect(find("ADMIN_BROADCAST")[0]).toMatchObject({ message: "Play fair" });
+		expect(find("PLAYER_DISCONNECTED")).toHaveLength(1);
+		expect(find("ROUND_TICKETS").map((e) => e.team2Tickets)).toContain(87);
+		expect(find("SERVER_TICK_RATE")).toHaveLength(9);
+	});
+
+	it("should match every line of a large random match", async () => {
+		const lines = generateMatchLog(randomMatchScript({ seed: 42, players: 40, duration: 10 * 60_000 }));
+		const { stats } = await parse(lines);
+
+		expect(stats.linesUnmatched).toBe(0);
+		expect(stats.linesDropped).toBe(0);
+		expect(stats.eventCounts.PLAYER_JOIN_SUCCEEDED).toBe(40);
+	});
+});
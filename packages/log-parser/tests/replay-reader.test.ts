@@ -0,0 +1,106 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Unit tests for the replay log reader.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ReplayLogReader } from "../src/readers/replay";
+import { parseLogTimestamp } from "../src/utils/date-parser";
+
+const LINES = [
+	"[2024.01.01-12.00.00:000][  1]LogSquad: USQGameState: Server Tick Rate: 50.00",
+	"continuation without a timestamp",
+	"[2024.01.01-12.00.00:200][  2]LogSquad: USQGameState: Server Tick Rate: 49.00",
+	"[2024.01.01-12.00.10:200][  3]LogSquad: USQGameState: Server Tick Rate: 48.00",
+];
+
+describe("ReplayLogReader", () => {
+	let logDir: string;
+
+	beforeEach(async () => {
+		logDir = await mkdtemp(join(tmpdir(), "replay-reader-"));
+		await writeFile(join(logDir, "SquadGame.log"), `${LINES.join("\n")}\n`);
+	});
+
+	afterEach(async () => {
+		await rm(logDir, { recursive: true, force: true });
+	});
+
+	function replay(options: Omit<ConstructorParameters<typeof ReplayLogReader>[0], "logDir" | "onEnd">) {
+		const lines: { line: string; at: number }[] = [];
+		let resolveEnd!: () => void;
+		const ended = new Promise<void>((resolve) => {
+			resolveEnd = resolve;
+		});
+		const reader = new ReplayLogReader({ logDir, ...options, onEnd: resolveEnd });
+		const started = Date.now();
+		const watching = reader.watch((line) => lines.push({ line, at: Date.now() - started }));
+		return { reader, lines, ended, watching };
+	}
+
+	it("should fail for a missing file", async () => {
+		const reader = new ReplayLogReader({ logDir, filename: "missing.log" });
+		const result = await reader.watch(() => {});
+
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.error.code).toBe("FILE_NOT_FOUND");
+	});
+
+	it("should deliver every line as fast as possible at Infinity speed", async () => {
+		const { reader, lines, ended } = replay({ speed: Infinity });
+		await ended;
+
+		expect(lines.map((l) => l.line)).toEqual(LINES);
+		expect(reader.finished).toBe(true);
+		expect(reader.linesDelivered).toBe(4);
+		await reader.unwatch();
+	});
+
+	it("should space lines by their recorded gaps, scaled by speed and capped by maxGap", async () => {
+		const { reader, lines, ended } = replay({ speed: 2, maxGap: 150 });
+		await ended;
+
+		// 200ms recorded gap at 2x is 100ms; the 10s gap is capped at 150ms
+		expect(lines[1]!.at - lines[0]!.at).toBeLessThan(20);
+		expect(lines[2]!.at - lines[0]!.at).toBeGreaterThanOrEqual(90);
+		expect(lines[3]!.at - lines[2]!.at).toBeGreaterThanOrEqual(140);
+		expect(lines[3]!.at - lines[2]!.at).toBeLessThan(1_000);
+		await reader.unwatch();
+	});
+
+	it("should rewrite timestamps to playback time", async () => {
+		const before = Date.now();
+		const { reader, lines, ended } = replay({ speed: Infinity, timestamps: "rewrite" });
+		await ended;
+
+		const first = parseLogTimestamp(lines[0]!.line.slice(1, 24))!.getTime();
+		expect(first).toBeGreaterThanOrEqual(before - 1);
+		expect(lines[0]!.line).toEndWith("[  1]LogSquad: USQGameState: Server Tick Rate: 50.00");
+		expect(lines[1]!.line).toBe("continuation without a timestamp");
+		await reader.unwatch();
+	});
+
+	it("should loop until unwatched", async () => {
+		let passes = 0;
+		const lines: string[] = [];
+		const reader = new ReplayLogReader({
+			logDir,
+			speed: Infinity,
+			loop: true,
+			onEnd: () => {
+				passes++;
+			},
+		});
+		await reader.watch((line) => lines.push(line));
+
+		while (passes < 2) await Bun.sleep(1);
+		await reader.unwatch();
+
+		expect(lines.length).toBeGreaterThanOrEqual(8);
+		expect(reader.isWatching).toBe(false);
+	});
+});
@@ -25,6 +25,11 @@ import {
 	adminBroadcastRule,
 	serverTickRateRule,
 	deployableDamagedRule,
+	deployableConstructedRule,
+	deployableDestroyedRule,
+	vehicleDamagedRule,
+	vehicleDestroyedRule,
+	playerEnteredVehicleRule,
 	defaultRules,
 	extendRules,
 	filterRules,
@@ -50,6 +55,11 @@ describe("Parsing Rules", () => {
 			adminBroadcastRule,
 			serverTickRateRule,
 			deployableDamagedRule,
+			deployableConstructedRule,
+			deployableDestroyedRule,
+			vehicleDamagedRule,
+			vehicleDestroyedRule,
+			playerEnteredVehicleRule,
 		];
 
 		it("should have valid rule structure", () => {
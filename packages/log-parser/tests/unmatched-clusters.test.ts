@@ -0,0 +1,74 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Unit tests for unmatched line clustering.
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	normalizeUnmatchedLine,
+	UnmatchedLineClusters,
+} from "../src/stats/unmatched-clusters";
+
+const EOS = "0002a10186d9414496bf20d22d3860ba";
+
+describe("normalizeUnmatchedLine", () => {
+	it("should strip the prefix, IDs, addresses and numbers", () => {
+		expect(
+			normalizeUnmatchedLine(
+				"[2024.01.15-12.30.45:123][ 42]LogNet: Closing connection 17 from 10.0.0.5:7787",
+			),
+		).toEqual({ category: "LogNet", shape: "LogNet: Closing connection # from <ip>" });
+
+		expect(
+			normalizeUnmatchedLine(
+				`[2024.01.15-12.30.45:123][ 42]LogSquadTrace: [DedicatedServer]ASQSoldier::Die(): Player:BP_Soldier_C_2147 EOS: ${EOS} Pos 12.5`,
+			).shape,
+		).toBe("LogSquadTrace: [DedicatedServer]ASQSoldier::Die(): Player:BP_Soldier_C_# EOS: <id> Pos #");
+	});
+
+	it("should fall back to an unknown category", () => {
+		expect(normalizeUnmatchedLine("Log file open, 01/15/24 12:30:45").category).toBe("Unknown");
+	});
+});
+
+describe("UnmatchedLineClusters", () => {
+	it("should count lines with the same shape together", () => {
+		const clusters = new UnmatchedLineClusters();
+
+		clusters.record("[2024.01.15-12.30.45:123][ 1]LogNet: Closing connection 17");
+		clusters.record("[2024.01.15-12.30.46:123][ 2]LogNet: Closing connection 18");
+		clusters.record("[2024.01.15-12.30.47:123][ 3]LogSquadTrace: Something else");
+
+		const [first, second] = clusters.getClusters();
+		expect(clusters.size).toBe(2);
+		expect(first).toMatchObject({
+			category: "LogNet",
+			count: 2,
+			sample: "[2024.01.15-12.30.45:123][ 1]LogNet: Closing connection 17",
+		});
+		expect(second).toMatchObject({ category: "LogSquadTrace", count: 1 });
+	});
+
+	it("should evict the least frequent cluster when full", () => {
+		const clusters = new UnmatchedLineClusters({ maxClusters: 2 });
+
+		clusters.record("LogA: one", new Date(1000));
+		clusters.record("LogA: one", new Date(2000));
+		clusters.record("LogB: two", new Date(3000));
+		clusters.record("LogC: three", new Date(4000));
+
+		expect(clusters.getClusters().map((c) => c.category)).toEqual(["LogA", "LogC"]);
+	});
+
+	it("should limit and reset clusters", () => {
+		const clusters = new UnmatchedLineClusters();
+		clusters.record("LogA: one");
+		clusters.record("LogB: two");
+
+		expect(clusters.getClusters(1)).toHaveLength(1);
+
+		clusters.reset();
+		expect(clusters.size).toBe(0);
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * @squadscript/log-parser
+ *
+ * Unit tests for vehicle and deployable rules.
+ */
+
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { EOSID, SteamID } from "@squadscript/types";
+import { Logger, LogLevel } from "@squadscript/logger";
+import type { ParseContext, ParsingRule } from "../src/rules";
+import {
+	defaultRules,
+	deployableConstructedRule,
+	deployableDestroyedRule,
+	playerEnteredVehicleRule,
+	vehicleDamagedRule,
+	vehicleDestroyedRule,
+} from "../src/rules";
+import { EventStore } from "../src/store/event-store";
+
+const PREFIX = "[2024.01.01-12.00.00:000][ 17]LogSquadTrace: [DedicatedServer]";
+const ALICE = "0002a10186d9414496bf20d22d3860ba" as EOSID;
+
+function parse<T>(rule: ParsingRule<T>, line: string, context: ParseContext): T | null {
+	const match = rule.regex.exec(line);
+	expect(match).not.toBeNull();
+	return rule.parse(match!, context);
+}
+
+describe("Vehicle and deployable rules", () => {
+	let context: ParseContext;
+
+	beforeEach(() => {
+		const store = new EventStore();
+		store.setPlayer(ALICE, {
+			eosID: ALICE,
+			steamID: "76561198000000001" as SteamID,
+			name: "Alice",
+			suffix: "Alice",
+		});
+		context = { store, logger: new Logger({ defaultLevel: LogLevel.ERROR }) };
+	});
+
+	it("should parse vehicle damage and correlate the attacker", () => {
+		const event = parse(
+			vehicleDamagedRule,
+			`${PREFIX}ASQVehicle::TakeDamage(): BP_BTR80_RUS_C_2147001234: 350.00 damage attempt by causer BP_RPG7_Heat_Proj_C_2147 instigator Alice with damage type BP_HEAT_DamageType_C health remaining 650.00`,
+			context,
+		);
+
+		expect(event).toMatchObject({
+			vehicle: "BP_BTR80_RUS",
+			vehicleID: "BP_BTR80_RUS_C_2147001234",
+			weapon: "BP_RPG7_Heat_Proj",
+			damage: 350,
+			healthRemaining: 650,
+			attacker: { eosID: ALICE, name: "Alice" },
+		});
+	});
+
+	it("should attribute a destruction without a cause to the last hit", () => {
+		parse(
+			vehicleDamagedRule,
+			`${PREFIX}ASQVehicle::TakeDamage(): BP_BTR80_RUS_C_2147001234: 650.00 damage attempt by causer BP_RPG7_Heat_Proj_C_2147 instigator Alice with damage type BP_HEAT_DamageType_C health remaining 0.00`,
+			context,
+		);
+
+		const event = parse(vehicleDestroyedRule, `${PREFIX}ASQVehicle::Die(): BP_BTR80_RUS_C_2147001234 destroyed`, context);
+
+		expect(event).toMatchObject({
+			vehicleID: "BP_BTR80_RUS_C_2147001234",
+			weapon: "BP_RPG7_Heat_Proj",
+			attacker: { eosID: ALICE },
+		});
+		expect(context.store.getVehicleDamage("BP_BTR80_RUS_C_2147001234")).toBeUndefined();
+	});
+
+	it("should parse a player taking a vehicle seat", () => {
+		const event = parse(
+			playerEnteredVehicleRule,
+			`${PREFIX}ASQVehicleSeat::SeatPlayer(): Player:Alice (Online IDs: EOS: ${ALICE} steam: 76561198000000001) entered BP_BTR80_RUS_C_2147001234 seat 0`,
+			context,
+		);
+
+		expect(event).toMatchObject({
+			player: { eosID: ALICE, name: "Alice" },
+			vehicle: "BP_BTR80_RUS",
+			seat: 0,
+			driver: true,
+		});
+	});
+
+	it("should parse deployable construction and destruction", () => {
+		const built = parse(
+			deployableConstructedRule,
+			`${PREFIX}ASQDeployable::OnConstructed(): BP_FOBRadio_Woodland_C_2147483100 constructed by Alice on team 1`,
+			context,
+		);
+		expect(built).toMatchObject({
+			deployable: "BP_FOBRadio_Woodland",
+			deployableID: "BP_FOBRadio_Woodland_C_2147483100",
+			teamID: 1,
+			player: { eosID: ALICE },
+		});
+
+		const destroyed = parse(
+			deployableDestroyedRule,
+			`${PREFIX}ASQDeployable::Die(): BP_FOBRadio_Woodland_C_2147483100 destroyed by causer BP_Satchel_C_2147 instigator Bob`,
+			context,
+		);
+		expect(destroyed).toMatchObject({ weapon: "BP_Satchel", attacker: null });
+	});
+
+	it("should not let the deployable damage rule claim vehicle lines", () => {
+		const line = `${PREFIX}ASQVehicle::TakeDamage(): BP_BTR80_RUS_C_2147001234: 350.00 damage attempt by causer BP_RPG7_Heat_Proj_C_2147 instigator Alice with damage type BP_HEAT_DamageType_C health remaining 650.00`;
+		const first = defaultRules.find((rule) => rule.regex.test(line));
+		expect(first?.name).toBe("vehicle-damaged");
+	});
+});
@@ -17,6 +17,7 @@ import {
   ConnectionState,
   DefaultTimings,
   ProtocolLimits,
+  QueueDefaults,
 } from './constants.js';
 import {
   decodePacket,
@@ -38,8 +39,11 @@ import type {
   PlayerInfo,
   SquadInfo,
   MapInfo,
+  DisconnectedPlayerInfo,
+  ServerInfo,
   AnyPlayerID,
   AllEventMap,
+  ExecuteOptions,
 } from './types.js';
 import {
   RconError,
@@ -48,6 +52,7 @@ import {
   CommandError,
 } from './errors.js';
 import { RconConnection } from './connection.js';
+import { CommandScheduler, type CommandQueueStats } from './scheduler.js';
 import { TypedEventEmitter } from './events/emitter.js';
 import { parseChatPacket } from './parsers/chat.js';
 import {
@@ -55,6 +60,10 @@ import {
   parseListSquads,
   parseCurrentMap,
   parseNextMap,
+  parseDisconnectedPlayers,
+  parseServerInfo,
+  parseListLayers,
+  parseListLevels,
 } from './parsers/response.js';
 
 // =============================================================================
@@ -89,6 +98,13 @@ function resolveConfig(config: RconConfig): ResolvedRconConfig {
       interval: config.heartbeat?.interval ?? DefaultTimings.HEARTBEAT_INTERVAL,
       command: config.heartbeat?.command ?? '',
     },
+    queue: {
+      rate: config.queue?.rate ?? QueueDefaults.RATE,
+      burst: config.queue?.burst ?? QueueDefaults.BURST,
+      maxInFlight: config.queue?.maxInFlight ?? QueueDefaults.MAX_IN_FLIGHT,
+      maxQueueSize: config.queue?.maxQueueSize ?? QueueDefaults.MAX_QUEUE_SIZE,
+      coalesce: config.queue?.coalesce ?? true,
+    },
   };
 }
 
@@ -143,6 +159,9 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
   /** Pending commands awaiting response. */
   private readonly pendingCommands = new Map<number, PendingCommand>();
 
+  /** Priority queue and rate limiter in front of the socket. */
+  private readonly scheduler: CommandScheduler;
+
   /** Current sequence counter. */
   private sequence = 1;
 
@@ -167,6 +186,12 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
     // Create connection manager
     this.connection = new RconConnection(this.config, this.log);
 
+    // Create command scheduler
+    this.scheduler = new CommandScheduler(
+      (command) => this.executeWithRetry(command, this.config.command.retries),
+      this.config.queue,
+    );
+
     // Set up connection event handlers
     this.setupConnectionHandlers();
   }
@@ -247,6 +272,14 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
     return this.connection.isConnected() && this.authenticated;
   }
 
+  /**
+   * Gets command queue metrics: depth per priority, in-flight commands,
+   * coalesced queries and recent wait/latency averages.
+   */
+  getQueueStats(): CommandQueueStats {
+    return this.scheduler.getStats();
+  }
+
   // ===========================================================================
   // Query Commands
   // ===========================================================================
@@ -307,6 +340,63 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
     return parseNextMap(result.value);
   }
 
+  /**
+   * Gets server details: name, slots, player and queue counts, layers
+   * and factions.
+   *
+   * @returns Result containing server info
+   */
+  async getServerInfo(): Promise<Result<ServerInfo, RconError>> {
+    const result = await this.execute('ShowServerInfo');
+    if (!result.ok) {
+      return result;
+    }
+
+    return parseServerInfo(result.value);
+  }
+
+  /**
+   * Gets the players who disconnected recently (Squad keeps the last 15).
+   *
+   * @returns Result containing array of disconnected player info
+   */
+  async getDisconnectedPlayers(): Promise<Result<DisconnectedPlayerInfo[], RconError>> {
+    const result = await this.execute('AdminListDisconnectedPlayers');
+    if (!result.ok) {
+      return result;
+    }
+
+    return parseDisconnectedPlayers(result.value);
+  }
+
+  /**
+   * Gets the layers the server can load.
+   *
+   * @returns Result containing layer names
+   */
+  async getLayers(): Promise<Result<string[], RconError>> {
+    const result = await this.execute('ListLayers');
+    if (!result.ok) {
+      return result;
+    }
+
+    return parseListLayers(result.value);
+  }
+
+  /**
+   * Gets the levels (maps) the server can load.
+   *
+   * @returns Result containing level names
+   */
+  async getLevels(): Promise<Result<string[], RconError>> {
+    const result = await this.execute('ListLevels');
+    if (!result.ok) {
+      return result;
+    }
+
+    return parseListLevels(result.value);
+  }
+
   // ===========================================================================
   // Admin Commands
   // ===========================================================================
@@ -452,6 +542,268 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
     return result.ok ? Ok(undefined) : result;
   }
 
+  /**
+   * Changes the current layer immediately.
+   *
+   * @param layer - Layer name (e.g., "Narva_RAAS_v1")
+   * @returns Result indicating success or failure
+   */
+  async changeLayer(layer: string): Promise<Result<void, RconError>> {
+    const result = await this.execute(`AdminChangeLayer ${layer}`);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Sets the next layer.
+   *
+   * @param layer - Layer name
+   * @returns Result indicating success or failure
+   */
+  async setNextLayer(layer: string): Promise<Result<void, RconError>> {
+    const result = await this.execute(`AdminSetNextLayer ${layer}`);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Removes a player from their squad.
+   *
+   * @param playerId - Player identifier
+   * @returns Result indicating success or failure
+   */
+  async removeFromSquad(playerId: AnyPlayerID): Promise<Result<void, RconError>> {
+    const id = this.formatPlayerId(playerId);
+
+    const result = await this.execute(`AdminRemovePlayerFromSquad "${id}"`);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Removes a player from the commander role.
+   *
+   * @param playerId - Player identifier
+   * @returns Result indicating success or failure
+   */
+  async demoteCommander(playerId: AnyPlayerID): Promise<Result<void, RconError>> {
+    const id = this.formatPlayerId(playerId);
+
+    const result = await this.execute(`AdminDemoteCommander "${id}"`);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Resets a squad's name to the default ("Squad 1", "Squad 2", ...).
+   *
+   * @param teamId - Team ID (1 or 2)
+   * @param squadId - Squad ID
+   * @returns Result indicating success or failure
+   */
+  async renameSquad(
+    teamId: TeamID | 1 | 2,
+    squadId: SquadID | number,
+  ): Promise<Result<void, RconError>> {
+    const result = await this.execute(`AdminRenameSquad ${teamId} ${squadId}`);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Sets the number of player slots.
+   *
+   * @param count - Maximum players
+   * @returns Result indicating success or failure
+   */
+  async setMaxPlayers(count: number): Promise<Result<void, RconError>> {
+    const command = `AdminSetMaxNumPlayers ${count}`;
+    if (!Number.isInteger(count) || count < 1) {
+      return Err(CommandError.invalid(command, 'player count must be a positive integer'));
+    }
+
+    const result = await this.execute(command);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Sets how many players may wait in the public queue.
+   *
+   * @param limit - Queue length (0 = no public queue, -1 = unlimited)
+   * @returns Result indicating success or failure
+   */
+  async setPublicQueueLimit(limit: number): Promise<Result<void, RconError>> {
+    const command = `AdminSetPublicQueueLimit ${limit}`;
+    if (!Number.isInteger(limit) || limit < -1) {
+      return Err(CommandError.invalid(command, 'limit must be an integer of -1 or more'));
+    }
+
+    const result = await this.execute(command);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Sets the server password.
+   *
+   * @param password - New password (empty string removes it)
+   * @returns Result indicating success or failure
+   */
+  async setServerPassword(password: string): Promise<Result<void, RconError>> {
+    const result = await this.execute(`AdminSetServerPassword ${password}`.trimEnd());
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Pauses the current match.
+   *
+   * @returns Result indicating success or failure
+   */
+  async pauseMatch(): Promise<Result<void, RconError>> {
+    const result = await this.execute('AdminPauseMatch');
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Resumes a paused match.
+   *
+   * @returns Result indicating success or failure
+   */
+  async unpauseMatch(): Promise<Result<void, RconError>> {
+    const result = await this.execute('AdminUnpauseMatch');
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Sets the game speed.
+   *
+   * @param scale - Time scale (1 = normal speed)
+   * @returns Result indicating success or failure
+   */
+  async setSlomo(scale: number): Promise<Result<void, RconError>> {
+    const command = `AdminSlomo ${scale}`;
+    if (!Number.isFinite(scale) || scale <= 0) {
+      return Err(CommandError.invalid(command, 'scale must be a positive number'));
+    }
+
+    const result = await this.execute(command);
+    return result.ok ? Ok(undefined) : result;
+  }
+
+  /**
+   * Turns fog of war on or off.
+   *
+   * @param enabled - Whether fog of war is on
+   * @returns Result indicating success or failure
+   */
+  async setFogOfWar(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminSetFogOfWar', enabled);
+  }
+
+  /**
+   * Makes every role available regardless of squad and team limits.
+   *
+   * @param enabled - Whether the override is on
+   * @returns Result indicating success or failure
+   */
+  async forceAllRoleAvailability(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminForceAllRoleAvailability', enabled);
+  }
+
+  /**
+   * Makes every vehicle available regardless of team and timer limits.
+   *
+   * @param enabled - Whether the override is on
+   * @returns Result indicating success or failure
+   */
+  async forceAllVehicleAvailability(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminForceAllVehicleAvailability', enabled);
+  }
+
+  /**
+   * Makes every deployable available regardless of limits.
+   *
+   * @param enabled - Whether the override is on
+   * @returns Result indicating success or failure
+   */
+  async forceAllDeployableAvailability(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminForceAllDeployableAvailability', enabled);
+  }
+
+  /**
+   * Lifts the requirements on player actions (e.g. placing rally points).
+   *
+   * @param enabled - Whether the override is on
+   * @returns Result indicating success or failure
+   */
+  async forceAllActionAvailability(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminForceAllActionAvailability', enabled);
+  }
+
+  /**
+   * Lets deployables be placed anywhere.
+   *
+   * @param enabled - Whether the override is on
+   * @returns Result indicating success or failure
+   */
+  async setAlwaysValidPlacement(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminAlwaysValidPlacement', enabled);
+  }
+
+  /**
+   * Removes the wait between team changes.
+   *
+   * @param enabled - Whether the timer is disabled
+   * @returns Result indicating success or failure
+   */
+  async setNoTeamChangeTimer(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminNoTeamChangeTimer', enabled);
+  }
+
+  /**
+   * Removes the respawn timer.
+   *
+   * @param enabled - Whether the timer is disabled
+   * @returns Result indicating success or failure
+   */
+  async setNoRespawnTimer(enabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminNoRespawnTimer', enabled);
+  }
+
+  /**
+   * Turns vehicle claiming off or back on.
+   *
+   * @param disabled - Whether claiming is disabled
+   * @returns Result indicating success or failure
+   */
+  async disableVehicleClaiming(disabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminDisableVehicleClaiming', disabled);
+  }
+
+  /**
+   * Lets players use vehicles of either team.
+   *
+   * @param disabled - Whether the team requirement is disabled
+   * @returns Result indicating success or failure
+   */
+  async disableVehicleTeamRequirement(disabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminDisableVehicleTeamRequirement', disabled);
+  }
+
+  /**
+   * Lets players use vehicles without the crewman or pilot kit.
+   *
+   * @param disabled - Whether the kit requirement is disabled
+   * @returns Result indicating success or failure
+   */
+  async disableVehicleKitRequirement(disabled: boolean): Promise<Result<void, RconError>> {
+    return this.toggle('AdminDisableVehicleKitRequirement', disabled);
+  }
+
+  /**
+   * Reloads the server config files (Server.cfg, Admins.cfg, ...).
+   *
+   * @returns Result indicating success or failure
+   */
+  async reloadServerConfig(): Promise<Result<void, RconError>> {
+    const result = await this.execute('AdminReloadServerConfig');
+    return result.ok ? Ok(undefined) : result;
+  }
+
   // ===========================================================================
   // Raw Command Execution
   // ===========================================================================
@@ -459,15 +811,23 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
   /**
    * Executes a raw RCON command.
    *
+   * Commands go through the priority queue. Without an explicit priority,
+   * List/Show queries are polls, AdminBroadcast/AdminWarn are broadcasts,
+   * and everything else is an admin action.
+   *
    * @param command - The command string to execute
+   * @param options - Execution options
    * @returns Result containing the response string or error
    */
-  async execute(command: string): Promise<Result<string, RconError>> {
+  async execute(
+    command: string,
+    options?: ExecuteOptions,
+  ): Promise<Result<string, RconError>> {
     if (!this.isConnected()) {
       return Err(ConnectionError.notConnected());
     }
 
-    return this.executeWithRetry(command, this.config.command.retries);
+    return this.scheduler.schedule(command, options?.priority);
   }
 
   // ===========================================================================
@@ -732,6 +1092,8 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
    * Aborts all pending commands.
    */
   private abortPendingCommands(reason: string): void {
+    this.scheduler.clear(reason);
+
     for (const [_sequence, pending] of this.pendingCommands) {
       if (pending.timeoutTimer) {
         clearTimeout(pending.timeoutTimer);
@@ -804,6 +1166,14 @@ export class RconClient extends TypedEventEmitter<AllEventMap> {
     return id;
   }
 
+  /**
+   * Sends an on/off admin command (`<command> 1` or `<command> 0`).
+   */
+  private async toggle(command: string, enabled: boolean): Promise<Result<void, RconError>> {
+    const result = await this.execute(`${command} ${enabled ? 1 : 0}`);
+    return result.ok ? Ok(undefined) : result;
+  }
+
   /**
    * Sanitizes a message for safe use in RCON commands.
    */
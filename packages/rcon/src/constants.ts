@@ -140,6 +140,48 @@ export const DefaultTimings = {
   PACKET_SEND_DELAY: 0,
 } as const;
 
+// =============================================================================
+// Command Queue
+// =============================================================================
+
+/**
+ * Command priority classes, highest first.
+ *
+ * Queued commands are sent in priority order, so admin actions are not
+ * held up behind a wall of broadcasts or polls.
+ */
+export const CommandPriority = {
+  /** Moderation and match control (kick, ban, team change, map change). */
+  ADMIN: 'admin',
+
+  /** Messages to players (broadcasts, warnings). */
+  BROADCAST: 'broadcast',
+
+  /** Read-only state queries (ListPlayers, ShowCurrentMap, ...). */
+  POLL: 'poll',
+} as const;
+
+export type CommandPriority = (typeof CommandPriority)[keyof typeof CommandPriority];
+
+/**
+ * Default command queue configuration values.
+ *
+ * These can be overridden in RconConfig.
+ */
+export const QueueDefaults = {
+  /** Commands sent per second once the burst is used up. */
+  RATE: 20,
+
+  /** Commands that may be sent back-to-back. */
+  BURST: 10,
+
+  /** Commands awaiting a response at the same time. */
+  MAX_IN_FLIGHT: 4,
+
+  /** Queued commands before new ones are rejected. */
+  MAX_QUEUE_SIZE: 1_000,
+} as const;
+
 // =============================================================================
 // Chat Channels
 // =============================================================================
@@ -228,7 +228,8 @@ export type CommandErrorCode =
   | 'COMMAND_FAILED'
   | 'COMMAND_ABORTED'
   | 'INVALID_COMMAND'
-  | 'RESPONSE_MISMATCH';
+  | 'RESPONSE_MISMATCH'
+  | 'QUEUE_FULL';
 
 /**
  * Command execution errors.
@@ -285,6 +286,17 @@ export class CommandError extends RconError {
     );
   }
 
+  /**
+   * Creates a queue full error (too many commands waiting to be sent).
+   */
+  static queueFull(command: string, maxSize: number): CommandError {
+    return new CommandError(
+      'QUEUE_FULL',
+      `Command '${command}' rejected: ${maxSize} commands already queued`,
+      { command, recoverable: false },
+    );
+  }
+
   /**
    * Creates an invalid command error.
    */
@@ -59,8 +59,22 @@ export {
   DefaultTimings,
   ChatChannel,
   ConnectionState,
+  CommandPriority,
+  QueueDefaults,
 } from './constants.js';
 
+// =============================================================================
+// Command Queue
+// =============================================================================
+
+export {
+  CommandScheduler,
+  classifyCommand,
+  isReadOnlyCommand,
+  type CommandSender,
+  type CommandQueueStats,
+} from './scheduler.js';
+
 // =============================================================================
 // Protocol
 // =============================================================================
@@ -93,11 +107,15 @@ export type {
   ReconnectConfig,
   CommandConfig,
   HeartbeatConfig,
+  QueueConfig,
+  ExecuteOptions,
   ResolvedRconConfig,
   AnyPlayerID,
   PlayerInfo,
   SquadInfo,
   MapInfo,
+  DisconnectedPlayerInfo,
+  ServerInfo,
   RconChatMessageEvent,
   RconAdminCamPossessedEvent,
   RconAdminCamUnpossessedEvent,
@@ -146,6 +164,10 @@ export {
   parseListSquads,
   parseCurrentMap,
   parseNextMap,
+  parseDisconnectedPlayers,
+  parseServerInfo,
+  parseListLayers,
+  parseListLevels,
   type ParsedChatEvent,
 } from './parsers/index.js';
 
@@ -160,3 +182,20 @@ export { TypedEventEmitter } from './events/index.js';
 // =============================================================================
 
 export { RconConnection } from './connection.js';
+
+// =============================================================================
+// Testing
+// =============================================================================
+
+export {
+  MockRconServer,
+  type MockRconServerConfig,
+  type MockRconFixture,
+  type MockRconState,
+  type MockRconPlayer,
+  type MockRconSquad,
+  type MockRconDisconnectedPlayer,
+  type MockRconServerSettings,
+  type MockRconMap,
+  type MockRconCommandHandler,
+} from './mock-server.js';
@@ -0,0 +1,644 @@
+/**
+ * @squadscript/rcon
+ *
+ * In-process fake Squad RCON server.
+ *
+ * Speaks the Squad variant of Source RCON over TCP so that RconClient,
+ * and everything built on it, can be tested and developed offline.
+ * Commands are answered from a mutable fixture model, each response is
+ * closed by echoing the client's empty end-marker packet and followed by
+ * Squad's malformed 21-byte packet (see `detectBrokenPacket`). Chat,
+ * ban, kick and admin camera packets can be pushed on demand.
+ *
+ * @module
+ */
+
+import { createServer, type Server, type Socket } from 'node:net';
+
+import { PacketType, PacketId, ProtocolLimits, type ChatChannel } from './constants.js';
+import { encodePacket, decodePacket, type RconPacket } from './protocol.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A player in the fixture model.
+ */
+export interface MockRconPlayer {
+  readonly playerID: number;
+  readonly eosID: string;
+  readonly steamID?: string | null | undefined;
+  readonly name: string;
+  /** Team ID (null = not on a team). */
+  teamID?: 1 | 2 | null | undefined;
+  /** Squad ID (null = not in a squad). */
+  squadID?: number | null | undefined;
+  isLeader?: boolean | undefined;
+  role?: string | undefined;
+}
+
+/**
+ * A squad in the fixture model.
+ */
+export interface MockRconSquad {
+  readonly squadID: number;
+  readonly teamID: 1 | 2;
+  readonly name: string;
+  /** Member count (defaults to the players in the squad). */
+  readonly size?: number | undefined;
+  readonly locked?: boolean | undefined;
+  /** EOS ID of the creator, who must be a player in the model. */
+  readonly creatorEOSID: string;
+}
+
+/**
+ * A level and layer pair.
+ */
+export interface MockRconMap {
+  readonly level: string;
+  readonly layer: string;
+}
+
+/**
+ * A recently disconnected player in the fixture model.
+ */
+export interface MockRconDisconnectedPlayer {
+  readonly playerID: number;
+  readonly eosID: string;
+  readonly steamID?: string | null | undefined;
+  readonly name: string;
+  /** Seconds since the player disconnected. */
+  readonly disconnectedFor: number;
+}
+
+/**
+ * Server settings reported by ShowServerInfo.
+ */
+export interface MockRconServerSettings {
+  name: string;
+  maxPlayers: number;
+  publicQueueLimit: number;
+  reserveSlots: number;
+  publicQueue: number;
+  reserveQueue: number;
+  paused: boolean;
+}
+
+/**
+ * The game state the mock answers queries from.
+ */
+export interface MockRconFixture {
+  players?: MockRconPlayer[] | undefined;
+  squads?: MockRconSquad[] | undefined;
+  disconnectedPlayers?: MockRconDisconnectedPlayer[] | undefined;
+  /** Faction names of team 1 and team 2. */
+  teamNames?: [string, string] | undefined;
+  currentMap?: MockRconMap | undefined;
+  nextMap?: MockRconMap | null | undefined;
+  /** Layers reported by ListLayers; ListLevels derives the levels. */
+  layers?: string[] | undefined;
+  server?: Partial<MockRconServerSettings> | undefined;
+}
+
+/**
+ * The fixture with defaults applied.
+ */
+export interface MockRconState {
+  players: MockRconPlayer[];
+  squads: MockRconSquad[];
+  disconnectedPlayers: MockRconDisconnectedPlayer[];
+  teamNames: [string, string];
+  currentMap: MockRconMap;
+  nextMap: MockRconMap | null;
+  layers: string[];
+  server: MockRconServerSettings;
+}
+
+/**
+ * Mock server configuration.
+ */
+export interface MockRconServerConfig {
+  /** Password the mock accepts (default: "password"). */
+  readonly password?: string | undefined;
+
+  /** Host to listen on (default: 127.0.0.1). */
+  readonly host?: string | undefined;
+
+  /** Port to listen on (default: 0, a free port). */
+  readonly port?: number | undefined;
+
+  /** Initial game state. */
+  readonly fixture?: MockRconFixture | undefined;
+
+  /** Whether to follow responses with Squad's malformed packet (default: true). */
+  readonly brokenPackets?: boolean | undefined;
+
+  /** Largest response body per packet before splitting (default: 4096). */
+  readonly maxBodySize?: number | undefined;
+}
+
+/**
+ * Custom command handler. Returns the response body, or undefined to
+ * fall through to the built-in handling.
+ */
+export type MockRconCommandHandler = (command: string) => string | undefined;
+
+/** Squad's malformed packet: claims 10 bytes but is 21 bytes long. */
+const BROKEN_PACKET = (() => {
+  const buffer = Buffer.alloc(ProtocolLimits.BROKEN_PACKET_PROBE_SIZE);
+  buffer.writeUInt32LE(10, 0);
+  buffer.write('\x00\x00\x00\x01\x00\x00\x00', ProtocolLimits.HEADER_SIZE, 'utf8');
+  return buffer;
+})();
+
+// =============================================================================
+// MockRconServer
+// =============================================================================
+
+/**
+ * Fake Squad RCON server.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockRconServer({
+ *   fixture: { players: [{ playerID: 1, eosID, name: 'Bob', teamID: 1 }] },
+ * });
+ * await mock.start();
+ *
+ * const client = new RconClient({ host: mock.host, port: mock.port, password: mock.password });
+ * await client.connect();
+ * mock.sendChatMessage(eosID, 'ChatAll', 'hello');
+ * ```
+ */
+export class MockRconServer {
+  readonly password: string;
+  readonly host: string;
+
+  /** Current game state; may be changed directly between commands. */
+  readonly fixture: MockRconState;
+
+  /** Commands received from clients, in order. */
+  readonly commands: string[] = [];
+
+  private readonly requestedPort: number;
+  private readonly brokenPackets: boolean;
+  private readonly maxBodySize: number;
+  private readonly handlers: { pattern: RegExp; handler: MockRconCommandHandler }[] = [];
+  private readonly clients = new Set<Socket>();
+  private readonly authenticated = new WeakSet<Socket>();
+  private server: Server | null = null;
+  private boundPort = 0;
+
+  constructor(config: MockRconServerConfig = {}) {
+    this.password = config.password ?? 'password';
+    this.host = config.host ?? '127.0.0.1';
+    this.requestedPort = config.port ?? 0;
+    this.brokenPackets = config.brokenPackets ?? true;
+    this.maxBodySize = config.maxBodySize ?? ProtocolLimits.MAXIMUM_PACKET_SIZE;
+    this.fixture = {
+      players: config.fixture?.players ?? [],
+      squads: config.fixture?.squads ?? [],
+      teamNames: config.fixture?.teamNames ?? ['US Army', 'Russian Ground Forces'],
+      currentMap: config.fixture?.currentMap ?? { level: 'Narva', layer: 'Narva_RAAS_v1' },
+      nextMap: config.fixture?.nextMap ?? null,
+      disconnectedPlayers: config.fixture?.disconnectedPlayers ?? [],
+      layers: config.fixture?.layers ?? ['Narva_RAAS_v1', 'Gorodok_RAAS_v1', 'Yehorivka_AAS_v1'],
+      server: {
+        name: 'SquadScript Mock Server',
+        maxPlayers: 100,
+        publicQueueLimit: 25,
+        reserveSlots: 0,
+        publicQueue: 0,
+        reserveQueue: 0,
+        paused: false,
+        ...config.fixture?.server,
+      },
+    };
+  }
+
+  /** Port the mock is listening on. */
+  get port(): number {
+    return this.boundPort;
+  }
+
+  /** Number of authenticated clients. */
+  get clientCount(): number {
+    let count = 0;
+    for (const socket of this.clients) {
+      if (this.authenticated.has(socket)) count += 1;
+    }
+    return count;
+  }
+
+  async start(): Promise<void> {
+    const server = createServer((socket) => this.handleConnection(socket));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.requestedPort, this.host, () => {
+        server.removeListener('error', reject);
+        const address = server.address();
+        this.boundPort = typeof address === 'object' && address !== null ? address.port : 0;
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.dropConnections();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  // ===========================================================================
+  // Scripting
+  // ===========================================================================
+
+  /**
+   * Overrides the response to commands matching a pattern. Handlers are
+   * tried newest first.
+   */
+  onCommand(pattern: string | RegExp, handler: string | MockRconCommandHandler): void {
+    const regex = typeof pattern === 'string'
+      ? new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
+      : pattern;
+    this.handlers.unshift({
+      pattern: regex,
+      handler: typeof handler === 'string' ? () => handler : handler,
+    });
+  }
+
+  addPlayer(player: MockRconPlayer): void {
+    this.removePlayer(player.eosID);
+    this.fixture.players.push(player);
+  }
+
+  removePlayer(eosID: string): MockRconPlayer | null {
+    const index = this.fixture.players.findIndex((p) => p.eosID === eosID);
+    if (index === -1) return null;
+    return this.fixture.players.splice(index, 1)[0] ?? null;
+  }
+
+  /**
+   * Pushes a chat message from a player in the model.
+   */
+  sendChatMessage(eosID: string, channel: ChatChannel, message: string): void {
+    const player = this.requirePlayer(eosID);
+    this.sendChatPacket(`[${channel}] [Online IDs:${formatOnlineIds(player)}] ${player.name} : ${message}`);
+  }
+
+  sendAdminCamPossessed(eosID: string): void {
+    const player = this.requirePlayer(eosID);
+    this.sendChatPacket(`[Online Ids:${formatOnlineIds(player)}] ${player.name} has possessed admin camera.`);
+  }
+
+  sendAdminCamUnpossessed(eosID: string): void {
+    const player = this.requirePlayer(eosID);
+    this.sendChatPacket(`[Online IDs:${formatOnlineIds(player)}] ${player.name} has unpossessed admin camera.`);
+  }
+
+  sendPlayerWarned(name: string, message: string): void {
+    this.sendChatPacket(`Remote admin has warned player ${name}. Message was "${message}"`);
+  }
+
+  /**
+   * Pushes a kick notice and removes the player from the model.
+   */
+  sendPlayerKicked(eosID: string): void {
+    const player = this.requirePlayer(eosID);
+    this.removePlayer(eosID);
+    this.sendChatPacket(`Kicked player ${player.playerID}. [Online IDs=${formatOnlineIds(player)}] ${player.name}`);
+  }
+
+  /**
+   * Pushes a ban notice and removes the player from the model.
+   */
+  sendPlayerBanned(eosID: string, interval: string): void {
+    const player = this.requirePlayer(eosID);
+    this.removePlayer(eosID);
+    this.sendChatPacket(
+      `Banned player ${player.playerID}. [Online IDs=${formatOnlineIds(player)}] ${player.name} for interval ${interval}`,
+    );
+  }
+
+  sendSquadCreated(eosID: string, squadID: number, squadName: string): void {
+    const player = this.requirePlayer(eosID);
+    const teamName = player.teamID ? this.fixture.teamNames[player.teamID - 1] : 'Unknown';
+    this.sendChatPacket(
+      `${player.name} (Online IDs:${formatOnlineIds(player)}) has created Squad ${squadID} (Squad Name: ${squadName}) on ${teamName}`,
+    );
+  }
+
+  /**
+   * Pushes an arbitrary chat packet body to every authenticated client.
+   */
+  sendChatPacket(body: string): void {
+    const packet = encodePacket(PacketType.SERVERDATA_CHAT_VALUE, PacketId.MID_PACKET, 0, body);
+    for (const socket of this.clients) {
+      if (this.authenticated.has(socket)) socket.write(packet.buffer);
+    }
+  }
+
+  /**
+   * Closes every client connection (simulates a server restart).
+   */
+  dropConnections(): void {
+    for (const socket of this.clients) {
+      socket.destroy();
+    }
+    this.clients.clear();
+  }
+
+  // ===========================================================================
+  // Protocol
+  // ===========================================================================
+
+  private handleConnection(socket: Socket): void {
+    this.clients.add(socket);
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+
+      while (buffer.length >= ProtocolLimits.SIZE_FIELD_LENGTH) {
+        const result = decodePacket(buffer);
+        if (!result.ok) {
+          if (result.error.code === 'INCOMPLETE') break;
+          socket.destroy();
+          return;
+        }
+
+        buffer = buffer.subarray(result.value.bytesConsumed);
+        this.handlePacket(socket, result.value.packet);
+      }
+    });
+
+    socket.on('close', () => this.clients.delete(socket));
+    socket.on('error', () => this.clients.delete(socket));
+  }
+
+  private handlePacket(socket: Socket, { type, id, count, body }: RconPacket): void {
+    if (type === PacketType.SERVERDATA_AUTH) {
+      const ok = body === this.password;
+      if (ok) this.authenticated.add(socket);
+      socket.write(encodePacket(
+        PacketType.SERVERDATA_AUTH_RESPONSE,
+        ok ? id : PacketId.AUTH_FAILED,
+        count,
+        '',
+      ).buffer);
+      return;
+    }
+
+    if (!this.authenticated.has(socket)) {
+      socket.destroy();
+      return;
+    }
+
+    if (id === PacketId.END_PACKET) {
+      // Echo the empty end marker, then Squad's malformed trailing packet
+      socket.write(encodePacket(PacketType.SERVERDATA_RESPONSE_VALUE, PacketId.END_PACKET, count, '').buffer);
+      if (this.brokenPackets) socket.write(BROKEN_PACKET);
+      return;
+    }
+
+    this.commands.push(body);
+    const response = this.execute(body);
+
+    // Split on UTF-8 byte length so multi-packet responses are exercised
+    const bytes = Buffer.from(response, 'utf8');
+    let offset = 0;
+    do {
+      const chunk = bytes.subarray(offset, offset + this.maxBodySize).toString('utf8');
+      socket.write(encodePacket(PacketType.SERVERDATA_RESPONSE_VALUE, PacketId.MID_PACKET, count, chunk).buffer);
+      offset += this.maxBodySize;
+    } while (offset < bytes.length);
+  }
+
+  // ===========================================================================
+  // Commands
+  // ===========================================================================
+
+  private execute(command: string): string {
+    for (const { pattern, handler } of this.handlers) {
+      if (pattern.test(command)) {
+        const response = handler(command);
+        if (response !== undefined) return response;
+      }
+    }
+
+    const [name = '', ...rest] = command.trim().split(' ');
+    const args = rest.join(' ');
+
+    switch (name) {
+      case 'ListPlayers':
+        return this.listPlayers();
+      case 'ListSquads':
+        return this.listSquads();
+      case 'ShowCurrentMap':
+        return `Current level is ${this.fixture.currentMap.level}, layer is ${this.fixture.currentMap.layer}`;
+      case 'ShowNextMap':
+        return this.fixture.nextMap
+          ? `Next level is ${this.fixture.nextMap.level}, layer is ${this.fixture.nextMap.layer}`
+          : 'Next level is , layer is To be voted';
+      case 'AdminWarn': {
+        const { target, text } = splitTarget(args);
+        const player = this.findPlayer(target);
+        if (!player) return `Could not find player ${target}`;
+        this.sendPlayerWarned(player.name, text);
+        return `Remote admin has warned player ${player.name}. Message was "${text}"`;
+      }
+      case 'AdminKick': {
+        const player = this.findPlayer(splitTarget(args).target);
+        if (!player) return `Could not find player ${splitTarget(args).target}`;
+        this.sendPlayerKicked(player.eosID);
+        return `Kicked player ${player.playerID}. [Online IDs=${formatOnlineIds(player)}] ${player.name}`;
+      }
+      case 'AdminBan': {
+        const { target, text } = splitTarget(args);
+        const player = this.findPlayer(target);
+        if (!player) return `Could not find player ${target}`;
+        const interval = text.split(' ')[0] || '0';
+        this.sendPlayerBanned(player.eosID, interval);
+        return `Banned player ${player.playerID}. [Online IDs=${formatOnlineIds(player)}] ${player.name} for interval ${interval}`;
+      }
+      case 'AdminForceTeamChange': {
+        const player = this.findPlayer(splitTarget(args).target);
+        if (!player) return `Could not find player ${splitTarget(args).target}`;
+        player.teamID = player.teamID === 1 ? 2 : 1;
+        player.squadID = null;
+        player.isLeader = false;
+        return `Forced team change for player ${player.playerID}. [Online IDs=${formatOnlineIds(player)}] ${player.name}`;
+      }
+      case 'AdminBroadcast':
+        return `Message broadcasted`;
+      case 'AdminChangeLayer':
+      case 'AdminChangeMap':
+        this.fixture.currentMap = { level: levelOf(args), layer: args };
+        return `Changed map to ${args}`;
+      case 'AdminSetNextLayer':
+      case 'AdminSetNextMap':
+        this.fixture.nextMap = { level: levelOf(args), layer: args };
+        return `Set next layer to ${args}`;
+      case 'ShowServerInfo':
+        return this.showServerInfo();
+      case 'AdminListDisconnectedPlayers':
+        return ['----- Recently Disconnected Players [Max of 15] -----', ...this.disconnectedLines()].join('\n');
+      case 'ListLayers':
+        return ['List of available layers :', ...this.fixture.layers].join('\n');
+      case 'ListLevels':
+        return ['List of available levels :', ...new Set(this.fixture.layers.map(levelOf))].join('\n');
+      case 'AdminRemovePlayerFromSquad': {
+        const player = this.findPlayer(splitTarget(args).target);
+        if (!player) return `Could not find player ${splitTarget(args).target}`;
+        player.squadID = null;
+        player.isLeader = false;
+        return `Player ${player.playerID} (${player.name}) was removed from squad`;
+      }
+      case 'AdminDemoteCommander': {
+        const player = this.findPlayer(splitTarget(args).target);
+        if (!player) return `Could not find player ${splitTarget(args).target}`;
+        return `${player.name} was removed from the commander role`;
+      }
+      case 'AdminSetMaxNumPlayers':
+        this.fixture.server.maxPlayers = Number(args);
+        return `Set MaxNumPlayers to ${args}`;
+      case 'AdminSetPublicQueueLimit':
+        this.fixture.server.publicQueueLimit = Number(args);
+        return `Set public queue limit to ${args}`;
+      case 'AdminPauseMatch':
+        this.fixture.server.paused = true;
+        return 'Match paused';
+      case 'AdminUnpauseMatch':
+        this.fixture.server.paused = false;
+        return 'Match unpaused';
+      default:
+        return '';
+    }
+  }
+
+  private listPlayers(): string {
+    const lines = this.fixture.players.map((p) => [
+      `ID: ${p.playerID}`,
+      `Online IDs:${formatOnlineIds(p)}`,
+      `Name: ${p.name}`,
+      `Team ID: ${p.teamID ?? 'N/A'}`,
+      `Squad ID: ${p.squadID ?? 'N/A'}`,
+      `Is Leader: ${p.isLeader ? 'True' : 'False'}`,
+      `Role: ${p.role ?? 'USA_Rifleman_01'}`,
+    ].join(' | '));
+
+    return [
+      '----- Active Players -----',
+      ...lines,
+      '----- Recently Disconnected Players [Max of 15] -----',
+      ...this.disconnectedLines(),
+    ].join('\n');
+  }
+
+  private disconnectedLines(): string[] {
+    return this.fixture.disconnectedPlayers.map((p) => {
+      const minutes = String(Math.floor(p.disconnectedFor / 60)).padStart(2, '0');
+      const seconds = String(p.disconnectedFor % 60).padStart(2, '0');
+      return [
+        `ID: ${p.playerID}`,
+        `Online IDs:${formatOnlineIds(p)}`,
+        `Since Disconnect: ${minutes}m.${seconds}s`,
+        `Name: ${p.name}`,
+      ].join(' | ');
+    });
+  }
+
+  private showServerInfo(): string {
+    const { server, currentMap, nextMap, teamNames } = this.fixture;
+    return JSON.stringify({
+      MaxPlayers: server.maxPlayers,
+      GameMode_s: currentMap.layer.split('_')[1] ?? '',
+      MapName_s: currentMap.layer,
+      GameVersion_s: 'v8.0.0.0',
+      LICENSEDSERVER_b: false,
+      PLAYTIME_I: '0',
+      MatchTimeout_d: 7200,
+      PlayerCount_I: String(this.fixture.players.length),
+      ServerName_s: server.name,
+      TeamOne_s: teamNames[0],
+      TeamTwo_s: teamNames[1],
+      NextLayer_s: nextMap?.layer ?? 'To be voted',
+      PublicQueueLimit_I: String(server.publicQueueLimit),
+      PublicQueue_I: String(server.publicQueue),
+      ReservedQueue_I: String(server.reserveQueue),
+      PlayerReserveCount_I: String(server.reserveSlots),
+    });
+  }
+
+  private listSquads(): string {
+    const lines = ['----- Active Squads -----'];
+
+    for (const teamID of [1, 2] as const) {
+      lines.push(`Team ID: ${teamID} (${this.fixture.teamNames[teamID - 1]})`);
+
+      for (const squad of this.fixture.squads.filter((s) => s.teamID === teamID)) {
+        const creator = this.requirePlayer(squad.creatorEOSID);
+        const size = squad.size
+          ?? this.fixture.players.filter((p) => p.teamID === teamID && p.squadID === squad.squadID).length;
+        lines.push([
+          `ID: ${squad.squadID}`,
+          `Name: ${squad.name}`,
+          `Size: ${size}`,
+          `Locked: ${squad.locked ? 'True' : 'False'}`,
+          `Creator Name: ${creator.name}`,
+          `Creator Online IDs:${formatOnlineIds(creator)}`,
+        ].join(' | '));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private findPlayer(target: string): MockRconPlayer | null {
+    return this.fixture.players.find((p) =>
+      p.eosID === target
+      || p.steamID === target
+      || String(p.playerID) === target
+      || p.name === target,
+    ) ?? null;
+  }
+
+  private requirePlayer(eosID: string): MockRconPlayer {
+    const player = this.fixture.players.find((p) => p.eosID === eosID);
+    if (!player) {
+      throw new Error(`No player with EOS ID ${eosID} in the mock fixture`);
+    }
+    return player;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatOnlineIds(player: Pick<MockRconPlayer, 'eosID' | 'steamID'>): string {
+  return `EOS: ${player.eosID}${player.steamID ? ` steam: ${player.steamID}` : ''}`;
+}
+
+function levelOf(layer: string): string {
+  return layer.split('_')[0] ?? layer;
+}
+
+/**
+ * Splits `"<id>" rest of text` (or `<id> rest`) into the target and text.
+ */
+function splitTarget(args: string): { target: string; text: string } {
+  const quoted = /^"([^"]*)"\s*(.*)$/.exec(args);
+  if (quoted) {
+    return { target: quoted[1] ?? '', text: quoted[2] ?? '' };
+  }
+  const [target = '', ...rest] = args.split(' ');
+  return { target, text: rest.join(' ') };
+}
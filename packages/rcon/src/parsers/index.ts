@@ -19,4 +19,8 @@ export {
   parseListSquads,
   parseCurrentMap,
   parseNextMap,
+  parseDisconnectedPlayers,
+  parseServerInfo,
+  parseListLayers,
+  parseListLevels,
 } from './response.js';
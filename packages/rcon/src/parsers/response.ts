@@ -21,7 +21,13 @@ import {
   asTeamID,
   asSquadID,
 } from '@squadscript/types';
-import type { PlayerInfo, SquadInfo, MapInfo } from '../types.js';
+import type {
+  PlayerInfo,
+  SquadInfo,
+  MapInfo,
+  DisconnectedPlayerInfo,
+  ServerInfo,
+} from '../types.js';
 import { ParseError } from '../errors.js';
 
 // =============================================================================
@@ -64,6 +70,19 @@ const Patterns = {
    * Note: Layer can be "To be voted" when not set, or empty
    */
   NEXT_MAP: /^Next level is ([^,]*), layer is\s*(.*)$/,
+
+  /**
+   * AdminListDisconnectedPlayers entry pattern.
+   * Example: ID: 3 | Online IDs:EOS: abc123 steam: 76561198012345678 | Since Disconnect: 02m.30s | Name: PlayerName
+   */
+  DISCONNECTED_PLAYER_LINE:
+    /^ID: (\d+) \| Online IDs:([^|]+)\| Since Disconnect: (\d+)m\.(\d+)s \| Name: (.+)$/,
+
+  /**
+   * ListLayers / ListLevels header.
+   * Example: List of available layers :
+   */
+  LIST_HEADER: /^List of available \w+\s*:$/,
 } as const;
 
 // =============================================================================
@@ -381,3 +400,170 @@ export function parseNextMap(response: string): Result<MapInfo, ParseError> {
     layer: parsedLayer,
   });
 }
+
+// =============================================================================
+// AdminListDisconnectedPlayers Parser
+// =============================================================================
+
+/**
+ * Parses the response from AdminListDisconnectedPlayers command.
+ *
+ * @param response - The raw command response
+ * @returns Array of recently disconnected players
+ */
+export function parseDisconnectedPlayers(
+  response: string,
+): Result<DisconnectedPlayerInfo[], ParseError> {
+  const players: DisconnectedPlayerInfo[] = [];
+
+  for (const line of response.split('\n')) {
+    const match = line.trim().match(Patterns.DISCONNECTED_PLAYER_LINE);
+    if (!match) continue;
+
+    const [, playerIDStr, idsString, minutesStr, secondsStr, name] = match;
+    if (!playerIDStr || !idsString || !minutesStr || !secondsStr || !name) continue;
+
+    const playerID = asPlayerID(parseInt(playerIDStr, 10));
+    if (!playerID) continue;
+
+    const { steamID, eosID } = parseOnlineIDs(idsString);
+
+    players.push({
+      playerID,
+      steamID,
+      eosID,
+      name: name.trim(),
+      disconnectedFor: parseInt(minutesStr, 10) * 60 + parseInt(secondsStr, 10),
+    });
+  }
+
+  return Ok(players);
+}
+
+// =============================================================================
+// ShowServerInfo Parser
+// =============================================================================
+
+/**
+ * Reads a numeric ShowServerInfo field, which Squad sends as either a
+ * number or a numeric string.
+ */
+function numberField(data: Record<string, unknown>, key: string): number | null {
+  const value = data[key];
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function stringField(data: Record<string, unknown>, key: string): string | null {
+  const value = data[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/**
+ * Reads a boolean ShowServerInfo field, which Squad sends as either a
+ * boolean or "true"/"false".
+ */
+function booleanField(data: Record<string, unknown>, key: string): boolean {
+  const value = data[key];
+  return value === true || value === 'true';
+}
+
+/**
+ * Parses the JSON response from ShowServerInfo command.
+ *
+ * @param response - The raw command response
+ * @returns Server info
+ *
+ * @example
+ * ```typescript
+ * const result = parseServerInfo(response);
+ * if (result.ok) {
+ *   console.log(`${result.value.playerCount}/${result.value.maxPlayers} (+${result.value.publicQueue})`);
+ * }
+ * ```
+ */
+export function parseServerInfo(response: string): Result<ServerInfo, ParseError> {
+  let data: unknown;
+  try {
+    data = JSON.parse(response);
+  } catch {
+    return Err(ParseError.unexpectedFormat('ShowServerInfo', 'a JSON object', response));
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return Err(ParseError.unexpectedFormat('ShowServerInfo', 'a JSON object', response));
+  }
+
+  const fields = data as Record<string, unknown>;
+  const name = stringField(fields, 'ServerName_s');
+  const maxPlayers = numberField(fields, 'MaxPlayers');
+  if (name === null) {
+    return Err(ParseError.missingField('ShowServerInfo', 'ServerName_s', response));
+  }
+  if (maxPlayers === null) {
+    return Err(ParseError.missingField('ShowServerInfo', 'MaxPlayers', response));
+  }
+
+  const nextLayer = stringField(fields, 'NextLayer_s');
+
+  return Ok({
+    name,
+    maxPlayers,
+    playerCount: numberField(fields, 'PlayerCount_I') ?? 0,
+    publicQueue: numberField(fields, 'PublicQueue_I') ?? 0,
+    reserveQueue: numberField(fields, 'ReservedQueue_I') ?? 0,
+    publicQueueLimit: numberField(fields, 'PublicQueueLimit_I') ?? 0,
+    reserveSlots: numberField(fields, 'PlayerReserveCount_I') ?? 0,
+    currentLayer: stringField(fields, 'MapName_s'),
+    nextLayer: nextLayer === 'To be voted' ? null : nextLayer,
+    teamOne: stringField(fields, 'TeamOne_s'),
+    teamTwo: stringField(fields, 'TeamTwo_s'),
+    gameMode: stringField(fields, 'GameMode_s'),
+    gameVersion: stringField(fields, 'GameVersion_s'),
+    licensed: booleanField(fields, 'LICENSEDSERVER_b'),
+    playTime: numberField(fields, 'PLAYTIME_I') ?? 0,
+    matchTimeout: numberField(fields, 'MatchTimeout_d'),
+  });
+}
+
+// =============================================================================
+// ListLayers / ListLevels Parsers
+// =============================================================================
+
+/**
+ * Collects the entries of a "List of available ..." response.
+ */
+function parseNameList(response: string): string[] {
+  const names: string[] = [];
+
+  for (const line of response.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || Patterns.LIST_HEADER.test(trimmed)) continue;
+    names.push(trimmed);
+  }
+
+  return names;
+}
+
+/**
+ * Parses the response from ListLayers command.
+ *
+ * Some builds follow the layer name with a description in parentheses;
+ * only the name is kept.
+ *
+ * @param response - The raw command response
+ * @returns Layer names (e.g., "Narva_RAAS_v1")
+ */
+export function parseListLayers(response: string): Result<string[], ParseError> {
+  return Ok(parseNameList(response).map((line) => line.split(/\s+/)[0] ?? line));
+}
+
+/**
+ * Parses the response from ListLevels command.
+ *
+ * @param response - The raw command response
+ * @returns Level names (e.g., "Narva")
+ */
+export function parseListLevels(response: string): Result<string[], ParseError> {
+  return Ok(parseNameList(response));
+}
@@ -364,11 +364,16 @@ export function isAuthResponse(packet: RconPacket): boolean {
 /**
  * Checks if authentication was successful.
  *
+ * Only the low byte of the ID is transmitted, so a failure (-1) arrives
+ * as 0xFF.
+ *
  * @param packet - The auth response packet
  * @returns True if authentication succeeded
  */
 export function isAuthSuccess(packet: RconPacket): boolean {
-  return isAuthResponse(packet) && packet.id !== PacketId.AUTH_FAILED;
+  return isAuthResponse(packet)
+    && packet.id !== PacketId.AUTH_FAILED
+    && packet.id !== (PacketId.AUTH_FAILED & 0xff);
 }
 
 /**
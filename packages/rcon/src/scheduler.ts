@@ -0,0 +1,340 @@
+/**
+ * @squadscript/rcon
+ *
+ * Command scheduler for the RCON client.
+ *
+ * Queues commands by priority, limits how fast they are sent, and lets
+ * identical read-only queries share a single round trip. This keeps a
+ * burst of admin actions (a team shuffle, a mass kick) from flooding the
+ * server or being stuck behind routine polls.
+ *
+ * @module
+ */
+
+import { type Result, Err } from '@squadscript/types';
+import { CommandPriority } from './constants.js';
+import { CommandError, type RconError } from './errors.js';
+import type { QueueConfig } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Sends a command and resolves with its response.
+ */
+export type CommandSender = (command: string) => Promise<Result<string, RconError>>;
+
+/**
+ * Command queue metrics.
+ */
+export interface CommandQueueStats {
+  /** Commands waiting to be sent, by priority. */
+  readonly queued: Readonly<Record<CommandPriority, number>>;
+
+  /** Commands waiting to be sent in total. */
+  readonly queueDepth: number;
+
+  /** Highest queue depth seen. */
+  readonly peakQueueDepth: number;
+
+  /** Commands sent and awaiting a response. */
+  readonly inFlight: number;
+
+  /** Commands sent since the client was created. */
+  readonly sent: number;
+
+  /** Queries answered by joining an identical query already pending. */
+  readonly coalesced: number;
+
+  /** Commands rejected because the queue was full. */
+  readonly rejected: number;
+
+  /** Average time recent commands waited in the queue (ms). */
+  readonly averageWaitMs: number;
+
+  /** Average time recent commands took to be answered once sent (ms). */
+  readonly averageLatencyMs: number;
+}
+
+interface QueuedCommand {
+  readonly command: string;
+  readonly queuedAt: number;
+  readonly resolve: (result: Result<string, RconError>) => void;
+}
+
+/** Send order of the priority classes. */
+const PRIORITY_ORDER: readonly CommandPriority[] = [
+  CommandPriority.ADMIN,
+  CommandPriority.BROADCAST,
+  CommandPriority.POLL,
+];
+
+/** Commands that only read server state. */
+const READ_ONLY_COMMAND = /^(?:List|Show)\w*/i;
+
+/** Commands that message players. */
+const MESSAGE_COMMAND = /^Admin(?:Broadcast|Warn)\b/i;
+
+/** Completed commands the averages are taken over. */
+const SAMPLE_SIZE = 100;
+
+// =============================================================================
+// Classification
+// =============================================================================
+
+/**
+ * Whether a command only reads server state, so identical pending
+ * copies can share one response. The empty heartbeat command counts.
+ */
+export function isReadOnlyCommand(command: string): boolean {
+  const trimmed = command.trim();
+  return trimmed === '' || READ_ONLY_COMMAND.test(trimmed);
+}
+
+/**
+ * Picks the priority class for a command that wasn't given one.
+ */
+export function classifyCommand(command: string): CommandPriority {
+  if (isReadOnlyCommand(command)) {
+    return CommandPriority.POLL;
+  }
+  if (MESSAGE_COMMAND.test(command.trim())) {
+    return CommandPriority.BROADCAST;
+  }
+  return CommandPriority.ADMIN;
+}
+
+// =============================================================================
+// CommandScheduler Class
+// =============================================================================
+
+/**
+ * Priority queue with a token bucket rate limit in front of a sender.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new CommandScheduler(send, {
+ *   rate: 20,
+ *   burst: 10,
+ *   maxInFlight: 4,
+ *   maxQueueSize: 1000,
+ *   coalesce: true,
+ * });
+ *
+ * const players = await scheduler.schedule('ListPlayers');
+ * ```
+ */
+export class CommandScheduler {
+  private readonly queues: Record<CommandPriority, QueuedCommand[]> = {
+    admin: [],
+    broadcast: [],
+    poll: [],
+  };
+
+  /** Pending read-only queries by command, for coalescing. */
+  private readonly pendingQueries = new Map<string, Promise<Result<string, RconError>>>();
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private sent = 0;
+  private coalesced = 0;
+  private rejected = 0;
+  private peakQueueDepth = 0;
+  private readonly waitSamples: number[] = [];
+  private readonly latencySamples: number[] = [];
+
+  constructor(
+    private readonly send: CommandSender,
+    private readonly config: Required<QueueConfig>,
+  ) {
+    this.tokens = config.burst;
+  }
+
+  /**
+   * Number of commands waiting to be sent.
+   */
+  get queueDepth(): number {
+    return PRIORITY_ORDER.reduce((total, priority) => total + this.queues[priority].length, 0);
+  }
+
+  /**
+   * Queues a command and resolves with its response.
+   *
+   * @param command - The command string to execute
+   * @param priority - Priority class (default: derived from the command)
+   */
+  schedule(
+    command: string,
+    priority: CommandPriority = classifyCommand(command),
+  ): Promise<Result<string, RconError>> {
+    const coalesce = this.config.coalesce && isReadOnlyCommand(command);
+    if (coalesce) {
+      const pending = this.pendingQueries.get(command);
+      if (pending) {
+        this.coalesced++;
+        return pending;
+      }
+    }
+
+    if (this.queueDepth >= this.config.maxQueueSize) {
+      this.rejected++;
+      return Promise.resolve(Err(CommandError.queueFull(command, this.config.maxQueueSize)));
+    }
+
+    const promise = new Promise<Result<string, RconError>>((resolve) => {
+      this.queues[priority].push({ command, queuedAt: Date.now(), resolve });
+    });
+    this.peakQueueDepth = Math.max(this.peakQueueDepth, this.queueDepth);
+
+    if (coalesce) {
+      this.pendingQueries.set(command, promise);
+      void promise.then(() => {
+        if (this.pendingQueries.get(command) === promise) {
+          this.pendingQueries.delete(command);
+        }
+      });
+    }
+
+    this.pump();
+    return promise;
+  }
+
+  /**
+   * Fails every queued command. Commands already sent are unaffected.
+   *
+   * @param reason - Why the commands were dropped
+   */
+  clear(reason: string): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const priority of PRIORITY_ORDER) {
+      const queue = this.queues[priority];
+      this.queues[priority] = [];
+      for (const item of queue) {
+        item.resolve(Err(CommandError.aborted(item.command, reason)));
+      }
+    }
+  }
+
+  /**
+   * Returns current queue metrics.
+   */
+  getStats(): CommandQueueStats {
+    return {
+      queued: {
+        admin: this.queues.admin.length,
+        broadcast: this.queues.broadcast.length,
+        poll: this.queues.poll.length,
+      },
+      queueDepth: this.queueDepth,
+      peakQueueDepth: this.peakQueueDepth,
+      inFlight: this.inFlight,
+      sent: this.sent,
+      coalesced: this.coalesced,
+      rejected: this.rejected,
+      averageWaitMs: average(this.waitSamples),
+      averageLatencyMs: average(this.latencySamples),
+    };
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Sends queued commands while the rate limit and in-flight cap allow.
+   */
+  private pump(): void {
+    while (this.inFlight < this.config.maxInFlight) {
+      const queue = PRIORITY_ORDER.map((priority) => this.queues[priority]).find((q) => q.length > 0);
+      if (!queue) {
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.waitForToken();
+        return;
+      }
+
+      this.tokens -= 1;
+      const item = queue.shift();
+      if (item) {
+        this.dispatch(item);
+      }
+    }
+  }
+
+  /**
+   * Sends a command and settles its promise when it is answered.
+   */
+  private dispatch(item: QueuedCommand): void {
+    const sentAt = Date.now();
+    this.inFlight++;
+    this.sent++;
+    addSample(this.waitSamples, sentAt - item.queuedAt);
+
+    void this.send(item.command)
+      .catch((error: unknown) => Err(new CommandError(
+        'COMMAND_FAILED',
+        error instanceof Error ? error.message : String(error),
+        { command: item.command },
+      )))
+      .then((result) => {
+        addSample(this.latencySamples, Date.now() - sentAt);
+        this.inFlight--;
+        item.resolve(result);
+        this.pump();
+      });
+  }
+
+  /**
+   * Adds the tokens earned since the last refill.
+   */
+  private refill(): void {
+    const now = Date.now();
+    if (!Number.isFinite(this.config.rate)) {
+      this.tokens = this.config.burst;
+    } else {
+      const earned = ((now - this.lastRefill) * this.config.rate) / 1000;
+      this.tokens = Math.min(this.config.burst, this.tokens + earned);
+    }
+    this.lastRefill = now;
+  }
+
+  /**
+   * Resumes sending once the next token is available.
+   */
+  private waitForToken(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const delay = Math.ceil(((1 - this.tokens) * 1000) / this.config.rate);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, delay);
+  }
+}
+
+function addSample(samples: number[], value: number): void {
+  samples.push(value);
+  if (samples.length > SAMPLE_SIZE) {
+    samples.shift();
+  }
+}
+
+function average(samples: readonly number[]): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  return samples.reduce((total, value) => total + value, 0) / samples.length;
+}
@@ -7,7 +7,7 @@
  */
 
 import type { SteamID, EOSID, PlayerID, TeamID, SquadID } from '@squadscript/types';
-import type { ChatChannel, ConnectionState } from './constants.js';
+import type { ChatChannel, CommandPriority, ConnectionState } from './constants.js';
 
 // Re-export for convenience
 export type { ConnectionState };
@@ -39,6 +39,9 @@ export interface RconConfig {
   /** Heartbeat/keepalive configuration. */
   readonly heartbeat?: HeartbeatConfig;
 
+  /** Command queue and rate limiting configuration. */
+  readonly queue?: QueueConfig;
+
   /** Connection timeout in milliseconds. */
   readonly connectTimeout?: number;
 }
@@ -66,6 +69,14 @@ export interface ReconnectConfig {
   readonly maxAttempts?: number;
 }
 
+/**
+ * Options for a single command execution.
+ */
+export interface ExecuteOptions {
+  /** Priority class (default: derived from the command). */
+  readonly priority?: CommandPriority;
+}
+
 /**
  * Command execution configuration.
  */
@@ -91,6 +102,26 @@ export interface HeartbeatConfig {
   readonly command?: string;
 }
 
+/**
+ * Command queue and rate limiting configuration.
+ */
+export interface QueueConfig {
+  /** Commands sent per second once the burst is used up (default: 20). */
+  readonly rate?: number;
+
+  /** Commands that may be sent back-to-back (default: 10). */
+  readonly burst?: number;
+
+  /** Commands awaiting a response at the same time (default: 4). */
+  readonly maxInFlight?: number;
+
+  /** Queued commands before new ones are rejected (default: 1000). */
+  readonly maxQueueSize?: number;
+
+  /** Share one response between identical read-only queries (default: true). */
+  readonly coalesce?: boolean;
+}
+
 /**
  * Resolved configuration with all defaults applied.
  */
@@ -102,6 +133,7 @@ export interface ResolvedRconConfig {
   readonly reconnect: Required<ReconnectConfig>;
   readonly command: Required<CommandConfig>;
   readonly heartbeat: Required<HeartbeatConfig>;
+  readonly queue: Required<QueueConfig>;
 }
 
 // =============================================================================
@@ -191,6 +223,79 @@ export interface MapInfo {
   readonly layer: string | null;
 }
 
+/**
+ * Player information from AdminListDisconnectedPlayers command.
+ */
+export interface DisconnectedPlayerInfo {
+  /** In-game player ID the player had. */
+  readonly playerID: PlayerID;
+
+  /** Player's Steam ID (null if not available). */
+  readonly steamID: SteamID | null;
+
+  /** Player's EOS ID. */
+  readonly eosID: EOSID;
+
+  /** Player's display name. */
+  readonly name: string;
+
+  /** Seconds since the player disconnected. */
+  readonly disconnectedFor: number;
+}
+
+/**
+ * Server information from ShowServerInfo command.
+ */
+export interface ServerInfo {
+  /** Server name. */
+  readonly name: string;
+
+  /** Maximum player slots. */
+  readonly maxPlayers: number;
+
+  /** Connected players. */
+  readonly playerCount: number;
+
+  /** Players waiting in the public queue. */
+  readonly publicQueue: number;
+
+  /** Players waiting in the reserved queue. */
+  readonly reserveQueue: number;
+
+  /** Maximum length of the public queue. */
+  readonly publicQueueLimit: number;
+
+  /** Slots kept for reserved players. */
+  readonly reserveSlots: number;
+
+  /** Current layer name. */
+  readonly currentLayer: string | null;
+
+  /** Next layer name (null if it will be voted). */
+  readonly nextLayer: string | null;
+
+  /** Team 1 faction. */
+  readonly teamOne: string | null;
+
+  /** Team 2 faction. */
+  readonly teamTwo: string | null;
+
+  /** Game mode (e.g., "RAAS"). */
+  readonly gameMode: string | null;
+
+  /** Game version string. */
+  readonly gameVersion: string | null;
+
+  /** Whether the server is a licensed (official) server. */
+  readonly licensed: boolean;
+
+  /** Seconds the current match has been running. */
+  readonly playTime: number;
+
+  /** Match time limit in seconds (null if unknown). */
+  readonly matchTimeout: number | null;
+}
+
 // =============================================================================
 // Event Types
 // =============================================================================
@@ -0,0 +1,168 @@
+/**
+ * @squadscript/rcon
+ *
+ * Tests for the fake RCON server, driven through a real RconClient.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { RconClient } from '../src/client.js';
+import { MockRconServer } from '../src/mock-server.js';
+import { isAuthenticationError } from '../src/errors.js';
+import type { RconEventMap } from '../src/types.js';
+
+const ALICE = '0002a10186d9414496bf20d22d3860ba';
+const BOB = '0002b20286d9414496bf20d22d3860bb';
+
+function createClient(mock: MockRconServer, password = mock.password): RconClient {
+  return new RconClient({
+    host: mock.host,
+    port: mock.port,
+    password,
+    reconnect: { enabled: false },
+  });
+}
+
+function nextEvent<K extends keyof RconEventMap>(
+  client: RconClient,
+  event: K,
+): Promise<RconEventMap[K]> {
+  return new Promise((resolve) => client.once(event, resolve as never));
+}
+
+describe('MockRconServer', () => {
+  let mock: MockRconServer;
+  let client: RconClient;
+
+  beforeEach(async () => {
+    mock = new MockRconServer({
+      fixture: {
+        players: [
+          { playerID: 1, eosID: ALICE, steamID: '76561198000000001', name: 'Alice', teamID: 1, squadID: 1, isLeader: true, role: 'USA_SL_01' },
+          { playerID: 2, eosID: BOB, name: 'Bob', teamID: 2 },
+        ],
+        squads: [{ squadID: 1, teamID: 1, name: 'Alpha', creatorEOSID: ALICE }],
+        currentMap: { level: 'Gorodok', layer: 'Gorodok_RAAS_v1' },
+      },
+    });
+    await mock.start();
+
+    client = createClient(mock);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    client.destroy();
+    await mock.stop();
+  });
+
+  it('answers queries from the fixture despite the broken trailing packet', async () => {
+    const players = await client.getPlayers();
+    const squads = await client.getSquads();
+    const map = await client.getCurrentMap();
+
+    expect(players.ok && players.value.map((p) => p.name)).toEqual(['Alice', 'Bob']);
+    expect(players.ok && players.value[1]?.squadID).toBeNull();
+    expect(squads.ok && squads.value[0]?.name).toBe('Alpha');
+    expect(squads.ok && squads.value[0]?.size).toBe(1);
+    expect(map.ok && map.value.layer).toBe('Gorodok_RAAS_v1');
+    expect(mock.commands).toEqual(['ListPlayers', 'ListSquads', 'ShowCurrentMap']);
+  });
+
+  it('reassembles responses split across packets', async () => {
+    const small = new MockRconServer({ maxBodySize: 16, fixture: mock.fixture });
+    await small.start();
+    const other = createClient(small);
+    await other.connect();
+
+    try {
+      const players = await other.getPlayers();
+      expect(players.ok && players.value).toHaveLength(2);
+    } finally {
+      other.destroy();
+      await small.stop();
+    }
+  });
+
+  it('pushes chat and admin camera packets', async () => {
+    const chat = nextEvent(client, 'CHAT_MESSAGE');
+    mock.sendChatMessage(ALICE, 'ChatTeam', 'need ammo');
+    expect(await chat).toMatchObject({ channel: 'ChatTeam', eosID: ALICE, playerName: 'Alice', message: 'need ammo' });
+
+    const cam = nextEvent(client, 'ADMIN_CAM_ENTERED');
+    mock.sendAdminCamPossessed(BOB);
+    expect((await cam).eosID).toBe(BOB);
+  });
+
+  it('applies admin commands to the model and echoes their notices', async () => {
+    const banned = nextEvent(client, 'PLAYER_BANNED');
+    const result = await client.ban(BOB as never, '1d', 'griefing');
+
+    expect(result.ok).toBe(true);
+    expect(await banned).toMatchObject({ eosID: BOB, interval: '1d' });
+    expect(mock.fixture.players.map((p) => p.name)).toEqual(['Alice']);
+  });
+
+  it('answers server info, layer and disconnected player queries', async () => {
+    mock.fixture.disconnectedPlayers.push({ playerID: 5, eosID: BOB, name: 'Bob', disconnectedFor: 90 });
+
+    const info = await client.getServerInfo();
+    const layers = await client.getLayers();
+    const levels = await client.getLevels();
+    const disconnected = await client.getDisconnectedPlayers();
+    const players = await client.getPlayers();
+
+    expect(info.ok && info.value).toMatchObject({ playerCount: 2, maxPlayers: 100, currentLayer: 'Gorodok_RAAS_v1', nextLayer: null });
+    expect(layers.ok && layers.value).toContain('Narva_RAAS_v1');
+    expect(levels.ok && levels.value).toEqual(['Narva', 'Gorodok', 'Yehorivka']);
+    expect(disconnected.ok && disconnected.value).toMatchObject([{ name: 'Bob', disconnectedFor: 90 }]);
+    expect(players.ok && players.value).toHaveLength(2);
+  });
+
+  it('sends typed admin commands', async () => {
+    expect((await client.removeFromSquad(ALICE as never)).ok).toBe(true);
+    expect((await client.setMaxPlayers(80)).ok).toBe(true);
+    expect((await client.setPublicQueueLimit(-1)).ok).toBe(true);
+    expect((await client.pauseMatch()).ok).toBe(true);
+    expect((await client.forceAllRoleAvailability(true)).ok).toBe(true);
+    expect((await client.renameSquad(1, 1)).ok).toBe(true);
+
+    expect(mock.fixture.players[0]?.squadID).toBeNull();
+    expect(mock.fixture.server).toMatchObject({ maxPlayers: 80, publicQueueLimit: -1, paused: true });
+    expect(mock.commands).toEqual([
+      `AdminRemovePlayerFromSquad "${ALICE}"`,
+      'AdminSetMaxNumPlayers 80',
+      'AdminSetPublicQueueLimit -1',
+      'AdminPauseMatch',
+      'AdminForceAllRoleAvailability 1',
+      'AdminRenameSquad 1 1',
+    ]);
+  });
+
+  it('rejects invalid arguments without sending them', async () => {
+    const players = await client.setMaxPlayers(0);
+    const slomo = await client.setSlomo(-1);
+
+    expect(!players.ok && players.error.code).toBe('INVALID_COMMAND');
+    expect(!slomo.ok && slomo.error.code).toBe('INVALID_COMMAND');
+    expect(mock.commands).toEqual([]);
+  });
+
+  it('uses custom command handlers before the built-in ones', async () => {
+    mock.onCommand('ShowCurrentMap', 'Current level is Yehorivka, layer is Yehorivka_AAS_v2');
+
+    const map = await client.getCurrentMap();
+    expect(map.ok && map.value.level).toBe('Yehorivka');
+  });
+
+  it('rejects a wrong password', async () => {
+    const other = createClient(mock, 'wrong');
+    try {
+      await other.connect();
+      throw new Error('expected connect to fail');
+    } catch (error) {
+      expect(isAuthenticationError(error)).toBe(true);
+    } finally {
+      other.destroy();
+    }
+  });
+});
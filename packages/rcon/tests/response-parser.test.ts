@@ -10,6 +10,10 @@ import {
   parseListSquads,
   parseCurrentMap,
   parseNextMap,
+  parseDisconnectedPlayers,
+  parseServerInfo,
+  parseListLayers,
+  parseListLevels,
 } from '../src/parsers/response.js';
 
 describe('Response Parsers', () => {
@@ -229,4 +233,128 @@ Team ID: 2 (Russian Ground Forces)`;
       }
     });
   });
+
+  describe('parseDisconnectedPlayers', () => {
+    it('should parse disconnected players and their time away', () => {
+      const response = [
+        '----- Recently Disconnected Players [Max of 15] -----',
+        'ID: 3 | Online IDs:EOS: 0002a10186d9414496bf20d22d3860ba steam: 76561198012345678 | Since Disconnect: 02m.30s | Name: Left Early',
+        'ID: 7 | Online IDs:EOS: 0002b20286d9414496bf20d22d3860bb | Since Disconnect: 00m.05s | Name: Bob',
+      ].join('\n');
+
+      const result = parseDisconnectedPlayers(response);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([
+          {
+            playerID: 3 as never,
+            steamID: '76561198012345678' as never,
+            eosID: '0002a10186d9414496bf20d22d3860ba' as never,
+            name: 'Left Early',
+            disconnectedFor: 150,
+          },
+          {
+            playerID: 7 as never,
+            steamID: null,
+            eosID: '0002b20286d9414496bf20d22d3860bb' as never,
+            name: 'Bob',
+            disconnectedFor: 5,
+          },
+        ]);
+      }
+    });
+
+    it('should ignore active player lines', () => {
+      const response = 'ID: 1 | Online IDs:EOS: 0002a10186d9414496bf20d22d3860ba | Name: Alice | Team ID: 1 | Squad ID: N/A | Is Leader: False | Role: Rifleman';
+
+      const result = parseDisconnectedPlayers(response);
+
+      expect(result.ok && result.value).toEqual([]);
+    });
+  });
+
+  describe('parseServerInfo', () => {
+    const info = {
+      MaxPlayers: 100,
+      GameMode_s: 'RAAS',
+      MapName_s: 'Narva_RAAS_v1',
+      GameVersion_s: 'v8.0.1.349521',
+      LICENSEDSERVER_b: true,
+      PLAYTIME_I: '1534',
+      MatchTimeout_d: 7200,
+      PlayerCount_I: '97',
+      ServerName_s: 'Test Server',
+      TeamOne_s: 'USA_CombinedArms',
+      TeamTwo_s: 'RGF_CombinedArms',
+      NextLayer_s: 'Gorodok_AAS_v2',
+      PublicQueueLimit_I: '25',
+      PublicQueue_I: '4',
+      ReservedQueue_I: '1',
+      PlayerReserveCount_I: '2',
+    };
+
+    it('should parse string and numeric fields', () => {
+      const result = parseServerInfo(JSON.stringify(info));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual({
+          name: 'Test Server',
+          maxPlayers: 100,
+          playerCount: 97,
+          publicQueue: 4,
+          reserveQueue: 1,
+          publicQueueLimit: 25,
+          reserveSlots: 2,
+          currentLayer: 'Narva_RAAS_v1',
+          nextLayer: 'Gorodok_AAS_v2',
+          teamOne: 'USA_CombinedArms',
+          teamTwo: 'RGF_CombinedArms',
+          gameMode: 'RAAS',
+          gameVersion: 'v8.0.1.349521',
+          licensed: true,
+          playTime: 1534,
+          matchTimeout: 7200,
+        });
+      }
+    });
+
+    it('should treat a voted next layer as unset', () => {
+      const result = parseServerInfo(JSON.stringify({ ...info, NextLayer_s: 'To be voted' }));
+
+      expect(result.ok && result.value.nextLayer).toBeNull();
+    });
+
+    it('should return error for non-JSON response', () => {
+      const result = parseServerInfo('Unknown command');
+
+      expect(!result.ok && result.error.code).toBe('UNEXPECTED_FORMAT');
+    });
+
+    it('should return error when the server name is missing', () => {
+      const { ServerName_s: _, ...rest } = info;
+      const result = parseServerInfo(JSON.stringify(rest));
+
+      expect(!result.ok && result.error.code).toBe('MISSING_FIELD');
+    });
+  });
+
+  describe('parseListLayers / parseListLevels', () => {
+    it('should skip the header and keep layer names', () => {
+      const response = 'List of available layers :\nNarva_RAAS_v1\nGorodok_AAS_v2 (Gorodok AAS v2)\n';
+
+      const result = parseListLayers(response);
+
+      expect(result.ok && result.value).toEqual(['Narva_RAAS_v1', 'Gorodok_AAS_v2']);
+    });
+
+    it('should keep level names with spaces', () => {
+      const response = 'List of available levels :\nAl Basrah\nNarva';
+
+      const result = parseListLevels(response);
+
+      expect(result.ok && result.value).toEqual(['Al Basrah', 'Narva']);
+    });
+  });
 });
@@ -0,0 +1,211 @@
+/**
+ * @squadscript/rcon
+ *
+ * Unit tests for the command scheduler.
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { Ok, type Result } from '@squadscript/types';
+import { RconClient } from '../src/client.js';
+import { CommandPriority } from '../src/constants.js';
+import type { RconError } from '../src/errors.js';
+import { MockRconServer } from '../src/mock-server.js';
+import { CommandScheduler, classifyCommand, isReadOnlyCommand } from '../src/scheduler.js';
+import type { QueueConfig } from '../src/types.js';
+
+const CONFIG: Required<QueueConfig> = {
+  rate: Infinity,
+  burst: 100,
+  maxInFlight: 1,
+  maxQueueSize: 100,
+  coalesce: true,
+};
+
+/**
+ * Sender that holds every command until `flush()` answers it.
+ */
+function createSender() {
+  const sent: string[] = [];
+  const waiting: (() => void)[] = [];
+
+  const send = (command: string): Promise<Result<string, RconError>> => {
+    sent.push(command);
+    return new Promise((resolve) => {
+      waiting.push(() => resolve(Ok(`response to ${command}`)));
+    });
+  };
+
+  const flush = async (): Promise<void> => {
+    while (waiting.length > 0) {
+      waiting.shift()?.();
+      await Bun.sleep(0);
+    }
+  };
+
+  return { send, sent, flush };
+}
+
+describe('classifyCommand', () => {
+  it('should classify commands by what they do', () => {
+    expect(classifyCommand('ListPlayers')).toBe(CommandPriority.POLL);
+    expect(classifyCommand('ShowCurrentMap')).toBe(CommandPriority.POLL);
+    expect(classifyCommand('')).toBe(CommandPriority.POLL);
+    expect(classifyCommand('AdminBroadcast Hello')).toBe(CommandPriority.BROADCAST);
+    expect(classifyCommand('AdminWarn "1" Hello')).toBe(CommandPriority.BROADCAST);
+    expect(classifyCommand('AdminKick "1" Bye')).toBe(CommandPriority.ADMIN);
+    expect(classifyCommand('AdminForceTeamChange "1"')).toBe(CommandPriority.ADMIN);
+  });
+
+  it('should only treat queries as read-only', () => {
+    expect(isReadOnlyCommand('ListSquads')).toBe(true);
+    expect(isReadOnlyCommand('AdminWarn "1" Hello')).toBe(false);
+  });
+});
+
+describe('CommandScheduler', () => {
+  it('should send queued commands in priority order', async () => {
+    const { send, sent, flush } = createSender();
+    const scheduler = new CommandScheduler(send, CONFIG);
+
+    void scheduler.schedule('ListPlayers');
+    void scheduler.schedule('ListSquads');
+    void scheduler.schedule('AdminBroadcast Hello');
+    void scheduler.schedule('AdminForceTeamChange "1"');
+    await flush();
+
+    expect(sent).toEqual([
+      'ListPlayers',
+      'AdminForceTeamChange "1"',
+      'AdminBroadcast Hello',
+      'ListSquads',
+    ]);
+  });
+
+  it('should honour an explicit priority', async () => {
+    const { send, sent, flush } = createSender();
+    const scheduler = new CommandScheduler(send, CONFIG);
+
+    void scheduler.schedule('AdminKick "1" Bye');
+    void scheduler.schedule('AdminKick "2" Bye', CommandPriority.POLL);
+    void scheduler.schedule('ListPlayers', CommandPriority.ADMIN);
+    await flush();
+
+    expect(sent).toEqual(['AdminKick "1" Bye', 'ListPlayers', 'AdminKick "2" Bye']);
+  });
+
+  it('should coalesce identical pending queries', async () => {
+    const { send, sent, flush } = createSender();
+    const scheduler = new CommandScheduler(send, { ...CONFIG, maxInFlight: 4 });
+
+    const first = scheduler.schedule('ListPlayers');
+    const second = scheduler.schedule('ListPlayers');
+    void scheduler.schedule('AdminWarn "1" Hi');
+    void scheduler.schedule('AdminWarn "1" Hi');
+    await flush();
+
+    expect(await first).toEqual(await second);
+    expect(sent).toEqual(['ListPlayers', 'AdminWarn "1" Hi', 'AdminWarn "1" Hi']);
+    expect(scheduler.getStats().coalesced).toBe(1);
+
+    // Answered queries are sent again
+    void scheduler.schedule('ListPlayers');
+    await flush();
+    expect(sent.filter((c) => c === 'ListPlayers')).toHaveLength(2);
+  });
+
+  it('should not coalesce when disabled', async () => {
+    const { send, sent, flush } = createSender();
+    const scheduler = new CommandScheduler(send, { ...CONFIG, coalesce: false });
+
+    void scheduler.schedule('ListPlayers');
+    void scheduler.schedule('ListPlayers');
+    await flush();
+
+    expect(sent).toEqual(['ListPlayers', 'ListPlayers']);
+  });
+
+  it('should limit the send rate after the burst', async () => {
+    const { send, sent, flush } = createSender();
+    const scheduler = new CommandScheduler(send, { ...CONFIG, rate: 20, burst: 2, maxInFlight: 10 });
+
+    for (let i = 0; i < 3; i++) {
+      void scheduler.schedule(`AdminKick "${i}" Bye`);
+    }
+
+    expect(sent).toHaveLength(2);
+    await Bun.sleep(80);
+    expect(sent).toHaveLength(3);
+    await flush();
+  });
+
+  it('should reject commands when the queue is full', async () => {
+    const { send, flush } = createSender();
+    const scheduler = new CommandScheduler(send, { ...CONFIG, maxQueueSize: 1 });
+
+    void scheduler.schedule('AdminKick "1" Bye'); // sent
+    void scheduler.schedule('AdminKick "2" Bye'); // queued
+    const result = await scheduler.schedule('AdminKick "3" Bye');
+
+    expect(!result.ok && result.error.code).toBe('QUEUE_FULL');
+    expect(scheduler.getStats().rejected).toBe(1);
+    await flush();
+  });
+
+  it('should abort queued commands on clear', async () => {
+    const { send, flush } = createSender();
+    const scheduler = new CommandScheduler(send, CONFIG);
+
+    const sent = scheduler.schedule('AdminKick "1" Bye');
+    const queued = scheduler.schedule('AdminKick "2" Bye');
+    scheduler.clear('Connection closed');
+
+    const result = await queued;
+    expect(!result.ok && result.error.code).toBe('COMMAND_ABORTED');
+    await flush();
+    expect((await sent).ok).toBe(true);
+  });
+
+  it('should report queue depth and in-flight commands', async () => {
+    const { send, flush } = createSender();
+    const scheduler = new CommandScheduler(send, CONFIG);
+
+    void scheduler.schedule('AdminKick "1" Bye');
+    void scheduler.schedule('AdminBroadcast Hello');
+    void scheduler.schedule('ListPlayers');
+
+    expect(scheduler.getStats()).toMatchObject({
+      queued: { admin: 0, broadcast: 1, poll: 1 },
+      queueDepth: 2,
+      inFlight: 1,
+      sent: 1,
+    });
+
+    await flush();
+    expect(scheduler.getStats()).toMatchObject({ queueDepth: 0, inFlight: 0, sent: 3, peakQueueDepth: 2 });
+  });
+});
+
+describe('RconClient command queue', () => {
+  it('should send one ListPlayers for concurrent callers', async () => {
+    const mock = new MockRconServer({ fixture: { players: [] } });
+    await mock.start();
+    const client = new RconClient({
+      host: mock.host,
+      port: mock.port,
+      password: mock.password,
+      reconnect: { enabled: false },
+    });
+
+    try {
+      await client.connect();
+      const results = await Promise.all([client.getPlayers(), client.getPlayers(), client.getPlayers()]);
+
+      expect(results.every((r) => r.ok)).toBe(true);
+      expect(mock.commands).toEqual(['ListPlayers']);
+      expect(client.getQueueStats().coalesced).toBe(2);
+    } finally {
+      client.destroy();
+      await mock.stop();
+    }
+  });
+});
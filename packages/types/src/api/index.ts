@@ -13,12 +13,16 @@ export type {
   KickPlayerRequest,
   BanPlayerRequest,
   MessagePlayerRequest,
+  CreateBanRequest,
+  UpdateBanRequest,
+  BansQueryParams,
   ExecuteRconRequest,
   BroadcastRequest,
   ChangeLayerRequest,
   SetNextLayerRequest,
   UpdatePluginRequest,
   AddPluginRequest,
+  InstallPluginRequest,
   UpdateServerConfigRequest,
   UpdateRulesRequest,
   UpdateAdminsRequest,
@@ -38,13 +42,18 @@ export type {
   ServerInfoDTO,
   LayerDTO,
   PlayerDTO,
+  PlayerProfileDTO,
   SquadDTO,
   MetricsSnapshot,
   PluginDTO,
+  PluginRuntimeStatsDTO,
+  PluginBudgetDTO,
+  PluginHandlerStatsDTO,
   PluginOptionSpecDTO,
   LogEntryDTO,
   PaginatedResponse,
   DashboardUserDTO,
+  AuthUserDTO,
   RoleDTO,
   RconCommandResultDTO,
   RconHistoryEntryDTO,
@@ -52,7 +61,16 @@ export type {
   AuditLogEntryDTO,
   ServerConfigDTO,
   MapRotationDTO,
+  BanStatus,
+  BanSource,
   BanHistoryEntryDTO,
+  MatchDTO,
+  MatchEventDTO,
+  MatchTimelineDTO,
+  RconQueueStatsDTO,
+  ParserCoverageDTO,
+  ParserRuleCoverageDTO,
+  UnmatchedLineClusterDTO,
 } from './responses.js';
 
 export type {
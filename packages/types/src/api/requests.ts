@@ -36,6 +36,33 @@ export interface MessagePlayerRequest {
   readonly message: string;
 }
 
+// =============================================================================
+// Bans
+// =============================================================================
+
+export interface CreateBanRequest {
+  readonly steamId?: string | undefined;
+  readonly eosId?: string | undefined;
+  readonly name?: string | undefined;
+  /** Duration in seconds (0 = permanent). */
+  readonly duration: number;
+  readonly reason: string;
+}
+
+export interface UpdateBanRequest {
+  /** New duration in seconds from the original ban time (0 = permanent). */
+  readonly duration?: number | undefined;
+  readonly reason?: string | undefined;
+}
+
+export interface BansQueryParams {
+  /** Steam ID, EOS ID or partial name. */
+  readonly search?: string | undefined;
+  readonly status?: 'active' | 'expired' | 'revoked' | undefined;
+  readonly limit?: number | undefined;
+  readonly offset?: number | undefined;
+}
+
 // =============================================================================
 // RCON
 // =============================================================================
@@ -75,6 +102,16 @@ export interface AddPluginRequest {
   readonly options?: Record<string, unknown> | undefined;
 }
 
+/** Installs or upgrades a plugin package. */
+export interface InstallPluginRequest {
+  /** Contents of the package's `plugin.json`. */
+  readonly manifest: Record<string, unknown>;
+  /** The bundled ES module. */
+  readonly code: string;
+  /** Enable the plugin after installing (default: the manifest's defaultEnabled). */
+  readonly enabled?: boolean | undefined;
+}
+
 // =============================================================================
 // Config
 // =============================================================================
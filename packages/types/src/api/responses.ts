@@ -13,7 +13,7 @@
 export interface AuthTokenResponse {
   readonly token: string;
   readonly expiresAt: string;
-  readonly user: DashboardUserDTO;
+  readonly user: AuthUserDTO;
 }
 
 // =============================================================================
@@ -38,10 +38,20 @@ export interface ServerInfoDTO {
   readonly playerCount: number;
   readonly publicQueue: number;
   readonly reserveQueue: number;
-  readonly currentLayer: string;
-  readonly nextLayer: string;
-  readonly teamOne: string;
-  readonly teamTwo: string;
+  readonly publicQueueLimit: number;
+  readonly reserveSlots: number;
+  readonly currentLayer: string | null;
+  readonly nextLayer: string | null;
+  readonly teamOne: string | null;
+  readonly teamTwo: string | null;
+  readonly gameMode: string | null;
+  readonly gameVersion: string | null;
+  readonly licensed: boolean;
+  /** Seconds the current match has been running. */
+  readonly playTime: number;
+  /** Match time limit in seconds. */
+  readonly matchTimeout: number | null;
+  readonly updatedAt: string;
 }
 
 export interface LayerDTO {
@@ -67,6 +77,25 @@ export interface PlayerDTO {
   readonly role: string | null;
 }
 
+/** Persistent player history, as returned by `GET /api/players/:eosId/profile`. */
+export interface PlayerProfileDTO {
+  readonly eosId: string;
+  readonly steamId: string | null;
+  readonly name: string | null;
+  readonly nameHistory: readonly string[];
+  readonly firstSeen: string;
+  readonly lastSeen: string;
+  readonly playtimeSeconds: number;
+  readonly visits: number;
+  readonly kills: number;
+  readonly deaths: number;
+  readonly teamkills: number;
+  readonly revives: number;
+  readonly warnings: number;
+  readonly kicks: number;
+  readonly bans: number;
+}
+
 // =============================================================================
 // Squads
 // =============================================================================
@@ -108,6 +137,61 @@ export interface PluginDTO {
   readonly state: string;
   readonly options: Record<string, unknown>;
   readonly optionsSpec: readonly PluginOptionSpecDTO[];
+  /** Whether the plugin exposes a service to other plugins. */
+  readonly providesService: boolean;
+  /** Plugins that use this plugin's service. */
+  readonly consumers: readonly string[];
+  /** Plugins whose services this plugin uses. */
+  readonly providers: readonly string[];
+  /** Capabilities of a plugin installed from the dashboard; null for trusted plugins. */
+  readonly capabilities: readonly string[] | null;
+  /** Handler measurements and budget of a mounted plugin; null when not mounted. */
+  readonly stats: PluginRuntimeStatsDTO | null;
+}
+
+export interface PluginRuntimeStatsDTO {
+  /** Circuit breaker state: CLOSED, OPEN (tripped) or HALF_OPEN. */
+  readonly circuit: string;
+  /** Consecutive errors and budget violations. */
+  readonly failures: number;
+  /** Intervals and timeouts the plugin has running. */
+  readonly timers: number;
+  /** Heap in use by a sandboxed plugin in bytes; null for plugins in the server process. */
+  readonly heapUsed: number | null;
+  readonly budget: PluginBudgetDTO;
+  readonly handlers: readonly PluginHandlerStatsDTO[];
+}
+
+export interface PluginBudgetDTO {
+  readonly maxHandlerDuration: number;
+  readonly maxBlockingDuration: number;
+  readonly maxConcurrency: number;
+  readonly maxQueueSize: number;
+  readonly maxQueueDelay: number;
+  readonly maxTimers: number;
+  /** Heap a sandboxed plugin may use, in megabytes. */
+  readonly maxMemory: number;
+}
+
+export interface PluginHandlerStatsDTO {
+  /** Event name, or `interval:<label>` / `timeout:<label>` for timers. */
+  readonly key: string;
+  readonly calls: number;
+  readonly errors: number;
+  readonly running: number;
+  readonly peakConcurrency: number;
+  readonly queued: number;
+  readonly throttled: number;
+  readonly dropped: number;
+  readonly skipped: number;
+  readonly slow: number;
+  readonly blocking: number;
+  readonly avgDurationMs: number;
+  readonly maxDurationMs: number;
+  readonly avgQueueDelayMs: number;
+  readonly maxQueueDelayMs: number;
+  /** Longest the event loop was blocked before the handler's first await. */
+  readonly maxBlockingMs: number;
 }
 
 export interface PluginOptionSpecDTO {
@@ -150,6 +234,11 @@ export interface DashboardUserDTO {
   readonly createdAt: string;
 }
 
+/** The authenticated user, with the permissions granted by their role. */
+export interface AuthUserDTO extends DashboardUserDTO {
+  readonly permissions: readonly string[];
+}
+
 export interface RoleDTO {
   readonly name: string;
   readonly permissions: readonly string[];
@@ -216,14 +305,118 @@ export interface MapRotationDTO {
 // Ban History
 // =============================================================================
 
+/** Whether a ban is in force, has run out, or was lifted. */
+export type BanStatus = 'active' | 'expired' | 'revoked';
+
+/** Where a ban was issued. */
+export type BanSource = 'dashboard' | 'ingame' | 'bans_cfg';
+
 export interface BanHistoryEntryDTO {
   readonly id: number;
+  readonly serverId: string | null;
   readonly steamId: string | null;
   readonly eosId: string | null;
   readonly name: string | null;
   readonly reason: string;
   readonly duration: number;
   readonly adminName: string | null;
+  readonly source: BanSource;
+  readonly status: BanStatus;
   readonly createdAt: string;
   readonly expiresAt: string | null;
+  readonly revokedAt: string | null;
+  readonly revokedBy: string | null;
+}
+
+// =============================================================================
+// Matches
+// =============================================================================
+
+export interface MatchDTO {
+  readonly id: number;
+  readonly serverId: string;
+  readonly level: string;
+  readonly layer: string;
+  readonly team1Faction: string | null;
+  readonly team2Faction: string | null;
+  readonly winner: number | null;
+  readonly team1Tickets: number | null;
+  readonly team2Tickets: number | null;
+  readonly eventCount: number;
+  readonly startedAt: string;
+  /** Null while the round is still being played. */
+  readonly endedAt: string | null;
+  readonly durationMs: number | null;
+}
+
+/** One entry on a match timeline. `data` depends on `type`. */
+export interface MatchEventDTO {
+  readonly id: number;
+  /** Milliseconds since the round started. */
+  readonly offsetMs: number;
+  readonly time: string;
+  readonly type: string;
+  /** Links damage, wound and death entries for the same hit. */
+  readonly chainId: number | null;
+  readonly data: Record<string, unknown>;
+}
+
+export interface MatchTimelineDTO {
+  readonly match: MatchDTO;
+  readonly events: readonly MatchEventDTO[];
+}
+
+// =============================================================================
+// RCON
+// =============================================================================
+
+/** RCON command queue back-pressure, as returned by `GET /api/rcon/queue`. */
+export interface RconQueueStatsDTO {
+  readonly connected: boolean;
+  /** Commands waiting to be sent, by priority class. */
+  readonly queued: {
+    readonly admin: number;
+    readonly broadcast: number;
+    readonly poll: number;
+  };
+  readonly queueDepth: number;
+  readonly peakQueueDepth: number;
+  readonly inFlight: number;
+  readonly sent: number;
+  readonly coalesced: number;
+  readonly rejected: number;
+  readonly averageWaitMs: number;
+  readonly averageLatencyMs: number;
+}
+
+// =============================================================================
+// Log Parser
+// =============================================================================
+
+export interface ParserRuleCoverageDTO {
+  readonly name: string;
+  readonly event: string;
+  /** Lines matched since the server started. Zero may mean a broken rule. */
+  readonly matches: number;
+}
+
+/** Unmatched log lines sharing one normalized shape. */
+export interface UnmatchedLineClusterDTO {
+  readonly category: string;
+  readonly shape: string;
+  readonly count: number;
+  readonly sample: string;
+  readonly firstSeen: string;
+  readonly lastSeen: string;
+}
+
+export interface ParserCoverageDTO {
+  readonly linesProcessed: number;
+  readonly linesMatched: number;
+  readonly linesUnmatched: number;
+  readonly linesDropped: number;
+  /** Matched share of processed lines (0-1). */
+  readonly matchRate: number;
+  readonly rules: readonly ParserRuleCoverageDTO[];
+  readonly unmatched: readonly UnmatchedLineClusterDTO[];
 }
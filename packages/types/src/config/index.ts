@@ -10,6 +10,8 @@ export type {
   LogReaderMode,
   FtpConfig,
   LogReaderConfig,
+  LogCheckpointConfig,
+  RconQueueConfig,
   RconConfig,
   ServerConfig,
   AdminListSourceType,
@@ -31,6 +31,20 @@ export interface FtpConfig {
   secure?: boolean;
 }
 
+/**
+ * Log reader checkpoint configuration.
+ */
+export interface LogCheckpointConfig {
+  /** Path of the JSON file the read position is saved to. */
+  file: string;
+
+  /** Oldest checkpoint still resumed from (ms). */
+  maxCatchUpAge?: number;
+
+  /** Largest backlog read on resume (bytes). */
+  maxCatchUpBytes?: number;
+}
+
 /**
  * Log reader configuration.
  */
@@ -46,6 +60,29 @@ export interface LogReaderConfig {
 
   /** FTP configuration (for ftp/sftp modes). */
   ftp?: FtpConfig;
+
+  /** Resume from the last read position after a restart. */
+  checkpoint?: LogCheckpointConfig;
+}
+
+/**
+ * RCON command queue configuration.
+ */
+export interface RconQueueConfig {
+  /** Commands sent per second. */
+  rate?: number;
+
+  /** Commands that may be sent back to back before the rate applies. */
+  burst?: number;
+
+  /** Commands awaiting a response at once. */
+  maxInFlight?: number;
+
+  /** Queued commands before new ones are rejected. */
+  maxQueueSize?: number;
+
+  /** Share one response between identical pending queries. */
+  coalesce?: boolean;
 }
 
 /**
@@ -72,6 +109,9 @@ export interface RconConfig {
 
   /** Connection timeout (ms). */
   timeout?: number;
+
+  /** Command priority queue and rate limit. */
+  queue?: RconQueueConfig;
 }
 
 /**
@@ -49,6 +49,19 @@ export const EventType = {
 
   // Deployable events
   DEPLOYABLE_DAMAGED: 'DEPLOYABLE_DAMAGED',
+  DEPLOYABLE_CONSTRUCTED: 'DEPLOYABLE_CONSTRUCTED',
+  DEPLOYABLE_DESTROYED: 'DEPLOYABLE_DESTROYED',
+
+  // Vehicle events
+  VEHICLE_DAMAGED: 'VEHICLE_DAMAGED',
+  VEHICLE_DESTROYED: 'VEHICLE_DESTROYED',
+  PLAYER_ENTERED_VEHICLE: 'PLAYER_ENTERED_VEHICLE',
+
+  // Custom log events
+  CUSTOM_LOG_EVENT: 'CUSTOM_LOG_EVENT',
+
+  // Plugin events
+  PLUGIN_EVENT: 'PLUGIN_EVENT',
 
   // RCON events
   RCON_CONNECTED: 'RCON_CONNECTED',
@@ -81,4 +94,11 @@ export interface BaseEvent {
    * Useful for debugging and advanced parsing.
    */
   readonly raw: string;
+
+  /**
+   * Set on log-parsed events that happened while SquadScript was not
+   * running and were caught up from a log reader checkpoint. Handlers
+   * that message players may want to skip these.
+   */
+  readonly replayed?: boolean;
 }
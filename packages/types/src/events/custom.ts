@@ -0,0 +1,108 @@
+/**
+ * @squadscript/types
+ *
+ * Custom log events produced by parsing rules registered at runtime.
+ *
+ * @module
+ */
+
+import type { BaseEvent } from './base.js';
+
+/**
+ * A value extracted from a log line by a custom rule.
+ */
+export type CustomLogFieldValue = string | number | boolean | null;
+
+/**
+ * Emitted when a custom parsing rule matches a log line.
+ *
+ * Every custom rule emits under `CUSTOM_LOG_EVENT`; `event` tells them
+ * apart.
+ *
+ * @typeParam TData - Shape of the extracted fields
+ *
+ * @example
+ * ```typescript
+ * this.on('CUSTOM_LOG_EVENT', (event) => {
+ *   if (event.event === 'VEHICLE_SPAWNED') {
+ *     this.log.info(`Spawned ${event.data.vehicle}`);
+ *   }
+ * });
+ * ```
+ */
+export interface CustomLogEvent<
+  TData extends Record<string, unknown> = Record<string, CustomLogFieldValue>,
+> extends BaseEvent {
+  /** The event name given by the rule (e.g. 'VEHICLE_SPAWNED'). */
+  readonly event: string;
+
+  /** Name of the rule that matched. */
+  readonly rule: string;
+
+  /** Chain ID from the log line prefix, if the rule uses it. */
+  readonly chainID: number | null;
+
+  /** Fields extracted from the line. */
+  readonly data: TData;
+}
+
+/**
+ * Maps a capture group to an event field.
+ *
+ * A number is a group index (1 is the first group of `pattern`), a
+ * string is a named group. The object form converts the value.
+ */
+export type CustomLogRuleField =
+  | number
+  | string
+  | {
+    readonly group: number | string;
+    readonly type?: 'string' | 'number' | 'boolean' | undefined;
+  };
+
+/**
+ * A parsing rule described as data, for config files and plugins.
+ *
+ * @example
+ * ```typescript
+ * const rule: CustomLogRuleDefinition = {
+ *   name: 'vehicle-spawned',
+ *   event: 'VEHICLE_SPAWNED',
+ *   pattern: String.raw`LogSquadVehicleSpawner: Spawned (?<vehicle>\w+) for team (\d)`,
+ *   fields: {
+ *     vehicle: 'vehicle',
+ *     team: { group: 2, type: 'number' },
+ *   },
+ * };
+ * ```
+ */
+export interface CustomLogRuleDefinition {
+  /** Unique rule name. */
+  readonly name: string;
+
+  /** Event name reported in `CustomLogEvent.event`. */
+  readonly event: string;
+
+  /**
+   * Regular expression source (or a RegExp). Unless `prefix` is false,
+   * it is matched after the standard `[timestamp][chainID]` prefix.
+   */
+  readonly pattern: string | RegExp;
+
+  /**
+   * Whether `pattern` follows the standard log line prefix.
+   * @default true
+   */
+  readonly prefix?: boolean | undefined;
+
+  /** Capture groups to copy into `data`. */
+  readonly fields?: Readonly<Record<string, CustomLogRuleField>> | undefined;
+
+  /**
+   * Builds `data` from the match instead of `fields` (plugins only).
+   * Returning null skips the line. With the prefix, the match starts
+   * with the timestamp and chain ID, so the first group of `pattern` is
+   * `match[3]`; named groups avoid the offset.
+   */
+  readonly parse?: ((match: RegExpExecArray) => Record<string, unknown> | null) | undefined;
+}
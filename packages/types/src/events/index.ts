@@ -27,6 +27,15 @@ export type {
   DeployableDamagedEvent,
 } from './combat.js';
 
+// Re-export vehicle and deployable events
+export type {
+  VehicleDamagedEvent,
+  VehicleDestroyedEvent,
+  PlayerEnteredVehicleEvent,
+  DeployableConstructedEvent,
+  DeployableDestroyedEvent,
+} from './vehicle.js';
+
 // Re-export chat events
 export type { ChatChannel, ChatMessageEvent, ChatCommandEvent } from './chat.js';
 export { parseChatCommand } from './chat.js';
@@ -50,6 +59,17 @@ export type {
   SquadCreatedEvent,
 } from './admin.js';
 
+// Re-export custom log events
+export type {
+  CustomLogEvent,
+  CustomLogFieldValue,
+  CustomLogRuleField,
+  CustomLogRuleDefinition,
+} from './custom.js';
+
+// Re-export plugin events
+export type { PluginEvent } from './plugin.js';
+
 // Re-export RCON events
 export type {
   RconConnectedEvent,
@@ -73,6 +93,13 @@ import type {
   PlayerRevivedEvent,
   DeployableDamagedEvent,
 } from './combat.js';
+import type {
+  VehicleDamagedEvent,
+  VehicleDestroyedEvent,
+  PlayerEnteredVehicleEvent,
+  DeployableConstructedEvent,
+  DeployableDestroyedEvent,
+} from './vehicle.js';
 import type { ChatMessageEvent, ChatCommandEvent } from './chat.js';
 import type {
   NewGameEvent,
@@ -89,6 +116,8 @@ import type {
   PlayerBannedEvent,
   SquadCreatedEvent,
 } from './admin.js';
+import type { CustomLogEvent } from './custom.js';
+import type { PluginEvent } from './plugin.js';
 import type {
   RconConnectedEvent,
   RconDisconnectedEvent,
@@ -126,6 +155,13 @@ export interface SquadEventMap {
   [EventType.PLAYER_DIED]: PlayerDiedEvent;
   [EventType.PLAYER_REVIVED]: PlayerRevivedEvent;
   [EventType.DEPLOYABLE_DAMAGED]: DeployableDamagedEvent;
+  [EventType.DEPLOYABLE_CONSTRUCTED]: DeployableConstructedEvent;
+  [EventType.DEPLOYABLE_DESTROYED]: DeployableDestroyedEvent;
+
+  // Vehicle events
+  [EventType.VEHICLE_DAMAGED]: VehicleDamagedEvent;
+  [EventType.VEHICLE_DESTROYED]: VehicleDestroyedEvent;
+  [EventType.PLAYER_ENTERED_VEHICLE]: PlayerEnteredVehicleEvent;
 
   // Chat events
   [EventType.CHAT_MESSAGE]: ChatMessageEvent;
@@ -148,6 +184,12 @@ export interface SquadEventMap {
   [EventType.PLAYER_WARNED]: PlayerWarnedEvent;
   [EventType.PLAYER_BANNED]: PlayerBannedEvent;
 
+  // Custom log events
+  [EventType.CUSTOM_LOG_EVENT]: CustomLogEvent;
+
+  // Plugin events
+  [EventType.PLUGIN_EVENT]: PluginEvent;
+
   // RCON events
   [EventType.RCON_CONNECTED]: RconConnectedEvent;
   [EventType.RCON_DISCONNECTED]: RconDisconnectedEvent;
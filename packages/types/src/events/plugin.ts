@@ -0,0 +1,37 @@
+/**
+ * @squadscript/types
+ *
+ * Events emitted by plugins for other plugins.
+ *
+ * @module
+ */
+
+import type { BaseEvent } from './base.js';
+
+/**
+ * Emitted when a plugin emits a custom event.
+ *
+ * Every plugin event is emitted under `PLUGIN_EVENT`; `plugin` and
+ * `event` tell them apart, so two plugins may use the same event name.
+ *
+ * @typeParam TData - Shape of the event data
+ *
+ * @example
+ * ```typescript
+ * this.on('PLUGIN_EVENT', (event) => {
+ *   if (event.plugin === 'RoundStatsSummary' && event.event === 'ROUND_STATS') {
+ *     this.log.info('Round stats', event.data);
+ *   }
+ * });
+ * ```
+ */
+export interface PluginEvent<TData = unknown> extends BaseEvent {
+  /** Name of the plugin that emitted the event. */
+  readonly plugin: string;
+
+  /** The event name given by the plugin (e.g. 'ROUND_STATS'). */
+  readonly event: string;
+
+  /** Data passed by the plugin. */
+  readonly data: TData;
+}
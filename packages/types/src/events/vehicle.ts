@@ -0,0 +1,114 @@
+/**
+ * @squadscript/types
+ *
+ * Vehicle and deployable event types.
+ *
+ * Vehicles and deployables are identified by their class (e.g.
+ * 'BP_BTR80_RUS') and by their instance name (e.g.
+ * 'BP_BTR80_RUS_C_2147001234'), which stays the same from spawn to
+ * destruction and links the events for one asset.
+ *
+ * @module
+ */
+
+import type { BaseEvent } from './base.js';
+import type { Player } from '../player.js';
+import type { TeamID } from '../branded.js';
+
+/**
+ * Emitted when a vehicle takes damage.
+ */
+export interface VehicleDamagedEvent extends BaseEvent {
+  /** The vehicle class. */
+  readonly vehicle: string;
+
+  /** The vehicle instance. */
+  readonly vehicleID: string;
+
+  /** The weapon or projectile that dealt the damage. */
+  readonly weapon: string;
+
+  /** The damage dealt. */
+  readonly damage: number;
+
+  /** Vehicle health after the hit. */
+  readonly healthRemaining: number;
+
+  /** The player who dealt the damage (if known). */
+  readonly attacker: Player | null;
+}
+
+/**
+ * Emitted when a vehicle is destroyed.
+ *
+ * When the log line does not name a cause, the weapon and attacker of
+ * the last VEHICLE_DAMAGED event for the same vehicle are used.
+ */
+export interface VehicleDestroyedEvent extends BaseEvent {
+  /** The vehicle class. */
+  readonly vehicle: string;
+
+  /** The vehicle instance. */
+  readonly vehicleID: string;
+
+  /** The weapon that destroyed the vehicle (if known). */
+  readonly weapon: string | null;
+
+  /** The player who destroyed the vehicle (if known). */
+  readonly attacker: Player | null;
+}
+
+/**
+ * Emitted when a player takes a seat in a vehicle.
+ */
+export interface PlayerEnteredVehicleEvent extends BaseEvent {
+  /** The player who entered. */
+  readonly player: Player;
+
+  /** The vehicle class. */
+  readonly vehicle: string;
+
+  /** The vehicle instance. */
+  readonly vehicleID: string;
+
+  /** Seat index; 0 is the driver. */
+  readonly seat: number;
+
+  /** Whether the player took the driver's seat. */
+  readonly driver: boolean;
+}
+
+/**
+ * Emitted when a deployable (FOB radio, HAB, emplacement, etc.) finishes
+ * construction.
+ */
+export interface DeployableConstructedEvent extends BaseEvent {
+  /** The deployable class. */
+  readonly deployable: string;
+
+  /** The deployable instance. */
+  readonly deployableID: string;
+
+  /** The team that owns the deployable (if known). */
+  readonly teamID: TeamID | null;
+
+  /** The player who placed it (if known). */
+  readonly player: Player | null;
+}
+
+/**
+ * Emitted when a deployable is destroyed.
+ */
+export interface DeployableDestroyedEvent extends BaseEvent {
+  /** The deployable class. */
+  readonly deployable: string;
+
+  /** The deployable instance. */
+  readonly deployableID: string;
+
+  /** The weapon that destroyed it (if known). */
+  readonly weapon: string | null;
+
+  /** The player who destroyed it (if known). */
+  readonly attacker: Player | null;
+}
@@ -63,6 +63,7 @@ export type {
   AnyPlayerID,
   PlayerConnection,
   PlayerWithConnection,
+  PlayerProfile,
 } from './player.js';
 
 export { createEmptyPlayer, createPartialPlayer } from './player.js';
@@ -109,6 +110,12 @@ export {
   type PlayerDiedEvent,
   type PlayerRevivedEvent,
   type DeployableDamagedEvent,
+  // Vehicle and deployable events
+  type VehicleDamagedEvent,
+  type VehicleDestroyedEvent,
+  type PlayerEnteredVehicleEvent,
+  type DeployableConstructedEvent,
+  type DeployableDestroyedEvent,
   // Chat events
   type ChatChannel,
   type ChatMessageEvent,
@@ -127,6 +134,13 @@ export {
   type PlayerWarnedEvent,
   type PlayerBannedEvent,
   type SquadCreatedEvent,
+  // Custom log events
+  type CustomLogEvent,
+  type CustomLogFieldValue,
+  type CustomLogRuleField,
+  type CustomLogRuleDefinition,
+  // Plugin events
+  type PluginEvent,
   // RCON events
   type RconConnectedEvent,
   type RconDisconnectedEvent,
@@ -141,6 +155,7 @@ export {
   type RconPlayer,
   type RconSquad,
   type RconServerInfo,
+  type RconDisconnectedPlayer,
   PacketType,
   PacketID,
   MAXIMUM_PACKET_SIZE,
@@ -167,13 +182,32 @@ export {
   type PluginEventEmitter,
   type PluginRconExecutor,
   type ServerStateReader,
+  type PlayerProfileReader,
+  type PluginBanTarget,
+  type PluginBans,
+  type PluginStorageSetOptions,
+  type PluginStorage,
+  type PluginAuditEntry,
+  type PluginAuditLog,
+  type PluginLogRules,
   type PluginLogger,
   type PluginContext,
+  type ChatCommandArgumentType,
+  type ChatCommandArgument,
+  type ChatCommandArguments,
+  type InferChatCommandArgument,
+  type ResolvedChatCommandArgs,
+  type ChatCommandInvocation,
+  type ChatCommandDefinition,
+  type PluginCommands,
   type Connector,
   type DiscordMessageOptions,
   type DiscordConnector,
   type DatabaseQueryResult,
   type DatabaseConnector,
+  type PluginCapability,
+  type PluginManifest,
+  PLUGIN_CAPABILITIES,
   defineOption,
   defineOptions,
 } from './plugin/index.js';
@@ -185,6 +219,8 @@ export type {
   LogReaderMode,
   FtpConfig,
   LogReaderConfig,
+  LogCheckpointConfig,
+  RconQueueConfig,
   RconConfig,
   ServerConfig,
   AdminListSourceType,
@@ -204,12 +240,16 @@ export type {
   KickPlayerRequest,
   BanPlayerRequest,
   MessagePlayerRequest,
+  CreateBanRequest,
+  UpdateBanRequest,
+  BansQueryParams,
   ExecuteRconRequest,
   BroadcastRequest,
   ChangeLayerRequest,
   SetNextLayerRequest,
   UpdatePluginRequest,
   AddPluginRequest,
+  InstallPluginRequest,
   UpdateServerConfigRequest,
   UpdateRulesRequest,
   UpdateAdminsRequest,
@@ -227,13 +267,18 @@ export type {
   ServerInfoDTO,
   LayerDTO,
   PlayerDTO,
+  PlayerProfileDTO,
   SquadDTO,
   MetricsSnapshot,
   PluginDTO,
+  PluginRuntimeStatsDTO,
+  PluginBudgetDTO,
+  PluginHandlerStatsDTO,
   PluginOptionSpecDTO,
   LogEntryDTO,
   PaginatedResponse,
   DashboardUserDTO,
+  AuthUserDTO,
   RoleDTO,
   RconCommandResultDTO,
   RconHistoryEntryDTO,
@@ -241,7 +286,16 @@ export type {
   AuditLogEntryDTO,
   ServerConfigDTO,
   MapRotationDTO,
+  BanStatus,
+  BanSource,
   BanHistoryEntryDTO,
+  MatchDTO,
+  MatchEventDTO,
+  MatchTimelineDTO,
+  RconQueueStatsDTO,
+  ParserCoverageDTO,
+  ParserRuleCoverageDTO,
+  UnmatchedLineClusterDTO,
 
   // WebSocket
   WSChannel,
@@ -101,6 +101,59 @@ export interface PlayerWithConnection extends Player {
   readonly connection: PlayerConnection;
 }
 
+/**
+ * Persistent cross-session history for a player.
+ *
+ * Profiles are keyed by EOS ID and survive restarts, so plugins can
+ * rely on them instead of keeping their own visit or stats maps.
+ */
+export interface PlayerProfile {
+  /** 32-character Epic Online Services ID. */
+  readonly eosID: EOSID;
+
+  /** Last known Steam ID, if any. */
+  readonly steamID: SteamID | null;
+
+  /** Most recently seen name. Null until the player's name is known. */
+  readonly name: string | null;
+
+  /** Every name the player has used, oldest first. */
+  readonly nameHistory: readonly string[];
+
+  /** When the player was first seen. */
+  readonly firstSeen: Date;
+
+  /** When the player was last seen. */
+  readonly lastSeen: Date;
+
+  /** Total time spent on the server, in seconds. */
+  readonly playtimeSeconds: number;
+
+  /** Number of sessions (connections). */
+  readonly visits: number;
+
+  /** Enemy kills. */
+  readonly kills: number;
+
+  /** Deaths, including suicides. */
+  readonly deaths: number;
+
+  /** Kills of teammates. */
+  readonly teamkills: number;
+
+  /** Revives of other players. */
+  readonly revives: number;
+
+  /** Admin warnings received. */
+  readonly warnings: number;
+
+  /** Kicks received. */
+  readonly kicks: number;
+
+  /** Bans received. */
+  readonly bans: number;
+}
+
 /**
  * Creates an empty/default Player object.
  * Useful for initializing state before data is loaded.
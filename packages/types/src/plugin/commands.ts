@@ -0,0 +1,181 @@
+/**
+ * @squadscript/types
+ *
+ * Chat command types.
+ *
+ * Plugins describe chat commands as data: their arguments, who may run
+ * them and where. The server parses chat, checks permissions, channels
+ * and cooldowns, and calls the handler with typed arguments.
+ *
+ * @module
+ */
+
+import type { Player } from '../player.js';
+import type { ChatChannel, ChatCommandEvent } from '../events/chat.js';
+import type { Unsubscribe } from './context.js';
+
+/**
+ * Supported argument types.
+ *
+ * - `string`: one word (or a "quoted phrase")
+ * - `text`: the rest of the message; must be the last argument
+ * - `number`: a number
+ * - `player`: a connected player, by partial name, EOS ID, Steam ID or `#playerID`
+ * - `duration`: a duration such as `30m`, `2h`, `1d` or `perm`
+ * - `layer`: a layer the server can load, by partial name
+ */
+export type ChatCommandArgumentType =
+  | 'string'
+  | 'text'
+  | 'number'
+  | 'player'
+  | 'duration'
+  | 'layer';
+
+/**
+ * Specification of one command argument.
+ */
+export interface ChatCommandArgument {
+  /** The argument type. */
+  readonly type: ChatCommandArgumentType;
+
+  /** Whether the argument must be given (default: true). */
+  readonly required?: boolean | undefined;
+
+  /** Short description shown by `!help <command>`. */
+  readonly description?: string | undefined;
+}
+
+/**
+ * Command arguments by name, in the order they are typed.
+ */
+export type ChatCommandArguments = Readonly<Record<string, ChatCommandArgument>>;
+
+/**
+ * Value type of a parsed argument.
+ *
+ * Durations are in milliseconds, with 0 meaning permanent.
+ */
+export type InferChatCommandArgument<T extends ChatCommandArgument> = T['type'] extends 'player'
+  ? Player
+  : T['type'] extends 'number' | 'duration'
+    ? number
+    : string;
+
+/**
+ * Parsed arguments of a command.
+ *
+ * @example
+ * ```typescript
+ * type Args = ResolvedChatCommandArgs<{
+ *   target: { type: 'player' };
+ *   reason: { type: 'text'; required: false };
+ * }>;
+ * // { target: Player; reason?: string }
+ * ```
+ */
+export type ResolvedChatCommandArgs<T extends ChatCommandArguments> = {
+  [K in keyof T as T[K]['required'] extends false ? never : K]: InferChatCommandArgument<T[K]>;
+} & {
+  [K in keyof T as T[K]['required'] extends false ? K : never]?: InferChatCommandArgument<T[K]>;
+};
+
+/**
+ * A command being run, passed to its handler.
+ */
+export interface ChatCommandInvocation<TArgs extends ChatCommandArguments = ChatCommandArguments> {
+  /** The player who ran the command. */
+  readonly player: Player;
+
+  /** The chat channel it was typed in. */
+  readonly channel: ChatChannel;
+
+  /** The command name (not the alias that was typed). */
+  readonly command: string;
+
+  /** Parsed arguments. */
+  readonly args: ResolvedChatCommandArgs<TArgs>;
+
+  /** Everything typed after the command. */
+  readonly rawArgs: string;
+
+  /** The chat event the command came from. */
+  readonly event: ChatCommandEvent;
+
+  /**
+   * Warns the player who ran the command.
+   *
+   * @param message - The reply
+   */
+  reply(message: string): Promise<void>;
+}
+
+/**
+ * A chat command.
+ *
+ * @typeParam TArgs - The argument specification
+ *
+ * @example
+ * ```typescript
+ * const kick: ChatCommandDefinition<{
+ *   target: { type: 'player' };
+ *   reason: { type: 'text' };
+ * }> = {
+ *   name: 'kick',
+ *   description: 'Kick a player',
+ *   permission: 'kick',
+ *   args: { target: { type: 'player' }, reason: { type: 'text' } },
+ *   handler: async ({ args, reply }) => {
+ *     await rcon.kick(args.target.eosID, args.reason);
+ *     await reply(`Kicked ${args.target.name}`);
+ *   },
+ * };
+ * ```
+ */
+export interface ChatCommandDefinition<TArgs extends ChatCommandArguments = ChatCommandArguments> {
+  /** Command name, typed after the prefix (case-insensitive). */
+  readonly name: string;
+
+  /** Other names that run the command. */
+  readonly aliases?: readonly string[] | undefined;
+
+  /** One-line description shown by `!help`. */
+  readonly description?: string | undefined;
+
+  /** Arguments, parsed in declaration order. */
+  readonly args?: TArgs | undefined;
+
+  /**
+   * Squad admin permission required to run the command (e.g. 'kick',
+   * 'ban', 'changemap'). Anyone may run it when omitted.
+   */
+  readonly permission?: string | undefined;
+
+  /** Chat channels the command is accepted in (default: all). */
+  readonly channels?: readonly ChatChannel[] | undefined;
+
+  /** Time in ms a player must wait between uses (default: 0). */
+  readonly cooldown?: number | undefined;
+
+  /**
+   * Runs the command. Errors are logged and the player is told the
+   * command failed.
+   */
+  handler(invocation: ChatCommandInvocation<TArgs>): void | Promise<void>;
+}
+
+/**
+ * Registers chat commands for a plugin.
+ *
+ * Command names and aliases are shared by all plugins on a server.
+ */
+export interface PluginCommands {
+  /**
+   * Adds a command.
+   *
+   * @param definition - The command
+   * @returns Function that removes the command again
+   * @throws {Error} If the definition is invalid or a name or alias is taken
+   */
+  register<TArgs extends ChatCommandArguments>(definition: ChatCommandDefinition<TArgs>): Unsubscribe;
+}
@@ -125,9 +125,20 @@ export interface DatabaseQueryResult<T = unknown> {
  * or raw database clients.
  */
 export interface DatabaseConnector extends Connector {
+  /**
+   * SQL dialect spoken by the connector.
+   *
+   * Lets plugins pick dialect-specific DDL for their tables.
+   *
+   * @example 'sqlite', 'postgres'
+   */
+  readonly dialect?: string;
+
   /**
    * Executes a SQL query.
    *
+   * Parameters are bound positionally with `?` placeholders.
+   *
    * @param sql - The SQL query string
    * @param params - Query parameters
    * @returns Query result
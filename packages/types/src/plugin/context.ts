@@ -10,7 +10,10 @@
  * @module
  */
 
-import type { Player, Squad, Layer, EOSID, SteamID } from '../index.js';
+import type { Player, PlayerProfile, Squad, Layer, EOSID, SteamID } from '../index.js';
+import type { CustomLogRuleDefinition } from '../events/custom.js';
+import type { RconDisconnectedPlayer, RconServerInfo } from '../rcon/commands.js';
+import type { PluginCommands } from './commands.js';
 
 /**
  * Unsubscribe function returned when subscribing to events.
@@ -91,6 +94,23 @@ export interface PluginEventEmitter<TEventMap extends Record<string, unknown>> {
     event: K,
     options?: { signal?: AbortSignal; timeout?: number },
   ): Promise<TEventMap[K]>;
+
+  /**
+   * Emits a custom event for other plugins.
+   *
+   * The event is emitted on the server event bus as `PLUGIN_EVENT`,
+   * tagged with the emitting plugin's name, so plugins cannot emit or
+   * spoof server events.
+   *
+   * @param event - The event name (e.g. 'ROUND_STATS')
+   * @param data - Event data
+   *
+   * @example
+   * ```typescript
+   * events.emit('ROUND_STATS', { players: stats.length });
+   * ```
+   */
+  emit(event: string, data?: unknown): void;
 }
 
 /**
@@ -139,6 +159,145 @@ export interface PluginRconExecutor {
    * @param reason - The ban reason
    */
   ban(target: string, duration: string, reason: string): Promise<void>;
+
+  /** Gets server name, slots, player and queue counts, layers and factions. */
+  getServerInfo(): Promise<RconServerInfo>;
+
+  /** Gets the players who disconnected recently (the last 15). */
+  getDisconnectedPlayers(): Promise<RconDisconnectedPlayer[]>;
+
+  /** Gets the layers the server can load. */
+  getLayers(): Promise<string[]>;
+
+  /** Gets the levels (maps) the server can load. */
+  getLevels(): Promise<string[]>;
+
+  /**
+   * Changes the current layer immediately.
+   *
+   * @param layer - Layer name (e.g., "Narva_RAAS_v1")
+   */
+  changeLayer(layer: string): Promise<void>;
+
+  /**
+   * Sets the next layer.
+   *
+   * @param layer - Layer name
+   */
+  setNextLayer(layer: string): Promise<void>;
+
+  /** Ends the current match. */
+  endMatch(): Promise<void>;
+
+  /** Restarts the current match. */
+  restartMatch(): Promise<void>;
+
+  /** Pauses the current match. */
+  pauseMatch(): Promise<void>;
+
+  /** Resumes a paused match. */
+  unpauseMatch(): Promise<void>;
+
+  /**
+   * Moves a player to the other team.
+   *
+   * @param target - Player identifier
+   */
+  forceTeamChange(target: string): Promise<void>;
+
+  /**
+   * Removes a player from their squad.
+   *
+   * @param target - Player identifier
+   */
+  removeFromSquad(target: string): Promise<void>;
+
+  /**
+   * Removes a player from the commander role.
+   *
+   * @param target - Player identifier
+   */
+  demoteCommander(target: string): Promise<void>;
+
+  /**
+   * Disbands a squad.
+   *
+   * @param teamID - Team ID (1 or 2)
+   * @param squadID - Squad ID
+   */
+  disbandSquad(teamID: number, squadID: number): Promise<void>;
+
+  /**
+   * Resets a squad's name to the default ("Squad 1", ...).
+   *
+   * @param teamID - Team ID (1 or 2)
+   * @param squadID - Squad ID
+   */
+  renameSquad(teamID: number, squadID: number): Promise<void>;
+
+  /**
+   * Sets the number of player slots.
+   *
+   * @param count - Maximum players
+   */
+  setMaxPlayers(count: number): Promise<void>;
+
+  /**
+   * Sets how many players may wait in the public queue.
+   *
+   * @param limit - Queue length (0 = no public queue, -1 = unlimited)
+   */
+  setPublicQueueLimit(limit: number): Promise<void>;
+
+  /**
+   * Sets the server password.
+   *
+   * @param password - New password (empty string removes it)
+   */
+  setServerPassword(password: string): Promise<void>;
+
+  /**
+   * Sets the game speed.
+   *
+   * @param scale - Time scale (1 = normal speed)
+   */
+  setSlomo(scale: number): Promise<void>;
+
+  /** Turns fog of war on or off. */
+  setFogOfWar(enabled: boolean): Promise<void>;
+
+  /** Makes every role available regardless of limits. */
+  forceAllRoleAvailability(enabled: boolean): Promise<void>;
+
+  /** Makes every vehicle available regardless of limits. */
+  forceAllVehicleAvailability(enabled: boolean): Promise<void>;
+
+  /** Makes every deployable available regardless of limits. */
+  forceAllDeployableAvailability(enabled: boolean): Promise<void>;
+
+  /** Lifts the requirements on player actions. */
+  forceAllActionAvailability(enabled: boolean): Promise<void>;
+
+  /** Lets deployables be placed anywhere. */
+  setAlwaysValidPlacement(enabled: boolean): Promise<void>;
+
+  /** Removes the wait between team changes. */
+  setNoTeamChangeTimer(enabled: boolean): Promise<void>;
+
+  /** Removes the respawn timer. */
+  setNoRespawnTimer(enabled: boolean): Promise<void>;
+
+  /** Turns vehicle claiming off or back on. */
+  disableVehicleClaiming(disabled: boolean): Promise<void>;
+
+  /** Lets players use vehicles of either team. */
+  disableVehicleTeamRequirement(disabled: boolean): Promise<void>;
+
+  /** Lets players use vehicles without the crew kit. */
+  disableVehicleKitRequirement(disabled: boolean): Promise<void>;
+
+  /** Reloads the server config files. */
+  reloadServerConfig(): Promise<void>;
 }
 
 /**
@@ -163,6 +322,12 @@ export interface ServerStateReader {
   /** Current player count. */
   readonly playerCount: number;
 
+  /**
+   * Latest ShowServerInfo result: queues, slots, factions and match
+   * timer. Null until the first poll completes.
+   */
+  readonly serverInfo: RconServerInfo | null;
+
   /**
    * Gets a player by their EOS ID.
    *
@@ -204,6 +369,174 @@ export interface ServerStateReader {
   getSquadsByTeam(teamID: number): readonly Squad[];
 }
 
+/**
+ * Read access to persistent player profiles.
+ *
+ * Profiles are maintained by the server from connection, combat and
+ * admin events. When no database is configured every lookup resolves
+ * to null.
+ */
+export interface PlayerProfileReader {
+  /**
+   * Gets a player's profile by EOS ID.
+   *
+   * @param eosID - The player's EOS ID
+   * @returns The profile, or null if the player has never been seen
+   */
+  get(eosID: EOSID): Promise<PlayerProfile | null>;
+
+  /**
+   * Gets a player's profile by Steam ID.
+   *
+   * @param steamID - The player's Steam ID
+   * @returns The profile, or null if no profile has this Steam ID
+   */
+  getBySteamID(steamID: SteamID): Promise<PlayerProfile | null>;
+}
+
+/**
+ * The player a ban applies to. At least one ID is required; a Player
+ * can be passed as is.
+ */
+export interface PluginBanTarget {
+  readonly eosID?: EOSID | null | undefined;
+  readonly steamID?: SteamID | null | undefined;
+  readonly name?: string | null | undefined;
+}
+
+/**
+ * Issues bans through the server's ban list.
+ *
+ * Unlike `rcon.ban()`, bans issued here are recorded in the ban history
+ * shown on the dashboard, lifted when they expire and written to
+ * Bans.cfg when the server keeps it in sync.
+ */
+export interface PluginBans {
+  /**
+   * Bans a player. Online players are banned over RCON straight away;
+   * offline players are enforced through Bans.cfg when they next join.
+   *
+   * @param target - The player to ban
+   * @param duration - Duration in seconds (0 = permanent)
+   * @param reason - The ban reason
+   * @param issuer - The in-game admin who issued it. Omit for bans the plugin issues on its own.
+   * @throws Error if the ban could not be issued
+   */
+  ban(target: PluginBanTarget, duration: number, reason: string, issuer?: Player): Promise<void>;
+}
+
+/**
+ * Options for storing a value.
+ */
+export interface PluginStorageSetOptions {
+  /** Time to live in milliseconds. The value never expires when omitted. */
+  readonly ttl?: number | undefined;
+}
+
+/**
+ * Persistent key-value storage scoped to one plugin on one server.
+ *
+ * Values are stored as JSON, so only JSON-serializable data survives a
+ * round trip (e.g. a `Date` is read back as an ISO string). Expired keys
+ * behave as if they were never set.
+ */
+export interface PluginStorage {
+  /**
+   * Reads a value.
+   *
+   * @param key - The key to read
+   * @returns The stored value, or undefined if missing or expired
+   */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+
+  /**
+   * Stores a value, replacing any previous value and TTL.
+   *
+   * @param key - The key to write
+   * @param value - A JSON-serializable value
+   * @param options - Optional TTL
+   */
+  set(key: string, value: unknown, options?: PluginStorageSetOptions): Promise<void>;
+
+  /**
+   * Deletes a value.
+   *
+   * @param key - The key to delete
+   * @returns Whether a live value was deleted
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Lists stored keys.
+   *
+   * @param prefix - Only return keys starting with this prefix
+   * @returns Live keys in ascending order
+   */
+  list(prefix?: string): Promise<string[]>;
+
+  /**
+   * Atomically adds to a numeric value.
+   *
+   * Missing or expired keys start from 0. The key's TTL is kept.
+   *
+   * @param key - The key to increment
+   * @param by - Amount to add (default 1, may be negative)
+   * @returns The new value
+   * @throws {Error} If the stored value is not a number
+   */
+  increment(key: string, by?: number): Promise<number>;
+}
+
+/**
+ * An admin action to record in the audit log.
+ */
+export interface PluginAuditEntry {
+  /** What was done, e.g. 'kick', 'ban' or 'set_next_layer'. */
+  readonly action: string;
+
+  /** The in-game admin who did it. Omit for actions the plugin takes on its own. */
+  readonly actor?: Player | undefined;
+
+  /** What it was done to, e.g. an EOS ID or `teamID/squadID`. */
+  readonly target?: string | null | undefined;
+
+  /** Extra details, such as the reason or duration. */
+  readonly details?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Writes admin actions to the dashboard audit log.
+ *
+ * Entries record the plugin that wrote them. When no database is
+ * configured entries are discarded.
+ */
+export interface PluginAuditLog {
+  /**
+   * Records an action.
+   *
+   * @param entry - The action
+   */
+  record(entry: PluginAuditEntry): Promise<void>;
+}
+
+/**
+ * Registers custom log parsing rules for a plugin.
+ *
+ * Matches are emitted as `CUSTOM_LOG_EVENT`. Rule names are scoped to
+ * the plugin, so two plugins may use the same name.
+ */
+export interface PluginLogRules {
+  /**
+   * Adds a rule, evaluated after the built-in rules.
+   *
+   * @param definition - The rule
+   * @returns Function that removes the rule again
+   * @throws {Error} If the pattern is invalid, a field references a
+   *   missing group, or the plugin already registered this name
+   */
+  register(definition: CustomLogRuleDefinition): Unsubscribe;
+}
+
 /**
  * Scoped logger interface for plugins.
  *
@@ -301,6 +634,89 @@ export interface PluginContext<
    */
   readonly log: PluginLogger;
 
+  /**
+   * Persistent player profiles (visits, playtime, combat and admin history).
+   *
+   * @example
+   * ```typescript
+   * const profile = await this.context.profiles.get(event.eosID);
+   * if (profile && profile.visits > 1) {
+   *   await this.context.rcon.warn(event.eosID, `Welcome back! Visit #${profile.visits}`);
+   * }
+   * ```
+   */
+  readonly profiles: PlayerProfileReader;
+
+  /**
+   * Ban list shared with the dashboard.
+   *
+   * @example
+   * ```typescript
+   * await this.context.bans.ban(target, 2 * 3600, 'Teamkilling', invocation.player);
+   * ```
+   */
+  readonly bans: PluginBans;
+
+  /**
+   * Persistent key-value storage for this plugin.
+   *
+   * Keys are isolated per plugin and per server, and are deleted when
+   * the plugin is uninstalled.
+   *
+   * @example
+   * ```typescript
+   * const claims = await this.context.storage.increment(`claims:${eosID}`);
+   * await this.context.storage.set('last-layer', layer.name, { ttl: 3_600_000 });
+   * ```
+   */
+  readonly storage: PluginStorage;
+
+  /**
+   * Audit log shared with the dashboard.
+   *
+   * @example
+   * ```typescript
+   * await this.context.audit.record({
+   *   action: 'kick',
+   *   actor: invocation.player,
+   *   target: target.eosID,
+   *   details: { reason },
+   * });
+   * ```
+   */
+  readonly audit: PluginAuditLog;
+
+  /**
+   * Custom log parsing rules. Prefer `registerLogRule()` in BasePlugin,
+   * which removes the rule when the plugin unmounts.
+   *
+   * @example
+   * ```typescript
+   * this.context.logRules.register({
+   *   name: 'vehicle-spawned',
+   *   event: 'VEHICLE_SPAWNED',
+   *   pattern: String.raw`LogSquadVehicleSpawner: Spawned (\w+)`,
+   *   fields: { vehicle: 1 },
+   * });
+   * ```
+   */
+  readonly logRules: PluginLogRules;
+
+  /**
+   * Chat commands. Prefer `registerCommand()` in BasePlugin, which
+   * removes the command when the plugin unmounts.
+   *
+   * @example
+   * ```typescript
+   * this.context.commands.register({
+   *   name: 'discord',
+   *   description: 'Show the Discord invite',
+   *   handler: ({ reply }) => reply('discord.gg/example'),
+   * });
+   * ```
+   */
+  readonly commands: PluginCommands;
+
   /**
    * Gets a connector by name.
    *
@@ -319,4 +735,38 @@ export interface PluginContext<
    * ```
    */
   getConnector<T>(name: string): T | undefined;
+
+  /**
+   * Exposes a service object to other plugins.
+   *
+   * Other plugins fetch it with `getPlugin()`. The service is withdrawn
+   * when this plugin unmounts; calling `provide()` again replaces it.
+   *
+   * @param service - The object other plugins may use
+   *
+   * @example
+   * ```typescript
+   * this.context.provide<RoundStatsService>({ getStats: () => [...this.stats.values()] });
+   * ```
+   */
+  provide<T>(service: T): void;
+
+  /**
+   * Gets the service another plugin exposes with `provide()`.
+   *
+   * List the plugin in `meta.dependencies` so it is mounted first and
+   * unmounted last. Fetch the service when it is needed rather than
+   * keeping it, since a reconfigured plugin provides a new one.
+   *
+   * @param name - The providing plugin's name
+   * @returns The service, or undefined if the plugin is not running or
+   *   provides none
+   *
+   * @example
+   * ```typescript
+   * const stats = this.context.getPlugin<RoundStatsService>('RoundStatsSummary');
+   * const top = stats?.getStats()[0];
+   * ```
+   */
+  getPlugin<T>(name: string): T | undefined;
 }
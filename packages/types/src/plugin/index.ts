@@ -32,10 +32,37 @@ export type {
   PluginEventEmitter,
   PluginRconExecutor,
   ServerStateReader,
+  PlayerProfileReader,
+  PluginBanTarget,
+  PluginBans,
+  PluginStorageSetOptions,
+  PluginStorage,
+  PluginAuditEntry,
+  PluginAuditLog,
+  PluginLogRules,
   PluginLogger,
   PluginContext,
 } from './context.js';
 
+// Chat command types
+export type {
+  ChatCommandArgumentType,
+  ChatCommandArgument,
+  ChatCommandArguments,
+  InferChatCommandArgument,
+  ResolvedChatCommandArgs,
+  ChatCommandInvocation,
+  ChatCommandDefinition,
+  PluginCommands,
+} from './commands.js';
+
+// Package manifest types
+export {
+  type PluginCapability,
+  type PluginManifest,
+  PLUGIN_CAPABILITIES,
+} from './manifest.js';
+
 // Connector types
 export type {
   Connector,
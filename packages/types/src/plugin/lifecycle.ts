@@ -73,7 +73,11 @@ export interface PluginMeta {
   /** Plugin homepage/repository URL. */
   readonly url?: string;
 
-  /** Plugin dependencies (other plugin names). */
+  /**
+   * Plugin dependencies (other plugin names). Dependencies are mounted
+   * before and unmounted after this plugin, and their services are
+   * available through `context.getPlugin()`.
+   */
   readonly dependencies?: readonly string[];
 }
 
@@ -0,0 +1,114 @@
+/**
+ * @squadscript/types
+ *
+ * Plugin package manifest.
+ *
+ * Third-party plugins are installed from the dashboard as a package: a
+ * manifest plus a single bundled ES module. The manifest describes the
+ * plugin without running its code and declares what it may do once
+ * installed.
+ *
+ * @module
+ */
+
+import type { PluginMeta } from './lifecycle.js';
+import type { OptionsSpecification } from './options.js';
+
+/**
+ * Something an installed plugin may do.
+ *
+ * RCON capabilities are named after the Squad admin permission that
+ * covers the same commands. Read-only RCON queries (server info, layer
+ * lists, disconnected players), events, state, profiles and storage need
+ * no capability.
+ */
+export type PluginCapability =
+  /** `rcon.broadcast()` */
+  | 'rcon.broadcast'
+  /** `rcon.warn()` */
+  | 'rcon.warn'
+  /** `rcon.kick()` */
+  | 'rcon.kick'
+  /** `rcon.ban()` and `bans.ban()` */
+  | 'rcon.ban'
+  /** Changing, ending and restarting the match. */
+  | 'rcon.changemap'
+  /** Pausing and resuming the match. */
+  | 'rcon.pause'
+  /** `rcon.forceTeamChange()` */
+  | 'rcon.forceteamchange'
+  /** Removing players from squads, disbanding, renaming and demoting. */
+  | 'rcon.squads'
+  /** Server settings: slots, queue, password, speed and cheats. */
+  | 'rcon.config'
+  /** `rcon.execute()` with any command. Grants everything above. */
+  | 'rcon.execute'
+  /** Registering chat commands. */
+  | 'commands'
+  /** Registering custom log rules. */
+  | 'logRules'
+  /** Writing to the audit log. */
+  | 'audit'
+  /** `fetch`, WebSocket and socket access. */
+  | 'network';
+
+/**
+ * Every capability, in documentation order.
+ */
+export const PLUGIN_CAPABILITIES: readonly PluginCapability[] = [
+  'rcon.broadcast',
+  'rcon.warn',
+  'rcon.kick',
+  'rcon.ban',
+  'rcon.changemap',
+  'rcon.pause',
+  'rcon.forceteamchange',
+  'rcon.squads',
+  'rcon.config',
+  'rcon.execute',
+  'commands',
+  'logRules',
+  'audit',
+  'network',
+];
+
+/**
+ * The `plugin.json` of an installable plugin package.
+ *
+ * @example
+ * ```json
+ * {
+ *   "meta": {
+ *     "name": "WelcomeBack",
+ *     "description": "Greets returning players",
+ *     "version": "1.2.0",
+ *     "defaultEnabled": true
+ *   },
+ *   "optionsSpec": {
+ *     "message": { "type": "string", "required": false, "default": "Welcome back!", "description": "Greeting" }
+ *   },
+ *   "capabilities": ["rcon.warn"],
+ *   "main": "index.js"
+ * }
+ * ```
+ */
+export interface PluginManifest {
+  /** Plugin metadata. Must match the `meta` of the bundled class. */
+  readonly meta: PluginMeta;
+
+  /**
+   * Options specification, shown in the dashboard and validated before
+   * the plugin runs. Connector references and validate functions are
+   * not supported.
+   */
+  readonly optionsSpec?: OptionsSpecification | undefined;
+
+  /** What the plugin may do. Anything else is refused at runtime. */
+  readonly capabilities: readonly PluginCapability[];
+
+  /** Connectors the plugin needs, by name. They must be configured on the server. */
+  readonly connectors?: readonly string[] | undefined;
+
+  /** File name of the bundled ES module (default: 'index.js'). */
+  readonly main?: string | undefined;
+}
@@ -56,6 +56,84 @@ export interface RconCommands {
 
   /** Disband a squad. */
   AdminDisbandSquad: void;
+
+  /** Get server name, slots, queues, layers and factions. */
+  ShowServerInfo: RconServerInfo;
+
+  /** List players who disconnected recently. */
+  AdminListDisconnectedPlayers: RconDisconnectedPlayer[];
+
+  /** List the layers the server can load. */
+  ListLayers: string[];
+
+  /** List the levels the server can load. */
+  ListLevels: string[];
+
+  /** Change the current layer immediately. */
+  AdminChangeLayer: undefined;
+
+  /** Set the next layer. */
+  AdminSetNextLayer: undefined;
+
+  /** Remove a player from their squad. */
+  AdminRemovePlayerFromSquad: undefined;
+
+  /** Remove a player from the commander role. */
+  AdminDemoteCommander: undefined;
+
+  /** Reset a squad's name to the default. */
+  AdminRenameSquad: undefined;
+
+  /** Set the number of player slots. */
+  AdminSetMaxNumPlayers: undefined;
+
+  /** Set the public queue length. */
+  AdminSetPublicQueueLimit: undefined;
+
+  /** Set or clear the server password. */
+  AdminSetServerPassword: undefined;
+
+  /** Pause the current match. */
+  AdminPauseMatch: undefined;
+
+  /** Resume a paused match. */
+  AdminUnpauseMatch: undefined;
+
+  /** Turn fog of war on or off. */
+  AdminSetFogOfWar: undefined;
+
+  /** Make every role available. */
+  AdminForceAllRoleAvailability: undefined;
+
+  /** Make every vehicle available. */
+  AdminForceAllVehicleAvailability: undefined;
+
+  /** Make every deployable available. */
+  AdminForceAllDeployableAvailability: undefined;
+
+  /** Lift the requirements on player actions. */
+  AdminForceAllActionAvailability: undefined;
+
+  /** Let deployables be placed anywhere. */
+  AdminAlwaysValidPlacement: undefined;
+
+  /** Remove the wait between team changes. */
+  AdminNoTeamChangeTimer: undefined;
+
+  /** Remove the respawn timer. */
+  AdminNoRespawnTimer: undefined;
+
+  /** Turn vehicle claiming off. */
+  AdminDisableVehicleClaiming: undefined;
+
+  /** Let players use vehicles of either team. */
+  AdminDisableVehicleTeamRequirement: undefined;
+
+  /** Let players use vehicles without the crew kit. */
+  AdminDisableVehicleKitRequirement: undefined;
+
+  /** Reload the server config files. */
+  AdminReloadServerConfig: undefined;
 }
 
 /**
@@ -117,24 +195,74 @@ export interface RconSquad {
 }
 
 /**
- * Server info from RCON.
+ * Player information as returned by AdminListDisconnectedPlayers.
+ */
+export interface RconDisconnectedPlayer {
+  /** In-game player ID the player had. */
+  playerID: number;
+
+  /** Player's Steam ID (if available). */
+  steamID: string | null;
+
+  /** Player's EOS ID. */
+  eosID: string;
+
+  /** Player's display name. */
+  name: string;
+
+  /** Seconds since the player disconnected. */
+  disconnectedFor: number;
+}
+
+/**
+ * Server info as returned by ShowServerInfo RCON command.
  */
 export interface RconServerInfo {
   /** Server name. */
-  serverName: string;
+  name: string;
 
   /** Maximum players allowed. */
   maxPlayers: number;
 
   /** Currently connected players. */
-  currentPlayers: number;
+  playerCount: number;
+
+  /** Players waiting in the public queue. */
+  publicQueue: number;
+
+  /** Players waiting in the reserved queue. */
+  reserveQueue: number;
+
+  /** Maximum length of the public queue. */
+  publicQueueLimit: number;
 
   /** Reserved slots. */
-  reservedSlots: number;
+  reserveSlots: number;
 
-  /** Current map/layer. */
-  currentLayer: string;
+  /** Current layer. */
+  currentLayer: string | null;
 
-  /** Next map/layer. */
+  /** Next layer (null if it will be voted). */
   nextLayer: string | null;
+
+  /** Team 1 faction. */
+  teamOne: string | null;
+
+  /** Team 2 faction. */
+  teamTwo: string | null;
+
+  /** Game mode (e.g., "RAAS"). */
+  gameMode: string | null;
+
+  /** Game version string. */
+  gameVersion: string | null;
+
+  /** Whether the server is a licensed (official) server. */
+  licensed: boolean;
+
+  /** Seconds the current match has been running. */
+  playTime: number;
+
+  /** Match time limit in seconds (null if unknown). */
+  matchTimeout: number | null;
 }
@@ -11,6 +11,7 @@ export type {
   RconPlayer,
   RconSquad,
   RconServerInfo,
+  RconDisconnectedPlayer,
 } from './commands.js';
 
 export {
@@ -1,13 +1,15 @@
 import { useAuthStore } from '~/stores/auth';
 
 /**
- * Role-based permission checks for the dashboard UI.
- * Uses the authenticated user's role from the auth store.
+ * Permission checks for the dashboard UI.
+ * Uses the authenticated user's role and the permissions granted to it,
+ * as issued by the API at login.
  */
 export function usePermissions() {
   const authStore = useAuthStore();
 
   const role = computed(() => authStore.user?.role ?? 'viewer');
+  const permissions = computed(() => authStore.user?.permissions ?? []);
 
   const isAdmin = computed(() => role.value === 'admin');
   const isModerator = computed(() => role.value === 'moderator' || role.value === 'admin');
@@ -28,27 +30,39 @@ export function usePermissions() {
     return userLevel >= requiredLevel;
   }
 
+  /**
+   * Check if the current user has been granted a permission.
+   * Admins hold every permission.
+   */
+  function hasPermission(permission: string): boolean {
+    return isAdmin.value || permissions.value.includes(permission);
+  }
+
   /** Can manage players (warn, kick, ban) */
-  const canManagePlayers = computed(() => hasRole('moderator'));
+  const canManagePlayers = computed(() =>
+    hasPermission('players.warn') || hasPermission('players.kick') || hasPermission('players.ban'),
+  );
 
   /** Can manage plugins (enable/disable, configure) */
-  const canManagePlugins = computed(() => hasRole('admin'));
+  const canManagePlugins = computed(() => hasPermission('plugins.manage'));
 
-  /** Can access RCON console */
-  const canAccessRcon = computed(() => hasRole('moderator'));
+  /** Can access RCON console (raw commands or broadcasts) */
+  const canAccessRcon = computed(() => hasPermission('rcon.execute') || hasPermission('rcon.broadcast'));
 
-  /** Can manage users (CRUD) */
-  const canManageUsers = computed(() => hasRole('admin'));
+  /** Can manage users and roles (CRUD) */
+  const canManageUsers = computed(() => hasPermission('users.manage'));
 
   /** Can edit server configuration */
-  const canEditConfig = computed(() => hasRole('admin'));
+  const canEditConfig = computed(() => hasPermission('config.write'));
 
   return {
     role,
+    permissions,
     isAdmin,
     isModerator,
     isViewer,
     hasRole,
+    hasPermission,
     canManagePlayers,
     canManagePlugins,
     canAccessRcon,
@@ -1,5 +1,5 @@
 import { defineStore } from 'pinia';
-import type { AuthTokenResponse, DashboardUserDTO } from '@squadscript/types/api';
+import type { AuthTokenResponse, AuthUserDTO } from '@squadscript/types/api';
 
 /**
  * Authentication store.
@@ -7,7 +7,7 @@ import type { AuthTokenResponse, DashboardUserDTO } from '@squadscript/types/api
  */
 export const useAuthStore = defineStore('auth', () => {
   const token = ref<string | null>(null);
-  const user = ref<DashboardUserDTO | null>(null);
+  const user = ref<AuthUserDTO | null>(null);
   const expiresAt = ref<string | null>(null);
   const initialized = ref(false);
 
@@ -37,7 +37,7 @@ export const useAuthStore = defineStore('auth', () => {
       const data = await $fetch<{
         token: string;
         expiresAt: string | null;
-        user: DashboardUserDTO;
+        user: AuthUserDTO;
       }>('/api/auth/session');
 
       token.value = data.token;
@@ -0,0 +1,51 @@
+import { defineStore } from 'pinia';
+import type { MatchDTO, MatchTimelineDTO, PaginatedResponse } from '@squadscript/types/api';
+
+/**
+ * Matches store.
+ * Recorded rounds and the timeline of the selected one.
+ */
+export const useMatchesStore = defineStore('matches', () => {
+  const matches = ref<MatchDTO[]>([]);
+  const total = ref(0);
+  const loading = ref(false);
+  const timeline = ref<MatchTimelineDTO | null>(null);
+  const timelineLoading = ref(false);
+
+  async function fetchMatches(offset = 0) {
+    loading.value = true;
+    try {
+      const api = useApi();
+      const result = await api.get<PaginatedResponse<MatchDTO>>('/matches', { limit: 50, offset });
+      matches.value = offset === 0 ? [...result.data] : [...matches.value, ...result.data];
+      total.value = result.total;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function fetchTimeline(id: number) {
+    timelineLoading.value = true;
+    try {
+      const api = useApi();
+      timeline.value = await api.get<MatchTimelineDTO>(`/matches/${id}/timeline`);
+    } finally {
+      timelineLoading.value = false;
+    }
+  }
+
+  async function loadMore() {
+    await fetchMatches(matches.value.length);
+  }
+
+  return {
+    matches,
+    total,
+    loading,
+    timeline,
+    timelineLoading,
+    fetchMatches,
+    fetchTimeline,
+    loadMore,
+  };
+});
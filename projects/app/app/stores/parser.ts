@@ -0,0 +1,27 @@
+import { defineStore } from 'pinia';
+import type { ParserCoverageDTO } from '@squadscript/types/api';
+
+/**
+ * Parser store.
+ * Log rule coverage and unmatched line clusters.
+ */
+export const useParserStore = defineStore('parser', () => {
+  const coverage = ref<ParserCoverageDTO | null>(null);
+  const loading = ref(false);
+
+  async function fetchCoverage() {
+    loading.value = true;
+    try {
+      const api = useApi();
+      coverage.value = await api.get<ParserCoverageDTO>('/parser/coverage', { limit: 25 });
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  return {
+    coverage,
+    loading,
+    fetchCoverage,
+  };
+});
@@ -1,5 +1,5 @@
 import { defineStore } from 'pinia';
-import type { PluginDTO, UpdatePluginRequest } from '@squadscript/types/api';
+import type { InstallPluginRequest, PluginDTO, UpdatePluginRequest } from '@squadscript/types/api';
 
 /**
  * Plugins store.
@@ -34,6 +34,13 @@ export const usePluginsStore = defineStore('plugins', () => {
     }
   }
 
+  async function fetchPlugin(name: string) {
+    const api = useApi();
+    const plugin = await api.get<PluginDTO>(`/plugins/${name}`);
+    updatePluginState(name, plugin);
+    return plugin;
+  }
+
   async function updatePlugin(name: string, data: UpdatePluginRequest) {
     const api = useApi();
     const updated = await api.patch<PluginDTO>(`/plugins/${name}`, data);
@@ -41,6 +48,24 @@ export const usePluginsStore = defineStore('plugins', () => {
     return updated;
   }
 
+  async function installPlugin(data: InstallPluginRequest) {
+    const api = useApi();
+    const installed = await api.post<PluginDTO>('/plugins/install', data);
+    const idx = plugins.value.findIndex((p) => p.name === installed.name);
+    if (idx >= 0) {
+      plugins.value[idx] = installed;
+    } else {
+      plugins.value.push(installed);
+    }
+    return installed;
+  }
+
+  async function uninstallPlugin(name: string) {
+    const api = useApi();
+    await api.delete(`/plugins/${name}`);
+    plugins.value = plugins.value.filter((p) => p.name !== name);
+  }
+
   return {
     plugins,
     loading,
@@ -49,6 +74,9 @@ export const usePluginsStore = defineStore('plugins', () => {
     setPlugins,
     updatePluginState,
     fetchPlugins,
+    fetchPlugin,
     updatePlugin,
+    installPlugin,
+    uninstallPlugin,
   };
 });
@@ -1,16 +1,19 @@
 import { defineStore } from 'pinia';
 import type {
   DashboardUserDTO,
+  RoleDTO,
   CreateUserRequest,
   UpdateUserRequest,
+  UpdateRoleRequest,
 } from '@squadscript/types/api';
 
 /**
  * Users store.
- * Dashboard user management (CRUD).
+ * Dashboard user and role management (CRUD).
  */
 export const useUsersStore = defineStore('users', () => {
   const users = ref<DashboardUserDTO[]>([]);
+  const roles = ref<RoleDTO[]>([]);
   const loading = ref(false);
 
   async function fetchUsers() {
@@ -47,12 +50,39 @@ export const useUsersStore = defineStore('users', () => {
     users.value = users.value.filter((u) => u.id !== id);
   }
 
+  async function fetchRoles() {
+    const api = useApi();
+    roles.value = await api.get<RoleDTO[]>('/roles');
+  }
+
+  async function saveRole(name: string, data: UpdateRoleRequest) {
+    const api = useApi();
+    const saved = await api.put<RoleDTO>(`/roles/${name}`, data);
+    const idx = roles.value.findIndex((r) => r.name === name);
+    if (idx >= 0) {
+      roles.value[idx] = saved;
+    } else {
+      roles.value.push(saved);
+    }
+    return saved;
+  }
+
+  async function deleteRole(name: string) {
+    const api = useApi();
+    await api.delete(`/roles/${name}`);
+    roles.value = roles.value.filter((r) => r.name !== name);
+  }
+
   return {
     users,
+    roles,
     loading,
     fetchUsers,
     createUser,
     updateUser,
     deleteUser,
+    fetchRoles,
+    saveRole,
+    deleteRole,
   };
 });
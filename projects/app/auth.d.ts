@@ -3,7 +3,8 @@ declare module '#auth-utils' {
   interface User {
     id: string;
     username: string;
-    role: 'admin' | 'moderator' | 'viewer';
+    role: string;
+    permissions: string[];
   }
 
   interface UserSession {
@@ -10,7 +10,7 @@ export default defineEventHandler(async (event) => {
     const response = await $fetch<{
       token: string;
       expiresAt: string;
-      user: { id: string; username: string; role: string };
+      user: { id: string; username: string; role: string; permissions: string[] };
     }>(`${apiUrl}/api/auth/login`, {
       method: 'POST',
       body: { username, password },
@@ -21,7 +21,8 @@ export default defineEventHandler(async (event) => {
       user: {
         id: response.user.id,
         username: response.user.username,
-        role: response.user.role as 'admin' | 'moderator' | 'viewer',
+        role: response.user.role,
+        permissions: response.user.permissions,
       },
       secure: {
         apiToken: response.token,
@@ -58,6 +58,11 @@ export class AutoTKWarn extends BasePlugin<typeof optionsSpec> {
 	 */
 	async mount(): Promise<void> {
 		this.on("PLAYER_DIED", async (event) => {
+			// Don't warn for teamkills caught up after a restart
+			if (event.replayed) {
+				return;
+			}
+
 			// Only handle teamkills (not regular deaths)
 			if (!event.attacker) {
 				return; // No attacker (suicide, environmental)
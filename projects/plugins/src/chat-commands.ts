@@ -4,13 +4,15 @@
  * ChatCommands Plugin
  *
  * Listen for `!command` patterns in chat and respond with preset messages.
+ * Commands are registered with the server's command registry, so they
+ * show up in `!help` and can require an admin permission.
  *
  * @example
  * ```typescript
  * server.registerPlugin(ChatCommands, {
  *   commands: [
  *     { command: 'rules', type: 'warn', response: 'Please follow the rules!' },
- *     { command: 'discord', type: 'broadcast', response: 'Join our Discord: discord.gg/example' },
+ *     { command: 'discord', type: 'broadcast', response: 'Join our Discord: discord.gg/example', cooldown: 60000 },
  *   ],
  * });
  * ```
@@ -21,6 +23,16 @@
 import { BasePlugin } from "@squadscript/server";
 import type { ChatChannel, OptionsSpec, PluginMeta } from "@squadscript/types";
 
+/**
+ * All chat channels.
+ */
+const CHAT_CHANNELS: readonly ChatChannel[] = [
+	"ChatAll",
+	"ChatTeam",
+	"ChatSquad",
+	"ChatAdmin",
+];
+
 /**
  * Command definition structure.
  */
@@ -31,6 +43,14 @@ interface CommandDefinition {
 	type: "warn" | "broadcast";
 	/** Message to send when command is triggered. */
 	response: string;
+	/** Other triggers for the same response. */
+	aliases?: string[];
+	/** Description shown by `!help`. */
+	description?: string;
+	/** Squad admin permission required (e.g., 'chat'). */
+	permission?: string;
+	/** Cooldown per player in milliseconds. */
+	cooldown?: number;
 	/** Chat channels to ignore (e.g., ['ChatSquad']). */
 	ignoreChats?: ChatChannel[];
 }
@@ -56,7 +76,7 @@ const optionsSpec = {
 /**
  * ChatCommands Plugin
  *
- * Listens for chat commands (messages starting with `!`) and responds
+ * Registers chat commands (messages starting with `!`) that respond
  * with configured messages. Commands can either warn the player directly
  * or broadcast to the entire server.
  */
@@ -72,67 +92,43 @@ export class ChatCommands extends BasePlugin<typeof optionsSpec> {
 	static readonly optionsSpec = optionsSpec;
 
 	/**
-	 * Map of command name to command definition for fast lookup.
-	 */
-	private commandMap = new Map<string, CommandDefinition>();
-
-	/**
-	 * Called before mount to build the command lookup map.
-	 */
-	async prepareToMount(): Promise<void> {
-		const commands = (this.options.commands ?? []) as CommandDefinition[];
-
-		for (const cmd of commands) {
-			// Normalize command name to lowercase
-			const normalizedCommand = cmd.command.toLowerCase();
-			this.commandMap.set(normalizedCommand, cmd);
-		}
-
-		this.log.debug(`Loaded ${this.commandMap.size} command(s)`);
-	}
-
-	/**
-	 * Subscribe to chat command events.
+	 * Register the configured commands.
 	 */
 	async mount(): Promise<void> {
-		this.on("CHAT_COMMAND", async (event) => {
-			const commandDef = this.commandMap.get(event.command);
-
-			if (!commandDef) {
-				return; // Not a registered command
-			}
-
-			// Check if this chat channel should be ignored
-			if (commandDef.ignoreChats?.includes(event.channel)) {
-				this.log.debug(
-					`Ignoring command ${event.command} from ${event.channel}`,
-				);
-				return;
-			}
+		const commands = (this.options.commands ?? []) as CommandDefinition[];
 
-			this.log.verbose(
-				`Command triggered: !${event.command} by ${event.player.name}`,
-				{ channel: event.channel },
-			);
+		for (const commandDef of commands) {
+			const ignoreChats = commandDef.ignoreChats ?? [];
 
 			try {
-				if (commandDef.type === "warn") {
-					// Send warning to the player who issued the command
-					await this.rcon.warn(event.player.eosID, commandDef.response);
-				} else if (commandDef.type === "broadcast") {
-					// Broadcast to all players
-					await this.rcon.broadcast(commandDef.response);
-				}
+				this.registerCommand({
+					name: commandDef.command,
+					aliases: commandDef.aliases,
+					description: commandDef.description,
+					permission: commandDef.permission,
+					cooldown: commandDef.cooldown,
+					channels: CHAT_CHANNELS.filter((c) => !ignoreChats.includes(c)),
+					handler: async ({ player, channel, reply }) => {
+						this.log.verbose(
+							`Command triggered: !${commandDef.command} by ${player.name}`,
+							{ channel },
+						);
+
+						if (commandDef.type === "broadcast") {
+							await this.rcon.broadcast(commandDef.response);
+						} else {
+							await reply(commandDef.response);
+						}
+					},
+				});
 			} catch (error) {
 				this.log.error(
-					`Failed to respond to command !${event.command}`,
+					`Failed to register command !${commandDef.command}`,
 					error instanceof Error ? error : new Error(String(error)),
 				);
 			}
-		});
+		}
 
-		this.log.info(
-			`ChatCommands mounted with ${this.commandMap.size} command(s)`,
-		);
+		this.log.info(`ChatCommands mounted with ${commands.length} command(s)`);
 	}
 }
@@ -0,0 +1,389 @@
+/**
+ * @squadscript/plugins
+ *
+ * ChatModeration Plugin
+ *
+ * In-game moderation commands for admins: warn, kick, temporary bans,
+ * team switches, squad disbands and setting the next layer. Each command
+ * requires the matching Admins.cfg permission and is written to the
+ * dashboard audit log under the admin's name.
+ *
+ * @example
+ * ```typescript
+ * server.registerPlugin(ChatModeration, {
+ *   adminChatOnly: true,
+ *   confirmTimeout: 30000,
+ * });
+ * // Then, in admin chat:
+ * //   !warn bob Stop teamkilling
+ * //   !tempban bob 2h Teamkilling after warnings
+ * //   !next narva_raas
+ * ```
+ *
+ * @module
+ */
+
+import { BasePlugin, formatBanInterval } from "@squadscript/server";
+import type {
+	ChatCommandInvocation,
+	EOSID,
+	OptionsSpec,
+	Player,
+	PluginAuditEntry,
+	PluginMeta,
+	SteamID,
+} from "@squadscript/types";
+
+/**
+ * An action waiting for the admin to pick one of several matches.
+ */
+interface PendingChoice {
+	/** One label and action per match, in the order they were listed. */
+	options: { label: string; run: () => Promise<void> }[];
+	expiresAt: number;
+}
+
+/**
+ * The parts of a command invocation the helpers need.
+ */
+type Caller = Pick<ChatCommandInvocation, "player" | "reply">;
+
+/**
+ * Most matches listed for a choice; more must be narrowed down first.
+ */
+const MAX_CHOICES = 5;
+
+/**
+ * Options specification for ChatModeration plugin.
+ */
+const optionsSpec = {
+	adminChatOnly: {
+		type: "boolean",
+		required: false,
+		description: "Only accept commands typed in admin chat",
+		default: true,
+	},
+	confirmTimeout: {
+		type: "number",
+		required: false,
+		description: "How long an ambiguous match waits for !confirm (ms)",
+		default: 30000,
+	},
+	defaultKickReason: {
+		type: "string",
+		required: false,
+		description: "Reason used when !kick is given none",
+		default: "Kicked by an admin",
+	},
+} as const satisfies OptionsSpec;
+
+/**
+ * ChatModeration Plugin
+ *
+ * Registers moderation chat commands. Players are matched by EOS ID,
+ * Steam ID, `#playerID` or (partial) name; when a name matches several
+ * players the admin is shown a numbered list and picks one with
+ * `!confirm <number>`.
+ */
+export class ChatModeration extends BasePlugin<typeof optionsSpec> {
+	static readonly meta: PluginMeta = {
+		name: "ChatModeration",
+		description: "Warn, kick, ban, switch and disband from in-game chat",
+		version: "1.0.0",
+		defaultEnabled: false,
+	};
+
+	static readonly optionsSpec = optionsSpec;
+
+	/** Pending choices by admin EOS ID. */
+	private readonly pending = new Map<string, PendingChoice>();
+
+	/**
+	 * Register the moderation commands.
+	 */
+	async mount(): Promise<void> {
+		const channels = this.options.adminChatOnly ? (["ChatAdmin"] as const) : undefined;
+
+		this.registerCommand({
+			name: "warn",
+			description: "Send a warning to a player",
+			permission: "kick",
+			channels,
+			args: {
+				target: { type: "string", description: "Player name, EOS ID or #ID" },
+				message: { type: "text" },
+			},
+			handler: (invocation) =>
+				this.withPlayer(invocation, invocation.args.target, async (target) => {
+					const { message } = invocation.args;
+					await this.rcon.warn(target.eosID, message);
+					await this.record(invocation, { action: "warn", target: target.eosID, details: { name: target.name, message } });
+					await invocation.reply(`Warned ${target.name}.`);
+				}),
+		});
+
+		this.registerCommand({
+			name: "kick",
+			description: "Kick a player",
+			permission: "kick",
+			channels,
+			args: {
+				target: { type: "string", description: "Player name, EOS ID or #ID" },
+				reason: { type: "text", required: false },
+			},
+			handler: (invocation) =>
+				this.withPlayer(invocation, invocation.args.target, async (target) => {
+					const reason = invocation.args.reason ?? this.options.defaultKickReason ?? "Kicked by an admin";
+					await this.rcon.kick(target.eosID, reason);
+					await this.record(invocation, { action: "kick", target: target.eosID, details: { name: target.name, reason } });
+					await invocation.reply(`Kicked ${target.name}.`);
+				}),
+		});
+
+		this.registerCommand({
+			name: "tempban",
+			description: "Ban a player for a while",
+			permission: "ban",
+			channels,
+			args: {
+				target: { type: "string", description: "Player name, EOS ID or #ID" },
+				duration: { type: "duration", description: "e.g. 30m, 2h, 1d" },
+				reason: { type: "text" },
+			},
+			handler: async (invocation) => {
+				const { duration, reason } = invocation.args;
+				const seconds = Math.ceil(duration / 1000);
+				if (seconds === 0) {
+					await invocation.reply("Give a duration such as 30m, 2h or 1d. Permanent bans are issued from the dashboard.");
+					return;
+				}
+
+				await this.withPlayer(invocation, invocation.args.target, async (target) => {
+					await this.bans.ban(target, seconds, reason, invocation.player);
+					await this.record(invocation, {
+						action: "ban",
+						target: target.eosID,
+						details: { name: target.name, duration: seconds, reason },
+					});
+					await invocation.reply(`Banned ${target.name} (${formatBanInterval(seconds)}).`);
+				});
+			},
+		});
+
+		this.registerCommand({
+			name: "switch",
+			description: "Move a player to the other team",
+			permission: "forceteamchange",
+			channels,
+			args: {
+				target: { type: "string", description: "Player name, EOS ID or #ID" },
+			},
+			handler: (invocation) =>
+				this.withPlayer(invocation, invocation.args.target, async (target) => {
+					await this.rcon.forceTeamChange(target.eosID);
+					await this.record(invocation, { action: "force_team_change", target: target.eosID, details: { name: target.name } });
+					await invocation.reply(`Switched ${target.name}.`);
+				}),
+		});
+
+		this.registerCommand({
+			name: "disband",
+			description: "Disband a squad",
+			permission: "kick",
+			channels,
+			args: {
+				squad: { type: "number", description: "Squad number" },
+				team: { type: "number", required: false, description: "Team (1 or 2), if both have the squad" },
+			},
+			handler: (invocation) => this.disband(invocation),
+		});
+
+		this.registerCommand({
+			name: "next",
+			description: "Set the next layer",
+			permission: "changemap",
+			channels,
+			args: {
+				layer: { type: "layer" },
+			},
+			handler: async (invocation) => {
+				const { layer } = invocation.args;
+				await this.rcon.setNextLayer(layer);
+				await this.record(invocation, { action: "set_next_layer", details: { layer } });
+				await invocation.reply(`Next layer set to ${layer}.`);
+			},
+		});
+
+		this.registerCommand({
+			name: "confirm",
+			description: "Pick one of the matches listed by your last command",
+			channels,
+			args: {
+				choice: { type: "number" },
+			},
+			handler: (invocation) => this.confirm(invocation),
+		});
+
+		this.log.info("ChatModeration mounted");
+	}
+
+	/**
+	 * Drop pending choices.
+	 */
+	async unmount(): Promise<void> {
+		this.pending.clear();
+	}
+
+	// =========================================================================
+	// Commands
+	// =========================================================================
+
+	/**
+	 * Disband a squad, asking which team when both have the squad number.
+	 */
+	private async disband(
+		invocation: ChatCommandInvocation<{
+			squad: { type: "number" };
+			team: { type: "number"; required: false };
+		}>,
+	): Promise<void> {
+		const { squad: squadID, team } = invocation.args;
+		const teams = team === undefined ? [1, 2] : [team];
+		const squads = teams.flatMap((teamID) =>
+			this.server.getSquadsByTeam(teamID).filter((squad) => squad.squadID === squadID),
+		);
+
+		await this.choose(
+			invocation,
+			squads,
+			(squad) => `Team ${squad.teamID} squad ${squad.squadID} "${squad.name}"`,
+			async (squad) => {
+				await this.rcon.disbandSquad(squad.teamID, squad.squadID);
+				await this.record(invocation, {
+					action: "squad_disband",
+					target: `${squad.teamID}/${squad.squadID}`,
+					details: { name: squad.name },
+				});
+				await invocation.reply(`Disbanded team ${squad.teamID} squad ${squad.squadID}.`);
+			},
+			`No squad ${squadID}${team === undefined ? "" : ` on team ${team}`}.`,
+		);
+	}
+
+	/**
+	 * Run the pending action the admin picked.
+	 */
+	private async confirm(invocation: ChatCommandInvocation<{ choice: { type: "number" } }>): Promise<void> {
+		const pending = this.pending.get(invocation.player.eosID);
+		if (!pending || pending.expiresAt < Date.now()) {
+			this.pending.delete(invocation.player.eosID);
+			await invocation.reply("Nothing to confirm.");
+			return;
+		}
+
+		const option = pending.options[invocation.args.choice - 1];
+		if (!option) {
+			await invocation.reply(`Pick a number from 1 to ${pending.options.length}.`);
+			return;
+		}
+
+		this.pending.delete(invocation.player.eosID);
+		await option.run();
+	}
+
+	// =========================================================================
+	// Helpers
+	// =========================================================================
+
+	/**
+	 * Run an action on the player a query refers to.
+	 */
+	private async withPlayer(
+		invocation: Caller,
+		query: string,
+		action: (target: Player) => Promise<void>,
+	): Promise<void> {
+		await this.choose(
+			invocation,
+			this.findPlayers(query),
+			(player) => player.name,
+			action,
+			`No player matches "${query}".`,
+		);
+	}
+
+	/**
+	 * Run an action on the only candidate, or list the candidates and
+	 * wait for `!confirm <number>`.
+	 */
+	private async choose<T>(
+		invocation: Caller,
+		candidates: readonly T[],
+		label: (candidate: T) => string,
+		action: (candidate: T) => Promise<void>,
+		noneMessage: string,
+	): Promise<void> {
+		const [first] = candidates;
+		if (first === undefined) {
+			await invocation.reply(noneMessage);
+			return;
+		}
+		if (candidates.length === 1) {
+			await action(first);
+			return;
+		}
+		if (candidates.length > MAX_CHOICES) {
+			await invocation.reply(`${candidates.length} matches. Please be more specific.`);
+			return;
+		}
+
+		const timeout = this.options.confirmTimeout ?? 30000;
+		const options = candidates.map((candidate) => ({
+			label: label(candidate),
+			run: () => action(candidate),
+		}));
+		this.pending.set(invocation.player.eosID, { options, expiresAt: Date.now() + timeout });
+
+		const list = options.map((option, index) => `${index + 1}) ${option.label}`).join("\n");
+		await invocation.reply(
+			`${candidates.length} matches:\n${list}\nType !confirm <number> within ${Math.round(timeout / 1000)}s.`,
+		);
+	}
+
+	/**
+	 * Find the players a query refers to. IDs match exactly; an exact
+	 * name wins over partial matches.
+	 */
+	private findPlayers(query: string): readonly Player[] {
+		const byID =
+			this.server.getPlayerByEOSID(query as EOSID) ??
+			this.server.getPlayerBySteamID(query as SteamID) ??
+			(/^#\d+$/.test(query) ? this.server.getPlayerByID(Number(query.slice(1))) : undefined);
+		if (byID) {
+			return [byID];
+		}
+
+		const matches = this.server.getPlayersByName(query);
+		const exact = matches.filter((player) => player.name.toLowerCase() === query.toLowerCase());
+		return exact.length > 0 ? exact : matches;
+	}
+
+	/**
+	 * Write an audit entry attributed to the admin who ran the command.
+	 * A failed write is logged but does not undo or fail the action.
+	 */
+	private async record(
+		invocation: Caller,
+		entry: Omit<PluginAuditEntry, "actor">,
+	): Promise<void> {
+		try {
+			await this.audit.record({ ...entry, actor: invocation.player });
+		} catch (error) {
+			this.log.warn(
+				`Failed to write audit entry for ${entry.action} by ${invocation.player.name}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+	}
+}
@@ -13,10 +13,13 @@
  * - Tick rate monitoring
  * - Player population over time
  *
+ * Tables are created on mount through versioned migrations, with DDL
+ * for both the `sqlite` and `postgres` built-in connectors.
+ *
  * @example
  * ```typescript
  * server.registerPlugin(DBLog, {
- *   database: 'mysql', // Name of the database connector
+ *   database: 'database', // Name of a sqlite or postgres connector
  *   serverID: 1, // Unique server identifier for multi-server setups
  * });
  * ```
@@ -24,7 +27,11 @@
  * @module
  */
 
-import { BasePlugin } from "@squadscript/server";
+import {
+	BasePlugin,
+	type ConnectorMigration,
+	runConnectorMigrations,
+} from "@squadscript/server";
 import type {
 	DatabaseConnector,
 	OptionsSpec,
@@ -103,6 +110,114 @@ const optionsSpec = {
 	},
 } as const satisfies OptionsSpec;
 
+/**
+ * Builds the initial DBLog schema for a dialect.
+ */
+function initialSchema(types: {
+	id: string;
+	timestamp: string;
+	boolean: string;
+}): string[] {
+	return [
+		`CREATE TABLE IF NOT EXISTS servers (
+			id INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			created_at ${types.timestamp} NOT NULL
+		)`,
+		`CREATE TABLE IF NOT EXISTS matches (
+			id ${types.id},
+			server_id INTEGER NOT NULL REFERENCES servers(id),
+			layer TEXT NOT NULL,
+			started_at ${types.timestamp} NOT NULL,
+			ended_at ${types.timestamp},
+			winner TEXT
+		)`,
+		`CREATE TABLE IF NOT EXISTS players (
+			eos_id TEXT PRIMARY KEY,
+			steam_id TEXT,
+			name TEXT,
+			first_seen ${types.timestamp} NOT NULL,
+			last_seen ${types.timestamp} NOT NULL
+		)`,
+		`CREATE TABLE IF NOT EXISTS player_connections (
+			id ${types.id},
+			server_id INTEGER NOT NULL,
+			match_id INTEGER,
+			eos_id TEXT NOT NULL,
+			ip TEXT,
+			connected_at ${types.timestamp} NOT NULL,
+			disconnected_at ${types.timestamp}
+		)`,
+		`CREATE TABLE IF NOT EXISTS wounds (
+			id ${types.id},
+			server_id INTEGER NOT NULL,
+			match_id INTEGER,
+			attacker_eos_id TEXT,
+			victim_eos_id TEXT NOT NULL,
+			weapon TEXT,
+			damage REAL,
+			teamkill ${types.boolean} NOT NULL,
+			timestamp ${types.timestamp} NOT NULL
+		)`,
+		`CREATE TABLE IF NOT EXISTS deaths (
+			id ${types.id},
+			server_id INTEGER NOT NULL,
+			match_id INTEGER,
+			attacker_eos_id TEXT,
+			victim_eos_id TEXT NOT NULL,
+			weapon TEXT,
+			teamkill ${types.boolean} NOT NULL,
+			suicide ${types.boolean} NOT NULL,
+			timestamp ${types.timestamp} NOT NULL
+		)`,
+		`CREATE TABLE IF NOT EXISTS revives (
+			id ${types.id},
+			server_id INTEGER NOT NULL,
+			match_id INTEGER,
+			medic_eos_id TEXT NOT NULL,
+			victim_eos_id TEXT NOT NULL,
+			timestamp ${types.timestamp} NOT NULL
+		)`,
+		`CREATE TABLE IF NOT EXISTS tick_rates (
+			id ${types.id},
+			server_id INTEGER NOT NULL,
+			match_id INTEGER,
+			tick_rate REAL NOT NULL,
+			timestamp ${types.timestamp} NOT NULL
+		)`,
+		`CREATE TABLE IF NOT EXISTS player_counts (
+			id ${types.id},
+			server_id INTEGER NOT NULL,
+			match_id INTEGER,
+			player_count INTEGER NOT NULL,
+			timestamp ${types.timestamp} NOT NULL
+		)`,
+		"CREATE INDEX IF NOT EXISTS idx_player_connections_eos ON player_connections (eos_id, server_id)",
+		"CREATE INDEX IF NOT EXISTS idx_deaths_match ON deaths (match_id)",
+	];
+}
+
+/**
+ * DBLog schema migrations, applied in order.
+ */
+const DBLOG_MIGRATIONS: readonly ConnectorMigration[] = [
+	{
+		name: "001_initial",
+		up: {
+			sqlite: initialSchema({
+				id: "INTEGER PRIMARY KEY AUTOINCREMENT",
+				timestamp: "TEXT",
+				boolean: "INTEGER",
+			}),
+			postgres: initialSchema({
+				id: "SERIAL PRIMARY KEY",
+				timestamp: "TIMESTAMPTZ",
+				boolean: "BOOLEAN",
+			}),
+		},
+	},
+];
+
 /**
  * Represents an active match being tracked.
  */
@@ -168,6 +283,16 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 
 		this.db = connector;
 
+		// Create or upgrade the DBLog tables
+		const applied = await runConnectorMigrations(
+			this.db,
+			"DBLog",
+			DBLOG_MIGRATIONS,
+		);
+		if (applied > 0) {
+			this.log.info(`Applied ${applied} DBLog migration(s)`);
+		}
+
 		// Ensure server record exists
 		await this.ensureServerRecord();
 	}
@@ -274,8 +399,12 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 			if (!existing) {
 				const serverInfo = this.server.currentLayer;
 				await this.db.query(
-					"INSERT INTO servers (id, name, created_at) VALUES (?, ?, NOW())",
-					[this.options.serverID, serverInfo?.name ?? "Unknown Server"],
+					"INSERT INTO servers (id, name, created_at) VALUES (?, ?, ?)",
+					[
+						this.options.serverID,
+						serverInfo?.name ?? "Unknown Server",
+						new Date(),
+					],
 				);
 				this.log.info("Created server record", {
 					serverID: this.options.serverID,
@@ -300,14 +429,12 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 				await this.logMatchEnd(null, timestamp);
 			}
 
-			const result = await this.db.query<{ insertId: number }>(
-				`INSERT INTO matches (server_id, layer, started_at) VALUES (?, ?, ?)`,
+			const inserted = await this.db.queryOne<{ id: number }>(
+				`INSERT INTO matches (server_id, layer, started_at) VALUES (?, ?, ?)
+				 RETURNING id`,
 				[this.options.serverID, layer, timestamp],
 			);
-
-			// Try to get the insert ID from the result
-			const matchId =
-				(result as unknown as { insertId?: number }).insertId ?? 0;
+			const matchId = inserted?.id ?? 0;
 
 			this.currentMatch = {
 				id: matchId,
@@ -338,7 +465,11 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 		try {
 			await this.db.query(
 				`UPDATE matches SET ended_at = ?, winner = ? WHERE id = ?`,
-				[timestamp, winner, this.currentMatch.id],
+				[
+					timestamp,
+					winner === null ? null : String(winner),
+					this.currentMatch.id,
+				],
 			);
 
 			this.log.debug("Match ended", {
@@ -372,10 +503,10 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 			await this.db.query(
 				`INSERT INTO players (eos_id, steam_id, name, last_seen, first_seen)
 				 VALUES (?, ?, ?, ?, ?)
-				 ON DUPLICATE KEY UPDATE
-				   steam_id = COALESCE(VALUES(steam_id), steam_id),
-				   name = COALESCE(VALUES(name), name),
-				   last_seen = VALUES(last_seen)`,
+				 ON CONFLICT (eos_id) DO UPDATE SET
+				   steam_id = COALESCE(excluded.steam_id, players.steam_id),
+				   name = COALESCE(excluded.name, players.name),
+				   last_seen = excluded.last_seen`,
 				[
 					player.eosID,
 					player.steamID ?? null,
@@ -419,9 +550,12 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 			await this.db.query(
 				`UPDATE player_connections
 				 SET disconnected_at = ?
-				 WHERE eos_id = ? AND server_id = ? AND disconnected_at IS NULL
-				 ORDER BY connected_at DESC
-				 LIMIT 1`,
+				 WHERE id = (
+				   SELECT id FROM player_connections
+				   WHERE eos_id = ? AND server_id = ? AND disconnected_at IS NULL
+				   ORDER BY connected_at DESC
+				   LIMIT 1
+				 )`,
 				[timestamp, player.eosID, this.options.serverID],
 			);
 
@@ -456,7 +590,9 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 					event.victim.eosID,
 					event.weapon,
 					event.damage,
-					event.attacker && event.attacker.teamID === event.victim.teamID,
+					Boolean(
+						event.attacker && event.attacker.teamID === event.victim.teamID,
+					),
 					event.timestamp,
 				],
 			);
@@ -479,10 +615,11 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 		timestamp: Date;
 	}): Promise<void> {
 		try {
-			const isTeamkill =
+			const isTeamkill = Boolean(
 				event.attacker &&
-				!event.suicide &&
-				event.attacker.teamID === event.victim.teamID;
+					!event.suicide &&
+					event.attacker.teamID === event.victim.teamID,
+			);
 
 			await this.db.query(
 				`INSERT INTO deaths
@@ -547,11 +684,12 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 		try {
 			await this.db.query(
 				`INSERT INTO tick_rates (server_id, match_id, tick_rate, timestamp)
-				 VALUES (?, ?, ?, NOW())`,
+				 VALUES (?, ?, ?, ?)`,
 				[
 					this.options.serverID,
 					this.currentMatch?.id ?? null,
 					this.lastTickRate,
+					new Date(),
 				],
 			);
 		} catch (error) {
@@ -571,8 +709,13 @@ export class DBLog extends BasePlugin<typeof optionsSpec> {
 
 			await this.db.query(
 				`INSERT INTO player_counts (server_id, match_id, player_count, timestamp)
-				 VALUES (?, ?, ?, NOW())`,
-				[this.options.serverID, this.currentMatch?.id ?? null, playerCount],
+				 VALUES (?, ?, ?, ?)`,
+				[
+					this.options.serverID,
+					this.currentMatch?.id ?? null,
+					playerCount,
+					new Date(),
+				],
 			);
 		} catch (error) {
 			this.log.error(
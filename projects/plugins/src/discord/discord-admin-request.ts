@@ -19,12 +19,27 @@
  * @module
  */
 
-import type { ChatChannel, OptionsSpec, PluginMeta } from "@squadscript/types";
+import type {
+	ChatChannel,
+	ChatCommandEvent,
+	OptionsSpec,
+	PluginMeta,
+} from "@squadscript/types";
 import {
 	DiscordBasePlugin,
 	discordBaseOptions,
 } from "./discord-base-plugin.js";
 
+/**
+ * All chat channels.
+ */
+const CHAT_CHANNELS: readonly ChatChannel[] = [
+	"ChatAll",
+	"ChatTeam",
+	"ChatSquad",
+	"ChatAdmin",
+];
+
 /**
  * Options specification for DiscordAdminRequest plugin.
  */
@@ -113,133 +128,141 @@ export class DiscordAdminRequest extends DiscordBasePlugin<typeof optionsSpec> {
 	private lastPingTime = 0;
 
 	/**
-	 * Subscribe to chat command events.
+	 * Register the admin request command.
 	 */
 	async mount(): Promise<void> {
-		this.on("CHAT_COMMAND", async (event) => {
-			// Check if this is the admin command
-			if (event.command !== (this.options.command as string).toLowerCase()) {
-				return;
-			}
+		const ignoreChats = (this.options.ignoreChats ?? []) as ChatChannel[];
 
-			// Check if this chat channel should be ignored
-			const ignoreChats = (this.options.ignoreChats ?? []) as ChatChannel[];
-			if (ignoreChats.includes(event.channel)) {
-				return;
-			}
+		this.registerCommand({
+			name: this.options.command as string,
+			description: "Ask an admin for help",
+			args: {
+				message: {
+					type: "text",
+					required: false,
+					description: "What you need help with",
+				},
+			},
+			channels: CHAT_CHANNELS.filter((c) => !ignoreChats.includes(c)),
+			handler: ({ event }) => this.handleRequest(event),
+		});
 
-			// Check for ignored phrases
-			const ignorePhrases = (this.options.ignorePhrases ?? []) as string[];
-			const lowerArgs = event.args.toLowerCase();
-			for (const phrase of ignorePhrases) {
-				if (lowerArgs.includes(phrase.toLowerCase())) {
-					this.log.debug(`Ignoring admin request with phrase: ${phrase}`);
-					return;
-				}
-			}
+		this.log.info(
+			`Listening for !${this.options.command} requests on Discord channel ${this.options.channelID}`,
+		);
+	}
 
-			// Require a message - warn the player if empty (matches original behavior)
-			const requestMessage = event.args.trim();
-			if (requestMessage.length === 0) {
-				await this.rcon.warn(
-					event.player.eosID,
-					"Please specify what you would like help with when requesting an admin.",
-				);
+	/**
+	 * Forward an admin request to Discord.
+	 */
+	private async handleRequest(event: ChatCommandEvent): Promise<void> {
+		// Check for ignored phrases
+		const ignorePhrases = (this.options.ignorePhrases ?? []) as string[];
+		const lowerArgs = event.args.toLowerCase();
+		for (const phrase of ignorePhrases) {
+			if (lowerArgs.includes(phrase.toLowerCase())) {
+				this.log.debug(`Ignoring admin request with phrase: ${phrase}`);
 				return;
 			}
+		}
 
-			this.log.info(
-				`Admin request from ${event.player.name}: ${requestMessage}`,
+		// Require a message - warn the player if empty (matches original behavior)
+		const requestMessage = event.args.trim();
+		if (requestMessage.length === 0) {
+			await this.rcon.warn(
+				event.player.eosID,
+				"Please specify what you would like help with when requesting an admin.",
 			);
+			return;
+		}
 
-			// Notify in-game admins if enabled
-			if (this.options.showInGameAdmins) {
-				// Note: In a real implementation, you would get admin count from server state
-				await this.rcon.warn(
-					event.player.eosID,
-					"Your admin request has been sent to Discord.",
-				);
-			}
+		this.log.info(
+			`Admin request from ${event.player.name}: ${requestMessage}`,
+		);
 
-			// Check ping cooldown
-			const now = Date.now();
-			const canPing =
-				now - this.lastPingTime >= (this.options.pingDelay as number);
-
-			// Build ping string
-			let pingContent = "";
-			if (canPing) {
-				if (this.options.pingHere) {
-					pingContent = "@here ";
-				} else {
-					const pingGroups = (this.options.pingGroups ?? []) as string[];
-					if (pingGroups.length > 0) {
-						pingContent = `${pingGroups.map((id) => `<@&${id}>`).join(" ")} `;
-					}
+		// Notify in-game admins if enabled
+		if (this.options.showInGameAdmins) {
+			// Note: In a real implementation, you would get admin count from server state
+			await this.rcon.warn(
+				event.player.eosID,
+				"Your admin request has been sent to Discord.",
+			);
+		}
+
+		// Check ping cooldown
+		const now = Date.now();
+		const canPing =
+			now - this.lastPingTime >= (this.options.pingDelay as number);
+
+		// Build ping string
+		let pingContent = "";
+		if (canPing) {
+			if (this.options.pingHere) {
+				pingContent = "@here ";
+			} else {
+				const pingGroups = (this.options.pingGroups ?? []) as string[];
+				if (pingGroups.length > 0) {
+					pingContent = `${pingGroups.map((id) => `<@&${id}>`).join(" ")} `;
 				}
-				this.lastPingTime = now;
 			}
+			this.lastPingTime = now;
+		}
 
-			// Build squad info
-			const squadInfo = event.player.squadID
-				? `Squad ${event.player.squadID}`
-				: "Unassigned";
+		// Build squad info
+		const squadInfo = event.player.squadID
+			? `Squad ${event.player.squadID}`
+			: "Unassigned";
 
-			// Build fields
-			const fields: { name: string; value: string; inline?: boolean }[] = [
-				{
-					name: "Player",
-					value: this.escapeMarkdown(event.player.name),
-					inline: true,
-				},
-				{
-					name: "Team/Squad",
-					value: `Team ${event.player.teamID ?? "?"} / ${squadInfo}`,
-					inline: true,
-				},
-				{
-					name: "Channel",
-					value: event.channel.replace("Chat", ""),
-					inline: true,
-				},
-			];
+		// Build fields
+		const fields: { name: string; value: string; inline?: boolean }[] = [
+			{
+				name: "Player",
+				value: this.escapeMarkdown(event.player.name),
+				inline: true,
+			},
+			{
+				name: "Team/Squad",
+				value: `Team ${event.player.teamID ?? "?"} / ${squadInfo}`,
+				inline: true,
+			},
+			{
+				name: "Channel",
+				value: event.channel.replace("Chat", ""),
+				inline: true,
+			},
+		];
 
-			// Add Steam ID if available
-			if (event.player.steamID) {
+		// Add Steam ID if available
+		if (event.player.steamID) {
+			fields.push({
+				name: "Steam ID",
+				value: event.player.steamID,
+				inline: true,
+			});
+
+			const cblLink = this.getCBLLink(event.player.steamID);
+			if (cblLink) {
 				fields.push({
-					name: "Steam ID",
-					value: event.player.steamID,
+					name: "CBL Profile",
+					value: `[View Profile](${cblLink})`,
 					inline: true,
 				});
-
-				const cblLink = this.getCBLLink(event.player.steamID);
-				if (cblLink) {
-					fields.push({
-						name: "CBL Profile",
-						value: `[View Profile](${cblLink})`,
-						inline: true,
-					});
-				}
 			}
+		}
 
-			// Send to Discord
-			await this.sendDiscordMessage(this.options.channelID as string, {
-				content: pingContent || undefined,
-				embed: {
-					title: "🚨 Admin Request",
-					description: requestMessage,
-					color: this.options.color as number,
-					fields,
-					footer: canPing
-						? undefined
-						: { text: "Ping cooldown active - admins not pinged" },
-					timestamp: new Date().toISOString(),
-				},
-			});
+		// Send to Discord
+		await this.sendDiscordMessage(this.options.channelID as string, {
+			content: pingContent || undefined,
+			embed: {
+				title: "🚨 Admin Request",
+				description: requestMessage,
+				color: this.options.color as number,
+				fields,
+				footer: canPing
+					? undefined
+					: { text: "Ping cooldown active - admins not pinged" },
+				timestamp: new Date().toISOString(),
+			},
 		});
-
-		this.log.info(
-			`Listening for !${this.options.command} requests on Discord channel ${this.options.channelID}`,
-		);
 	}
 }
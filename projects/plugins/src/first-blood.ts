@@ -107,6 +107,12 @@ export class FirstBlood extends BasePlugin<typeof optionsSpec> {
 				return;
 			}
 
+			// A kill caught up after a restart is old news
+			if (event.replayed) {
+				this.firstBloodOccurred = true;
+				return;
+			}
+
 			// No attacker (suicide/environmental)
 			if (!event.attacker) {
 				return;
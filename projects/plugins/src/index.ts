@@ -11,6 +11,7 @@
  * import {
  *   // Core plugins
  *   ChatCommands,
+ *   ChatModeration,
  *   AutoTKWarn,
  *   SeedingMode,
  *   IntervalledBroadcasts,
@@ -76,6 +77,7 @@
 export { AutoKickUnassigned } from "./auto-kick-unassigned.js";
 export { AutoTKWarn } from "./auto-tk-warn.js";
 export { ChatCommands } from "./chat-commands.js";
+export { ChatModeration } from "./chat-moderation.js";
 export { FogOfWar } from "./fog-of-war.js";
 export { IntervalledBroadcasts } from "./intervalled-broadcasts.js";
 export { SeedingMode } from "./seeding-mode.js";
@@ -88,7 +90,12 @@ export { TeamRandomizer } from "./team-randomizer.js";
 export { FirstBlood } from "./first-blood.js";
 export { PlayerWelcome } from "./player-welcome.js";
 export { RevengeTracker } from "./revenge-tracker.js";
-export { RoundStatsSummary } from "./round-stats-summary.js";
+export {
+	type PlayerRoundStats,
+	type RoundStats,
+	RoundStatsSummary,
+	type RoundStatsService,
+} from "./round-stats-summary.js";
 
 // =============================================================================
 // Squad Management Plugins
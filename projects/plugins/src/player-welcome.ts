@@ -5,6 +5,8 @@
  *
  * Sends personalized welcome messages to players when they connect,
  * with different messages for first-time visitors vs. returning players.
+ * Visit counts come from the server's persistent player profiles, with
+ * in-memory tracking as a fallback when no profile store is available.
  *
  * @example
  * ```typescript
@@ -96,7 +98,8 @@ export class PlayerWelcome extends BasePlugin<typeof optionsSpec> {
 	static readonly optionsSpec = optionsSpec;
 
 	/**
-	 * In-memory visit tracking (resets on server restart).
+	 * In-memory visit tracking, used when player profiles are unavailable
+	 * (resets on server restart).
 	 */
 	private playerVisits = new Map<string, PlayerVisitData>();
 
@@ -110,6 +113,11 @@ export class PlayerWelcome extends BasePlugin<typeof optionsSpec> {
 	 */
 	async mount(): Promise<void> {
 		this.on("PLAYER_JOIN_SUCCEEDED", (event) => {
+			// Players who joined while we were down are already playing
+			if (event.replayed) {
+				return;
+			}
+
 			const eosID = event.eosID;
 
 			// Prevent duplicate welcomes for same player
@@ -147,14 +155,11 @@ export class PlayerWelcome extends BasePlugin<typeof optionsSpec> {
 			return;
 		}
 
-		// Get or create visit data
-		const visitData = this.getOrCreateVisitData(eosID);
-		const isNewPlayer = visitData.visitCount === 0;
-
-		if (this.options.trackVisits) {
-			visitData.visitCount++;
-			visitData.lastSeen = new Date();
-		}
+		// Visit count including the current visit
+		const visitData = this.options.trackVisits
+			? await this.getVisitData(eosID)
+			: { eosID, visitCount: 0, firstSeen: new Date(), lastSeen: new Date() };
+		const isNewPlayer = visitData.visitCount <= 1;
 
 		// Determine which message to send
 		let message: string;
@@ -190,7 +195,34 @@ export class PlayerWelcome extends BasePlugin<typeof optionsSpec> {
 	}
 
 	/**
-	 * Get or create visit data for a player.
+	 * Get visit data for a player, counting the current visit.
+	 */
+	private async getVisitData(eosID: EOSID): Promise<PlayerVisitData> {
+		try {
+			// Profiles already count the current visit on connect
+			const profile = await this.profiles.get(eosID);
+			if (profile) {
+				return {
+					eosID,
+					visitCount: profile.visits,
+					firstSeen: profile.firstSeen,
+					lastSeen: profile.lastSeen,
+				};
+			}
+		} catch (error) {
+			this.log.debug(`Could not load profile for ${eosID}`, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+
+		const data = this.getOrCreateVisitData(eosID);
+		data.visitCount++;
+		data.lastSeen = new Date();
+		return data;
+	}
+
+	/**
+	 * Get or create in-memory visit data for a player.
 	 */
 	private getOrCreateVisitData(eosID: EOSID): PlayerVisitData {
 		let data = this.playerVisits.get(eosID);
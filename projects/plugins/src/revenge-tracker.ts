@@ -154,10 +154,10 @@ export class RevengeTracker extends BasePlugin<typeof optionsSpec> {
 
 		// Stats command
 		if (this.options.enableStatsCommand) {
-			this.on("CHAT_COMMAND", async (event) => {
-				if (event.command === this.options.statsCommand) {
-					await this.handleStatsCommand(event.player);
-				}
+			this.registerCommand({
+				name: this.options.statsCommand ?? "nemesis",
+				description: "Show who has killed you the most",
+				handler: ({ player }) => this.handleStatsCommand(player),
 			});
 		}
 
@@ -4,6 +4,8 @@
  * RoundStatsSummary Plugin
  *
  * Broadcasts top performers at the end of each round in various categories.
+ * Other plugins can read the current round's stats through its service and
+ * receive the final stats of each round as a `ROUND_STATS` plugin event.
  *
  * @example
  * ```typescript
@@ -12,6 +14,12 @@
  *   topCount: 3,
  *   broadcastInGame: true,
  * });
+ *
+ * // In another plugin that lists RoundStatsSummary in meta.dependencies
+ * const stats = this.getPlugin<RoundStatsService>("RoundStatsSummary")?.getStats();
+ * this.onPluginEvent<RoundStats>("RoundStatsSummary", "ROUND_STATS", (event) => {
+ *   this.log.info(`${event.data.players.length} players took part`);
+ * });
  * ```
  *
  * @module
@@ -28,7 +36,7 @@ import type {
 /**
  * Player stats for the round.
  */
-interface PlayerRoundStats {
+export interface PlayerRoundStats {
 	eosID: EOSID;
 	name: string;
 	kills: number;
@@ -41,6 +49,22 @@ interface PlayerRoundStats {
 	teamdeaths: number;
 }
 
+/**
+ * Service exposed to other plugins.
+ */
+export interface RoundStatsService {
+	/** Stats of the round in progress, one entry per player seen. */
+	getStats(): PlayerRoundStats[];
+}
+
+/**
+ * Data of the `ROUND_STATS` plugin event, emitted with the final stats
+ * of a round.
+ */
+export interface RoundStats {
+	players: PlayerRoundStats[];
+}
+
 /**
  * Options specification for RoundStatsSummary plugin.
  */
@@ -148,6 +172,10 @@ export class RoundStatsSummary extends BasePlugin<typeof optionsSpec> {
 	 * Subscribe to events.
 	 */
 	async mount(): Promise<void> {
+		this.provide<RoundStatsService>({
+			getStats: () => Array.from(this.stats.values(), (stats) => ({ ...stats })),
+		});
+
 		// Track deaths/kills
 		this.on("PLAYER_DIED", (event) => {
 			// Track death for victim
@@ -277,6 +305,10 @@ export class RoundStatsSummary extends BasePlugin<typeof optionsSpec> {
 			return;
 		}
 
+		this.emit("ROUND_STATS", {
+			players: statsArray.map((stats) => ({ ...stats })),
+		} satisfies RoundStats);
+
 		const categories = (this.options.categories ?? []) as string[];
 		const topCount = this.options.topCount ?? 3;
 		const leaderboards: string[] = [];
@@ -3,7 +3,8 @@
  *
  * TeamRandomizer Plugin
  *
- * Randomize team assignments via admin chat command.
+ * Randomize team assignments via admin chat command. Requires the
+ * `forceteamchange` admin permission by default.
  *
  * @example
  * ```typescript
@@ -29,13 +30,20 @@ const optionsSpec = {
 		description: "Admin command trigger (without ! prefix)",
 		default: "randomize",
 	},
+	permission: {
+		type: "string",
+		required: false,
+		description: "Squad admin permission required to randomize teams",
+		default: "forceteamchange",
+	},
 } as const satisfies OptionsSpec;
 
 /**
  * TeamRandomizer Plugin
  *
  * Randomizes team assignments when an admin triggers the command.
- * Only responds to commands in admin chat.
+ * Only responds to commands in admin chat from admins with the
+ * configured permission.
  */
 export class TeamRandomizer extends BasePlugin<typeof optionsSpec> {
 	static readonly meta: PluginMeta = {
@@ -48,39 +56,32 @@ export class TeamRandomizer extends BasePlugin<typeof optionsSpec> {
 	static readonly optionsSpec = optionsSpec;
 
 	/**
-	 * Subscribe to chat command events.
+	 * Register the randomize command.
 	 */
 	async mount(): Promise<void> {
 		const commandName = (this.options.command ?? "randomize").toLowerCase();
 
-		this.on("CHAT_COMMAND", async (event) => {
-			// Only respond to admin chat
-			if (event.channel !== "ChatAdmin") {
-				return;
-			}
-
-			// Check if it's our command
-			if (event.command !== commandName) {
-				return;
-			}
-
-			this.log.info(`Team randomization triggered by ${event.player.name}`);
-
-			await this.rcon.broadcast("Randomizing teams...");
-
-			try {
-				await this.randomizeTeams();
-				await this.rcon.broadcast("Teams have been randomized!");
-			} catch (error) {
-				this.log.error(
-					"Failed to randomize teams",
-					error instanceof Error ? error : new Error(String(error)),
-				);
-				await this.rcon.warn(
-					event.player.eosID,
-					"Failed to randomize teams. Check logs for details.",
-				);
-			}
+		this.registerCommand({
+			name: commandName,
+			description: "Shuffle all players across both teams",
+			permission: this.options.permission ?? "forceteamchange",
+			channels: ["ChatAdmin"],
+			handler: async ({ player, reply }) => {
+				this.log.info(`Team randomization triggered by ${player.name}`);
+
+				await this.rcon.broadcast("Randomizing teams...");
+
+				try {
+					await this.randomizeTeams();
+					await this.rcon.broadcast("Teams have been randomized!");
+				} catch (error) {
+					this.log.error(
+						"Failed to randomize teams",
+						error instanceof Error ? error : new Error(String(error)),
+					);
+					await reply("Failed to randomize teams. Check logs for details.");
+				}
+			},
 		});
 
 		this.log.info("TeamRandomizer mounted", { command: commandName });
@@ -140,11 +140,6 @@ export class VehicleClaimTracker extends BasePlugin<typeof optionsSpec> {
 	 */
 	private currentClaims = new Map<string, VehicleClaim>();
 
-	/**
-	 * Report cooldowns per player.
-	 */
-	private reportCooldowns = new Map<string, Date>();
-
 	/**
 	 * Subscribe to events and start monitoring.
 	 */
@@ -158,10 +153,19 @@ export class VehicleClaimTracker extends BasePlugin<typeof optionsSpec> {
 		);
 
 		// Handle report command
-		this.on("CHAT_COMMAND", async (event) => {
-			if (event.command === this.options.reportCommand) {
-				await this.handleReportCommand(event.player, event.args);
-			}
+		this.registerCommand({
+			name: this.options.reportCommand ?? "reportclaim",
+			description: "Report a stolen vehicle claim",
+			args: {
+				vehicle: {
+					type: "text",
+					required: false,
+					description: "Vehicle type (default: your squad's vehicle)",
+				},
+			},
+			cooldown: this.options.reportCooldown ?? 60000,
+			handler: ({ player, args }) =>
+				this.handleReportCommand(player, args.vehicle ?? ""),
 		});
 
 		// Reset on new game
@@ -280,25 +284,6 @@ export class VehicleClaimTracker extends BasePlugin<typeof optionsSpec> {
 		player: Player,
 		args: string,
 	): Promise<void> {
-		// Check cooldown
-		const cooldown = this.options.reportCooldown ?? 60000;
-		const lastReport = this.reportCooldowns.get(player.eosID);
-
-		if (lastReport) {
-			const elapsed = Date.now() - lastReport.getTime();
-			if (elapsed < cooldown) {
-				const remaining = Math.ceil((cooldown - elapsed) / 1000);
-				await this.rcon.warn(
-					player.eosID,
-					`Please wait ${remaining} seconds before reporting again.`,
-				);
-				return;
-			}
-		}
-
-		// Update cooldown
-		this.reportCooldowns.set(player.eosID, new Date());
-
 		// Get vehicle type from args or auto-detect from player's squad
 		let vehicleType = args.trim() || null;
 
@@ -396,15 +381,5 @@ export class VehicleClaimTracker extends BasePlugin<typeof optionsSpec> {
 		if (before !== after) {
 			this.log.debug(`Cleaned up ${before - after} old claims`);
 		}
-
-		// Also clean up cooldowns
-		const cooldown = this.options.reportCooldown ?? 60000;
-		const cooldownCutoff = Date.now() - cooldown;
-
-		for (const [eosID, time] of this.reportCooldowns) {
-			if (time.getTime() < cooldownCutoff) {
-				this.reportCooldowns.delete(eosID);
-			}
-		}
 	}
 }
@@ -14,36 +14,113 @@ import type { SquadServer } from '../server.js';
 import type { DrizzleDB } from '../db/index.js';
 import type { MetricsCollector } from '../metrics/collector.js';
 import type { PluginManager } from '../plugins/manager.js';
+import type { PluginInstaller } from '../plugins/installer.js';
+import type { BanManager } from '../services/ban-manager.service.js';
 
 import { corsPlugin } from './plugins/cors.js';
 import { createAuthModule } from './modules/auth/index.js';
 import { createStatusModule } from './modules/status/index.js';
 import { createPlayersModule } from './modules/players/index.js';
+import { createBansModule } from './modules/bans/index.js';
+import { createBanListModule } from './modules/ban-list/index.js';
 import { createSquadsModule } from './modules/squads/index.js';
 import { createRconModule } from './modules/rcon/index.js';
 import { createLayersModule } from './modules/layers/index.js';
 import { createPluginsModule } from './modules/plugins/index.js';
 import { createConfigModule } from './modules/config/index.js';
 import { createLogsModule } from './modules/logs/index.js';
+import { createMatchesModule } from './modules/matches/index.js';
+import { createParserModule } from './modules/parser/index.js';
 import { createUsersModule } from './modules/users/index.js';
 import { createMetricsModule } from './modules/metrics/index.js';
 import { createNotificationsModule } from './modules/notifications/index.js';
+import { createServerScope, createServersModule } from './modules/servers/index.js';
 import { createWsHandler } from './websocket/handler.js';
 
 /**
- * Creates the ElysiaJS API server instance.
+ * Per-server dependencies for the server-bound API modules.
+ */
+export interface ServerApiContext {
+  /** The running SquadServer instance. */
+  readonly squadServer: SquadServer;
+
+  /** Metrics collector for this server. */
+  readonly metricsCollector: MetricsCollector;
+
+  /** Plugin manager for this server (null if the plugin system failed to start). */
+  readonly pluginManager: PluginManager | null;
+
+  /** Installer for plugin packages uploaded to this server (null if unavailable). */
+  readonly pluginInstaller: PluginInstaller | null;
+
+  /** Ban list manager for this server. */
+  readonly banManager: BanManager;
+}
+
+/**
+ * The API app and the hosted servers mounted on it.
+ */
+export interface Api {
+  /** The Elysia app (call `app.listen(port)` to start). */
+  readonly app: ReturnType<typeof createApiApp>;
+
+  /**
+   * Mounts a server under `/api/servers/:id/...`, and at the root if it
+   * is the default server. Servers may be added after the API listens.
+   */
+  addServer(context: ServerApiContext): void;
+}
+
+/**
+ * Creates the ElysiaJS API.
+ *
+ * Server-bound modules are mounted once per server under
+ * `/api/servers/:id/...`. The default server is also mounted at the
+ * root (`/api/players`, `/api/status`, ...). Servers are mounted as they
+ * come up, so one unreachable server doesn't keep the API down.
  *
- * @param squadServer - The running SquadServer instance
+ * @param servers - Servers that are already up
  * @param db - Drizzle database instance
- * @param metricsCollector - Metrics collector instance
- * @param pluginManager - Plugin manager instance (optional)
- * @returns Configured Elysia app (call `.listen(port)` to start)
+ * @param defaultServerId - Server mounted at the root (default: the first of `servers`)
+ * @returns The API app and a function to mount more servers
  */
 export function createApi(
-  squadServer: SquadServer,
+  servers: readonly ServerApiContext[],
+  db: DrizzleDB,
+  defaultServerId: string | undefined = servers[0]?.squadServer.id,
+): Api {
+  const mounted: ServerApiContext[] = [];
+  let defaultServer: ServerApiContext | undefined;
+
+  const app = createApiApp(mounted, db, () => defaultServer);
+
+  const addServer = (context: ServerApiContext) => {
+    mounted.push(context);
+    app.use(createServerScope(context, db));
+
+    if (context.squadServer.id === defaultServerId) {
+      defaultServer = context;
+      app.use(createDefaultServerScope(context, db));
+    }
+
+    // Routes added after listen() only take effect once recompiled
+    app.compile();
+  };
+
+  for (const context of servers) {
+    addServer(context);
+  }
+
+  return { app, addServer };
+}
+
+/**
+ * Creates the app with the modules that don't belong to a server.
+ */
+function createApiApp(
+  servers: readonly ServerApiContext[],
   db: DrizzleDB,
-  metricsCollector: MetricsCollector,
-  pluginManager: PluginManager | null = null,
+  getDefaultServer: () => ServerApiContext | undefined,
 ) {
   return new Elysia({ prefix: '/api' })
     .use(corsPlugin)
@@ -58,16 +135,30 @@ export function createApi(
       },
     }))
     .use(createAuthModule(db))
+    .use(createServersModule(servers))
+    .use(createBanListModule(db))
+    .use(createConfigModule())
+    .use(createUsersModule(db))
+    .use(createNotificationsModule(db))
+    .use(createWsHandler(getDefaultServer));
+}
+
+/**
+ * Mounts the default server's modules at the API root.
+ */
+function createDefaultServerScope(context: ServerApiContext, db: DrizzleDB) {
+  const { squadServer, metricsCollector, pluginManager, pluginInstaller, banManager } = context;
+
+  return new Elysia()
     .use(createStatusModule(squadServer, metricsCollector))
-    .use(createPlayersModule(squadServer, db))
+    .use(createPlayersModule(squadServer, banManager, db))
+    .use(createBansModule(banManager, db))
     .use(createSquadsModule(squadServer, db))
     .use(createRconModule(squadServer, db))
     .use(createLayersModule(squadServer, db))
-    .use(createPluginsModule(pluginManager))
-    .use(createConfigModule())
+    .use(createPluginsModule(pluginManager, pluginInstaller, db, squadServer.id))
     .use(createLogsModule(db))
-    .use(createUsersModule(db))
-    .use(createMetricsModule(db, metricsCollector))
-    .use(createNotificationsModule(db))
-    .use(createWsHandler(squadServer, metricsCollector));
+    .use(createMatchesModule(db))
+    .use(createParserModule(squadServer))
+    .use(createMetricsModule(db, metricsCollector));
 }
@@ -31,6 +31,7 @@ export function createAuthModule(db: DrizzleDB) {
           id: result.user.id,
           username: result.user.username,
           role: result.user.role,
+          permissions: result.user.permissions,
           createdAt: new Date().toISOString(),
         },
       };
@@ -40,14 +41,16 @@ export function createAuthModule(db: DrizzleDB) {
 
     .use(authGuard)
 
-    .post('/refresh', ({ user, set }) => {
+    .post('/refresh', async ({ user, set }) => {
       const denied = checkAuth(user, set);
       if (denied) return denied;
 
+      // Re-resolve permissions so role changes apply on refresh
       const token = AuthService.signJWT({
         id: user!.id,
         username: user!.username,
         role: user!.role,
+        permissions: await AuthService.getRolePermissions(db, user!.role),
       });
       const payload = AuthService.verifyJWT(token)!;
 
@@ -58,6 +61,7 @@ export function createAuthModule(db: DrizzleDB) {
           id: user!.id,
           username: user!.username,
           role: user!.role,
+          permissions: payload.permissions,
           createdAt: new Date().toISOString(),
         },
       };
@@ -0,0 +1,77 @@
+/**
+ * @squadscript/server
+ *
+ * Dashboard permission catalog and built-in role definitions.
+ *
+ * Permissions are granted to roles (stored in the `roles` table) and
+ * resolved into the JWT at login, so guards only need the token to
+ * authorize a request. The `admin` role is a superuser and always holds
+ * every permission, regardless of what is stored for it.
+ *
+ * @module
+ */
+
+/**
+ * Every permission understood by the API.
+ */
+export const PERMISSIONS = [
+  'players.warn',
+  'players.kick',
+  'players.ban',
+  'players.move',
+  'squads.disband',
+  'rcon.execute',
+  'rcon.broadcast',
+  'layers.change',
+  'config.read',
+  'config.write',
+  'plugins.manage',
+  'users.manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** Role that bypasses all permission checks. */
+export const SUPERUSER_ROLE = 'admin';
+
+/**
+ * Roles seeded on first start. Admins may edit their permissions or add
+ * new roles through `/api/roles`.
+ */
+export const DEFAULT_ROLES: Readonly<Record<string, readonly Permission[]>> = {
+  admin: PERMISSIONS,
+  moderator: [
+    'players.warn',
+    'players.kick',
+    'players.move',
+    'squads.disband',
+    'rcon.broadcast',
+  ],
+  viewer: [],
+};
+
+/**
+ * Type guard for permission strings.
+ */
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the effective permissions for a role.
+ *
+ * @param role - Role name
+ * @param stored - Permissions stored for the role (if any)
+ * @returns Known permissions granted to the role
+ */
+export function resolvePermissions(role: string, stored: unknown): Permission[] {
+  if (role === SUPERUSER_ROLE) {
+    return [...PERMISSIONS];
+  }
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return stored.filter((value): value is Permission =>
+    typeof value === 'string' && isPermission(value),
+  );
+}
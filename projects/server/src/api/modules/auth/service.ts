@@ -8,6 +8,8 @@
 
 import type { DrizzleDB } from '../../../db/index.js';
 import { UserRepository } from '../../../db/repositories/user.repo.js';
+import { RoleRepository } from '../../../db/repositories/role.repo.js';
+import { DEFAULT_ROLES, resolvePermissions, type Permission } from './permissions.js';
 
 const JWT_SECRET = process.env.JWT_SECRET ?? 'change-me-32-chars-min';
 const JWT_EXPIRY_SECONDS = 24 * 60 * 60; // 24 hours
@@ -16,6 +18,8 @@ export interface JWTPayload {
   readonly id: string;
   readonly username: string;
   readonly role: string;
+  /** Effective permissions of the role at the time the token was issued. */
+  readonly permissions: readonly Permission[];
   readonly iat: number;
   readonly exp: number;
 }
@@ -33,7 +37,12 @@ export class AuthService {
   /**
    * Sign a JWT token.
    */
-  static signJWT(payload: { id: string; username: string; role: string }): string {
+  static signJWT(payload: {
+    id: string;
+    username: string;
+    role: string;
+    permissions: readonly Permission[];
+  }): string {
     const now = Math.floor(Date.now() / 1000);
     const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
 
@@ -123,6 +132,7 @@ export class AuthService {
       id: user.id,
       username: user.username,
       role: user.role,
+      permissions: await AuthService.getRolePermissions(db, user.role),
     });
 
     const payload = AuthService.verifyJWT(token)!;
@@ -134,6 +144,25 @@ export class AuthService {
     };
   }
 
+  /**
+   * Resolve the effective permissions of a role from the roles table.
+   */
+  static async getRolePermissions(db: DrizzleDB, role: string): Promise<Permission[]> {
+    const roleRepo = new RoleRepository(db);
+    const stored = await roleRepo.findByName(role);
+    return resolvePermissions(role, stored?.permissions);
+  }
+
+  /**
+   * Ensure the built-in roles exist. Existing roles are left untouched.
+   */
+  static async ensureDefaultRoles(db: DrizzleDB): Promise<void> {
+    const roleRepo = new RoleRepository(db);
+    for (const [name, permissions] of Object.entries(DEFAULT_ROLES)) {
+      await roleRepo.createIfMissing(name, permissions);
+    }
+  }
+
   /**
    * Ensure at least one admin user exists. Creates a default admin if none exist.
    */
@@ -0,0 +1,74 @@
+/**
+ * @squadscript/server
+ *
+ * Published ban list — /api/ban-list
+ *
+ * Serves the active bans in Bans.cfg format for other communities to
+ * subscribe to. The endpoint is public; every response is signed with
+ * `BAN_LIST_SECRET` (see ban-list-signature.ts), and publishing is
+ * disabled while the secret is unset.
+ *
+ * Query parameters:
+ * - `serverId`: only bans from one server
+ * - `source`: comma-separated ban sources (dashboard, ingame, bans_cfg)
+ * - `permanent=true`: only permanent bans
+ * - `since`: only bans issued at or after this ISO date
+ * - `format=json`: JSON instead of Bans.cfg
+ *
+ * @module
+ */
+
+import { Elysia } from 'elysia';
+
+import type { DrizzleDB } from '../../../db/index.js';
+import { BanRepository, type ActiveBanFilter } from '../../../db/repositories/ban.repo.js';
+import { toBansCfgEntries } from '../../../services/ban-manager.service.js';
+import { serializeBansCfg } from '../../../services/bans-cfg.js';
+import { BAN_LIST_SIGNATURE_HEADER, signBanList } from '../../../services/ban-list-signature.js';
+
+const BAN_LIST_SECRET = process.env.BAN_LIST_SECRET ?? '';
+
+export function createBanListModule(db: DrizzleDB, secret = BAN_LIST_SECRET) {
+  return new Elysia({ prefix: '/ban-list' })
+
+    .get('/', async ({ query, set }) => {
+      if (!secret) {
+        set.status = 404;
+        return { error: 'Ban list publishing is disabled' };
+      }
+
+      const since = query.since != null ? new Date(query.since) : null;
+      if (since !== null && Number.isNaN(since.getTime())) {
+        set.status = 400;
+        return { error: `Invalid date "${query.since}"` };
+      }
+
+      const filter: ActiveBanFilter = {
+        ...(query.serverId ? { serverId: query.serverId } : {}),
+        ...(query.source ? { sources: query.source.split(',').map((s) => s.trim()) } : {}),
+        ...(query.permanent === 'true' ? { permanentOnly: true } : {}),
+        ...(since !== null ? { since } : {}),
+      };
+
+      const repo = new BanRepository(db);
+      const rows = await repo.findActive(filter);
+
+      let body: string;
+      if (query.format === 'json') {
+        body = JSON.stringify(rows.map((row) => ({
+          steamId: row.steamId,
+          eosId: row.eosId,
+          reason: row.reason,
+          createdAt: row.createdAt.toISOString(),
+          expiresAt: row.expiresAt?.toISOString() ?? null,
+        })));
+        set.headers['content-type'] = 'application/json; charset=utf-8';
+      } else {
+        body = serializeBansCfg(toBansCfgEntries(rows, { includeAdmin: false }));
+        set.headers['content-type'] = 'text/plain; charset=utf-8';
+      }
+
+      set.headers[BAN_LIST_SIGNATURE_HEADER] = signBanList(body, secret);
+      return body;
+    });
+}
@@ -0,0 +1,168 @@
+/**
+ * @squadscript/server
+ *
+ * Bans controller — /api/bans/*
+ *
+ * @module
+ */
+
+import { Elysia } from 'elysia';
+
+import type { DrizzleDB } from '../../../db/index.js';
+import { AuditRepository } from '../../../db/repositories/audit.repo.js';
+import type { BanStatusFilter } from '../../../db/repositories/ban.repo.js';
+import type { BanManager } from '../../../services/ban-manager.service.js';
+import { parsePagination } from '../../utils/pagination.js';
+import { authGuard, checkAuth, checkPermission } from '../../plugins/auth.js';
+import { BanModel } from './model.js';
+
+const BAN_STATUSES: readonly string[] = ['active', 'expired', 'revoked'];
+
+export function createBansModule(banManager: BanManager, db: DrizzleDB) {
+  return new Elysia({ prefix: '/bans' })
+    .use(authGuard)
+
+    .get('/', async ({ query, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const { limit, offset } = parsePagination(query);
+
+      if (query.status != null && !BAN_STATUSES.includes(query.status)) {
+        set.status = 400;
+        return { error: `Invalid status "${query.status}"` };
+      }
+
+      const { data, total } = await banManager.list({
+        ...(query.search ? { search: query.search } : {}),
+        ...(query.status != null ? { status: query.status as BanStatusFilter } : {}),
+        limit,
+        offset,
+      });
+
+      return { data, total, limit, offset };
+    })
+
+    .get('/export', async ({ user, set }) => {
+      const denied = checkPermission(user, 'players.ban', set);
+      if (denied) return denied;
+      set.headers['content-type'] = 'text/plain; charset=utf-8';
+      return banManager.exportBansCfg();
+    })
+
+    .post('/import', async ({ body, user, set }) => {
+      const denied = checkPermission(user, 'players.ban', set);
+      if (denied || !user) return denied;
+
+      let result: { imported: number; skipped: number };
+      try {
+        result = await banManager.importBansCfg(body.content);
+      } catch (error) {
+        set.status = 400;
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+      await banManager.syncBansCfg();
+
+      const auditRepo = new AuditRepository(db);
+      await auditRepo.insert({
+        userId: user.id,
+        serverId: banManager.serverId,
+        action: 'ban_import',
+        details: result,
+      });
+
+      return { ok: true, ...result };
+    }, {
+      body: BanModel.importBody,
+    })
+
+    .get('/:id', async ({ params: { id }, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const ban = await banManager.get(Number(id));
+      if (!ban) {
+        set.status = 404;
+        return { error: 'Ban not found' };
+      }
+      return ban;
+    })
+
+    .post('/', async ({ body, user, set }) => {
+      const denied = checkPermission(user, 'players.ban', set);
+      if (denied || !user) return denied;
+      const result = await banManager.ban(
+        {
+          steamId: body.steamId ?? null,
+          eosId: body.eosId ?? null,
+          name: body.name ?? null,
+        },
+        body.duration,
+        body.reason,
+        { userId: user.id, name: user.username },
+      );
+      if (!result.ok) {
+        set.status = 400;
+        return { error: result.error };
+      }
+
+      const auditRepo = new AuditRepository(db);
+      await auditRepo.insert({
+        userId: user.id,
+        serverId: result.ban.serverId,
+        action: 'ban',
+        target: result.ban.eosId ?? result.ban.steamId,
+        details: { duration: body.duration, reason: body.reason, banId: result.ban.id },
+      });
+
+      set.status = 201;
+      return result.ban;
+    }, {
+      body: BanModel.createBody,
+    })
+
+    .patch('/:id', async ({ params: { id }, body, user, set }) => {
+      const denied = checkPermission(user, 'players.ban', set);
+      if (denied || !user) return denied;
+      const result = await banManager.update(Number(id), {
+        ...(body.duration !== undefined ? { duration: body.duration } : {}),
+        ...(body.reason !== undefined ? { reason: body.reason } : {}),
+      });
+      if (!result.ok) {
+        set.status = result.error === 'Ban not found' ? 404 : 400;
+        return { error: result.error };
+      }
+
+      const auditRepo = new AuditRepository(db);
+      await auditRepo.insert({
+        userId: user.id,
+        serverId: result.ban.serverId,
+        action: 'ban_update',
+        target: result.ban.eosId ?? result.ban.steamId,
+        details: { banId: result.ban.id, ...body },
+      });
+
+      return result.ban;
+    }, {
+      body: BanModel.updateBody,
+    })
+
+    .delete('/:id', async ({ params: { id }, user, set }) => {
+      const denied = checkPermission(user, 'players.ban', set);
+      if (denied || !user) return denied;
+      const result = await banManager.unban(Number(id), user.username);
+      if (!result.ok) {
+        set.status = result.error === 'Ban not found' ? 404 : 400;
+        return { error: result.error };
+      }
+
+      const auditRepo = new AuditRepository(db);
+      await auditRepo.insert({
+        userId: user.id,
+        serverId: result.ban.serverId,
+        action: 'unban',
+        target: result.ban.eosId ?? result.ban.steamId,
+        details: { banId: result.ban.id },
+      });
+
+      return { ok: true };
+    });
+}
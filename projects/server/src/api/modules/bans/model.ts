@@ -0,0 +1,26 @@
+/**
+ * @squadscript/server
+ *
+ * Ban module request/response models.
+ *
+ * @module
+ */
+
+import { t } from 'elysia';
+
+export const BanModel = {
+  createBody: t.Object({
+    steamId: t.Optional(t.String({ pattern: '^\\d{17}$' })),
+    eosId: t.Optional(t.String({ pattern: '^[0-9a-fA-F]{32}$' })),
+    name: t.Optional(t.String({ maxLength: 100 })),
+    duration: t.Number({ minimum: 0 }),
+    reason: t.String({ minLength: 1, maxLength: 500 }),
+  }),
+  updateBody: t.Object({
+    duration: t.Optional(t.Number({ minimum: 0 })),
+    reason: t.Optional(t.String({ minLength: 1, maxLength: 500 })),
+  }),
+  importBody: t.Object({
+    content: t.Optional(t.String()),
+  }),
+};
@@ -12,7 +12,7 @@
 import { Elysia, t } from 'elysia';
 import { readFile, writeFile } from 'node:fs/promises';
 
-import { authGuard, checkRole } from '../../plugins/auth.js';
+import { authGuard, checkPermission } from '../../plugins/auth.js';
 
 /** Path to the Squad server configuration directory. */
 const SQUAD_CONFIG_DIR = process.env.SQUAD_CONFIG_DIR ?? '/squad/SquadGame/ServerConfig';
@@ -83,7 +83,7 @@ export function createConfigModule() {
     .use(authGuard)
 
     .get('/server', async ({ user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'config.read', set);
       if (denied) return denied;
 
       try {
@@ -101,7 +101,7 @@ export function createConfigModule() {
     })
 
     .put('/server', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'config.write', set);
       if (denied) return denied;
 
       try {
@@ -133,7 +133,7 @@ export function createConfigModule() {
     })
 
     .get('/rotation', async ({ user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'config.read', set);
       if (denied) return denied;
 
       try {
@@ -148,7 +148,7 @@ export function createConfigModule() {
     })
 
     .put('/rotation', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'config.write', set);
       if (denied) return denied;
 
       try {
@@ -11,7 +11,7 @@ import { Elysia, t } from 'elysia';
 import type { SquadServer } from '../../../server.js';
 import type { DrizzleDB } from '../../../db/index.js';
 import { AuditRepository } from '../../../db/repositories/audit.repo.js';
-import { authGuard, checkAuth, checkRole } from '../../plugins/auth.js';
+import { authGuard, checkAuth, checkPermission } from '../../plugins/auth.js';
 
 export function createLayersModule(squadServer: SquadServer, db: DrizzleDB) {
   return new Elysia({ prefix: '/layers' })
@@ -44,7 +44,7 @@ export function createLayersModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/change', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'layers.change', set);
       if (denied) return denied;
       const result = await squadServer.execute(`AdminChangeLayer ${body.layer}`);
       if (!result.ok) {
@@ -55,6 +55,7 @@ export function createLayersModule(squadServer: SquadServer, db: DrizzleDB) {
       const auditRepo = new AuditRepository(db);
       await auditRepo.insert({
         userId: user!.id,
+        serverId: squadServer.id,
         action: 'map_change',
         details: { layer: body.layer },
       });
@@ -67,7 +68,7 @@ export function createLayersModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/set-next', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'layers.change', set);
       if (denied) return denied;
       const result = await squadServer.execute(`AdminSetNextLayer ${body.layer}`);
       if (!result.ok) {
@@ -78,6 +79,7 @@ export function createLayersModule(squadServer: SquadServer, db: DrizzleDB) {
       const auditRepo = new AuditRepository(db);
       await auditRepo.insert({
         userId: user!.id,
+        serverId: squadServer.id,
         action: 'set_next_layer',
         details: { layer: body.layer },
       });
@@ -13,7 +13,11 @@ import { EventLogRepository } from '../../../db/repositories/event-log.repo.js';
 import { parsePagination } from '../../utils/pagination.js';
 import { authGuard, checkAuth } from '../../plugins/auth.js';
 
-export function createLogsModule(db: DrizzleDB) {
+/**
+ * @param db - Drizzle database instance
+ * @param serverId - Restrict results to one server (unset for all servers)
+ */
+export function createLogsModule(db: DrizzleDB, serverId?: string) {
   return new Elysia({ prefix: '/logs' })
     .use(authGuard)
 
@@ -24,6 +28,7 @@ export function createLogsModule(db: DrizzleDB) {
       const repo = new EventLogRepository(db);
 
       const filter = {
+        ...(serverId !== undefined ? { serverId } : {}),
         ...(query.type != null ? { type: query.type } : {}),
         ...(query.player != null ? { player: query.player } : {}),
         ...(query.from != null ? { from: new Date(query.from) } : {}),
@@ -36,6 +41,7 @@ export function createLogsModule(db: DrizzleDB) {
       return {
         data: data.map((entry) => ({
           id: entry.id,
+          serverId: entry.serverId,
           type: entry.type,
           message: entry.message,
           player: entry.player,
@@ -0,0 +1,113 @@
+/**
+ * @squadscript/server
+ *
+ * Matches controller — /api/matches/*
+ *
+ * @module
+ */
+
+import { Elysia } from 'elysia';
+import type { MatchDTO } from '@squadscript/types';
+
+import type { DrizzleDB } from '../../../db/index.js';
+import { MatchRepository } from '../../../db/repositories/match.repo.js';
+import type { matches } from '../../../db/schema.js';
+import { parsePagination } from '../../utils/pagination.js';
+import { authGuard, checkAuth } from '../../plugins/auth.js';
+
+function toMatchDTO(match: typeof matches.$inferSelect): MatchDTO {
+  return {
+    id: match.id,
+    serverId: match.serverId,
+    level: match.level,
+    layer: match.layer,
+    team1Faction: match.team1Faction,
+    team2Faction: match.team2Faction,
+    winner: match.winner,
+    team1Tickets: match.team1Tickets,
+    team2Tickets: match.team2Tickets,
+    eventCount: match.eventCount,
+    startedAt: match.startedAt.toISOString(),
+    endedAt: match.endedAt?.toISOString() ?? null,
+    durationMs: match.endedAt !== null
+      ? match.endedAt.getTime() - match.startedAt.getTime()
+      : null,
+  };
+}
+
+/**
+ * @param db - Drizzle database instance
+ * @param serverId - Restrict results to one server (unset for all servers)
+ */
+export function createMatchesModule(db: DrizzleDB, serverId?: string) {
+  const findMatch = async (id: string) => {
+    const match = await new MatchRepository(db).findById(Number(id));
+    if (!match || (serverId !== undefined && match.serverId !== serverId)) {
+      return null;
+    }
+    return match;
+  };
+
+  return new Elysia({ prefix: '/matches' })
+    .use(authGuard)
+
+    .get('/', async ({ query, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const { limit, offset } = parsePagination(query);
+      const repo = new MatchRepository(db);
+
+      const filter = {
+        ...(serverId !== undefined ? { serverId } : {}),
+        ...(query.layer != null ? { layer: query.layer } : {}),
+      };
+
+      const data = await repo.query({ ...filter, limit, offset });
+      const total = await repo.countByFilter(filter);
+
+      return { data: data.map(toMatchDTO), total, limit, offset };
+    })
+
+    .get('/:id', async ({ params: { id }, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const match = await findMatch(id);
+      if (!match) {
+        set.status = 404;
+        return { error: 'Match not found' };
+      }
+      return toMatchDTO(match);
+    })
+
+    /**
+     * The match with its timeline in playback order. `types` (comma
+     * separated) and `from`/`to` (ms into the round) narrow the entries.
+     */
+    .get('/:id/timeline', async ({ params: { id }, query, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const match = await findMatch(id);
+      if (!match) {
+        set.status = 404;
+        return { error: 'Match not found' };
+      }
+
+      const events = await new MatchRepository(db).findEvents(match.id, {
+        ...(query.types ? { types: query.types.split(',') } : {}),
+        ...(query.from != null ? { fromMs: Number(query.from) } : {}),
+        ...(query.to != null ? { toMs: Number(query.to) } : {}),
+      });
+
+      return {
+        match: toMatchDTO(match),
+        events: events.map((event) => ({
+          id: event.id,
+          offsetMs: event.offsetMs,
+          time: event.time.toISOString(),
+          type: event.type,
+          chainId: event.chainId,
+          data: event.data,
+        })),
+      };
+    });
+}
@@ -13,7 +13,16 @@ import { MetricsRepository } from '../../../db/repositories/metrics.repo.js';
 import type { MetricsCollector } from '../../../metrics/collector.js';
 import { authGuard, checkAuth } from '../../plugins/auth.js';
 
-export function createMetricsModule(db: DrizzleDB, metricsCollector: MetricsCollector) {
+/**
+ * @param db - Drizzle database instance
+ * @param metricsCollector - Collector for the live snapshot
+ * @param serverId - Restrict history to one server (unset for all servers)
+ */
+export function createMetricsModule(
+  db: DrizzleDB,
+  metricsCollector: MetricsCollector,
+  serverId?: string,
+) {
   return new Elysia({ prefix: '/metrics' })
     .use(authGuard)
 
@@ -39,6 +48,7 @@ export function createMetricsModule(db: DrizzleDB, metricsCollector: MetricsColl
       const repo = new MetricsRepository(db);
 
       const data = await repo.query({
+        ...(serverId !== undefined ? { serverId } : {}),
         ...(query.from != null ? { from: new Date(query.from) } : {}),
         ...(query.to != null ? { to: new Date(query.to) } : {}),
         limit: query.limit ? Number(query.limit) : 1000,
@@ -24,6 +24,7 @@ export function createNotificationsModule(db: DrizzleDB) {
 
       return data.map((n) => ({
         id: n.id,
+        serverId: n.serverId,
         type: n.type,
         severity: n.severity,
         title: n.title,
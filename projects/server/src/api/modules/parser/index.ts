@@ -0,0 +1,56 @@
+/**
+ * @squadscript/server
+ *
+ * Parser controller — /api/parser/*
+ *
+ * @module
+ */
+
+import { Elysia } from 'elysia';
+import type { ParserCoverageDTO } from '@squadscript/types';
+
+import type { SquadServer } from '../../../server.js';
+import { parsePagination } from '../../utils/pagination.js';
+import { authGuard, checkAuth } from '../../plugins/auth.js';
+
+function toCoverageDTO(squadServer: SquadServer, limit: number): ParserCoverageDTO {
+  const stats = squadServer.getParserStats();
+
+  return {
+    linesProcessed: stats.linesProcessed,
+    linesMatched: stats.linesMatched,
+    linesUnmatched: stats.linesUnmatched,
+    linesDropped: stats.linesDropped,
+    matchRate: stats.linesProcessed > 0 ? stats.linesMatched / stats.linesProcessed : 0,
+    rules: squadServer.getLogRules().map((rule) => ({
+      name: rule.name,
+      event: rule.eventName,
+      matches: stats.ruleCounts[rule.name] ?? 0,
+    })),
+    unmatched: squadServer.getUnmatchedLogLines(limit).map((cluster) => ({
+      category: cluster.category,
+      shape: cluster.shape,
+      count: cluster.count,
+      sample: cluster.sample,
+      firstSeen: cluster.firstSeen.toISOString(),
+      lastSeen: cluster.lastSeen.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Reports how well the log parser's rules cover the server's log.
+ *
+ * @param squadServer - The server whose parser is reported
+ */
+export function createParserModule(squadServer: SquadServer) {
+  return new Elysia({ prefix: '/parser' })
+    .use(authGuard)
+
+    .get('/coverage', ({ query, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const { limit } = parsePagination(query);
+      return toCoverageDTO(squadServer, limit);
+    });
+}
@@ -10,11 +10,16 @@ import { Elysia } from 'elysia';
 
 import type { SquadServer } from '../../../server.js';
 import type { DrizzleDB } from '../../../db/index.js';
-import { authGuard, checkAuth, checkRole } from '../../plugins/auth.js';
+import type { BanManager } from '../../../services/ban-manager.service.js';
+import { authGuard, checkAuth, checkPermission } from '../../plugins/auth.js';
 import { PlayerService } from './service.js';
 import { PlayerModel } from './model.js';
 
-export function createPlayersModule(squadServer: SquadServer, db: DrizzleDB) {
+export function createPlayersModule(
+  squadServer: SquadServer,
+  banManager: BanManager,
+  db: DrizzleDB,
+) {
   return new Elysia({ prefix: '/players' })
     .use(authGuard)
 
@@ -35,8 +40,19 @@ export function createPlayersModule(squadServer: SquadServer, db: DrizzleDB) {
       return player;
     })
 
+    .get('/:eosId/profile', async ({ params: { eosId }, user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const profile = await PlayerService.getProfile(db, eosId);
+      if (!profile) {
+        set.status = 404;
+        return { error: 'Player profile not found' };
+      }
+      return profile;
+    })
+
     .post('/:eosId/warn', async ({ params: { eosId }, body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'players.warn', set);
       if (denied) return denied;
       const result = await PlayerService.warn(squadServer, db, eosId, body.message, user!);
       if (!result.ok) {
@@ -49,7 +65,7 @@ export function createPlayersModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/:eosId/kick', async ({ params: { eosId }, body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'players.kick', set);
       if (denied) return denied;
       const result = await PlayerService.kick(squadServer, db, eosId, body.reason, user!);
       if (!result.ok) {
@@ -62,10 +78,10 @@ export function createPlayersModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/:eosId/ban', async ({ params: { eosId }, body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
-      if (denied) return denied;
+      const denied = checkPermission(user, 'players.ban', set);
+      if (denied || !user) return denied;
       const result = await PlayerService.ban(
-        squadServer, db, eosId, body.duration, body.reason, user!,
+        banManager, db, eosId, body.duration, body.reason, user,
       );
       if (!result.ok) {
         set.status = 400;
@@ -77,7 +93,7 @@ export function createPlayersModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/:eosId/force-team-change', async ({ params: { eosId }, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'players.move', set);
       if (denied) return denied;
       const result = await squadServer.execute(`AdminForceTeamChange ${eosId}`);
       if (!result.ok) {
@@ -89,6 +105,7 @@ export function createPlayersModule(squadServer: SquadServer, db: DrizzleDB) {
       const auditRepo = new AuditRepository(db);
       await auditRepo.insert({
         userId: user!.id,
+        serverId: squadServer.id,
         action: 'force_team_change',
         target: eosId,
       });
@@ -6,12 +6,13 @@
  * @module
  */
 
-import type { PlayerDTO } from '@squadscript/types';
+import type { PlayerDTO, PlayerProfileDTO } from '@squadscript/types';
 
 import type { SquadServer } from '../../../server.js';
 import type { DrizzleDB } from '../../../db/index.js';
 import { AuditRepository } from '../../../db/repositories/audit.repo.js';
-import { BanRepository } from '../../../db/repositories/ban.repo.js';
+import { PlayerProfileRepository } from '../../../db/repositories/player-profile.repo.js';
+import type { BanManager } from '../../../services/ban-manager.service.js';
 import type { JWTPayload } from '../auth/service.js';
 
 export class PlayerService {
@@ -46,6 +47,29 @@ export class PlayerService {
     };
   }
 
+  static async getProfile(db: DrizzleDB, eosId: string): Promise<PlayerProfileDTO | null> {
+    const profile = await new PlayerProfileRepository(db).findByEosId(eosId);
+    if (!profile) return null;
+
+    return {
+      eosId: profile.eosId,
+      steamId: profile.steamId,
+      name: profile.name,
+      nameHistory: (profile.nameHistory as string[] | null) ?? [],
+      firstSeen: profile.firstSeen.toISOString(),
+      lastSeen: profile.lastSeen.toISOString(),
+      playtimeSeconds: profile.playtimeSeconds,
+      visits: profile.visits,
+      kills: profile.kills,
+      deaths: profile.deaths,
+      teamkills: profile.teamkills,
+      revives: profile.revives,
+      warnings: profile.warnings,
+      kicks: profile.kicks,
+      bans: profile.bans,
+    };
+  }
+
   static async warn(
     squadServer: SquadServer,
     db: DrizzleDB,
@@ -61,6 +85,7 @@ export class PlayerService {
     const auditRepo = new AuditRepository(db);
     await auditRepo.insert({
       userId: user.id,
+      serverId: squadServer.id,
       action: 'warn',
       target: eosId,
       details: { message },
@@ -84,6 +109,7 @@ export class PlayerService {
     const auditRepo = new AuditRepository(db);
     await auditRepo.insert({
       userId: user.id,
+      serverId: squadServer.id,
       action: 'kick',
       target: eosId,
       details: { reason },
@@ -93,39 +119,31 @@ export class PlayerService {
   }
 
   static async ban(
-    squadServer: SquadServer,
+    banManager: BanManager,
     db: DrizzleDB,
     eosId: string,
     duration: number,
     reason: string,
     user: JWTPayload,
   ) {
-    const result = await squadServer.ban(eosId, duration, reason);
+    // The ban manager bans over RCON and records the ban history
+    const result = await banManager.ban(
+      { eosId },
+      duration,
+      reason,
+      { userId: user.id, name: user.username },
+    );
     if (!result.ok) {
-      return { ok: false, error: result.error.message };
+      return { ok: false, error: result.error };
     }
 
-    // Persist ban to history
-    const banRepo = new BanRepository(db);
-    const player = squadServer.players.find((p) => p.eosID === eosId);
-    await banRepo.insert({
-      eosId,
-      steamId: player?.steamID ?? null,
-      name: player?.name ?? null,
-      reason,
-      duration,
-      adminId: user.id,
-      adminName: user.username,
-      expiresAt: duration > 0 ? new Date(Date.now() + duration * 1000) : null,
-    });
-
-    // Also audit
     const auditRepo = new AuditRepository(db);
     await auditRepo.insert({
       userId: user.id,
+      serverId: result.ban.serverId,
       action: 'ban',
       target: eosId,
-      details: { duration, reason },
+      details: { duration, reason, banId: result.ban.id },
     });
 
     return { ok: true };
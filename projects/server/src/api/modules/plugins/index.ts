@@ -8,10 +8,105 @@
 
 import { Elysia, t } from 'elysia';
 
-import type { PluginManager } from '../../../plugins/manager.js';
-import { authGuard, checkAuth, checkRole } from '../../plugins/auth.js';
+import type { DrizzleDB } from '../../../db/index.js';
+import { PluginStateRepository } from '../../../db/repositories/plugin-state.repo.js';
+import { AuditRepository } from '../../../db/repositories/audit.repo.js';
+import type { PluginManager, PluginRuntimeStats } from '../../../plugins/manager.js';
+import type { LifecycleResult } from '../../../plugins/runner.js';
+import type { PluginClass } from '../../../plugins/loader.js';
+import type { PluginInstaller } from '../../../plugins/installer.js';
+import { PluginErrorType } from '../../../plugins/error-handler.js';
+import { parseManifest } from '../../../plugins/manifest.js';
+import { createSandboxedPlugin, getPluginManifest } from '../../../plugins/sandbox.js';
+import { ErrorCode } from '../../../errors.js';
+import { authGuard, checkAuth, checkPermission } from '../../plugins/auth.js';
 
-export function createPluginsModule(pluginManager: PluginManager | null) {
+/**
+ * Builds the API representation of a configured plugin.
+ *
+ * Plugins that are configured but disabled (and therefore never loaded)
+ * are described from their class metadata when available. Installed
+ * packages also list their capabilities; trusted plugins have none.
+ * Mounted plugins include their handler stats and budget.
+ */
+function describePlugin(pluginManager: PluginManager, name: string) {
+  const loaded = pluginManager.getLoadedPlugins().find((p) => p.meta.name === name);
+  const config = pluginManager.getPluginConfig(name);
+  const configuredClass = typeof config?.plugin === 'function'
+    ? config.plugin as PluginClass
+    : undefined;
+
+  const meta = loaded?.meta ?? configuredClass?.meta;
+  const pluginClass = loaded?.Class ?? configuredClass;
+  const manifest = pluginClass ? getPluginManifest(pluginClass) : undefined;
+  const optionsSpec = loaded?.optionsSpec ?? configuredClass?.optionsSpec ?? {};
+  if (!meta) return null;
+
+  const instance = pluginManager.getPlugin(meta.name);
+  const links = pluginManager.getServiceLinks(meta.name);
+  const defaults = Object.fromEntries(
+    Object.entries(optionsSpec).map(([key, spec]) => [key, spec.default ?? null]),
+  );
+
+  return {
+    name: meta.name,
+    description: meta.description,
+    version: meta.version,
+    enabled: pluginManager.isPluginRunning(meta.name),
+    configured: config?.enabled !== false,
+    state: instance?.state ?? 'unloaded',
+    author: meta.author ?? null,
+    dependencies: meta.dependencies ?? [],
+    providesService: links.providesService,
+    consumers: links.consumers,
+    providers: links.providers,
+    options: { ...defaults, ...config?.options },
+    optionsSpec: Object.entries(optionsSpec).map(([name, spec]) => ({
+      name,
+      type: spec.type,
+      description: spec.description,
+      default: spec.default ?? null,
+      required: spec.required ?? false,
+      choices: spec.choices ?? null,
+    })),
+    capabilities: manifest?.capabilities ?? null,
+    stats: describeStats(pluginManager.getPluginStats(meta.name)),
+    error: instance?.error?.message ?? null,
+  };
+}
+
+/**
+ * Rounds handler timings to tenths of a millisecond for the dashboard.
+ */
+function describeStats(stats: PluginRuntimeStats | undefined) {
+  if (!stats) return null;
+
+  const round = (ms: number) => Math.round(ms * 10) / 10;
+  return {
+    ...stats,
+    handlers: stats.handlers.map((handler) => ({
+      ...handler,
+      avgDurationMs: round(handler.avgDurationMs),
+      maxDurationMs: round(handler.maxDurationMs),
+      avgQueueDelayMs: round(handler.avgQueueDelayMs),
+      maxQueueDelayMs: round(handler.maxQueueDelayMs),
+      maxBlockingMs: round(handler.maxBlockingMs),
+    })),
+  };
+}
+
+/**
+ * @param pluginManager - Plugin manager for the server (null if unavailable)
+ * @param pluginInstaller - Installer for uploaded packages (null if unavailable)
+ * @param db - Drizzle database instance
+ * @param serverId - Server whose plugin state is persisted
+ */
+export function createPluginsModule(
+  pluginManager: PluginManager | null,
+  pluginInstaller: PluginInstaller | null,
+  db: DrizzleDB,
+  serverId: string,
+) {
   return new Elysia({ prefix: '/plugins' })
     .use(authGuard)
 
@@ -23,38 +118,10 @@ export function createPluginsModule(pluginManager: PluginManager | null) {
         return { plugins: [] };
       }
 
-      const loadedPlugins = pluginManager.getLoadedPlugins();
-
-      const plugins = loadedPlugins.map((loaded) => {
-        const running = pluginManager.isPluginRunning(loaded.meta.name);
-        const instance = pluginManager.getPlugin(loaded.meta.name);
-
-        return {
-          name: loaded.meta.name,
-          description: loaded.meta.description,
-          version: loaded.meta.version,
-          enabled: running,
-          state: instance?.state ?? 'unloaded',
-          author: loaded.meta.author ?? null,
-          dependencies: loaded.meta.dependencies ?? [],
-          options: instance
-            ? Object.fromEntries(
-                Object.entries(loaded.optionsSpec).map(([key, spec]) => [
-                  key,
-                  spec.default ?? null,
-                ]),
-              )
-            : {},
-          optionSpecs: Object.entries(loaded.optionsSpec).map(([name, spec]) => ({
-            name,
-            type: spec.type,
-            description: spec.description,
-            defaultValue: spec.default ?? null,
-            required: spec.required,
-            choices: spec.choices ?? null,
-          })),
-        };
-      });
+      const plugins = pluginManager
+        .getConfiguredPlugins()
+        .map((name) => describePlugin(pluginManager, name))
+        .filter((plugin) => plugin !== null);
 
       return { plugins };
     })
@@ -68,50 +135,129 @@ export function createPluginsModule(pluginManager: PluginManager | null) {
         return { error: 'Plugin system not initialized' };
       }
 
-      const meta = pluginManager.getPluginMeta(name);
-      if (!meta) {
+      const plugin = describePlugin(pluginManager, name);
+      if (!plugin) {
         set.status = 404;
         return { error: 'Plugin not found' };
       }
 
-      const loaded = pluginManager
-        .getLoadedPlugins()
-        .find((p) => p.meta.name === name);
-      const instance = pluginManager.getPlugin(name);
-      const running = pluginManager.isPluginRunning(name);
-
-      return {
-        name: meta.name,
-        description: meta.description,
-        version: meta.version,
-        enabled: running,
-        state: instance?.state ?? 'unloaded',
-        author: meta.author ?? null,
-        dependencies: meta.dependencies ?? [],
-        options: loaded
-          ? Object.fromEntries(
-              Object.entries(loaded.optionsSpec).map(([key, spec]) => [
-                key,
-                spec.default ?? null,
-              ]),
-            )
-          : {},
-        optionSpecs: loaded
-          ? Object.entries(loaded.optionsSpec).map(([name, spec]) => ({
-              name,
-              type: spec.type,
-              description: spec.description,
-              defaultValue: spec.default ?? null,
-              required: spec.required,
-              choices: spec.choices ?? null,
-            }))
-          : [],
-        error: instance?.error?.message ?? null,
+      return plugin;
+    })
+
+    .post('/install', async ({ body, user, set }) => {
+      const denied = checkPermission(user, 'plugins.manage', set);
+      if (denied) return denied;
+
+      if (!pluginManager || !pluginInstaller) {
+        set.status = 503;
+        return { error: 'Plugin system not initialized' };
+      }
+
+      const manifest = parseManifest(body.manifest);
+      if (!manifest.ok) {
+        set.status = 400;
+        return { error: `Invalid plugin manifest: ${manifest.error.join('; ')}` };
+      }
+
+      // Packages may not replace plugins configured in config.json
+      const { name } = manifest.value.meta;
+      const existing = pluginManager.getPluginConfig(name);
+      if (existing && (typeof existing.plugin !== 'function' || !getPluginManifest(existing.plugin))) {
+        set.status = 409;
+        return { error: `A plugin named ${name} is already configured on this server` };
+      }
+
+      const checked = await pluginInstaller.checkVersion(manifest.value.meta);
+      if (!checked.ok) {
+        set.status = 409;
+        return { error: checked.error.message };
+      }
+
+      // Stop the running version before its files are replaced
+      if (existing) {
+        await pluginManager.stopPlugin(name);
+      }
+
+      let installed: Awaited<ReturnType<PluginInstaller['install']>>;
+      try {
+        installed = await pluginInstaller.install(manifest.value, body.code);
+      } catch (error) {
+        if (existing) await pluginManager.installPlugin(existing);
+        throw error;
+      }
+      if (!installed.ok) {
+        if (existing) await pluginManager.installPlugin(existing);
+        set.status = installed.error.code === ErrorCode.PLUGIN_VERSION_CONFLICT ? 409 : 400;
+        return { error: installed.error.message };
+      }
+
+      // An upgrade that fails to start puts the previous version back
+      const { previousVersion } = installed.value;
+      const rollBack = async () => {
+        if (!existing || previousVersion === null) return false;
+        await pluginInstaller.restorePrevious(name);
+        await pluginManager.installPlugin(existing);
+        return true;
       };
+
+      let result: LifecycleResult;
+      try {
+        result = await pluginManager.installPlugin({
+          plugin: createSandboxedPlugin(installed.value.installed),
+          ...(body.enabled !== undefined && { enabled: body.enabled }),
+        });
+      } catch (error) {
+        await rollBack();
+        throw error;
+      }
+
+      if (!result.success && await rollBack()) {
+        set.status = 500;
+        return {
+          error: `${result.error?.message ?? 'Failed to mount plugin'}; kept version ${previousVersion}`,
+        };
+      }
+      await pluginInstaller.discardPrevious(name);
+
+      const config = pluginManager.getPluginConfig(name);
+      if (config) {
+        await new PluginStateRepository(db).upsert({
+          serverId,
+          pluginName: name,
+          enabled: config.enabled !== false,
+          options: config.options ?? null,
+        });
+      }
+
+      await new AuditRepository(db).insert({
+        userId: user!.id,
+        serverId,
+        action: previousVersion ? 'plugin_upgrade' : 'plugin_install',
+        target: name,
+        details: {
+          version: manifest.value.meta.version,
+          previousVersion,
+          capabilities: manifest.value.capabilities,
+        },
+      });
+
+      if (!result.success) {
+        set.status = 500;
+        return { error: result.error?.message ?? 'Failed to mount plugin' };
+      }
+
+      set.status = previousVersion ? 200 : 201;
+      return describePlugin(pluginManager, name);
+    }, {
+      body: t.Object({
+        manifest: t.Record(t.String(), t.Unknown()),
+        code: t.String({ minLength: 1 }),
+        enabled: t.Optional(t.Boolean()),
+      }),
     })
 
-    .patch('/:name', ({ params: { name }, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+    .patch('/:name', async ({ params: { name }, body, user, set }) => {
+      const denied = checkPermission(user, 'plugins.manage', set);
       if (denied) return denied;
 
       if (!pluginManager) {
@@ -119,20 +265,84 @@ export function createPluginsModule(pluginManager: PluginManager | null) {
         return { error: 'Plugin system not initialized' };
       }
 
-      const meta = pluginManager.getPluginMeta(name);
-      if (!meta) {
+      if (!pluginManager.getPluginConfig(name)) {
         set.status = 404;
         return { error: 'Plugin not found' };
       }
 
-      // NOTE: Hot-reload of plugin options requires PluginManager extension.
-      // For now, return current state.
-      set.status = 501;
-      return { error: 'Plugin configuration updates are not supported yet. Restart the server to apply plugin config changes.' };
+      const result = await pluginManager.reconfigurePlugin(name, {
+        ...(body.enabled !== undefined && { enabled: body.enabled }),
+        ...(body.options !== undefined && { options: body.options }),
+      });
+
+      if (!result.success && result.error?.errorType === PluginErrorType.VALIDATION) {
+        set.status = 400;
+        return { error: result.error.message };
+      }
+
+      // Persist whatever was applied so it survives restarts
+      const config = pluginManager.getPluginConfig(name);
+      if (config) {
+        await new PluginStateRepository(db).upsert({
+          serverId,
+          pluginName: name,
+          enabled: config.enabled !== false,
+          options: config.options ?? null,
+        });
+      }
+
+      await new AuditRepository(db).insert({
+        userId: user!.id,
+        serverId,
+        action: 'plugin_update',
+        target: name,
+        details: { ...body },
+      });
+
+      if (!result.success) {
+        set.status = 500;
+        return { error: result.error?.message ?? 'Failed to remount plugin' };
+      }
+
+      return describePlugin(pluginManager, name);
     }, {
       body: t.Object({
         enabled: t.Optional(t.Boolean()),
         options: t.Optional(t.Record(t.String(), t.Unknown())),
       }),
+    })
+
+    .delete('/:name', async ({ params: { name }, user, set }) => {
+      const denied = checkPermission(user, 'plugins.manage', set);
+      if (denied) return denied;
+
+      if (!pluginManager || !pluginInstaller) {
+        set.status = 503;
+        return { error: 'Plugin system not initialized' };
+      }
+
+      const installed = await pluginInstaller.get(name);
+      if (!installed) {
+        if (pluginManager.getPluginConfig(name)) {
+          set.status = 400;
+          return { error: 'Only installed plugin packages can be uninstalled' };
+        }
+        set.status = 404;
+        return { error: 'Plugin not found' };
+      }
+
+      await pluginManager.uninstallPlugin(name);
+      await pluginInstaller.uninstall(name);
+      await new PluginStateRepository(db).delete(serverId, name);
+
+      await new AuditRepository(db).insert({
+        userId: user!.id,
+        serverId,
+        action: 'plugin_uninstall',
+        target: name,
+        details: { version: installed.manifest.meta.version },
+      });
+
+      return { ok: true };
     });
 }
@@ -7,18 +7,29 @@
  */
 
 import { Elysia, t } from 'elysia';
+import type { RconQueueStatsDTO } from '@squadscript/types';
 
 import type { SquadServer } from '../../../server.js';
 import type { DrizzleDB } from '../../../db/index.js';
 import { AuditRepository } from '../../../db/repositories/audit.repo.js';
-import { authGuard, checkRole } from '../../plugins/auth.js';
+import { authGuard, checkAuth, checkPermission } from '../../plugins/auth.js';
 
 export function createRconModule(squadServer: SquadServer, db: DrizzleDB) {
   return new Elysia({ prefix: '/rcon' })
     .use(authGuard)
 
+    .get('/queue', ({ user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+      const stats: RconQueueStatsDTO = {
+        connected: squadServer.isRunning(),
+        ...squadServer.getRconQueueStats(),
+      };
+      return stats;
+    })
+
     .post('/execute', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'rcon.execute', set);
       if (denied) return denied;
       const result = await squadServer.execute(body.command);
 
@@ -30,6 +41,7 @@ export function createRconModule(squadServer: SquadServer, db: DrizzleDB) {
       const auditRepo = new AuditRepository(db);
       await auditRepo.insert({
         userId: user!.id,
+        serverId: squadServer.id,
         action: 'rcon_command',
         details: { command: body.command, response: result.value },
       });
@@ -46,7 +58,7 @@ export function createRconModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/broadcast', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'rcon.broadcast', set);
       if (denied) return denied;
       const result = await squadServer.broadcast(body.message);
 
@@ -58,6 +70,7 @@ export function createRconModule(squadServer: SquadServer, db: DrizzleDB) {
       const auditRepo = new AuditRepository(db);
       await auditRepo.insert({
         userId: user!.id,
+        serverId: squadServer.id,
         action: 'broadcast',
         details: { message: body.message },
       });
@@ -0,0 +1,72 @@
+/**
+ * @squadscript/server
+ *
+ * Servers controller — /api/servers/*
+ *
+ * Lists the servers hosted by this process and exposes every
+ * server-bound module under `/api/servers/:id/...`, e.g.
+ * `/api/servers/2/players`.
+ *
+ * @module
+ */
+
+import { Elysia } from 'elysia';
+
+import type { DrizzleDB } from '../../../db/index.js';
+import type { ServerApiContext } from '../../index.js';
+import { authGuard, checkAuth } from '../../plugins/auth.js';
+import { createStatusModule } from '../status/index.js';
+import { createPlayersModule } from '../players/index.js';
+import { createBansModule } from '../bans/index.js';
+import { createSquadsModule } from '../squads/index.js';
+import { createRconModule } from '../rcon/index.js';
+import { createLayersModule } from '../layers/index.js';
+import { createPluginsModule } from '../plugins/index.js';
+import { createLogsModule } from '../logs/index.js';
+import { createMatchesModule } from '../matches/index.js';
+import { createParserModule } from '../parser/index.js';
+import { createMetricsModule } from '../metrics/index.js';
+
+/**
+ * Mounts the server-bound modules for a single server.
+ */
+export function createServerScope(context: ServerApiContext, db: DrizzleDB) {
+  const { squadServer, metricsCollector, pluginManager, pluginInstaller, banManager } = context;
+
+  return new Elysia({ prefix: `/servers/${squadServer.id}` })
+    .use(createStatusModule(squadServer, metricsCollector))
+    .use(createPlayersModule(squadServer, banManager, db))
+    .use(createBansModule(banManager, db))
+    .use(createSquadsModule(squadServer, db))
+    .use(createRconModule(squadServer, db))
+    .use(createLayersModule(squadServer, db))
+    .use(createPluginsModule(pluginManager, pluginInstaller, db, squadServer.id))
+    .use(createLogsModule(db, squadServer.id))
+    .use(createMatchesModule(db, squadServer.id))
+    .use(createParserModule(squadServer))
+    .use(createMetricsModule(db, metricsCollector, squadServer.id));
+}
+
+/**
+ * Lists the hosted servers that are up. Their modules are mounted by
+ * createServerScope as each server comes up.
+ */
+export function createServersModule(servers: readonly ServerApiContext[]) {
+  return new Elysia({ prefix: '/servers' })
+    .use(authGuard)
+
+    .get('/', ({ user, set }) => {
+      const denied = checkAuth(user, set);
+      if (denied) return denied;
+
+      return {
+        servers: servers.map(({ squadServer }) => ({
+          id: squadServer.id,
+          name: squadServer.name,
+          state: squadServer.getState(),
+          playerCount: squadServer.playerCount,
+          currentLayer: squadServer.currentLayer?.name ?? null,
+        })),
+      };
+    });
+}
@@ -10,7 +10,7 @@ import { Elysia } from 'elysia';
 
 import type { SquadServer } from '../../../server.js';
 import type { DrizzleDB } from '../../../db/index.js';
-import { authGuard, checkAuth, checkRole } from '../../plugins/auth.js';
+import { authGuard, checkAuth, checkPermission } from '../../plugins/auth.js';
 
 export function createSquadsModule(squadServer: SquadServer, db: DrizzleDB) {
   return new Elysia({ prefix: '/squads' })
@@ -31,7 +31,7 @@ export function createSquadsModule(squadServer: SquadServer, db: DrizzleDB) {
     })
 
     .post('/:teamId/:squadId/disband', async ({ params, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'squads.disband', set);
       if (denied) return denied;
       const command = `AdminDisbandSquad ${params.teamId} ${params.squadId}`;
       const result = await squadServer.execute(command);
@@ -45,6 +45,7 @@ export function createSquadsModule(squadServer: SquadServer, db: DrizzleDB) {
       const auditRepo = new AuditRepository(db);
       await auditRepo.insert({
         userId: user!.id,
+        serverId: squadServer.id,
         action: 'squad_disband',
         target: `${params.teamId}/${params.squadId}`,
       });
@@ -28,10 +28,18 @@ export class StatusService {
           playerCount: serverInfo.playerCount,
           publicQueue: serverInfo.publicQueue,
           reserveQueue: serverInfo.reserveQueue,
+          publicQueueLimit: serverInfo.publicQueueLimit,
+          reserveSlots: serverInfo.reserveSlots,
           currentLayer: serverInfo.currentLayer,
           nextLayer: serverInfo.nextLayer,
           teamOne: serverInfo.teamOne,
           teamTwo: serverInfo.teamTwo,
+          gameMode: serverInfo.gameMode,
+          gameVersion: serverInfo.gameVersion,
+          licensed: serverInfo.licensed,
+          playTime: serverInfo.playTime,
+          matchTimeout: serverInfo.matchTimeout,
+          updatedAt: serverInfo.updatedAt.toISOString(),
         }
       : null;
 
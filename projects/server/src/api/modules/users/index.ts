@@ -10,8 +10,35 @@ import { Elysia, t } from 'elysia';
 
 import type { DrizzleDB } from '../../../db/index.js';
 import { UserRepository } from '../../../db/repositories/user.repo.js';
+import { RoleRepository } from '../../../db/repositories/role.repo.js';
 import { AuthService } from '../auth/service.js';
-import { authGuard, checkRole } from '../../plugins/auth.js';
+import { PERMISSIONS, SUPERUSER_ROLE, isPermission, resolvePermissions } from '../auth/permissions.js';
+import {
+  authGuard,
+  checkAccountAccess,
+  checkGrant,
+  checkPermission,
+  type ElysiaSet,
+} from '../../plugins/auth.js';
+import type { JWTPayload } from '../auth/service.js';
+
+/**
+ * Returns an error response if the role doesn't exist or the user may not
+ * grant it.
+ */
+async function checkAssignableRole(
+  db: DrizzleDB,
+  user: JWTPayload | null,
+  name: string,
+  set: ElysiaSet,
+): Promise<{ error: string } | null> {
+  const role = await new RoleRepository(db).findByName(name);
+  if (!role) {
+    set.status = 400;
+    return { error: `Unknown role: ${name}` };
+  }
+  return checkGrant(user, role.name, resolvePermissions(role.name, role.permissions), set);
+}
 
 export function createUsersModule(db: DrizzleDB) {
   return new Elysia()
@@ -19,7 +46,7 @@ export function createUsersModule(db: DrizzleDB) {
 
     // User CRUD
     .get('/users', async ({ user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'users.manage', set);
       if (denied) return denied;
       const repo = new UserRepository(db);
       const allUsers = await repo.findAll();
@@ -32,7 +59,7 @@ export function createUsersModule(db: DrizzleDB) {
     })
 
     .post('/users', async ({ body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'users.manage', set);
       if (denied) return denied;
       const repo = new UserRepository(db);
 
@@ -42,6 +69,9 @@ export function createUsersModule(db: DrizzleDB) {
         return { error: 'Username already exists' };
       }
 
+      const notAssignable = await checkAssignableRole(db, user, body.role, set);
+      if (notAssignable) return notAssignable;
+
       const hash = await AuthService.hashPassword(body.password);
       const created = await repo.create({
         username: body.username,
@@ -64,15 +94,26 @@ export function createUsersModule(db: DrizzleDB) {
     })
 
     .patch('/users/:id', async ({ params: { id }, body, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'users.manage', set);
       if (denied) return denied;
       const repo = new UserRepository(db);
 
+      const existing = await repo.findById(id);
+      if (!existing) {
+        set.status = 404;
+        return { error: 'User not found' };
+      }
+      const permissions = await AuthService.getRolePermissions(db, existing.role);
+      const noAccess = checkAccountAccess(user, existing, permissions, set);
+      if (noAccess) return noAccess;
+
       const updateData: Partial<{ password: string; role: string }> = {};
       if (body.password) {
         updateData.password = await AuthService.hashPassword(body.password);
       }
       if (body.role) {
+        const notAssignable = await checkAssignableRole(db, user, body.role, set);
+        if (notAssignable) return notAssignable;
         updateData.role = body.role;
       }
 
@@ -96,9 +137,19 @@ export function createUsersModule(db: DrizzleDB) {
     })
 
     .delete('/users/:id', async ({ params: { id }, user, set }) => {
-      const denied = checkRole(user, 'admin', set);
+      const denied = checkPermission(user, 'users.manage', set);
       if (denied) return denied;
       const repo = new UserRepository(db);
+
+      const existing = await repo.findById(id);
+      if (!existing) {
+        set.status = 404;
+        return { error: 'User not found' };
+      }
+      const permissions = await AuthService.getRolePermissions(db, existing.role);
+      const noAccess = checkAccountAccess(user, existing, permissions, set);
+      if (noAccess) return noAccess;
+
       const deleted = await repo.delete(id);
 
       if (!deleted) {
@@ -106,6 +157,93 @@ export function createUsersModule(db: DrizzleDB) {
         return { error: 'User not found' };
       }
 
+      return { ok: true };
+    })
+
+    // Role management
+    .get('/roles', async ({ user, set }) => {
+      const denied = checkPermission(user, 'users.manage', set);
+      if (denied) return denied;
+      const repo = new RoleRepository(db);
+      const allRoles = await repo.findAll();
+      return allRoles.map((r: { name: string; permissions: unknown }) => ({
+        name: r.name,
+        permissions: resolvePermissions(r.name, r.permissions),
+      }));
+    })
+
+    .get('/roles/permissions', ({ user, set }) => {
+      const denied = checkPermission(user, 'users.manage', set);
+      if (denied) return denied;
+      return { permissions: PERMISSIONS };
+    })
+
+    .put('/roles/:name', async ({ params: { name }, body, user, set }) => {
+      const denied = checkPermission(user, 'users.manage', set);
+      if (denied) return denied;
+
+      if (name === SUPERUSER_ROLE) {
+        set.status = 400;
+        return { error: 'The admin role always has every permission' };
+      }
+
+      const unknown = body.permissions.filter((permission) => !isPermission(permission));
+      if (unknown.length > 0) {
+        set.status = 400;
+        return { error: `Unknown permissions: ${unknown.join(', ')}` };
+      }
+
+      const repo = new RoleRepository(db);
+
+      // Editing a role changes what it grants, so both its old and new permissions must be grantable
+      const existing = await repo.findByName(name);
+      const current = existing ? resolvePermissions(existing.name, existing.permissions) : [];
+      const notGrantable = checkGrant(user, name, [...current, ...body.permissions.filter(isPermission)], set);
+      if (notGrantable) return notGrantable;
+
+      const saved = await repo.upsert(name, [...new Set(body.permissions)]);
+
+      return {
+        name: saved.name,
+        permissions: resolvePermissions(saved.name, saved.permissions),
+      };
+    }, {
+      params: t.Object({
+        name: t.String({ pattern: '^[a-z0-9_-]+$', maxLength: 32 }),
+      }),
+      body: t.Object({
+        permissions: t.Array(t.String()),
+      }),
+    })
+
+    .delete('/roles/:name', async ({ params: { name }, user, set }) => {
+      const denied = checkPermission(user, 'users.manage', set);
+      if (denied) return denied;
+
+      if (name === SUPERUSER_ROLE) {
+        set.status = 400;
+        return { error: 'The admin role cannot be deleted' };
+      }
+
+      const existing = await new RoleRepository(db).findByName(name);
+      if (existing) {
+        const notGrantable = checkGrant(user, name, resolvePermissions(existing.name, existing.permissions), set);
+        if (notGrantable) return notGrantable;
+      }
+
+      const assigned = await new UserRepository(db).findByRole(name);
+      if (assigned.length > 0) {
+        set.status = 409;
+        return { error: `Role is assigned to ${assigned.length} user(s)` };
+      }
+
+      const repo = new RoleRepository(db);
+      const deleted = await repo.delete(name);
+      if (!deleted) {
+        set.status = 404;
+        return { error: 'Role not found' };
+      }
+
       return { ok: true };
     });
 }
@@ -13,6 +13,7 @@ import { Elysia } from 'elysia';
 import { bearer } from '@elysiajs/bearer';
 
 import { AuthService, type JWTPayload } from '../modules/auth/service.js';
+import { SUPERUSER_ROLE, type Permission } from '../modules/auth/permissions.js';
 
 /**
  * Elysia plugin that resolves the JWT user from the Authorization header.
@@ -28,7 +29,7 @@ export const authGuard = (app: Elysia) =>
   });
 
 /** Elysia `set` bag — status may be a number or HTTP status string. */
-type ElysiaSet = { status?: number | string };
+export type ElysiaSet = { status?: number | string };
 
 /**
  * Returns an error response if user is not authenticated.
@@ -43,16 +44,85 @@ export function checkAuth(user: JWTPayload | null, set: ElysiaSet): { error: str
 }
 
 /**
- * Returns an error response if user doesn't have the required role.
+ * Returns true if the user's token grants the given permission.
+ * Admins hold every permission.
  */
-export function checkRole(user: JWTPayload | null, role: string, set: ElysiaSet): { error: string } | null {
+export function hasPermission(user: JWTPayload, permission: Permission): boolean {
+  if (user.role === SUPERUSER_ROLE) return true;
+  return user.permissions?.includes(permission) ?? false;
+}
+
+/**
+ * Returns an error response if user doesn't have the required permission.
+ */
+export function checkPermission(
+  user: JWTPayload | null,
+  permission: Permission,
+  set: ElysiaSet,
+): { error: string } | null {
+  if (!user) {
+    set.status = 401;
+    return { error: 'Authentication required' };
+  }
+  if (!hasPermission(user, permission)) {
+    set.status = 403;
+    return { error: `Missing permission: ${permission}` };
+  }
+  return null;
+}
+
+/**
+ * Returns an error response if the user may not hand out a role.
+ *
+ * Only admins may grant the admin role. Everyone else may only grant
+ * roles whose permissions they hold themselves, so managing users can't
+ * be used to gain more permissions.
+ */
+export function checkGrant(
+  user: JWTPayload | null,
+  role: string,
+  permissions: readonly Permission[],
+  set: ElysiaSet,
+): { error: string } | null {
   if (!user) {
     set.status = 401;
     return { error: 'Authentication required' };
   }
-  if (user.role !== role && user.role !== 'admin') {
+  if (user.role === SUPERUSER_ROLE) return null;
+
+  if (role === SUPERUSER_ROLE) {
+    set.status = 403;
+    return { error: 'Only admins may grant the admin role' };
+  }
+  const missing = permissions.filter((permission) => !hasPermission(user, permission));
+  if (missing.length > 0) {
     set.status = 403;
-    return { error: 'Insufficient permissions' };
+    return { error: `Cannot grant permissions you don't have: ${missing.join(', ')}` };
   }
   return null;
 }
+
+/**
+ * Returns an error response if the user may not change the given account.
+ *
+ * Resetting a password or deleting an account takes over or removes its
+ * permissions, so it needs the same as granting its role: admin accounts
+ * only by admins, and other accounts only by users holding every
+ * permission of their role.
+ */
+export function checkAccountAccess(
+  user: JWTPayload | null,
+  account: { readonly role: string },
+  permissions: readonly Permission[],
+  set: ElysiaSet,
+): { error: string } | null {
+  if (!user) {
+    set.status = 401;
+    return { error: 'Authentication required' };
+  }
+  if (account.role === SUPERUSER_ROLE && user.role !== SUPERUSER_ROLE) {
+    set.status = 403;
+    return { error: 'Only admins may change admin accounts' };
+  }
+  return checkGrant(user, account.role, permissions, set);
+}
@@ -13,7 +13,8 @@ import type { MetricsCollector } from '../../metrics/collector.js';
 
 /**
  * Wires SquadServer events to WebSocket broadcasts.
- * Call this once after the server is started.
+ * Call this once per server after it is started; every payload is tagged
+ * with the originating `serverId`.
  */
 export function setupBroadcaster(
   squadServer: SquadServer,
@@ -31,7 +32,7 @@ export function setupBroadcaster(
       broadcastToChannel('players', {
         type: 'event',
         channel: 'players',
-        data: { event: eventName, ...event as Record<string, unknown>, time: new Date().toISOString() },
+        data: { event: eventName, serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
       });
     });
   }
@@ -41,7 +42,7 @@ export function setupBroadcaster(
     broadcastToChannel('squads', {
       type: 'event',
       channel: 'squads',
-      data: { event: 'SQUAD_CREATED', ...event as Record<string, unknown>, time: new Date().toISOString() },
+      data: { event: 'SQUAD_CREATED', serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
     });
   });
 
@@ -50,7 +51,7 @@ export function setupBroadcaster(
     broadcastToChannel('chat', {
       type: 'event',
       channel: 'chat',
-      data: { event: 'CHAT_MESSAGE', ...event as Record<string, unknown>, time: new Date().toISOString() },
+      data: { event: 'CHAT_MESSAGE', serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
     });
   });
 
@@ -66,7 +67,7 @@ export function setupBroadcaster(
       broadcastToChannel('kills', {
         type: 'event',
         channel: 'kills',
-        data: { event: eventName, ...event as Record<string, unknown>, time: new Date().toISOString() },
+        data: { event: eventName, serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
       });
     });
   }
@@ -83,7 +84,7 @@ export function setupBroadcaster(
       broadcastToChannel('game', {
         type: 'event',
         channel: 'game',
-        data: { event: eventName, ...event as Record<string, unknown>, time: new Date().toISOString() },
+        data: { event: eventName, serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
       });
     });
   }
@@ -102,7 +103,7 @@ export function setupBroadcaster(
       broadcastToChannel('admin', {
         type: 'event',
         channel: 'admin',
-        data: { event: eventName, ...event as Record<string, unknown>, time: new Date().toISOString() },
+        data: { event: eventName, serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
       });
     });
   }
@@ -112,7 +113,7 @@ export function setupBroadcaster(
     broadcastToChannel('rcon', {
       type: 'event',
       channel: 'rcon',
-      data: { event: 'RCON_CONNECTED', ...event as Record<string, unknown>, time: new Date().toISOString() },
+      data: { event: 'RCON_CONNECTED', serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
     });
   });
 
@@ -120,7 +121,7 @@ export function setupBroadcaster(
     broadcastToChannel('rcon', {
       type: 'event',
       channel: 'rcon',
-      data: { event: 'RCON_DISCONNECTED', ...event as Record<string, unknown>, time: new Date().toISOString() },
+      data: { event: 'RCON_DISCONNECTED', serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
     });
   });
 
@@ -129,7 +130,7 @@ export function setupBroadcaster(
     broadcastToChannel('metrics', {
       type: 'event',
       channel: 'metrics',
-      data: { event: 'SERVER_TICK_RATE', ...event as Record<string, unknown>, time: new Date().toISOString() },
+      data: { event: 'SERVER_TICK_RATE', serverId: squadServer.id, ...event as Record<string, unknown>, time: new Date().toISOString() },
     });
   });
 
@@ -139,6 +140,7 @@ export function setupBroadcaster(
     broadcastToChannel('metrics', {
       type: 'metrics',
       data: {
+        serverId: squadServer.id,
         playerCount: snapshot.playerCount,
         tickRate: snapshot.tickRate,
         cpuPercent: snapshot.cpuPercent,
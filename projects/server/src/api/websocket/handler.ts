@@ -8,8 +8,7 @@
 
 import { Elysia } from 'elysia';
 
-import type { SquadServer } from '../../server.js';
-import type { MetricsCollector } from '../../metrics/collector.js';
+import type { ServerApiContext } from '../index.js';
 import { AuthService, type JWTPayload } from '../modules/auth/service.js';
 import { StatusService } from '../modules/status/service.js';
 import type { WSChannel, WSClientMessage, WSServerMessage } from './events.js';
@@ -67,9 +66,9 @@ export function broadcastToAll(message: WSServerMessage): void {
 
 /**
  * Creates the ElysiaJS WebSocket handler plugin.
- * Receives server and metrics via closure for the initial state snapshot.
+ * Sends the default server's state as the initial snapshot once it is up.
  */
-export function createWsHandler(squadServer: SquadServer, metricsCollector: MetricsCollector) {
+export function createWsHandler(getDefaultServer: () => ServerApiContext | undefined) {
   return new Elysia()
     .ws('/ws', {
       open(ws) {
@@ -103,8 +102,11 @@ export function createWsHandler(squadServer: SquadServer, metricsCollector: Metr
         clients.set(ws, client);
 
         // Send initial state snapshot
+        const defaultServer = getDefaultServer();
+        if (!defaultServer) return;
+
         try {
-          const state = StatusService.getSnapshot(squadServer, metricsCollector);
+          const state = StatusService.getSnapshot(defaultServer.squadServer, defaultServer.metricsCollector);
           ws.send(JSON.stringify({ type: 'state', data: state } satisfies WSServerMessage));
         } catch {
           // Non-fatal — state may not be ready yet
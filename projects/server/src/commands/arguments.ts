@@ -0,0 +1,269 @@
+/**
+ * @squadscript/server
+ *
+ * Chat command argument parsing.
+ *
+ * Turns the text typed after a command into typed values. Failures are
+ * returned as messages meant for the player who typed the command.
+ *
+ * @module
+ */
+
+import type {
+  ChatCommandArguments,
+  ChatCommandArgumentType,
+  Player,
+  Result,
+} from '@squadscript/types';
+import { Ok, Err } from '@squadscript/types';
+
+/**
+ * Where player and layer arguments are looked up.
+ */
+export interface ArgumentSources {
+  /** Connected players. */
+  players(): readonly Player[];
+
+  /** Layers the server can load. An empty list accepts any layer name. */
+  layers(): Promise<readonly string[]>;
+}
+
+/** Duration units, in milliseconds. */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Words that mean a permanent duration. */
+const PERMANENT = new Set(['0', 'perm', 'permanent', 'forever']);
+
+/** Most candidates listed when a name is ambiguous. */
+const MAX_LISTED = 3;
+
+/**
+ * Parses a duration such as `30m`, `2h`, `1d12h` or `perm`.
+ *
+ * A bare number is taken as minutes.
+ *
+ * @returns Milliseconds (0 for permanent), or null if it isn't a duration
+ */
+export function parseDuration(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  if (PERMANENT.has(value)) {
+    return 0;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value) * DURATION_UNITS.m!;
+  }
+  if (!/^(?:\d+[smhdw])+$/.test(value)) {
+    return null;
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of value.matchAll(/(\d+)([smhdw])/g)) {
+    total += Number(amount) * DURATION_UNITS[unit!]!;
+  }
+  return total > 0 ? total : null;
+}
+
+/**
+ * Finds the players a query refers to.
+ *
+ * An EOS ID, Steam ID or `#playerID` matches exactly. Otherwise an exact
+ * (case-insensitive) name wins over partial matches.
+ */
+export function findPlayers(players: readonly Player[], query: string): Player[] {
+  const byID = players.find((p) =>
+    p.eosID === query || p.steamID === query || `#${p.playerID}` === query,
+  );
+  if (byID) {
+    return [byID];
+  }
+
+  const lower = query.toLowerCase();
+  const exact = players.filter((p) => p.name.toLowerCase() === lower);
+  if (exact.length > 0) {
+    return exact;
+  }
+  return players.filter((p) => p.name.toLowerCase().includes(lower));
+}
+
+/**
+ * Finds the layers a query refers to. An exact (case-insensitive) name
+ * wins over partial matches.
+ */
+export function findLayers(layers: readonly string[], query: string): string[] {
+  const lower = query.toLowerCase();
+  const exact = layers.find((layer) => layer.toLowerCase() === lower);
+  if (exact) {
+    return [exact];
+  }
+  return layers.filter((layer) => layer.toLowerCase().includes(lower));
+}
+
+/**
+ * Picks the candidates closest to a mistyped name.
+ *
+ * @param input - What was typed
+ * @param candidates - Valid names
+ * @param limit - Most suggestions returned
+ */
+export function suggest(input: string, candidates: Iterable<string>, limit = MAX_LISTED): string[] {
+  const lower = input.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(lower.length / 3));
+
+  return [...candidates]
+    .map((candidate) => ({
+      candidate,
+      distance: candidate.startsWith(lower) ? 0 : editDistance(lower, candidate),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Parses command arguments in declaration order.
+ *
+ * Words are separated by spaces; double quotes group a phrase. A `text`
+ * argument takes the rest of the input as typed. Words left over after
+ * the last argument are ignored.
+ *
+ * @param spec - The command's arguments
+ * @param input - Text typed after the command
+ * @param sources - Player and layer lookups
+ * @returns Values by argument name, or a message explaining what's wrong
+ */
+export async function parseArguments(
+  spec: ChatCommandArguments,
+  input: string,
+  sources: ArgumentSources,
+): Promise<Result<Record<string, unknown>, string>> {
+  const values: Record<string, unknown> = {};
+  let rest = input.trim();
+
+  for (const [name, argument] of Object.entries(spec)) {
+    if (rest === '') {
+      if (argument.required !== false) {
+        return Err(`Missing <${name}>.`);
+      }
+      continue;
+    }
+
+    let raw: string;
+    if (argument.type === 'text') {
+      raw = rest;
+      rest = '';
+    } else {
+      [raw, rest] = takeWord(rest);
+    }
+
+    const value = await parseValue(argument.type, raw, sources);
+    if (!value.ok) {
+      return value;
+    }
+    values[name] = value.value;
+  }
+
+  return Ok(values);
+}
+
+/**
+ * Formats the usage line of a command, e.g. `!kick <target> [reason]`.
+ */
+export function formatUsage(prefix: string, name: string, spec: ChatCommandArguments = {}): string {
+  const args = Object.entries(spec).map(([arg, { required }]) =>
+    required === false ? `[${arg}]` : `<${arg}>`,
+  );
+  return [`${prefix}${name}`, ...args].join(' ');
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Splits the first word (or quoted phrase) off the input.
+ */
+function takeWord(input: string): [string, string] {
+  const quoted = /^"([^"]*)"\s*/.exec(input);
+  if (quoted) {
+    return [quoted[1] ?? '', input.slice(quoted[0].length)];
+  }
+  const match = /^(\S+)\s*/.exec(input);
+  return match ? [match[1] ?? '', input.slice(match[0].length)] : ['', ''];
+}
+
+async function parseValue(
+  type: ChatCommandArgumentType,
+  raw: string,
+  sources: ArgumentSources,
+): Promise<Result<unknown, string>> {
+  switch (type) {
+    case 'string':
+    case 'text':
+      return Ok(raw);
+
+    case 'number': {
+      const value = Number(raw);
+      return raw !== '' && Number.isFinite(value) ? Ok(value) : Err(`"${raw}" is not a number.`);
+    }
+
+    case 'duration': {
+      const value = parseDuration(raw);
+      return value === null
+        ? Err(`"${raw}" is not a duration (e.g. 30m, 2h, 1d, perm).`)
+        : Ok(value);
+    }
+
+    case 'player': {
+      const matches = findPlayers(sources.players(), raw);
+      if (matches.length === 1) {
+        return Ok(matches[0]);
+      }
+      return matches.length === 0
+        ? Err(`No player matches "${raw}".`)
+        : Err(`"${raw}" matches ${describeMatches(matches.map((p) => p.name))}.`);
+    }
+
+    case 'layer': {
+      const layers = await sources.layers();
+      if (layers.length === 0) {
+        return Ok(raw);
+      }
+      const matches = findLayers(layers, raw);
+      if (matches.length === 1) {
+        return Ok(matches[0]);
+      }
+      return matches.length === 0
+        ? Err(`Unknown layer "${raw}".`)
+        : Err(`"${raw}" matches ${describeMatches(matches)}.`);
+    }
+  }
+}
+
+function describeMatches(names: readonly string[]): string {
+  const listed = names.slice(0, MAX_LISTED).join(', ');
+  const more = names.length - MAX_LISTED;
+  return more > 0 ? `${listed} and ${more} more` : listed;
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1]! + 1, previous[j]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
@@ -0,0 +1,23 @@
+/**
+ * @squadscript/server
+ *
+ * Chat commands module exports.
+ *
+ * @module
+ */
+
+export {
+  CommandRegistry,
+  type CommandRegistryOptions,
+  type RegisteredCommand,
+} from './registry.js';
+
+export {
+  parseArguments,
+  parseDuration,
+  findPlayers,
+  findLayers,
+  suggest,
+  formatUsage,
+  type ArgumentSources,
+} from './arguments.js';
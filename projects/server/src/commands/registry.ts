@@ -0,0 +1,393 @@
+/**
+ * @squadscript/server
+ *
+ * Chat command registry.
+ *
+ * Plugins register commands here instead of parsing CHAT_COMMAND
+ * themselves. For each command typed in chat the registry checks the
+ * channel, the caller's admin permission and the cooldown, parses the
+ * arguments and runs the handler, replying to the caller when any of
+ * those fail. Unknown commands get "did you mean" suggestions, and a
+ * built-in `!help` lists what the caller may run.
+ *
+ * @module
+ */
+
+import type { ModuleLogger } from '@squadscript/logger';
+import type {
+  ChatCommandArguments,
+  ChatCommandDefinition,
+  ChatCommandEvent,
+  ChatCommandInvocation,
+  Player,
+  Result,
+  Unsubscribe,
+} from '@squadscript/types';
+import { Ok, Err } from '@squadscript/types';
+import { ErrorCode, SquadServerError } from '../errors.js';
+import { formatUsage, parseArguments, suggest, type ArgumentSources } from './arguments.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for creating a CommandRegistry.
+ */
+export interface CommandRegistryOptions {
+  /** Logger instance. */
+  readonly logger: ModuleLogger;
+
+  /** Player and layer lookups for arguments. */
+  readonly sources: ArgumentSources;
+
+  /** Checks a player's Squad admin permission. */
+  hasPermission(player: Player, permission: string): boolean;
+
+  /** Sends a message to a single player. */
+  reply(player: Player, message: string): Promise<void>;
+
+  /** Prefix shown in usage and help text (default: '!'). */
+  readonly prefix?: string | undefined;
+
+  /** Register the built-in `help` command (default: true). */
+  readonly help?: boolean | undefined;
+
+  /** Suggest close matches for unknown commands (default: true). */
+  readonly suggestions?: boolean | undefined;
+}
+
+/**
+ * A command in the registry.
+ */
+export interface RegisteredCommand {
+  /** The command as registered. */
+  readonly definition: ChatCommandDefinition;
+
+  /** Who registered it: a plugin name, or 'server' for built-ins. */
+  readonly owner: string;
+
+  /** Usage line, e.g. `!kick <target> [reason]`. */
+  readonly usage: string;
+}
+
+/** Names must be a single word. */
+const COMMAND_NAME = /^[a-z0-9_-]+$/;
+
+/** Longest reply sent in one warning; longer help is split. */
+const MAX_REPLY_LENGTH = 200;
+
+// =============================================================================
+// CommandRegistry Class
+// =============================================================================
+
+/**
+ * Dispatches chat commands to registered handlers.
+ *
+ * @example
+ * ```typescript
+ * const registry = new CommandRegistry({ logger, sources, hasPermission, reply });
+ *
+ * registry.register({
+ *   name: 'kick',
+ *   permission: 'kick',
+ *   args: { target: { type: 'player' }, reason: { type: 'text' } },
+ *   handler: ({ args }) => rcon.kick(args.target.eosID, args.reason),
+ * }, 'Moderation');
+ *
+ * server.on('CHAT_COMMAND', (event) => registry.handle(event));
+ * ```
+ */
+export class CommandRegistry {
+  private readonly log: ModuleLogger;
+  private readonly sources: ArgumentSources;
+  private readonly prefix: string;
+  private readonly suggestions: boolean;
+
+  /** Commands by name. */
+  private readonly commands = new Map<string, RegisteredCommand>();
+
+  /** Commands by name and alias. */
+  private readonly lookup = new Map<string, RegisteredCommand>();
+
+  /** Last use per command and player, for cooldowns. */
+  private readonly lastUsed = new Map<string, number>();
+
+  constructor(private readonly options: CommandRegistryOptions) {
+    this.log = options.logger;
+    this.sources = options.sources;
+    this.prefix = options.prefix ?? '!';
+    this.suggestions = options.suggestions ?? true;
+
+    if (options.help ?? true) {
+      this.registerHelp();
+    }
+  }
+
+  /**
+   * Adds a command.
+   *
+   * @param definition - The command
+   * @param owner - Plugin name, shown in logs
+   * @returns Function that removes the command again
+   */
+  register<TArgs extends ChatCommandArguments>(
+    definition: ChatCommandDefinition<TArgs>,
+    owner = 'server',
+  ): Result<Unsubscribe, SquadServerError> {
+    const command: ChatCommandDefinition = definition;
+    const names = [command.name, ...(command.aliases ?? [])].map((name) => name.toLowerCase());
+
+    const invalid = this.validate(command, names);
+    if (invalid) {
+      return Err(new SquadServerError(ErrorCode.CHAT_COMMAND_INVALID, invalid, { command: command.name, owner }));
+    }
+
+    const entry: RegisteredCommand = {
+      definition: command,
+      owner,
+      usage: formatUsage(this.prefix, names[0]!, command.args),
+    };
+    this.commands.set(names[0]!, entry);
+    for (const name of names) {
+      this.lookup.set(name, entry);
+    }
+    this.log.debug(`Registered command ${this.prefix}${names[0]} (${owner})`);
+
+    let removed = false;
+    return Ok(() => {
+      if (removed) return;
+      removed = true;
+      this.unregister(entry, names);
+    });
+  }
+
+  /**
+   * Returns the registered commands, sorted by name.
+   */
+  list(): readonly RegisteredCommand[] {
+    return [...this.commands.values()].sort((a, b) => a.definition.name.localeCompare(b.definition.name));
+  }
+
+  /**
+   * Runs the command a chat event refers to.
+   *
+   * @param event - The CHAT_COMMAND event
+   * @returns Whether a registered command handled the event
+   */
+  async handle(event: ChatCommandEvent): Promise<boolean> {
+    const entry = this.lookup.get(event.command);
+    if (!entry) {
+      await this.suggestFor(event);
+      return false;
+    }
+
+    const { definition } = entry;
+    const name = definition.name.toLowerCase();
+
+    if (definition.channels && !definition.channels.includes(event.channel)) {
+      return false;
+    }
+
+    if (!this.canRun(event.player, entry)) {
+      await this.reply(event.player, `You do not have permission to use ${this.prefix}${name}.`);
+      return true;
+    }
+
+    const cooldownKey = `${name}:${event.player.eosID}`;
+    const remaining = this.cooldownRemaining(cooldownKey, definition.cooldown);
+    if (remaining > 0) {
+      await this.reply(
+        event.player,
+        `Please wait ${Math.ceil(remaining / 1000)}s before using ${this.prefix}${name} again.`,
+      );
+      return true;
+    }
+
+    const args = await parseArguments(definition.args ?? {}, event.args, this.sources);
+    if (!args.ok) {
+      await this.reply(event.player, `${args.error} Usage: ${entry.usage}`);
+      return true;
+    }
+
+    if (definition.cooldown) {
+      this.lastUsed.set(cooldownKey, Date.now());
+    }
+
+    const invocation: ChatCommandInvocation = {
+      player: event.player,
+      channel: event.channel,
+      command: name,
+      args: args.value as ChatCommandInvocation['args'],
+      rawArgs: event.args,
+      event,
+      reply: (message) => this.options.reply(event.player, message),
+    };
+
+    try {
+      await definition.handler(invocation);
+    } catch (error) {
+      this.log.error(
+        `Command ${this.prefix}${name} (${entry.owner}) failed`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      await this.reply(event.player, `${this.prefix}${name} failed. Please try again later.`);
+    }
+    return true;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Returns why a definition can't be registered, or null if it can.
+   */
+  private validate(definition: ChatCommandDefinition, names: readonly string[]): string | null {
+    for (const name of names) {
+      if (!COMMAND_NAME.test(name)) {
+        return `Invalid command name "${name}"`;
+      }
+      const existing = this.lookup.get(name);
+      if (existing) {
+        return `Command "${name}" is already registered by ${existing.owner}`;
+      }
+    }
+    if (new Set(names).size !== names.length) {
+      return `Command "${names[0]}" lists a name twice`;
+    }
+
+    const args = Object.entries(definition.args ?? {});
+    const textIndex = args.findIndex(([, arg]) => arg.type === 'text');
+    if (textIndex !== -1 && textIndex !== args.length - 1) {
+      return `Text argument "${args[textIndex]?.[0]}" must be the last argument`;
+    }
+    return null;
+  }
+
+  private unregister(entry: RegisteredCommand, names: readonly string[]): void {
+    for (const name of names) {
+      if (this.lookup.get(name) === entry) {
+        this.lookup.delete(name);
+      }
+    }
+    if (this.commands.get(names[0]!) === entry) {
+      this.commands.delete(names[0]!);
+    }
+    for (const key of this.lastUsed.keys()) {
+      if (key.startsWith(`${names[0]}:`)) {
+        this.lastUsed.delete(key);
+      }
+    }
+    this.log.debug(`Removed command ${this.prefix}${names[0]} (${entry.owner})`);
+  }
+
+  private canRun(player: Player, entry: RegisteredCommand): boolean {
+    const { permission } = entry.definition;
+    return !permission || this.options.hasPermission(player, permission);
+  }
+
+  private cooldownRemaining(key: string, cooldown: number | undefined): number {
+    const last = this.lastUsed.get(key);
+    if (!cooldown || last === undefined) {
+      return 0;
+    }
+    return Math.max(0, last + cooldown - Date.now());
+  }
+
+  /**
+   * Tells the caller about commands close to the one they typed, if any.
+   */
+  private async suggestFor(event: ChatCommandEvent): Promise<void> {
+    if (!this.suggestions) {
+      return;
+    }
+
+    const candidates = this.list()
+      .filter((entry) => this.canRun(event.player, entry))
+      .map((entry) => entry.definition.name.toLowerCase());
+    const matches = suggest(event.command, candidates);
+    if (matches.length > 0) {
+      const names = matches.map((name) => `${this.prefix}${name}`).join(', ');
+      await this.reply(event.player, `Unknown command ${this.prefix}${event.command}. Did you mean ${names}?`);
+    }
+  }
+
+  /**
+   * Registers `help`, which lists the commands the caller may run or
+   * describes one of them.
+   */
+  private registerHelp(): void {
+    this.register({
+      name: 'help',
+      aliases: ['commands'],
+      description: 'List commands, or show how to use one',
+      args: { command: { type: 'string', required: false } },
+      handler: async ({ player, args, reply }) => {
+        if (args.command) {
+          const name = args.command.replace(this.prefix, '').toLowerCase();
+          const entry = this.lookup.get(name);
+          if (!entry || !this.canRun(player, entry)) {
+            await reply(`Unknown command ${this.prefix}${name}.`);
+            return;
+          }
+          await reply(this.describe(entry));
+          return;
+        }
+
+        const names = this.list()
+          .filter((entry) => this.canRun(player, entry))
+          .map((entry) => `${this.prefix}${entry.definition.name.toLowerCase()}`);
+        for (const message of chunk(`Commands: ${names.join(', ')}`, MAX_REPLY_LENGTH)) {
+          await reply(message);
+        }
+      },
+    });
+  }
+
+  private describe(entry: RegisteredCommand): string {
+    const { description, aliases, args = {} } = entry.definition;
+    const lines = [entry.usage];
+    if (description) {
+      lines.push(description);
+    }
+    for (const [name, arg] of Object.entries(args)) {
+      if (arg.description) {
+        lines.push(`${name}: ${arg.description}`);
+      }
+    }
+    if (aliases && aliases.length > 0) {
+      lines.push(`Aliases: ${aliases.map((alias) => `${this.prefix}${alias.toLowerCase()}`).join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  private async reply(player: Player, message: string): Promise<void> {
+    try {
+      await this.options.reply(player, message);
+    } catch (error) {
+      this.log.debug(`Failed to reply to ${player.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Splits a comma-separated list into messages of at most `max` characters.
+ */
+function chunk(text: string, max: number): string[] {
+  const messages: string[] = [];
+  let current = '';
+  for (const part of text.split(', ')) {
+    const next = current ? `${current}, ${part}` : part;
+    if (next.length > max && current) {
+      messages.push(current);
+      current = part;
+    } else {
+      current = next;
+    }
+  }
+  if (current) {
+    messages.push(current);
+  }
+  return messages;
+}
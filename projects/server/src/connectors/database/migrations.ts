@@ -0,0 +1,88 @@
+/**
+ * @squadscript/server
+ *
+ * Schema migrations for DatabaseConnector-backed plugins.
+ *
+ * Plugins that own tables in a connector database (such as DBLog) ship
+ * an ordered list of migrations with DDL per dialect. Applied migrations
+ * are recorded in `squadscript_migrations`, keyed by namespace, so each
+ * runs exactly once per database.
+ *
+ * @module
+ */
+
+import type { DatabaseConnector } from '@squadscript/types';
+
+/**
+ * A single schema migration.
+ */
+export interface ConnectorMigration {
+  /** Unique name within the namespace, e.g. `001_initial`. */
+  readonly name: string;
+
+  /** Statements to run, keyed by connector dialect. */
+  readonly up: Readonly<Partial<Record<string, readonly string[]>>>;
+}
+
+/** Table that records applied migrations. */
+const MIGRATIONS_TABLE = 'squadscript_migrations';
+
+/**
+ * Applies pending migrations in order.
+ *
+ * Each migration runs in its own transaction together with the record
+ * of it being applied, so a failing migration leaves no partial schema.
+ *
+ * @param db - Connected database connector
+ * @param namespace - Owner of the migrations (usually the plugin name)
+ * @param migrations - Migrations in the order they must be applied
+ * @returns Number of migrations applied
+ * @throws {Error} If a pending migration has no statements for the connector's dialect
+ */
+export async function runConnectorMigrations(
+  db: DatabaseConnector,
+  namespace: string,
+  migrations: readonly ConnectorMigration[],
+): Promise<number> {
+  const dialect = db.dialect ?? 'unknown';
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      namespace TEXT NOT NULL,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL,
+      PRIMARY KEY (namespace, name)
+    )`,
+  );
+
+  const applied = await db.query<{ name: string }>(
+    `SELECT name FROM ${MIGRATIONS_TABLE} WHERE namespace = ?`,
+    [namespace],
+  );
+  const appliedNames = new Set(applied.rows.map((row) => row.name));
+
+  let count = 0;
+  for (const migration of migrations) {
+    if (appliedNames.has(migration.name)) continue;
+
+    const statements = migration.up[dialect];
+    if (!statements) {
+      throw new Error(
+        `Migration ${namespace}/${migration.name} does not support the "${dialect}" dialect`,
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      for (const statement of statements) {
+        await tx.query(statement);
+      }
+      await tx.query(
+        `INSERT INTO ${MIGRATIONS_TABLE} (namespace, name, applied_at) VALUES (?, ?, ?)`,
+        [namespace, migration.name, new Date().toISOString()],
+      );
+    });
+    count++;
+  }
+
+  return count;
+}
@@ -0,0 +1,201 @@
+/**
+ * @squadscript/server
+ *
+ * Built-in PostgreSQL database connector backed by Bun's SQL client.
+ *
+ * Queries use the `?` placeholders of the DatabaseConnector contract,
+ * which are rewritten to Postgres' `$1, $2, ...` before execution. When
+ * no URL is configured the connector uses `DATABASE_URL`, so plugins
+ * can share the database that backs the dashboard.
+ *
+ * @module
+ */
+
+import { SQL } from 'bun';
+import type { ModuleLogger } from '@squadscript/logger';
+import type { DatabaseConnector, DatabaseQueryResult } from '@squadscript/types';
+
+import type { ConnectorFactory } from '../../plugins/connector-registry.js';
+
+/**
+ * Postgres connector options.
+ */
+export interface PostgresConnectorOptions {
+  /** Connection URL. Defaults to the `DATABASE_URL` environment variable. */
+  readonly url?: string | undefined;
+
+  /** Maximum pool size. */
+  readonly max?: number | undefined;
+}
+
+/** Minimal surface shared by the pool and transaction handles. */
+type SqlExecutor = Pick<SQL, 'unsafe'>;
+
+/**
+ * Rewrites `?` placeholders to `$n`, leaving string literals,
+ * quoted identifiers and comments untouched.
+ *
+ * @param sql - Query using `?` placeholders
+ * @returns Query using numbered placeholders
+ */
+export function toPostgresPlaceholders(sql: string): string {
+  let result = '';
+  let index = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i]!;
+
+    if (quote) {
+      result += char;
+      if (quote === '--' && char === '\n') quote = null;
+      else if (quote === '/*' && char === '/' && sql[i - 1] === '*') quote = null;
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '-' && sql[i + 1] === '-') {
+      quote = '--';
+    } else if (char === '/' && sql[i + 1] === '*') {
+      quote = '/*';
+    } else if (char === '?') {
+      result += `$${++index}`;
+      continue;
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * PostgreSQL implementation of DatabaseConnector.
+ *
+ * @example
+ * ```typescript
+ * const db = new PostgresConnector('database', { url: process.env.DATABASE_URL }, logger);
+ * await db.connect();
+ * await db.query('INSERT INTO servers (id, name) VALUES (?, ?)', [1, 'EU #1']);
+ * ```
+ */
+export class PostgresConnector implements DatabaseConnector {
+  readonly name: string;
+  readonly dialect = 'postgres';
+
+  private readonly options: PostgresConnectorOptions;
+  private readonly logger: ModuleLogger;
+  private sql: SQL | null = null;
+
+  constructor(name: string, options: PostgresConnectorOptions, logger: ModuleLogger) {
+    this.name = name;
+    this.options = options;
+    this.logger = logger;
+  }
+
+  get isConnected(): boolean {
+    return this.sql !== null;
+  }
+
+  async connect(): Promise<void> {
+    const url = this.options.url ?? process.env.DATABASE_URL;
+    if (!url) {
+      throw new Error(`Postgres connector "${this.name}" has no URL and DATABASE_URL is not set`);
+    }
+
+    const sql = new SQL({
+      url,
+      ...(this.options.max !== undefined && { max: this.options.max }),
+    });
+    await sql.connect();
+    this.sql = sql;
+    this.logger.info('Connected to Postgres');
+  }
+
+  async disconnect(): Promise<void> {
+    await this.sql?.close();
+    this.sql = null;
+  }
+
+  async query<T = unknown>(
+    sql: string,
+    params: readonly unknown[] = [],
+  ): Promise<DatabaseQueryResult<T>> {
+    return runQuery<T>(this.getClient(), sql, params);
+  }
+
+  async queryOne<T = unknown>(
+    sql: string,
+    params: readonly unknown[] = [],
+  ): Promise<T | undefined> {
+    const result = await this.query<T>(sql, params);
+    return result.rows[0];
+  }
+
+  async transaction<T>(fn: (tx: DatabaseConnector) => Promise<T>): Promise<T> {
+    return this.getClient().begin(async (tx) => fn(this.createTransactionScope(tx))) as Promise<T>;
+  }
+
+  private getClient(): SQL {
+    if (!this.sql) {
+      throw new Error(`Postgres connector "${this.name}" is not connected`);
+    }
+    return this.sql;
+  }
+
+  /**
+   * Connector view bound to a transaction handle.
+   * Nested transactions run inline in the outer one.
+   */
+  private createTransactionScope(tx: SqlExecutor): DatabaseConnector {
+    const scope: DatabaseConnector = {
+      name: this.name,
+      dialect: this.dialect,
+      get isConnected() {
+        return true;
+      },
+      connect: async () => {},
+      disconnect: async () => {},
+      query: async <R>(sql: string, params?: readonly unknown[]) => runQuery<R>(tx, sql, params),
+      queryOne: async <R>(sql: string, params?: readonly unknown[]) =>
+        (await runQuery<R>(tx, sql, params)).rows[0],
+      transaction: async <R>(fn: (inner: DatabaseConnector) => Promise<R>) => fn(scope),
+    };
+    return scope;
+  }
+}
+
+/**
+ * Executes a query on a pool or transaction handle.
+ */
+async function runQuery<T>(
+  client: SqlExecutor,
+  sql: string,
+  params: readonly unknown[] = [],
+): Promise<DatabaseQueryResult<T>> {
+  const rows = (await client.unsafe(toPostgresPlaceholders(sql), [...params])) as T[] & {
+    count?: number | null;
+  };
+
+  return {
+    rows: [...rows],
+    ...(typeof rows.count === 'number' && { affectedRows: rows.count }),
+  };
+}
+
+/**
+ * Connector factory for `type: 'postgres'` config entries.
+ */
+export const createPostgresConnector: ConnectorFactory<PostgresConnector> = async (
+  config,
+  logger,
+) => {
+  const { url, max } = config.options;
+
+  return new PostgresConnector(config.name, {
+    url: typeof url === 'string' ? url : undefined,
+    max: typeof max === 'number' ? max : undefined,
+  }, logger);
+};
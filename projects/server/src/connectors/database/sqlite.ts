@@ -0,0 +1,182 @@
+/**
+ * @squadscript/server
+ *
+ * Built-in SQLite database connector backed by `bun:sqlite`.
+ *
+ * SQLite has a single connection, so transactions hold an async lock:
+ * queries issued outside the transaction wait until it commits or rolls
+ * back instead of leaking into it.
+ *
+ * @module
+ */
+
+import { Database, type SQLQueryBindings } from 'bun:sqlite';
+import type { ModuleLogger } from '@squadscript/logger';
+import type { DatabaseConnector, DatabaseQueryResult } from '@squadscript/types';
+
+import type { ConnectorFactory } from '../../plugins/connector-registry.js';
+
+/**
+ * SQLite connector options.
+ */
+export interface SqliteConnectorOptions {
+  /** Database file path, or `:memory:`. */
+  readonly path: string;
+}
+
+/**
+ * Converts JS values into values bun:sqlite can bind.
+ */
+function toSqliteParam(value: unknown): SQLQueryBindings {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'object' && value !== null && !(value instanceof Uint8Array)) {
+    return JSON.stringify(value);
+  }
+  return value as SQLQueryBindings;
+}
+
+/**
+ * SQLite implementation of DatabaseConnector.
+ *
+ * @example
+ * ```typescript
+ * const db = new SqliteConnector('database', { path: './squadscript.sqlite' }, logger);
+ * await db.connect();
+ * const player = await db.queryOne('SELECT * FROM players WHERE eos_id = ?', [eosID]);
+ * ```
+ */
+export class SqliteConnector implements DatabaseConnector {
+  readonly name: string;
+  readonly dialect = 'sqlite';
+
+  private readonly options: SqliteConnectorOptions;
+  private readonly logger: ModuleLogger;
+  private db: Database | null = null;
+
+  /** Tail of the transaction lock chain. */
+  private lock: Promise<void> = Promise.resolve();
+
+  constructor(name: string, options: SqliteConnectorOptions, logger: ModuleLogger) {
+    this.name = name;
+    this.options = options;
+    this.logger = logger;
+  }
+
+  get isConnected(): boolean {
+    return this.db !== null;
+  }
+
+  async connect(): Promise<void> {
+    this.db = new Database(this.options.path, { create: true, strict: true });
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec('PRAGMA foreign_keys = ON;');
+    this.logger.info(`Opened SQLite database: ${this.options.path}`);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.lock;
+    this.db?.close();
+    this.db = null;
+  }
+
+  async query<T = unknown>(
+    sql: string,
+    params: readonly unknown[] = [],
+  ): Promise<DatabaseQueryResult<T>> {
+    await this.lock;
+    return this.execute<T>(sql, params);
+  }
+
+  async queryOne<T = unknown>(
+    sql: string,
+    params: readonly unknown[] = [],
+  ): Promise<T | undefined> {
+    const result = await this.query<T>(sql, params);
+    return result.rows[0];
+  }
+
+  async transaction<T>(fn: (tx: DatabaseConnector) => Promise<T>): Promise<T> {
+    const previous = this.lock;
+    let release!: () => void;
+    this.lock = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      this.execute('BEGIN');
+      try {
+        const result = await fn(this.createTransactionScope());
+        this.execute('COMMIT');
+        return result;
+      } catch (error) {
+        this.execute('ROLLBACK');
+        throw error;
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Runs a statement immediately, bypassing the transaction lock.
+   */
+  private execute<T>(sql: string, params: readonly unknown[] = []): DatabaseQueryResult<T> {
+    if (!this.db) {
+      throw new Error(`SQLite connector "${this.name}" is not connected`);
+    }
+
+    const statement = this.db.prepare(sql);
+    try {
+      const bindings = params.map(toSqliteParam);
+
+      // Statements that produce columns (SELECT, RETURNING) yield rows
+      if (statement.columnNames.length > 0) {
+        return { rows: statement.all(...bindings) as T[] };
+      }
+
+      const { changes } = statement.run(...bindings);
+      return { rows: [], affectedRows: changes };
+    } finally {
+      statement.finalize();
+    }
+  }
+
+  /**
+   * Connector view used inside a transaction.
+   * Nested transactions run inline in the outer one.
+   */
+  private createTransactionScope(): DatabaseConnector {
+    const scope: DatabaseConnector = {
+      name: this.name,
+      dialect: this.dialect,
+      get isConnected() {
+        return true;
+      },
+      connect: async () => {},
+      disconnect: async () => {},
+      query: async <R>(sql: string, params?: readonly unknown[]) => this.execute<R>(sql, params),
+      queryOne: async <R>(sql: string, params?: readonly unknown[]) =>
+        this.execute<R>(sql, params).rows[0],
+      transaction: async <R>(fn: (tx: DatabaseConnector) => Promise<R>) => fn(scope),
+    };
+    return scope;
+  }
+}
+
+/**
+ * Connector factory for `type: 'sqlite'` config entries.
+ *
+ * @throws {Error} If no database path is configured
+ */
+export const createSqliteConnector: ConnectorFactory<SqliteConnector> = async (config, logger) => {
+  const { path } = config.options;
+
+  if (typeof path !== 'string' || path.length === 0) {
+    throw new Error(`SQLite connector "${config.name}" requires a database path`);
+  }
+
+  return new SqliteConnector(config.name, { path }, logger);
+};
@@ -0,0 +1,274 @@
+/**
+ * @squadscript/server
+ *
+ * Built-in Discord connector.
+ *
+ * Implements the DiscordConnector interface on top of the Discord REST
+ * API and gateway without third-party dependencies. Channels are cached
+ * from GUILD_CREATE and CHANNEL_* dispatches so `getChannel()` stays
+ * synchronous, and MESSAGE_CREATE dispatches are fanned out to
+ * `onMessage()` handlers.
+ *
+ * @module
+ */
+
+import type { ModuleLogger } from '@squadscript/logger';
+import type { DiscordConnector, DiscordMessageOptions } from '@squadscript/types';
+
+import type { ConnectorFactory } from '../../plugins/connector-registry.js';
+import { DiscordGateway } from './gateway.js';
+import { DiscordRestClient } from './rest.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Discord connector options (the `connectors.<name>` config entry).
+ */
+export interface DiscordClientOptions {
+  /** Bot token. */
+  readonly token: string;
+
+  /** Restrict channels and messages to this guild. */
+  readonly guildId?: string | undefined;
+
+  /** Gateway intents bitfield override. */
+  readonly intents?: number | undefined;
+
+  /** REST API base URL override (used by tests). */
+  readonly apiBaseUrl?: string | undefined;
+
+  /** Gateway URL override; skips `GET /gateway/bot` (used by tests). */
+  readonly gatewayUrl?: string | undefined;
+
+  /** Maximum time to wait for READY in milliseconds. */
+  readonly readyTimeout?: number | undefined;
+}
+
+/**
+ * Cached channel information returned by `getChannel()`.
+ */
+export interface DiscordChannel {
+  readonly id: string;
+  readonly name: string | undefined;
+  readonly type: number;
+  readonly guildId: string | undefined;
+}
+
+/**
+ * Incoming message passed to `onMessage()` handlers.
+ */
+type DiscordMessageHandler = Parameters<DiscordConnector['onMessage']>[0];
+
+/** Channel shape in gateway payloads. */
+interface RawChannel {
+  id: string;
+  name?: string;
+  type: number;
+  guild_id?: string;
+}
+
+/** MESSAGE_CREATE payload fields we use. */
+interface RawMessage {
+  channel_id: string;
+  guild_id?: string;
+  content: string;
+  author: { id: string; username: string; global_name?: string | null; bot?: boolean };
+}
+
+// =============================================================================
+// Connector
+// =============================================================================
+
+/**
+ * Discord connector backed by the Discord gateway and REST API.
+ *
+ * @example
+ * ```typescript
+ * const discord = new DiscordClient('discord', { token }, logger);
+ * await discord.connect();
+ * await discord.sendMessage(channelId, { embed: { title: 'Round ended' } });
+ * ```
+ */
+export class DiscordClient implements DiscordConnector {
+  readonly name: string;
+
+  private readonly options: DiscordClientOptions;
+  private readonly logger: ModuleLogger;
+  private readonly rest: DiscordRestClient;
+  private gateway: DiscordGateway | null = null;
+
+  private readonly channels = new Map<string, DiscordChannel>();
+  private readonly messageHandlers = new Set<DiscordMessageHandler>();
+
+  /** Bot user ID, used to ignore our own messages. */
+  private userId: string | null = null;
+
+  constructor(name: string, options: DiscordClientOptions, logger: ModuleLogger) {
+    this.name = name;
+    this.options = options;
+    this.logger = logger;
+    this.rest = new DiscordRestClient({
+      token: options.token,
+      apiBaseUrl: options.apiBaseUrl,
+      logger,
+    });
+  }
+
+  get isConnected(): boolean {
+    return this.gateway?.isReady ?? false;
+  }
+
+  async connect(): Promise<void> {
+    const url = this.options.gatewayUrl
+      ?? (await this.rest.request<{ url: string }>('GET', '/gateway/bot')).url;
+
+    this.gateway = new DiscordGateway({
+      token: this.options.token,
+      url,
+      intents: this.options.intents,
+      onDispatch: (event, data) => this.handleDispatch(event, data),
+      logger: this.logger,
+    });
+
+    await this.gateway.connect(this.options.readyTimeout);
+    this.logger.info('Discord connector ready');
+  }
+
+  async disconnect(): Promise<void> {
+    this.gateway?.disconnect();
+    this.gateway = null;
+    this.channels.clear();
+  }
+
+  async sendMessage(channelId: string, message: string | DiscordMessageOptions): Promise<void> {
+    await this.rest.request('POST', `/channels/${channelId}/messages`, toMessagePayload(message));
+  }
+
+  getChannel(channelId: string): DiscordChannel | undefined {
+    return this.channels.get(channelId);
+  }
+
+  onMessage(handler: DiscordMessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  // ===========================================================================
+  // Internal - Dispatch
+  // ===========================================================================
+
+  private handleDispatch(event: string, data: unknown): void {
+    switch (event) {
+      case 'READY':
+        this.userId = (data as { user: { id: string } }).user.id;
+        break;
+
+      case 'GUILD_CREATE': {
+        const guild = data as { id: string; channels?: RawChannel[] };
+        if (!this.isWatchedGuild(guild.id)) break;
+        for (const channel of guild.channels ?? []) {
+          this.cacheChannel({ ...channel, guild_id: guild.id });
+        }
+        break;
+      }
+
+      case 'CHANNEL_CREATE':
+      case 'CHANNEL_UPDATE': {
+        const channel = data as RawChannel;
+        if (this.isWatchedGuild(channel.guild_id)) {
+          this.cacheChannel(channel);
+        }
+        break;
+      }
+
+      case 'CHANNEL_DELETE':
+        this.channels.delete((data as RawChannel).id);
+        break;
+
+      case 'MESSAGE_CREATE':
+        this.handleMessage(data as RawMessage);
+        break;
+    }
+  }
+
+  private handleMessage(message: RawMessage): void {
+    if (message.author.id === this.userId || !this.isWatchedGuild(message.guild_id)) {
+      return;
+    }
+
+    const payload = {
+      channelId: message.channel_id,
+      authorId: message.author.id,
+      authorName: message.author.global_name ?? message.author.username,
+      content: message.content,
+    };
+
+    for (const handler of this.messageHandlers) {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.logger.error(
+          'Discord message handler failed',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+  }
+
+  private cacheChannel(channel: RawChannel): void {
+    this.channels.set(channel.id, {
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      guildId: channel.guild_id,
+    });
+  }
+
+  private isWatchedGuild(guildId: string | undefined): boolean {
+    return !this.options.guildId || guildId === this.options.guildId;
+  }
+}
+
+/**
+ * Converts DiscordMessageOptions to a REST message body.
+ */
+function toMessagePayload(message: string | DiscordMessageOptions): Record<string, unknown> {
+  if (typeof message === 'string') {
+    return { content: message };
+  }
+
+  return {
+    ...(message.content !== undefined && { content: message.content }),
+    ...(message.embed && { embeds: [message.embed] }),
+  };
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Connector factory for `type: 'discord'` config entries.
+ *
+ * @throws {Error} If the bot token is missing
+ */
+export const createDiscordConnector: ConnectorFactory<DiscordClient> = async (config, logger) => {
+  const { token, guildId, intents, apiBaseUrl, gatewayUrl, readyTimeout } = config.options;
+
+  if (typeof token !== 'string' || token.length === 0) {
+    throw new Error(`Discord connector "${config.name}" requires a bot token`);
+  }
+
+  return new DiscordClient(config.name, {
+    token,
+    guildId: typeof guildId === 'string' ? guildId : undefined,
+    intents: typeof intents === 'number' ? intents : undefined,
+    apiBaseUrl: typeof apiBaseUrl === 'string' ? apiBaseUrl : undefined,
+    gatewayUrl: typeof gatewayUrl === 'string' ? gatewayUrl : undefined,
+    readyTimeout: typeof readyTimeout === 'number' ? readyTimeout : undefined,
+  }, logger);
+};
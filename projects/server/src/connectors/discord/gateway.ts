@@ -0,0 +1,368 @@
+/**
+ * @squadscript/server
+ *
+ * Discord gateway (WebSocket) session.
+ *
+ * Handles the HELLO/IDENTIFY handshake, heartbeating, zombie connection
+ * detection, and reconnecting with RESUME so dispatches missed during a
+ * short outage are replayed by Discord. Fatal close codes (bad token,
+ * disallowed intents) stop the session instead of reconnecting.
+ *
+ * @module
+ */
+
+import type { ModuleLogger } from '@squadscript/logger';
+
+import { DISCORD_API_VERSION } from './rest.js';
+
+// =============================================================================
+// Protocol
+// =============================================================================
+
+/**
+ * Gateway opcodes used by the client.
+ */
+export const GatewayOpcode = {
+  DISPATCH: 0,
+  HEARTBEAT: 1,
+  IDENTIFY: 2,
+  RESUME: 6,
+  RECONNECT: 7,
+  INVALID_SESSION: 9,
+  HELLO: 10,
+  HEARTBEAT_ACK: 11,
+} as const;
+
+/**
+ * Gateway intents needed for channel caching and message events.
+ * GUILDS | GUILD_MESSAGES | MESSAGE_CONTENT
+ */
+export const DEFAULT_INTENTS = (1 << 0) | (1 << 9) | (1 << 15);
+
+/**
+ * Close codes after which reconnecting cannot succeed.
+ */
+const FATAL_CLOSE_CODES = new Set([4004, 4010, 4011, 4012, 4013, 4014]);
+
+/** Close code used when we drop the socket ourselves to resume. */
+const RESUME_CLOSE_CODE = 4000;
+
+/** Longest delay between reconnect attempts. */
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * Raw gateway payload.
+ */
+export interface GatewayPayload {
+  readonly op: number;
+  readonly d?: unknown;
+  readonly s?: number | null;
+  readonly t?: string | null;
+}
+
+// =============================================================================
+// Gateway
+// =============================================================================
+
+/**
+ * Gateway configuration.
+ */
+export interface DiscordGatewayConfig {
+  /** Bot token. */
+  readonly token: string;
+
+  /** Gateway URL (from `GET /gateway/bot`). */
+  readonly url: string;
+
+  /** Gateway intents bitfield. */
+  readonly intents?: number | undefined;
+
+  /** Called for every DISPATCH event. */
+  readonly onDispatch: (event: string, data: unknown) => void;
+
+  /** Logger instance. */
+  readonly logger: ModuleLogger;
+}
+
+/**
+ * A single logical Discord gateway session.
+ */
+export class DiscordGateway {
+  private readonly config: DiscordGatewayConfig;
+  private readonly logger: ModuleLogger;
+
+  private socket: WebSocket | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatAcked = true;
+  private reconnectAttempts = 0;
+  private closing = false;
+
+  /** Session state used to RESUME. */
+  private sessionId: string | null = null;
+  private resumeUrl: string | null = null;
+  private sequence: number | null = null;
+
+  /** Pending connect() promise callbacks. */
+  private readyWaiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  /** Whether the session has received READY or RESUMED. */
+  private ready = false;
+
+  constructor(config: DiscordGatewayConfig) {
+    this.config = config;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Whether the session is established.
+   */
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Opens the gateway connection and waits for READY.
+   *
+   * @param timeoutMs - Maximum time to wait for READY
+   */
+  connect(timeoutMs = 30_000): Promise<void> {
+    this.closing = false;
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.readyWaiter = null;
+        this.disconnect();
+        reject(new Error(`Discord gateway did not become ready within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.readyWaiter = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+
+      this.open(this.config.url);
+    });
+  }
+
+  /**
+   * Closes the gateway connection without reconnecting.
+   */
+  disconnect(): void {
+    this.closing = true;
+    this.ready = false;
+    this.stopHeartbeat();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.close(1000, 'Client disconnect');
+      this.socket = null;
+    }
+  }
+
+  // ===========================================================================
+  // Internal - Socket
+  // ===========================================================================
+
+  private open(baseUrl: string): void {
+    const url = `${baseUrl}/?v=${DISCORD_API_VERSION}&encoding=json`;
+    this.logger.debug(`Connecting to gateway: ${baseUrl}`);
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.addEventListener('message', (event) => {
+      if (this.socket !== socket) return;
+      try {
+        this.handlePayload(JSON.parse(String(event.data)) as GatewayPayload);
+      } catch (error) {
+        this.logger.error(
+          'Failed to handle gateway payload',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    });
+
+    socket.addEventListener('close', (event) => {
+      if (this.socket !== socket) return;
+      this.handleClose(event.code, event.reason);
+    });
+
+    socket.addEventListener('error', () => {
+      this.logger.debug('Gateway socket error');
+    });
+  }
+
+  private send(payload: GatewayPayload): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(payload));
+    }
+  }
+
+  private handleClose(code: number, reason: string): void {
+    this.socket = null;
+    this.ready = false;
+    this.stopHeartbeat();
+
+    if (this.closing) {
+      return;
+    }
+
+    if (FATAL_CLOSE_CODES.has(code)) {
+      const error = new Error(`Discord gateway closed with fatal code ${code}: ${reason}`);
+      this.logger.error(error.message);
+      this.closing = true;
+      this.readyWaiter?.reject(error);
+      this.readyWaiter = null;
+      return;
+    }
+
+    this.scheduleReconnect(`closed with code ${code}`);
+  }
+
+  private scheduleReconnect(why: string): void {
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+
+    this.logger.warn(`Gateway ${why}, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open(this.sessionId ? (this.resumeUrl ?? this.config.url) : this.config.url);
+    }, delay);
+  }
+
+  /**
+   * Drops the current socket and reconnects, resuming if possible.
+   */
+  private reconnect(why: string): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.ready = false;
+    this.stopHeartbeat();
+    socket?.close(RESUME_CLOSE_CODE, why);
+    this.scheduleReconnect(why);
+  }
+
+  // ===========================================================================
+  // Internal - Protocol
+  // ===========================================================================
+
+  private handlePayload(payload: GatewayPayload): void {
+    if (typeof payload.s === 'number') {
+      this.sequence = payload.s;
+    }
+
+    switch (payload.op) {
+      case GatewayOpcode.HELLO: {
+        const { heartbeat_interval: interval } = payload.d as { heartbeat_interval: number };
+        this.startHeartbeat(interval);
+        this.identifyOrResume();
+        break;
+      }
+
+      case GatewayOpcode.HEARTBEAT:
+        this.sendHeartbeat();
+        break;
+
+      case GatewayOpcode.HEARTBEAT_ACK:
+        this.heartbeatAcked = true;
+        break;
+
+      case GatewayOpcode.RECONNECT:
+        this.reconnect('requested reconnect');
+        break;
+
+      case GatewayOpcode.INVALID_SESSION:
+        if (payload.d !== true) {
+          this.sessionId = null;
+          this.sequence = null;
+        }
+        this.reconnect('session invalidated');
+        break;
+
+      case GatewayOpcode.DISPATCH:
+        this.handleDispatch(payload.t ?? '', payload.d);
+        break;
+    }
+  }
+
+  private handleDispatch(event: string, data: unknown): void {
+    if (event === 'READY') {
+      const ready = data as { session_id: string; resume_gateway_url?: string };
+      this.sessionId = ready.session_id;
+      this.resumeUrl = ready.resume_gateway_url ?? null;
+      this.markReady();
+    } else if (event === 'RESUMED') {
+      this.logger.info('Gateway session resumed');
+      this.markReady();
+    }
+
+    this.config.onDispatch(event, data);
+  }
+
+  private markReady(): void {
+    this.ready = true;
+    this.reconnectAttempts = 0;
+    this.readyWaiter?.resolve();
+    this.readyWaiter = null;
+  }
+
+  private identifyOrResume(): void {
+    if (this.sessionId && this.sequence !== null) {
+      this.send({
+        op: GatewayOpcode.RESUME,
+        d: { token: this.config.token, session_id: this.sessionId, seq: this.sequence },
+      });
+      return;
+    }
+
+    this.send({
+      op: GatewayOpcode.IDENTIFY,
+      d: {
+        token: this.config.token,
+        intents: this.config.intents ?? DEFAULT_INTENTS,
+        properties: { os: process.platform, browser: 'squadscript', device: 'squadscript' },
+      },
+    });
+  }
+
+  // ===========================================================================
+  // Internal - Heartbeat
+  // ===========================================================================
+
+  private startHeartbeat(intervalMs: number): void {
+    this.stopHeartbeat();
+    this.heartbeatAcked = true;
+
+    this.heartbeatTimer = setInterval(() => {
+      // No ACK since the last beat means the connection is a zombie
+      if (!this.heartbeatAcked) {
+        this.reconnect('heartbeat not acknowledged');
+        return;
+      }
+      this.sendHeartbeat();
+    }, intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private sendHeartbeat(): void {
+    this.heartbeatAcked = false;
+    this.send({ op: GatewayOpcode.HEARTBEAT, d: this.sequence });
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * @squadscript/server
+ *
+ * Local mock of the Discord gateway and REST API.
+ *
+ * Lets the Discord connector and Discord plugins run offline in tests:
+ * point the connector's `apiBaseUrl` and `gatewayUrl` options at the
+ * mock, then drive gateway events and inspect the messages that were
+ * sent. Supports IDENTIFY/RESUME with dispatch replay, forced
+ * disconnects, and simulated 429 responses.
+ *
+ * @module
+ */
+
+import type { Server, ServerWebSocket } from 'bun';
+
+import { GatewayOpcode, type GatewayPayload } from './gateway.js';
+
+/**
+ * Mock server configuration.
+ */
+export interface MockDiscordServerConfig {
+  /** Bot token the mock accepts. */
+  readonly token?: string | undefined;
+
+  /** Guild announced after READY. */
+  readonly guildId?: string | undefined;
+
+  /** Channels announced in GUILD_CREATE. */
+  readonly channels?: readonly { id: string; name: string }[] | undefined;
+
+  /** Heartbeat interval sent in HELLO (ms). */
+  readonly heartbeatInterval?: number | undefined;
+}
+
+/**
+ * A message received through `POST /channels/:id/messages`.
+ */
+export interface MockDiscordMessage {
+  readonly id: string;
+  readonly channelId: string;
+  readonly body: Record<string, unknown>;
+}
+
+/**
+ * Mock Discord gateway and REST server.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockDiscordServer({ channels: [{ id: '1', name: 'logs' }] });
+ * await mock.start();
+ * const discord = await createDiscordConnector(
+ *   { type: 'discord', name: 'discord', options: { token: mock.token, ...mock.urls } },
+ *   logger,
+ * );
+ * await discord.connect();
+ * ```
+ */
+export class MockDiscordServer {
+  readonly token: string;
+  readonly guildId: string;
+  readonly botUserId = '100000000000000001';
+
+  /** Messages sent by clients, in order. */
+  readonly messages: MockDiscordMessage[] = [];
+
+  /** Number of IDENTIFY and RESUME payloads received. */
+  identifyCount = 0;
+  resumeCount = 0;
+
+  /** When false, heartbeats are not acknowledged (zombie connection). */
+  ackHeartbeats = true;
+
+  private readonly channels: { id: string; name: string }[];
+  private readonly heartbeatInterval: number;
+  private server: Server<undefined> | null = null;
+  private socket: ServerWebSocket<undefined> | null = null;
+
+  private sessionId: string | null = null;
+  private sequence = 0;
+  private readonly history: { seq: number; t: string; d: unknown }[] = [];
+  private pendingRateLimits: { retryAfter: number; global: boolean }[] = [];
+  private nextMessageId = 1;
+
+  constructor(config: MockDiscordServerConfig = {}) {
+    this.token = config.token ?? 'mock-token';
+    this.guildId = config.guildId ?? '200000000000000001';
+    this.channels = [...(config.channels ?? [])];
+    this.heartbeatInterval = config.heartbeatInterval ?? 45_000;
+  }
+
+  /**
+   * Connector options that point a Discord connector at this mock.
+   */
+  get urls(): { apiBaseUrl: string; gatewayUrl: string } {
+    if (!this.server) {
+      throw new Error('Mock Discord server is not running');
+    }
+    const base = `127.0.0.1:${this.server.port}`;
+    return { apiBaseUrl: `http://${base}/api`, gatewayUrl: `ws://${base}/gateway` };
+  }
+
+  /**
+   * Whether a gateway client is currently connected.
+   */
+  get hasClient(): boolean {
+    return this.socket !== null;
+  }
+
+  /**
+   * Starts listening on a random local port.
+   */
+  async start(): Promise<void> {
+    this.server = Bun.serve<undefined>({
+      hostname: '127.0.0.1',
+      port: 0,
+      fetch: (request, server) => {
+        const url = new URL(request.url);
+        if (url.pathname.startsWith('/gateway')) {
+          return server.upgrade(request, { data: undefined })
+            ? undefined
+            : new Response('Upgrade failed', { status: 400 });
+        }
+        return this.handleRest(request, url);
+      },
+      websocket: {
+        open: (ws) => {
+          this.socket?.close(4000, 'Replaced');
+          this.socket = ws;
+          this.send(ws, { op: GatewayOpcode.HELLO, d: { heartbeat_interval: this.heartbeatInterval } });
+        },
+        message: (ws, raw) => {
+          this.handleGateway(ws, JSON.parse(String(raw)) as GatewayPayload);
+        },
+        close: (ws) => {
+          if (this.socket === ws) {
+            this.socket = null;
+          }
+        },
+      },
+    });
+  }
+
+  /**
+   * Stops the server and closes any client connection.
+   */
+  async stop(): Promise<void> {
+    this.socket?.close(1001, 'Server stopping');
+    this.socket = null;
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  // ===========================================================================
+  // Test controls
+  // ===========================================================================
+
+  /**
+   * Sends a DISPATCH event to the connected client.
+   * Events are recorded so a resuming client receives them again.
+   */
+  dispatch(event: string, data: unknown): void {
+    const seq = ++this.sequence;
+    this.history.push({ seq, t: event, d: data });
+    if (this.socket) {
+      this.send(this.socket, { op: GatewayOpcode.DISPATCH, t: event, s: seq, d: data });
+    }
+  }
+
+  /**
+   * Dispatches a MESSAGE_CREATE from a user.
+   */
+  emitMessage(message: {
+    channelId: string;
+    authorId: string;
+    authorName: string;
+    content: string;
+  }): void {
+    this.dispatch('MESSAGE_CREATE', {
+      id: String(this.nextMessageId++),
+      channel_id: message.channelId,
+      guild_id: this.guildId,
+      content: message.content,
+      author: { id: message.authorId, username: message.authorName },
+    });
+  }
+
+  /**
+   * Closes the client connection from the server side.
+   *
+   * @param code - WebSocket close code (4000 = resumable)
+   */
+  dropConnection(code = 4000): void {
+    this.socket?.close(code, 'Dropped by mock');
+    this.socket = null;
+  }
+
+  /**
+   * Asks the client to reconnect (opcode 7).
+   */
+  requestReconnect(): void {
+    if (this.socket) {
+      this.send(this.socket, { op: GatewayOpcode.RECONNECT, d: null });
+    }
+  }
+
+  /**
+   * Makes the next REST request fail with a 429.
+   *
+   * @param retryAfter - Seconds the client must wait
+   * @param global - Whether the limit is global
+   */
+  rateLimitNext(retryAfter = 0.05, global = false): void {
+    this.pendingRateLimits.push({ retryAfter, global });
+  }
+
+  /**
+   * Adds a channel, announcing it with CHANNEL_CREATE.
+   */
+  addChannel(channel: { id: string; name: string }): void {
+    this.channels.push(channel);
+    this.dispatch('CHANNEL_CREATE', { ...channel, type: 0, guild_id: this.guildId });
+  }
+
+  // ===========================================================================
+  // Internal - Gateway
+  // ===========================================================================
+
+  private handleGateway(ws: ServerWebSocket<undefined>, payload: GatewayPayload): void {
+    switch (payload.op) {
+      case GatewayOpcode.HEARTBEAT:
+        if (this.ackHeartbeats) {
+          this.send(ws, { op: GatewayOpcode.HEARTBEAT_ACK });
+        }
+        break;
+
+      case GatewayOpcode.IDENTIFY: {
+        const { token } = payload.d as { token: string };
+        if (token !== this.token) {
+          ws.close(4004, 'Authentication failed');
+          return;
+        }
+
+        this.identifyCount++;
+        this.sessionId = crypto.randomUUID();
+        this.dispatch('READY', {
+          v: 10,
+          session_id: this.sessionId,
+          resume_gateway_url: this.urls.gatewayUrl,
+          user: { id: this.botUserId, username: 'SquadScript', bot: true },
+          guilds: [{ id: this.guildId, unavailable: true }],
+        });
+        this.dispatch('GUILD_CREATE', {
+          id: this.guildId,
+          channels: this.channels.map((channel) => ({ ...channel, type: 0 })),
+        });
+        break;
+      }
+
+      case GatewayOpcode.RESUME: {
+        const { session_id: sessionId, seq } = payload.d as { session_id: string; seq: number };
+        if (sessionId !== this.sessionId) {
+          this.send(ws, { op: GatewayOpcode.INVALID_SESSION, d: false });
+          return;
+        }
+
+        this.resumeCount++;
+        for (const entry of this.history) {
+          if (entry.seq > seq) {
+            this.send(ws, { op: GatewayOpcode.DISPATCH, t: entry.t, s: entry.seq, d: entry.d });
+          }
+        }
+        this.dispatch('RESUMED', null);
+        break;
+      }
+    }
+  }
+
+  private send(ws: ServerWebSocket<undefined>, payload: GatewayPayload): void {
+    ws.send(JSON.stringify(payload));
+  }
+
+  // ===========================================================================
+  // Internal - REST
+  // ===========================================================================
+
+  private async handleRest(request: Request, url: URL): Promise<Response> {
+    if (request.headers.get('authorization') !== `Bot ${this.token}`) {
+      return Response.json({ message: '401: Unauthorized', code: 0 }, { status: 401 });
+    }
+
+    const limit = this.pendingRateLimits.shift();
+    if (limit) {
+      return Response.json(
+        { message: 'You are being rate limited.', retry_after: limit.retryAfter, global: limit.global },
+        { status: 429 },
+      );
+    }
+
+    const path = url.pathname.replace(/^\/api\/v\d+/, '');
+
+    if (request.method === 'GET' && path === '/gateway/bot') {
+      return Response.json({ url: this.urls.gatewayUrl, shards: 1 });
+    }
+
+    const match = /^\/channels\/(\d+)\/messages$/.exec(path);
+    if (request.method === 'POST' && match) {
+      const channelId = match[1]!;
+      if (!this.channels.some((channel) => channel.id === channelId)) {
+        return Response.json({ message: 'Unknown Channel', code: 10003 }, { status: 404 });
+      }
+
+      const body = (await request.json()) as Record<string, unknown>;
+      const message = { id: String(this.nextMessageId++), channelId, body };
+      this.messages.push(message);
+
+      return Response.json(
+        { id: message.id, channel_id: channelId, ...body },
+        { headers: { 'X-RateLimit-Remaining': '4', 'X-RateLimit-Reset-After': '1' } },
+      );
+    }
+
+    return Response.json({ message: '404: Not Found', code: 0 }, { status: 404 });
+  }
+}
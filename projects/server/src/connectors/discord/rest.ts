@@ -0,0 +1,218 @@
+/**
+ * @squadscript/server
+ *
+ * Minimal Discord REST client with rate limit handling.
+ *
+ * Requests are serialized per route so the bucket headers returned by
+ * Discord can be honoured before the next request on the same route is
+ * sent. A 429 response pauses the route (or every route, for global
+ * limits) for the advertised `retry_after` and retries the request.
+ *
+ * @module
+ */
+
+import type { ModuleLogger } from '@squadscript/logger';
+
+/** Discord API version used for REST and gateway. */
+export const DISCORD_API_VERSION = 10;
+
+/** Default Discord API base URL. */
+export const DISCORD_API_URL = 'https://discord.com/api';
+
+/** Maximum attempts for a request that keeps getting rate limited. */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Error returned by the Discord API.
+ */
+export class DiscordApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status code. */
+    public readonly status: number,
+    /** Discord JSON error code, if provided. */
+    public readonly code: number | undefined,
+    /** HTTP method and route of the failed request. */
+    public readonly route: string,
+  ) {
+    super(message);
+    this.name = 'DiscordApiError';
+  }
+}
+
+/**
+ * REST client configuration.
+ */
+export interface DiscordRestClientConfig {
+  /** Bot token (without the `Bot ` prefix). */
+  readonly token: string;
+
+  /** API base URL, without version. Overridable for tests. */
+  readonly apiBaseUrl?: string | undefined;
+
+  /** Logger instance. */
+  readonly logger: ModuleLogger;
+}
+
+/**
+ * Rate limit state for a single route.
+ */
+interface RouteState {
+  /** Tail of the request chain for this route. */
+  queue: Promise<unknown>;
+
+  /** Requests left in the current window (from headers). */
+  remaining: number;
+
+  /** Epoch ms at which the window resets. */
+  resetAt: number;
+}
+
+/**
+ * Discord REST client.
+ *
+ * @example
+ * ```typescript
+ * const rest = new DiscordRestClient({ token, logger });
+ * await rest.request('POST', `/channels/${id}/messages`, { content: 'Hi' });
+ * ```
+ */
+export class DiscordRestClient {
+  private readonly token: string;
+  private readonly baseUrl: string;
+  private readonly logger: ModuleLogger;
+
+  /** Per-route rate limit state. */
+  private readonly routes = new Map<string, RouteState>();
+
+  /** Epoch ms until which all requests are blocked by a global limit. */
+  private globalResetAt = 0;
+
+  constructor(config: DiscordRestClientConfig) {
+    this.token = config.token;
+    this.baseUrl = `${config.apiBaseUrl ?? DISCORD_API_URL}/v${DISCORD_API_VERSION}`;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Sends a request to the Discord API.
+   *
+   * @param method - HTTP method
+   * @param path - API path, e.g. `/channels/123/messages`
+   * @param body - JSON body
+   * @returns Parsed JSON response (undefined for 204 responses)
+   * @throws {DiscordApiError} If Discord rejects the request
+   */
+  request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const key = `${method} ${path}`;
+    let state = this.routes.get(key);
+    if (!state) {
+      state = { queue: Promise.resolve(), remaining: 1, resetAt: 0 };
+      this.routes.set(key, state);
+    }
+
+    const routeState = state;
+    const result = routeState.queue.then(() => this.execute<T>(routeState, key, method, path, body));
+
+    // Keep the chain alive when a request fails
+    routeState.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Executes a request, waiting out known limits and retrying 429s.
+   */
+  private async execute<T>(
+    state: RouteState,
+    key: string,
+    method: string,
+    path: string,
+    body: unknown,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForLimits(state);
+
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bot ${this.token}`,
+          'User-Agent': 'DiscordBot (https://github.com/CalmProton/SquadScript, 0.0.1)',
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+
+      this.updateLimits(state, response.headers);
+
+      if (response.status === 429) {
+        const payload = (await response.json().catch(() => ({}))) as {
+          retry_after?: number;
+          global?: boolean;
+        };
+        const retryAfterMs = Math.ceil((payload.retry_after ?? 1) * 1000);
+
+        if (payload.global) {
+          this.globalResetAt = Date.now() + retryAfterMs;
+        } else {
+          state.remaining = 0;
+          state.resetAt = Date.now() + retryAfterMs;
+        }
+
+        if (attempt >= MAX_ATTEMPTS) {
+          throw new DiscordApiError('Rate limited', 429, undefined, key);
+        }
+
+        this.logger.warn(`Rate limited on ${key}, retrying in ${retryAfterMs}ms`);
+        continue;
+      }
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as {
+          message?: string;
+          code?: number;
+        };
+        throw new DiscordApiError(
+          payload.message ?? `HTTP ${response.status}`,
+          response.status,
+          payload.code,
+          key,
+        );
+      }
+
+      if (response.status === 204) {
+        return undefined as T;
+      }
+      return (await response.json()) as T;
+    }
+  }
+
+  /**
+   * Sleeps until both the global and route limits allow a request.
+   */
+  private async waitForLimits(state: RouteState): Promise<void> {
+    const now = Date.now();
+    const until = Math.max(
+      this.globalResetAt,
+      state.remaining <= 0 ? state.resetAt : 0,
+    );
+
+    if (until > now) {
+      await Bun.sleep(until - now);
+    }
+  }
+
+  /**
+   * Records the bucket state reported in response headers.
+   */
+  private updateLimits(state: RouteState, headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining');
+    const resetAfter = headers.get('x-ratelimit-reset-after');
+
+    if (remaining !== null) {
+      state.remaining = Number(remaining);
+    }
+    if (resetAfter !== null) {
+      state.resetAt = Date.now() + Number(resetAfter) * 1000;
+    }
+  }
+}
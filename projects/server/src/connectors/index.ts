@@ -0,0 +1,74 @@
+/**
+ * @squadscript/server
+ *
+ * Built-in connector implementations.
+ *
+ * @module
+ */
+
+import type { ConnectorFactory } from '../plugins/connector-registry.js';
+import { createDiscordConnector } from './discord/connector.js';
+import { createSqliteConnector } from './database/sqlite.js';
+import { createPostgresConnector } from './database/postgres.js';
+
+// Discord
+export {
+  DiscordClient,
+  createDiscordConnector,
+  type DiscordClientOptions,
+  type DiscordChannel,
+} from './discord/connector.js';
+export {
+  DiscordRestClient,
+  DiscordApiError,
+  type DiscordRestClientConfig,
+} from './discord/rest.js';
+export {
+  DiscordGateway,
+  GatewayOpcode,
+  type DiscordGatewayConfig,
+} from './discord/gateway.js';
+export {
+  MockDiscordServer,
+  type MockDiscordServerConfig,
+  type MockDiscordMessage,
+} from './discord/mock-server.js';
+
+// Database
+export {
+  SqliteConnector,
+  createSqliteConnector,
+  type SqliteConnectorOptions,
+} from './database/sqlite.js';
+export {
+  PostgresConnector,
+  createPostgresConnector,
+  toPostgresPlaceholders,
+  type PostgresConnectorOptions,
+} from './database/postgres.js';
+export {
+  runConnectorMigrations,
+  type ConnectorMigration,
+} from './database/migrations.js';
+
+/**
+ * Connector factories available to every registry, keyed by config `type`.
+ */
+export const BUILTIN_CONNECTOR_FACTORIES: Readonly<Record<string, ConnectorFactory>> = {
+  discord: createDiscordConnector,
+  sqlite: createSqliteConnector,
+  postgres: createPostgresConnector,
+};
+
+/**
+ * Registers the built-in connector factories on a registry.
+ *
+ * @param target - Anything that accepts connector factories
+ */
+export function registerBuiltinConnectors(target: {
+  registerFactory(type: string, factory: ConnectorFactory): void;
+}): void {
+  for (const [type, factory] of Object.entries(BUILTIN_CONNECTOR_FACTORIES)) {
+    target.registerFactory(type, factory);
+  }
+}
@@ -42,4 +42,6 @@ export const Timings = {
   UPDATE_TIMEOUT: 10_000,
   /** Grace period for shutdown operations. */
   SHUTDOWN_GRACE_PERIOD: 5_000,
+  /** How long the layer list used by chat commands is cached. */
+  LAYER_LIST_CACHE_TTL: 600_000,
 } as const;
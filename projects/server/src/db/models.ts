@@ -19,10 +19,14 @@ import {
   roles,
   auditLog,
   banHistory,
+  playerProfiles,
   metricsHistory,
   pluginState,
+  pluginStorage,
   notifications,
   eventLog,
+  matches,
+  matchEvents,
 } from './schema.js';
 
 // ── Users ───────────────────────────────────────────────────────────────────
@@ -45,6 +49,11 @@ export const selectAuditLogSchema = createSelectSchema(auditLog);
 export const insertBanHistorySchema = createInsertSchema(banHistory);
 export const selectBanHistorySchema = createSelectSchema(banHistory);
 
+// ── Player Profiles ─────────────────────────────────────────────────────────
+
+export const insertPlayerProfileSchema = createInsertSchema(playerProfiles);
+export const selectPlayerProfileSchema = createSelectSchema(playerProfiles);
+
 // ── Metrics History ─────────────────────────────────────────────────────────
 
 export const insertMetricsHistorySchema = createInsertSchema(metricsHistory);
@@ -55,6 +64,11 @@ export const selectMetricsHistorySchema = createSelectSchema(metricsHistory);
 export const insertPluginStateSchema = createInsertSchema(pluginState);
 export const selectPluginStateSchema = createSelectSchema(pluginState);
 
+// ── Plugin Storage ──────────────────────────────────────────────────────────
+
+export const insertPluginStorageSchema = createInsertSchema(pluginStorage);
+export const selectPluginStorageSchema = createSelectSchema(pluginStorage);
+
 // ── Notifications ───────────────────────────────────────────────────────────
 
 export const insertNotificationSchema = createInsertSchema(notifications);
@@ -64,3 +78,11 @@ export const selectNotificationSchema = createSelectSchema(notifications);
 
 export const insertEventLogSchema = createInsertSchema(eventLog);
 export const selectEventLogSchema = createSelectSchema(eventLog);
+
+// ── Matches ─────────────────────────────────────────────────────────────────
+
+export const insertMatchSchema = createInsertSchema(matches);
+export const selectMatchSchema = createSelectSchema(matches);
+
+export const insertMatchEventSchema = createInsertSchema(matchEvents);
+export const selectMatchEventSchema = createSelectSchema(matchEvents);
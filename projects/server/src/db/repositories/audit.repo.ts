@@ -16,12 +16,14 @@ export class AuditRepository {
 
   async insert(data: {
     userId: string | null;
+    serverId?: string | null;
     action: string;
     target?: string | null;
     details?: Record<string, unknown> | null;
   }) {
     const results = await this.db.insert(auditLog).values({
       userId: data.userId,
+      serverId: data.serverId ?? null,
       action: data.action,
       target: data.target ?? null,
       details: data.details ?? null,
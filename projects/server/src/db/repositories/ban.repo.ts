@@ -6,15 +6,30 @@
  * @module
  */
 
-import { desc, eq, or, and, gte, lte } from 'drizzle-orm';
+import { desc, eq, or, and, gt, gte, lte, inArray, isNull, isNotNull, ilike } from 'drizzle-orm';
 
 import type { DrizzleDB } from '../index.js';
 import { banHistory } from '../schema.js';
 
+/** Ban states that can be filtered on. */
+export type BanStatusFilter = 'active' | 'expired' | 'revoked';
+
+/** Filters for listing the bans currently in force. */
+export interface ActiveBanFilter {
+  serverId?: string;
+  /** Only bans from these sources (dashboard, ingame, bans_cfg). */
+  sources?: readonly string[];
+  /** Only bans without an expiry. */
+  permanentOnly?: boolean;
+  /** Only bans issued at or after this time. */
+  since?: Date;
+}
+
 export class BanRepository {
   constructor(private readonly db: DrizzleDB) {}
 
   async insert(data: {
+    serverId?: string | null;
     steamId?: string | null;
     eosId?: string | null;
     name?: string | null;
@@ -22,9 +37,13 @@ export class BanRepository {
     duration: number;
     adminId?: string | null;
     adminName?: string | null;
+    adminPlayerId?: string | null;
+    source?: string;
+    createdAt?: Date;
     expiresAt?: Date | null;
   }) {
     const results = await this.db.insert(banHistory).values({
+      serverId: data.serverId ?? null,
       steamId: data.steamId ?? null,
       eosId: data.eosId ?? null,
       name: data.name ?? null,
@@ -32,11 +51,23 @@ export class BanRepository {
       duration: data.duration,
       adminId: data.adminId ?? null,
       adminName: data.adminName ?? null,
+      adminPlayerId: data.adminPlayerId ?? null,
+      ...(data.source !== undefined && { source: data.source }),
+      ...(data.createdAt !== undefined && { createdAt: data.createdAt, updatedAt: data.createdAt }),
       expiresAt: data.expiresAt ?? null,
     }).returning();
     return results[0]!;
   }
 
+  async findById(id: number) {
+    const results = await this.db
+      .select()
+      .from(banHistory)
+      .where(eq(banHistory.id, id))
+      .limit(1);
+    return results[0] ?? null;
+  }
+
   async findByPlayer(identifier: string) {
     return this.db
       .select()
@@ -45,14 +76,127 @@ export class BanRepository {
       .orderBy(desc(banHistory.createdAt));
   }
 
+  /**
+   * Finds the bans currently in force, newest first.
+   */
+  async findActive(filter: ActiveBanFilter = {}, now = new Date()) {
+    const conditions = [this.statusCondition('active', now)];
+
+    if (filter.serverId) {
+      conditions.push(eq(banHistory.serverId, filter.serverId));
+    }
+    if (filter.sources && filter.sources.length > 0) {
+      conditions.push(inArray(banHistory.source, [...filter.sources]));
+    }
+    if (filter.permanentOnly) {
+      conditions.push(isNull(banHistory.expiresAt));
+    }
+    if (filter.since) {
+      conditions.push(gte(banHistory.createdAt, filter.since));
+    }
+
+    return this.db
+      .select()
+      .from(banHistory)
+      .where(and(...conditions))
+      .orderBy(desc(banHistory.createdAt));
+  }
+
+  /**
+   * Counts bans on a server that ran out within a time window.
+   */
+  async countExpiredBetween(serverId: string, from: Date, to: Date) {
+    const results = await this.db
+      .select({ id: banHistory.id })
+      .from(banHistory)
+      .where(and(
+        eq(banHistory.serverId, serverId),
+        isNull(banHistory.revokedAt),
+        gt(banHistory.expiresAt, from),
+        lte(banHistory.expiresAt, to),
+      ));
+    return results.length;
+  }
+
   async query(options: {
+    serverId?: string;
+    search?: string;
+    status?: BanStatusFilter;
     from?: Date;
     to?: Date;
     limit?: number;
     offset?: number;
   } = {}) {
+    return this.db
+      .select()
+      .from(banHistory)
+      .where(this.buildConditions(options))
+      .orderBy(desc(banHistory.createdAt))
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+  }
+
+  async countByFilter(options: {
+    serverId?: string;
+    search?: string;
+    status?: BanStatusFilter;
+    from?: Date;
+    to?: Date;
+  } = {}) {
+    const results = await this.db
+      .select({ id: banHistory.id })
+      .from(banHistory)
+      .where(this.buildConditions(options));
+    return results.length;
+  }
+
+  async update(id: number, data: {
+    reason?: string;
+    duration?: number;
+    expiresAt?: Date | null;
+  }) {
+    const results = await this.db
+      .update(banHistory)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(banHistory.id, id))
+      .returning();
+    return results[0] ?? null;
+  }
+
+  async revoke(id: number, revokedBy: string | null) {
+    const now = new Date();
+    const results = await this.db
+      .update(banHistory)
+      .set({ revokedAt: now, revokedBy, updatedAt: now })
+      .where(and(eq(banHistory.id, id), isNull(banHistory.revokedAt)))
+      .returning();
+    return results[0] ?? null;
+  }
+
+  private buildConditions(options: {
+    serverId?: string;
+    search?: string;
+    status?: BanStatusFilter;
+    from?: Date;
+    to?: Date;
+  }) {
     const conditions = [];
 
+    if (options.serverId) {
+      conditions.push(eq(banHistory.serverId, options.serverId));
+    }
+    if (options.search) {
+      conditions.push(
+        or(
+          eq(banHistory.steamId, options.search),
+          eq(banHistory.eosId, options.search),
+          ilike(banHistory.name, `%${options.search}%`),
+        )!,
+      );
+    }
+    if (options.status) {
+      conditions.push(this.statusCondition(options.status, new Date()));
+    }
     if (options.from) {
       conditions.push(gte(banHistory.createdAt, options.from));
     }
@@ -60,12 +204,20 @@ export class BanRepository {
       conditions.push(lte(banHistory.createdAt, options.to));
     }
 
-    return this.db
-      .select()
-      .from(banHistory)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(banHistory.createdAt))
-      .limit(options.limit ?? 50)
-      .offset(options.offset ?? 0);
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  private statusCondition(status: BanStatusFilter, now: Date) {
+    switch (status) {
+      case 'active':
+        return and(
+          isNull(banHistory.revokedAt),
+          or(isNull(banHistory.expiresAt), gt(banHistory.expiresAt, now)),
+        )!;
+      case 'expired':
+        return and(isNull(banHistory.revokedAt), lte(banHistory.expiresAt, now))!;
+      case 'revoked':
+        return isNotNull(banHistory.revokedAt);
+    }
   }
 }
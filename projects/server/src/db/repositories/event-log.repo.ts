@@ -34,6 +34,7 @@ export class EventLogRepository {
   }
 
   async query(options: {
+    serverId?: string;
     type?: string;
     player?: string;
     from?: Date;
@@ -43,6 +44,9 @@ export class EventLogRepository {
   } = {}) {
     const conditions = [];
 
+    if (options.serverId) {
+      conditions.push(eq(eventLog.serverId, options.serverId));
+    }
     if (options.type) {
       conditions.push(eq(eventLog.type, options.type));
     }
@@ -71,6 +75,7 @@ export class EventLogRepository {
   }
 
   async countByFilter(options: {
+    serverId?: string;
     type?: string;
     player?: string;
     from?: Date;
@@ -78,6 +83,9 @@ export class EventLogRepository {
   } = {}) {
     const conditions = [];
 
+    if (options.serverId) {
+      conditions.push(eq(eventLog.serverId, options.serverId));
+    }
     if (options.type) {
       conditions.push(eq(eventLog.type, options.type));
     }
@@ -0,0 +1,147 @@
+/**
+ * @squadscript/server
+ *
+ * Match repository for recorded rounds and their timelines.
+ *
+ * @module
+ */
+
+import { and, asc, desc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+
+import type { DrizzleDB } from '../index.js';
+import { matches, matchEvents } from '../schema.js';
+
+export interface MatchEventInsert {
+  offsetMs: number;
+  time: Date;
+  type: string;
+  chainId: number | null;
+  data: Record<string, unknown>;
+}
+
+export class MatchRepository {
+  constructor(private readonly db: DrizzleDB) {}
+
+  async create(data: {
+    serverId: string;
+    level: string;
+    layer: string;
+    team1Faction?: string | null;
+    team2Faction?: string | null;
+    startedAt: Date;
+  }) {
+    const results = await this.db.insert(matches).values({
+      serverId: data.serverId,
+      level: data.level,
+      layer: data.layer,
+      team1Faction: data.team1Faction ?? null,
+      team2Faction: data.team2Faction ?? null,
+      startedAt: data.startedAt,
+    }).returning();
+    return results[0]!;
+  }
+
+  async end(id: number, data: {
+    endedAt: Date;
+    winner: number | null;
+    team1Tickets: number | null;
+    team2Tickets: number | null;
+  }) {
+    const results = await this.db
+      .update(matches)
+      .set(data)
+      .where(eq(matches.id, id))
+      .returning();
+    return results[0] ?? null;
+  }
+
+  /**
+   * Appends timeline entries to a match and bumps its event count.
+   */
+  async insertEvents(matchId: number, events: readonly MatchEventInsert[]) {
+    if (events.length === 0) return;
+
+    await this.db.insert(matchEvents).values(
+      events.map((event) => ({ ...event, matchId })),
+    );
+    await this.db
+      .update(matches)
+      .set({ eventCount: sql`${matches.eventCount} + ${events.length}` })
+      .where(eq(matches.id, matchId));
+  }
+
+  async findById(id: number) {
+    const results = await this.db
+      .select()
+      .from(matches)
+      .where(eq(matches.id, id))
+      .limit(1);
+    return results[0] ?? null;
+  }
+
+  async query(options: {
+    serverId?: string;
+    layer?: string;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    return this.db
+      .select()
+      .from(matches)
+      .where(this.buildConditions(options))
+      .orderBy(desc(matches.startedAt))
+      .limit(options.limit ?? 50)
+      .offset(options.offset ?? 0);
+  }
+
+  async countByFilter(options: {
+    serverId?: string;
+    layer?: string;
+  } = {}) {
+    const results = await this.db
+      .select({ id: matches.id })
+      .from(matches)
+      .where(this.buildConditions(options));
+    return results.length;
+  }
+
+  /**
+   * Timeline entries for a match in playback order.
+   */
+  async findEvents(matchId: number, options: {
+    types?: readonly string[];
+    fromMs?: number;
+    toMs?: number;
+  } = {}) {
+    const conditions = [eq(matchEvents.matchId, matchId)];
+
+    if (options.types !== undefined && options.types.length > 0) {
+      conditions.push(inArray(matchEvents.type, [...options.types]));
+    }
+    if (options.fromMs !== undefined) {
+      conditions.push(gte(matchEvents.offsetMs, options.fromMs));
+    }
+    if (options.toMs !== undefined) {
+      conditions.push(lte(matchEvents.offsetMs, options.toMs));
+    }
+
+    return this.db
+      .select()
+      .from(matchEvents)
+      .where(and(...conditions))
+      .orderBy(asc(matchEvents.offsetMs), asc(matchEvents.id));
+  }
+
+  private buildConditions(options: { serverId?: string; layer?: string }) {
+    const conditions = [];
+
+    if (options.serverId) {
+      conditions.push(eq(matches.serverId, options.serverId));
+    }
+    if (options.layer) {
+      conditions.push(eq(matches.layer, options.layer));
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+}
@@ -6,7 +6,7 @@
  * @module
  */
 
-import { desc, gte, lte, and, lt } from 'drizzle-orm';
+import { desc, eq, gte, lte, and, lt } from 'drizzle-orm';
 
 import type { DrizzleDB } from '../index.js';
 import { metricsHistory } from '../schema.js';
@@ -15,6 +15,7 @@ export class MetricsRepository {
   constructor(private readonly db: DrizzleDB) {}
 
   async insert(data: {
+    serverId?: string | null;
     playerCount: number;
     tickRate: number | null;
     cpuPercent: number | null;
@@ -23,6 +24,7 @@ export class MetricsRepository {
     reserveQueue: number;
   }) {
     const results = await this.db.insert(metricsHistory).values({
+      serverId: data.serverId ?? null,
       playerCount: data.playerCount,
       tickRate: data.tickRate,
       cpuPercent: data.cpuPercent,
@@ -34,12 +36,16 @@ export class MetricsRepository {
   }
 
   async query(options: {
+    serverId?: string;
     from?: Date;
     to?: Date;
     limit?: number;
   } = {}) {
     const conditions = [];
 
+    if (options.serverId) {
+      conditions.push(eq(metricsHistory.serverId, options.serverId));
+    }
     if (options.from) {
       conditions.push(gte(metricsHistory.sampledAt, options.from));
     }
@@ -0,0 +1,114 @@
+/**
+ * @squadscript/server
+ *
+ * Player profile repository for persistent cross-session player history.
+ *
+ * @module
+ */
+
+import { desc, eq, sql } from 'drizzle-orm';
+
+import type { DrizzleDB } from '../index.js';
+import { playerProfiles } from '../schema.js';
+
+/**
+ * Profile counters that can be incremented.
+ */
+export type PlayerProfileCounter =
+  | 'visits'
+  | 'kills'
+  | 'deaths'
+  | 'teamkills'
+  | 'revives'
+  | 'warnings'
+  | 'kicks'
+  | 'bans';
+
+/**
+ * Identifiers known for a player when an event is recorded.
+ */
+export interface PlayerProfileIdentity {
+  eosId: string;
+  steamId?: string | null;
+  name?: string | null;
+}
+
+export class PlayerProfileRepository {
+  constructor(private readonly db: DrizzleDB) {}
+
+  async findByEosId(eosId: string) {
+    const results = await this.db
+      .select()
+      .from(playerProfiles)
+      .where(eq(playerProfiles.eosId, eosId))
+      .limit(1);
+    return results[0] ?? null;
+  }
+
+  async findBySteamId(steamId: string) {
+    const results = await this.db
+      .select()
+      .from(playerProfiles)
+      .where(eq(playerProfiles.steamId, steamId))
+      .orderBy(desc(playerProfiles.lastSeen))
+      .limit(1);
+    return results[0] ?? null;
+  }
+
+  /**
+   * Creates or updates a profile in a single statement.
+   *
+   * Known identifiers overwrite stored ones, a new name is appended to
+   * the name history, and counters and playtime are added atomically.
+   */
+  async record(
+    identity: PlayerProfileIdentity,
+    at: Date,
+    changes: {
+      counters?: Partial<Record<PlayerProfileCounter, number>>;
+      playtimeSeconds?: number;
+    } = {},
+  ) {
+    const name = identity.name ?? null;
+    const counters = changes.counters ?? {};
+    const playtimeSeconds = Math.max(0, Math.round(changes.playtimeSeconds ?? 0));
+
+    const increments: Record<string, unknown> = {};
+    for (const [counter, amount] of Object.entries(counters)) {
+      const column = playerProfiles[counter as PlayerProfileCounter];
+      increments[counter] = sql`${column} + ${amount}`;
+    }
+
+    const nameEntry = JSON.stringify([name]);
+
+    const results = await this.db
+      .insert(playerProfiles)
+      .values({
+        eosId: identity.eosId,
+        steamId: identity.steamId ?? null,
+        name,
+        nameHistory: name ? [name] : [],
+        firstSeen: at,
+        lastSeen: at,
+        playtimeSeconds,
+        ...counters,
+      })
+      .onConflictDoUpdate({
+        target: playerProfiles.eosId,
+        set: {
+          lastSeen: at,
+          playtimeSeconds: sql`${playerProfiles.playtimeSeconds} + ${playtimeSeconds}`,
+          ...increments,
+          ...(identity.steamId && { steamId: identity.steamId }),
+          ...(name && {
+            name,
+            nameHistory: sql`CASE WHEN ${playerProfiles.nameHistory} @> ${nameEntry}::jsonb
+              THEN ${playerProfiles.nameHistory}
+              ELSE ${playerProfiles.nameHistory} || ${nameEntry}::jsonb END`,
+          }),
+        },
+      })
+      .returning();
+    return results[0]!;
+  }
+}
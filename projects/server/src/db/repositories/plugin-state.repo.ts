@@ -0,0 +1,48 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin state repository for runtime plugin overrides.
+ *
+ * @module
+ */
+
+import { and, eq } from 'drizzle-orm';
+
+import type { DrizzleDB } from '../index.js';
+import { pluginState } from '../schema.js';
+
+export class PluginStateRepository {
+  constructor(private readonly db: DrizzleDB) {}
+
+  async findByServer(serverId: string) {
+    return this.db
+      .select()
+      .from(pluginState)
+      .where(eq(pluginState.serverId, serverId));
+  }
+
+  async upsert(data: {
+    serverId: string;
+    pluginName: string;
+    enabled: boolean;
+    options: Record<string, unknown> | null;
+  }) {
+    const results = await this.db
+      .insert(pluginState)
+      .values({ ...data, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [pluginState.serverId, pluginState.pluginName],
+        set: { enabled: data.enabled, options: data.options, updatedAt: new Date() },
+      })
+      .returning();
+    return results[0]!;
+  }
+
+  async delete(serverId: string, pluginName: string) {
+    const results = await this.db
+      .delete(pluginState)
+      .where(and(eq(pluginState.serverId, serverId), eq(pluginState.pluginName, pluginName)))
+      .returning();
+    return results[0] ?? null;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin storage repository for per-plugin key-value data.
+ *
+ * @module
+ */
+
+import { and, asc, eq, gt, isNull, like, lte, or, sql } from 'drizzle-orm';
+
+import type { DrizzleDB } from '../index.js';
+import { pluginStorage } from '../schema.js';
+
+/**
+ * Identifies one plugin's storage on one server.
+ */
+export interface PluginStorageScope {
+  serverId: string;
+  pluginName: string;
+}
+
+export class PluginStorageRepository {
+  constructor(private readonly db: DrizzleDB) {}
+
+  async find(scope: PluginStorageScope, key: string, now = new Date()) {
+    const results = await this.db
+      .select()
+      .from(pluginStorage)
+      .where(and(this.matchKey(scope, key), this.isLive(now)))
+      .limit(1);
+    return results[0] ?? null;
+  }
+
+  async upsert(
+    scope: PluginStorageScope,
+    key: string,
+    value: unknown,
+    expiresAt: Date | null,
+  ) {
+    const now = new Date();
+    await this.db
+      .insert(pluginStorage)
+      .values({ ...scope, key, value, expiresAt, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [pluginStorage.serverId, pluginStorage.pluginName, pluginStorage.key],
+        set: { value, expiresAt, updatedAt: now },
+      });
+  }
+
+  /**
+   * Deletes a key.
+   *
+   * @returns Whether the deleted value was still live
+   */
+  async delete(scope: PluginStorageScope, key: string, now = new Date()) {
+    const results = await this.db
+      .delete(pluginStorage)
+      .where(this.matchKey(scope, key))
+      .returning({ expiresAt: pluginStorage.expiresAt });
+
+    const deleted = results[0];
+    return deleted !== undefined && (deleted.expiresAt === null || deleted.expiresAt > now);
+  }
+
+  async listKeys(scope: PluginStorageScope, prefix = '', now = new Date()) {
+    const conditions = [
+      eq(pluginStorage.serverId, scope.serverId),
+      eq(pluginStorage.pluginName, scope.pluginName),
+      this.isLive(now),
+    ];
+    if (prefix) {
+      conditions.push(like(pluginStorage.key, `${prefix.replace(/[\\%_]/g, '\\$&')}%`));
+    }
+
+    const results = await this.db
+      .select({ key: pluginStorage.key })
+      .from(pluginStorage)
+      .where(and(...conditions))
+      .orderBy(asc(pluginStorage.key));
+    return results.map((row) => row.key);
+  }
+
+  /**
+   * Atomically adds to a numeric value, restarting expired keys from 0.
+   *
+   * @throws {Error} If the stored value is not a JSON number
+   */
+  async increment(scope: PluginStorageScope, key: string, by: number) {
+    const now = new Date();
+    const expired = sql`${pluginStorage.expiresAt} IS NOT NULL AND ${pluginStorage.expiresAt} <= ${now}`;
+
+    const results = await this.db
+      .insert(pluginStorage)
+      .values({ ...scope, key, value: by, expiresAt: null, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [pluginStorage.serverId, pluginStorage.pluginName, pluginStorage.key],
+        set: {
+          value: sql`CASE WHEN ${expired}
+            THEN to_jsonb(${by}::numeric)
+            ELSE to_jsonb(${pluginStorage.value}::numeric + ${by}::numeric) END`,
+          expiresAt: sql`CASE WHEN ${expired} THEN NULL ELSE ${pluginStorage.expiresAt} END`,
+          updatedAt: now,
+        },
+      })
+      .returning({ value: pluginStorage.value });
+    return Number(results[0]!.value);
+  }
+
+  async deleteAll(scope: PluginStorageScope) {
+    const results = await this.db
+      .delete(pluginStorage)
+      .where(and(
+        eq(pluginStorage.serverId, scope.serverId),
+        eq(pluginStorage.pluginName, scope.pluginName),
+      ))
+      .returning({ key: pluginStorage.key });
+    return results.length;
+  }
+
+  async deleteExpired(now = new Date()) {
+    const results = await this.db
+      .delete(pluginStorage)
+      .where(lte(pluginStorage.expiresAt, now))
+      .returning({ key: pluginStorage.key });
+    return results.length;
+  }
+
+  private matchKey(scope: PluginStorageScope, key: string) {
+    return and(
+      eq(pluginStorage.serverId, scope.serverId),
+      eq(pluginStorage.pluginName, scope.pluginName),
+      eq(pluginStorage.key, key),
+    );
+  }
+
+  private isLive(now: Date) {
+    return or(isNull(pluginStorage.expiresAt), gt(pluginStorage.expiresAt, now))!;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @squadscript/server
+ *
+ * Role repository for dashboard role and permission management.
+ *
+ * @module
+ */
+
+import { eq } from 'drizzle-orm';
+
+import type { DrizzleDB } from '../index.js';
+import { roles } from '../schema.js';
+
+export class RoleRepository {
+  constructor(private readonly db: DrizzleDB) {}
+
+  async findAll() {
+    return this.db.select().from(roles);
+  }
+
+  async findByName(name: string) {
+    const results = await this.db.select().from(roles).where(eq(roles.name, name));
+    return results[0] ?? null;
+  }
+
+  async upsert(name: string, permissions: readonly string[]) {
+    const results = await this.db
+      .insert(roles)
+      .values({ name, permissions })
+      .onConflictDoUpdate({
+        target: roles.name,
+        set: { permissions },
+      })
+      .returning();
+    return results[0]!;
+  }
+
+  async createIfMissing(name: string, permissions: readonly string[]) {
+    await this.db
+      .insert(roles)
+      .values({ name, permissions })
+      .onConflictDoNothing({ target: roles.name });
+  }
+
+  async delete(name: string) {
+    const results = await this.db.delete(roles).where(eq(roles.name, name)).returning();
+    return results[0] ?? null;
+  }
+}
@@ -28,6 +28,10 @@ export class UserRepository {
     return results[0] ?? null;
   }
 
+  async findByRole(role: string) {
+    return this.db.select().from(users).where(eq(users.role, role));
+  }
+
   async create(data: { username: string; password: string; role: string }) {
     const results = await this.db.insert(users).values(data).returning();
     return results[0]!;
@@ -16,6 +16,7 @@ import {
   timestamp,
   jsonb,
   index,
+  primaryKey,
 } from 'drizzle-orm/pg-core';
 
 // =============================================================================
@@ -74,6 +75,9 @@ export const auditLog = pgTable('audit_log', {
 
 /**
  * Ban history persisted beyond in-memory state.
+ *
+ * Covers bans issued from the dashboard, in game, and imported from
+ * Bans.cfg. A ban is active until it expires or is revoked.
  */
 export const banHistory = pgTable('ban_history', {
   id: serial('id').primaryKey(),
@@ -85,12 +89,46 @@ export const banHistory = pgTable('ban_history', {
   duration: integer('duration').notNull(),
   adminId: text('admin_id').references(() => users.id),
   adminName: text('admin_name'),
+  adminPlayerId: text('admin_player_id'),
+  source: text('source').notNull().default('dashboard'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
   expiresAt: timestamp('expires_at'),
+  revokedAt: timestamp('revoked_at'),
+  revokedBy: text('revoked_by'),
 }, (table) => [
   index('idx_ban_history_steam_id').on(table.steamId),
   index('idx_ban_history_eos_id').on(table.eosId),
   index('idx_ban_history_server_id').on(table.serverId),
+  index('idx_ban_history_expires_at').on(table.expiresAt),
+]);
+
+// =============================================================================
+// Player Profiles
+// =============================================================================
+
+/**
+ * Persistent cross-session player history, keyed by EOS ID.
+ */
+export const playerProfiles = pgTable('player_profiles', {
+  eosId: text('eos_id').primaryKey(),
+  steamId: text('steam_id'),
+  name: text('name'),
+  nameHistory: jsonb('name_history').notNull().default([]),
+  firstSeen: timestamp('first_seen').notNull().defaultNow(),
+  lastSeen: timestamp('last_seen').notNull().defaultNow(),
+  playtimeSeconds: integer('playtime_seconds').notNull().default(0),
+  visits: integer('visits').notNull().default(0),
+  kills: integer('kills').notNull().default(0),
+  deaths: integer('deaths').notNull().default(0),
+  teamkills: integer('teamkills').notNull().default(0),
+  revives: integer('revives').notNull().default(0),
+  warnings: integer('warnings').notNull().default(0),
+  kicks: integer('kicks').notNull().default(0),
+  bans: integer('bans').notNull().default(0),
+}, (table) => [
+  index('idx_player_profiles_steam_id').on(table.steamId),
+  index('idx_player_profiles_last_seen').on(table.lastSeen),
 ]);
 
 // =============================================================================
@@ -120,15 +158,36 @@ export const metricsHistory = pgTable('metrics_history', {
 // =============================================================================
 
 /**
- * Plugin persistent state (enabled/disabled, options).
+ * Plugin persistent state (enabled/disabled, options), per server.
  */
 export const pluginState = pgTable('plugin_state', {
-  pluginName: text('plugin_name').primaryKey(),
-  serverId: text('server_id'),
+  pluginName: text('plugin_name').notNull(),
+  serverId: text('server_id').notNull(),
   enabled: boolean('enabled').notNull().default(true),
   options: jsonb('options'),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+}, (table) => [
+  primaryKey({ columns: [table.serverId, table.pluginName] }),
+]);
+
+// =============================================================================
+// Plugin Storage
+// =============================================================================
+
+/**
+ * Key-value storage for plugins, isolated per server and plugin.
+ */
+export const pluginStorage = pgTable('plugin_storage', {
+  serverId: text('server_id').notNull(),
+  pluginName: text('plugin_name').notNull(),
+  key: text('key').notNull(),
+  value: jsonb('value').notNull(),
+  expiresAt: timestamp('expires_at'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.serverId, table.pluginName, table.key] }),
+  index('idx_plugin_storage_expires_at').on(table.expiresAt),
+]);
 
 // =============================================================================
 // Notifications
@@ -173,3 +232,47 @@ export const eventLog = pgTable('event_log', {
   index('idx_event_log_player_eos').on(table.playerEos),
   index('idx_event_log_server_id').on(table.serverId),
 ]);
+
+// =============================================================================
+// Matches
+// =============================================================================
+
+/**
+ * One row per round, opened on NEW_GAME and closed when the round ends.
+ *
+ * Named `match_timelines` rather than `matches` so the dashboard database
+ * can also host DBLog, which owns a `matches` table of its own.
+ */
+export const matches = pgTable('match_timelines', {
+  id: serial('id').primaryKey(),
+  serverId: text('server_id').notNull(),
+  level: text('level').notNull(),
+  layer: text('layer').notNull(),
+  team1Faction: text('team1_faction'),
+  team2Faction: text('team2_faction'),
+  winner: integer('winner'),
+  team1Tickets: integer('team1_tickets'),
+  team2Tickets: integer('team2_tickets'),
+  eventCount: integer('event_count').notNull().default(0),
+  startedAt: timestamp('started_at').notNull(),
+  endedAt: timestamp('ended_at'),
+}, (table) => [
+  index('idx_match_timelines_server_id').on(table.serverId),
+  index('idx_match_timelines_started_at').on(table.startedAt),
+]);
+
+/**
+ * Timeline entries for a match: combat, chat, admin actions, squad
+ * changes and periodic squad snapshots, ordered by offset into the round.
+ */
+export const matchEvents = pgTable('match_timeline_events', {
+  id: serial('id').primaryKey(),
+  matchId: integer('match_id').notNull(),
+  offsetMs: integer('offset_ms').notNull(),
+  time: timestamp('time').notNull(),
+  type: text('type').notNull(),
+  chainId: integer('chain_id'),
+  data: jsonb('data').notNull(),
+}, (table) => [
+  index('idx_match_timeline_events_match_id').on(table.matchId, table.offsetMs),
+]);
@@ -42,6 +42,16 @@ export const ErrorCode = {
   COMMAND_FAILED: 'COMMAND_FAILED',
   COMMAND_TIMEOUT: 'COMMAND_TIMEOUT',
 
+  // Log rule errors
+  LOG_RULE_INVALID: 'LOG_RULE_INVALID',
+
+  // Chat command errors
+  CHAT_COMMAND_INVALID: 'CHAT_COMMAND_INVALID',
+
+  // Plugin package errors
+  PLUGIN_MANIFEST_INVALID: 'PLUGIN_MANIFEST_INVALID',
+  PLUGIN_VERSION_CONFLICT: 'PLUGIN_VERSION_CONFLICT',
+
   // Generic
   UNKNOWN: 'UNKNOWN',
 } as const;
@@ -63,6 +63,9 @@ export {
   type PlayerSquadChangeEvent,
   type PlayerRoleChangeEvent,
   type PlayerLeaderChangeEvent,
+  type ServerInfoUpdatedEvent,
+  type QueueChangeEvent,
+  type TeamFactionsChangeEvent,
   type ServerStartingEvent,
   type ServerReadyEvent,
   type ServerStoppingEvent,
@@ -118,6 +121,18 @@ export {
   type UpdateSchedulerOptions,
 } from './scheduler/index.js';
 
+// =============================================================================
+// Chat Commands
+// =============================================================================
+
+export {
+  CommandRegistry,
+  type CommandRegistryOptions,
+  type RegisteredCommand,
+  type ArgumentSources,
+  parseDuration,
+} from './commands/index.js';
+
 // =============================================================================
 // Services
 // =============================================================================
@@ -132,6 +147,7 @@ export {
   type LayerHistoryEntry,
   AdminService,
   type AdminServiceOptions,
+  formatBanInterval,
 } from './services/index.js';
 
 // =============================================================================
@@ -148,6 +164,10 @@ export {
   type PluginConfig,
   type PluginServerInterface,
   type PluginManagerConfig,
+  type PluginReconfiguration,
+  type PersistedPluginState,
+  type PluginServiceLinks,
+  type PluginRuntimeStats,
   type MountAllResult,
 
   // Loader
@@ -174,11 +194,51 @@ export {
   // Subscriptions
   SubscriptionManager,
 
+  // Handler budgets
+  HandlerMonitor,
+  BudgetViolationType,
+  DEFAULT_HANDLER_BUDGET,
+  resolveBudget,
+  type HandlerBudget,
+  type HandlerBudgetOverrides,
+  type HandlerStats,
+  type BudgetViolation,
+  type HandlerMonitorConfig,
+
   // Connectors
   ConnectorRegistry,
   type ConnectorFactory,
   type ConnectorRegistryConfig,
 
+  // Storage
+  MemoryStorageProvider,
+  DatabaseStorageProvider,
+  type PluginStorageProvider,
+
+  // Audit log
+  DatabaseAuditProvider,
+  type PluginAuditProvider,
+
+  // Packages
+  parseManifest,
+  PluginInstaller,
+  createSandboxedPlugin,
+  getPluginManifest,
+  type InstalledPluginPackage,
+  type PluginInstallResult,
+  type PluginInstallerOptions,
+  type SandboxOptions,
+  type SandboxedPluginClass,
+
+  // Wiring
+  createPluginServerAdapter,
+  loadBuiltinPlugins,
+  resolvePluginSources,
+  resolveConnectorSources,
+  type PluginSourceEntry,
+  type ConnectorSourceEntries,
+  type ResolvePluginSourcesOptions,
+
   // Errors
   PluginError,
   PluginErrorType,
@@ -191,3 +251,38 @@ export {
   type ErrorHandlerConfig,
 } from './plugins/index.js';
 
+
+// =============================================================================
+// Built-in Connectors
+// =============================================================================
+
+export {
+  BUILTIN_CONNECTOR_FACTORIES,
+  registerBuiltinConnectors,
+
+  // Discord
+  DiscordClient,
+  createDiscordConnector,
+  type DiscordClientOptions,
+  type DiscordChannel,
+  DiscordRestClient,
+  DiscordApiError,
+  type DiscordRestClientConfig,
+  DiscordGateway,
+  GatewayOpcode,
+  type DiscordGatewayConfig,
+  MockDiscordServer,
+  type MockDiscordServerConfig,
+  type MockDiscordMessage,
+
+  // Database
+  SqliteConnector,
+  createSqliteConnector,
+  type SqliteConnectorOptions,
+  PostgresConnector,
+  createPostgresConnector,
+  toPostgresPlaceholders,
+  type PostgresConnectorOptions,
+  runConnectorMigrations,
+  type ConnectorMigration,
+} from './connectors/index.js';
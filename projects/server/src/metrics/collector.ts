@@ -151,6 +151,7 @@ export class MetricsCollector {
 
     try {
       await this.metricsRepo.insert({
+        serverId: this.server.id,
         playerCount: snapshot.playerCount,
         tickRate: snapshot.tickRate,
         cpuPercent: snapshot.cpuPercent,
@@ -0,0 +1,67 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin audit log providers.
+ *
+ * Each plugin receives a PluginAuditLog through `context.audit`. The
+ * runtime writes entries to the dashboard's `audit_log` table, next to
+ * the actions taken from the dashboard.
+ *
+ * @module
+ */
+
+import type { PluginAuditEntry, PluginAuditLog } from '@squadscript/types';
+
+import type { AuditRepository } from '../db/repositories/audit.repo.js';
+
+/**
+ * Creates audit logs scoped to a plugin.
+ */
+export interface PluginAuditProvider {
+  /**
+   * Gets the audit log for a plugin.
+   */
+  forPlugin(pluginName: string): PluginAuditLog;
+}
+
+/**
+ * Builds the stored details of an entry.
+ *
+ * In-game admins have no dashboard account, so they are recorded in the
+ * details rather than as the entry's user.
+ */
+export function toAuditDetails(pluginName: string, entry: PluginAuditEntry): Record<string, unknown> {
+  const details: Record<string, unknown> = { ...entry.details, plugin: pluginName };
+  if (entry.actor) {
+    details.actor = {
+      eosID: entry.actor.eosID,
+      steamID: entry.actor.steamID,
+      name: entry.actor.name,
+    };
+  }
+  return details;
+}
+
+/**
+ * Audit provider backed by the `audit_log` table.
+ */
+export class DatabaseAuditProvider implements PluginAuditProvider {
+  constructor(
+    private readonly repo: AuditRepository,
+    private readonly serverId: string,
+  ) {}
+
+  forPlugin(pluginName: string): PluginAuditLog {
+    return {
+      record: async (entry) => {
+        await this.repo.insert({
+          userId: null,
+          serverId: this.serverId,
+          action: entry.action,
+          target: entry.target ?? null,
+          details: toAuditDetails(pluginName, entry),
+        });
+      },
+    };
+  }
+}
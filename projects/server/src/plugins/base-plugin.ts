@@ -21,12 +21,22 @@ import type {
   PluginEventEmitter,
   PluginRconExecutor,
   ServerStateReader,
+  PlayerProfileReader,
+  PluginBans,
+  PluginStorage,
+  PluginAuditLog,
   OptionsSpecification,
   ResolvedOptions,
   Unsubscribe,
   SquadEventMap,
+  CustomLogEvent,
+  PluginEvent,
+  CustomLogRuleDefinition,
+  ChatCommandArguments,
+  ChatCommandDefinition,
 } from '@squadscript/types';
 import { SubscriptionManager } from './subscription-manager.js';
+import type { HandlerMonitor } from './handler-monitor.js';
 
 /**
  * Extended plugin context with Squad event types.
@@ -123,6 +133,16 @@ export abstract class BasePlugin<
    */
   private _error: Error | undefined;
 
+  /**
+   * Receives failures reported between lifecycle calls.
+   */
+  private failureHandler: ((error: Error) => void) | null = null;
+
+  /**
+   * Monitor that keeps the plugin within its budget.
+   */
+  private monitor: HandlerMonitor | null = null;
+
   /**
    * Creates a new plugin instance.
    *
@@ -261,6 +281,53 @@ export abstract class BasePlugin<
     this._error = error;
   }
 
+  /**
+   * Attaches the monitor that keeps handlers and timers within budget.
+   *
+   * @internal
+   */
+  _setMonitor(monitor: HandlerMonitor): void {
+    this.monitor = monitor;
+    this.subscriptions.setMonitor(monitor);
+  }
+
+  /**
+   * Attaches the handler for failures reported with `reportFailure()`.
+   *
+   * @internal
+   */
+  _setFailureHandler(handler: (error: Error) => void): void {
+    this.failureHandler = handler;
+  }
+
+  /**
+   * Reports that the plugin stopped working between lifecycle calls,
+   * e.g. because a process it relies on died.
+   *
+   * The plugin enters the error state, which the dashboard shows, until
+   * it is enabled again.
+   *
+   * @param error - What went wrong
+   */
+  protected reportFailure(error: Error): void {
+    if (this.failureHandler) {
+      this.failureHandler(error);
+    } else {
+      this._setState('error', error);
+    }
+  }
+
+  /**
+   * Reports the heap size of a plugin that has a heap of its own, such as
+   * a sandboxed one, against its memory budget.
+   *
+   * @param bytes - Heap in use
+   * @returns Whether the plugin is within its budget
+   */
+  protected reportHeapUsage(bytes: number): boolean {
+    return this.monitor?.reportMemory(bytes) ?? true;
+  }
+
   // ===========================================================================
   // Convenience Methods - Events
   // ===========================================================================
@@ -286,6 +353,34 @@ export abstract class BasePlugin<
     return this.context.state;
   }
 
+  /**
+   * Shorthand for accessing persistent player profiles.
+   */
+  protected get profiles(): PlayerProfileReader {
+    return this.context.profiles;
+  }
+
+  /**
+   * Shorthand for accessing the server's ban list.
+   */
+  protected get bans(): PluginBans {
+    return this.context.bans;
+  }
+
+  /**
+   * Shorthand for accessing this plugin's persistent storage.
+   */
+  protected get storage(): PluginStorage {
+    return this.context.storage;
+  }
+
+  /**
+   * Shorthand for accessing the audit log.
+   */
+  protected get audit(): PluginAuditLog {
+    return this.context.audit;
+  }
+
   /**
    * Subscribes to a server event with automatic cleanup.
    *
@@ -317,7 +412,10 @@ export abstract class BasePlugin<
     handler: (data: SquadEventMap[K]) => void | Promise<void>,
   ): Unsubscribe {
     // Cast handler to satisfy generic context.events type
-    const unsubscribe = this.context.events.on(event, handler as (data: unknown) => void | Promise<void>);
+    const unsubscribe = this.context.events.on(
+      event,
+      this.subscriptions.wrapHandler(event, handler as (data: unknown) => void | Promise<void>),
+    );
     return this.subscriptions.trackSubscription(unsubscribe);
   }
 
@@ -345,7 +443,10 @@ export abstract class BasePlugin<
     handler: (data: SquadEventMap[K]) => void | Promise<void>,
   ): Unsubscribe {
     // Cast handler to satisfy generic context.events type
-    const unsubscribe = this.context.events.once(event, handler as (data: unknown) => void | Promise<void>);
+    const unsubscribe = this.context.events.once(
+      event,
+      this.subscriptions.wrapHandler(event, handler as (data: unknown) => void | Promise<void>),
+    );
     return this.subscriptions.trackSubscription(unsubscribe);
   }
 
@@ -377,6 +478,174 @@ export abstract class BasePlugin<
     return this.context.events.waitFor(event, options) as Promise<SquadEventMap[K]>;
   }
 
+  // ===========================================================================
+  // Convenience Methods - Log Rules
+  // ===========================================================================
+
+  /**
+   * Registers a custom log parsing rule with automatic cleanup.
+   *
+   * The rule is removed when the plugin unmounts. Matches are emitted
+   * as `CUSTOM_LOG_EVENT`; use {@link onLogEvent} to receive them.
+   *
+   * @param definition - The rule
+   * @returns Function to remove the rule early
+   * @throws {Error} If the rule is invalid
+   *
+   * @example
+   * ```typescript
+   * async mount() {
+   *   this.registerLogRule({
+   *     name: 'vehicle-spawned',
+   *     event: 'VEHICLE_SPAWNED',
+   *     pattern: String.raw`LogSquadVehicleSpawner: Spawned (\w+)`,
+   *     fields: { vehicle: 1 },
+   *   });
+   *
+   *   this.onLogEvent<{ vehicle: string }>('VEHICLE_SPAWNED', (event) => {
+   *     this.log.info(`Spawned ${event.data.vehicle}`);
+   *   });
+   * }
+   * ```
+   */
+  protected registerLogRule(definition: CustomLogRuleDefinition): Unsubscribe {
+    const unregister = this.context.logRules.register(definition);
+    return this.subscriptions.trackSubscription(unregister);
+  }
+
+  /**
+   * Subscribes to custom log events with the given event name.
+   *
+   * @param event - The rule's event name
+   * @param handler - Callback to invoke for each match
+   * @returns Unsubscribe function (rarely needed - cleanup is automatic)
+   */
+  protected onLogEvent<TData extends Record<string, unknown>>(
+    event: string,
+    handler: (data: CustomLogEvent<TData>) => void | Promise<void>,
+  ): Unsubscribe {
+    return this.on('CUSTOM_LOG_EVENT', (data) => {
+      if (data.event === event) {
+        return handler(data as unknown as CustomLogEvent<TData>);
+      }
+    });
+  }
+
+  // ===========================================================================
+  // Convenience Methods - Plugin Services
+  // ===========================================================================
+
+  /**
+   * Exposes a service object to other plugins.
+   *
+   * The service is withdrawn when the plugin unmounts.
+   *
+   * @param service - The object other plugins may use
+   *
+   * @example
+   * ```typescript
+   * export interface RoundStatsService {
+   *   getStats(): readonly PlayerRoundStats[];
+   * }
+   *
+   * async mount() {
+   *   this.provide<RoundStatsService>({ getStats: () => [...this.stats.values()] });
+   * }
+   * ```
+   */
+  protected provide<T>(service: T): void {
+    this.context.provide(service);
+  }
+
+  /**
+   * Gets the service another plugin exposes.
+   *
+   * List the plugin in `meta.dependencies` so it is mounted first.
+   *
+   * @param name - The providing plugin's name
+   * @returns The service, or undefined if the plugin is not running or
+   *   provides none
+   */
+  protected getPlugin<T>(name: string): T | undefined {
+    return this.context.getPlugin<T>(name);
+  }
+
+  /**
+   * Emits a custom event for other plugins, as PLUGIN_EVENT tagged with
+   * this plugin's name.
+   *
+   * @param event - The event name
+   * @param data - Event data
+   */
+  protected emit(event: string, data?: unknown): void {
+    this.context.events.emit(event, data);
+  }
+
+  /**
+   * Subscribes to custom events emitted by another plugin.
+   *
+   * @param plugin - The emitting plugin's name
+   * @param event - The event name
+   * @param handler - Callback to invoke for each event
+   * @returns Unsubscribe function (rarely needed - cleanup is automatic)
+   *
+   * @example
+   * ```typescript
+   * this.onPluginEvent<RoundStats>('RoundStatsSummary', 'ROUND_STATS', (event) => {
+   *   this.log.info(`Top killer: ${event.data.players[0]?.name}`);
+   * });
+   * ```
+   */
+  protected onPluginEvent<TData>(
+    plugin: string,
+    event: string,
+    handler: (data: PluginEvent<TData>) => void | Promise<void>,
+  ): Unsubscribe {
+    return this.on('PLUGIN_EVENT', (data) => {
+      if (data.plugin === plugin && data.event === event) {
+        return handler(data as PluginEvent<TData>);
+      }
+    });
+  }
+
+  // ===========================================================================
+  // Convenience Methods - Chat Commands
+  // ===========================================================================
+
+  /**
+   * Registers a chat command with automatic cleanup.
+   *
+   * The command is removed when the plugin unmounts. The server checks
+   * the channel, permission and cooldown and parses the arguments
+   * before calling the handler.
+   *
+   * @param definition - The command
+   * @returns Function to remove the command early
+   * @throws {Error} If the definition is invalid or a name is taken
+   *
+   * @example
+   * ```typescript
+   * async mount() {
+   *   this.registerCommand({
+   *     name: 'warn',
+   *     description: 'Warn a player',
+   *     permission: 'kick',
+   *     args: { target: { type: 'player' }, message: { type: 'text' } },
+   *     handler: async ({ args, reply }) => {
+   *       await this.rcon.warn(args.target.eosID, args.message);
+   *       await reply(`Warned ${args.target.name}`);
+   *     },
+   *   });
+   * }
+   * ```
+   */
+  protected registerCommand<TArgs extends ChatCommandArguments>(
+    definition: ChatCommandDefinition<TArgs>,
+  ): Unsubscribe {
+    const unregister = this.context.commands.register(definition);
+    return this.subscriptions.trackSubscription(unregister);
+  }
+
   // ===========================================================================
   // Convenience Methods - Timers
   // ===========================================================================
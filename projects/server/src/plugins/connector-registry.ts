@@ -59,6 +59,14 @@ interface RegisteredConnector {
 export interface ConnectorRegistryConfig {
   /** Logger instance. */
   readonly logger: ModuleLogger;
+
+  /**
+   * Parent registry consulted when a connector is not registered locally.
+   *
+   * Used to share global connectors across per-server registries. The
+   * parent's lifecycle is owned by whoever created it.
+   */
+  readonly parent?: ConnectorRegistry;
 }
 
 /**
@@ -101,8 +109,12 @@ export class ConnectorRegistry {
   /** Registered connectors by name. */
   private readonly connectors = new Map<string, RegisteredConnector>();
 
+  /** Parent registry for shared connectors. */
+  private readonly parent: ConnectorRegistry | undefined;
+
   constructor(config: ConnectorRegistryConfig) {
     this.logger = config.logger;
+    this.parent = config.parent;
   }
 
   /**
@@ -189,7 +201,7 @@ export class ConnectorRegistry {
   async get<T extends Connector>(name: string): Promise<T | undefined> {
     const registered = this.connectors.get(name);
     if (!registered) {
-      return undefined;
+      return this.parent?.get<T>(name);
     }
 
     // Return cached instance if already initialized
@@ -226,7 +238,10 @@ export class ConnectorRegistry {
    */
   getSync<T extends Connector>(name: string): T | undefined {
     const registered = this.connectors.get(name);
-    if (!registered || !registered.initialized) {
+    if (!registered) {
+      return this.parent?.getSync<T>(name);
+    }
+    if (!registered.initialized) {
       return undefined;
     }
     return registered.instance as T | undefined;
@@ -239,7 +254,7 @@ export class ConnectorRegistry {
    * @returns True if the connector is registered
    */
   has(name: string): boolean {
-    return this.connectors.has(name);
+    return this.connectors.has(name) || (this.parent?.has(name) ?? false);
   }
 
   /**
@@ -250,6 +265,9 @@ export class ConnectorRegistry {
    */
   isConnected(name: string): boolean {
     const registered = this.connectors.get(name);
+    if (!registered) {
+      return this.parent?.isConnected(name) ?? false;
+    }
     return Boolean(registered?.initialized && registered.instance?.isConnected === true);
   }
 
@@ -23,6 +23,8 @@ export const PluginErrorType = {
   RCON: 'RCON',
   /** Error during option validation. */
   VALIDATION: 'VALIDATION',
+  /** Handler or timer exceeded the plugin's resource budget. */
+  BUDGET: 'BUDGET',
   /** Unknown/unclassified error. */
   UNKNOWN: 'UNKNOWN',
 } as const;
@@ -121,6 +123,24 @@ export class PluginError extends Error {
     );
   }
 
+  /**
+   * Creates a resource budget error.
+   */
+  static budget(
+    pluginName: string,
+    key: string,
+    message: string,
+    violation: string,
+  ): PluginError {
+    return new PluginError(
+      pluginName,
+      message,
+      PluginErrorType.BUDGET,
+      undefined,
+      { key, violation },
+    );
+  }
+
   /**
    * Creates an RCON error.
    */
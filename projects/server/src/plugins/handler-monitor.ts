@@ -0,0 +1,438 @@
+/**
+ * @squadscript/server
+ *
+ * Handler Monitor for keeping plugin event handlers and timers in budget.
+ *
+ * Every event handler and timer callback a plugin registers runs through
+ * the plugin's monitor, which measures how long it runs, how long it
+ * waited, how long it blocked the event loop and how many run at once.
+ * Runs beyond the concurrency budget are queued; runs that take too
+ * long, block too long, wait too long or don't fit in the queue are
+ * reported as budget violations, which count towards the plugin's
+ * circuit breaker like thrown errors do.
+ *
+ * Plugins in the server process share its heap, so memory is only
+ * measured for plugins that report their own, such as sandboxed ones.
+ *
+ * @module
+ */
+
+/**
+ * Resource budget of a plugin.
+ */
+export interface HandlerBudget {
+  /** Longest a handler may run, including awaited work, in milliseconds. */
+  readonly maxHandlerDuration: number;
+
+  /** Longest a handler may block the event loop before its first await, in milliseconds. */
+  readonly maxBlockingDuration: number;
+
+  /** Runs of one handler key that may be in progress at once; more are queued. */
+  readonly maxConcurrency: number;
+
+  /** Runs that may wait per handler key; further runs are dropped. */
+  readonly maxQueueSize: number;
+
+  /** Longest a queued run may wait in milliseconds before it is dropped. */
+  readonly maxQueueDelay: number;
+
+  /** Intervals and timeouts the plugin may have at once. */
+  readonly maxTimers: number;
+
+  /** Heap a plugin with its own heap may use, in megabytes. */
+  readonly maxMemory: number;
+}
+
+/**
+ * Default plugin budget.
+ */
+export const DEFAULT_HANDLER_BUDGET: HandlerBudget = {
+  maxHandlerDuration: 2_000,
+  maxBlockingDuration: 200,
+  maxConcurrency: 4,
+  maxQueueSize: 100,
+  maxQueueDelay: 5_000,
+  maxTimers: 50,
+  maxMemory: 256,
+};
+
+/**
+ * Budget limits to override; unset limits keep their previous value.
+ */
+export type HandlerBudgetOverrides = {
+  readonly [K in keyof HandlerBudget]?: number | undefined;
+};
+
+/**
+ * Merges budget overrides over DEFAULT_HANDLER_BUDGET, later ones winning.
+ *
+ * @param overrides - Budget overrides, e.g. server-wide then per plugin
+ * @returns The effective budget
+ */
+export function resolveBudget(...overrides: Array<HandlerBudgetOverrides | undefined>): HandlerBudget {
+  const budget: Record<keyof HandlerBudget, number> = { ...DEFAULT_HANDLER_BUDGET };
+  for (const override of overrides) {
+    for (const [limit, value] of Object.entries(override ?? {})) {
+      if (value !== undefined) {
+        budget[limit as keyof HandlerBudget] = value;
+      }
+    }
+  }
+  return budget;
+}
+
+/**
+ * Statistics for one handler key (an event name, or `interval:<label>`
+ * and `timeout:<label>` for timers).
+ */
+export interface HandlerStats {
+  /** Event name or timer label. */
+  readonly key: string;
+
+  /** Completed runs. */
+  readonly calls: number;
+
+  /** Runs that threw. */
+  readonly errors: number;
+
+  /** Runs in progress. */
+  readonly running: number;
+
+  /** Most runs that were in progress at once. */
+  readonly peakConcurrency: number;
+
+  /** Runs waiting for a free slot. */
+  readonly queued: number;
+
+  /** Runs that had to wait for a free slot. */
+  readonly throttled: number;
+
+  /** Runs dropped because the queue was full or they waited too long. */
+  readonly dropped: number;
+
+  /** Runs skipped while the plugin's circuit breaker was open. */
+  readonly skipped: number;
+
+  /** Runs that took longer than `maxHandlerDuration`. */
+  readonly slow: number;
+
+  /** Runs that blocked the event loop longer than `maxBlockingDuration`. */
+  readonly blocking: number;
+
+  /** Longest the event loop was blocked by a run in milliseconds. */
+  readonly maxBlockingMs: number;
+
+  /** Average run time in milliseconds. */
+  readonly avgDurationMs: number;
+
+  /** Longest run time in milliseconds. */
+  readonly maxDurationMs: number;
+
+  /** Average time spent queued in milliseconds. */
+  readonly avgQueueDelayMs: number;
+
+  /** Longest time spent queued in milliseconds. */
+  readonly maxQueueDelayMs: number;
+}
+
+/**
+ * Types of budget violations.
+ */
+export const BudgetViolationType = {
+  /** A handler ran longer than `maxHandlerDuration`. */
+  SLOW: 'SLOW',
+  /** A handler blocked the event loop longer than `maxBlockingDuration`. */
+  BLOCKING: 'BLOCKING',
+  /** A run was dropped because the queue was full. */
+  QUEUE_FULL: 'QUEUE_FULL',
+  /** A run was dropped after waiting longer than `maxQueueDelay`. */
+  QUEUE_DELAY: 'QUEUE_DELAY',
+  /** The plugin tried to create more than `maxTimers` timers. */
+  TIMERS: 'TIMERS',
+  /** The plugin's heap grew beyond `maxMemory`. */
+  MEMORY: 'MEMORY',
+} as const;
+
+export type BudgetViolationType = (typeof BudgetViolationType)[keyof typeof BudgetViolationType];
+
+/**
+ * A budget violation.
+ */
+export interface BudgetViolation {
+  /** What was exceeded. */
+  readonly type: BudgetViolationType;
+
+  /** Handler key the violation happened in. */
+  readonly key: string;
+
+  /** Human-readable description. */
+  readonly message: string;
+}
+
+/**
+ * Handler monitor configuration.
+ */
+export interface HandlerMonitorConfig {
+  /** Budget overrides; unset limits use DEFAULT_HANDLER_BUDGET. */
+  readonly budget?: HandlerBudgetOverrides;
+
+  /** Whether the plugin may run handlers (false while its circuit is open). */
+  readonly isAllowed?: () => boolean;
+
+  /** Called after a run that finished in time without throwing. */
+  readonly onSuccess?: () => void;
+
+  /** Called when a handler throws. */
+  readonly onError?: (key: string, error: Error) => void;
+
+  /** Called when a budget is exceeded. */
+  readonly onViolation?: (violation: BudgetViolation) => void;
+}
+
+/**
+ * Mutable statistics of a handler key.
+ */
+interface HandlerRecord {
+  calls: number;
+  errors: number;
+  running: number;
+  peakConcurrency: number;
+  throttled: number;
+  dropped: number;
+  skipped: number;
+  slow: number;
+  blocking: number;
+  maxBlockingMs: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  totalQueueDelayMs: number;
+  maxQueueDelayMs: number;
+
+  /** Queued runs, resolved when a slot is handed to them. */
+  readonly queue: Array<() => void>;
+}
+
+/**
+ * Measures and limits the handlers of one plugin.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new HandlerMonitor({
+ *   budget: { maxHandlerDuration: 500 },
+ *   onViolation: (violation) => log.warn(violation.message),
+ * });
+ *
+ * events.on('PLAYER_DAMAGED', (event) => monitor.run('PLAYER_DAMAGED', () => handler(event)));
+ *
+ * console.log(monitor.getStats());
+ * ```
+ */
+export class HandlerMonitor {
+  /** Effective budget. */
+  readonly budget: HandlerBudget;
+
+  private readonly config: HandlerMonitorConfig;
+  private readonly records = new Map<string, HandlerRecord>();
+  private heapUsed: number | null = null;
+
+  constructor(config: HandlerMonitorConfig = {}) {
+    this.config = config;
+    this.budget = resolveBudget(config.budget);
+  }
+
+  /**
+   * Runs a handler within the budget.
+   *
+   * The handler starts synchronously when a slot is free, so handlers
+   * still see events in emission order. Errors are reported to
+   * `onError`, never thrown.
+   *
+   * @param key - Event name or timer label
+   * @param handler - The handler to run
+   */
+  async run(key: string, handler: () => void | Promise<void>): Promise<void> {
+    const record = this.getRecord(key);
+    if (!this.isAllowed()) {
+      record.skipped++;
+      return;
+    }
+
+    if (record.running >= this.budget.maxConcurrency) {
+      if (record.queue.length >= this.budget.maxQueueSize) {
+        record.dropped++;
+        this.violate(BudgetViolationType.QUEUE_FULL, key,
+          `"${key}" dropped a run: ${record.queue.length} runs are already queued`);
+        return;
+      }
+
+      // The finishing run hands its slot over, so `running` stays counted
+      record.throttled++;
+      const queuedAt = performance.now();
+      await new Promise<void>((resolve) => record.queue.push(resolve));
+
+      const delay = performance.now() - queuedAt;
+      record.totalQueueDelayMs += delay;
+      record.maxQueueDelayMs = Math.max(record.maxQueueDelayMs, delay);
+
+      if (delay > this.budget.maxQueueDelay) {
+        record.dropped++;
+        this.release(record);
+        this.violate(BudgetViolationType.QUEUE_DELAY, key,
+          `"${key}" dropped a run that waited ${Math.round(delay)}ms`);
+        return;
+      }
+      if (!this.isAllowed()) {
+        record.skipped++;
+        this.release(record);
+        return;
+      }
+    } else {
+      record.running++;
+    }
+    record.peakConcurrency = Math.max(record.peakConcurrency, record.running);
+
+    const startTime = performance.now();
+    let blockingMs: number | undefined;
+    let failed = false;
+    try {
+      const pending = handler();
+      // Nothing else can run until the handler first awaits
+      blockingMs = performance.now() - startTime;
+      await pending;
+    } catch (error) {
+      failed = true;
+      record.errors++;
+      this.config.onError?.(key, error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      const durationMs = performance.now() - startTime;
+      blockingMs ??= durationMs;
+      record.calls++;
+      record.totalDurationMs += durationMs;
+      record.maxDurationMs = Math.max(record.maxDurationMs, durationMs);
+      record.maxBlockingMs = Math.max(record.maxBlockingMs, blockingMs);
+      this.release(record);
+
+      const blocking = blockingMs > this.budget.maxBlockingDuration;
+      const slow = durationMs > this.budget.maxHandlerDuration;
+      if (blocking) record.blocking++;
+      if (slow) record.slow++;
+
+      if (blocking) {
+        this.violate(BudgetViolationType.BLOCKING, key,
+          `"${key}" blocked the event loop for ${Math.round(blockingMs)}ms (budget ${this.budget.maxBlockingDuration}ms)`);
+      } else if (slow) {
+        this.violate(BudgetViolationType.SLOW, key,
+          `"${key}" took ${Math.round(durationMs)}ms (budget ${this.budget.maxHandlerDuration}ms)`);
+      } else if (!failed) {
+        this.config.onSuccess?.();
+      }
+    }
+  }
+
+  /**
+   * Reports a plugin trying to exceed its timer budget.
+   *
+   * @param key - Timer label
+   */
+  reportTimerLimit(key: string): void {
+    this.violate(BudgetViolationType.TIMERS, key,
+      `"${key}" exceeds the budget of ${this.budget.maxTimers} timers`);
+  }
+
+  /**
+   * Records the heap size of a plugin with its own heap and checks it
+   * against the memory budget.
+   *
+   * @param bytes - Heap in use
+   * @returns Whether the plugin is within its budget
+   */
+  reportMemory(bytes: number): boolean {
+    this.heapUsed = bytes;
+    const megabytes = bytes / (1024 * 1024);
+    if (megabytes <= this.budget.maxMemory) return true;
+
+    this.violate(BudgetViolationType.MEMORY, 'memory',
+      `Heap of ${Math.round(megabytes)}MB exceeds the budget of ${this.budget.maxMemory}MB`);
+    return false;
+  }
+
+  /**
+   * Gets the heap size last reported with `reportMemory()`.
+   *
+   * @returns Heap in use in bytes, or null if the plugin doesn't report it
+   */
+  getHeapUsed(): number | null {
+    return this.heapUsed;
+  }
+
+  /**
+   * Gets statistics for every handler key, busiest first.
+   */
+  getStats(): HandlerStats[] {
+    return Array.from(this.records.entries())
+      .map(([key, record]) => ({
+        key,
+        calls: record.calls,
+        errors: record.errors,
+        running: record.running,
+        peakConcurrency: record.peakConcurrency,
+        queued: record.queue.length,
+        throttled: record.throttled,
+        dropped: record.dropped,
+        skipped: record.skipped,
+        slow: record.slow,
+        blocking: record.blocking,
+        maxBlockingMs: record.maxBlockingMs,
+        avgDurationMs: record.calls > 0 ? record.totalDurationMs / record.calls : 0,
+        maxDurationMs: record.maxDurationMs,
+        avgQueueDelayMs: record.throttled > 0 ? record.totalQueueDelayMs / record.throttled : 0,
+        maxQueueDelayMs: record.maxQueueDelayMs,
+      }))
+      .sort((a, b) => b.avgDurationMs * b.calls - a.avgDurationMs * a.calls);
+  }
+
+  private isAllowed(): boolean {
+    return this.config.isAllowed?.() ?? true;
+  }
+
+  /**
+   * Frees a slot, handing it to the next queued run if there is one.
+   */
+  private release(record: HandlerRecord): void {
+    const next = record.queue.shift();
+    if (next) {
+      next();
+    } else {
+      record.running--;
+    }
+  }
+
+  private violate(type: BudgetViolationType, key: string, message: string): void {
+    this.config.onViolation?.({ type, key, message });
+  }
+
+  private getRecord(key: string): HandlerRecord {
+    let record = this.records.get(key);
+    if (!record) {
+      record = {
+        calls: 0,
+        errors: 0,
+        running: 0,
+        peakConcurrency: 0,
+        throttled: 0,
+        dropped: 0,
+        skipped: 0,
+        slow: 0,
+        blocking: 0,
+        maxBlockingMs: 0,
+        totalDurationMs: 0,
+        maxDurationMs: 0,
+        totalQueueDelayMs: 0,
+        maxQueueDelayMs: 0,
+        queue: [],
+      };
+      this.records.set(key, record);
+    }
+    return record;
+  }
+}
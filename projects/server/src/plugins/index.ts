@@ -10,7 +10,10 @@
  * - PluginRunner: Executes plugin lifecycle methods
  * - OptionsResolver: Validates and resolves plugin options
  * - SubscriptionManager: Tracks resources for automatic cleanup
+ * - HandlerMonitor: Measures handlers and keeps them within budget
  * - ConnectorRegistry: Manages shared connectors
+ * - Server adapter and plugin sources: Wire config and SquadServer into the manager
+ * - Installer and sandbox: Third-party packages running in workers
  * - Error handling: Circuit breaker pattern for plugin isolation
  *
  * @module
@@ -25,6 +28,10 @@ export {
   type PluginConfig,
   type PluginServerInterface,
   type PluginManagerConfig,
+  type PluginReconfiguration,
+  type PersistedPluginState,
+  type PluginServiceLinks,
+  type PluginRuntimeStats,
   type MountAllResult,
 } from './manager.js';
 
@@ -32,6 +39,7 @@ export {
 export {
   PluginLoader,
   PluginLoadError,
+  validatePluginMeta,
   type PluginClass,
   type LoadedPlugin,
   type MetaValidationResult,
@@ -58,6 +66,19 @@ export {
 // Subscription manager
 export { SubscriptionManager } from './subscription-manager.js';
 
+// Handler budgets
+export {
+  HandlerMonitor,
+  BudgetViolationType,
+  DEFAULT_HANDLER_BUDGET,
+  resolveBudget,
+  type HandlerBudget,
+  type HandlerBudgetOverrides,
+  type HandlerStats,
+  type BudgetViolation,
+  type HandlerMonitorConfig,
+} from './handler-monitor.js';
+
 // Connector registry
 export {
   ConnectorRegistry,
@@ -65,6 +86,54 @@ export {
   type ConnectorRegistryConfig,
 } from './connector-registry.js';
 
+// Plugin storage
+export {
+  MemoryStorageProvider,
+  DatabaseStorageProvider,
+  type PluginStorageProvider,
+} from './storage.js';
+
+// Plugin audit log
+export {
+  DatabaseAuditProvider,
+  toAuditDetails,
+  type PluginAuditProvider,
+} from './audit.js';
+
+// Plugin packages
+export {
+  RCON_CAPABILITIES,
+  DEFAULT_MANIFEST_MAIN,
+  hasCapability,
+  compareVersions,
+  parseManifest,
+} from './manifest.js';
+export {
+  PluginInstaller,
+  type InstalledPluginPackage,
+  type PluginInstallResult,
+  type PluginInstallerOptions,
+} from './installer.js';
+export {
+  createSandboxedPlugin,
+  getPluginManifest,
+  type SandboxOptions,
+  type SandboxedPluginClass,
+} from './sandbox.js';
+
+// Server adapter
+export { createPluginServerAdapter } from './server-adapter.js';
+
+// Plugin sources
+export {
+  loadBuiltinPlugins,
+  resolvePluginSources,
+  resolveConnectorSources,
+  type PluginSourceEntry,
+  type ConnectorSourceEntries,
+  type ResolvePluginSourcesOptions,
+} from './plugin-sources.js';
+
 // Error handling
 export {
   PluginError,
@@ -0,0 +1,291 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin package installer.
+ *
+ * Packages uploaded from the dashboard are stored one directory per
+ * plugin, holding `plugin.json` and the bundled module:
+ *
+ * ```
+ * <dir>/WelcomeBack/plugin.json
+ * <dir>/WelcomeBack/index.js
+ * ```
+ *
+ * Installing a newer version replaces the directory; older and equal
+ * versions are refused. The replaced version is kept as
+ * `<dir>/.WelcomeBack.previous` until the upgrade is confirmed with
+ * discardPrevious() or undone with restorePrevious().
+ *
+ * @module
+ */
+
+import { access, mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ModuleLogger } from '@squadscript/logger';
+import type { PluginManifest, PluginMeta, Result } from '@squadscript/types';
+import { Ok, Err } from '@squadscript/types';
+import { ErrorCode, SquadServerError } from '../errors.js';
+import { compareVersions, DEFAULT_MANIFEST_MAIN, parseManifest } from './manifest.js';
+
+/** Manifest file name inside a package directory. */
+const MANIFEST_FILE = 'plugin.json';
+
+/** Directory name the version replaced by an upgrade is kept under. */
+const previousDir = (name: string) => `.${name}.previous`;
+
+/**
+ * An installed plugin package.
+ */
+export interface InstalledPluginPackage {
+  /** The validated manifest. */
+  readonly manifest: PluginManifest;
+
+  /** Directory holding the package. */
+  readonly dir: string;
+
+  /** Absolute path of the bundled module. */
+  readonly entry: string;
+}
+
+/**
+ * Result of installing a package.
+ */
+export interface PluginInstallResult {
+  /** The package as installed. */
+  readonly installed: InstalledPluginPackage;
+
+  /** Version it replaced, or null for a new install. */
+  readonly previousVersion: string | null;
+}
+
+/**
+ * Options for creating a PluginInstaller.
+ */
+export interface PluginInstallerOptions {
+  /** Directory packages are installed into. Created when needed. */
+  readonly dir: string;
+
+  /** Logger instance. */
+  readonly logger: ModuleLogger;
+}
+
+/**
+ * Stores plugin packages on disk.
+ *
+ * @example
+ * ```typescript
+ * const installer = new PluginInstaller({ dir: '/data/plugins/main', logger });
+ *
+ * const result = await installer.install(manifest, code);
+ * if (result.ok) {
+ *   await pluginManager.installPlugin({
+ *     plugin: createSandboxedPlugin(result.value.installed),
+ *   });
+ * }
+ * ```
+ */
+export class PluginInstaller {
+  private readonly dir: string;
+  private readonly log: ModuleLogger;
+
+  constructor(options: PluginInstallerOptions) {
+    this.dir = options.dir;
+    this.log = options.logger;
+  }
+
+  /**
+   * Lists installed packages. Packages with a missing or invalid
+   * manifest are logged and skipped.
+   */
+  async list(): Promise<InstalledPluginPackage[]> {
+    let names: string[];
+    try {
+      const entries = await readdir(this.dir, { withFileTypes: true });
+      names = entries
+        .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map((entry) => entry.name)
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const packages: InstalledPluginPackage[] = [];
+    for (const name of names) {
+      try {
+        const installed = await this.read(name);
+        if (installed) {
+          packages.push(installed);
+        }
+      } catch (error) {
+        this.log.warn(`Skipping plugin package "${name}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return packages;
+  }
+
+  /**
+   * Gets an installed package by plugin name.
+   */
+  async get(name: string): Promise<InstalledPluginPackage | null> {
+    try {
+      return await this.read(name);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Checks that a package version may be installed: either nothing is
+   * installed under its name or the installed version is older.
+   *
+   * @returns The installed package it would replace, if any
+   */
+  async checkVersion(
+    meta: PluginMeta,
+  ): Promise<Result<InstalledPluginPackage | null, SquadServerError>> {
+    const existing = await this.get(meta.name);
+    if (existing && compareVersions(meta.version, existing.manifest.meta.version) <= 0) {
+      return Err(new SquadServerError(
+        ErrorCode.PLUGIN_VERSION_CONFLICT,
+        `${meta.name} ${existing.manifest.meta.version} is installed; only newer versions can be installed over it`,
+        { installed: existing.manifest.meta.version, version: meta.version },
+      ));
+    }
+    return Ok(existing);
+  }
+
+  /**
+   * Installs a package, or upgrades it if an older version is installed.
+   *
+   * @param manifest - Parsed `plugin.json`
+   * @param code - The bundled module
+   */
+  async install(
+    manifest: unknown,
+    code: string,
+  ): Promise<Result<PluginInstallResult, SquadServerError>> {
+    const parsed = parseManifest(manifest);
+    if (!parsed.ok) {
+      return Err(new SquadServerError(
+        ErrorCode.PLUGIN_MANIFEST_INVALID,
+        `Invalid plugin manifest: ${parsed.error.join('; ')}`,
+        { errors: parsed.error },
+      ));
+    }
+
+    const { meta } = parsed.value;
+    const checked = await this.checkVersion(meta);
+    if (!checked.ok) {
+      return checked;
+    }
+    const existing = checked.value;
+
+    // Write next to the target, then swap, so a failed write leaves the old version
+    const target = join(this.dir, meta.name);
+    const staging = join(this.dir, `.${meta.name}-${Date.now()}`);
+    await mkdir(staging, { recursive: true });
+    try {
+      await writeFile(join(staging, MANIFEST_FILE), JSON.stringify(parsed.value, null, 2));
+      await writeFile(join(staging, parsed.value.main ?? DEFAULT_MANIFEST_MAIN), code);
+
+      if (existing) {
+        const previous = join(this.dir, previousDir(meta.name));
+        await rm(previous, { recursive: true, force: true });
+        await rename(target, previous);
+        await rename(staging, target);
+      } else {
+        await rename(staging, target);
+      }
+    } catch (error) {
+      await rm(staging, { recursive: true, force: true });
+      throw error;
+    }
+
+    this.log.info(existing
+      ? `Upgraded plugin package ${meta.name} ${existing.manifest.meta.version} -> ${meta.version}`
+      : `Installed plugin package ${meta.name} ${meta.version}`);
+
+    return Ok({
+      installed: this.describe(parsed.value),
+      previousVersion: existing?.manifest.meta.version ?? null,
+    });
+  }
+
+  /**
+   * Puts back the version the last upgrade of a package replaced.
+   *
+   * @returns The restored package, or null if there is nothing to restore
+   */
+  async restorePrevious(name: string): Promise<InstalledPluginPackage | null> {
+    const previous = join(this.dir, previousDir(name));
+    try {
+      await access(previous);
+    } catch {
+      return null;
+    }
+
+    await rm(join(this.dir, name), { recursive: true, force: true });
+    await rename(previous, join(this.dir, name));
+
+    const restored = await this.get(name);
+    if (restored) {
+      this.log.info(`Restored plugin package ${name} ${restored.manifest.meta.version}`);
+    }
+    return restored;
+  }
+
+  /**
+   * Deletes the version the last upgrade of a package replaced.
+   */
+  async discardPrevious(name: string): Promise<void> {
+    await rm(join(this.dir, previousDir(name)), { recursive: true, force: true });
+  }
+
+  /**
+   * Deletes an installed package.
+   *
+   * @returns Whether the package was installed
+   */
+  async uninstall(name: string): Promise<boolean> {
+    if (!(await this.get(name))) return false;
+    await rm(join(this.dir, name), { recursive: true, force: true });
+    await this.discardPrevious(name);
+    this.log.info(`Removed plugin package ${name}`);
+    return true;
+  }
+
+  /**
+   * Reads a package directory.
+   *
+   * @returns The package, or null if nothing is installed under this name
+   * @throws {Error} If the manifest is invalid or belongs to another plugin
+   */
+  private async read(name: string): Promise<InstalledPluginPackage | null> {
+    let raw: string;
+    try {
+      raw = await readFile(join(this.dir, name, MANIFEST_FILE), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const parsed = parseManifest(JSON.parse(raw));
+    if (!parsed.ok) {
+      throw new Error(parsed.error.join('; '));
+    }
+    if (parsed.value.meta.name !== name) {
+      throw new Error(`Manifest is for "${parsed.value.meta.name}"`);
+    }
+    return this.describe(parsed.value);
+  }
+
+  private describe(manifest: PluginManifest): InstalledPluginPackage {
+    const dir = join(this.dir, manifest.meta.name);
+    return {
+      manifest,
+      dir,
+      entry: join(dir, manifest.main ?? DEFAULT_MANIFEST_MAIN),
+    };
+  }
+}
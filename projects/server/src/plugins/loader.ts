@@ -175,7 +175,7 @@ export class PluginLoader {
     const PluginClass = Class as PluginClass;
 
     // Validate required static properties
-    const metaValidation = this.validateMeta(PluginClass.meta);
+    const metaValidation = validatePluginMeta(PluginClass.meta);
     if (!metaValidation.valid) {
       throw new PluginLoadError(
         source,
@@ -274,61 +274,6 @@ export class PluginLoader {
     return true;
   }
 
-  /**
-   * Validates plugin metadata.
-   */
-  private validateMeta(meta: unknown): MetaValidationResult {
-    const errors: string[] = [];
-
-    if (!meta || typeof meta !== 'object') {
-      return {
-        valid: false,
-        errors: ['Plugin is missing static meta property'],
-      };
-    }
-
-    const metaObj = meta as Record<string, unknown>;
-
-    // Required fields
-    if (typeof metaObj.name !== 'string' || metaObj.name.length === 0) {
-      errors.push('meta.name must be a non-empty string');
-    }
-
-    if (typeof metaObj.description !== 'string') {
-      errors.push('meta.description must be a string');
-    }
-
-    if (typeof metaObj.version !== 'string') {
-      errors.push('meta.version must be a string');
-    }
-
-    if (typeof metaObj.defaultEnabled !== 'boolean') {
-      errors.push('meta.defaultEnabled must be a boolean');
-    }
-
-    // Optional fields type checks
-    if (metaObj.author !== undefined && typeof metaObj.author !== 'string') {
-      errors.push('meta.author must be a string if provided');
-    }
-
-    if (metaObj.url !== undefined && typeof metaObj.url !== 'string') {
-      errors.push('meta.url must be a string if provided');
-    }
-
-    if (metaObj.dependencies !== undefined) {
-      if (!Array.isArray(metaObj.dependencies)) {
-        errors.push('meta.dependencies must be an array if provided');
-      } else if (!metaObj.dependencies.every((d) => typeof d === 'string')) {
-        errors.push('meta.dependencies must contain only strings');
-      }
-    }
-
-    return {
-      valid: errors.length === 0,
-      errors,
-    };
-  }
-
   /**
    * Batch loads multiple plugins.
    *
@@ -364,3 +309,61 @@ export class PluginLoader {
     return { loaded, errors };
   }
 }
+
+/**
+ * Validates plugin metadata.
+ *
+ * @param meta - A plugin class's `meta`, or a package manifest's
+ * @returns Whether it is valid, and what is wrong if not
+ */
+export function validatePluginMeta(meta: unknown): MetaValidationResult {
+  const errors: string[] = [];
+
+  if (!meta || typeof meta !== 'object') {
+    return {
+      valid: false,
+      errors: ['Plugin is missing static meta property'],
+    };
+  }
+
+  const metaObj = meta as Record<string, unknown>;
+
+  // Required fields
+  if (typeof metaObj.name !== 'string' || metaObj.name.length === 0) {
+    errors.push('meta.name must be a non-empty string');
+  }
+
+  if (typeof metaObj.description !== 'string') {
+    errors.push('meta.description must be a string');
+  }
+
+  if (typeof metaObj.version !== 'string') {
+    errors.push('meta.version must be a string');
+  }
+
+  if (typeof metaObj.defaultEnabled !== 'boolean') {
+    errors.push('meta.defaultEnabled must be a boolean');
+  }
+
+  // Optional fields type checks
+  if (metaObj.author !== undefined && typeof metaObj.author !== 'string') {
+    errors.push('meta.author must be a string if provided');
+  }
+
+  if (metaObj.url !== undefined && typeof metaObj.url !== 'string') {
+    errors.push('meta.url must be a string if provided');
+  }
+
+  if (metaObj.dependencies !== undefined) {
+    if (!Array.isArray(metaObj.dependencies)) {
+      errors.push('meta.dependencies must be an array if provided');
+    } else if (!metaObj.dependencies.every((d) => typeof d === 'string')) {
+      errors.push('meta.dependencies must contain only strings');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -16,18 +16,35 @@ import type {
   PluginEventEmitter,
   PluginRconExecutor,
   ServerStateReader,
+  PlayerProfileReader,
+  PluginBans,
   Unsubscribe,
   OptionsSpecification,
   ResolvedOptions,
   Connector,
+  CustomLogRuleDefinition,
+  PluginLogRules,
+  ChatCommandArguments,
+  ChatCommandDefinition,
+  PluginCommands,
+  PluginAuditLog,
   SquadEventMap,
 } from '@squadscript/types';
 import type { Logger, ModuleLogger } from '@squadscript/logger';
 import { PluginLoader, type LoadedPlugin, type PluginClass } from './loader.js';
 import { PluginRunner, type PluginInstance, type LifecycleResult } from './runner.js';
 import { OptionsResolver, OptionsValidationError } from './options-resolver.js';
-import { PluginErrorHandler, PluginError, PluginErrorType } from './error-handler.js';
+import {
+  PluginErrorHandler,
+  PluginError,
+  PluginErrorType,
+  type CircuitState,
+} from './error-handler.js';
+import type { HandlerBudget, HandlerBudgetOverrides, HandlerStats } from './handler-monitor.js';
 import { ConnectorRegistry, type ConnectorFactory } from './connector-registry.js';
+import { MemoryStorageProvider, type PluginStorageProvider } from './storage.js';
+import type { PluginAuditProvider } from './audit.js';
+import { formatBanInterval } from '../services/bans-cfg.js';
 
 /**
  * Plugin configuration from user config file.
@@ -41,6 +58,9 @@ export interface PluginConfig {
 
   /** Plugin-specific options. */
   readonly options?: Record<string, unknown>;
+
+  /** Handler budget overrides, merged over the manager's budget. */
+  readonly budget?: HandlerBudgetOverrides;
 }
 
 /**
@@ -68,6 +88,7 @@ export interface PluginServerInterface {
       event: K,
       options?: { signal?: AbortSignal; timeout?: number },
     ): Promise<SquadEventMap[K]>;
+    emit<K extends keyof SquadEventMap & string>(event: K, data: SquadEventMap[K]): void;
   };
 
   /** RCON command executor. */
@@ -75,6 +96,20 @@ export interface PluginServerInterface {
 
   /** Server state. */
   readonly state: ServerStateReader;
+
+  /** Custom log rules. `context.logRules` throws when omitted. */
+  readonly logRules?: {
+    /** Adds a rule, throwing if it is invalid or the name is taken. */
+    add(definition: CustomLogRuleDefinition): void;
+    /** Removes a rule by name. */
+    remove(name: string): boolean;
+  };
+
+  /** Chat commands. `context.commands` throws when omitted. */
+  readonly commands?: {
+    /** Adds a command, throwing if it is invalid or a name is taken. */
+    register<TArgs extends ChatCommandArguments>(definition: ChatCommandDefinition<TArgs>, owner: string): Unsubscribe;
+  };
 }
 
 /**
@@ -92,8 +127,121 @@ export interface PluginManagerConfig {
 
   /** Whether to isolate plugins (prevent one failure from affecting others). */
   readonly isolatePlugins?: boolean;
+
+  /** Shared connector registry used as a fallback for connector lookups. */
+  readonly sharedConnectors?: ConnectorRegistry;
+
+  /** Persistent player profiles. Lookups resolve to null when omitted. */
+  readonly profiles?: PlayerProfileReader;
+
+  /** Ban list behind `context.bans`. Bans go straight to RCON when omitted. */
+  readonly bans?: PluginBans;
+
+  /** Backing store for `context.storage`. Defaults to in-memory storage. */
+  readonly storage?: PluginStorageProvider;
+
+  /** Destination of `context.audit`. Entries are discarded when omitted. */
+  readonly audit?: PluginAuditProvider;
+
+  /** Handler budget for every plugin (default: DEFAULT_HANDLER_BUDGET). */
+  readonly budget?: HandlerBudgetOverrides;
+}
+
+/**
+ * Runtime changes to a plugin's configuration.
+ */
+export interface PluginReconfiguration {
+  /** New enabled state (unchanged if omitted). */
+  readonly enabled?: boolean;
+
+  /** Option overrides, merged over the current options (unchanged if omitted). */
+  readonly options?: Record<string, unknown>;
+}
+
+/**
+ * How a plugin is linked to others through `context.provide()` and
+ * `context.getPlugin()`.
+ */
+export interface PluginServiceLinks {
+  /** Whether the plugin currently provides a service. */
+  readonly providesService: boolean;
+
+  /** Plugins that fetched this plugin's service. */
+  readonly consumers: readonly string[];
+
+  /** Plugins whose services this plugin fetched. */
+  readonly providers: readonly string[];
+}
+
+/**
+ * How a mounted plugin uses its resource budget.
+ */
+export interface PluginRuntimeStats {
+  /** Circuit breaker state; handlers are skipped while it is OPEN. */
+  readonly circuit: CircuitState;
+
+  /** Consecutive errors and budget violations. */
+  readonly failures: number;
+
+  /** Intervals and timeouts the plugin has. */
+  readonly timers: number;
+
+  /** The plugin's effective budget. */
+  readonly budget: HandlerBudget;
+
+  /** Heap in use by a sandboxed plugin in bytes; null for plugins in the server process. */
+  readonly heapUsed: number | null;
+
+  /** Statistics per event and timer. */
+  readonly handlers: readonly HandlerStats[];
+}
+
+/**
+ * Persisted plugin state that overrides the file configuration on boot.
+ */
+export interface PersistedPluginState {
+  /** Plugin name (meta name, or configured identifier). */
+  readonly pluginName: string;
+
+  /** Whether the plugin is enabled. */
+  readonly enabled: boolean;
+
+  /** Option overrides, merged over the configured options. */
+  readonly options: Record<string, unknown> | null;
 }
 
+/**
+ * Profile reader used when no profile store is configured.
+ */
+const NO_PROFILES: PlayerProfileReader = {
+  get: async () => null,
+  getBySteamID: async () => null,
+};
+
+/**
+ * Ban list used when none is configured: bans are only sent over RCON.
+ */
+function createRconBans(rcon: PluginRconExecutor): PluginBans {
+  return {
+    ban: async (target, duration, reason) => {
+      const id = target.eosID ?? target.steamID;
+      if (!id) {
+        throw new Error('A Steam ID or EOS ID is required');
+      }
+      await rcon.ban(id, formatBanInterval(duration), reason);
+    },
+  };
+}
+
+/**
+ * Audit log used when no audit provider is configured.
+ */
+const NO_AUDIT: PluginAuditProvider = {
+  forPlugin: (): PluginAuditLog => ({
+    record: async () => {},
+  }),
+};
+
 /**
  * Result of mounting all plugins.
  */
@@ -163,6 +311,18 @@ export class PluginManager {
   /** Connector registry. */
   private readonly connectors: ConnectorRegistry;
 
+  /** Player profile reader shared by all plugin contexts. */
+  private readonly profiles: PlayerProfileReader;
+
+  /** Ban list shared by all plugin contexts. */
+  private readonly bans: PluginBans;
+
+  /** Provider of per-plugin storage. */
+  private readonly storage: PluginStorageProvider;
+
+  /** Provider of per-plugin audit logs. */
+  private readonly audit: PluginAuditProvider;
+
   /** Loaded plugins by name. */
   private readonly loadedPlugins = new Map<string, LoadedPlugin>();
 
@@ -172,10 +332,23 @@ export class PluginManager {
   /** Plugin configurations. */
   private readonly configs = new Map<string, PluginConfig>();
 
+  /** Persisted state overrides by plugin name. */
+  private readonly pluginStates = new Map<string, PersistedPluginState>();
+
+  /** Services exposed with `context.provide()`, by plugin name. */
+  private readonly services = new Map<string, unknown>();
+
+  /** Plugins that fetched each plugin's service, by provider name. */
+  private readonly consumers = new Map<string, Set<string>>();
+
   constructor(config: PluginManagerConfig) {
     this.logger = config.logger;
     this.log = config.logger.child('plugin-manager');
     this.server = config.server;
+    this.profiles = config.profiles ?? NO_PROFILES;
+    this.bans = config.bans ?? createRconBans(config.server.rcon);
+    this.storage = config.storage ?? new MemoryStorageProvider();
+    this.audit = config.audit ?? NO_AUDIT;
 
     // Initialize error handler
     this.errorHandler = new PluginErrorHandler({
@@ -188,6 +361,7 @@ export class PluginManager {
     // Initialize connector registry
     this.connectors = new ConnectorRegistry({
       logger: this.log.child('connectors'),
+      ...(config.sharedConnectors !== undefined && { parent: config.sharedConnectors }),
     });
 
     // Initialize options resolver with connector resolution
@@ -204,6 +378,7 @@ export class PluginManager {
     this.runner = new PluginRunner({
       logger: this.log.child('runner'),
       errorHandler: this.errorHandler,
+      ...(config.budget !== undefined && { budget: config.budget }),
     });
 
     // Store plugin configs
@@ -225,15 +400,23 @@ export class PluginManager {
   async loadAll(): Promise<number> {
     let loaded = 0;
 
-    for (const [name, config] of this.configs) {
+    for (const [name, baseConfig] of this.configs) {
+      const config = this.withPluginState(name, baseConfig);
+      this.configs.set(name, config);
+
       if (config.enabled === false) {
         this.log.debug(`Skipping disabled plugin: ${name}`);
         continue;
       }
 
       try {
-        await this.loadPlugin(config);
+        const loadedPlugin = await this.loadPlugin(config);
         loaded++;
+
+        // Path and package plugins are only identifiable by name once loaded
+        if (loadedPlugin.meta.name !== name) {
+          this.configs.set(name, this.withPluginState(loadedPlugin.meta.name, config));
+        }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         this.log.error(`Failed to load plugin "${name}": ${message}`);
@@ -262,7 +445,7 @@ export class PluginManager {
       if (!loadedPlugin) continue;
 
       const config = this.findConfig(pluginName);
-      if (!config) continue;
+      if (!config || config.enabled === false) continue;
 
       try {
         const result = await this.mountPlugin(loadedPlugin, config);
@@ -293,17 +476,23 @@ export class PluginManager {
   /**
    * Unmounts all running plugins.
    *
-   * Plugins are unmounted in reverse dependency order.
+   * Plugins are unmounted in reverse dependency order, and plugins that
+   * use another plugin's service are unmounted before it.
    */
   async unmountAll(): Promise<void> {
-    const orderedPlugins = this.resolveDependencyOrder().reverse();
+    const order = this.resolveDependencyOrder(true).reverse();
+    // Plugins caught in a cycle are missing from the order
+    const orderedPlugins = [
+      ...Array.from(this.instances.keys()).filter((name) => !order.includes(name)),
+      ...order,
+    ];
 
     for (const pluginName of orderedPlugins) {
       const instance = this.instances.get(pluginName);
       if (!instance || instance.state !== 'mounted') continue;
 
       try {
-        await this.runner.unmount(instance);
+        await this.unmountInstance(instance);
       } catch (error) {
         this.log.warn(`Error unmounting plugin "${pluginName}"`);
       }
@@ -321,6 +510,8 @@ export class PluginManager {
     this.errorHandler.dispose();
     this.loadedPlugins.clear();
     this.instances.clear();
+    this.services.clear();
+    this.consumers.clear();
   }
 
   // ===========================================================================
@@ -365,6 +556,280 @@ export class PluginManager {
     return instance?.state === 'mounted';
   }
 
+  /**
+   * Gets how a plugin is linked to others through services.
+   */
+  getServiceLinks(name: string): PluginServiceLinks {
+    return {
+      providesService: this.services.has(name),
+      consumers: Array.from(this.consumers.get(name) ?? []).sort(),
+      providers: Array.from(this.consumers)
+        .filter(([, consumers]) => consumers.has(name))
+        .map(([provider]) => provider)
+        .sort(),
+    };
+  }
+
+  /**
+   * Gets how a mounted plugin uses its resource budget.
+   *
+   * @returns The statistics, or undefined if the plugin has no instance
+   */
+  getPluginStats(name: string): PluginRuntimeStats | undefined {
+    const instance = this.instances.get(name);
+    if (!instance) return undefined;
+
+    const breaker = this.errorHandler.getCircuitBreaker(name);
+    return {
+      circuit: breaker.getState(),
+      failures: breaker.getFailureCount(),
+      timers: instance.plugin.activeIntervalCount + instance.plugin.activeTimeoutCount,
+      budget: instance.monitor.budget,
+      heapUsed: instance.monitor.getHeapUsed(),
+      handlers: instance.monitor.getStats(),
+    };
+  }
+
+  /**
+   * Gets the names of all configured plugins, including disabled ones.
+   *
+   * Loaded plugins are reported by their meta name; plugins that were never
+   * loaded fall back to their configured identifier.
+   */
+  getConfiguredPlugins(): readonly string[] {
+    const names = new Set(this.loadedPlugins.keys());
+    for (const [key, config] of this.configs) {
+      if (!this.isConfigLoaded(config)) {
+        names.add(key);
+      }
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Gets the current configuration of a plugin.
+   */
+  getPluginConfig(name: string): PluginConfig | undefined {
+    return this.findConfig(name);
+  }
+
+  // ===========================================================================
+  // Public API - Runtime Reconfiguration
+  // ===========================================================================
+
+  /**
+   * Applies persisted plugin state over the file configuration.
+   *
+   * Must be called before loadAll(). Persisted options are merged over
+   * the configured options and the persisted enabled flag wins.
+   */
+  applyPluginStates(states: Iterable<PersistedPluginState>): void {
+    for (const state of states) {
+      this.pluginStates.set(state.pluginName, state);
+    }
+  }
+
+  /**
+   * Enables, disables or reconfigures a single plugin at runtime.
+   *
+   * New options are validated through the OptionsResolver before the
+   * running instance is touched, so an invalid update leaves the plugin
+   * running with its previous configuration. Otherwise the plugin is
+   * unmounted and, if still enabled, remounted with a fresh instance.
+   *
+   * @param name - Plugin name
+   * @param update - Changes to apply
+   * @returns Result of the remount (or unmount when disabling)
+   * @throws {Error} If no plugin with this name is configured
+   */
+  async reconfigurePlugin(
+    name: string,
+    update: PluginReconfiguration,
+  ): Promise<LifecycleResult> {
+    const key = this.findConfigKey(name);
+    const current = key !== undefined ? this.configs.get(key) : undefined;
+    if (key === undefined || !current) {
+      throw new Error(`Plugin "${name}" is not configured`);
+    }
+
+    const next: PluginConfig = {
+      ...current,
+      enabled: update.enabled ?? current.enabled ?? true,
+      ...((update.options !== undefined || current.options !== undefined) && {
+        options: { ...current.options, ...update.options },
+      }),
+    };
+
+    let loadedPlugin = this.loadedPlugins.get(name);
+    if (next.enabled) {
+      loadedPlugin ??= await this.loadPlugin(next);
+
+      // Validate before tearing anything down
+      try {
+        this.optionsResolver.resolve(
+          loadedPlugin.meta.name,
+          loadedPlugin.optionsSpec,
+          next.options ?? {},
+        );
+      } catch (error) {
+        if (error instanceof OptionsValidationError) {
+          return {
+            success: false,
+            error: new PluginError(
+              loadedPlugin.meta.name,
+              error.message,
+              PluginErrorType.VALIDATION,
+              error,
+            ),
+            durationMs: 0,
+          };
+        }
+        throw error;
+      }
+    }
+
+    this.configs.set(key, next);
+
+    const pluginName = loadedPlugin?.meta.name ?? name;
+    const instance = this.instances.get(pluginName);
+    if (instance && (instance.state === 'mounted' || instance.state === 'error')) {
+      const unmountResult = await this.unmountInstance(instance);
+      if (!unmountResult.success) {
+        this.log.warn(`Plugin "${pluginName}" did not unmount cleanly, remounting anyway`);
+      }
+    }
+
+    if (!next.enabled || !loadedPlugin) {
+      this.instances.delete(pluginName);
+      this.log.info(`Disabled plugin: ${pluginName}`);
+      return { success: true, durationMs: 0 };
+    }
+
+    // A reconfigured plugin starts with a clean error history
+    this.errorHandler.resetPlugin(pluginName);
+
+    this.log.info(`Reconfigured plugin: ${pluginName}`);
+    return this.mountPlugin(loadedPlugin, next);
+  }
+
+  /**
+   * Unmounts a plugin but keeps its configuration, e.g. while its package
+   * files are replaced. installPlugin() or reconfigurePlugin() mounts it
+   * again.
+   *
+   * @param name - Plugin name
+   * @returns Whether a running instance was unmounted
+   */
+  async stopPlugin(name: string): Promise<boolean> {
+    const pluginName = this.loadedPlugins.get(name)?.meta.name ?? name;
+    const instance = this.instances.get(pluginName);
+    if (!instance || (instance.state !== 'mounted' && instance.state !== 'error')) {
+      return false;
+    }
+
+    const unmountResult = await this.unmountInstance(instance);
+    if (!unmountResult.success) {
+      this.log.warn(`Plugin "${pluginName}" did not unmount cleanly, stopping anyway`);
+    }
+    this.instances.delete(pluginName);
+    this.log.info(`Stopped plugin: ${pluginName}`);
+    return true;
+  }
+
+  /**
+   * Adds a plugin at runtime, or replaces one with the same name.
+   *
+   * A replaced plugin (e.g. an upgraded package) is unmounted and keeps
+   * its options and enabled state unless the new config sets them. The
+   * plugin is mounted if enabled.
+   *
+   * @param config - Plugin configuration
+   * @returns Result of the mount, or success if the plugin is disabled
+   * @throws {PluginLoadError} If the plugin can't be loaded
+   */
+  async installPlugin(config: PluginConfig): Promise<LifecycleResult> {
+    const loadedPlugin = typeof config.plugin === 'function'
+      ? this.loader.loadClass(config.plugin)
+      : await this.loader.load(config.plugin);
+    const { name, version, defaultEnabled } = loadedPlugin.meta;
+
+    const key = this.findConfigKey(name);
+    const current = key !== undefined ? this.configs.get(key) : undefined;
+    const instance = this.instances.get(name);
+    if (instance && (instance.state === 'mounted' || instance.state === 'error')) {
+      const unmountResult = await this.unmountInstance(instance);
+      if (!unmountResult.success) {
+        this.log.warn(`Plugin "${name}" did not unmount cleanly, replacing anyway`);
+      }
+    }
+    this.instances.delete(name);
+    if (key !== undefined) {
+      this.configs.delete(key);
+    }
+
+    const next = this.withPluginState(name, {
+      ...current,
+      ...config,
+      enabled: config.enabled ?? current?.enabled ?? defaultEnabled,
+      ...((config.options !== undefined || current?.options !== undefined) && {
+        options: { ...current?.options, ...config.options },
+      }),
+    });
+    this.configs.set(name, next);
+    this.loadedPlugins.set(name, loadedPlugin);
+    this.errorHandler.resetPlugin(name);
+
+    this.log.info(`${current ? 'Replaced' : 'Installed'} plugin: ${name} v${version}`);
+    if (next.enabled === false) {
+      return { success: true, durationMs: 0 };
+    }
+    return this.mountPlugin(loadedPlugin, next);
+  }
+
+  /**
+   * Uninstalls a plugin.
+   *
+   * The plugin is unmounted, its configuration and persisted state
+   * overrides are forgotten, and everything it stored through
+   * `context.storage` is deleted.
+   *
+   * @param name - Plugin name
+   * @returns Whether a plugin with this name was configured
+   */
+  async uninstallPlugin(name: string): Promise<boolean> {
+    const key = this.findConfigKey(name);
+    if (key === undefined) return false;
+
+    const pluginName = this.loadedPlugins.get(name)?.meta.name ?? name;
+    const instance = this.instances.get(pluginName);
+    if (instance && (instance.state === 'mounted' || instance.state === 'error')) {
+      const unmountResult = await this.unmountInstance(instance);
+      if (!unmountResult.success) {
+        this.log.warn(`Plugin "${pluginName}" did not unmount cleanly, uninstalling anyway`);
+      }
+    }
+
+    const consumers = this.consumers.get(pluginName);
+    if (consumers && consumers.size > 0) {
+      this.log.warn(`Plugin "${pluginName}" was used by ${Array.from(consumers).join(', ')}`);
+    }
+    this.consumers.delete(pluginName);
+    for (const others of this.consumers.values()) {
+      others.delete(pluginName);
+    }
+
+    this.instances.delete(pluginName);
+    this.loadedPlugins.delete(pluginName);
+    this.configs.delete(key);
+    this.pluginStates.delete(pluginName);
+    this.errorHandler.resetPlugin(pluginName);
+
+    await this.storage.clear(pluginName);
+
+    this.log.info(`Uninstalled plugin: ${pluginName}`);
+    return true;
+  }
+
   // ===========================================================================
   // Public API - Connectors
   // ===========================================================================
@@ -452,11 +917,26 @@ export class PluginManager {
     const context = this.createPluginContext(meta.name);
 
     // Create instance
-    const instance = this.runner.create(loadedPlugin, context, options);
+    const instance = this.runner.create(loadedPlugin, context, options, config.budget);
     this.instances.set(meta.name, instance);
 
     // Mount
-    return this.runner.mount(instance);
+    const result = await this.runner.mount(instance);
+    if (!result.success) {
+      this.services.delete(meta.name);
+    }
+    return result;
+  }
+
+  /**
+   * Unmounts a plugin instance and withdraws its service.
+   */
+  private async unmountInstance(instance: PluginInstance): Promise<LifecycleResult> {
+    try {
+      return await this.runner.unmount(instance);
+    } finally {
+      this.services.delete(instance.loadedPlugin.meta.name);
+    }
   }
 
   // ===========================================================================
@@ -468,16 +948,78 @@ export class PluginManager {
    */
   private createPluginContext(pluginName: string): PluginContext<Record<string, unknown>> {
     const pluginLogger = this.createPluginLogger(pluginName);
-    const pluginEvents = this.createPluginEventEmitter();
+    const pluginEvents = this.createPluginEventEmitter(pluginName);
 
     return {
       events: pluginEvents,
       rcon: this.server.rcon,
       state: this.server.state,
       log: pluginLogger,
+      profiles: this.profiles,
+      bans: this.bans,
+      storage: this.storage.forPlugin(pluginName),
+      audit: this.audit.forPlugin(pluginName),
+      logRules: this.createPluginLogRules(pluginName),
+      commands: this.createPluginCommands(pluginName),
       getConnector: <T>(name: string): T | undefined => {
         return this.connectors.getSync<Connector>(name) as T | undefined;
       },
+      provide: (service) => {
+        this.services.set(pluginName, service);
+      },
+      getPlugin: <T>(name: string): T | undefined => {
+        if (name !== pluginName && this.loadedPlugins.has(name)) {
+          let consumers = this.consumers.get(name);
+          if (!consumers) {
+            consumers = new Set();
+            this.consumers.set(name, consumers);
+          }
+          consumers.add(pluginName);
+        }
+        return this.services.get(name) as T | undefined;
+      },
+    };
+  }
+
+  /**
+   * Creates the log rule registry for a plugin.
+   *
+   * Rule names are prefixed with the plugin name so plugins cannot
+   * replace each other's (or the config's) rules.
+   */
+  private createPluginLogRules(pluginName: string): PluginLogRules {
+    return {
+      register: (definition) => {
+        const logRules = this.server.logRules;
+        if (!logRules) {
+          throw new Error('Custom log rules are not supported by this server');
+        }
+
+        const name = `${pluginName}:${definition.name}`;
+        logRules.add({ ...definition, name });
+
+        let removed = false;
+        return () => {
+          if (removed) return;
+          removed = true;
+          logRules.remove(name);
+        };
+      },
+    };
+  }
+
+  /**
+   * Creates the chat command registry for a plugin.
+   */
+  private createPluginCommands(pluginName: string): PluginCommands {
+    return {
+      register: (definition) => {
+        const commands = this.server.commands;
+        if (!commands) {
+          throw new Error('Chat commands are not supported by this server');
+        }
+        return commands.register(definition, pluginName);
+      },
     };
   }
 
@@ -499,8 +1041,11 @@ export class PluginManager {
 
   /**
    * Creates an event emitter wrapper for a plugin.
+   *
+   * Events the plugin emits are tagged with its name and emitted as
+   * PLUGIN_EVENT.
    */
-  private createPluginEventEmitter(): PluginEventEmitter<Record<string, unknown>> {
+  private createPluginEventEmitter(pluginName: string): PluginEventEmitter<Record<string, unknown>> {
     const server = this.server;
 
     return {
@@ -526,6 +1071,16 @@ export class PluginManager {
       ): Promise<unknown> => {
         return server.events.waitFor(event as keyof SquadEventMap & string, options);
       },
+
+      emit: (event: string, data?: unknown): void => {
+        server.events.emit('PLUGIN_EVENT', {
+          time: new Date(),
+          raw: `${pluginName}:${event}`,
+          plugin: pluginName,
+          event,
+          data,
+        });
+      },
     };
   }
 
@@ -537,8 +1092,11 @@ export class PluginManager {
    * Resolves plugin load/mount order based on dependencies.
    *
    * Uses Kahn's algorithm for topological sorting.
+   *
+   * @param includeServices - Also order plugins after the plugins whose
+   *   services they fetched
    */
-  private resolveDependencyOrder(): string[] {
+  private resolveDependencyOrder(includeServices = false): string[] {
     const plugins = Array.from(this.loadedPlugins.values());
 
     // Build adjacency list and in-degree count
@@ -551,7 +1109,12 @@ export class PluginManager {
     }
 
     for (const plugin of plugins) {
-      const deps = plugin.meta.dependencies ?? [];
+      const deps = new Set(plugin.meta.dependencies ?? []);
+      if (includeServices) {
+        for (const provider of this.getServiceLinks(plugin.meta.name).providers) {
+          deps.add(provider);
+        }
+      }
       for (const dep of deps) {
         if (this.loadedPlugins.has(dep)) {
           inDegree.set(plugin.meta.name, (inDegree.get(plugin.meta.name) ?? 0) + 1);
@@ -617,20 +1180,62 @@ export class PluginManager {
    * Finds a config for a plugin name.
    */
   private findConfig(pluginName: string): PluginConfig | undefined {
+    const key = this.findConfigKey(pluginName);
+    return key !== undefined ? this.configs.get(key) : undefined;
+  }
+
+  /**
+   * Finds the config map key for a plugin name.
+   */
+  private findConfigKey(pluginName: string): string | undefined {
     // Check by exact name
-    const direct = this.configs.get(pluginName);
-    if (direct) return direct;
+    if (this.configs.has(pluginName)) return pluginName;
 
     // Check if any config loaded this plugin
-    for (const [, config] of this.configs) {
+    const source = this.loadedPlugins.get(pluginName)?.source;
+    for (const [key, config] of this.configs) {
       if (typeof config.plugin === 'function') {
         const cls = config.plugin as PluginClass;
         if (cls.meta?.name === pluginName) {
-          return config;
+          return key;
         }
+      } else if (config.plugin === source) {
+        // Loaded from a path or package name
+        return key;
       }
     }
 
     return undefined;
   }
+
+  /**
+   * Returns a config with any persisted state for the plugin applied.
+   *
+   * Each state is applied at most once.
+   */
+  private withPluginState(pluginName: string, config: PluginConfig): PluginConfig {
+    const state = this.pluginStates.get(pluginName);
+    if (!state) return config;
+
+    this.pluginStates.delete(pluginName);
+    return {
+      ...config,
+      enabled: state.enabled,
+      ...((state.options !== null || config.options !== undefined) && {
+        options: { ...config.options, ...state.options },
+      }),
+    };
+  }
+
+  /**
+   * Checks whether a config's plugin has been loaded.
+   */
+  private isConfigLoaded(config: PluginConfig): boolean {
+    for (const loaded of this.loadedPlugins.values()) {
+      if (loaded.Class === config.plugin || loaded.source === config.plugin) {
+        return true;
+      }
+    }
+    return false;
+  }
 }
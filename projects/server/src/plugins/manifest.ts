@@ -0,0 +1,186 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin package manifests and capabilities.
+ *
+ * Validates the `plugin.json` of packages installed from the dashboard
+ * and maps PluginContext calls to the capability they need.
+ *
+ * @module
+ */
+
+import type {
+  OptionType,
+  PluginCapability,
+  PluginManifest,
+  PluginRconExecutor,
+  Result,
+} from '@squadscript/types';
+import { Ok, Err, PLUGIN_CAPABILITIES } from '@squadscript/types';
+import { validatePluginMeta } from './loader.js';
+
+/**
+ * Capability needed for each RCON method. Null for read-only queries.
+ */
+export const RCON_CAPABILITIES: Readonly<Record<keyof PluginRconExecutor, PluginCapability | null>> = {
+  execute: 'rcon.execute',
+  broadcast: 'rcon.broadcast',
+  warn: 'rcon.warn',
+  kick: 'rcon.kick',
+  ban: 'rcon.ban',
+  getServerInfo: null,
+  getDisconnectedPlayers: null,
+  getLayers: null,
+  getLevels: null,
+  changeLayer: 'rcon.changemap',
+  setNextLayer: 'rcon.changemap',
+  endMatch: 'rcon.changemap',
+  restartMatch: 'rcon.changemap',
+  pauseMatch: 'rcon.pause',
+  unpauseMatch: 'rcon.pause',
+  forceTeamChange: 'rcon.forceteamchange',
+  removeFromSquad: 'rcon.squads',
+  demoteCommander: 'rcon.squads',
+  disbandSquad: 'rcon.squads',
+  renameSquad: 'rcon.squads',
+  setMaxPlayers: 'rcon.config',
+  setPublicQueueLimit: 'rcon.config',
+  setServerPassword: 'rcon.config',
+  setSlomo: 'rcon.config',
+  setFogOfWar: 'rcon.config',
+  forceAllRoleAvailability: 'rcon.config',
+  forceAllVehicleAvailability: 'rcon.config',
+  forceAllDeployableAvailability: 'rcon.config',
+  forceAllActionAvailability: 'rcon.config',
+  setAlwaysValidPlacement: 'rcon.config',
+  setNoTeamChangeTimer: 'rcon.config',
+  setNoRespawnTimer: 'rcon.config',
+  disableVehicleClaiming: 'rcon.config',
+  disableVehicleTeamRequirement: 'rcon.config',
+  disableVehicleKitRequirement: 'rcon.config',
+  reloadServerConfig: 'rcon.config',
+};
+
+/** Default bundle file name. */
+export const DEFAULT_MANIFEST_MAIN = 'index.js';
+
+/** Plugin names become directory names. */
+const PACKAGE_NAME = /^[A-Za-z0-9_-]+$/;
+
+/** Bundle file names may not leave the package directory. */
+const MAIN_FILE = /^[\w.-]+\.m?js$/;
+
+/** Versions must be `major.minor.patch`, optionally with a suffix. */
+const VERSION = /^(\d+)\.(\d+)\.(\d+)(?:[-+][\w.-]*)?$/;
+
+const OPTION_TYPES: readonly OptionType[] = [
+  'string', 'number', 'boolean', 'array', 'object', 'player', 'squad', 'layer',
+];
+
+/**
+ * Checks whether a set of capabilities allows something.
+ *
+ * `rcon.execute` allows every RCON capability, since any command can be
+ * sent through it.
+ */
+export function hasCapability(
+  capabilities: readonly PluginCapability[],
+  needed: PluginCapability,
+): boolean {
+  return capabilities.includes(needed) ||
+    (needed.startsWith('rcon.') && capabilities.includes('rcon.execute'));
+}
+
+/**
+ * Compares two `major.minor.patch` versions. Suffixes are ignored.
+ *
+ * @returns A negative number if `a` is older, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = VERSION.exec(a);
+  const right = VERSION.exec(b);
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(left?.[i] ?? 0) - Number(right?.[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Validates a package manifest.
+ *
+ * @param value - Parsed `plugin.json`
+ * @returns The manifest, or everything that is wrong with it
+ */
+export function parseManifest(value: unknown): Result<PluginManifest, readonly string[]> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return Err(['Manifest must be an object']);
+  }
+
+  const manifest = value as Record<string, unknown>;
+  const errors = [...validatePluginMeta(manifest.meta).errors];
+
+  const meta = manifest.meta as Record<string, unknown> | undefined;
+  if (typeof meta?.name === 'string' && meta.name !== '' && !PACKAGE_NAME.test(meta.name)) {
+    errors.push('meta.name may only contain letters, digits, "_" and "-"');
+  }
+  if (typeof meta?.version === 'string' && !VERSION.test(meta.version)) {
+    errors.push('meta.version must look like 1.2.3');
+  }
+
+  if (!Array.isArray(manifest.capabilities)) {
+    errors.push('capabilities must be an array');
+  } else {
+    for (const capability of manifest.capabilities) {
+      if (!PLUGIN_CAPABILITIES.includes(capability as PluginCapability)) {
+        errors.push(`Unknown capability "${String(capability)}"`);
+      }
+    }
+  }
+
+  if (manifest.connectors !== undefined &&
+    (!Array.isArray(manifest.connectors) || !manifest.connectors.every((c) => typeof c === 'string'))) {
+    errors.push('connectors must be an array of connector names');
+  }
+
+  if (manifest.main !== undefined && (typeof manifest.main !== 'string' || !MAIN_FILE.test(manifest.main))) {
+    errors.push('main must be a .js file name without a directory');
+  }
+
+  if (manifest.optionsSpec !== undefined) {
+    errors.push(...validateOptionsSpec(manifest.optionsSpec));
+  }
+
+  return errors.length > 0 ? Err(errors) : Ok(value as PluginManifest);
+}
+
+/**
+ * Validates an options specification written as JSON.
+ */
+function validateOptionsSpec(spec: unknown): string[] {
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    return ['optionsSpec must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const [name, option] of Object.entries(spec)) {
+    if (!option || typeof option !== 'object') {
+      errors.push(`optionsSpec.${name} must be an object`);
+      continue;
+    }
+    const { type, description, required, connector } = option as Record<string, unknown>;
+    if (!OPTION_TYPES.includes(type as OptionType)) {
+      errors.push(`optionsSpec.${name}.type must be one of ${OPTION_TYPES.join(', ')}`);
+    }
+    if (typeof description !== 'string') {
+      errors.push(`optionsSpec.${name}.description must be a string`);
+    }
+    if (typeof required !== 'boolean') {
+      errors.push(`optionsSpec.${name}.required must be a boolean`);
+    }
+    if (connector !== undefined) {
+      errors.push(`optionsSpec.${name}: connector options are not supported, list the connector in "connectors"`);
+    }
+  }
+  return errors;
+}
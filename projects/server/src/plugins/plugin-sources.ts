@@ -0,0 +1,171 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin source resolution for config-driven plugin and connector setup.
+ *
+ * Translates the `plugins` and `connectors` sections of a validated
+ * config file into the shapes consumed by PluginManager and
+ * ConnectorRegistry. Plugin identifiers are resolved in this order:
+ * 1. Built-in plugins exported by `@squadscript/plugins` (by meta name)
+ * 2. File paths (relative paths resolve against the config directory)
+ * 3. Package names (passed through to PluginLoader as-is)
+ *
+ * @module
+ */
+
+import { resolve } from 'node:path';
+import type { ModuleLogger } from '@squadscript/logger';
+import type { PluginClass } from './loader.js';
+import type { PluginConfig } from './manager.js';
+import type { ConnectorConfig } from './connector-registry.js';
+import type { HandlerBudgetOverrides } from './handler-monitor.js';
+
+/**
+ * Package that ships the official plugin collection.
+ *
+ * Kept in a variable so bundlers leave the import dynamic: the plugins
+ * package depends on this one and must not be pulled into its bundle.
+ */
+const BUILTIN_PLUGINS_PACKAGE = '@squadscript/plugins';
+
+/**
+ * Plugin entry as it appears in a config file.
+ */
+export interface PluginSourceEntry {
+  /** Built-in plugin name, file path, or package name. */
+  readonly plugin: string;
+
+  /** Whether the plugin is enabled. */
+  readonly enabled?: boolean | undefined;
+
+  /** Plugin-specific options. */
+  readonly options?: Record<string, unknown> | undefined;
+
+  /** Connector option overrides (option key -> connector name). */
+  readonly connectors?: Record<string, string> | undefined;
+
+  /** Resource budget overrides. */
+  readonly budget?: HandlerBudgetOverrides | undefined;
+}
+
+/**
+ * Connector entries as they appear in a config file, keyed by name.
+ */
+export type ConnectorSourceEntries = Record<string, { type: string; [key: string]: unknown }>;
+
+/**
+ * Options for resolving plugin sources.
+ */
+export interface ResolvePluginSourcesOptions {
+  /** Built-in plugin classes by meta name. */
+  readonly builtins: ReadonlyMap<string, PluginClass>;
+
+  /** Directory used to resolve relative plugin paths. */
+  readonly baseDir: string;
+}
+
+/**
+ * Imports the official plugin collection and indexes it by plugin name.
+ *
+ * Returns an empty map if the package is not installed, so the runtime
+ * can still load plugins from explicit paths.
+ *
+ * @param logger - Logger for reporting a missing package
+ * @returns Built-in plugin classes keyed by `meta.name`
+ */
+export async function loadBuiltinPlugins(
+  logger: ModuleLogger,
+): Promise<ReadonlyMap<string, PluginClass>> {
+  const builtins = new Map<string, PluginClass>();
+
+  let module: Record<string, unknown>;
+  try {
+    module = (await import(BUILTIN_PLUGINS_PACKAGE)) as Record<string, unknown>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Built-in plugins unavailable (${BUILTIN_PLUGINS_PACKAGE}): ${message}`);
+    return builtins;
+  }
+
+  for (const value of Object.values(module)) {
+    if (isPluginClass(value)) {
+      builtins.set(value.meta.name, value);
+    }
+  }
+
+  return builtins;
+}
+
+/**
+ * Resolves config plugin entries into PluginManager configs.
+ *
+ * Built-in names become direct class references; everything else is
+ * passed to PluginLoader as a path or package specifier. Connector
+ * overrides are merged into the plugin options so OptionsResolver can
+ * resolve them like any other connector option.
+ *
+ * @param entries - Plugin entries from the config file
+ * @param options - Resolution options
+ * @returns Plugin configs for PluginManager
+ */
+export function resolvePluginSources(
+  entries: readonly PluginSourceEntry[],
+  options: ResolvePluginSourcesOptions,
+): PluginConfig[] {
+  return entries.map((entry) => {
+    const builtin = options.builtins.get(entry.plugin);
+    const plugin = builtin ?? resolvePluginPath(entry.plugin, options.baseDir);
+    const pluginOptions = entry.connectors
+      ? { ...entry.options, ...entry.connectors }
+      : entry.options;
+
+    return {
+      plugin,
+      ...(entry.enabled !== undefined && { enabled: entry.enabled }),
+      ...(pluginOptions !== undefined && { options: pluginOptions }),
+      ...(entry.budget !== undefined && { budget: entry.budget }),
+    };
+  });
+}
+
+/**
+ * Converts config connector entries into registry configs.
+ *
+ * @param entries - Connector entries keyed by connector name
+ * @returns Connector configs for ConnectorRegistry
+ */
+export function resolveConnectorSources(entries: ConnectorSourceEntries): ConnectorConfig[] {
+  return Object.entries(entries).map(([name, { type, ...options }]) => ({
+    type,
+    name,
+    options,
+  }));
+}
+
+/**
+ * Resolves a non-builtin plugin identifier.
+ *
+ * Relative file paths are anchored to the config directory; absolute
+ * paths and package names are returned unchanged.
+ */
+function resolvePluginPath(source: string, baseDir: string): string {
+  if (source.startsWith('./') || source.startsWith('../')) {
+    return resolve(baseDir, source);
+  }
+  return source;
+}
+
+/**
+ * Checks whether an export looks like a plugin class.
+ */
+function isPluginClass(value: unknown): value is PluginClass {
+  if (typeof value !== 'function') return false;
+  const candidate = value as unknown as Record<string, unknown>;
+  const meta = candidate.meta as Record<string, unknown> | undefined;
+  return (
+    typeof meta === 'object' &&
+    meta !== null &&
+    typeof meta.name === 'string' &&
+    typeof candidate.optionsSpec === 'object'
+  );
+}
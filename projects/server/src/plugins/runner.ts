@@ -18,6 +18,7 @@ import {
   PluginErrorType,
   type PluginErrorHandler,
 } from './error-handler.js';
+import { HandlerMonitor, resolveBudget, type HandlerBudget, type HandlerBudgetOverrides } from './handler-monitor.js';
 
 /**
  * Plugin instance with runtime information.
@@ -29,6 +30,9 @@ export interface PluginInstance {
   /** Loaded plugin information. */
   readonly loadedPlugin: LoadedPlugin;
 
+  /** Measures the plugin's handlers and timers. */
+  readonly monitor: HandlerMonitor;
+
   /** Current state. */
   state: PluginState;
 
@@ -68,6 +72,9 @@ export interface PluginRunnerConfig {
 
   /** Maximum time for unmount operation in milliseconds (default: 10000). */
   readonly unmountTimeout?: number;
+
+  /** Default handler budget for every plugin (default: DEFAULT_HANDLER_BUDGET). */
+  readonly budget?: HandlerBudgetOverrides;
 }
 
 /**
@@ -78,7 +85,8 @@ export interface PluginRunnerConfig {
  * - Executes lifecycle methods with timeouts
  * - Tracks plugin state through transitions
  * - Isolates errors to prevent cascade failures
- * - Records metrics for monitoring
+ * - Measures event handlers and timers against the plugin's budget,
+ *   reporting errors and violations to the circuit breaker
  *
  * @example
  * ```typescript
@@ -106,12 +114,14 @@ export class PluginRunner {
   private readonly errorHandler: PluginErrorHandler;
   private readonly mountTimeout: number;
   private readonly unmountTimeout: number;
+  private readonly budget: HandlerBudgetOverrides;
 
   constructor(config: PluginRunnerConfig) {
     this.logger = config.logger;
     this.errorHandler = config.errorHandler;
     this.mountTimeout = config.mountTimeout ?? 30_000;
     this.unmountTimeout = config.unmountTimeout ?? 10_000;
+    this.budget = config.budget ?? {};
   }
 
   /**
@@ -120,26 +130,33 @@ export class PluginRunner {
    * @param loadedPlugin - The loaded plugin class and metadata
    * @param context - The plugin context to inject
    * @param options - Resolved plugin options
+   * @param budget - Budget overrides for this plugin
    * @returns The plugin instance
    */
   create(
     loadedPlugin: LoadedPlugin,
     context: PluginContext,
     options: ResolvedOptions<OptionsSpecification>,
+    budget: HandlerBudgetOverrides = {},
   ): PluginInstance {
     const { Class, meta } = loadedPlugin;
 
     this.logger.debug(`Creating plugin instance: ${meta.name}`);
 
     const plugin = new Class(context, options);
+    const monitor = this.createMonitor(meta.name, resolveBudget(this.budget, budget));
+    plugin._setMonitor(monitor);
 
-    return {
+    const instance: PluginInstance = {
       plugin,
       loadedPlugin,
+      monitor,
       state: 'unloaded',
       error: undefined,
       lastStateChange: new Date(),
     };
+    plugin._setFailureHandler((error) => this.fail(instance, error));
+    return instance;
   }
 
   /**
@@ -324,6 +341,41 @@ export class PluginRunner {
     }
   }
 
+  /**
+   * Creates the monitor for a plugin's handlers.
+   *
+   * Handler errors and budget violations count as failures, so a plugin
+   * that keeps running slow is tripped by its circuit breaker and its
+   * handlers are skipped until the breaker lets them through again.
+   */
+  private createMonitor(pluginName: string, budget: HandlerBudget): HandlerMonitor {
+    return new HandlerMonitor({
+      budget,
+      isAllowed: () => this.errorHandler.isPluginAllowed(pluginName),
+      onSuccess: () => this.errorHandler.recordSuccess(pluginName),
+      onError: (key, error) => {
+        this.errorHandler.handleError(PluginError.event(pluginName, key, error));
+      },
+      onViolation: (violation) => {
+        this.errorHandler.handleError(
+          PluginError.budget(pluginName, violation.key, violation.message, violation.type),
+        );
+      },
+    });
+  }
+
+  /**
+   * Puts a mounted plugin that reported a failure into the error state.
+   *
+   * Failures during a lifecycle call are left to that call to report.
+   */
+  private fail(instance: PluginInstance, error: Error): void {
+    if (instance.state !== 'mounted') return;
+
+    this.setState(instance, 'error', error);
+    this.errorHandler.handleError(PluginError.lifecycle(instance.loadedPlugin.meta.name, 'run', error));
+  }
+
   /**
    * Executes a promise with a timeout.
    */
@@ -0,0 +1,266 @@
+/**
+ * @squadscript/server
+ *
+ * Messages between a sandboxed plugin's worker and its host.
+ *
+ * Both sides talk through a SandboxChannel: requests carry an id and
+ * expect a response, notifications don't. Everything sent must survive
+ * structured cloning, so functions (command handlers, `reply`, event
+ * handlers) stay on their side and are referred to by id.
+ *
+ * Host to worker:
+ * - request `init`, `mount`, `unmount`, `ping`, `command`
+ * - notify `event`, `state`
+ *
+ * Worker to host:
+ * - request `rcon`, `storage`, `profiles`, `bans`, `audit`, `logRules.register`,
+ *   `commands.register`, `commands.reply`, `connector`, `unregister`
+ * - notify `log`, `subscribe`, `unsubscribe`, `emit`
+ *
+ * @module
+ */
+
+import type {
+  ChatCommandDefinition,
+  ChatCommandInvocation,
+  Layer,
+  Player,
+  PluginCapability,
+  PluginMeta,
+  RconServerInfo,
+  Squad,
+} from '@squadscript/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A message sent through a SandboxChannel.
+ */
+export type SandboxMessage =
+  | {
+    readonly kind: 'request';
+    readonly id: number;
+    readonly method: string;
+    readonly args: readonly unknown[];
+  }
+  | {
+    readonly kind: 'response';
+    readonly id: number;
+    readonly value?: unknown;
+    readonly error?: string;
+  }
+  | {
+    readonly kind: 'notify';
+    readonly method: string;
+    readonly args: readonly unknown[];
+  };
+
+/**
+ * Server state copied into the worker.
+ */
+export interface SandboxStateSnapshot {
+  readonly players: readonly Player[];
+  readonly squads: readonly (readonly [string, Squad])[];
+  readonly currentLayer: Layer | null;
+  readonly nextLayer: Layer | null;
+  readonly playerCount: number;
+  readonly serverInfo: RconServerInfo | null;
+}
+
+/**
+ * Everything the worker needs to load the plugin.
+ */
+export interface SandboxInit {
+  /** Absolute path of the bundled module. */
+  readonly entry: string;
+
+  /** Directory holding the package, the only place the plugin may write to. */
+  readonly dir: string;
+
+  /** Metadata from the manifest. */
+  readonly meta: PluginMeta;
+
+  /** Resolved options. */
+  readonly options: Record<string, unknown>;
+
+  /** Capabilities from the manifest. */
+  readonly capabilities: readonly PluginCapability[];
+
+  /** Declared connectors that are registered on the server. */
+  readonly connectors: readonly string[];
+
+  /** Initial server state. */
+  readonly state: SandboxStateSnapshot;
+}
+
+/**
+ * A chat command as registered from the worker: everything but the handler.
+ */
+export type SandboxCommandDefinition = Omit<ChatCommandDefinition, 'handler'>;
+
+/**
+ * A chat command invocation sent to the worker: everything but `reply`,
+ * which the worker sends back as `commands.reply` with this id.
+ */
+export type SandboxCommandInvocation = Omit<ChatCommandInvocation, 'reply'> & {
+  readonly invocationId: number;
+};
+
+/**
+ * Handles what the other side sends.
+ */
+export interface SandboxHandlers {
+  /** Answers a request. A thrown error is sent back as the response's error. */
+  request(method: string, args: readonly unknown[]): unknown;
+
+  /** Handles a notification. */
+  notify(method: string, args: readonly unknown[]): void;
+}
+
+/**
+ * Where messages are posted: a Worker on the host, `self` in the worker.
+ */
+export interface SandboxPort {
+  postMessage(message: SandboxMessage): void;
+}
+
+interface PendingRequest {
+  resolve(value: unknown): void;
+  reject(error: Error): void;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+// =============================================================================
+// SandboxChannel Class
+// =============================================================================
+
+/**
+ * Request/response and notifications over a worker's message port.
+ *
+ * @example
+ * ```typescript
+ * const channel = new SandboxChannel(worker, handlers);
+ * worker.onmessage = (event) => channel.handle(event.data);
+ *
+ * await channel.request('mount', [], 10_000);
+ * channel.notify('event', [subscriptionId, data]);
+ * ```
+ */
+export class SandboxChannel {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private closedReason: string | null = null;
+
+  constructor(
+    private readonly port: SandboxPort,
+    private readonly handlers: SandboxHandlers,
+  ) {}
+
+  /**
+   * Sends a request and waits for its response.
+   *
+   * @param method - What to do
+   * @param args - Arguments, which must be cloneable
+   * @param timeoutMs - Reject if no response arrives in time (0 waits forever)
+   * @throws {Error} If the other side fails, times out or the channel closes
+   */
+  request(method: string, args: readonly unknown[] = [], timeoutMs = 0): Promise<unknown> {
+    if (this.closedReason !== null) {
+      return Promise.reject(new Error(this.closedReason));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = timeoutMs > 0
+        ? setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error(`${method} timed out after ${timeoutMs}ms`));
+        }, timeoutMs)
+        : undefined;
+      this.pending.set(id, { resolve, reject, timer });
+
+      try {
+        this.port.postMessage({ kind: 'request', id, method, args });
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Sends a notification.
+   *
+   * @throws {Error} If the arguments can't be cloned
+   */
+  notify(method: string, args: readonly unknown[] = []): void {
+    if (this.closedReason !== null) return;
+    this.port.postMessage({ kind: 'notify', method, args });
+  }
+
+  /**
+   * Handles a message from the other side.
+   */
+  handle(message: SandboxMessage): void {
+    switch (message.kind) {
+      case 'request':
+        void this.answer(message.id, message.method, message.args);
+        break;
+
+      case 'response': {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+        this.pending.delete(message.id);
+        clearTimeout(pending.timer);
+        if (message.error !== undefined) {
+          pending.reject(new Error(message.error));
+        } else {
+          pending.resolve(message.value);
+        }
+        break;
+      }
+
+      case 'notify':
+        this.handlers.notify(message.method, message.args);
+        break;
+    }
+  }
+
+  /**
+   * Rejects pending requests and refuses new ones.
+   *
+   * @param reason - Error message for pending and later requests
+   */
+  close(reason: string): void {
+    if (this.closedReason !== null) return;
+    this.closedReason = reason;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    }
+    this.pending.clear();
+  }
+
+  private async answer(id: number, method: string, args: readonly unknown[]): Promise<void> {
+    let response: SandboxMessage;
+    try {
+      response = { kind: 'response', id, value: await this.handlers.request(method, args) };
+    } catch (error) {
+      response = { kind: 'response', id, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (this.closedReason !== null) return;
+    try {
+      this.port.postMessage(response);
+    } catch (error) {
+      this.port.postMessage({
+        kind: 'response',
+        id,
+        error: `Could not send the result of ${method}: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+}
@@ -0,0 +1,780 @@
+/**
+ * @squadscript/server
+ *
+ * Worker entry of a sandboxed plugin.
+ *
+ * Runs one installed plugin in its own Bun worker. The plugin gets a
+ * PluginContext whose calls are forwarded to the host, which checks them
+ * against the package's capabilities. Server state is a copy refreshed
+ * by the host.
+ *
+ * Bundles import `@squadscript/server` and `@squadscript/types` as
+ * externals; both resolve to the copies in this worker. Only the builtin
+ * modules and `Bun` members listed below are usable, so child processes,
+ * nested workers, native code and databases are not. The networking ones
+ * need the `network` capability. Files may only be read, written and
+ * loaded inside the package directory.
+ *
+ * @module
+ */
+
+import { plugin as registerBunPlugin } from 'bun';
+import { basename, dirname, join, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as types from '@squadscript/types';
+import type {
+  ChatCommandDefinition,
+  ChatCommandInvocation,
+  CustomLogRuleDefinition,
+  EOSID,
+  PluginLogger,
+  PluginMeta,
+  PluginRconExecutor,
+  PluginStorage,
+  ServerStateReader,
+  SteamID,
+  Unsubscribe,
+} from '@squadscript/types';
+import { BasePlugin, type SquadPluginContext } from './base-plugin.js';
+import { formatBanInterval } from '../services/bans-cfg.js';
+import { RCON_CAPABILITIES } from './manifest.js';
+import {
+  SandboxChannel,
+  type SandboxCommandInvocation,
+  type SandboxInit,
+  type SandboxMessage,
+  type SandboxStateSnapshot,
+} from './sandbox-protocol.js';
+
+declare const self: Worker;
+
+/** Taken before the plugin loads, so it can't fake its heap size. */
+const memoryUsage = process.memoryUsage.bind(process);
+
+/** What plugin bundles get for `import ... from '@squadscript/server'`. */
+const SERVER_SDK = { BasePlugin, formatBanInterval };
+
+/** Sources, which may read the environment. */
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/;
+
+/** Why file access outside the package directory fails. */
+const OUTSIDE_FILES = 'This plugin may only use files in its own directory';
+
+/**
+ * Where sources find `Bun`. `Bun.fetch` can't be replaced in place, so
+ * they get a copy with the sandbox's `fetch` instead.
+ */
+const SANDBOX_BUN = '__squadscriptBun';
+
+/** Points `process` at the worker's own and `Bun` at the sandbox's copy. */
+const SOURCE_DEFINE = {
+  'process': 'globalThis.process',
+  'process.env.NODE_ENV': 'globalThis.process.env.NODE_ENV',
+  'Bun': `globalThis.${SANDBOX_BUN}`,
+  'globalThis.Bun': `globalThis.${SANDBOX_BUN}`,
+};
+
+/** `bun` imports in transpiled sources, which get the copy too. */
+const BUN_IMPORT = /(\bfrom\s*|\b(?:require|import)\s*\(\s*)"bun"/g;
+
+/**
+ * Builtin modules plugins may use. `fs` only reaches the package
+ * directory, and `bun:wrap` holds helpers for transpiled modules.
+ */
+const ALLOWED_MODULES = new Set([
+  '_stream_duplex', '_stream_passthrough', '_stream_readable', '_stream_transform', '_stream_wrap',
+  '_stream_writable', 'assert', 'assert/strict', 'async_hooks', 'buffer', 'bun:wrap', 'console',
+  'constants', 'crypto', 'diagnostics_channel', 'events', 'fs', 'fs/promises', 'module', 'path',
+  'path/posix', 'path/win32', 'perf_hooks', 'punycode', 'querystring', 'stream', 'stream/consumers',
+  'stream/promises', 'stream/web', 'string_decoder', 'sys', 'timers', 'timers/promises', 'tty',
+  'url', 'util', 'util/types', 'zlib',
+]);
+
+/** Builtin modules that open sockets, usable with the `network` capability. */
+const NETWORK_MODULES = new Set([
+  '_http_agent', '_http_client', '_http_common', '_http_incoming', '_http_outgoing', '_http_server',
+  '_tls_common', '_tls_wrap', 'dgram', 'dns', 'dns/promises', 'http', 'http2', 'https', 'net', 'tls',
+  'undici', 'ws',
+]);
+
+/** `Bun` members plugins may use. `fetch`, `file` and `write` are confined below. */
+const ALLOWED_BUN_MEMBERS = new Set([
+  'ArrayBufferSink', 'CSRF', 'Cookie', 'CookieMap', 'CryptoHasher', 'JSON5', 'JSONC', 'JSONL',
+  'MD4', 'MD5', 'SHA1', 'SHA224', 'SHA256', 'SHA384', 'SHA512', 'SHA512_256', 'TOML', 'Transpiler',
+  'YAML', 'allocUnsafe', 'argv', 'color', 'concatArrayBuffers', 'deepEquals', 'deepMatch',
+  'deflateSync', 'embeddedFiles', 'enableANSIColors', 'env', 'escapeHTML', 'fetch', 'file',
+  'fileURLToPath', 'gc', 'gunzipSync', 'gzipSync', 'hash', 'indexOfLine', 'inflateSync', 'inspect',
+  'isMainThread',
+  'main', 'markdown', 'nanoseconds', 'password', 'pathToFileURL', 'peek', 'randomUUIDv5',
+  'randomUUIDv7', 'readableStreamToArray', 'readableStreamToArrayBuffer', 'readableStreamToBlob',
+  'readableStreamToBytes', 'readableStreamToFormData', 'readableStreamToJSON', 'readableStreamToText',
+  'resolve', 'resolveSync', 'revision', 'semver', 'sha', 'shrink', 'sleep', 'sleepSync', 'stderr',
+  'stdin', 'stdout', 'stringWidth', 'stripANSI', 'version', 'wrapAnsi', 'write', 'zstdCompress',
+  'zstdCompressSync', 'zstdDecompress', 'zstdDecompressSync',
+]);
+
+/** `Bun` members that open sockets, usable with the `network` capability. */
+const NETWORK_BUN_MEMBERS = new Set([
+  'RedisClient', 'S3Client', 'SQL', 'connect', 'dns', 'listen', 'postgres', 'redis', 's3',
+  'serve', 'sql', 'udpSocket',
+]);
+
+/**
+ * `process` members that affect the whole server process, load native
+ * code or hand out the real `Bun`.
+ */
+const PROCESS_MEMBERS = [
+  '_debugEnd', '_debugProcess', '_kill', '_linkedBinding', 'abort', 'binding', 'chdir', 'dlopen',
+  'getBuiltinModule', 'kill', 'setegid', 'seteuid', 'setgid', 'setgroups', 'setuid',
+];
+
+/** How refused modules and members are named in errors, by default their own name. */
+const REFUSED_AS: Record<string, string> = {
+  'child_process': 'child processes',
+  'cluster': 'child processes',
+  'spawn': 'child processes',
+  'spawnSync': 'child processes',
+  '$': 'child processes',
+  'worker_threads': 'workers',
+  'bun:ffi': 'native code',
+  'FFI': 'native code',
+  'dlopen': 'native code',
+  'binding': 'native code',
+  '_linkedBinding': 'native code',
+};
+
+/** `node:fs` functions that take a path as their first argument. */
+const FS_PATHS = [
+  'access', 'appendFile', 'chmod', 'chown', 'createReadStream', 'createWriteStream', 'exists',
+  'lchmod', 'lchown', 'lstat', 'lutimes', 'mkdir', 'mkdtemp', 'openAsBlob', 'opendir', 'readFile',
+  'readdir', 'readlink', 'realpath', 'rm', 'rmdir', 'stat', 'statfs', 'truncate', 'unlink',
+  'unwatchFile', 'utimes', 'watch', 'watchFile', 'writeFile',
+];
+
+/** `node:fs` functions that take paths as their first two arguments. */
+const FS_LINKS = ['copyFile', 'cp', 'link', 'rename', 'symlink'];
+
+/** `node:fs` functions that take a file descriptor. */
+const FS_DESCRIPTORS = [
+  'fchmod', 'fchown', 'fdatasync', 'fstat', 'fsync', 'ftruncate', 'futimes', 'read', 'readv',
+  'write', 'writev',
+];
+
+/** `node:fs` classes and helpers that don't open anything themselves. */
+const FS_UNCHECKED = new Set([
+  'Dir', 'Dirent', 'FileReadStream', 'FileWriteStream', 'ReadStream', 'Stats', 'WriteStream',
+  '_toUnixTimestamp',
+]);
+
+/** Loaders for files that aren't sources; anything else loads as text. */
+const DATA_LOADERS: Record<string, Bun.Loader> = { json: 'json', toml: 'toml' };
+
+/** The plugin class exported by a bundle. */
+type BundledPluginClass = (new (context: SquadPluginContext, options: Record<string, unknown>) => BasePlugin) & {
+  readonly meta?: PluginMeta;
+};
+
+const STORAGE_METHODS: readonly (keyof PluginStorage)[] = ['get', 'set', 'delete', 'list', 'increment'];
+
+let plugin: BasePlugin | null = null;
+let state = createStateReader({
+  players: [],
+  squads: [],
+  currentLayer: null,
+  nextLayer: null,
+  playerCount: 0,
+  serverInfo: null,
+});
+let nextId = 1;
+
+/** Event handlers by subscription ID. */
+const subscriptions = new Map<number, (data: unknown) => void | Promise<void>>();
+
+/** Command handlers by registration ID. */
+const commandHandlers = new Map<number, ChatCommandDefinition['handler']>();
+
+/** Registrations the host hasn't confirmed yet. */
+const pendingRegistrations = new Set<Promise<unknown>>();
+
+const channel = new SandboxChannel(self, {
+  request: (method, args) => {
+    switch (method) {
+      case 'init':
+        return init(args[0] as SandboxInit);
+      case 'mount':
+        return mount();
+      case 'unmount':
+        return plugin?.unmount();
+      case 'ping':
+        return memoryUsage().heapUsed;
+      case 'command':
+        return runCommand(args[0] as number, args[1] as SandboxCommandInvocation);
+      default:
+        throw new Error(`Unknown request "${method}"`);
+    }
+  },
+  notify: (method, args) => {
+    if (method === 'event') {
+      void dispatch(args[0] as number, args[1]);
+    } else if (method === 'state') {
+      state = createStateReader(args[0] as SandboxStateSnapshot);
+    }
+  },
+});
+
+self.onmessage = (event: MessageEvent<SandboxMessage>) => {
+  channel.handle(event.data);
+};
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+/**
+ * Loads the bundle, creates the plugin and runs `prepareToMount()`.
+ */
+async function init(options: SandboxInit): Promise<void> {
+  state = createStateReader(options.state);
+  restrictModules(options.capabilities.includes('network'), options.dir);
+
+  const module = (await import(options.entry)) as Record<string, unknown>;
+  const Class = findPluginClass(module);
+  if (Class.meta?.name !== options.meta.name || Class.meta.version !== options.meta.version) {
+    throw new Error(
+      `Bundle exports ${Class.meta?.name ?? 'an unnamed plugin'} ${Class.meta?.version ?? ''} ` +
+        `but the manifest is for ${options.meta.name} ${options.meta.version}`,
+    );
+  }
+
+  plugin = new Class(createContext(options), options.options);
+  await plugin.prepareToMount();
+}
+
+/**
+ * Mounts the plugin and waits for the host to accept its commands and
+ * log rules.
+ */
+async function mount(): Promise<void> {
+  if (!plugin) {
+    throw new Error('Plugin is not initialized');
+  }
+  await plugin.mount();
+  await Promise.all(pendingRegistrations);
+}
+
+async function dispatch(subscriptionId: number, data: unknown): Promise<void> {
+  const handler = subscriptions.get(subscriptionId);
+  if (!handler) return;
+  try {
+    await handler(data);
+  } catch (error) {
+    log('error', 'Event handler failed', undefined, error);
+  }
+}
+
+async function runCommand(id: number, invocation: SandboxCommandInvocation): Promise<void> {
+  const handler = commandHandlers.get(id);
+  if (!handler) {
+    throw new Error('Command is no longer registered');
+  }
+  const { invocationId, ...rest } = invocation;
+  await handler({
+    ...rest,
+    reply: async (message) => {
+      await channel.request('commands.reply', [invocationId, message]);
+    },
+  } as ChatCommandInvocation);
+}
+
+// =============================================================================
+// Context
+// =============================================================================
+
+function createContext(options: SandboxInit): SquadPluginContext {
+  const call = (method: string, ...args: unknown[]) => channel.request(method, args);
+
+  const rcon = Object.fromEntries(
+    Object.keys(RCON_CAPABILITIES).map((method) => [
+      method,
+      (...args: unknown[]) => call('rcon', method, args),
+    ]),
+  ) as unknown as PluginRconExecutor;
+
+  const storage = Object.fromEntries(
+    STORAGE_METHODS.map((method) => [method, (...args: unknown[]) => call('storage', method, args)]),
+  ) as unknown as PluginStorage;
+
+  const on = (event: string, handler: (data: unknown) => void | Promise<void>): Unsubscribe => {
+    const id = nextId++;
+    subscriptions.set(id, handler);
+    channel.notify('subscribe', [id, event]);
+    return () => {
+      if (subscriptions.delete(id)) {
+        channel.notify('unsubscribe', [id]);
+      }
+    };
+  };
+
+  const once = (event: string, handler: (data: unknown) => void | Promise<void>): Unsubscribe => {
+    const unsubscribe = on(event, (data) => {
+      unsubscribe();
+      return handler(data);
+    });
+    return unsubscribe;
+  };
+
+  return {
+    events: {
+      on,
+      once,
+      waitFor: (event, waitOptions) => new Promise((resolve, reject) => {
+        const timer = waitOptions?.timeout !== undefined
+          ? setTimeout(() => {
+            unsubscribe();
+            reject(new Error(`Timed out waiting for ${event}`));
+          }, waitOptions.timeout)
+          : undefined;
+        const unsubscribe = once(event, (data) => {
+          clearTimeout(timer);
+          resolve(data as never);
+        });
+        waitOptions?.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          unsubscribe();
+          reject(new Error(`Stopped waiting for ${event}`));
+        }, { once: true });
+      }),
+      emit: (event, data) => {
+        channel.notify('emit', [event, data]);
+      },
+    },
+    rcon,
+    get state() {
+      return state;
+    },
+    log: createLogger(),
+    profiles: {
+      get: (eosID) => call('profiles', 'get', [eosID]) as never,
+      getBySteamID: (steamID) => call('profiles', 'getBySteamID', [steamID]) as never,
+    },
+    bans: {
+      ban: async (...args) => {
+        await call('bans', ...args);
+      },
+    },
+    storage,
+    audit: {
+      record: async (entry) => {
+        await call('audit', entry);
+      },
+    },
+    logRules: {
+      register: (definition: CustomLogRuleDefinition) => register('logRules.register', definition),
+    },
+    commands: {
+      register: (definition) => {
+        const { handler, ...rest }: ChatCommandDefinition = definition;
+        return register('commands.register', rest, (id) => commandHandlers.set(id, handler));
+      },
+    },
+    getConnector: <T>(name: string): T | undefined => {
+      if (!options.connectors.includes(name)) return undefined;
+      // Every method call is forwarded; results arrive as promises
+      return new Proxy({}, {
+        get: (_target, method) =>
+          typeof method === 'string' && method !== 'then'
+            ? (...args: unknown[]) => call('connector', name, method, args)
+            : undefined,
+      }) as T;
+    },
+    provide: () => {
+      throw new Error('Sandboxed plugins cannot provide services');
+    },
+    getPlugin: () => undefined,
+  };
+}
+
+/**
+ * Registers a command or log rule with the host.
+ *
+ * The host answers asynchronously, so a rejected registration is logged
+ * rather than thrown, and fails the mount that made it.
+ */
+function register(method: string, definition: unknown, onRegistered?: (id: number) => void): Unsubscribe {
+  const id = nextId++;
+  onRegistered?.(id);
+
+  const registration = channel.request(method, [id, definition]);
+  const settled = registration.finally(() => pendingRegistrations.delete(settled));
+  pendingRegistrations.add(settled);
+  registration.catch((error: unknown) => {
+    commandHandlers.delete(id);
+    log('error', `Could not register ${(definition as { name?: string }).name ?? 'definition'}`, undefined, error);
+  });
+
+  let removed = false;
+  return () => {
+    if (removed) return;
+    removed = true;
+    commandHandlers.delete(id);
+    void registration.then(() => channel.request('unregister', [id])).catch(() => {});
+  };
+}
+
+function createLogger(): PluginLogger {
+  return {
+    trace: (message, data) => log('trace', message, data),
+    debug: (message, data) => log('debug', message, data),
+    verbose: (message, data) => log('verbose', message, data),
+    info: (message, data) => log('info', message, data),
+    warn: (message, data) => log('warn', message, data),
+    error: (message, error, data) => log('error', message, data, error),
+  };
+}
+
+function log(level: keyof PluginLogger, message: string, data?: unknown, error?: unknown): void {
+  const cause = error === undefined
+    ? undefined
+    : error instanceof Error
+      ? { message: error.message, stack: error.stack }
+      : { message: String(error) };
+  try {
+    channel.notify('log', [level, message, data, cause]);
+  } catch {
+    // Data that can't be cloned is dropped
+    channel.notify('log', [level, message, undefined, cause]);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createStateReader(snapshot: SandboxStateSnapshot): ServerStateReader {
+  const players = new Map(snapshot.players.map((player) => [player.eosID, player]));
+  const squads = new Map(snapshot.squads);
+
+  return {
+    players,
+    squads,
+    currentLayer: snapshot.currentLayer,
+    nextLayer: snapshot.nextLayer,
+    playerCount: snapshot.playerCount,
+    serverInfo: snapshot.serverInfo,
+    getPlayerByEOSID: (eosID: EOSID) => players.get(eosID),
+    getPlayerBySteamID: (steamID: SteamID) =>
+      snapshot.players.find((player) => player.steamID === steamID),
+    getPlayerByID: (playerID: number) =>
+      snapshot.players.find((player) => player.playerID === playerID),
+    getPlayersByName: (name: string) => {
+      const needle = name.toLowerCase();
+      return snapshot.players.filter((player) => player.name.toLowerCase().includes(needle));
+    },
+    getSquadsByTeam: (teamID: number) =>
+      Array.from(squads.values()).filter((squad) => squad.teamID === teamID),
+  };
+}
+
+/**
+ * Points the SDK imports at this worker's copies and disables what the
+ * plugin may not use.
+ *
+ * Bun plugins can't replace builtin modules, so the functions of those
+ * not allowed are swapped out instead. Workers have their own module
+ * instances, so the host is unaffected.
+ */
+function restrictModules(network: boolean, dir: string): void {
+  // Taken before `node:fs` is confined, for loading the plugin's modules
+  const { readFileSync } = require('node:fs') as typeof import('node:fs');
+  const isInside = createPathCheck(dir);
+
+  registerBunPlugin({
+    name: 'squadscript-sandbox',
+    setup(build) {
+      build.module('@squadscript/server', () => ({ exports: SERVER_SDK, loader: 'object' }));
+      build.module('@squadscript/types', () => ({ exports: types, loader: 'object' }));
+      build.module('@squadscript/sandbox-bun', () => {
+        const bun = (globalThis as Record<string, unknown>)[SANDBOX_BUN] as object;
+        return { exports: { ...bun, default: bun }, loader: 'object' };
+      });
+
+      // Bun inlines `process.env.NAME` from the server's environment when
+      // it loads a module, so sources are made to read this worker's
+      // instead. Loading synchronously keeps `require()` working
+      const transpilers = new Map<Bun.JavaScriptLoader, Bun.Transpiler>();
+      build.onLoad({ filter: /./ }, ({ path }) => {
+        if (!isInside(path)) {
+          throw new Error('This plugin may only load modules from its own directory');
+        }
+        const contents = readFileSync(path, 'utf8');
+        const extension = path.slice(path.lastIndexOf('.') + 1);
+        if (!SOURCE_FILE.test(path)) {
+          return { contents, loader: DATA_LOADERS[extension] ?? 'text' };
+        }
+
+        const loader = extension.replace(/^[cm]/, '') as Bun.JavaScriptLoader;
+        let transpiler = transpilers.get(loader);
+        if (!transpiler) {
+          transpiler = new Bun.Transpiler({ loader, target: 'bun', define: SOURCE_DEFINE });
+          transpilers.set(loader, transpiler);
+        }
+        const source = transpiler.transformSync(contents).replace(BUN_IMPORT, '$1"@squadscript/sandbox-bun"');
+        return { contents: source, loader: 'js' };
+      });
+    },
+  });
+
+  const globals = globalThis as Record<string, unknown>;
+  const bun = Bun as unknown as Record<string, unknown>;
+  const isAllowed = (name: string, allowed: Set<string>, networking: Set<string>) =>
+    allowed.has(name) || (network && networking.has(name));
+  const describe = (name: string, fallback: string) =>
+    REFUSED_AS[name] ?? (NETWORK_MODULES.has(name) || NETWORK_BUN_MEMBERS.has(name) ? 'the network' : fallback);
+
+  confineFiles(isInside);
+
+  // Load every module before patching any, since they use each other.
+  // `bun` and `process` are restricted member by member below
+  const { builtinModules } = require('node:module') as typeof import('node:module');
+  const modules = builtinModules
+    .filter((name) => name !== 'bun' && name !== 'process' && !isAllowed(name, ALLOWED_MODULES, NETWORK_MODULES))
+    .flatMap((name) => {
+      const what = describe(name, name.startsWith('bun:') ? name : `node:${name}`);
+      try {
+        return [{ what, module: require(name) as Record<string, unknown> }];
+      } catch {
+        // Modules this worker can't load can't be used by the plugin either
+        return [];
+      }
+    });
+  for (const { what, module } of modules) {
+    for (const key of Object.keys(module)) {
+      if (typeof module[key] === 'function') replace(module, key, what);
+    }
+  }
+
+  // `fetch()` needs the network, and also reads `file:` URLs
+  const fetch = globalThis.fetch;
+  const confinedFetch = network
+    ? (input: string | URL | Request, init?: RequestInit) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (URL.canParse(url) && new URL(url).protocol === 'file:' && !isInside(fileURLToPath(url))) {
+        return Promise.reject(new Error(OUTSIDE_FILES));
+      }
+      return fetch(input, init);
+    }
+    : async () => refuse('the network')();
+  globals.fetch = confinedFetch;
+
+  for (const name of Object.keys(bun)) {
+    if (!isAllowed(name, ALLOWED_BUN_MEMBERS, NETWORK_BUN_MEMBERS)) {
+      replace(bun, name, describe(name, `Bun.${name}`));
+    }
+  }
+  for (const name of PROCESS_MEMBERS) {
+    replace(process as unknown as Record<string, unknown>, name, describe(name, `process.${name}`));
+  }
+
+  // A nested worker would start without any of these restrictions
+  globals.Worker = refuse('workers');
+
+  if (!network) {
+    for (const name of ['WebSocket', 'EventSource']) {
+      globals[name] = refuse('the network');
+    }
+  }
+
+  Object.defineProperty(globals, SANDBOX_BUN, {
+    value: Object.defineProperties({}, {
+      ...Object.getOwnPropertyDescriptors(Bun),
+      fetch: { value: confinedFetch, enumerable: true },
+    }),
+  });
+}
+
+/**
+ * Returns whether a path lies within the directory, following existing
+ * symlinks.
+ */
+function createPathCheck(dir: string): (path: string) => boolean {
+  // Kept here so the plugin can't replace them
+  const { existsSync, realpathSync } = require('node:fs') as typeof import('node:fs');
+  const root = realpathSync(dir);
+
+  return (path) => {
+    let existing = resolve(path);
+    const missing: string[] = [];
+    while (!existsSync(existing)) {
+      const parent = dirname(existing);
+      if (parent === existing) break;
+      missing.unshift(basename(existing));
+      existing = parent;
+    }
+    const real = join(realpathSync(existing), ...missing);
+    return real === root || real.startsWith(root + sep);
+  };
+}
+
+/**
+ * Confines `node:fs`, `Bun.file()` and `Bun.write()` to the package
+ * directory. File descriptors may only be used if the plugin opened
+ * them, and the `node:fs` functions not checked here are refused.
+ */
+function confineFiles(isInside: (path: string) => boolean): void {
+  const fs = require('node:fs') as Record<string, unknown>;
+  const fsPromises = require('node:fs/promises') as Record<string, unknown>;
+  const bun = Bun as unknown as Record<string, unknown>;
+
+  /** Descriptors the plugin opened, plus stdout and stderr. */
+  const descriptors = new Set([1, 2]);
+
+  /** The wrappers installed below. */
+  const checked = new WeakSet<object>();
+
+  const check = (target: unknown): void => {
+    const path = target instanceof URL
+      ? fileURLToPath(target)
+      : typeof target === 'string' || Buffer.isBuffer(target)
+        ? String(target)
+        : null;
+    const allowed = typeof target === 'number' ? descriptors.has(target) : path !== null && isInside(path);
+    if (!allowed) {
+      throw new Error(OUTSIDE_FILES);
+    }
+  };
+
+  type Callable = (...args: unknown[]) => unknown;
+  type Wrap = (args: unknown[], call: () => unknown) => unknown;
+
+  const confine = (original: Callable, paths: number, wrap?: Wrap) => {
+    const guarded = function guarded(this: unknown, ...args: unknown[]) {
+      const call = () => original.apply(this, args);
+      if (wrap) return wrap(args, call);
+      for (const target of args.slice(0, paths)) check(target);
+      return call();
+    };
+    checked.add(guarded);
+    return guarded;
+  };
+
+  const guard = (module: Record<string, unknown>, name: string, paths: number, wrap?: Wrap) => {
+    const original = module[name];
+    if (typeof original !== 'function') return;
+    const guarded = confine(original as Callable, paths, wrap) as unknown as Record<string, unknown>;
+    // Such as `realpathSync.native`
+    for (const [key, value] of Object.entries(original)) {
+      if (typeof value === 'function') guarded[key] = confine(value as Callable, paths, wrap);
+    }
+    module[name] = guarded;
+  };
+
+  for (const [names, paths] of [[FS_PATHS, 1], [FS_LINKS, 2], [FS_DESCRIPTORS, 1]] as const) {
+    for (const name of names) {
+      guard(fs, name, paths);
+      guard(fs, `${name}Sync`, paths);
+      guard(fsPromises, name, paths);
+    }
+  }
+
+  // Opened descriptors stay usable until they are closed
+  guard(fs, 'openSync', 1, (args, call) => {
+    check(args[0]);
+    const fd = call() as number;
+    descriptors.add(fd);
+    return fd;
+  });
+  guard(fs, 'open', 1, (args, call) => {
+    check(args[0]);
+    const callback = args.at(-1);
+    if (typeof callback === 'function') {
+      args[args.length - 1] = (error: unknown, fd: number) => {
+        if (!error) descriptors.add(fd);
+        callback(error, fd);
+      };
+    }
+    return call();
+  });
+  guard(fsPromises, 'open', 1, async (args, call) => {
+    check(args[0]);
+    const handle = (await call()) as { fd: number };
+    descriptors.add(handle.fd);
+    return handle;
+  });
+  for (const [module, name] of [[fs, 'close'], [fs, 'closeSync'], [fsPromises, 'close']] as const) {
+    guard(module, name, 1, (args, call) => {
+      check(args[0]);
+      if (typeof args[0] === 'number' && args[0] > 2) descriptors.delete(args[0]);
+      return call();
+    });
+  }
+
+  for (const [prefix, module] of [['fs', fs], ['fs.promises', fsPromises]] as const) {
+    for (const key of Object.keys(module)) {
+      const value = module[key];
+      if (typeof value === 'function' && !checked.has(value) && !FS_UNCHECKED.has(key)) {
+        module[key] = refuse(`${prefix}.${key}`);
+      }
+    }
+  }
+
+  const write = Bun.write;
+  Object.defineProperty(bun, 'write', {
+    value: (destination: unknown, ...rest: unknown[]) => {
+      check(destination instanceof Blob && 'name' in destination ? destination.name : destination);
+      return (write as (...args: unknown[]) => unknown)(destination, ...rest);
+    },
+  });
+
+  const file = Bun.file;
+  Object.defineProperty(bun, 'file', {
+    value: (...args: Parameters<typeof Bun.file>) => {
+      check(args[0]);
+      return file(...args);
+    },
+  });
+}
+
+/**
+ * Replaces a member with one that throws when used. Members that can't
+ * be redefined or reassigned have their methods replaced instead.
+ */
+function replace(owner: Record<string, unknown>, key: string, what: string): void {
+  const descriptor = Object.getOwnPropertyDescriptor(owner, key);
+  if (!descriptor) return;
+  const current: unknown = 'value' in descriptor ? descriptor.value : owner[key];
+  const value = typeof current === 'function' ? refuse(what) : new Proxy({}, { get: refuse(what) });
+
+  if (descriptor.configurable) {
+    Object.defineProperty(owner, key, { value });
+  } else if (descriptor.writable) {
+    owner[key] = value;
+  } else if (typeof current === 'object' && current !== null) {
+    for (const method of Object.keys(current)) {
+      if (typeof (current as Record<string, unknown>)[method] === 'function') {
+        replace(current as Record<string, unknown>, method, what);
+      }
+    }
+  }
+}
+
+/** Plain functions, so `new WebSocket()` fails with the same message. */
+function refuse(what: string) {
+  return function refused(): never {
+    throw new Error(`This plugin may not use ${what}`);
+  };
+}
+
+/**
+ * Finds the plugin class: the default export, or the first export
+ * extending BasePlugin.
+ */
+function findPluginClass(module: Record<string, unknown>): BundledPluginClass {
+  const candidates = [module.default, ...Object.values(module)];
+  const Class = candidates.find(
+    (value) => typeof value === 'function' && value.prototype instanceof BasePlugin,
+  );
+  if (!Class) {
+    throw new Error('Bundle does not export a class extending BasePlugin');
+  }
+  return Class as BundledPluginClass;
+}
@@ -0,0 +1,478 @@
+/**
+ * @squadscript/server
+ *
+ * Sandboxed plugins.
+ *
+ * A package installed from the dashboard runs in its own Bun worker, so
+ * a plugin that loops forever or crashes can't take the server with it.
+ * On the server side it is represented by an ordinary BasePlugin that
+ * starts the worker when mounted and stops it when unmounted, so the
+ * PluginManager enables, reconfigures and uninstalls it like any other.
+ *
+ * Every context call the worker makes is checked against the manifest's
+ * capabilities before it reaches the server. Connectors are available
+ * when listed in the manifest; services from other plugins are not. The
+ * worker doesn't inherit the server's environment, which holds secrets
+ * such as DATABASE_URL and the JWT secret.
+ *
+ * @module
+ */
+
+import type {
+  ChatCommandInvocation,
+  PluginCapability,
+  PluginLogger,
+  PluginManifest,
+  PluginRconExecutor,
+  SquadEventMap,
+  Unsubscribe,
+} from '@squadscript/types';
+import { BasePlugin } from './base-plugin.js';
+import type { PluginClass } from './loader.js';
+import type { InstalledPluginPackage } from './installer.js';
+import { hasCapability, RCON_CAPABILITIES } from './manifest.js';
+import {
+  SandboxChannel,
+  type SandboxCommandDefinition,
+  type SandboxCommandInvocation,
+  type SandboxInit,
+  type SandboxMessage,
+  type SandboxStateSnapshot,
+} from './sandbox-protocol.js';
+
+/**
+ * Options for sandboxed plugins.
+ */
+export interface SandboxOptions {
+  /** How often the worker must answer a ping, in ms (default: 5000). */
+  readonly heartbeatInterval?: number;
+
+  /** How long the worker may take to load, prepare or mount, in ms (default: 20000). */
+  readonly lifecycleTimeout?: number;
+
+  /** How long a chat command may run, in ms (default: 30000). */
+  readonly commandTimeout?: number;
+
+  /** How often server state is copied into the worker, in ms (default: 1000). */
+  readonly stateInterval?: number;
+
+  /** Worker entry script (default: the bundled sandbox worker). */
+  readonly workerUrl?: string | URL;
+}
+
+/**
+ * A plugin class created for an installed package.
+ */
+export interface SandboxedPluginClass extends PluginClass {
+  /** The package's manifest. */
+  readonly manifest: PluginManifest;
+}
+
+/** The worker script, next to this module in both `src` and `dist`. */
+const WORKER_URL = new URL(
+  import.meta.url.endsWith('.ts') ? './sandbox-worker.ts' : './sandbox-worker.js',
+  import.meta.url,
+);
+
+/** Environment variables passed on to workers. */
+const WORKER_ENV = ['NODE_ENV', 'TZ', 'LANG'];
+
+const STORAGE_METHODS = new Set(['get', 'set', 'delete', 'list', 'increment']);
+const PROFILE_METHODS = new Set(['get', 'getBySteamID']);
+const LOG_LEVELS = new Set<keyof PluginLogger>(['trace', 'debug', 'verbose', 'info', 'warn', 'error']);
+
+/**
+ * Gets the manifest of a plugin class created by createSandboxedPlugin().
+ *
+ * @returns The manifest, or undefined for trusted plugins
+ */
+export function getPluginManifest(Class: PluginClass): PluginManifest | undefined {
+  return (Class as Partial<SandboxedPluginClass>).manifest;
+}
+
+/**
+ * Creates the plugin class that runs an installed package in a worker.
+ *
+ * @param installed - The installed package
+ * @param options - Timeouts and intervals
+ * @returns A plugin class for PluginManager
+ *
+ * @example
+ * ```typescript
+ * for (const installed of await installer.list()) {
+ *   plugins.push({ plugin: createSandboxedPlugin(installed) });
+ * }
+ * ```
+ */
+export function createSandboxedPlugin(
+  installed: InstalledPluginPackage,
+  options: SandboxOptions = {},
+): SandboxedPluginClass {
+  const { manifest, dir, entry } = installed;
+  const capabilities = manifest.capabilities;
+  const heartbeatInterval = options.heartbeatInterval ?? 5_000;
+  const lifecycleTimeout = options.lifecycleTimeout ?? 20_000;
+  const commandTimeout = options.commandTimeout ?? 30_000;
+  const stateInterval = options.stateInterval ?? 1_000;
+  const workerUrl = options.workerUrl ?? WORKER_URL;
+
+  return class SandboxedPlugin extends BasePlugin {
+    static readonly meta = manifest.meta;
+    static readonly optionsSpec = manifest.optionsSpec ?? {};
+    static readonly manifest = manifest;
+
+    private worker: Worker | null = null;
+    private channel: SandboxChannel | null = null;
+
+    /** Event subscriptions by the worker's subscription ID. */
+    private readonly forwarded = new Map<number, Unsubscribe>();
+
+    /** Commands and log rules by the worker's registration ID. */
+    private readonly registrations = new Map<number, Unsubscribe>();
+
+    /** `reply` of running command invocations. */
+    private readonly replies = new Map<number, ChatCommandInvocation['reply']>();
+
+    private nextInvocationId = 1;
+    private lastState = '';
+    private pinging = false;
+
+    /**
+     * Starts the worker, which loads the bundle and runs `prepareToMount()`.
+     */
+    async prepareToMount(): Promise<void> {
+      const connectors = manifest.connectors ?? [];
+      const missing = connectors.filter((name) => this.getConnector(name) === undefined);
+      if (missing.length > 0) {
+        throw new Error(`Required connector(s) not configured: ${missing.join(', ')}`);
+      }
+
+      const worker = new Worker(workerUrl, { smol: true, env: workerEnv() });
+      const channel = new SandboxChannel(worker, {
+        request: (method, args) => this.handleRequest(method, args),
+        notify: (method, args) => this.handleNotify(method, args),
+      });
+      worker.onmessage = (event: MessageEvent<SandboxMessage>) => channel.handle(event.data);
+      worker.addEventListener('error', (event) => {
+        this.fail(`crashed: ${event.message}`);
+      });
+      worker.addEventListener('close', () => {
+        if (this.worker === worker) this.fail('exited');
+      });
+      this.worker = worker;
+      this.channel = channel;
+
+      const snapshot = this.snapshot();
+      this.lastState = JSON.stringify(snapshot);
+      const init: SandboxInit = {
+        entry,
+        dir,
+        meta: manifest.meta,
+        options: this.options as Record<string, unknown>,
+        capabilities,
+        connectors,
+        state: snapshot,
+      };
+
+      try {
+        await channel.request('init', [init], lifecycleTimeout);
+      } catch (error) {
+        this.stop();
+        throw error;
+      }
+    }
+
+    /**
+     * Mounts the plugin in the worker and starts the heartbeat.
+     */
+    async mount(): Promise<void> {
+      try {
+        await this.request('mount', [], lifecycleTimeout);
+      } catch (error) {
+        this.stop();
+        throw error;
+      }
+
+      this.setInterval(() => this.syncState(), stateInterval, 'sandbox-state');
+      this.setInterval(() => this.heartbeat(), heartbeatInterval, 'sandbox-heartbeat');
+      this.log.info(`Running in a sandbox with capabilities: ${capabilities.join(', ') || 'none'}`);
+    }
+
+    /**
+     * Unmounts the plugin in the worker, then stops the worker.
+     */
+    async unmount(): Promise<void> {
+      try {
+        if (this.channel) {
+          await this.request('unmount', [], lifecycleTimeout);
+        }
+      } catch (error) {
+        this.log.warn(`Sandbox did not unmount cleanly: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        this.stop();
+        await super.unmount();
+      }
+    }
+
+    // =========================================================================
+    // Worker Requests
+    // =========================================================================
+
+    private async handleRequest(method: string, args: readonly unknown[]): Promise<unknown> {
+      switch (method) {
+        case 'rcon': {
+          const [name, params] = args as [string, unknown[]];
+          if (!Object.hasOwn(RCON_CAPABILITIES, name)) {
+            throw new Error(`Unknown RCON method "${name}"`);
+          }
+          const needed = RCON_CAPABILITIES[name as keyof PluginRconExecutor];
+          if (needed) this.require(needed);
+          const call = this.rcon[name as keyof PluginRconExecutor] as (...params: unknown[]) => Promise<unknown>;
+          return call(...params);
+        }
+
+        case 'storage': {
+          const [name, params] = args as [string, unknown[]];
+          if (!STORAGE_METHODS.has(name)) throw new Error(`Unknown storage method "${name}"`);
+          const storage = this.storage as unknown as Record<string, (...params: unknown[]) => Promise<unknown>>;
+          return storage[name]!(...params);
+        }
+
+        case 'profiles': {
+          const [name, params] = args as [string, unknown[]];
+          if (!PROFILE_METHODS.has(name)) throw new Error(`Unknown profile method "${name}"`);
+          const profiles = this.profiles as unknown as Record<string, (...params: unknown[]) => Promise<unknown>>;
+          return profiles[name]!(...params);
+        }
+
+        case 'bans': {
+          this.require('rcon.ban');
+          const [target, duration, reason, issuer] = args as Parameters<typeof this.bans.ban>;
+          return this.bans.ban(target, duration, reason, issuer);
+        }
+
+        case 'audit':
+          this.require('audit');
+          return this.audit.record(args[0] as Parameters<typeof this.audit.record>[0]);
+
+        case 'logRules.register': {
+          this.require('logRules');
+          const [id, definition] = args as [number, Parameters<typeof this.registerLogRule>[0]];
+          this.registrations.set(id, this.registerLogRule(definition));
+          return null;
+        }
+
+        case 'commands.register': {
+          this.require('commands');
+          const [id, definition] = args as [number, SandboxCommandDefinition];
+          this.registrations.set(id, this.registerCommand({
+            ...definition,
+            handler: (invocation) => this.runCommand(id, invocation),
+          }));
+          return null;
+        }
+
+        case 'commands.reply': {
+          const [invocationId, message] = args as [number, string];
+          const reply = this.replies.get(invocationId);
+          if (!reply) throw new Error('The command has already finished');
+          return reply(message);
+        }
+
+        case 'unregister': {
+          const [id] = args as [number];
+          this.registrations.get(id)?.();
+          this.registrations.delete(id);
+          return null;
+        }
+
+        case 'connector': {
+          const [name, member, params] = args as [string, string, unknown[]];
+          if (!(manifest.connectors ?? []).includes(name)) {
+            throw new Error(`Connector "${name}" is not listed in the manifest`);
+          }
+          const connector = this.getConnector<Record<string, unknown>>(name);
+          const fn = connector?.[member];
+          if (typeof fn !== 'function') {
+            throw new Error(`Connector "${name}" has no method "${member}"`);
+          }
+          return fn.apply(connector, params);
+        }
+
+        default:
+          throw new Error(`Unknown request "${method}"`);
+      }
+    }
+
+    private handleNotify(method: string, args: readonly unknown[]): void {
+      switch (method) {
+        case 'log': {
+          const [level, message, data, cause] = args as [
+            keyof PluginLogger,
+            string,
+            unknown,
+            { message: string; stack?: string } | undefined,
+          ];
+          if (!LOG_LEVELS.has(level)) return;
+          if (level === 'error') {
+            const error = cause ? Object.assign(new Error(cause.message), { stack: cause.stack }) : undefined;
+            this.log.error(message, error, data);
+          } else {
+            this.log[level](message, data);
+          }
+          break;
+        }
+
+        case 'subscribe': {
+          const [id, event] = args as [number, keyof SquadEventMap & string];
+          this.forwarded.set(id, this.on(event, (data) => this.forward(id, data)));
+          break;
+        }
+
+        case 'unsubscribe': {
+          const [id] = args as [number];
+          this.forwarded.get(id)?.();
+          this.forwarded.delete(id);
+          break;
+        }
+
+        case 'emit': {
+          const [event, data] = args as [string, unknown];
+          this.emit(event, data);
+          break;
+        }
+      }
+    }
+
+    // =========================================================================
+    // Helpers
+    // =========================================================================
+
+    /**
+     * Throws unless the manifest grants a capability.
+     */
+    private require(capability: PluginCapability): void {
+      if (!hasCapability(capabilities, capability)) {
+        this.log.warn(`Refused a call that needs the "${capability}" capability`);
+        throw new Error(`${manifest.meta.name} does not have the "${capability}" capability`);
+      }
+    }
+
+    private request(method: string, args: readonly unknown[], timeoutMs: number): Promise<unknown> {
+      if (!this.channel) {
+        return Promise.reject(new Error('Sandbox is not running'));
+      }
+      return this.channel.request(method, args, timeoutMs);
+    }
+
+    private async runCommand(id: number, invocation: ChatCommandInvocation): Promise<void> {
+      const invocationId = this.nextInvocationId++;
+      this.replies.set(invocationId, invocation.reply);
+      const data: SandboxCommandInvocation = {
+        invocationId,
+        player: invocation.player,
+        channel: invocation.channel,
+        command: invocation.command,
+        args: invocation.args,
+        rawArgs: invocation.rawArgs,
+        event: invocation.event,
+      };
+      try {
+        await this.request('command', [id, data], commandTimeout);
+      } finally {
+        this.replies.delete(invocationId);
+      }
+    }
+
+    private forward(id: number, data: unknown): void {
+      try {
+        this.channel?.notify('event', [id, data]);
+      } catch (error) {
+        this.log.debug(`Could not forward an event: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    private snapshot(): SandboxStateSnapshot {
+      const state = this.server;
+      return {
+        players: Array.from(state.players.values()),
+        squads: Array.from(state.squads.entries()),
+        currentLayer: state.currentLayer,
+        nextLayer: state.nextLayer,
+        playerCount: state.playerCount,
+        serverInfo: state.serverInfo,
+      };
+    }
+
+    /**
+     * Copies server state into the worker if it changed.
+     */
+    private syncState(): void {
+      const snapshot = this.snapshot();
+      const serialized = JSON.stringify(snapshot);
+      if (serialized === this.lastState) return;
+      this.lastState = serialized;
+      try {
+        this.channel?.notify('state', [snapshot]);
+      } catch (error) {
+        this.log.debug(`Could not copy state: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    /**
+     * Stops a worker that no longer answers, e.g. because it is stuck in
+     * a loop, or that uses more memory than its budget allows.
+     */
+    private async heartbeat(): Promise<void> {
+      if (this.pinging || !this.channel) return;
+      this.pinging = true;
+      let heapUsed: number;
+      try {
+        heapUsed = await this.channel.request('ping', [], heartbeatInterval) as number;
+      } catch {
+        this.fail(`stopped responding for ${heartbeatInterval}ms`);
+        return;
+      } finally {
+        this.pinging = false;
+      }
+      if (!this.reportHeapUsage(heapUsed)) {
+        this.fail('exceeded its memory budget');
+      }
+    }
+
+    private fail(reason: string): void {
+      if (!this.worker) return;
+      this.stop();
+      this.reportFailure(new Error(`Sandbox ${reason}; the plugin is stopped until it is enabled again`));
+    }
+
+    /**
+     * Terminates the worker and removes everything it registered.
+     */
+    private stop(): void {
+      const worker = this.worker;
+      this.worker = null;
+      this.channel?.close('Sandbox stopped');
+      this.channel = null;
+      worker?.terminate();
+
+      for (const unsubscribe of this.forwarded.values()) unsubscribe();
+      for (const unregister of this.registrations.values()) unregister();
+      this.forwarded.clear();
+      this.registrations.clear();
+      this.replies.clear();
+    }
+  };
+}
+
+/**
+ * Copies the harmless part of the server's environment.
+ */
+function workerEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of WORKER_ENV) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return env;
+}
@@ -0,0 +1,225 @@
+/**
+ * @squadscript/server
+ *
+ * Server adapter - exposes a SquadServer as a PluginServerInterface.
+ *
+ * The plugin manager only depends on the narrow PluginServerInterface,
+ * so the runtime wraps the live SquadServer with this adapter before
+ * handing it to the manager. RCON results are unwrapped into thrown
+ * errors to match the PluginRconExecutor contract.
+ *
+ * @module
+ */
+
+import type {
+  EOSID,
+  Player,
+  PluginRconExecutor,
+  ServerStateReader,
+  SquadEventMap,
+  SteamID,
+  Squad,
+  Result,
+} from '@squadscript/types';
+import { asTeamID } from '@squadscript/types';
+import type { RconClient, RconError } from '@squadscript/rcon';
+
+import type { SquadServer } from '../server.js';
+import { ErrorCode, SquadServerError } from '../errors.js';
+import type { ServerEventMap } from '../types.js';
+import type { PluginServerInterface } from './manager.js';
+
+type ServerEventKey = keyof ServerEventMap & string;
+
+/**
+ * Unwraps a SquadServer command result, throwing on failure.
+ */
+function unwrap<T>(result: Result<T, Error>): T {
+  if (!result.ok) {
+    throw result.error;
+  }
+  return result.value;
+}
+
+/**
+ * Checks a team ID passed by a plugin.
+ */
+function teamArg(teamID: number): 1 | 2 {
+  if (teamID !== 1 && teamID !== 2) {
+    throw new SquadServerError(ErrorCode.COMMAND_FAILED, `Invalid team ID: ${teamID}`, { teamID });
+  }
+  return teamID;
+}
+
+/**
+ * Creates the RCON executor exposed to plugins.
+ */
+function createRconExecutor(server: SquadServer): PluginRconExecutor {
+  const run = async <T>(
+    name: string,
+    command: (rcon: RconClient) => Promise<Result<T, RconError>>,
+  ): Promise<T> => unwrap(await server.rconCommand(name, command));
+
+  return {
+    execute: async (command) => unwrap(await server.execute(command)),
+    broadcast: async (message) => unwrap(await server.broadcast(message)),
+    warn: async (target, message) => unwrap(await server.warn(target, message)),
+    kick: async (target, reason) => unwrap(await server.kick(target, reason)),
+    ban: async (target, duration, reason) =>
+      unwrap(await server.ban(target, duration, reason)),
+
+    getServerInfo: () => run('ShowServerInfo', (rcon) => rcon.getServerInfo()),
+    getDisconnectedPlayers: () =>
+      run('AdminListDisconnectedPlayers', (rcon) => rcon.getDisconnectedPlayers()),
+    getLayers: () => run('ListLayers', (rcon) => rcon.getLayers()),
+    getLevels: () => run('ListLevels', (rcon) => rcon.getLevels()),
+    changeLayer: (layer) => run('AdminChangeLayer', (rcon) => rcon.changeLayer(layer)),
+    setNextLayer: (layer) => run('AdminSetNextLayer', (rcon) => rcon.setNextLayer(layer)),
+    endMatch: () => run('AdminEndMatch', (rcon) => rcon.endMatch()),
+    restartMatch: () => run('AdminRestartMatch', (rcon) => rcon.restartMatch()),
+    pauseMatch: () => run('AdminPauseMatch', (rcon) => rcon.pauseMatch()),
+    unpauseMatch: () => run('AdminUnpauseMatch', (rcon) => rcon.unpauseMatch()),
+    forceTeamChange: (target) =>
+      run('AdminForceTeamChange', (rcon) => rcon.forceTeamChange(target)),
+    removeFromSquad: (target) =>
+      run('AdminRemovePlayerFromSquad', (rcon) => rcon.removeFromSquad(target)),
+    demoteCommander: (target) =>
+      run('AdminDemoteCommander', (rcon) => rcon.demoteCommander(target)),
+    disbandSquad: (teamID, squadID) =>
+      run('AdminDisbandSquad', (rcon) => rcon.disbandSquad(teamArg(teamID), squadID)),
+    renameSquad: (teamID, squadID) =>
+      run('AdminRenameSquad', (rcon) => rcon.renameSquad(teamArg(teamID), squadID)),
+    setMaxPlayers: (count) => run('AdminSetMaxNumPlayers', (rcon) => rcon.setMaxPlayers(count)),
+    setPublicQueueLimit: (limit) =>
+      run('AdminSetPublicQueueLimit', (rcon) => rcon.setPublicQueueLimit(limit)),
+    setServerPassword: (password) =>
+      run('AdminSetServerPassword', (rcon) => rcon.setServerPassword(password)),
+    setSlomo: (scale) => run('AdminSlomo', (rcon) => rcon.setSlomo(scale)),
+    setFogOfWar: (enabled) => run('AdminSetFogOfWar', (rcon) => rcon.setFogOfWar(enabled)),
+    forceAllRoleAvailability: (enabled) =>
+      run('AdminForceAllRoleAvailability', (rcon) => rcon.forceAllRoleAvailability(enabled)),
+    forceAllVehicleAvailability: (enabled) =>
+      run('AdminForceAllVehicleAvailability', (rcon) => rcon.forceAllVehicleAvailability(enabled)),
+    forceAllDeployableAvailability: (enabled) =>
+      run('AdminForceAllDeployableAvailability', (rcon) => rcon.forceAllDeployableAvailability(enabled)),
+    forceAllActionAvailability: (enabled) =>
+      run('AdminForceAllActionAvailability', (rcon) => rcon.forceAllActionAvailability(enabled)),
+    setAlwaysValidPlacement: (enabled) =>
+      run('AdminAlwaysValidPlacement', (rcon) => rcon.setAlwaysValidPlacement(enabled)),
+    setNoTeamChangeTimer: (enabled) =>
+      run('AdminNoTeamChangeTimer', (rcon) => rcon.setNoTeamChangeTimer(enabled)),
+    setNoRespawnTimer: (enabled) =>
+      run('AdminNoRespawnTimer', (rcon) => rcon.setNoRespawnTimer(enabled)),
+    disableVehicleClaiming: (disabled) =>
+      run('AdminDisableVehicleClaiming', (rcon) => rcon.disableVehicleClaiming(disabled)),
+    disableVehicleTeamRequirement: (disabled) =>
+      run('AdminDisableVehicleTeamRequirement', (rcon) => rcon.disableVehicleTeamRequirement(disabled)),
+    disableVehicleKitRequirement: (disabled) =>
+      run('AdminDisableVehicleKitRequirement', (rcon) => rcon.disableVehicleKitRequirement(disabled)),
+    reloadServerConfig: () =>
+      run('AdminReloadServerConfig', (rcon) => rcon.reloadServerConfig()),
+  };
+}
+
+/**
+ * Creates a live, read-only view of server state for plugins.
+ *
+ * Every accessor reads through to the SquadServer so plugins always
+ * observe the latest state without holding stale snapshots.
+ */
+function createStateReader(server: SquadServer): ServerStateReader {
+  return {
+    get players(): ReadonlyMap<EOSID, Player> {
+      return new Map(server.players.map((player) => [player.eosID, player]));
+    },
+
+    get squads(): ReadonlyMap<string, Squad> {
+      return new Map(
+        server.squads.map((squad) => [`${squad.teamID}-${squad.squadID}`, squad]),
+      );
+    },
+
+    get currentLayer() {
+      return server.currentLayer;
+    },
+
+    get nextLayer() {
+      return server.nextLayer;
+    },
+
+    get playerCount() {
+      return server.playerCount;
+    },
+
+    get serverInfo() {
+      return server.getServerInfo();
+    },
+
+    getPlayerByEOSID: (eosID: EOSID) => server.getPlayerByEOSID(eosID) ?? undefined,
+
+    getPlayerBySteamID: (steamID: SteamID) =>
+      server.getPlayerBySteamID(steamID) ?? undefined,
+
+    getPlayerByID: (playerID: number) =>
+      server.players.find((player) => player.playerID === playerID),
+
+    getPlayersByName: (name: string) => {
+      const needle = name.toLowerCase();
+      return server.players.filter((player) =>
+        player.name.toLowerCase().includes(needle),
+      );
+    },
+
+    getSquadsByTeam: (teamID: number) => {
+      const id = asTeamID(teamID);
+      return id === null ? [] : server.getSquadsByTeam(id);
+    },
+  };
+}
+
+/**
+ * Wraps a SquadServer in the interface required by the PluginManager.
+ *
+ * @param server - The running SquadServer instance
+ * @returns Plugin server interface backed by the given server
+ *
+ * @example
+ * ```typescript
+ * const manager = new PluginManager({
+ *   logger,
+ *   server: createPluginServerAdapter(squadServer),
+ *   plugins,
+ * });
+ * ```
+ */
+export function createPluginServerAdapter(server: SquadServer): PluginServerInterface {
+  return {
+    events: {
+      on: (event, handler) => {
+        server.on(event as ServerEventKey, handler as never);
+      },
+      once: (event, handler) => {
+        server.once(event as ServerEventKey, handler as never);
+      },
+      off: (event, handler) => {
+        server.off(event as ServerEventKey, handler as never);
+      },
+      waitFor: <K extends keyof SquadEventMap & string>(
+        event: K,
+        options?: { signal?: AbortSignal; timeout?: number },
+      ) => server.waitFor(event as ServerEventKey, options) as Promise<SquadEventMap[K]>,
+      emit: (event, data) => {
+        server.emit(event as ServerEventKey, data as never);
+      },
+    },
+    rcon: createRconExecutor(server),
+    state: createStateReader(server),
+    logRules: {
+      add: (definition) => unwrap(server.addLogRule(definition)),
+      remove: (name) => server.removeLogRule(name),
+    },
+    commands: {
+      register: (definition, owner) => unwrap(server.registerCommand(definition, owner)),
+    },
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * @squadscript/server
+ *
+ * Plugin storage providers.
+ *
+ * Each plugin receives a PluginStorage scoped to its name through
+ * `context.storage`. The runtime backs storage with the dashboard
+ * database; the in-memory provider is used when no database is
+ * available and in tests.
+ *
+ * @module
+ */
+
+import type { PluginStorage, PluginStorageSetOptions } from '@squadscript/types';
+
+import type { PluginStorageRepository } from '../db/repositories/plugin-storage.repo.js';
+
+/**
+ * Creates storage scoped to a plugin and cleans it up on uninstall.
+ */
+export interface PluginStorageProvider {
+  /**
+   * Gets the storage for a plugin.
+   */
+  forPlugin(pluginName: string): PluginStorage;
+
+  /**
+   * Deletes everything a plugin has stored.
+   */
+  clear(pluginName: string): Promise<void>;
+}
+
+/**
+ * Normalizes a value to what a JSON round trip would return.
+ *
+ * @throws {Error} If the value cannot be represented as JSON
+ */
+function toJsonValue(key: string, value: unknown): unknown {
+  const json = JSON.stringify(value);
+  if (json === undefined) {
+    throw new Error(`Value for storage key "${key}" is not JSON-serializable`);
+  }
+  return JSON.parse(json);
+}
+
+/**
+ * Resolves the expiry time of a set() call.
+ *
+ * @throws {Error} If the TTL is not a positive number
+ */
+function toExpiresAt(key: string, options?: PluginStorageSetOptions): Date | null {
+  if (options?.ttl === undefined) return null;
+
+  if (!Number.isFinite(options.ttl) || options.ttl <= 0) {
+    throw new Error(`TTL for storage key "${key}" must be a positive number of milliseconds`);
+  }
+  return new Date(Date.now() + options.ttl);
+}
+
+// =============================================================================
+// In-memory
+// =============================================================================
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/**
+ * Storage provider that keeps values in process memory.
+ */
+export class MemoryStorageProvider implements PluginStorageProvider {
+  private readonly plugins = new Map<string, Map<string, MemoryEntry>>();
+
+  forPlugin(pluginName: string): PluginStorage {
+    const entries = (): Map<string, MemoryEntry> => {
+      let map = this.plugins.get(pluginName);
+      if (!map) {
+        map = new Map();
+        this.plugins.set(pluginName, map);
+      }
+      return map;
+    };
+
+    const live = (key: string): MemoryEntry | undefined => {
+      const entry = entries().get(key);
+      if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        entries().delete(key);
+        return undefined;
+      }
+      return entry;
+    };
+
+    return {
+      get: async <T>(key: string) => {
+        const entry = live(key);
+        return entry ? toJsonValue(key, entry.value) as T : undefined;
+      },
+
+      set: async (key, value, options) => {
+        entries().set(key, {
+          value: toJsonValue(key, value),
+          expiresAt: toExpiresAt(key, options)?.getTime() ?? null,
+        });
+      },
+
+      delete: async (key) => {
+        const existed = live(key) !== undefined;
+        entries().delete(key);
+        return existed;
+      },
+
+      list: async (prefix = '') => {
+        return Array.from(entries().keys())
+          .filter((key) => key.startsWith(prefix) && live(key) !== undefined)
+          .sort();
+      },
+
+      increment: async (key, by = 1) => {
+        const entry = live(key);
+        if (entry && typeof entry.value !== 'number') {
+          throw new Error(`Value of storage key "${key}" is not a number`);
+        }
+
+        const value = ((entry?.value as number | undefined) ?? 0) + by;
+        entries().set(key, { value, expiresAt: entry?.expiresAt ?? null });
+        return value;
+      },
+    };
+  }
+
+  async clear(pluginName: string): Promise<void> {
+    this.plugins.delete(pluginName);
+  }
+}
+
+// =============================================================================
+// Database
+// =============================================================================
+
+/**
+ * Storage provider backed by the `plugin_storage` table.
+ */
+export class DatabaseStorageProvider implements PluginStorageProvider {
+  constructor(
+    private readonly repo: PluginStorageRepository,
+    private readonly serverId: string,
+  ) {}
+
+  forPlugin(pluginName: string): PluginStorage {
+    const scope = { serverId: this.serverId, pluginName };
+
+    return {
+      get: async <T>(key: string) => {
+        const row = await this.repo.find(scope, key);
+        return row ? row.value as T : undefined;
+      },
+
+      set: async (key, value, options) => {
+        await this.repo.upsert(scope, key, toJsonValue(key, value), toExpiresAt(key, options));
+      },
+
+      delete: async (key) => this.repo.delete(scope, key),
+
+      list: async (prefix) => this.repo.listKeys(scope, prefix),
+
+      increment: async (key, by = 1) => {
+        try {
+          return await this.repo.increment(scope, key, by);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`Cannot increment storage key "${key}": ${message}`);
+        }
+      },
+    };
+  }
+
+  async clear(pluginName: string): Promise<void> {
+    await this.repo.deleteAll({ serverId: this.serverId, pluginName });
+  }
+}
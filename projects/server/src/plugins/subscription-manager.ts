@@ -10,10 +10,15 @@
  * This solves a major issue in SquadJS where plugins could leak resources
  * by not properly removing event listeners or clearing timers.
  *
+ * With a HandlerMonitor attached, event handlers and timer callbacks are
+ * measured and kept within the plugin's budget, and the number of timers
+ * is capped.
+ *
  * @module
  */
 
 import type { Unsubscribe } from '@squadscript/types';
+import type { HandlerMonitor } from './handler-monitor.js';
 
 /**
  * Timer reference type (from Bun/Node).
@@ -72,6 +77,9 @@ export class SubscriptionManager {
   /** Whether cleanup has been called. */
   private isCleanedUp = false;
 
+  /** Monitor that measures handlers, if attached. */
+  private monitor: HandlerMonitor | undefined;
+
   /**
    * Tracks an event subscription for later cleanup.
    *
@@ -99,6 +107,39 @@ export class SubscriptionManager {
     };
   }
 
+  /**
+   * Attaches the monitor that measures and limits handlers.
+   *
+   * @internal
+   */
+  setMonitor(monitor: HandlerMonitor): void {
+    this.monitor = monitor;
+  }
+
+  /**
+   * Wraps an event handler so its runs are measured by the monitor.
+   *
+   * Without a monitor the handler is called directly.
+   *
+   * @param key - Event name the handler is registered for
+   * @param handler - The event handler
+   * @returns The wrapped handler
+   *
+   * @example
+   * ```typescript
+   * events.on('PLAYER_DAMAGED', manager.wrapHandler('PLAYER_DAMAGED', handler));
+   * ```
+   */
+  wrapHandler<T>(
+    key: string,
+    handler: (data: T) => void | Promise<void>,
+  ): (data: T) => void | Promise<void> {
+    return (data) => {
+      if (!this.monitor) return handler(data);
+      return this.monitor.run(key, () => handler(data));
+    };
+  }
+
   /**
    * Creates a tracked interval.
    *
@@ -129,9 +170,14 @@ export class SubscriptionManager {
     if (this.isCleanedUp) {
       throw new Error('Cannot set interval after cleanup');
     }
+    this.checkTimerBudget(`interval:${label}`);
 
     // Wrap callback to handle async and prevent errors from propagating
     const wrappedCallback = () => {
+      if (this.monitor) {
+        void this.monitor.run(`interval:${label}`, callback);
+        return;
+      }
       try {
         const result = callback();
         if (result instanceof Promise) {
@@ -183,10 +229,15 @@ export class SubscriptionManager {
     if (this.isCleanedUp) {
       throw new Error('Cannot set timeout after cleanup');
     }
+    this.checkTimerBudget(`timeout:${label}`);
 
     // Wrap callback to handle async and auto-remove from tracking
     const wrappedCallback = () => {
       this.timeouts.delete(id);
+      if (this.monitor) {
+        void this.monitor.run(`timeout:${label}`, callback);
+        return;
+      }
       try {
         const result = callback();
         if (result instanceof Promise) {
@@ -208,6 +259,17 @@ export class SubscriptionManager {
     };
   }
 
+  /**
+   * Throws if another timer would exceed the monitor's timer budget.
+   */
+  private checkTimerBudget(key: string): void {
+    if (!this.monitor) return;
+    if (this.intervals.size + this.timeouts.size >= this.monitor.budget.maxTimers) {
+      this.monitor.reportTimerLimit(key);
+      throw new Error(`Cannot create "${key}": the plugin already has ${this.monitor.budget.maxTimers} timers`);
+    }
+  }
+
   /**
    * Gets the count of active subscriptions.
    *
@@ -9,22 +9,47 @@ import {
   parseLogLevel,
 } from '@squadscript/logger';
 import { Socket } from 'node:net';
+import { dirname, join, resolve } from 'node:path';
 
 import { SquadServer } from './server.js';
 import type { SquadServerOptions } from './types.js';
-import { createDatabase } from './db/index.js';
+import { createDatabase, type DrizzleDB } from './db/index.js';
+import { PluginStateRepository } from './db/repositories/plugin-state.repo.js';
+import { PluginStorageRepository } from './db/repositories/plugin-storage.repo.js';
+import { AuditRepository } from './db/repositories/audit.repo.js';
 import { runMigrations } from './db/migrate.js';
-import { createApi } from './api/index.js';
+import { createApi, type Api } from './api/index.js';
 import { MetricsCollector } from './metrics/collector.js';
 import { setupBroadcaster } from './api/websocket/broadcaster.js';
 import { AuthService } from './api/modules/auth/service.js';
 import { EventLogService } from './services/event-log.service.js';
 import { NotificationService } from './services/notification.service.js';
+import { BanManager, createPluginBans } from './services/ban-manager.service.js';
+import { RemoteBanListService } from './services/remote-ban-list.service.js';
+import { MatchRecorder } from './services/match-recorder.service.js';
+import {
+  PlayerProfileService,
+  createPlayerProfileReader,
+} from './services/player-profile.service.js';
+import { PluginManager, type PluginConfig } from './plugins/manager.js';
+import { PluginInstaller } from './plugins/installer.js';
+import { createSandboxedPlugin } from './plugins/sandbox.js';
+import { ConnectorRegistry } from './plugins/connector-registry.js';
+import { DatabaseStorageProvider } from './plugins/storage.js';
+import { DatabaseAuditProvider } from './plugins/audit.js';
+import { createPluginServerAdapter } from './plugins/server-adapter.js';
+import { registerBuiltinConnectors } from './connectors/index.js';
+import {
+  loadBuiltinPlugins,
+  resolveConnectorSources,
+  resolvePluginSources,
+} from './plugins/plugin-sources.js';
 
 const DEFAULT_CONFIG_PATH = '/app/config.json';
 const DEFAULT_RETRY_MS = 5000;
 const DEFAULT_HEALTH_PORT = 3002;
 const DEFAULT_API_PORT = 3001;
+const SQUAD_CONFIG_DIR = process.env.SQUAD_CONFIG_DIR ?? '/squad/SquadGame/ServerConfig';
 const MAX_HEALTH_PORT_TRIES = 10;
 
 function isPortOpen(host: string, port: number, timeoutMs = 1500): Promise<boolean> {
@@ -51,6 +76,7 @@ function isPortOpen(host: string, port: number, timeoutMs = 1500): Promise<boole
 }
 
 function mapConfigToOptions(config: ServerConfig): SquadServerOptions {
+  const checkpoint = config.logReader.checkpoint;
   const mappedLogReader: SquadServerOptions['logReader'] =
     config.logReader.mode === 'ftp' || config.logReader.mode === 'sftp'
       ? {
@@ -71,6 +97,7 @@ function mapConfigToOptions(config: ServerConfig): SquadServerOptions {
           ...(config.logReader.ftp?.password !== undefined && {
             password: config.logReader.ftp.password,
           }),
+          ...(checkpoint !== undefined && { checkpoint }),
         }
       : {
           mode: config.logReader.mode,
@@ -78,6 +105,7 @@ function mapConfigToOptions(config: ServerConfig): SquadServerOptions {
           ...(config.logReader.filename !== undefined && {
             filename: config.logReader.filename,
           }),
+          ...(checkpoint !== undefined && { checkpoint }),
         };
 
   return {
@@ -87,6 +115,7 @@ function mapConfigToOptions(config: ServerConfig): SquadServerOptions {
       host: config.rcon.host,
       port: config.rcon.port,
       password: config.rcon.password,
+      ...(config.rcon.queue !== undefined && { queue: config.rcon.queue }),
     },
     logReader: mappedLogReader,
     ...(config.adminLists !== undefined && {
@@ -95,18 +124,44 @@ function mapConfigToOptions(config: ServerConfig): SquadServerOptions {
         source: entry.source,
       })),
     }),
+    ...(config.logRules !== undefined && { logRules: config.logRules }),
+    ...(config.chatCommands !== undefined && { chatCommands: config.chatCommands }),
   };
 }
 
-function resolveFirstServer(config: RootConfig | ServerConfig): ServerConfig {
+/**
+ * A SquadServer hosted by this process, with its per-server services.
+ */
+interface HostedServer {
+  readonly config: ServerConfig;
+  readonly options: SquadServerOptions;
+  server: SquadServer | null;
+  pluginManager: PluginManager | null;
+  pluginInstaller: PluginInstaller | null;
+  metricsCollector: MetricsCollector | null;
+  banManager: BanManager | null;
+  remoteBanLists: RemoteBanListService | null;
+  matchRecorder: MatchRecorder | null;
+}
+
+function resolveServers(config: RootConfig | ServerConfig): ServerConfig[] {
   if ('servers' in config) {
     if (config.servers.length === 0) {
       throw new Error('Config must include at least one server entry');
     }
-    return config.servers[0]!;
+
+    const seen = new Set<number>();
+    for (const server of config.servers) {
+      if (seen.has(server.id)) {
+        throw new Error(`Duplicate server id ${server.id} in config`);
+      }
+      seen.add(server.id);
+    }
+
+    return config.servers;
   }
 
-  return config;
+  return [config];
 }
 
 function sleep(ms: number): Promise<void> {
@@ -128,7 +183,8 @@ async function main(): Promise<void> {
     process.env.SQUADSCRIPT_HEALTH_PORT ?? DEFAULT_HEALTH_PORT,
   );
 
-  let server: SquadServer | null = null;
+  let hosted: HostedServer[] = [];
+  let sharedConnectors: ConnectorRegistry | null = null;
   let configLoaded = false;
   let ready = false;
 
@@ -151,6 +207,10 @@ async function main(): Promise<void> {
               ok: true,
               configLoaded,
               ready,
+              servers: hosted.map((entry) => ({
+                id: entry.options.id,
+                ready: entry.server !== null,
+              })),
               service: 'squadscript-server',
               healthPort: candidatePort,
             }), {
@@ -188,9 +248,9 @@ async function main(): Promise<void> {
   });
 
   const configLoader = new ConfigLoader({ logger });
-  let serverOptions: SquadServerOptions | null = null;
+  let globalConnectors: RootConfig['connectors'];
 
-  while (serverOptions === null) {
+  while (hosted.length === 0) {
     const loadedConfig = await configLoader.loadConfig(configPath);
 
     if (!loadedConfig.ok) {
@@ -201,31 +261,301 @@ async function main(): Promise<void> {
       continue;
     }
 
-    const serverConfig = resolveFirstServer(loadedConfig.value);
-    const mappedOptions = mapConfigToOptions(serverConfig);
-    serverOptions = {
-      ...mappedOptions,
-      rcon: {
-        ...mappedOptions.rcon,
-        ...(rconHostOverride !== undefined && { host: rconHostOverride }),
-        ...(rconPortOverride !== undefined && { port: Number(rconPortOverride) }),
-        ...(rconPasswordOverride !== undefined && { password: rconPasswordOverride }),
-      },
-      ...(logDirOverride !== undefined && {
-        logReader: {
-          ...mappedOptions.logReader,
-          logDir: logDirOverride,
+    const serverConfigs = resolveServers(loadedConfig.value);
+    globalConnectors = 'servers' in loadedConfig.value
+      ? loadedConfig.value.connectors
+      : undefined;
+
+    hosted = serverConfigs.map((serverConfig, index) => {
+      const mappedOptions = mapConfigToOptions(serverConfig);
+
+      // Environment overrides target the primary server (single-server containers)
+      const options: SquadServerOptions = index > 0 ? mappedOptions : {
+        ...mappedOptions,
+        rcon: {
+          ...mappedOptions.rcon,
+          ...(rconHostOverride !== undefined && { host: rconHostOverride }),
+          ...(rconPortOverride !== undefined && { port: Number(rconPortOverride) }),
+          ...(rconPasswordOverride !== undefined && { password: rconPasswordOverride }),
         },
-      }),
-    };
+        ...(logDirOverride !== undefined && {
+          logReader: {
+            ...mappedOptions.logReader,
+            logDir: logDirOverride,
+          },
+        }),
+      };
+
+      return {
+        config: serverConfig,
+        options,
+        server: null,
+        pluginManager: null,
+        pluginInstaller: null,
+        metricsCollector: null,
+        banManager: null,
+        remoteBanLists: null,
+        matchRecorder: null,
+      };
+    });
     configLoaded = true;
   }
 
+  log.info(`Hosting ${hosted.length} server(s)`, {
+    serverIds: hosted.map((entry) => entry.options.id),
+  });
+
+  const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+    log.info(`Received ${signal}, shutting down`);
+
+    for (const entry of hosted) {
+      if (entry.pluginManager !== null) {
+        await entry.pluginManager.dispose();
+      }
+
+      if (entry.metricsCollector !== null) {
+        entry.metricsCollector.stop();
+      }
+
+      if (entry.banManager !== null) {
+        entry.banManager.stop();
+      }
+
+      if (entry.remoteBanLists !== null) {
+        entry.remoteBanLists.stop();
+      }
+
+      if (entry.matchRecorder !== null) {
+        await entry.matchRecorder.stop();
+      }
+
+      if (entry.server !== null) {
+        const stopResult = await entry.server.stop();
+        if (!stopResult.ok) {
+          log.error(`Failed to stop server ${entry.options.id} cleanly: ${stopResult.error.message}`);
+        }
+      }
+    }
+
+    if (sharedConnectors !== null) {
+      await sharedConnectors.disconnectAll();
+    }
+
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  // =========================================================================
+  // Database Initialization
+  // =========================================================================
+
+  log.info('Initializing database...');
+  const db = createDatabase();
+
+  try {
+    await runMigrations();
+    log.info('Database migrations applied successfully');
+  } catch (migrationError) {
+    log.warn(`Database migrations failed (non-fatal): ${migrationError instanceof Error ? migrationError.message : String(migrationError)}`);
+  }
+
+  try {
+    const purged = await new PluginStorageRepository(db).deleteExpired();
+    if (purged > 0) {
+      log.info('Purged expired plugin storage keys', { count: purged });
+    }
+  } catch (purgeError) {
+    log.warn(`Could not purge expired plugin storage (non-fatal): ${purgeError instanceof Error ? purgeError.message : String(purgeError)}`);
+  }
+
+  // =========================================================================
+  // Plugin System Initialization
+  // =========================================================================
+
+  const pluginLog = logger.child('runtime:plugins');
+  const builtins = await loadBuiltinPlugins(pluginLog);
+
+  // Global connectors are shared by every server's plugin manager
+  const connectors = new ConnectorRegistry({ logger: logger.child('connectors') });
+  sharedConnectors = connectors;
+  registerBuiltinConnectors(connectors);
+  registerConnectors(connectors, globalConnectors, pluginLog);
+  await connectors.connectAll();
+
+  // Packages installed from the dashboard live next to the config unless overridden
+  const pluginDir = resolve(
+    process.env.SQUADSCRIPT_PLUGIN_DIR ?? join(dirname(configPath), 'installed-plugins'),
+  );
+
+  // =========================================================================
+  // API Initialization
+  // =========================================================================
+
+  const apiPort = Number(process.env.SQUADSCRIPT_API_PORT ?? DEFAULT_API_PORT);
+  let api: Api | null = null;
+
+  try {
+    // Ensure built-in roles and the default admin user exist
+    await AuthService.ensureDefaultRoles(db);
+    await AuthService.ensureDefaultAdmin(db);
+
+    // Servers are mounted as they come up; the first configured one is the default
+    api = createApi([], db, hosted[0]?.options.id);
+    api.app.listen(apiPort);
+    log.info('API server started', { port: apiPort });
+  } catch (apiError) {
+    log.error(`Failed to start API server (non-fatal): ${apiError instanceof Error ? apiError.message : String(apiError)}`);
+  }
+
+  // =========================================================================
+  // Server Startup
+  // =========================================================================
+
+  // Each server waits for its own RCON endpoint and starts its services on its own
+  await Promise.all(hosted.map(async (entry) => {
+    entry.server = await startSquadServer(entry.options, logger, retryMs);
+    ready = true;
+
+    await startServerServices(entry, {
+      logger,
+      log,
+      pluginLog,
+      builtins,
+      baseDir: dirname(configPath),
+      pluginDir,
+      sharedConnectors: connectors,
+      db,
+      api,
+      syncDefaultBansFile: hosted.length === 1,
+    });
+  }));
+
+  await new Promise(() => {
+    // Keep process running
+  });
+}
+
+/**
+ * Starts a running server's plugins and services and mounts it on the API.
+ */
+async function startServerServices(
+  entry: HostedServer,
+  deps: {
+    logger: Logger;
+    log: ReturnType<Logger['child']>;
+    pluginLog: ReturnType<Logger['child']>;
+    builtins: Awaited<ReturnType<typeof loadBuiltinPlugins>>;
+    baseDir: string;
+    pluginDir: string;
+    sharedConnectors: ConnectorRegistry;
+    db: DrizzleDB;
+    api: Api | null;
+    /** Whether the shared Bans.cfg may be synced (single-server setups only). */
+    syncDefaultBansFile: boolean;
+  },
+): Promise<void> {
+  const { logger, log, db } = deps;
+  const server = entry.server!;
+  const serverId = entry.options.id;
+
+  try {
+    entry.pluginInstaller = new PluginInstaller({
+      dir: join(deps.pluginDir, String(serverId)),
+      logger: logger.child('plugin-installer'),
+    });
+    entry.pluginManager = await startPlugins(entry, {
+      logger,
+      log: deps.pluginLog,
+      builtins: deps.builtins,
+      baseDir: deps.baseDir,
+      sharedConnectors: deps.sharedConnectors,
+      db,
+    });
+  } catch (pluginError) {
+    log.error(`Failed to start plugin system for server ${serverId} (non-fatal): ${pluginError instanceof Error ? pluginError.message : String(pluginError)}`);
+  }
+
+  try {
+    // 1. Start metrics collector
+    const metricsCollector = new MetricsCollector(server, db);
+    metricsCollector.start();
+    entry.metricsCollector = metricsCollector;
+
+    // 2. Set up WebSocket event broadcaster
+    setupBroadcaster(server, metricsCollector);
+
+    // 3. Start event log persistence
+    const eventLogService = new EventLogService(server, db, serverId);
+    eventLogService.start();
+
+    // 4. Start notification service
+    const notificationService = new NotificationService(server, db, serverId);
+    notificationService.start();
+
+    // 5. Start player profile tracking
+    const playerProfileService = new PlayerProfileService(server, db);
+    playerProfileService.start();
+
+    // 6. Start the ban manager (the shared Bans.cfg is only synced for a single server)
+    const banManager = new BanManager(server, db, {
+      serverId,
+      bansFile: entry.config.bansFile
+        ?? (deps.syncDefaultBansFile ? `${SQUAD_CONFIG_DIR}/Bans.cfg` : null),
+      logger: logger.child('bans'),
+    });
+    await banManager.start();
+    entry.banManager = banManager;
+
+    // 7. Subscribe to ban lists shared by other communities
+    if (entry.config.banLists !== undefined && entry.config.banLists.length > 0) {
+      const remoteBanLists = new RemoteBanListService(server, {
+        subscriptions: entry.config.banLists,
+        notifications: notificationService,
+        logger: logger.child('ban-lists'),
+      });
+      await remoteBanLists.start();
+      entry.remoteBanLists = remoteBanLists;
+    }
+
+    // 8. Record match timelines
+    const matchRecorder = new MatchRecorder(server, db, {
+      serverId,
+      logger: logger.child('matches'),
+    });
+    matchRecorder.start();
+    entry.matchRecorder = matchRecorder;
+
+    // 9. Serve the server's API routes
+    deps.api?.addServer({
+      squadServer: server,
+      metricsCollector,
+      pluginManager: entry.pluginManager,
+      pluginInstaller: entry.pluginInstaller,
+      banManager,
+    });
+    log.info('Server services started', { serverId });
+  } catch (serviceError) {
+    log.error(`Failed to start services for server ${serverId} (non-fatal): ${serviceError instanceof Error ? serviceError.message : String(serviceError)}`);
+  }
+}
+
+/**
+ * Waits for the RCON endpoint, then starts a SquadServer, retrying until it succeeds.
+ */
+async function startSquadServer(
+  options: SquadServerOptions,
+  logger: Logger,
+  retryMs: number,
+): Promise<SquadServer> {
+  const log = logger.child('runtime');
+
   let rconWaitCycles = 0;
-  while (!(await isPortOpen(serverOptions.rcon.host, serverOptions.rcon.port))) {
+  while (!(await isPortOpen(options.rcon.host, options.rcon.port))) {
     rconWaitCycles += 1;
     log.info(
-      `Waiting for RCON endpoint ${serverOptions.rcon.host}:${serverOptions.rcon.port}...`,
+      `Waiting for RCON endpoint ${options.rcon.host}:${options.rcon.port} (server ${options.id})...`,
     );
 
     if (rconWaitCycles % 12 === 0) {
@@ -237,101 +567,116 @@ async function main(): Promise<void> {
     await sleep(retryMs);
   }
 
-  while (!ready) {
-    const instance = new SquadServer(serverOptions, logger);
+  for (;;) {
+    const instance = new SquadServer(options, logger);
     const startResult = await instance.start();
 
     if (startResult.ok) {
-      server = instance;
-      ready = true;
       log.info('SquadScript server started successfully', {
-        serverId: serverOptions.id,
-        serverName: serverOptions.name ?? serverOptions.id,
+        serverId: options.id,
+        serverName: options.name ?? options.id,
       });
-      break;
+      return instance;
     }
 
     log.error(
-      `Failed to start SquadScript server, retrying in ${retryMs}ms: ${startResult.error.message}`,
+      `Failed to start SquadScript server ${options.id}, retrying in ${retryMs}ms: ${startResult.error.message}`,
     );
 
     await instance.stop();
 
     await sleep(retryMs);
   }
+}
 
-  const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
-    log.info(`Received ${signal}, shutting down`);
-
-    if (metricsCollector !== null) {
-      metricsCollector.stop();
-    }
-
-    if (server !== null) {
-      const stopResult = await server.stop();
-      if (!stopResult.ok) {
-        log.error(`Failed to stop server cleanly: ${stopResult.error.message}`);
-      }
-    }
-
-    process.exit(0);
-  };
-
-  process.on('SIGINT', () => void shutdown('SIGINT'));
-  process.on('SIGTERM', () => void shutdown('SIGTERM'));
-
-  // =========================================================================
-  // Database & API Initialization
-  // =========================================================================
-
-  const apiPort = Number(process.env.SQUADSCRIPT_API_PORT ?? DEFAULT_API_PORT);
-  let metricsCollector: MetricsCollector | null = null;
-
-  try {
-    // 1. Initialize database and run migrations
-    log.info('Initializing database...');
-    const db = createDatabase();
-
+/**
+ * Adds connector entries from config to a registry, skipping unknown types.
+ */
+function registerConnectors(
+  registry: ConnectorRegistry,
+  entries: ServerConfig['connectors'],
+  log: ReturnType<Logger['child']>,
+): void {
+  for (const connectorConfig of resolveConnectorSources(entries ?? {})) {
     try {
-      await runMigrations();
-      log.info('Database migrations applied successfully');
-    } catch (migrationError) {
-      log.warn(`Database migrations failed (non-fatal): ${migrationError instanceof Error ? migrationError.message : String(migrationError)}`);
+      registry.add(connectorConfig);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Skipping connector "${connectorConfig.name}": ${message}`);
     }
+  }
+}
 
-    // 2. Ensure default admin user exists
-    await AuthService.ensureDefaultAdmin(db);
-
-    // 3. Start metrics collector
-    metricsCollector = new MetricsCollector(server!, db);
-    metricsCollector.start();
-    log.info('Metrics collector started');
-
-    // 4. Create and start API server
-    const api = createApi(server!, db, metricsCollector);
-    api.listen(apiPort);
-    log.info('API server started', { port: apiPort });
+/**
+ * Creates a server's plugin manager, connects its connectors and mounts its plugins.
+ */
+async function startPlugins(
+  entry: HostedServer,
+  deps: {
+    logger: Logger;
+    log: ReturnType<Logger['child']>;
+    builtins: Awaited<ReturnType<typeof loadBuiltinPlugins>>;
+    baseDir: string;
+    sharedConnectors: ConnectorRegistry;
+    db: DrizzleDB;
+  },
+): Promise<PluginManager> {
+  const configured = resolvePluginSources(entry.config.plugins ?? [], {
+    builtins: deps.builtins,
+    baseDir: deps.baseDir,
+  });
 
-    // 5. Set up WebSocket event broadcaster
-    setupBroadcaster(server!, metricsCollector);
-    log.info('WebSocket broadcaster initialized');
+  // Installed packages run sandboxed and start with their default enabled state
+  let installed: PluginConfig[] = [];
+  try {
+    const packages = await entry.pluginInstaller?.list() ?? [];
+    installed = packages.map((pkg) => ({
+      plugin: createSandboxedPlugin(pkg),
+      enabled: pkg.manifest.meta.defaultEnabled,
+    }));
+  } catch (error) {
+    deps.log.warn(`Could not list installed plugin packages for server ${entry.options.id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
 
-    // 6. Start event log persistence
-    const eventLogService = new EventLogService(server!, db, serverOptions.id);
-    eventLogService.start();
-    log.info('Event log service started');
+  const pluginManager = new PluginManager({
+    logger: deps.logger,
+    server: createPluginServerAdapter(entry.server!),
+    plugins: [...configured, ...installed],
+    sharedConnectors: deps.sharedConnectors,
+    profiles: createPlayerProfileReader(deps.db),
+    bans: createPluginBans(() => entry.banManager),
+    storage: new DatabaseStorageProvider(new PluginStorageRepository(deps.db), entry.options.id),
+    audit: new DatabaseAuditProvider(new AuditRepository(deps.db), entry.options.id),
+    ...(entry.config.pluginBudget !== undefined && { budget: entry.config.pluginBudget }),
+  });
 
-    // 7. Start notification service
-    const notificationService = new NotificationService(server!, db, serverOptions.id);
-    notificationService.start();
-    log.info('Notification service started');
-  } catch (apiError) {
-    log.error(`Failed to start API server (non-fatal): ${apiError instanceof Error ? apiError.message : String(apiError)}`);
+  // Changes made from the dashboard override the config file
+  try {
+    const states = await new PluginStateRepository(deps.db).findByServer(entry.options.id);
+    pluginManager.applyPluginStates(states.map((state) => ({
+      pluginName: state.pluginName,
+      enabled: state.enabled,
+      options: state.options as Record<string, unknown> | null,
+    })));
+  } catch (error) {
+    deps.log.warn(`Could not load persisted plugin state for server ${entry.options.id}: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  await new Promise(() => {
-    // Keep process running
+  // Server-level connectors shadow global ones with the same name
+  registerBuiltinConnectors(pluginManager.getConnectorRegistry());
+  registerConnectors(pluginManager.getConnectorRegistry(), entry.config.connectors, deps.log);
+
+  // Connectors must be ready before plugins resolve them in prepareToMount()
+  await pluginManager.getConnectorRegistry().connectAll();
+  await pluginManager.loadAll();
+  const mountResult = await pluginManager.mountAll();
+  deps.log.info('Plugin system started', {
+    serverId: entry.options.id,
+    mounted: mountResult.mounted,
+    failed: mountResult.failed,
   });
+
+  return pluginManager;
 }
 
 void main().catch((error) => {
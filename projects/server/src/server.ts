@@ -9,10 +9,25 @@
  */
 
 import { Logger, type ModuleLogger, LogLevel } from '@squadscript/logger';
-import { RconClient } from '@squadscript/rcon';
-import { LogParser, TailLogReader, FtpLogReader, SftpLogReader } from '@squadscript/log-parser';
+import { RconClient, type CommandQueueStats, type RconError } from '@squadscript/rcon';
+import {
+  LogParser,
+  TailLogReader,
+  FtpLogReader,
+  SftpLogReader,
+  FileCheckpointStore,
+  createCustomRule,
+  type LogCheckpointOptions,
+  type ParserStats,
+  type ParsingRule,
+  type UnmatchedLineCluster,
+} from '@squadscript/log-parser';
 import type {
   Result,
+  ChatCommandArguments,
+  ChatCommandDefinition,
+  ChatCommandEvent,
+  CustomLogRuleDefinition,
   Player,
   Squad,
   Layer,
@@ -21,15 +36,18 @@ import type {
   PlayerID,
   TeamID,
   SquadID,
+  Unsubscribe,
 } from '@squadscript/types';
-import { Ok, Err, asTeamID, asSquadID } from '@squadscript/types';
+import { Ok, Err, asTeamID, asSquadID, parseChatCommand } from '@squadscript/types';
 
 import { TypedEventEmitter } from './events/emitter.js';
 import { UpdateScheduler } from './scheduler/update-scheduler.js';
+import { CommandRegistry, type RegisteredCommand } from './commands/registry.js';
 import { PlayerService } from './services/player.service.js';
 import { SquadService } from './services/squad.service.js';
 import { LayerService } from './services/layer.service.js';
 import { AdminService } from './services/admin.service.js';
+import { parseBanInterval } from './services/bans-cfg.js';
 import {
   SquadServerError,
   ConnectionError,
@@ -121,6 +139,11 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
   // Scheduler
   private readonly scheduler: UpdateScheduler;
 
+  // Chat commands
+  private readonly commands: CommandRegistry;
+  private readonly commandPrefixes: readonly string[];
+  private layerNames: { readonly names: readonly string[]; readonly fetchedAt: number } | null = null;
+
   // State
   private state: ServerState = ServerStateEnum.CREATED;
   private serverInfo: ServerInfo | null = null;
@@ -142,6 +165,7 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
         host: options.rcon.host,
         port: options.rcon.port,
         password: options.rcon.password,
+        ...(options.rcon.queue !== undefined && { queue: options.rcon.queue }),
       },
       this.logger,
     );
@@ -174,6 +198,34 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
     const schedulerLogger = this.logger.child('scheduler');
     this.scheduler = new UpdateScheduler({ logger: schedulerLogger });
 
+    // Initialize chat commands
+    this.commandPrefixes = options.chatCommands?.prefixes ?? ['!'];
+    this.commands = new CommandRegistry({
+      logger: this.logger.child('commands'),
+      sources: {
+        players: () => this.playerService.getAll(),
+        layers: () => this.getLayerNames(),
+      },
+      hasPermission: (player, permission) =>
+        this.adminService.hasPermission(player.eosID, permission)
+        || (player.steamID !== null && this.adminService.hasPermission(player.steamID, permission)),
+      reply: async (player, message) => {
+        const result = await this.warn(player.eosID, message);
+        if (!result.ok) throw result.error;
+      },
+      prefix: this.commandPrefixes[0],
+      help: options.chatCommands?.help,
+      suggestions: options.chatCommands?.suggestions,
+    });
+
+    // Register custom log rules from config
+    for (const definition of options.logRules ?? []) {
+      const result = this.addLogRule(definition);
+      if (!result.ok) {
+        this.log.warn(`Skipping log rule "${definition.name}": ${result.error.message}`);
+      }
+    }
+
     // Set up event handlers
     this.setupRconEventHandlers();
     this.setupLogParserEventHandlers();
@@ -625,6 +677,135 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
     return Ok(result.value);
   }
 
+  /**
+   * Runs one of the typed RconClient helpers (e.g. `getServerInfo`,
+   * `pauseMatch`) with the same running check and error wrapping as
+   * the methods above.
+   *
+   * @param name - Command name for the error message
+   * @param run - Calls the helper on the RCON client
+   */
+  async rconCommand<T>(
+    name: string,
+    run: (rcon: RconClient) => Promise<Result<T, RconError>>,
+  ): Promise<Result<T, SquadServerError>> {
+    if (!this.isRunning()) {
+      return Err(new InvalidStateError('Server is not running'));
+    }
+
+    const result = await run(this.rcon);
+    if (!result.ok) {
+      return Err(
+        new SquadServerError(
+          ErrorCode.COMMAND_FAILED,
+          `${name} failed: ${result.error.message}`,
+          { command: name },
+          result.error,
+        ),
+      );
+    }
+
+    return Ok(result.value);
+  }
+
+  /**
+   * Returns RCON command queue metrics: depth per priority, commands in
+   * flight, coalesced queries and recent wait/latency averages.
+   */
+  getRconQueueStats(): CommandQueueStats {
+    return this.rcon.getQueueStats();
+  }
+
+  // ===========================================================================
+  // Chat Commands
+  // ===========================================================================
+
+  /**
+   * Registers a chat command. The server checks the channel, permission
+   * and cooldown and parses the arguments before calling the handler.
+   *
+   * @param definition - The command
+   * @param owner - Plugin name, shown in logs (default: 'server')
+   * @returns Function that removes the command again
+   */
+  registerCommand<TArgs extends ChatCommandArguments>(
+    definition: ChatCommandDefinition<TArgs>,
+    owner?: string,
+  ): Result<Unsubscribe, SquadServerError> {
+    return this.commands.register(definition, owner);
+  }
+
+  /**
+   * Returns the registered chat commands, sorted by name.
+   */
+  getCommands(): readonly RegisteredCommand[] {
+    return this.commands.list();
+  }
+
+  // ===========================================================================
+  // Log Rules
+  // ===========================================================================
+
+  /**
+   * Adds a custom log parsing rule. Its matches are emitted as
+   * CUSTOM_LOG_EVENT.
+   *
+   * @param definition - The rule
+   * @param options - `position: 'first'` evaluates it before the built-in rules
+   */
+  addLogRule(
+    definition: CustomLogRuleDefinition,
+    options: { position?: 'first' | 'last' } = {},
+  ): Result<void, SquadServerError> {
+    const rule = createCustomRule(definition);
+    const added = rule.ok ? this.logParser.addRule(rule.value, options) : rule;
+    if (!added.ok) {
+      return Err(
+        new SquadServerError(
+          ErrorCode.LOG_RULE_INVALID,
+          added.error.message,
+          { rule: definition.name },
+          added.error,
+        ),
+      );
+    }
+
+    this.log.debug(`Added log rule "${definition.name}" (${definition.event})`);
+    return Ok(undefined);
+  }
+
+  /**
+   * Removes a custom log parsing rule.
+   *
+   * @returns Whether a rule with this name was registered
+   */
+  removeLogRule(name: string): boolean {
+    return this.logParser.removeRule(name);
+  }
+
+  /**
+   * Returns the log parsing rules in evaluation order.
+   */
+  getLogRules(): readonly ParsingRule[] {
+    return this.logParser.getRules();
+  }
+
+  /**
+   * Returns log parser statistics, including match counts per rule.
+   */
+  getParserStats(): ParserStats {
+    return this.logParser.getStats();
+  }
+
+  /**
+   * Returns unmatched log lines grouped by shape, most frequent first.
+   *
+   * @param limit - Maximum number of clusters to return
+   */
+  getUnmatchedLogLines(limit?: number): UnmatchedLineCluster[] {
+    return this.logParser.getUnmatchedClusters(limit);
+  }
+
   // ===========================================================================
   // Private: Initialization
   // ===========================================================================
@@ -636,12 +817,18 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
     options: SquadServerOptions,
   ): TailLogReader | FtpLogReader | SftpLogReader {
     const { logReader } = options;
+    const checkpoint: LogCheckpointOptions | undefined = logReader.checkpoint && {
+      store: new FileCheckpointStore(logReader.checkpoint.file),
+      maxCatchUpAge: logReader.checkpoint.maxCatchUpAge,
+      maxCatchUpBytes: logReader.checkpoint.maxCatchUpBytes,
+    };
 
     switch (logReader.mode) {
       case 'tail':
         return new TailLogReader({
           logDir: logReader.logDir,
           ...(logReader.filename !== undefined && { filename: logReader.filename }),
+          checkpoint,
         });
 
       case 'ftp':
@@ -651,6 +838,7 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
         return new FtpLogReader({
           logDir: logReader.logDir,
           ...(logReader.filename !== undefined && { filename: logReader.filename }),
+          checkpoint,
           ftp: {
             host: logReader.host,
             port: logReader.port ?? 21,
@@ -666,6 +854,7 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
         return new SftpLogReader({
           logDir: logReader.logDir,
           ...(logReader.filename !== undefined && { filename: logReader.filename }),
+          checkpoint,
           sftp: {
             host: logReader.host,
             port: logReader.port ?? 22,
@@ -687,6 +876,7 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
       playerList: intervals?.playerList ?? DefaultIntervals.playerList,
       squadList: intervals?.squadList ?? DefaultIntervals.squadList,
       layerInfo: intervals?.layerInfo ?? DefaultIntervals.layerInfo,
+      serverInfo: intervals?.serverInfo ?? DefaultIntervals.serverInfo,
       adminList: intervals?.adminList ?? DefaultIntervals.adminList,
     };
 
@@ -717,6 +907,15 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
       },
     });
 
+    this.scheduler.register({
+      name: 'serverInfo',
+      interval: config.serverInfo,
+      enabled: true,
+      execute: async () => {
+        await this.updateServerInfo();
+      },
+    });
+
     this.scheduler.register({
       name: 'adminList',
       interval: config.adminList,
@@ -739,6 +938,7 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
       this.updatePlayerList(),
       this.updateSquadList(),
       this.updateLayerInfo(),
+      this.updateServerInfo(),
     ]);
   }
 
@@ -842,6 +1042,76 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
     }
   }
 
+  /**
+   * Updates server info (queues, slots, factions, match timer) from
+   * ShowServerInfo and emits change events.
+   */
+  private async updateServerInfo(): Promise<void> {
+    const result = await this.rcon.getServerInfo();
+    if (!result.ok) {
+      this.log.warn(`Failed to update server info: ${result.error.message}`);
+      return;
+    }
+
+    const previous = this.serverInfo;
+    const info: ServerInfo = { ...result.value, updatedAt: new Date() };
+    this.serverInfo = info;
+
+    const time = info.updatedAt;
+    const changed = previous === null
+      || (Object.keys(result.value) as (keyof typeof result.value)[])
+        .some((key) => key !== 'playTime' && info[key] !== previous[key]);
+    if (!changed) {
+      return;
+    }
+
+    this.emit(ServerEventType.SERVER_INFO_UPDATED, { info, previous, time });
+
+    if (previous === null) {
+      return;
+    }
+
+    if (info.publicQueue !== previous.publicQueue || info.reserveQueue !== previous.reserveQueue) {
+      this.emit(ServerEventType.QUEUE_CHANGE, {
+        publicQueue: info.publicQueue,
+        reserveQueue: info.reserveQueue,
+        oldPublicQueue: previous.publicQueue,
+        oldReserveQueue: previous.reserveQueue,
+        time,
+      });
+    }
+
+    if (info.teamOne !== previous.teamOne || info.teamTwo !== previous.teamTwo) {
+      this.emit(ServerEventType.TEAM_FACTIONS_CHANGE, {
+        teamOne: info.teamOne,
+        teamTwo: info.teamTwo,
+        oldTeamOne: previous.teamOne,
+        oldTeamTwo: previous.teamTwo,
+        time,
+      });
+    }
+  }
+
+  /**
+   * Returns the layers the server can load, for layer arguments of chat
+   * commands. The list is cached; an empty list means it is unavailable.
+   */
+  private async getLayerNames(): Promise<readonly string[]> {
+    const cached = this.layerNames;
+    if (cached && Date.now() - cached.fetchedAt < Timings.LAYER_LIST_CACHE_TTL) {
+      return cached.names;
+    }
+
+    const result = await this.rcon.getLayers();
+    if (!result.ok) {
+      this.log.debug(`Failed to list layers: ${result.error.message}`);
+      return cached?.names ?? [];
+    }
+
+    this.layerNames = { names: result.value, fetchedAt: Date.now() };
+    return result.value;
+  }
+
   // ===========================================================================
   // Private: Event Handlers
   // ===========================================================================
@@ -868,6 +1138,20 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
           channel: event.channel,
           message: event.message,
         });
+
+        const command = parseChatCommand(event.message, this.commandPrefixes);
+        if (command) {
+          const commandEvent: ChatCommandEvent = {
+            time: event.timestamp,
+            raw: event.raw,
+            player,
+            channel: event.channel,
+            message: event.message,
+            ...command,
+          };
+          this.emit('CHAT_COMMAND', commandEvent);
+          void this.commands.handle(commandEvent);
+        }
       }
       // If player not found, event is dropped (player may have disconnected)
     });
@@ -932,7 +1216,7 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
         eosID: event.eosID,
         name: event.playerName,
         reason: '', // Not provided in RCON event
-        duration: 0, // Parse from interval string if needed
+        duration: parseBanInterval(event.interval),
         admin: null,
       });
     });
@@ -1080,6 +1364,27 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
       this.emit('DEPLOYABLE_DAMAGED', event);
     });
 
+    this.logParser.on('DEPLOYABLE_CONSTRUCTED', (event) => {
+      this.emit('DEPLOYABLE_CONSTRUCTED', event);
+    });
+
+    this.logParser.on('DEPLOYABLE_DESTROYED', (event) => {
+      this.emit('DEPLOYABLE_DESTROYED', event);
+    });
+
+    // Vehicle events
+    this.logParser.on('VEHICLE_DAMAGED', (event) => {
+      this.emit('VEHICLE_DAMAGED', event);
+    });
+
+    this.logParser.on('VEHICLE_DESTROYED', (event) => {
+      this.emit('VEHICLE_DESTROYED', event);
+    });
+
+    this.logParser.on('PLAYER_ENTERED_VEHICLE', (event) => {
+      this.emit('PLAYER_ENTERED_VEHICLE', event);
+    });
+
     // Game events
     this.logParser.on('NEW_GAME', (event) => {
       // Clear admin cam tracking on new game
@@ -1113,5 +1418,10 @@ export class SquadServer extends TypedEventEmitter<ServerEventMap> {
     this.logParser.on('ADMIN_BROADCAST', (event) => {
       this.emit('ADMIN_BROADCAST', event);
     });
+
+    // Custom rules
+    this.logParser.on('CUSTOM_LOG_EVENT', (event) => {
+      this.emit('CUSTOM_LOG_EVENT', event);
+    });
   }
 }
@@ -16,6 +16,7 @@ import type {
   AdminGroup,
   ParsedAdminList,
 } from '../types.js';
+import { loadListSource } from './list-source.js';
 
 /**
  * Options for creating an AdminService.
@@ -268,51 +269,13 @@ export class AdminService {
     source: AdminListSource,
   ): Promise<Result<string, AdminListError>> {
     try {
-      if (source.type === 'local') {
-        const file = Bun.file(source.source);
-        const exists = await file.exists();
-        if (!exists) {
-          return Err(
-            new AdminListError(
-              ErrorCode.ADMIN_LIST_LOAD_FAILED,
-              `Admin list file not found: ${source.source}`,
-            ),
-          );
-        }
-        const content = await file.text();
-        return Ok(content);
-      }
-
-      if (source.type === 'remote') {
-        const response = await fetch(source.source, {
-          headers: { Accept: 'text/plain' },
-        });
-
-        if (!response.ok) {
-          return Err(
-            new AdminListError(
-              ErrorCode.ADMIN_LIST_LOAD_FAILED,
-              `Failed to fetch admin list: ${response.status} ${response.statusText}`,
-              { url: source.source },
-            ),
-          );
-        }
-
-        const content = await response.text();
-        return Ok(content);
-      }
-
-      return Err(
-        new AdminListError(
-          ErrorCode.ADMIN_LIST_LOAD_FAILED,
-          `Unknown source type: ${source.type}`,
-        ),
-      );
+      const { content } = await loadListSource(source, 'admin list');
+      return Ok(content);
     } catch (error) {
       return Err(
         new AdminListError(
           ErrorCode.ADMIN_LIST_LOAD_FAILED,
-          `Error loading admin list: ${error instanceof Error ? error.message : String(error)}`,
+          error instanceof Error ? error.message : String(error),
           { source: source.source },
           error instanceof Error ? error : undefined,
         ),
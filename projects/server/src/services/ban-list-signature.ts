@@ -0,0 +1,40 @@
+/**
+ * @squadscript/server
+ *
+ * HMAC signatures for published ban lists.
+ *
+ * A published list carries `X-Ban-List-Signature: sha256=<hex>`, the
+ * HMAC-SHA256 of the response body keyed with a secret shared with
+ * subscribers, so they can check the list came from us unmodified.
+ *
+ * @module
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Response header carrying the signature. */
+export const BAN_LIST_SIGNATURE_HEADER = 'x-ban-list-signature';
+
+/**
+ * Signs a ban list body.
+ *
+ * @returns The header value, e.g. `sha256=ab12...`
+ */
+export function signBanList(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Checks a ban list signature in constant time.
+ */
+export function verifyBanListSignature(
+  body: string,
+  signature: string | null,
+  secret: string,
+): boolean {
+  if (signature === null) return false;
+
+  const expected = Buffer.from(signBanList(body, secret));
+  const actual = Buffer.from(signature.trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
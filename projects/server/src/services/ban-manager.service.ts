@@ -0,0 +1,519 @@
+/**
+ * @squadscript/server
+ *
+ * BanManager — keeps the ban_history table, in-game bans and the
+ * server's Bans.cfg in sync.
+ *
+ * @module
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+import type { ModuleLogger } from '@squadscript/logger';
+import type { BanHistoryEntryDTO, BanSource, BanStatus, PluginBans } from '@squadscript/types';
+import type { PlayerBannedEvent } from '@squadscript/types/events';
+
+import type { SquadServer } from '../server.js';
+import type { TypedEventEmitter } from '../events/emitter.js';
+import type { ServerEventMap } from '../types.js';
+import { BanRepository, type BanStatusFilter } from '../db/repositories/ban.repo.js';
+import type { banHistory } from '../db/schema.js';
+import type { DrizzleDB } from '../db/index.js';
+import {
+  formatBanInterval,
+  isSteamId,
+  parseBansCfg,
+  serializeBansCfg,
+  type BansCfgEntry,
+} from './bans-cfg.js';
+
+/** How often expired bans are checked for. */
+const EXPIRY_CHECK_INTERVAL_MS = 60_000;
+
+/** How long a ban sent over RCON waits for its PLAYER_BANNED echo. */
+const ISSUED_BAN_TTL_MS = 30_000;
+
+type BanRow = typeof banHistory.$inferSelect;
+
+/**
+ * Options for creating a BanManager.
+ */
+export interface BanManagerOptions {
+  /** Server ID bans are recorded under (defaults to the SquadServer's ID). */
+  readonly serverId?: string;
+  /** Path of the Bans.cfg file to keep in sync (unset to disable). */
+  readonly bansFile?: string | null;
+  /** Logger instance. */
+  readonly logger?: ModuleLogger;
+}
+
+/**
+ * The parts of the server the ban manager uses.
+ */
+export type BanManagerServer = Pick<SquadServer, 'id' | 'players' | 'ban'>
+  & Pick<TypedEventEmitter<ServerEventMap>, 'on'>;
+
+/**
+ * The player a new ban applies to. At least one ID is required.
+ */
+export interface BanTarget {
+  readonly steamId?: string | null;
+  readonly eosId?: string | null;
+  readonly name?: string | null;
+}
+
+/**
+ * Who issued a ban.
+ */
+export interface BanIssuer {
+  /** Dashboard user ID. */
+  readonly userId?: string | null;
+  readonly name: string | null;
+  /** In-game Steam or EOS ID, written to Bans.cfg. */
+  readonly playerId?: string | null;
+  /** Where the ban was issued (default: 'dashboard'). */
+  readonly source?: Extract<BanSource, 'dashboard' | 'ingame'>;
+}
+
+export type BanResult =
+  | { readonly ok: true; readonly ban: BanHistoryEntryDTO }
+  | { readonly ok: false; readonly error: string };
+
+/**
+ * Works out whether a ban is active, expired or revoked.
+ */
+export function getBanStatus(row: BanRow, now = new Date()): BanStatus {
+  if (row.revokedAt !== null) return 'revoked';
+  if (row.expiresAt !== null && row.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * Maps a ban_history row to the API DTO.
+ */
+export function toBanHistoryEntry(row: BanRow, now = new Date()): BanHistoryEntryDTO {
+  return {
+    id: row.id,
+    serverId: row.serverId,
+    steamId: row.steamId,
+    eosId: row.eosId,
+    name: row.name,
+    reason: row.reason,
+    duration: row.duration,
+    adminName: row.adminName,
+    source: row.source as BanSource,
+    status: getBanStatus(row, now),
+    createdAt: row.createdAt.toISOString(),
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    revokedBy: row.revokedBy,
+  };
+}
+
+/**
+ * Maps ban_history rows to Bans.cfg entries, skipping bans without an ID.
+ *
+ * @param options.includeAdmin - Whether to write who issued each ban (default: true)
+ */
+export function toBansCfgEntries(
+  rows: readonly BanRow[],
+  options: { includeAdmin?: boolean } = {},
+): BansCfgEntry[] {
+  const includeAdmin = options.includeAdmin ?? true;
+
+  return rows.flatMap((row) => {
+    const playerId = row.eosId ?? row.steamId;
+    if (playerId === null) return [];
+    return [{
+      adminName: includeAdmin ? row.adminName : null,
+      adminId: includeAdmin ? row.adminPlayerId : null,
+      playerId,
+      expiresAt: row.expiresAt,
+      reason: row.reason,
+    }];
+  });
+}
+
+/**
+ * Creates the ban list exposed to plugins as `context.bans`.
+ *
+ * Plugins mount before the ban manager starts, so the manager is looked
+ * up on every ban. Bans made by plugins are recorded as in-game bans.
+ */
+export function createPluginBans(getManager: () => BanManager | null): PluginBans {
+  return {
+    ban: async (target, duration, reason, issuer) => {
+      const manager = getManager();
+      if (manager === null) {
+        throw new Error('The ban list is not available');
+      }
+
+      const result = await manager.ban(
+        { eosId: target.eosID ?? null, steamId: target.steamID ?? null, name: target.name ?? null },
+        duration,
+        reason,
+        { name: issuer?.name ?? null, playerId: issuer?.eosID ?? null, source: 'ingame' },
+      );
+      if (!result.ok) {
+        throw new Error(result.error);
+      }
+    },
+  };
+}
+
+/**
+ * Manages the ban list of one server.
+ *
+ * Bans issued from the dashboard, in game (PLAYER_BANNED) and found in
+ * Bans.cfg are all recorded in ban_history. When a Bans.cfg path is
+ * configured, the active bans are written back to it whenever a ban is
+ * added, edited, lifted or runs out, so the game enforces the same list
+ * as the dashboard shows.
+ */
+export class BanManager {
+  private readonly repo: BanRepository;
+  /** Server ID bans are recorded under. */
+  readonly serverId: string;
+  private readonly bansFile: string | null;
+  private readonly logger: ModuleLogger | null;
+
+  /** IDs banned over RCON by this manager, with when to stop waiting for the echo. */
+  private readonly recentlyIssued = new Map<string, number>();
+
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+  private lastExpiryCheck = new Date();
+
+  constructor(
+    private readonly squadServer: BanManagerServer,
+    db: DrizzleDB,
+    options: BanManagerOptions = {},
+  ) {
+    this.repo = new BanRepository(db);
+    this.serverId = options.serverId ?? squadServer.id;
+    this.bansFile = options.bansFile ?? null;
+    this.logger = options.logger ?? null;
+  }
+
+  /**
+   * Imports Bans.cfg, writes back the merged list, subscribes to in-game
+   * bans and starts checking for expired bans.
+   */
+  async start(): Promise<void> {
+    if (this.bansFile !== null) {
+      try {
+        const { imported } = await this.importBansCfg();
+        if (imported > 0) {
+          this.logger?.info(`Imported ${imported} ban(s) from ${this.bansFile}`);
+        }
+      } catch (error) {
+        this.logger?.warn(`Failed to import ${this.bansFile}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await this.syncBansCfg();
+    }
+
+    this.squadServer.on('PLAYER_BANNED', (e) =>
+      void this.onPlayerBanned(e),
+    );
+
+    this.lastExpiryCheck = new Date();
+    this.expiryTimer = setInterval(() => {
+      void this.checkExpired();
+    }, EXPIRY_CHECK_INTERVAL_MS);
+  }
+
+  /** Stop checking for expired bans. */
+  stop(): void {
+    if (this.expiryTimer !== null) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  // ===========================================================================
+  // Queries
+  // ===========================================================================
+
+  async list(options: {
+    search?: string;
+    status?: BanStatusFilter;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ data: BanHistoryEntryDTO[]; total: number }> {
+    const filter = {
+      serverId: this.serverId,
+      ...(options.search !== undefined ? { search: options.search } : {}),
+      ...(options.status !== undefined ? { status: options.status } : {}),
+    };
+
+    const rows = await this.repo.query({
+      ...filter,
+      ...(options.limit !== undefined ? { limit: options.limit } : {}),
+      ...(options.offset !== undefined ? { offset: options.offset } : {}),
+    });
+    const total = await this.repo.countByFilter(filter);
+
+    const now = new Date();
+    return { data: rows.map((row) => toBanHistoryEntry(row, now)), total };
+  }
+
+  async get(id: number): Promise<BanHistoryEntryDTO | null> {
+    const row = await this.findOwn(id);
+    return row ? toBanHistoryEntry(row) : null;
+  }
+
+  // ===========================================================================
+  // Commands
+  // ===========================================================================
+
+  /**
+   * Bans a player.
+   *
+   * Online players are banned over RCON straight away; offline players
+   * are enforced through Bans.cfg when they next join.
+   *
+   * @param duration - Duration in seconds (0 = permanent)
+   */
+  async ban(
+    target: BanTarget,
+    duration: number,
+    reason: string,
+    issuer: BanIssuer,
+  ): Promise<BanResult> {
+    if (!target.steamId && !target.eosId) {
+      return { ok: false, error: 'A Steam ID or EOS ID is required' };
+    }
+
+    const online = this.squadServer.players.find((p) =>
+      (target.eosId && p.eosID === target.eosId)
+      || (target.steamId && p.steamID === target.steamId),
+    );
+
+    if (online) {
+      const result = await this.squadServer.ban(online.eosID, formatBanInterval(duration), reason);
+      if (!result.ok) {
+        return { ok: false, error: result.error.message };
+      }
+      this.markIssued(online.eosID, online.steamID);
+    }
+
+    const row = await this.repo.insert({
+      serverId: this.serverId,
+      steamId: target.steamId ?? online?.steamID ?? null,
+      eosId: target.eosId ?? online?.eosID ?? null,
+      name: target.name ?? online?.name ?? null,
+      reason,
+      duration,
+      adminId: issuer.userId ?? null,
+      adminName: issuer.name,
+      adminPlayerId: issuer.playerId ?? null,
+      source: issuer.source ?? 'dashboard',
+      expiresAt: duration > 0 ? new Date(Date.now() + duration * 1000) : null,
+    });
+
+    await this.syncBansCfg();
+    return { ok: true, ban: toBanHistoryEntry(row) };
+  }
+
+  /**
+   * Edits the reason or duration of a ban.
+   *
+   * A new duration is counted from when the ban was issued.
+   */
+  async update(
+    id: number,
+    changes: { duration?: number; reason?: string },
+  ): Promise<BanResult> {
+    const existing = await this.findOwn(id);
+    if (!existing) {
+      return { ok: false, error: 'Ban not found' };
+    }
+    if (existing.revokedAt !== null) {
+      return { ok: false, error: 'Ban has been revoked' };
+    }
+
+    const row = await this.repo.update(id, {
+      ...(changes.reason !== undefined ? { reason: changes.reason } : {}),
+      ...(changes.duration !== undefined
+        ? {
+          duration: changes.duration,
+          expiresAt: changes.duration > 0
+            ? new Date(existing.createdAt.getTime() + changes.duration * 1000)
+            : null,
+        }
+        : {}),
+    });
+
+    await this.syncBansCfg();
+    return { ok: true, ban: toBanHistoryEntry(row ?? existing) };
+  }
+
+  /**
+   * Lifts a ban.
+   */
+  async unban(id: number, revokedBy: string | null): Promise<BanResult> {
+    const existing = await this.findOwn(id);
+    if (!existing) {
+      return { ok: false, error: 'Ban not found' };
+    }
+
+    const row = await this.repo.revoke(id, revokedBy);
+    if (!row) {
+      return { ok: false, error: 'Ban has already been revoked' };
+    }
+
+    await this.syncBansCfg();
+    return { ok: true, ban: toBanHistoryEntry(row) };
+  }
+
+  // ===========================================================================
+  // Bans.cfg
+  // ===========================================================================
+
+  /**
+   * Records bans from Bans.cfg that are not in ban_history yet.
+   *
+   * A ban is considered already known when a ban for the same ID with
+   * the same expiry (to the second) exists. Expired entries are skipped.
+   *
+   * @param content - File contents (defaults to reading the configured file)
+   */
+  async importBansCfg(content?: string): Promise<{ imported: number; skipped: number }> {
+    if (content === undefined) {
+      if (this.bansFile === null) {
+        throw new Error('No Bans.cfg file is configured');
+      }
+      content = await readFile(this.bansFile, 'utf-8');
+    }
+
+    const now = new Date();
+    let imported = 0;
+    let skipped = 0;
+
+    for (const entry of parseBansCfg(content)) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        skipped += 1;
+        continue;
+      }
+
+      const existing = await this.repo.findByPlayer(entry.playerId);
+      const known = existing.some((row) =>
+        row.serverId === this.serverId
+        && row.revokedAt === null
+        && toUnixSeconds(row.expiresAt) === toUnixSeconds(entry.expiresAt),
+      );
+      if (known) {
+        skipped += 1;
+        continue;
+      }
+
+      const steam = isSteamId(entry.playerId);
+      await this.repo.insert({
+        serverId: this.serverId,
+        steamId: steam ? entry.playerId : null,
+        eosId: steam ? null : entry.playerId,
+        reason: entry.reason,
+        duration: entry.expiresAt !== null
+          ? Math.round((entry.expiresAt.getTime() - now.getTime()) / 1000)
+          : 0,
+        adminName: entry.adminName,
+        adminPlayerId: entry.adminId,
+        source: 'bans_cfg',
+        expiresAt: entry.expiresAt,
+      });
+      imported += 1;
+    }
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Renders the active bans in the Bans.cfg format.
+   */
+  async exportBansCfg(): Promise<string> {
+    const rows = await this.repo.findActive({ serverId: this.serverId });
+
+    return serializeBansCfg(toBansCfgEntries(rows));
+  }
+
+  /**
+   * Writes the active bans to the configured Bans.cfg, if any.
+   */
+  async syncBansCfg(): Promise<void> {
+    if (this.bansFile === null) return;
+
+    try {
+      await writeFile(this.bansFile, await this.exportBansCfg(), 'utf-8');
+    } catch (error) {
+      this.logger?.warn(`Failed to write ${this.bansFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // ─── Handlers ─────────────────────────────────────────────────────
+
+  private async onPlayerBanned(e: PlayerBannedEvent): Promise<void> {
+    const issued = [e.eosID, e.steamID].map((id) => this.consumeIssued(id));
+    if (issued.includes(true)) return;
+    if (e.eosID === null && e.steamID === null) return;
+
+    try {
+      await this.repo.insert({
+        serverId: this.serverId,
+        steamId: e.steamID,
+        eosId: e.eosID,
+        name: e.name,
+        reason: e.reason,
+        duration: e.duration,
+        adminName: e.admin?.name ?? null,
+        adminPlayerId: e.admin?.eosID ?? null,
+        source: 'ingame',
+        createdAt: e.time,
+        expiresAt: e.duration > 0 ? new Date(e.time.getTime() + e.duration * 1000) : null,
+      });
+      await this.syncBansCfg();
+    } catch {
+      // Swallow persistence errors — never crash the server for ban history
+    }
+  }
+
+  private async checkExpired(): Promise<void> {
+    const now = new Date();
+    try {
+      const expired = await this.repo.countExpiredBetween(this.serverId, this.lastExpiryCheck, now);
+      this.lastExpiryCheck = now;
+      if (expired > 0) {
+        this.logger?.info(`${expired} ban(s) expired`);
+        await this.syncBansCfg();
+      }
+    } catch {
+      // Retried on the next check
+    }
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────────
+
+  private async findOwn(id: number): Promise<BanRow | null> {
+    const row = await this.repo.findById(id);
+    return row && row.serverId === this.serverId ? row : null;
+  }
+
+  private markIssued(...ids: (string | null)[]): void {
+    const until = Date.now() + ISSUED_BAN_TTL_MS;
+    for (const id of ids) {
+      if (id !== null) this.recentlyIssued.set(id, until);
+    }
+  }
+
+  private consumeIssued(id: string | null): boolean {
+    if (id === null) return false;
+
+    const until = this.recentlyIssued.get(id);
+    if (until === undefined) return false;
+
+    this.recentlyIssued.delete(id);
+    return until > Date.now();
+  }
+}
+
+function toUnixSeconds(date: Date | null): number {
+  return date !== null ? Math.floor(date.getTime() / 1000) : 0;
+}
@@ -0,0 +1,129 @@
+/**
+ * @squadscript/server
+ *
+ * Bans.cfg parsing and serialization, plus helpers for Squad's ban
+ * interval strings.
+ *
+ * Each Bans.cfg line has the form:
+ *
+ *   AdminName [SteamID 76561198000000000] Banned:76561198000000001:1735689600 //Reason
+ *
+ * where the number after the banned ID is the Unix expiry time in
+ * seconds (0 = permanent). The admin prefix is optional and may use
+ * `EOSID` instead of `SteamID`.
+ *
+ * @module
+ */
+
+/**
+ * A single ban read from or written to Bans.cfg.
+ */
+export interface BansCfgEntry {
+  /** Name of the admin who issued the ban. */
+  readonly adminName: string | null;
+  /** Steam or EOS ID of the admin who issued the ban. */
+  readonly adminId: string | null;
+  /** Steam or EOS ID of the banned player. */
+  readonly playerId: string;
+  /** When the ban ends (null = permanent). */
+  readonly expiresAt: Date | null;
+  readonly reason: string;
+}
+
+const BAN_LINE_PATTERN =
+  /^(?:(.*?)\s*\[(?:SteamID|EOSID)\s+([0-9a-fA-F]+)\]\s*)?Banned:([0-9a-fA-F]+):(\d+)\s*(?:\/\/\s*(.*))?$/;
+
+const INTERVAL_PATTERN = /^(\d+)\s*([smhdwM]?)$/;
+
+const INTERVAL_UNITS: Record<string, number> = {
+  '': 1,
+  s: 1,
+  m: 60,
+  h: 3_600,
+  d: 86_400,
+  w: 604_800,
+  M: 2_592_000,
+};
+
+/**
+ * Whether an ID is a SteamID64 rather than an EOS ID.
+ */
+export function isSteamId(id: string): boolean {
+  return /^\d{17}$/.test(id);
+}
+
+/**
+ * Parses the contents of a Bans.cfg file.
+ *
+ * Blank lines, comments and lines that do not match the ban format are
+ * skipped.
+ */
+export function parseBansCfg(content: string): BansCfgEntry[] {
+  const entries: BansCfgEntry[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('//')) continue;
+
+    const match = BAN_LINE_PATTERN.exec(line);
+    if (!match) continue;
+
+    const [, adminName, adminId, playerId, expiry, reason] = match;
+    const expiresAt = Number(expiry);
+
+    entries.push({
+      adminName: adminName || null,
+      adminId: adminId ?? null,
+      playerId: playerId!,
+      expiresAt: expiresAt > 0 ? new Date(expiresAt * 1000) : null,
+      reason: reason?.trim() ?? '',
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Serializes bans to the Bans.cfg format.
+ *
+ * The admin prefix is only written when the admin's in-game ID is
+ * known, since the game requires one.
+ */
+export function serializeBansCfg(entries: readonly BansCfgEntry[]): string {
+  const lines = entries.map((entry) => {
+    const prefix = entry.adminId !== null
+      ? `${entry.adminName ?? ''} [${isSteamId(entry.adminId) ? 'SteamID' : 'EOSID'} ${entry.adminId}] `.trimStart()
+      : '';
+    const expiry = entry.expiresAt !== null ? Math.floor(entry.expiresAt.getTime() / 1000) : 0;
+    const reason = entry.reason.replace(/[\r\n]+/g, ' ');
+
+    return `${prefix}Banned:${entry.playerId}:${expiry}${reason ? ` //${reason}` : ''}`;
+  });
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Converts a Squad ban interval (e.g. `"1d"`, `"12h"`, `"1M"`) to seconds.
+ *
+ * @returns The duration in seconds (0 = permanent or unrecognized)
+ */
+export function parseBanInterval(interval: string): number {
+  const match = INTERVAL_PATTERN.exec(interval.trim());
+  if (!match) return 0;
+
+  const [, amount, unit] = match;
+  return Number(amount) * (INTERVAL_UNITS[unit ?? ''] ?? 1);
+}
+
+/**
+ * Converts a duration in seconds to a Squad ban interval.
+ *
+ * Durations that are not whole days or hours are rounded up to minutes.
+ */
+export function formatBanInterval(seconds: number): string {
+  if (seconds <= 0) return '0';
+  if (seconds % 86_400 === 0) return `${seconds / 86_400}d`;
+  if (seconds % 3_600 === 0) return `${seconds / 3_600}h`;
+  return `${Math.ceil(seconds / 60)}m`;
+}
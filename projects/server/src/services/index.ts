@@ -30,3 +30,55 @@ export {
 export { EventLogService } from './event-log.service.js';
 
 export { NotificationService } from './notification.service.js';
+
+export {
+  PlayerProfileService,
+  createPlayerProfileReader,
+  toPlayerProfile,
+  type PlayerProfileServer,
+} from './player-profile.service.js';
+
+export {
+  BanManager,
+  createPluginBans,
+  getBanStatus,
+  toBanHistoryEntry,
+  toBansCfgEntries,
+  type BanManagerOptions,
+  type BanManagerServer,
+  type BanTarget,
+  type BanIssuer,
+  type BanResult,
+} from './ban-manager.service.js';
+
+export {
+  RemoteBanListService,
+  type RemoteBanListServiceOptions,
+  type RemoteBanListServer,
+  type BanListSubscription,
+  type BanListAction,
+  type BanListMatch,
+} from './remote-ban-list.service.js';
+
+export {
+  MatchRecorder,
+  SQUAD_SNAPSHOT_EVENT,
+  type MatchRecorderOptions,
+  type MatchRecorderServer,
+  type MatchPlayerRef,
+  type MatchSquadSnapshot,
+} from './match-recorder.service.js';
+
+export {
+  signBanList,
+  verifyBanListSignature,
+  BAN_LIST_SIGNATURE_HEADER,
+} from './ban-list-signature.js';
+
+export {
+  parseBansCfg,
+  serializeBansCfg,
+  parseBanInterval,
+  formatBanInterval,
+  type BansCfgEntry,
+} from './bans-cfg.js';
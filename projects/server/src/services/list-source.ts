@@ -0,0 +1,65 @@
+/**
+ * @squadscript/server
+ *
+ * Loading of line-based lists (admin lists, ban lists) from local files
+ * or HTTP URLs.
+ *
+ * @module
+ */
+
+/**
+ * A list to load from a local file or a URL.
+ */
+export interface ListSource {
+  readonly type: 'local' | 'remote';
+  /** Path or URL to the list. */
+  readonly source: string;
+}
+
+/**
+ * The loaded contents of a list.
+ */
+export interface ListSourceContent {
+  readonly content: string;
+  /** Response headers (null for local files). */
+  readonly headers: Headers | null;
+}
+
+/**
+ * Loads a list from a local file or a URL.
+ *
+ * @param source - Where to load the list from
+ * @param label - What the list is, used in error messages (e.g. "admin list")
+ * @throws {Error} If the file is missing, the request fails or the type is unknown
+ */
+export async function loadListSource(
+  source: ListSource,
+  label: string,
+): Promise<ListSourceContent> {
+  if (source.type === 'local') {
+    const file = Bun.file(source.source);
+    if (!(await file.exists())) {
+      throw new Error(`${label.charAt(0).toUpperCase()}${label.slice(1)} file not found: ${source.source}`);
+    }
+    return { content: await file.text(), headers: null };
+  }
+
+  if (source.type === 'remote') {
+    let response: Response;
+    try {
+      response = await fetch(source.source, {
+        headers: { Accept: 'text/plain' },
+      });
+    } catch (error) {
+      throw new Error(`Error loading ${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${label}: ${response.status} ${response.statusText}`);
+    }
+
+    return { content: await response.text(), headers: response.headers };
+  }
+
+  throw new Error(`Unknown source type: ${(source as { type: string }).type}`);
+}
@@ -0,0 +1,503 @@
+/**
+ * @squadscript/server
+ *
+ * MatchRecorder — records each round as a timeline in the match_timelines
+ * and match_timeline_events tables so it can be replayed after the round.
+ *
+ * @module
+ */
+
+import type { ModuleLogger } from '@squadscript/logger';
+import type { PartialPlayer, Player } from '@squadscript/types';
+import type {
+  AdminBroadcastEvent,
+  AdminCameraEvent,
+  ChatMessageEvent,
+  DeployableConstructedEvent,
+  DeployableDamagedEvent,
+  DeployableDestroyedEvent,
+  NewGameEvent,
+  PlayerBannedEvent,
+  PlayerDamagedEvent,
+  PlayerDiedEvent,
+  PlayerKickedEvent,
+  PlayerRevivedEvent,
+  PlayerWarnedEvent,
+  PlayerWoundedEvent,
+  RoundEndedEvent,
+  RoundTicketsEvent,
+  RoundWinnerEvent,
+  SquadCreatedEvent,
+  VehicleDestroyedEvent,
+} from '@squadscript/types/events';
+
+import type { SquadServer } from '../server.js';
+import type { TypedEventEmitter } from '../events/emitter.js';
+import type { PlayerSquadChangeEvent, PlayerTeamChangeEvent, ServerEventMap } from '../types.js';
+import { MatchRepository, type MatchEventInsert } from '../db/repositories/match.repo.js';
+import type { DrizzleDB } from '../db/index.js';
+
+/** Timeline entry type for periodic squad snapshots. */
+export const SQUAD_SNAPSHOT_EVENT = 'SQUADS';
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5_000;
+const DEFAULT_SQUAD_SNAPSHOT_INTERVAL_MS = 30_000;
+
+export interface MatchRecorderOptions {
+  /** Server ID matches are recorded under (defaults to the server's ID). */
+  readonly serverId?: string;
+  /** How often buffered timeline entries are written, in ms. */
+  readonly flushInterval?: number;
+  /** How often squads are checked for changes, in ms. */
+  readonly squadSnapshotInterval?: number;
+  readonly logger?: ModuleLogger;
+}
+
+/**
+ * Player fields kept on timeline entries.
+ */
+export interface MatchPlayerRef {
+  readonly name: string | null;
+  readonly eosID: string;
+  readonly teamID: number | null;
+  readonly squadID: number | null;
+}
+
+/**
+ * A squad as captured in a snapshot entry.
+ */
+export interface MatchSquadSnapshot {
+  readonly teamID: number;
+  readonly squadID: number;
+  readonly name: string;
+  readonly locked: boolean;
+  readonly creatorName: string;
+  readonly members: readonly string[];
+}
+
+/**
+ * The parts of the server the recorder reads.
+ */
+export type MatchRecorderServer = Pick<SquadServer, 'id' | 'players' | 'squads'>
+  & Pick<TypedEventEmitter<ServerEventMap>, 'on'>;
+
+interface OpenMatch {
+  id: number | null;
+  readonly startedAt: Date;
+  /** Resolves once the match row exists. */
+  ready: Promise<void>;
+  buffer: MatchEventInsert[];
+  /** Number of events written so far. */
+  recorded: number;
+  winner: number | null;
+  team1Tickets: number | null;
+  team2Tickets: number | null;
+}
+
+/**
+ * Records combat (with chain IDs), chat, admin actions, squad changes and
+ * squad snapshots for the round in progress.
+ *
+ * Recording starts at NEW_GAME, so the round that is running when the
+ * server starts is not recorded. Entries are buffered and written in
+ * batches.
+ */
+export class MatchRecorder {
+  private readonly repo: MatchRepository;
+  /** Server ID matches are recorded under. */
+  readonly serverId: string;
+  private readonly flushInterval: number;
+  private readonly squadSnapshotInterval: number;
+  private readonly logger: ModuleLogger | null;
+
+  private current: OpenMatch | null = null;
+  private lastSquadSnapshot: string | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly squadServer: MatchRecorderServer,
+    db: DrizzleDB,
+    options: MatchRecorderOptions = {},
+  ) {
+    this.repo = new MatchRepository(db);
+    this.serverId = options.serverId ?? squadServer.id;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.squadSnapshotInterval = options.squadSnapshotInterval ?? DEFAULT_SQUAD_SNAPSHOT_INTERVAL_MS;
+    this.logger = options.logger ?? null;
+  }
+
+  /** The ID of the match being recorded, if its row has been created. */
+  get currentMatchId(): number | null {
+    return this.current?.id ?? null;
+  }
+
+  /** Subscribe to round, combat, chat and admin events and start the timers. */
+  start(): void {
+    this.squadServer.on('NEW_GAME', (e) => void this.onNewGame(e));
+    this.squadServer.on('ROUND_TICKETS', (e) => this.onRoundTickets(e));
+    this.squadServer.on('ROUND_WINNER', (e) => this.onRoundWinner(e));
+    this.squadServer.on('ROUND_ENDED', (e) => void this.onRoundEnded(e));
+
+    this.squadServer.on('PLAYER_DAMAGED', (e) => this.onPlayerDamaged(e));
+    this.squadServer.on('PLAYER_WOUNDED', (e) => this.onPlayerWounded(e));
+    this.squadServer.on('PLAYER_DIED', (e) => this.onPlayerDied(e));
+    this.squadServer.on('PLAYER_REVIVED', (e) => this.onPlayerRevived(e));
+    this.squadServer.on('DEPLOYABLE_DAMAGED', (e) => this.onDeployableDamaged(e));
+    this.squadServer.on('DEPLOYABLE_CONSTRUCTED', (e) => this.onDeployableConstructed(e));
+    this.squadServer.on('DEPLOYABLE_DESTROYED', (e) => this.onDeployableDestroyed(e));
+    this.squadServer.on('VEHICLE_DESTROYED', (e) => this.onVehicleDestroyed(e));
+
+    this.squadServer.on('CHAT_MESSAGE', (e) => this.onChatMessage(e));
+    this.squadServer.on('ADMIN_BROADCAST', (e) => this.onAdminBroadcast(e));
+    this.squadServer.on('ADMIN_CAMERA', (e) => this.onAdminCamera(e));
+    this.squadServer.on('PLAYER_WARNED', (e) => this.onPlayerWarned(e));
+    this.squadServer.on('PLAYER_KICKED', (e) => this.onPlayerKicked(e));
+    this.squadServer.on('PLAYER_BANNED', (e) => this.onPlayerBanned(e));
+
+    this.squadServer.on('SQUAD_CREATED', (e) => this.onSquadCreated(e));
+    this.squadServer.on('PLAYER_TEAM_CHANGE', (e) => this.onPlayerTeamChange(e));
+    this.squadServer.on('PLAYER_SQUAD_CHANGE', (e) => this.onPlayerSquadChange(e));
+
+    this.flushTimer = setInterval(() => {
+      if (this.current !== null) void this.flush(this.current);
+    }, this.flushInterval);
+    this.snapshotTimer = setInterval(() => {
+      this.snapshotSquads();
+    }, this.squadSnapshotInterval);
+  }
+
+  /** Stop the timers and write whatever is buffered. */
+  async stop(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.snapshotTimer !== null) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    if (this.current !== null) {
+      await this.current.ready;
+      await this.flush(this.current);
+    }
+  }
+
+  /**
+   * Records a squad snapshot if squads or their members changed since the
+   * last one.
+   */
+  snapshotSquads(time = new Date()): void {
+    if (this.current === null) return;
+
+    const players = this.squadServer.players;
+    const squads: MatchSquadSnapshot[] = this.squadServer.squads.map((squad) => ({
+      teamID: squad.teamID,
+      squadID: squad.squadID,
+      name: squad.name,
+      locked: squad.locked,
+      creatorName: squad.creatorName,
+      members: players
+        .filter((p) => p.teamID === squad.teamID && p.squadID === squad.squadID)
+        .map((p) => p.name),
+    }));
+
+    const signature = JSON.stringify(squads);
+    if (signature === this.lastSquadSnapshot) return;
+    this.lastSquadSnapshot = signature;
+
+    this.record(SQUAD_SNAPSHOT_EVENT, time, null, {
+      squads,
+      teamSizes: {
+        1: players.filter((p) => p.teamID === 1).length,
+        2: players.filter((p) => p.teamID === 2).length,
+      },
+    });
+  }
+
+  // ─── Round lifecycle ────────────────────────────────────────────────────
+
+  private async onNewGame(event: NewGameEvent) {
+    if (this.current !== null) {
+      // The previous round never reported its end
+      await this.close(this.current, event.time);
+    }
+
+    const match: OpenMatch = {
+      id: null,
+      startedAt: event.time,
+      ready: Promise.resolve(),
+      buffer: [],
+      recorded: 0,
+      winner: null,
+      team1Tickets: null,
+      team2Tickets: null,
+    };
+    this.current = match;
+    this.lastSquadSnapshot = null;
+
+    match.ready = this.repo.create({
+      serverId: this.serverId,
+      level: event.level,
+      layer: event.layerName,
+      team1Faction: event.layer?.team1Faction ?? null,
+      team2Faction: event.layer?.team2Faction ?? null,
+      startedAt: event.time,
+    }).then((row) => {
+      match.id = row.id;
+    }).catch((error: unknown) => {
+      this.logger?.warn(`Failed to record match: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    this.record('NEW_GAME', event.time, null, {
+      level: event.level,
+      layer: event.layerName,
+    });
+    await match.ready;
+  }
+
+  private onRoundTickets(event: RoundTicketsEvent) {
+    if (this.current !== null) {
+      this.current.team1Tickets = event.team1Tickets;
+      this.current.team2Tickets = event.team2Tickets;
+    }
+    this.record('ROUND_TICKETS', event.time, null, {
+      team1Tickets: event.team1Tickets,
+      team2Tickets: event.team2Tickets,
+    });
+  }
+
+  private onRoundWinner(event: RoundWinnerEvent) {
+    if (this.current !== null) {
+      this.current.winner = event.winner;
+    }
+    this.record('ROUND_WINNER', event.time, null, {
+      winner: event.winner,
+      winnerFaction: event.winnerFaction,
+      loserFaction: event.loserFaction,
+    });
+  }
+
+  private async onRoundEnded(event: RoundEndedEvent) {
+    const match = this.current;
+    if (match === null) return;
+
+    match.winner = event.winner ?? match.winner;
+    match.team1Tickets = event.team1Tickets;
+    match.team2Tickets = event.team2Tickets;
+    this.record('ROUND_ENDED', event.time, null, {
+      winner: event.winner,
+      team1Tickets: event.team1Tickets,
+      team2Tickets: event.team2Tickets,
+      durationSeconds: event.durationSeconds,
+    });
+    await this.close(match, event.time);
+  }
+
+  // ─── Handlers ───────────────────────────────────────────────────────────
+
+  private onPlayerDamaged(event: PlayerDamagedEvent) {
+    this.record('PLAYER_DAMAGED', event.time, event.chainID, {
+      attacker: event.attacker ? playerRef(event.attacker) : null,
+      victim: playerRef(event.victim),
+      weapon: event.weapon,
+      damage: event.damage,
+      teamkill: event.teamkill,
+    });
+  }
+
+  private onPlayerWounded(event: PlayerWoundedEvent) {
+    this.record('PLAYER_WOUNDED', event.time, event.chainID, {
+      attacker: event.attacker ? playerRef(event.attacker) : null,
+      victim: playerRef(event.victim),
+      weapon: event.weapon,
+      damage: event.damage,
+      teamkill: event.teamkill,
+    });
+  }
+
+  private onPlayerDied(event: PlayerDiedEvent) {
+    this.record('PLAYER_DIED', event.time, event.chainID, {
+      attacker: event.attacker ? playerRef(event.attacker) : null,
+      victim: playerRef(event.victim),
+      weapon: event.weapon,
+      damage: event.damage,
+      suicide: event.suicide,
+    });
+  }
+
+  private onPlayerRevived(event: PlayerRevivedEvent) {
+    this.record('PLAYER_REVIVED', event.time, null, {
+      reviver: playerRef(event.reviver),
+      victim: playerRef(event.victim),
+    });
+  }
+
+  private onDeployableDamaged(event: DeployableDamagedEvent) {
+    this.record('DEPLOYABLE_DAMAGED', event.time, null, {
+      attacker: event.attacker ? playerRef(event.attacker) : null,
+      deployable: event.deployable,
+      weapon: event.weapon,
+      damage: event.damage,
+    });
+  }
+
+  private onDeployableConstructed(event: DeployableConstructedEvent) {
+    this.record('DEPLOYABLE_CONSTRUCTED', event.time, null, {
+      player: event.player ? playerRef(event.player) : null,
+      deployable: event.deployable,
+      teamID: event.teamID,
+    });
+  }
+
+  private onDeployableDestroyed(event: DeployableDestroyedEvent) {
+    this.record('DEPLOYABLE_DESTROYED', event.time, null, {
+      attacker: event.attacker ? playerRef(event.attacker) : null,
+      deployable: event.deployable,
+      weapon: event.weapon,
+    });
+  }
+
+  private onVehicleDestroyed(event: VehicleDestroyedEvent) {
+    this.record('VEHICLE_DESTROYED', event.time, null, {
+      attacker: event.attacker ? playerRef(event.attacker) : null,
+      vehicle: event.vehicle,
+      weapon: event.weapon,
+    });
+  }
+
+  private onChatMessage(event: ChatMessageEvent) {
+    this.record('CHAT_MESSAGE', event.time, null, {
+      player: playerRef(event.player),
+      channel: event.channel,
+      message: event.message,
+    });
+  }
+
+  private onAdminBroadcast(event: AdminBroadcastEvent) {
+    this.record('ADMIN_BROADCAST', event.time, null, {
+      message: event.message,
+    });
+  }
+
+  private onAdminCamera(event: AdminCameraEvent) {
+    this.record('ADMIN_CAMERA', event.time, null, {
+      player: playerRef(event.player),
+      entering: event.entering,
+    });
+  }
+
+  private onPlayerWarned(event: PlayerWarnedEvent) {
+    this.record('PLAYER_WARNED', event.time, null, {
+      player: playerRef(event.player),
+      message: event.message,
+      admin: event.admin?.name ?? null,
+    });
+  }
+
+  private onPlayerKicked(event: PlayerKickedEvent) {
+    this.record('PLAYER_KICKED', event.time, null, {
+      player: playerRef(event.player),
+      reason: event.reason,
+      admin: event.admin?.name ?? null,
+    });
+  }
+
+  private onPlayerBanned(event: PlayerBannedEvent) {
+    this.record('PLAYER_BANNED', event.time, null, {
+      name: event.name,
+      eosID: event.eosID,
+      steamID: event.steamID,
+      reason: event.reason,
+      duration: event.duration,
+      admin: event.admin?.name ?? null,
+    });
+  }
+
+  private onSquadCreated(event: SquadCreatedEvent) {
+    this.record('SQUAD_CREATED', event.time, null, {
+      player: playerRef(event.player),
+      teamID: event.teamID,
+      squadID: event.squadID,
+      squadName: event.squadName,
+    });
+  }
+
+  private onPlayerTeamChange(event: PlayerTeamChangeEvent) {
+    this.record('PLAYER_TEAM_CHANGE', event.time, null, {
+      player: playerRef(event.player),
+      oldTeamID: event.oldTeamID,
+      newTeamID: event.newTeamID,
+    });
+  }
+
+  private onPlayerSquadChange(event: PlayerSquadChangeEvent) {
+    this.record('PLAYER_SQUAD_CHANGE', event.time, null, {
+      player: playerRef(event.player),
+      oldSquadID: event.oldSquadID,
+      newSquadID: event.newSquadID,
+    });
+  }
+
+  // ─── Persistence ────────────────────────────────────────────────────────
+
+  private record(type: string, time: Date, chainId: number | null, data: Record<string, unknown>): void {
+    const match = this.current;
+    if (match === null) return;
+
+    match.buffer.push({
+      offsetMs: Math.max(0, time.getTime() - match.startedAt.getTime()),
+      time,
+      type,
+      chainId,
+      data,
+    });
+  }
+
+  private async flush(match: OpenMatch): Promise<void> {
+    if (match.id === null || match.buffer.length === 0) return;
+
+    const events = match.buffer.splice(0);
+    try {
+      await this.repo.insertEvents(match.id, events);
+      match.recorded += events.length;
+    } catch (error) {
+      // A lost batch should never crash the server
+      this.logger?.warn(
+        `Failed to record ${events.length} events for match ${match.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async close(match: OpenMatch, endedAt: Date): Promise<void> {
+    if (this.current === match) {
+      this.current = null;
+    }
+
+    await match.ready;
+    if (match.id === null) return;
+
+    await this.flush(match);
+    try {
+      await this.repo.end(match.id, {
+        endedAt,
+        winner: match.winner,
+        team1Tickets: match.team1Tickets,
+        team2Tickets: match.team2Tickets,
+      });
+    } catch (error) {
+      this.logger?.warn(
+        `Failed to close match ${match.id} (${match.recorded} events): ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+function playerRef(player: Player | PartialPlayer): MatchPlayerRef {
+  return {
+    name: player.name ?? null,
+    eosID: player.eosID,
+    teamID: 'teamID' in player ? player.teamID : null,
+    squadID: 'squadID' in player ? player.squadID : null,
+  };
+}
@@ -129,7 +129,10 @@ export class NotificationService {
 
   // ─── Persistence & Broadcast ────────────────────────────────────────────
 
-  private async create(data: NotificationData): Promise<void> {
+  /**
+   * Stores a notification and broadcasts it to dashboard clients.
+   */
+  async create(data: NotificationData): Promise<void> {
     try {
       const record = await this.repo.insert({
         ...data,
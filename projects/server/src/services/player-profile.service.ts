@@ -0,0 +1,210 @@
+/**
+ * @squadscript/server
+ *
+ * PlayerProfileService — subscribes to SquadServer events and keeps the
+ * persistent player_profiles table up to date.
+ *
+ * @module
+ */
+
+import type {
+  EOSID,
+  PlayerProfile,
+  PlayerProfileReader,
+  SteamID,
+} from '@squadscript/types';
+import type {
+  PlayerConnectedEvent,
+  PlayerDisconnectedEvent,
+  PlayerJoinSucceededEvent,
+  PlayerDiedEvent,
+  PlayerRevivedEvent,
+  PlayerWarnedEvent,
+  PlayerKickedEvent,
+  PlayerBannedEvent,
+} from '@squadscript/types/events';
+
+import type { TypedEventEmitter } from '../events/emitter.js';
+import type { ServerEventMap } from '../types.js';
+import {
+  PlayerProfileRepository,
+  type PlayerProfileCounter,
+  type PlayerProfileIdentity,
+} from '../db/repositories/player-profile.repo.js';
+import type { playerProfiles } from '../db/schema.js';
+import type { DrizzleDB } from '../db/index.js';
+
+/**
+ * Maps a player_profiles row to the shared PlayerProfile type.
+ */
+export function toPlayerProfile(row: typeof playerProfiles.$inferSelect): PlayerProfile {
+  return {
+    eosID: row.eosId as EOSID,
+    steamID: row.steamId as SteamID | null,
+    name: row.name,
+    nameHistory: (row.nameHistory as string[] | null) ?? [],
+    firstSeen: row.firstSeen,
+    lastSeen: row.lastSeen,
+    playtimeSeconds: row.playtimeSeconds,
+    visits: row.visits,
+    kills: row.kills,
+    deaths: row.deaths,
+    teamkills: row.teamkills,
+    revives: row.revives,
+    warnings: row.warnings,
+    kicks: row.kicks,
+    bans: row.bans,
+  };
+}
+
+/**
+ * Creates the profile reader exposed to plugins as `context.profiles`.
+ */
+export function createPlayerProfileReader(db: DrizzleDB): PlayerProfileReader {
+  const repo = new PlayerProfileRepository(db);
+
+  return {
+    get: async (eosID) => {
+      const row = await repo.findByEosId(eosID);
+      return row ? toPlayerProfile(row) : null;
+    },
+    getBySteamID: async (steamID) => {
+      const row = await repo.findBySteamId(steamID);
+      return row ? toPlayerProfile(row) : null;
+    },
+  };
+}
+
+/**
+ * The server events the profile service listens to.
+ */
+export type PlayerProfileServer = Pick<TypedEventEmitter<ServerEventMap>, 'on'>;
+
+/**
+ * Maintains persistent player profiles from server events.
+ *
+ * Profiles are keyed by EOS ID and shared by every hosted server.
+ * Playtime is measured from PLAYER_CONNECTED to PLAYER_DISCONNECTED, so
+ * sessions already in progress when the service starts are not counted.
+ */
+export class PlayerProfileService {
+  private readonly repo: PlayerProfileRepository;
+
+  /** Session start times of connected players, by EOS ID. */
+  private readonly sessions = new Map<string, Date>();
+
+  constructor(
+    private readonly squadServer: PlayerProfileServer,
+    db: DrizzleDB,
+  ) {
+    this.repo = new PlayerProfileRepository(db);
+  }
+
+  /** Subscribe to connection, combat and admin events. */
+  start(): void {
+    this.squadServer.on('PLAYER_CONNECTED', (e) =>
+      void this.onPlayerConnected(e),
+    );
+    this.squadServer.on('PLAYER_JOIN_SUCCEEDED', (e) =>
+      void this.onPlayerJoinSucceeded(e),
+    );
+    this.squadServer.on('PLAYER_DISCONNECTED', (e) =>
+      void this.onPlayerDisconnected(e),
+    );
+    this.squadServer.on('PLAYER_DIED', (e) =>
+      void this.onPlayerDied(e),
+    );
+    this.squadServer.on('PLAYER_REVIVED', (e) =>
+      void this.onPlayerRevived(e),
+    );
+    this.squadServer.on('PLAYER_WARNED', (e) =>
+      void this.onPlayerWarned(e),
+    );
+    this.squadServer.on('PLAYER_KICKED', (e) =>
+      void this.onPlayerKicked(e),
+    );
+    this.squadServer.on('PLAYER_BANNED', (e) =>
+      void this.onPlayerBanned(e),
+    );
+  }
+
+  // ─── Handlers ───────────────────────────────────────────────────────────
+
+  private async onPlayerConnected(event: PlayerConnectedEvent) {
+    this.sessions.set(event.player.eosID, event.time);
+    await this.persist(event.player, event.time, { counters: { visits: 1 } });
+  }
+
+  private async onPlayerJoinSucceeded(event: PlayerJoinSucceededEvent) {
+    await this.persist(
+      { eosID: event.eosID, steamID: event.steamID, name: event.player.name },
+      event.time,
+    );
+  }
+
+  private async onPlayerDisconnected(event: PlayerDisconnectedEvent) {
+    const startedAt = this.sessions.get(event.player.eosID);
+    this.sessions.delete(event.player.eosID);
+
+    const playtimeSeconds = startedAt
+      ? (event.time.getTime() - startedAt.getTime()) / 1000
+      : 0;
+    await this.persist(event.player, event.time, { playtimeSeconds });
+  }
+
+  private async onPlayerDied(event: PlayerDiedEvent) {
+    await this.persist(event.victim, event.time, { counters: { deaths: 1 } });
+
+    const { attacker, victim } = event;
+    if (!attacker || event.suicide || attacker.eosID === victim.eosID) return;
+
+    const teamkill = attacker.teamID !== null && attacker.teamID === victim.teamID;
+    await this.persist(attacker, event.time, {
+      counters: teamkill ? { teamkills: 1 } : { kills: 1 },
+    });
+  }
+
+  private async onPlayerRevived(event: PlayerRevivedEvent) {
+    await this.persist(event.reviver, event.time, { counters: { revives: 1 } });
+  }
+
+  private async onPlayerWarned(event: PlayerWarnedEvent) {
+    await this.persist(event.player, event.time, { counters: { warnings: 1 } });
+  }
+
+  private async onPlayerKicked(event: PlayerKickedEvent) {
+    await this.persist(event.player, event.time, { counters: { kicks: 1 } });
+  }
+
+  private async onPlayerBanned(event: PlayerBannedEvent) {
+    if (!event.eosID) return;
+    await this.persist(
+      { eosID: event.eosID, steamID: event.steamID, name: event.name },
+      event.time,
+      { counters: { bans: 1 } },
+    );
+  }
+
+  // ─── Persistence ────────────────────────────────────────────────────────
+
+  private async persist(
+    player: { eosID: string; steamID?: string | null | undefined; name?: string | null | undefined },
+    at: Date,
+    changes: {
+      counters?: Partial<Record<PlayerProfileCounter, number>>;
+      playtimeSeconds?: number;
+    } = {},
+  ): Promise<void> {
+    const identity: PlayerProfileIdentity = {
+      eosId: player.eosID,
+      steamId: player.steamID ?? null,
+      name: player.name ?? null,
+    };
+
+    try {
+      await this.repo.record(identity, at, changes);
+    } catch {
+      // Intentionally swallow — profile tracking should never crash the server
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * @squadscript/server
+ *
+ * RemoteBanListService — subscribes to ban lists shared by other
+ * communities and enforces them when listed players join.
+ *
+ * @module
+ */
+
+import type { ModuleLogger } from '@squadscript/logger';
+import type { PlayerJoinSucceededEvent } from '@squadscript/types/events';
+
+import type { SquadServer } from '../server.js';
+import type { TypedEventEmitter } from '../events/emitter.js';
+import type { ServerEventMap } from '../types.js';
+import type { NotificationService } from './notification.service.js';
+import { loadListSource } from './list-source.js';
+import { parseBansCfg, type BansCfgEntry } from './bans-cfg.js';
+import { BAN_LIST_SIGNATURE_HEADER, verifyBanListSignature } from './ban-list-signature.js';
+
+/** Default refresh interval, matching admin lists. */
+const DEFAULT_REFRESH_INTERVAL_MS = 300_000;
+
+/**
+ * What to do when a player on a subscribed list joins.
+ *
+ * - `kick`: kick the player
+ * - `alert`: notify the dashboard and warn online admins
+ * - `log`: only write to the log
+ */
+export type BanListAction = 'kick' | 'alert' | 'log';
+
+/**
+ * A ban list to subscribe to.
+ */
+export interface BanListSubscription {
+  /** Name shown in logs, alerts and kick messages. */
+  readonly name: string;
+  readonly type: 'local' | 'remote';
+  /** Path or URL of a Bans.cfg-style list. */
+  readonly source: string;
+  /** Refresh interval in milliseconds (default: 300000). */
+  readonly refreshInterval?: number | undefined;
+  /** Enforcement for players on this list. */
+  readonly action: BanListAction;
+  /** Kick message (default: "Banned on <name>: <reason>"). */
+  readonly kickReason?: string | undefined;
+  /** Shared secret to verify the list's signature (unset to accept unsigned lists). */
+  readonly secret?: string | undefined;
+}
+
+/**
+ * The parts of the server the ban list service uses.
+ */
+export type RemoteBanListServer = Pick<SquadServer, 'players' | 'kick' | 'warn' | 'hasPermission'>
+  & Pick<TypedEventEmitter<ServerEventMap>, 'on'>;
+
+/**
+ * Options for creating a RemoteBanListService.
+ */
+export interface RemoteBanListServiceOptions {
+  readonly subscriptions: readonly BanListSubscription[];
+  /** Used to raise dashboard notifications for `alert` lists. */
+  readonly notifications?: Pick<NotificationService, 'create'> | null;
+  readonly logger?: ModuleLogger;
+}
+
+/**
+ * A subscribed list that bans a player.
+ */
+export interface BanListMatch {
+  readonly subscription: BanListSubscription;
+  readonly entry: BansCfgEntry;
+}
+
+/** Enforcement strength, strongest first. */
+const ACTION_ORDER: readonly BanListAction[] = ['kick', 'alert', 'log'];
+
+interface SubscriptionState {
+  readonly subscription: BanListSubscription;
+  /** Entries by banned player ID. */
+  entries: Map<string, BansCfgEntry>;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+/**
+ * Keeps subscribed ban lists loaded and checks joining players against
+ * them.
+ *
+ * A list that fails to refresh keeps its previous entries. When a
+ * player is on several lists, the strongest action among them is taken
+ * once.
+ */
+export class RemoteBanListService {
+  private readonly states: SubscriptionState[];
+  private readonly notifications: Pick<NotificationService, 'create'> | null;
+  private readonly logger: ModuleLogger | null;
+
+  constructor(
+    private readonly squadServer: RemoteBanListServer,
+    options: RemoteBanListServiceOptions,
+  ) {
+    this.states = options.subscriptions.map((subscription) => ({
+      subscription,
+      entries: new Map(),
+      timer: null,
+    }));
+    this.notifications = options.notifications ?? null;
+    this.logger = options.logger ?? null;
+  }
+
+  /**
+   * Loads every list, schedules refreshes and starts checking joins.
+   */
+  async start(): Promise<void> {
+    await Promise.all(this.states.map((state) => this.refreshState(state)));
+
+    for (const state of this.states) {
+      state.timer = setInterval(() => {
+        void this.refreshState(state);
+      }, state.subscription.refreshInterval ?? DEFAULT_REFRESH_INTERVAL_MS);
+    }
+
+    this.squadServer.on('PLAYER_JOIN_SUCCEEDED', (e) =>
+      void this.onPlayerJoinSucceeded(e),
+    );
+  }
+
+  /** Stop refreshing lists. */
+  stop(): void {
+    for (const state of this.states) {
+      if (state.timer !== null) {
+        clearInterval(state.timer);
+        state.timer = null;
+      }
+    }
+  }
+
+  /**
+   * Reloads one subscribed list by name, or all of them.
+   */
+  async refresh(name?: string): Promise<void> {
+    await Promise.all(
+      this.states
+        .filter((state) => name === undefined || state.subscription.name === name)
+        .map((state) => this.refreshState(state)),
+    );
+  }
+
+  /**
+   * Finds the subscribed lists that currently ban any of the given IDs.
+   */
+  check(ids: readonly (string | null | undefined)[], now = new Date()): BanListMatch[] {
+    const matches: BanListMatch[] = [];
+
+    for (const state of this.states) {
+      for (const id of ids) {
+        if (!id) continue;
+        const entry = state.entries.get(id);
+        if (entry && (entry.expiresAt === null || entry.expiresAt > now)) {
+          matches.push({ subscription: state.subscription, entry });
+          break;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  // ─── Handlers ─────────────────────────────────────────────────────
+
+  private async onPlayerJoinSucceeded(e: PlayerJoinSucceededEvent): Promise<void> {
+    const matches = this.check([e.eosID, e.steamID]);
+    if (matches.length === 0) return;
+
+    const name = e.player.name ?? e.eosID;
+    for (const { subscription, entry } of matches) {
+      this.logger?.info(
+        `Player ${name} (${e.eosID}) is on ban list "${subscription.name}": ${entry.reason || 'no reason given'}`,
+      );
+    }
+
+    const strongest = [...matches].sort((a, b) =>
+      ACTION_ORDER.indexOf(a.subscription.action) - ACTION_ORDER.indexOf(b.subscription.action),
+    )[0]!;
+
+    try {
+      switch (strongest.subscription.action) {
+        case 'kick':
+          await this.kick(e, strongest);
+          break;
+        case 'alert':
+          await this.alert(name, matches);
+          break;
+        case 'log':
+          break;
+      }
+    } catch (error) {
+      this.logger?.warn(`Failed to enforce ban list for ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // ─── Enforcement ──────────────────────────────────────────────────
+
+  private async kick(e: PlayerJoinSucceededEvent, match: BanListMatch): Promise<void> {
+    const { subscription, entry } = match;
+    const reason = subscription.kickReason
+      ?? `Banned on ${subscription.name}${entry.reason ? `: ${entry.reason}` : ''}`;
+
+    const result = await this.squadServer.kick(e.eosID, reason);
+    if (!result.ok) {
+      throw result.error;
+    }
+  }
+
+  private async alert(name: string, matches: readonly BanListMatch[]): Promise<void> {
+    const lists = matches.map((match) => `"${match.subscription.name}"`).join(', ');
+    const message = `${name} is on ban list ${lists}`;
+
+    await this.notifications?.create({
+      type: 'admin',
+      severity: 'warning',
+      title: 'Ban List Match',
+      message,
+    });
+
+    const admins = this.squadServer.players.filter((player) =>
+      this.squadServer.hasPermission(player.eosID, 'canseeadminchat')
+      || (player.steamID !== null && this.squadServer.hasPermission(player.steamID, 'canseeadminchat')),
+    );
+    await Promise.all(admins.map((admin) => this.squadServer.warn(admin.eosID, message)));
+  }
+
+  // ─── Loading ──────────────────────────────────────────────────────
+
+  private async refreshState(state: SubscriptionState): Promise<void> {
+    const { subscription } = state;
+
+    try {
+      const { content, headers } = await loadListSource(subscription, `ban list "${subscription.name}"`);
+
+      if (subscription.secret !== undefined) {
+        const signature = headers?.get(BAN_LIST_SIGNATURE_HEADER) ?? null;
+        if (!verifyBanListSignature(content, signature, subscription.secret)) {
+          throw new Error('signature is missing or invalid');
+        }
+      }
+
+      state.entries = new Map(parseBansCfg(content).map((entry) => [entry.playerId, entry]));
+      this.logger?.debug(`Loaded ${state.entries.size} ban(s) from ban list "${subscription.name}"`);
+    } catch (error) {
+      this.logger?.warn(
+        `Failed to refresh ban list "${subscription.name}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
@@ -15,7 +15,9 @@ import type {
   TeamID,
   SquadID,
   SquadEventMap,
+  CustomLogRuleDefinition,
 } from '@squadscript/types';
+import type { QueueConfig } from '@squadscript/rcon';
 
 // =============================================================================
 // Server State Enums
@@ -87,6 +89,9 @@ export interface SquadServerOptions {
     readonly host: string;
     readonly port: number;
     readonly password: string;
+
+    /** Command queue settings (defaults: 20/s, burst 10, 4 in flight). */
+    readonly queue?: QueueConfig | undefined;
   };
 
   /** Log reader configuration. */
@@ -98,6 +103,15 @@ export interface SquadServerOptions {
     readonly port?: number | undefined;
     readonly user?: string | undefined;
     readonly password?: string | undefined;
+    /** Resume from the last read position after a restart. */
+    readonly checkpoint?: {
+      /** Path of the JSON file the read position is saved to. */
+      readonly file: string;
+      /** Oldest checkpoint still resumed from (ms, default: 15 minutes). */
+      readonly maxCatchUpAge?: number | undefined;
+      /** Largest backlog read on resume (bytes, default: 32 MiB). */
+      readonly maxCatchUpBytes?: number | undefined;
+    } | undefined;
   };
 
   /** Admin list sources. */
@@ -108,6 +122,19 @@ export interface SquadServerOptions {
 
   /** Layer history maximum size (default: 20). */
   readonly layerHistorySize?: number | undefined;
+
+  /** Custom log parsing rules, emitted as CUSTOM_LOG_EVENT. */
+  readonly logRules?: readonly CustomLogRuleDefinition[] | undefined;
+
+  /** Chat command settings. */
+  readonly chatCommands?: {
+    /** Prefixes that start a command (default: ['!']). */
+    readonly prefixes?: readonly string[] | undefined;
+    /** Register the built-in help command (default: true). */
+    readonly help?: boolean | undefined;
+    /** Suggest close matches for unknown commands (default: true). */
+    readonly suggestions?: boolean | undefined;
+  } | undefined;
 }
 
 /**
@@ -180,6 +207,54 @@ export interface PlayerLeaderChangeEvent {
   readonly time: Date;
 }
 
+// =============================================================================
+// Server Info Events
+// =============================================================================
+
+/**
+ * Emitted when a ShowServerInfo poll returns something new.
+ */
+export interface ServerInfoUpdatedEvent {
+  /** The new server info. */
+  readonly info: ServerInfo;
+  /** The previous server info (null on the first poll). */
+  readonly previous: ServerInfo | null;
+  /** Timestamp of the change. */
+  readonly time: Date;
+}
+
+/**
+ * Emitted when the public or reserved queue length changes.
+ */
+export interface QueueChangeEvent {
+  /** Players in the public queue. */
+  readonly publicQueue: number;
+  /** Players in the reserved queue. */
+  readonly reserveQueue: number;
+  /** Previous public queue length. */
+  readonly oldPublicQueue: number;
+  /** Previous reserved queue length. */
+  readonly oldReserveQueue: number;
+  /** Timestamp of the change. */
+  readonly time: Date;
+}
+
+/**
+ * Emitted when the team factions change, usually on a new layer.
+ */
+export interface TeamFactionsChangeEvent {
+  /** Team 1 faction. */
+  readonly teamOne: string | null;
+  /** Team 2 faction. */
+  readonly teamTwo: string | null;
+  /** Previous team 1 faction. */
+  readonly oldTeamOne: string | null;
+  /** Previous team 2 faction. */
+  readonly oldTeamTwo: string | null;
+  /** Timestamp of the change. */
+  readonly time: Date;
+}
+
 // =============================================================================
 // Server Lifecycle Events
 // =============================================================================
@@ -248,6 +323,11 @@ export interface ServerEventExtensions {
   PLAYER_ROLE_CHANGE: PlayerRoleChangeEvent;
   PLAYER_LEADER_CHANGE: PlayerLeaderChangeEvent;
 
+  // Server info events
+  SERVER_INFO_UPDATED: ServerInfoUpdatedEvent;
+  QUEUE_CHANGE: QueueChangeEvent;
+  TEAM_FACTIONS_CHANGE: TeamFactionsChangeEvent;
+
   // Lifecycle events
   SERVER_STARTING: ServerStartingEvent;
   SERVER_READY: ServerReadyEvent;
@@ -270,6 +350,9 @@ export const ServerEventType = {
   PLAYER_SQUAD_CHANGE: 'PLAYER_SQUAD_CHANGE',
   PLAYER_ROLE_CHANGE: 'PLAYER_ROLE_CHANGE',
   PLAYER_LEADER_CHANGE: 'PLAYER_LEADER_CHANGE',
+  SERVER_INFO_UPDATED: 'SERVER_INFO_UPDATED',
+  QUEUE_CHANGE: 'QUEUE_CHANGE',
+  TEAM_FACTIONS_CHANGE: 'TEAM_FACTIONS_CHANGE',
   SERVER_STARTING: 'SERVER_STARTING',
   SERVER_READY: 'SERVER_READY',
   SERVER_STOPPING: 'SERVER_STOPPING',
@@ -331,14 +414,30 @@ export interface ServerInfo {
   readonly publicQueue: number;
   /** Number in reserved queue. */
   readonly reserveQueue: number;
+  /** Maximum length of the public queue. */
+  readonly publicQueueLimit: number;
+  /** Slots kept for reserved players. */
+  readonly reserveSlots: number;
   /** Current layer name. */
-  readonly currentLayer: string;
-  /** Next layer name. */
-  readonly nextLayer: string;
+  readonly currentLayer: string | null;
+  /** Next layer name (null if it will be voted). */
+  readonly nextLayer: string | null;
   /** Team 1 faction. */
-  readonly teamOne: string;
+  readonly teamOne: string | null;
   /** Team 2 faction. */
-  readonly teamTwo: string;
+  readonly teamTwo: string | null;
+  /** Game mode (e.g., "RAAS"). */
+  readonly gameMode: string | null;
+  /** Game version string. */
+  readonly gameVersion: string | null;
+  /** Whether the server is a licensed (official) server. */
+  readonly licensed: boolean;
+  /** Seconds the current match has been running. */
+  readonly playTime: number;
+  /** Match time limit in seconds (null if unknown). */
+  readonly matchTimeout: number | null;
+  /** When the info was fetched. */
+  readonly updatedAt: Date;
 }
 
 // =============================================================================
@@ -6,6 +6,13 @@ declare module '@squadscript/config' {
       host: string;
       port: number;
       password: string;
+      queue?: {
+        rate?: number;
+        burst?: number;
+        maxInFlight?: number;
+        maxQueueSize?: number;
+        coalesce?: boolean;
+      };
     };
     logReader: {
       mode: 'tail' | 'ftp' | 'sftp';
@@ -17,15 +24,65 @@ declare module '@squadscript/config' {
         username: string;
         password: string;
       };
+      checkpoint?: {
+        file: string;
+        maxCatchUpAge?: number;
+        maxCatchUpBytes?: number;
+      };
     };
     adminLists?: Array<{
       type: 'local' | 'remote' | 'ftp';
       source: string;
     }>;
+    bansFile?: string;
+    banLists?: Array<{
+      name: string;
+      type: 'local' | 'remote';
+      source: string;
+      refreshInterval?: number;
+      action: 'kick' | 'alert' | 'log';
+      kickReason?: string;
+      secret?: string;
+    }>;
+    logRules?: Array<{
+      name: string;
+      event: string;
+      pattern: string;
+      prefix?: boolean;
+      fields?: Record<string, number | string | {
+        group: number | string;
+        type?: 'string' | 'number' | 'boolean';
+      }>;
+    }>;
+    chatCommands?: {
+      prefixes?: string[];
+      help?: boolean;
+      suggestions?: boolean;
+    };
+    connectors?: Record<string, { type: string; [key: string]: unknown }>;
+    plugins?: Array<{
+      plugin: string;
+      enabled: boolean;
+      options?: Record<string, unknown>;
+      connectors?: Record<string, string>;
+      budget?: PluginBudgetConfig;
+    }>;
+    pluginBudget?: PluginBudgetConfig;
+  }
+
+  export interface PluginBudgetConfig {
+    maxHandlerDuration?: number;
+    maxBlockingDuration?: number;
+    maxConcurrency?: number;
+    maxQueueSize?: number;
+    maxQueueDelay?: number;
+    maxTimers?: number;
+    maxMemory?: number;
   }
 
   export interface RootConfig {
     servers: ServerConfig[];
+    connectors?: Record<string, { type: string; [key: string]: unknown }>;
   }
 
   export class ConfigLoader {
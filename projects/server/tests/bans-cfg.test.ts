@@ -0,0 +1,95 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for Bans.cfg parsing and ban interval helpers.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  parseBansCfg,
+  serializeBansCfg,
+  parseBanInterval,
+  formatBanInterval,
+} from '../src/services/bans-cfg';
+
+const EOS_ID = '0002a10186d9414496bf20d22d3860ba';
+
+describe('parseBansCfg', () => {
+  it('should parse bans with and without an admin prefix', () => {
+    const entries = parseBansCfg([
+      'Admin Bob [SteamID 76561198000000001] Banned:76561198000000002:1767225600 //Teamkilling',
+      `Banned:${EOS_ID}:0`,
+      `Ann [EOSID ${EOS_ID}] Banned:76561198000000003:0 // Cheating `,
+    ].join('\r\n'));
+
+    expect(entries).toEqual([
+      {
+        adminName: 'Admin Bob',
+        adminId: '76561198000000001',
+        playerId: '76561198000000002',
+        expiresAt: new Date('2026-01-01T00:00:00Z'),
+        reason: 'Teamkilling',
+      },
+      { adminName: null, adminId: null, playerId: EOS_ID, expiresAt: null, reason: '' },
+      {
+        adminName: 'Ann',
+        adminId: EOS_ID,
+        playerId: '76561198000000003',
+        expiresAt: null,
+        reason: 'Cheating',
+      },
+    ]);
+  });
+
+  it('should skip blank lines, comments and malformed lines', () => {
+    const entries = parseBansCfg('\n// header\nnot a ban\nBanned:76561198000000002:0\n');
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.playerId).toBe('76561198000000002');
+  });
+});
+
+describe('serializeBansCfg', () => {
+  it('should round-trip entries', () => {
+    const content = [
+      'Bob [SteamID 76561198000000001] Banned:76561198000000002:1767225600 //Teamkilling',
+      `Banned:${EOS_ID}:0`,
+      '',
+    ].join('\n');
+
+    expect(serializeBansCfg(parseBansCfg(content))).toBe(content);
+  });
+
+  it('should omit the admin prefix without an admin ID and flatten reasons', () => {
+    expect(serializeBansCfg([{
+      adminName: 'Dashboard admin',
+      adminId: null,
+      playerId: EOS_ID,
+      expiresAt: null,
+      reason: 'line one\nline two',
+    }])).toBe(`Banned:${EOS_ID}:0 //line one line two\n`);
+  });
+
+  it('should write an empty file for no bans', () => {
+    expect(serializeBansCfg([])).toBe('');
+  });
+});
+
+describe('ban intervals', () => {
+  it('should parse Squad intervals to seconds', () => {
+    expect(parseBanInterval('0')).toBe(0);
+    expect(parseBanInterval('30m')).toBe(1800);
+    expect(parseBanInterval('12h')).toBe(43200);
+    expect(parseBanInterval('1d')).toBe(86400);
+    expect(parseBanInterval('2w')).toBe(1209600);
+    expect(parseBanInterval('1M')).toBe(2592000);
+    expect(parseBanInterval('permanent')).toBe(0);
+  });
+
+  it('should format seconds as the largest whole unit', () => {
+    expect(formatBanInterval(0)).toBe('0');
+    expect(formatBanInterval(172800)).toBe('2d');
+    expect(formatBanInterval(7200)).toBe('2h');
+    expect(formatBanInterval(90)).toBe('2m');
+  });
+});
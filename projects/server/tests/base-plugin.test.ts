@@ -82,6 +82,23 @@ function createMockContext(): SquadPluginContext {
       warn: mock(() => {}),
       error: mock(() => {}),
     },
+    profiles: {
+      get: mock(async () => null),
+      getBySteamID: mock(async () => null),
+    },
+    bans: {
+      ban: mock(async () => {}),
+    },
+    storage: {
+      get: mock(async () => undefined),
+      set: mock(async () => {}),
+      delete: mock(async () => false),
+      list: mock(async () => []),
+      increment: mock(async () => 1),
+    },
+    logRules: {
+      register: mock(() => () => {}),
+    },
     getConnector: <T>() => undefined as T | undefined,
   };
 }
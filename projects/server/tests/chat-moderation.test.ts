@@ -0,0 +1,212 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for the ChatModeration plugin's commands, run through the
+ * plugin manager and the command registry.
+ */
+
+import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { Logger, LogLevel } from '@squadscript/logger';
+import {
+  createEmptyPlayer,
+  parseChatCommand,
+  type ChatCommandEvent,
+  type EOSID,
+  type Player,
+  type PlayerID,
+  type PluginAuditEntry,
+  type PluginRconExecutor,
+  type ServerStateReader,
+  type SteamID,
+} from '@squadscript/types';
+import { BasePlugin } from '../src/plugins/base-plugin';
+import { PluginManager, type PluginServerInterface } from '../src/plugins/manager';
+import { CommandRegistry } from '../src/commands/registry';
+import { formatBanInterval } from '../src/services/bans-cfg';
+
+// Built-in plugins import the server package, which is only built for releases
+mock.module('@squadscript/server', () => ({ BasePlugin, formatBanInterval }));
+const { ChatModeration } = await import('../../plugins/src/chat-moderation');
+
+function player(playerID: number, name: string): Player {
+  return {
+    ...createEmptyPlayer(`0002a10186d9414496bf20d22d3860${String(playerID).padStart(2, '0')}` as EOSID, name),
+    playerID: playerID as PlayerID,
+    steamID: `765611980000000${String(playerID).padStart(2, '0')}` as SteamID,
+  };
+}
+
+const ADMIN = player(1, 'Admin');
+const ALICE = player(2, 'Alice');
+const ALINA = player(3, 'Alina');
+const BOB = player(4, 'Bob');
+const PLAYERS = [ADMIN, ALICE, ALINA, BOB];
+
+function createState(): ServerStateReader {
+  const byName = (name: string) => PLAYERS.filter((p) => p.name.toLowerCase().includes(name.toLowerCase()));
+  return {
+    players: new Map(PLAYERS.map((p) => [p.eosID, p])),
+    squads: new Map(),
+    currentLayer: null,
+    nextLayer: null,
+    playerCount: PLAYERS.length,
+    serverInfo: null,
+    getPlayerByEOSID: (eosID) => PLAYERS.find((p) => p.eosID === eosID),
+    getPlayerBySteamID: (steamID) => PLAYERS.find((p) => p.steamID === steamID),
+    getPlayerByID: (id) => PLAYERS.find((p) => p.playerID === id),
+    getPlayersByName: byName,
+    getSquadsByTeam: () => [],
+  };
+}
+
+/** RCON executor that records every call as `[method, ...args]`. */
+function createRcon(calls: unknown[][]): PluginRconExecutor {
+  return new Proxy({} as PluginRconExecutor, {
+    get: (_target, method) => async (...args: unknown[]) => {
+      calls.push([method, ...args]);
+    },
+  });
+}
+
+function command(from: Player, message: string): ChatCommandEvent {
+  const parsed = parseChatCommand(message, ['!']);
+  if (!parsed) throw new Error(`Not a command: ${message}`);
+  return { time: new Date(), raw: message, player: from, channel: 'ChatAdmin', message, ...parsed };
+}
+
+describe('ChatModeration', () => {
+  let registry: CommandRegistry;
+  let manager: PluginManager;
+  let replies: string[];
+  let rconCalls: unknown[][];
+  let bans: unknown[][];
+  let audit: PluginAuditEntry[];
+
+  beforeEach(async () => {
+    replies = [];
+    rconCalls = [];
+    bans = [];
+    audit = [];
+
+    const logger = new Logger({ defaultLevel: LogLevel.ERROR });
+    registry = new CommandRegistry({
+      logger: logger.child('commands'),
+      sources: { players: () => PLAYERS, layers: async () => [] },
+      hasPermission: (p) => p === ADMIN,
+      reply: async (_p, message) => {
+        replies.push(message);
+      },
+    });
+
+    const server: PluginServerInterface = {
+      events: {
+        on: () => {},
+        once: () => {},
+        off: () => {},
+        waitFor: () => new Promise(() => {}),
+        emit: () => {},
+      },
+      rcon: createRcon(rconCalls),
+      state: createState(),
+      commands: {
+        register: (definition, owner) => {
+          const result = registry.register(definition, owner);
+          if (!result.ok) throw result.error;
+          return result.value;
+        },
+      },
+    };
+
+    manager = new PluginManager({
+      logger,
+      server,
+      plugins: [{ plugin: ChatModeration, enabled: true }],
+      bans: {
+        ban: async (...args) => {
+          bans.push(args);
+        },
+      },
+      audit: {
+        forPlugin: () => ({
+          record: async (entry) => {
+            audit.push(entry);
+          },
+        }),
+      },
+    });
+    await manager.loadAll();
+    await manager.mountAll();
+  });
+
+  afterEach(async () => {
+    await manager.unmountAll();
+  });
+
+  it('should ban through the ban list and audit the admin', async () => {
+    await registry.handle(command(ADMIN, '!tempban bob 2h Teamkilling after warnings'));
+
+    expect(bans).toEqual([[BOB, 7200, 'Teamkilling after warnings', ADMIN]]);
+    expect(rconCalls).toEqual([]);
+    expect(audit).toEqual([{
+      action: 'ban',
+      actor: ADMIN,
+      target: BOB.eosID,
+      details: { name: 'Bob', duration: 7200, reason: 'Teamkilling after warnings' },
+    }]);
+    expect(replies).toEqual(['Banned Bob (2h).']);
+  });
+
+  it('should refuse permanent bans', async () => {
+    await registry.handle(command(ADMIN, '!tempban bob perm Cheating'));
+
+    expect(bans).toEqual([]);
+    expect(audit).toEqual([]);
+    expect(replies).toEqual(['Give a duration such as 30m, 2h or 1d. Permanent bans are issued from the dashboard.']);
+  });
+
+  it('should refuse players without the permission', async () => {
+    await registry.handle(command(ALICE, '!kick bob'));
+
+    expect(rconCalls).toEqual([]);
+    expect(replies).toEqual(['You do not have permission to use !kick.']);
+  });
+
+  it('should act straight away on a single match', async () => {
+    await registry.handle(command(ADMIN, '!warn bob Stop teamkilling'));
+
+    expect(rconCalls).toEqual([['warn', BOB.eosID, 'Stop teamkilling']]);
+    expect(replies).toEqual(['Warned Bob.']);
+  });
+
+  it('should list ambiguous matches and run the one picked with !confirm', async () => {
+    await registry.handle(command(ADMIN, '!kick ali Spamming'));
+
+    expect(rconCalls).toEqual([]);
+    expect(replies).toEqual(['2 matches:\n1) Alice\n2) Alina\nType !confirm <number> within 30s.']);
+
+    await registry.handle(command(ADMIN, '!confirm 3'));
+    expect(replies.at(-1)).toBe('Pick a number from 1 to 2.');
+
+    await registry.handle(command(ADMIN, '!confirm 2'));
+    expect(rconCalls).toEqual([['kick', ALINA.eosID, 'Spamming']]);
+    expect(replies.at(-1)).toBe('Kicked Alina.');
+
+    await registry.handle(command(ADMIN, '!confirm 1'));
+    expect(rconCalls).toHaveLength(1);
+    expect(replies.at(-1)).toBe('Nothing to confirm.');
+  });
+
+  it('should prefer an exact name over partial matches', async () => {
+    await registry.handle(command(ADMIN, '!switch alice'));
+
+    expect(rconCalls).toEqual([['forceTeamChange', ALICE.eosID]]);
+    expect(replies).toEqual(['Switched Alice.']);
+  });
+
+  it('should say when nobody matches', async () => {
+    await registry.handle(command(ADMIN, '!warn carol Hello'));
+
+    expect(rconCalls).toEqual([]);
+    expect(replies).toEqual(['No player matches "carol".']);
+  });
+});
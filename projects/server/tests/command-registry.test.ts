@@ -0,0 +1,233 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for the chat command registry and argument parsing.
+ */
+
+import { describe, expect, it, beforeEach } from 'bun:test';
+import { Logger, LogLevel } from '@squadscript/logger';
+import type { ChatChannel, ChatCommandEvent, Player } from '@squadscript/types';
+import { parseChatCommand } from '@squadscript/types';
+import { CommandRegistry } from '../src/commands/registry';
+import { parseArguments, parseDuration, suggest, type ArgumentSources } from '../src/commands/arguments';
+
+function player(playerID: number, name: string): Player {
+  return {
+    playerID,
+    eosID: `0002a10186d9414496bf20d22d3860${String(playerID).padStart(2, '0')}`,
+    steamID: `765611980000000${String(playerID).padStart(2, '0')}`,
+    name,
+    teamID: 1,
+    squadID: null,
+    isSquadLeader: false,
+    role: null,
+    controller: null,
+    suffix: null,
+  } as unknown as Player;
+}
+
+const ADMIN = player(1, 'Admin');
+const ALICE = player(2, 'Alice');
+const ALINA = player(3, 'Alina');
+const BOB = player(4, 'Bob');
+
+const sources: ArgumentSources = {
+  players: () => [ADMIN, ALICE, ALINA, BOB],
+  layers: async () => ['Gorodok_RAAS_v1', 'Narva_RAAS_v1', 'Narva_AAS_v1'],
+};
+
+function command(from: Player, message: string, channel: ChatChannel = 'ChatAll'): ChatCommandEvent {
+  const parsed = parseChatCommand(message, ['!']);
+  if (!parsed) throw new Error(`Not a command: ${message}`);
+  return { time: new Date(), raw: message, player: from, channel, message, ...parsed };
+}
+
+describe('parseDuration', () => {
+  it('should parse units, combinations and permanent', () => {
+    expect(parseDuration('30m')).toBe(30 * 60_000);
+    expect(parseDuration('1d12h')).toBe(36 * 3_600_000);
+    expect(parseDuration('15')).toBe(15 * 60_000);
+    expect(parseDuration('perm')).toBe(0);
+    expect(parseDuration('soon')).toBeNull();
+    expect(parseDuration('0m')).toBeNull();
+  });
+});
+
+describe('suggest', () => {
+  it('should return close and prefix matches first', () => {
+    expect(suggest('warm', ['warn', 'kick', 'help'])).toEqual(['warn']);
+    expect(suggest('ki', ['kick', 'kill', 'help'])).toEqual(['kick', 'kill']);
+    expect(suggest('xyz', ['kick'])).toEqual([]);
+  });
+});
+
+describe('parseArguments', () => {
+  const spec = {
+    target: { type: 'player' },
+    duration: { type: 'duration' },
+    reason: { type: 'text', required: false },
+  } as const;
+
+  it('should parse typed arguments in order', async () => {
+    const result = await parseArguments(spec, 'bob 2h spamming in chat', sources);
+    expect(result).toEqual({ ok: true, value: { target: BOB, duration: 7_200_000, reason: 'spamming in chat' } });
+  });
+
+  it('should match players by ID and exact name before partial name', async () => {
+    expect(await parseArguments({ target: { type: 'player' } }, '#3', sources)).toMatchObject({ value: { target: ALINA } });
+    expect(await parseArguments({ target: { type: 'player' } }, ALICE.eosID, sources)).toMatchObject({ value: { target: ALICE } });
+    expect(await parseArguments({ target: { type: 'player' } }, 'alice', sources)).toMatchObject({ value: { target: ALICE } });
+  });
+
+  it('should explain ambiguous and missing values', async () => {
+    expect(await parseArguments(spec, 'ali 2h', sources)).toEqual({ ok: false, error: '"ali" matches Alice, Alina.' });
+    expect(await parseArguments(spec, 'carl 2h', sources)).toEqual({ ok: false, error: 'No player matches "carl".' });
+    expect(await parseArguments(spec, 'bob', sources)).toEqual({ ok: false, error: 'Missing <duration>.' });
+    expect(await parseArguments(spec, 'bob later', sources)).toMatchObject({ ok: false });
+  });
+
+  it('should resolve layers by partial name', async () => {
+    const layer = { layer: { type: 'layer' } } as const;
+    expect(await parseArguments(layer, 'gorodok', sources)).toEqual({ ok: true, value: { layer: 'Gorodok_RAAS_v1' } });
+    expect(await parseArguments(layer, 'narva_raas_v1', sources)).toEqual({ ok: true, value: { layer: 'Narva_RAAS_v1' } });
+    expect(await parseArguments(layer, 'narva', sources)).toMatchObject({ ok: false });
+  });
+
+  it('should group quoted words', async () => {
+    const result = await parseArguments({ name: { type: 'string' }, rest: { type: 'text' } }, '"Squad One" is full', sources);
+    expect(result).toEqual({ ok: true, value: { name: 'Squad One', rest: 'is full' } });
+  });
+});
+
+describe('CommandRegistry', () => {
+  let replies: { to: string; message: string }[];
+  let registry: CommandRegistry;
+
+  beforeEach(() => {
+    replies = [];
+    registry = new CommandRegistry({
+      logger: new Logger({ defaultLevel: LogLevel.ERROR }).child('commands'),
+      sources,
+      hasPermission: (p, permission) => p === ADMIN && permission === 'kick',
+      reply: async (p, message) => {
+        replies.push({ to: p.name, message });
+      },
+    });
+  });
+
+  it('should run commands by name or alias with parsed arguments', async () => {
+    const calls: unknown[] = [];
+    registry.register({
+      name: 'Slap',
+      aliases: ['smack'],
+      args: { target: { type: 'player' } },
+      handler: async ({ args, command: name, reply }) => {
+        calls.push([name, args.target.name]);
+        await reply('done');
+      },
+    });
+
+    expect(await registry.handle(command(ALICE, '!slap bob'))).toBe(true);
+    expect(await registry.handle(command(ALICE, '!SMACK bob'))).toBe(true);
+
+    expect(calls).toEqual([['slap', 'Bob'], ['slap', 'Bob']]);
+    expect(replies).toEqual([{ to: 'Alice', message: 'done' }, { to: 'Alice', message: 'done' }]);
+  });
+
+  it('should reject names that are taken', () => {
+    registry.register({ name: 'kick', handler: () => {} }, 'First');
+
+    const result = registry.register({ name: 'boot', aliases: ['KICK'], handler: () => {} }, 'Second');
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.message).toContain('already registered by First');
+    expect(registry.list().map((c) => c.definition.name)).toEqual(['help', 'kick']);
+  });
+
+  it('should check permissions and channels', async () => {
+    let runs = 0;
+    registry.register({ name: 'kick', permission: 'kick', channels: ['ChatAdmin'], handler: () => { runs++; } });
+
+    expect(await registry.handle(command(ADMIN, '!kick', 'ChatAll'))).toBe(false);
+    expect(await registry.handle(command(ALICE, '!kick', 'ChatAdmin'))).toBe(true);
+    expect(await registry.handle(command(ADMIN, '!kick', 'ChatAdmin'))).toBe(true);
+
+    expect(runs).toBe(1);
+    expect(replies).toEqual([{ to: 'Alice', message: 'You do not have permission to use !kick.' }]);
+  });
+
+  it('should enforce cooldowns per player', async () => {
+    let runs = 0;
+    registry.register({ name: 'report', cooldown: 60_000, handler: () => { runs++; } });
+
+    await registry.handle(command(ALICE, '!report'));
+    await registry.handle(command(ALICE, '!report'));
+    await registry.handle(command(BOB, '!report'));
+
+    expect(runs).toBe(2);
+    expect(replies).toEqual([{ to: 'Alice', message: 'Please wait 60s before using !report again.' }]);
+  });
+
+  it('should reply with usage when arguments are invalid', async () => {
+    registry.register({
+      name: 'ban',
+      args: { target: { type: 'player' }, duration: { type: 'duration' }, reason: { type: 'text' } },
+      handler: () => {},
+    });
+
+    await registry.handle(command(ADMIN, '!ban bob'));
+
+    expect(replies[0]?.message).toBe('Missing <duration>. Usage: !ban <target> <duration> <reason>');
+  });
+
+  it('should tell the player when a handler fails', async () => {
+    registry.register({ name: 'broken', handler: () => { throw new Error('boom'); } });
+
+    expect(await registry.handle(command(ALICE, '!broken'))).toBe(true);
+    expect(replies).toEqual([{ to: 'Alice', message: '!broken failed. Please try again later.' }]);
+  });
+
+  it('should suggest commands the caller may run', async () => {
+    registry.register({ name: 'kick', permission: 'kick', handler: () => {} });
+    registry.register({ name: 'kit', handler: () => {} });
+
+    expect(await registry.handle(command(ALICE, '!kik'))).toBe(false);
+    await registry.handle(command(ADMIN, '!kik'));
+    await registry.handle(command(ALICE, '!unrelated'));
+
+    expect(replies).toEqual([
+      { to: 'Alice', message: 'Unknown command !kik. Did you mean !kit?' },
+      { to: 'Admin', message: 'Unknown command !kik. Did you mean !kick, !kit?' },
+    ]);
+  });
+
+  it('should list only permitted commands in help', async () => {
+    registry.register({ name: 'kick', permission: 'kick', description: 'Kick a player', args: { target: { type: 'player' } }, handler: () => {} });
+    registry.register({ name: 'rules', aliases: ['r'], description: 'Show the rules', handler: () => {} });
+
+    await registry.handle(command(ALICE, '!help'));
+    await registry.handle(command(ADMIN, '!help'));
+    await registry.handle(command(ALICE, '!help kick'));
+    await registry.handle(command(ALICE, '!help rules'));
+
+    expect(replies.map((r) => r.message)).toEqual([
+      'Commands: !help, !rules',
+      'Commands: !help, !kick, !rules',
+      'Unknown command !kick.',
+      '!rules\nShow the rules\nAliases: !r',
+    ]);
+  });
+
+  it('should stop running a command once removed', async () => {
+    let runs = 0;
+    const result = registry.register({ name: 'once', handler: () => { runs++; } });
+    if (!result.ok) throw result.error;
+
+    await registry.handle(command(ALICE, '!once'));
+    result.value();
+    await registry.handle(command(ALICE, '!once'));
+
+    expect(runs).toBe(1);
+    expect(registry.register({ name: 'once', handler: () => {} }).ok).toBe(true);
+  });
+});
@@ -4,23 +4,14 @@
  * Unit tests for ConnectorRegistry.
  */
 
-import { describe, expect, it, beforeEach, afterEach, mock } from 'bun:test';
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import { Logger, type ModuleLogger } from '@squadscript/logger';
 import { ConnectorRegistry, type ConnectorFactory } from '../src/plugins/connector-registry';
 import type { Connector, ConnectorConfig } from '@squadscript/types/plugin';
 
-// Create mock logger
-function createMockLogger() {
-  return {
-    trace: mock(() => {}),
-    debug: mock(() => {}),
-    verbose: mock(() => {}),
-    info: mock(() => {}),
-    warn: mock(() => {}),
-    error: mock(() => {}),
-    log: mock(() => {}),
-    isEnabled: mock(() => true),
-    child: mock(function(this: ReturnType<typeof createMockLogger>) { return this; }),
-  };
+// Create a logger that writes nowhere
+function createLogger(): ModuleLogger {
+  return new Logger({ transports: [] }).child('connectors');
 }
 
 // Mock connector implementation
@@ -56,11 +47,11 @@ const createMockConnector: ConnectorFactory<MockConnector> = async (config, logg
 
 describe('ConnectorRegistry', () => {
   let registry: ConnectorRegistry;
-  let mockLogger: ReturnType<typeof createMockLogger>;
+  let logger: ModuleLogger;
 
   beforeEach(() => {
-    mockLogger = createMockLogger();
-    registry = new ConnectorRegistry({ logger: mockLogger as any });
+    logger = createLogger();
+    registry = new ConnectorRegistry({ logger });
   });
 
   afterEach(async () => {
@@ -78,10 +69,11 @@ describe('ConnectorRegistry', () => {
     });
 
     it('should warn when overwriting factory', () => {
+      const warn = spyOn(logger, 'warn');
       registry.registerFactory('mock', createMockConnector);
       registry.registerFactory('mock', createMockConnector);
 
-      expect(mockLogger.warn).toHaveBeenCalled();
+      expect(warn).toHaveBeenCalled();
     });
   });
 
@@ -349,4 +341,36 @@ describe('ConnectorRegistry', () => {
       await expect(registry.remove('unknown')).resolves.toBeUndefined();
     });
   });
+
+  describe('parent registry', () => {
+    it('should fall back to the parent for unknown connectors', async () => {
+      registry.register('shared', new MockConnector('shared'));
+      const child = new ConnectorRegistry({ logger, parent: registry });
+
+      expect(child.has('shared')).toBe(true);
+      expect(child.getSync<MockConnector>('shared')?.name).toBe('shared');
+      expect((await child.get<MockConnector>('shared'))?.name).toBe('shared');
+      expect(child.names).toEqual([]);
+    });
+
+    it('should prefer local connectors over the parent', () => {
+      registry.register('discord', new MockConnector('global'));
+      const child = new ConnectorRegistry({ logger, parent: registry });
+      child.register('discord', new MockConnector('local'));
+
+      expect(child.getSync<MockConnector>('discord')?.name).toBe('local');
+    });
+
+    it('should not disconnect parent connectors', async () => {
+      const shared = new MockConnector('shared');
+      await shared.connect();
+      registry.register('shared', shared);
+      const child = new ConnectorRegistry({ logger, parent: registry });
+
+      await child.disconnectAll();
+
+      expect(shared.disconnectCalled).toBe(false);
+      expect(child.isConnected('shared')).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,194 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for the built-in database connectors and connector migrations.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { Logger, type ModuleLogger } from '@squadscript/logger';
+import { SqliteConnector, createSqliteConnector } from '../src/connectors/database/sqlite';
+import { toPostgresPlaceholders } from '../src/connectors/database/postgres';
+import { runConnectorMigrations, type ConnectorMigration } from '../src/connectors/database/migrations';
+
+// Create a logger that writes nowhere
+function createLogger(): ModuleLogger {
+  return new Logger({ transports: [] }).child('connectors');
+}
+
+describe('SqliteConnector', () => {
+  let db: SqliteConnector;
+
+  beforeEach(async () => {
+    db = new SqliteConnector('database', { path: ':memory:' }, createLogger());
+    await db.connect();
+    await db.query('CREATE TABLE players (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, seen TEXT, admin INTEGER)');
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('should report its dialect and connection state', async () => {
+    expect(db.dialect).toBe('sqlite');
+    expect(db.isConnected).toBe(true);
+    await db.disconnect();
+    expect(db.isConnected).toBe(false);
+  });
+
+  it('should bind positional parameters and normalize values', async () => {
+    const seen = new Date('2026-01-01T00:00:00.000Z');
+    const insert = await db.query('INSERT INTO players (name, seen, admin) VALUES (?, ?, ?)', ['Bob', seen, true]);
+
+    expect(insert.affectedRows).toBe(1);
+    expect(insert.rows).toEqual([]);
+
+    const row = await db.queryOne<{ name: string; seen: string; admin: number }>(
+      'SELECT name, seen, admin FROM players WHERE name = ?',
+      ['Bob'],
+    );
+    expect(row).toEqual({ name: 'Bob', seen: '2026-01-01T00:00:00.000Z', admin: 1 });
+  });
+
+  it('should return rows from RETURNING clauses', async () => {
+    const row = await db.queryOne<{ id: number }>(
+      'INSERT INTO players (name) VALUES (?) RETURNING id',
+      ['Alice'],
+    );
+    expect(row).toEqual({ id: 1 });
+  });
+
+  it('should return undefined when queryOne finds nothing', async () => {
+    expect(await db.queryOne('SELECT * FROM players WHERE id = ?', [42])).toBeUndefined();
+  });
+
+  it('should commit transactions', async () => {
+    const result = await db.transaction(async (tx) => {
+      await tx.query('INSERT INTO players (name) VALUES (?)', ['A']);
+      await tx.query('INSERT INTO players (name) VALUES (?)', ['B']);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect((await db.query('SELECT * FROM players')).rows).toHaveLength(2);
+  });
+
+  it('should roll back failed transactions', async () => {
+    await expect(db.transaction(async (tx) => {
+      await tx.query('INSERT INTO players (name) VALUES (?)', ['A']);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect((await db.query('SELECT * FROM players')).rows).toHaveLength(0);
+  });
+
+  it('should keep outside queries out of a running transaction', async () => {
+    let outside: Promise<unknown> | undefined;
+
+    await expect(db.transaction(async (tx) => {
+      await tx.query('INSERT INTO players (name) VALUES (?)', ['inside']);
+      outside = db.query('INSERT INTO players (name) VALUES (?)', ['outside']);
+      await Bun.sleep(10);
+      throw new Error('rollback');
+    })).rejects.toThrow('rollback');
+    await outside;
+
+    const rows = (await db.query<{ name: string }>('SELECT name FROM players')).rows;
+    expect(rows.map((row) => row.name)).toEqual(['outside']);
+  });
+
+  it('should require a path in the factory', async () => {
+    await expect(
+      createSqliteConnector({ type: 'sqlite', name: 'database', options: {} }, createLogger()),
+    ).rejects.toThrow('requires a database path');
+  });
+});
+
+describe('runConnectorMigrations', () => {
+  const migrations: ConnectorMigration[] = [
+    {
+      name: '001_initial',
+      up: {
+        sqlite: ['CREATE TABLE matches (id INTEGER PRIMARY KEY AUTOINCREMENT, layer TEXT)'],
+        postgres: ['CREATE TABLE matches (id SERIAL PRIMARY KEY, layer TEXT)'],
+      },
+    },
+    {
+      name: '002_winner',
+      up: {
+        sqlite: ['ALTER TABLE matches ADD COLUMN winner TEXT'],
+        postgres: ['ALTER TABLE matches ADD COLUMN winner TEXT'],
+      },
+    },
+  ];
+
+  let db: SqliteConnector;
+
+  beforeEach(async () => {
+    db = new SqliteConnector('database', { path: ':memory:' }, createLogger());
+    await db.connect();
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('should apply pending migrations once', async () => {
+    expect(await runConnectorMigrations(db, 'DBLog', migrations)).toBe(2);
+    expect(await runConnectorMigrations(db, 'DBLog', migrations)).toBe(0);
+
+    await db.query('INSERT INTO matches (layer, winner) VALUES (?, ?)', ['Narva', 'US']);
+    expect(await db.queryOne<{ layer: string; winner: string }>('SELECT layer, winner FROM matches')).toEqual({ layer: 'Narva', winner: 'US' });
+  });
+
+  it('should track migrations per namespace', async () => {
+    await runConnectorMigrations(db, 'DBLog', migrations.slice(0, 1));
+    expect(await runConnectorMigrations(db, 'DBLog', migrations)).toBe(1);
+
+    const rows = (await db.query<{ namespace: string; name: string }>(
+      'SELECT namespace, name FROM squadscript_migrations ORDER BY name',
+    )).rows;
+    expect(rows).toEqual([
+      { namespace: 'DBLog', name: '001_initial' },
+      { namespace: 'DBLog', name: '002_winner' },
+    ]);
+  });
+
+  it('should leave no partial schema when a migration fails', async () => {
+    const broken: ConnectorMigration[] = [{
+      name: '001_broken',
+      up: { sqlite: ['CREATE TABLE partial (id INTEGER)', 'NOT VALID SQL'] },
+    }];
+
+    await expect(runConnectorMigrations(db, 'Broken', broken)).rejects.toThrow();
+    await expect(db.query('SELECT * FROM partial')).rejects.toThrow();
+  });
+
+  it('should reject migrations without statements for the dialect', async () => {
+    const postgresOnly: ConnectorMigration[] = [{
+      name: '001_pg',
+      up: { postgres: ['CREATE TABLE x (id SERIAL)'] },
+    }];
+
+    await expect(runConnectorMigrations(db, 'PgOnly', postgresOnly)).rejects.toThrow('"sqlite" dialect');
+  });
+});
+
+describe('toPostgresPlaceholders', () => {
+  it('should number placeholders in order', () => {
+    expect(toPostgresPlaceholders('SELECT * FROM t WHERE a = ? AND b = ?')).toBe(
+      'SELECT * FROM t WHERE a = $1 AND b = $2',
+    );
+  });
+
+  it('should ignore question marks in literals, identifiers and comments', () => {
+    expect(toPostgresPlaceholders(`SELECT '?', "a?" FROM t -- what?\nWHERE x = ? /* ? */ AND y = ?`)).toBe(
+      `SELECT '?', "a?" FROM t -- what?\nWHERE x = $1 /* ? */ AND y = $2`,
+    );
+  });
+
+  it('should handle escaped quotes', () => {
+    expect(toPostgresPlaceholders(`SELECT 'it''s ?' WHERE id = ?`)).toBe(
+      `SELECT 'it''s ?' WHERE id = $1`,
+    );
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for the built-in Discord connector against the mock gateway/REST server.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { Logger, type ModuleLogger } from '@squadscript/logger';
+import { ConnectorRegistry } from '../src/plugins/connector-registry';
+import { DiscordClient, createDiscordConnector } from '../src/connectors/discord/connector';
+import { DiscordApiError } from '../src/connectors/discord/rest';
+import { MockDiscordServer } from '../src/connectors/discord/mock-server';
+import { registerBuiltinConnectors } from '../src/connectors';
+
+// Create a logger that writes nowhere
+function createLogger(): ModuleLogger {
+  return new Logger({ transports: [] }).child('connectors');
+}
+
+// Polls until the condition holds or the timeout expires
+async function waitUntil(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await Bun.sleep(10);
+  }
+}
+
+describe('DiscordClient', () => {
+  let server: MockDiscordServer;
+  let client: DiscordClient;
+
+  beforeEach(async () => {
+    server = new MockDiscordServer({
+      channels: [
+        { id: '300000000000000001', name: 'server-logs' },
+        { id: '300000000000000002', name: 'admin-chat' },
+      ],
+    });
+    await server.start();
+    client = new DiscordClient('discord', {
+      token: server.token,
+      ...server.urls,
+      readyTimeout: 2000,
+    }, createLogger());
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await server.stop();
+  });
+
+  it('should connect and cache guild channels', async () => {
+    await client.connect();
+
+    expect(client.isConnected).toBe(true);
+    expect(server.identifyCount).toBe(1);
+    await waitUntil(() => client.getChannel('300000000000000001') !== undefined);
+    expect(client.getChannel('300000000000000001')?.name).toBe('server-logs');
+    expect(client.getChannel('999')).toBeUndefined();
+  });
+
+  it('should track channels created after READY', async () => {
+    await client.connect();
+    server.addChannel({ id: '300000000000000003', name: 'kill-feed' });
+
+    await waitUntil(() => client.getChannel('300000000000000003') !== undefined);
+    expect(client.getChannel('300000000000000003')?.name).toBe('kill-feed');
+  });
+
+  it('should send plain and embed messages', async () => {
+    await client.connect();
+
+    await client.sendMessage('300000000000000001', 'Server started');
+    await client.sendMessage('300000000000000001', {
+      content: 'Round ended',
+      embed: { title: 'Winner', color: 0x00ff00, fields: [{ name: 'Team', value: 'US' }] },
+    });
+
+    expect(server.messages).toHaveLength(2);
+    expect(server.messages[0]!.body).toEqual({ content: 'Server started' });
+    expect(server.messages[1]!.body).toEqual({
+      content: 'Round ended',
+      embeds: [{ title: 'Winner', color: 0x00ff00, fields: [{ name: 'Team', value: 'US' }] }],
+    });
+  });
+
+  it('should retry after a rate limit', async () => {
+    await client.connect();
+    server.rateLimitNext(0.05);
+
+    await client.sendMessage('300000000000000001', 'Hello');
+
+    expect(server.messages).toHaveLength(1);
+  });
+
+  it('should surface API errors', async () => {
+    await client.connect();
+
+    const error = await client.sendMessage('123', 'Hello').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DiscordApiError);
+    expect((error as DiscordApiError).status).toBe(404);
+    expect((error as DiscordApiError).code).toBe(10003);
+  });
+
+  it('should deliver user messages and ignore its own', async () => {
+    await client.connect();
+    const received: string[] = [];
+    const unsubscribe = client.onMessage((message) => received.push(message.content));
+
+    server.emitMessage({
+      channelId: '300000000000000002',
+      authorId: server.botUserId,
+      authorName: 'SquadScript',
+      content: 'echo',
+    });
+    server.emitMessage({
+      channelId: '300000000000000002',
+      authorId: '400000000000000001',
+      authorName: 'Admin',
+      content: '!kick Bob',
+    });
+
+    await waitUntil(() => received.length > 0);
+    expect(received).toEqual(['!kick Bob']);
+
+    unsubscribe();
+    server.emitMessage({
+      channelId: '300000000000000002',
+      authorId: '400000000000000001',
+      authorName: 'Admin',
+      content: 'ignored',
+    });
+    await Bun.sleep(50);
+    expect(received).toEqual(['!kick Bob']);
+  });
+
+  it('should resume and replay missed events after a dropped connection', async () => {
+    await client.connect();
+    const received: string[] = [];
+    client.onMessage((message) => received.push(message.content));
+
+    server.dropConnection();
+    server.emitMessage({
+      channelId: '300000000000000002',
+      authorId: '400000000000000001',
+      authorName: 'Admin',
+      content: 'while offline',
+    });
+
+    await waitUntil(() => server.resumeCount === 1 && client.isConnected);
+    await waitUntil(() => received.length > 0);
+    expect(server.identifyCount).toBe(1);
+    expect(received).toEqual(['while offline']);
+  });
+
+  it('should reject connect on authentication failure', async () => {
+    const badClient = new DiscordClient('discord', {
+      token: 'wrong-token',
+      gatewayUrl: server.urls.gatewayUrl,
+      readyTimeout: 2000,
+    }, createLogger());
+
+    await expect(badClient.connect()).rejects.toThrow('4004');
+    expect(badClient.isConnected).toBe(false);
+  });
+});
+
+describe('createDiscordConnector', () => {
+  it('should require a token', async () => {
+    await expect(
+      createDiscordConnector({ type: 'discord', name: 'discord', options: {} }, createLogger()),
+    ).rejects.toThrow('requires a bot token');
+  });
+
+  it('should be registered as a built-in registry factory', async () => {
+    const server = new MockDiscordServer();
+    await server.start();
+
+    const registry = new ConnectorRegistry({ logger: createLogger() });
+    registerBuiltinConnectors(registry);
+    registry.add({
+      type: 'discord',
+      name: 'discord',
+      options: { token: server.token, apiBaseUrl: server.urls.apiBaseUrl },
+    });
+
+    try {
+      await registry.connectAll();
+      expect(registry.isConnected('discord')).toBe(true);
+    } finally {
+      await registry.disconnectAll();
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * @squadscript/server
+ *
+ * Unit tests for HandlerMonitor.
+ */
+
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  BudgetViolationType,
+  DEFAULT_HANDLER_BUDGET,
+  HandlerMonitor,
+  resolveBudget,
+  type BudgetViolation,
+} from '../src/plugins/handler-monitor';
+
+/** A promise with its resolve function exposed. */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('resolveBudget', () => {
+  it('should merge overrides over the defaults, ignoring unset limits', () => {
+    const budget = resolveBudget(
+      { maxHandlerDuration: 500, maxTimers: 10 },
+      { maxTimers: 20, maxConcurrency: undefined },
+    );
+
+    expect(budget).toEqual({ ...DEFAULT_HANDLER_BUDGET, maxHandlerDuration: 500, maxTimers: 20 });
+  });
+});
+
+describe('HandlerMonitor', () => {
+  it('should start handlers synchronously', () => {
+    const monitor = new HandlerMonitor();
+    const order: string[] = [];
+
+    monitor.run('EVENT', () => { order.push('first'); });
+    monitor.run('EVENT', () => { order.push('second'); });
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should measure calls and durations', async () => {
+    const onSuccess = mock(() => {});
+    const monitor = new HandlerMonitor({ onSuccess });
+
+    await monitor.run('EVENT', () => Bun.sleep(20));
+    await monitor.run('EVENT', () => {});
+
+    const [stats] = monitor.getStats();
+    expect(stats?.key).toBe('EVENT');
+    expect(stats?.calls).toBe(2);
+    expect(stats?.maxDurationMs).toBeGreaterThanOrEqual(15);
+    expect(stats?.avgDurationMs).toBeLessThan(stats!.maxDurationMs);
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report handler errors instead of throwing', async () => {
+    const onError = mock((_key: string, _error: Error) => {});
+    const monitor = new HandlerMonitor({ onError });
+
+    await monitor.run('EVENT', () => { throw new Error('boom'); });
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0]?.[0]).toBe('EVENT');
+    expect(onError.mock.calls[0]?.[1].message).toBe('boom');
+    expect(monitor.getStats()[0]?.errors).toBe(1);
+  });
+
+  it('should queue runs beyond the concurrency budget', async () => {
+    const monitor = new HandlerMonitor({ budget: { maxConcurrency: 2 } });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) => monitor.run('EVENT', () => {
+      started.push(index);
+      return gate.promise;
+    }));
+
+    expect(started).toEqual([0, 1]);
+    expect(monitor.getStats()[0]).toMatchObject({ running: 2, queued: 1, throttled: 1 });
+
+    gates[0]!.resolve();
+    await runs[0];
+    await Bun.sleep(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await Promise.all(runs);
+
+    expect(monitor.getStats()[0]).toMatchObject({ calls: 3, running: 0, queued: 0, peakConcurrency: 2 });
+  });
+
+  it('should drop runs when the queue is full', async () => {
+    const violations: BudgetViolation[] = [];
+    const monitor = new HandlerMonitor({
+      budget: { maxConcurrency: 1, maxQueueSize: 1 },
+      onViolation: (violation) => violations.push(violation),
+    });
+    const gate = deferred();
+    const handler = mock(() => gate.promise);
+
+    const runs = [monitor.run('EVENT', handler), monitor.run('EVENT', handler), monitor.run('EVENT', handler)];
+    gate.resolve();
+    await Promise.all(runs);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(monitor.getStats()[0]?.dropped).toBe(1);
+    expect(violations.map((v) => v.type)).toEqual([BudgetViolationType.QUEUE_FULL]);
+  });
+
+  it('should drop runs that waited too long', async () => {
+    const violations: BudgetViolation[] = [];
+    const monitor = new HandlerMonitor({
+      budget: { maxConcurrency: 1, maxQueueDelay: 10, maxHandlerDuration: 1000 },
+      onViolation: (violation) => violations.push(violation),
+    });
+    const handler = mock(() => Bun.sleep(30));
+
+    await Promise.all([monitor.run('EVENT', handler), monitor.run('EVENT', handler)]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(monitor.getStats()[0]).toMatchObject({ dropped: 1, running: 0 });
+    expect(violations.map((v) => v.type)).toEqual([BudgetViolationType.QUEUE_DELAY]);
+  });
+
+  it('should report slow handlers', async () => {
+    const onSuccess = mock(() => {});
+    const onViolation = mock((_violation: BudgetViolation) => {});
+    const monitor = new HandlerMonitor({ budget: { maxHandlerDuration: 5 }, onSuccess, onViolation });
+
+    await monitor.run('PLAYER_DAMAGED', () => Bun.sleep(20));
+
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(onViolation).toHaveBeenCalledTimes(1);
+    expect(onViolation.mock.calls[0]?.[0]).toMatchObject({ type: BudgetViolationType.SLOW, key: 'PLAYER_DAMAGED' });
+    expect(monitor.getStats()[0]?.slow).toBe(1);
+  });
+
+  it('should report handlers that block the event loop', async () => {
+    const onViolation = mock((_violation: BudgetViolation) => {});
+    const monitor = new HandlerMonitor({ budget: { maxBlockingDuration: 5 }, onViolation });
+    const block = (ms: number) => {
+      const until = performance.now() + ms;
+      while (performance.now() < until) { /* busy */ }
+    };
+
+    await monitor.run('PLAYER_DAMAGED', () => block(20));
+    await monitor.run('PLAYER_DAMAGED', async () => { await Bun.sleep(20); });
+
+    expect(onViolation).toHaveBeenCalledTimes(1);
+    expect(onViolation.mock.calls[0]?.[0]).toMatchObject({ type: BudgetViolationType.BLOCKING, key: 'PLAYER_DAMAGED' });
+    expect(monitor.getStats()[0]).toMatchObject({ calls: 2, blocking: 1, slow: 0 });
+    expect(monitor.getStats()[0]?.maxBlockingMs).toBeGreaterThanOrEqual(20);
+  });
+
+  it('should check reported heap sizes against the memory budget', () => {
+    const onViolation = mock((_violation: BudgetViolation) => {});
+    const monitor = new HandlerMonitor({ budget: { maxMemory: 64 }, onViolation });
+    expect(monitor.getHeapUsed()).toBeNull();
+
+    expect(monitor.reportMemory(32 * 1024 * 1024)).toBe(true);
+    expect(monitor.reportMemory(65 * 1024 * 1024)).toBe(false);
+
+    expect(monitor.getHeapUsed()).toBe(65 * 1024 * 1024);
+    expect(onViolation).toHaveBeenCalledTimes(1);
+    expect(onViolation.mock.calls[0]?.[0]).toMatchObject({ type: BudgetViolationType.MEMORY, key: 'memory' });
+  });
+
+  it('should skip runs while not allowed', async () => {
+    let allowed = false;
+    const monitor = new HandlerMonitor({ isAllowed: () => allowed });
+    const handler = mock(() => {});
+
+    await monitor.run('EVENT', handler);
+    allowed = true;
+    await monitor.run('EVENT', handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(monitor.getStats()[0]).toMatchObject({ calls: 1, skipped: 1 });
+  });
+
+  it('should report timer limits', () => {
+    const onViolation = mock((_violation: BudgetViolation) => {});
+    const monitor = new HandlerMonitor({ budget: { maxTimers: 3 }, onViolation });
+
+    monitor.reportTimerLimit('interval:poll');
+
+    expect(onViolation.mock.calls[0]?.[0]).toMatchObject({ type: BudgetViolationType.TIMERS, key: 'interval:poll' });
+  });
+
+  it('should list the busiest handlers first', async () => {
+    const monitor = new HandlerMonitor();
+
+    await monitor.run('QUICK', () => {});
+    await monitor.run('BUSY', () => Bun.sleep(10));
+
+    expect(monitor.getStats().map((s) => s.key)).toEqual(['BUSY', 'QUICK']);
+  });
+});
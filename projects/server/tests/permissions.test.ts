@@ -0,0 +1,136 @@
+/**
+ * @squadscript/server
+ *
+ * Unit tests for dashboard permissions and the permission guard.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  PERMISSIONS,
+  DEFAULT_ROLES,
+  resolvePermissions,
+} from '../src/api/modules/auth/permissions';
+import { checkAccountAccess, checkGrant, checkPermission } from '../src/api/plugins/auth';
+import { AuthService, type JWTPayload } from '../src/api/modules/auth/service';
+
+function createUser(role: string, permissions: JWTPayload['permissions']): JWTPayload {
+  return {
+    id: 'user-1',
+    username: 'tester',
+    role,
+    permissions,
+    iat: 0,
+    exp: Number.MAX_SAFE_INTEGER,
+  };
+}
+
+describe('resolvePermissions', () => {
+  it('should grant every permission to admin', () => {
+    expect(resolvePermissions('admin', [])).toEqual([...PERMISSIONS]);
+  });
+
+  it('should drop unknown and malformed entries', () => {
+    expect(resolvePermissions('moderator', ['players.kick', 'everything', 42])).toEqual([
+      'players.kick',
+    ]);
+  });
+
+  it('should return nothing for roles without stored permissions', () => {
+    expect(resolvePermissions('ghost', null)).toEqual([]);
+  });
+
+  it('should not let moderators run raw RCON', () => {
+    expect(DEFAULT_ROLES.moderator).toContain('players.kick');
+    expect(DEFAULT_ROLES.moderator).not.toContain('rcon.execute');
+  });
+});
+
+describe('checkPermission', () => {
+  it('should reject anonymous requests with 401', () => {
+    const set: { status?: number | string } = {};
+    expect(checkPermission(null, 'players.kick', set)).not.toBeNull();
+    expect(set.status).toBe(401);
+  });
+
+  it('should reject missing permissions with 403', () => {
+    const set: { status?: number | string } = {};
+    const user = createUser('moderator', ['players.kick']);
+    expect(checkPermission(user, 'rcon.execute', set)).not.toBeNull();
+    expect(set.status).toBe(403);
+  });
+
+  it('should allow granted permissions', () => {
+    const set: { status?: number | string } = {};
+    const user = createUser('moderator', ['players.kick']);
+    expect(checkPermission(user, 'players.kick', set)).toBeNull();
+    expect(set.status).toBeUndefined();
+  });
+
+  it('should allow admins without explicit permissions', () => {
+    const set: { status?: number | string } = {};
+    expect(checkPermission(createUser('admin', []), 'config.write', set)).toBeNull();
+  });
+
+  it('should read permissions from a signed token', () => {
+    const token = AuthService.signJWT({
+      id: 'user-1',
+      username: 'tester',
+      role: 'moderator',
+      permissions: ['players.warn'],
+    });
+    const user = AuthService.verifyJWT(token);
+
+    expect(user?.permissions).toEqual(['players.warn']);
+    expect(checkPermission(user, 'players.warn', {})).toBeNull();
+    expect(checkPermission(user, 'players.ban', {})).not.toBeNull();
+  });
+});
+
+describe('checkGrant', () => {
+  const manager = createUser('staff', ['users.manage', 'players.kick']);
+
+  it('should let admins grant anything', () => {
+    expect(checkGrant(createUser('admin', []), 'admin', PERMISSIONS, {})).toBeNull();
+  });
+
+  it('should let users grant permissions they hold', () => {
+    expect(checkGrant(manager, 'moderator', ['players.kick'], {})).toBeNull();
+  });
+
+  it('should not let users grant permissions they lack', () => {
+    const set: { status?: number | string } = {};
+    expect(checkGrant(manager, 'staff', ['users.manage', 'rcon.execute'], set)).toEqual({
+      error: "Cannot grant permissions you don't have: rcon.execute",
+    });
+    expect(set.status).toBe(403);
+  });
+
+  it('should reserve the admin role to admins', () => {
+    const set: { status?: number | string } = {};
+    expect(checkGrant(manager, 'admin', [], set)).not.toBeNull();
+    expect(set.status).toBe(403);
+  });
+});
+
+describe('checkAccountAccess', () => {
+  it('should only let admins change admin accounts', () => {
+    const manager = createUser('staff', ['users.manage']);
+    const set: { status?: number | string } = {};
+
+    expect(checkAccountAccess(manager, { role: 'admin' }, [...PERMISSIONS], set)).not.toBeNull();
+    expect(set.status).toBe(403);
+    expect(checkAccountAccess(manager, { role: 'viewer' }, [], {})).toBeNull();
+    expect(checkAccountAccess(createUser('admin', []), { role: 'admin' }, [...PERMISSIONS], {})).toBeNull();
+  });
+
+  it('should not let users change accounts with permissions they lack', () => {
+    const manager = createUser('staff', ['users.manage', 'players.kick']);
+    const set: { status?: number | string } = {};
+
+    expect(checkAccountAccess(manager, { role: 'operator' }, ['players.kick', 'rcon.execute'], set)).toEqual({
+      error: "Cannot grant permissions you don't have: rcon.execute",
+    });
+    expect(set.status).toBe(403);
+    expect(checkAccountAccess(manager, { role: 'moderator' }, ['players.kick'], {})).toBeNull();
+  });
+});
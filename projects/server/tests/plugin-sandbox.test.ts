@@ -0,0 +1,436 @@
+/**
+ * @squadscript/server
+ *
+ * Unit tests for plugin packages: manifests, the installer and the
+ * worker sandbox.
+ */
+
+import { describe, expect, it, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Logger } from '@squadscript/logger';
+import type { EOSID, PluginRconExecutor, SquadEventMap } from '@squadscript/types';
+import { compareVersions, hasCapability, parseManifest } from '../src/plugins/manifest';
+import { PluginInstaller } from '../src/plugins/installer';
+import { createSandboxedPlugin, getPluginManifest } from '../src/plugins/sandbox';
+import { PluginManager, type PluginServerInterface } from '../src/plugins/manager';
+import { ErrorCode } from '../src/errors';
+
+function createLogger(): Logger {
+  return new Logger({ transports: [] });
+}
+
+function createMockServer() {
+  const handlers = new Map<string, Set<Function>>();
+  const warn = mock<PluginRconExecutor['warn']>(async () => {});
+  const off = mock<PluginServerInterface['events']['off']>((event, handler) => {
+    handlers.get(event)?.delete(handler);
+  });
+
+  const server: PluginServerInterface = {
+    events: {
+      on: (event, handler) => {
+        if (!handlers.has(event)) handlers.set(event, new Set());
+        handlers.get(event)?.add(handler);
+      },
+      once: () => {},
+      off,
+      waitFor: () => new Promise<never>(() => {}),
+      emit: (event, data) => {
+        for (const handler of handlers.get(event) ?? []) handler(data);
+      },
+    },
+    // Only warn is reachable with the capabilities the test plugins have
+    rcon: new Proxy({} as PluginRconExecutor, {
+      get: (_target, method) => (method === 'warn' ? warn : async () => {}),
+    }),
+    state: {
+      players: new Map(),
+      squads: new Map(),
+      currentLayer: null,
+      nextLayer: null,
+      playerCount: 3,
+      serverInfo: null,
+      getPlayerByEOSID: () => undefined,
+      getPlayerBySteamID: () => undefined,
+      getPlayerByID: () => undefined,
+      getPlayersByName: () => [],
+      getSquadsByTeam: () => [],
+    },
+  };
+
+  return { server, warn, off };
+}
+
+function playerConnected(eosID: string): SquadEventMap['PLAYER_CONNECTED'] {
+  return { time: new Date(), raw: '', player: { eosID: eosID as EOSID }, ip: '127.0.0.1' };
+}
+
+function manifest(overrides: Record<string, unknown> = {}, meta: Record<string, unknown> = {}) {
+  return {
+    meta: {
+      name: 'Greeter',
+      description: 'Greets players',
+      version: '1.0.0',
+      defaultEnabled: true,
+      ...meta,
+    },
+    capabilities: ['rcon.warn'],
+    ...overrides,
+  };
+}
+
+/** Warns joining players, then tries to kick and ban them. */
+const GREETER = `
+import { BasePlugin } from '@squadscript/server';
+
+export default class Greeter extends BasePlugin {
+  static meta = { name: 'Greeter', description: 'Greets players', version: '1.0.0', defaultEnabled: true };
+  static optionsSpec = {};
+
+  async mount() {
+    this.on('PLAYER_CONNECTED', async (event) => {
+      await this.rcon.warn(event.player.eosID, 'Welcome ' + this.server.playerCount);
+      try {
+        await this.rcon.kick(event.player.eosID, 'Bye');
+      } catch (error) {
+        await this.rcon.warn(event.player.eosID, error.message);
+      }
+      try {
+        await this.bans.ban(event.player, 3600, 'Bye');
+      } catch (error) {
+        await this.rcon.warn(event.player.eosID, error.message);
+      }
+    });
+  }
+}
+`;
+
+/** Reports why it can't reach the network. */
+const FETCHER = `
+import { BasePlugin } from '@squadscript/server';
+import { connect } from 'node:net';
+
+export default class Greeter extends BasePlugin {
+  static meta = { name: 'Greeter', description: 'Greets players', version: '1.0.0', defaultEnabled: true };
+  static optionsSpec = {};
+
+  async mount() {
+    this.on('PLAYER_CONNECTED', async (event) => {
+      const attempts = [() => fetch('http://127.0.0.1:1'), () => Bun.fetch('http://127.0.0.1:1'), () => connect(1)];
+      for (const attempt of attempts) {
+        try {
+          await attempt();
+        } catch (error) {
+          await this.rcon.warn(event.player.eosID, error.message);
+        }
+      }
+    });
+  }
+}
+`;
+
+/** Reports each way out of the sandbox it tries. */
+const ESCAPER = `
+import { BasePlugin } from '@squadscript/server';
+import { $ } from 'bun';
+import { dlopen } from 'bun:ffi';
+import { Database } from 'bun:sqlite';
+import { readFileSync, writeFileSync } from 'node:fs';
+
+export default class Greeter extends BasePlugin {
+  static meta = { name: 'Greeter', description: 'Greets players', version: '1.0.0', defaultEnabled: true };
+  static optionsSpec = {};
+
+  async mount() {
+    const attempts = {
+      shell: () => $\`echo escaped\`.text(),
+      ffi: () => dlopen('libc.so.6', {}),
+      dlopen: () => process.dlopen({ exports: {} }, 'addon.node'),
+      worker: () => new Worker('data:text/javascript,'),
+      sqlite: () => new Database(new URL('../escaped.db', import.meta.url).pathname),
+      outside: () => writeFileSync(new URL('../escaped.txt', import.meta.url), 'escaped'),
+      bunWrite: () => Bun.write(new URL('../escaped.txt', import.meta.url).pathname, 'escaped'),
+      read: () => readFileSync(new URL('../secret.json', import.meta.url), 'utf8'),
+      bunRead: () => Bun.file(new URL('../secret.json', import.meta.url)).text(),
+      load: () => import(new URL('../secret.json', import.meta.url).href),
+      inside: () => writeFileSync(new URL('./data.txt', import.meta.url), 'data'),
+      insideRead: () => readFileSync(new URL('./data.txt', import.meta.url), 'utf8'),
+    };
+    for (const [name, attempt] of Object.entries(attempts)) {
+      try {
+        await attempt();
+        this.log.warn(name + ': allowed');
+      } catch (error) {
+        this.log.warn(name + ': ' + error.message);
+      }
+    }
+    this.log.warn('env: ' + (process.env.PATH === undefined ? 'hidden' : 'visible'));
+  }
+}
+`;
+
+/** Blocks its worker as soon as it sees an event. */
+const SPINNER = `
+import { BasePlugin } from '@squadscript/server';
+
+export default class Greeter extends BasePlugin {
+  static meta = { name: 'Greeter', description: 'Greets players', version: '1.0.0', defaultEnabled: true };
+  static optionsSpec = {};
+
+  async mount() {
+    this.on('PLAYER_CONNECTED', () => {
+      for (;;) {}
+    });
+  }
+}
+`;
+
+async function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await Bun.sleep(10);
+  }
+}
+
+describe('parseManifest', () => {
+  it('should accept a valid manifest', () => {
+    const result = parseManifest(manifest({
+      connectors: ['discord'],
+      main: 'greeter.js',
+      optionsSpec: { message: { type: 'string', required: false, description: 'Greeting', default: 'Hi' } },
+    }));
+    expect(result.ok).toBe(true);
+  });
+
+  it('should report every problem', () => {
+    const result = parseManifest(manifest(
+      { capabilities: ['rcon.kick', 'rcon.nuke'], main: '../escape.js' },
+      { name: 'bad/name', version: 'latest' },
+    ));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain('Unknown capability "rcon.nuke"');
+      expect(result.error).toContain('meta.name may only contain letters, digits, "_" and "-"');
+      expect(result.error).toContain('meta.version must look like 1.2.3');
+      expect(result.error).toContain('main must be a .js file name without a directory');
+    }
+  });
+
+  it('should reject connector options', () => {
+    const result = parseManifest(manifest({
+      optionsSpec: { discord: { type: 'string', required: true, description: 'Client', connector: 'discord' } },
+    }));
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('compareVersions', () => {
+  it('should compare numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0', '2.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.2.3-beta', '1.2.3')).toBe(0);
+  });
+});
+
+describe('hasCapability', () => {
+  it('should let rcon.execute stand in for RCON capabilities', () => {
+    expect(hasCapability(['rcon.execute'], 'rcon.kick')).toBe(true);
+    expect(hasCapability(['rcon.execute'], 'network')).toBe(false);
+    expect(hasCapability(['rcon.warn'], 'rcon.kick')).toBe(false);
+  });
+});
+
+describe('PluginInstaller', () => {
+  let dir: string;
+  let installer: PluginInstaller;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'squadscript-packages-'));
+    installer = new PluginInstaller({ dir, logger: createLogger().child('plugins') });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should install, list and uninstall packages', async () => {
+    const result = await installer.install(manifest(), GREETER);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.previousVersion).toBeNull();
+      expect(result.value.installed.entry).toBe(join(dir, 'Greeter', 'index.js'));
+    }
+
+    expect((await installer.list()).map((pkg) => pkg.manifest.meta.name)).toEqual(['Greeter']);
+    expect(await installer.uninstall('Greeter')).toBe(true);
+    expect(await installer.list()).toEqual([]);
+    expect(await installer.uninstall('Greeter')).toBe(false);
+  });
+
+  it('should upgrade to newer versions only', async () => {
+    await installer.install(manifest(), GREETER);
+
+    const same = await installer.install(manifest(), GREETER);
+    expect(same.ok).toBe(false);
+    if (!same.ok) expect(same.error.code).toBe(ErrorCode.PLUGIN_VERSION_CONFLICT);
+
+    const upgrade = await installer.install(manifest({}, { version: '1.1.0' }), GREETER);
+    expect(upgrade.ok).toBe(true);
+    if (upgrade.ok) expect(upgrade.value.previousVersion).toBe('1.0.0');
+
+    expect((await installer.get('Greeter'))?.manifest.meta.version).toBe('1.1.0');
+    expect((await readdir(dir)).sort()).toEqual(['.Greeter.previous', 'Greeter']);
+
+    await installer.discardPrevious('Greeter');
+    expect(await readdir(dir)).toEqual(['Greeter']);
+  });
+
+  it('should restore the version an upgrade replaced', async () => {
+    expect(await installer.restorePrevious('Greeter')).toBeNull();
+
+    await installer.install(manifest(), GREETER);
+    await installer.install(manifest({}, { version: '1.1.0' }), GREETER);
+
+    const restored = await installer.restorePrevious('Greeter');
+    expect(restored?.manifest.meta.version).toBe('1.0.0');
+    expect((await installer.get('Greeter'))?.manifest.meta.version).toBe('1.0.0');
+    expect(await readdir(dir)).toEqual(['Greeter']);
+  });
+
+  it('should refuse invalid manifests', async () => {
+    const result = await installer.install(manifest({ capabilities: 'all' }), GREETER);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe(ErrorCode.PLUGIN_MANIFEST_INVALID);
+    expect(await installer.list()).toEqual([]);
+  });
+});
+
+describe('createSandboxedPlugin', () => {
+  let dir: string;
+  let installer: PluginInstaller;
+  let manager: PluginManager | null;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'squadscript-sandbox-'));
+    installer = new PluginInstaller({ dir, logger: createLogger().child('plugins') });
+    manager = null;
+  });
+
+  afterEach(async () => {
+    await manager?.dispose();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function start(
+    code: string,
+    options: { heartbeatInterval?: number; capabilities?: string[]; maxMemory?: number } = {},
+  ) {
+    const result = await installer.install(
+      manifest(options.capabilities !== undefined ? { capabilities: options.capabilities } : {}),
+      code,
+    );
+    if (!result.ok) throw result.error;
+
+    const Plugin = createSandboxedPlugin(result.value.installed, {
+      ...(options.heartbeatInterval !== undefined && { heartbeatInterval: options.heartbeatInterval }),
+    });
+    const { server, warn, off } = createMockServer();
+    const log = createLogger();
+    const logWarn = spyOn(log, 'warn');
+    manager = new PluginManager({
+      logger: log,
+      server,
+      plugins: [{
+        plugin: Plugin,
+        ...(options.maxMemory !== undefined && { budget: { maxMemory: options.maxMemory } }),
+      }],
+    });
+    await manager.loadAll();
+    await manager.mountAll();
+    return { Plugin, server, warn, off, logWarn };
+  }
+
+  it('should expose the manifest of sandboxed plugin classes', async () => {
+    const { Plugin } = await start(GREETER);
+    expect(getPluginManifest(Plugin)?.capabilities).toEqual(['rcon.warn']);
+    expect(manager!.getPlugin('Greeter')?.state).toBe('mounted');
+  });
+
+  it('should only allow the capabilities in the manifest', async () => {
+    const { server, warn } = await start(GREETER);
+
+    server.events.emit('PLAYER_CONNECTED', playerConnected('eos-1'));
+    await waitFor(() => warn.mock.calls.length === 3);
+
+    expect(warn.mock.calls[0]).toEqual(['eos-1', 'Welcome 3']);
+    expect(warn.mock.calls[1]).toEqual(['eos-1', 'Greeter does not have the "rcon.kick" capability']);
+    expect(warn.mock.calls[2]).toEqual(['eos-1', 'Greeter does not have the "rcon.ban" capability']);
+  });
+
+  it('should refuse network access without the network capability', async () => {
+    const { server, warn } = await start(FETCHER);
+
+    server.events.emit('PLAYER_CONNECTED', playerConnected('eos-1'));
+    await waitFor(() => warn.mock.calls.length === 3);
+
+    expect(warn.mock.calls.map((call) => call[1])).toEqual([
+      'This plugin may not use the network',
+      'This plugin may not use the network',
+      'This plugin may not use the network',
+    ]);
+  });
+
+  it('should refuse processes, native code, workers, databases and files elsewhere', async () => {
+    await writeFile(join(dir, 'secret.json'), '{"password":"hunter2"}');
+    const { logWarn } = await start(ESCAPER, { capabilities: [] });
+
+    const reports = logWarn.mock.calls.map(([, message]) => message);
+    expect(reports).toEqual([
+      'shell: This plugin may not use child processes',
+      'ffi: This plugin may not use native code',
+      'dlopen: This plugin may not use native code',
+      'worker: This plugin may not use workers',
+      'sqlite: This plugin may not use bun:sqlite',
+      'outside: This plugin may only use files in its own directory',
+      'bunWrite: This plugin may only use files in its own directory',
+      'read: This plugin may only use files in its own directory',
+      'bunRead: This plugin may only use files in its own directory',
+      'load: This plugin may only load modules from its own directory',
+      'inside: allowed',
+      'insideRead: allowed',
+      'env: hidden',
+    ]);
+    expect((await readdir(dir)).sort()).toEqual(['Greeter', 'secret.json']);
+    expect(await readdir(join(dir, 'Greeter'))).toContain('data.txt');
+  });
+
+  it('should stop a worker that blocks its event loop', async () => {
+    const { server, off } = await start(SPINNER, { heartbeatInterval: 50 });
+
+    server.events.emit('PLAYER_CONNECTED', playerConnected('eos-1'));
+    await waitFor(() => off.mock.calls.length > 0);
+
+    const instance = manager!.getPlugin('Greeter');
+    expect(instance?.state).toBe('error');
+    expect(instance?.error?.message).toBe(
+      'Sandbox stopped responding for 50ms; the plugin is stopped until it is enabled again',
+    );
+
+    const result = await manager!.reconfigurePlugin('Greeter', { enabled: true });
+    expect(result.success).toBe(true);
+    expect(manager!.getPlugin('Greeter')?.state).toBe('mounted');
+  });
+
+  it('should stop a worker that uses more memory than its budget', async () => {
+    await start(GREETER, { heartbeatInterval: 50, maxMemory: 1 });
+    await waitFor(() => manager!.getPlugin('Greeter')?.state === 'error');
+
+    expect(manager!.getPlugin('Greeter')?.error?.message).toBe(
+      'Sandbox exceeded its memory budget; the plugin is stopped until it is enabled again',
+    );
+    expect(manager!.getPluginStats('Greeter')?.heapUsed).toBeGreaterThan(1024 * 1024);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @squadscript/server
+ *
+ * Unit tests for plugin source resolution.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  resolvePluginSources,
+  resolveConnectorSources,
+} from '../src/plugins/plugin-sources';
+import { BasePlugin } from '../src/plugins/base-plugin';
+import type { PluginClass } from '../src/plugins/loader';
+import type { PluginMeta, OptionsSpec } from '@squadscript/types';
+
+class BuiltinPlugin extends BasePlugin<OptionsSpec> {
+  static override readonly meta: PluginMeta = {
+    name: 'BuiltinPlugin',
+    description: 'A built-in test plugin',
+    version: '1.0.0',
+    defaultEnabled: true,
+  };
+
+  static override readonly optionsSpec = {};
+
+  override async mount(): Promise<void> {}
+}
+
+const builtins = new Map<string, PluginClass>([
+  ['BuiltinPlugin', BuiltinPlugin as unknown as PluginClass],
+]);
+
+describe('resolvePluginSources', () => {
+  it('should resolve built-in plugins to their class', () => {
+    const [config] = resolvePluginSources(
+      [{ plugin: 'BuiltinPlugin', enabled: true, options: { foo: 1 } }],
+      { builtins, baseDir: '/etc/squadscript' },
+    );
+
+    expect(config?.plugin).toBe(BuiltinPlugin as unknown as PluginClass);
+    expect(config?.enabled).toBe(true);
+    expect(config?.options).toEqual({ foo: 1 });
+  });
+
+  it('should resolve relative paths against the base directory', () => {
+    const [config] = resolvePluginSources(
+      [{ plugin: './plugins/custom.js', enabled: true }],
+      { builtins, baseDir: '/etc/squadscript' },
+    );
+
+    expect(config?.plugin).toBe('/etc/squadscript/plugins/custom.js');
+  });
+
+  it('should pass package names and absolute paths through', () => {
+    const configs = resolvePluginSources(
+      [
+        { plugin: '@community/squad-plugin', enabled: true },
+        { plugin: '/opt/plugins/custom.js', enabled: false },
+      ],
+      { builtins, baseDir: '/etc/squadscript' },
+    );
+
+    expect(configs.map((c) => c.plugin)).toEqual([
+      '@community/squad-plugin',
+      '/opt/plugins/custom.js',
+    ]);
+    expect(configs[1]?.enabled).toBe(false);
+  });
+
+  it('should merge connector overrides into options', () => {
+    const [config] = resolvePluginSources(
+      [{
+        plugin: 'BuiltinPlugin',
+        enabled: true,
+        options: { channelID: '123' },
+        connectors: { discordClient: 'staffDiscord' },
+      }],
+      { builtins, baseDir: '/etc/squadscript' },
+    );
+
+    expect(config?.options).toEqual({
+      channelID: '123',
+      discordClient: 'staffDiscord',
+    });
+  });
+
+  it('should pass budget overrides through', () => {
+    const [config] = resolvePluginSources(
+      [{ plugin: 'BuiltinPlugin', budget: { maxHandlerDuration: 500 } }],
+      { builtins, baseDir: '/etc/squadscript' },
+    );
+
+    expect(config?.budget).toEqual({ maxHandlerDuration: 500 });
+  });
+});
+
+describe('resolveConnectorSources', () => {
+  it('should split connector type from options and key by name', () => {
+    const configs = resolveConnectorSources({
+      discord: { type: 'discord', token: 'abc', guildId: '42' },
+      sqlite: { type: 'database', dialect: 'sqlite' },
+    });
+
+    expect(configs).toEqual([
+      { type: 'discord', name: 'discord', options: { token: 'abc', guildId: '42' } },
+      { type: 'database', name: 'sqlite', options: { dialect: 'sqlite' } },
+    ]);
+  });
+});
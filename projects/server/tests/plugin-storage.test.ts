@@ -0,0 +1,120 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for plugin storage providers.
+ */
+
+import { describe, expect, it, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import { MemoryStorageProvider } from '../src/plugins/storage';
+
+describe('MemoryStorageProvider', () => {
+  let provider: MemoryStorageProvider;
+
+  beforeEach(() => {
+    provider = new MemoryStorageProvider();
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it('should store JSON values', async () => {
+    const storage = provider.forPlugin('PlayerWelcome');
+
+    await storage.set('player:1', { visits: 2, seen: new Date('2026-01-01T00:00:00Z') });
+
+    expect(await storage.get('player:1')).toEqual({ visits: 2, seen: '2026-01-01T00:00:00.000Z' });
+    expect(await storage.get('missing')).toBeUndefined();
+  });
+
+  it('should return copies of stored values', async () => {
+    const storage = provider.forPlugin('PlayerWelcome');
+    await storage.set('list', [1, 2]);
+
+    (await storage.get<number[]>('list'))!.push(3);
+
+    expect(await storage.get('list')).toEqual([1, 2]);
+  });
+
+  it('should reject values that are not JSON-serializable', async () => {
+    const storage = provider.forPlugin('PlayerWelcome');
+
+    await expect(storage.set('fn', () => {})).rejects.toThrow('not JSON-serializable');
+  });
+
+  it('should delete keys', async () => {
+    const storage = provider.forPlugin('PlayerWelcome');
+    await storage.set('a', 1);
+
+    expect(await storage.delete('a')).toBe(true);
+    expect(await storage.delete('a')).toBe(false);
+    expect(await storage.get('a')).toBeUndefined();
+  });
+
+  it('should list keys by prefix in order', async () => {
+    const storage = provider.forPlugin('VehicleClaimTracker');
+    await storage.set('claim:b', 1);
+    await storage.set('claim:a', 1);
+    await storage.set('other', 1);
+
+    expect(await storage.list('claim:')).toEqual(['claim:a', 'claim:b']);
+    expect(await storage.list()).toEqual(['claim:a', 'claim:b', 'other']);
+  });
+
+  it('should expire keys after their TTL', async () => {
+    const storage = provider.forPlugin('RevengeTracker');
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    await storage.set('short', 'x', { ttl: 1000 });
+    await storage.set('forever', 'y');
+
+    setSystemTime(new Date('2026-01-01T00:00:01Z'));
+
+    expect(await storage.get('short')).toBeUndefined();
+    expect(await storage.list()).toEqual(['forever']);
+    expect(await storage.delete('short')).toBe(false);
+  });
+
+  it('should reject invalid TTLs', async () => {
+    const storage = provider.forPlugin('RevengeTracker');
+
+    await expect(storage.set('a', 1, { ttl: 0 })).rejects.toThrow('positive number');
+    await expect(storage.set('a', 1, { ttl: Number.NaN })).rejects.toThrow('positive number');
+  });
+
+  it('should increment numbers and keep the TTL', async () => {
+    const storage = provider.forPlugin('RevengeTracker');
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(await storage.increment('kills')).toBe(1);
+    expect(await storage.increment('kills', 4)).toBe(5);
+    expect(await storage.increment('kills', -2)).toBe(3);
+
+    await storage.set('round', 10, { ttl: 1000 });
+    expect(await storage.increment('round')).toBe(11);
+
+    setSystemTime(new Date('2026-01-01T00:00:01Z'));
+    expect(await storage.increment('round')).toBe(1);
+  });
+
+  it('should refuse to increment non-numbers', async () => {
+    const storage = provider.forPlugin('RevengeTracker');
+    await storage.set('name', 'Bob');
+
+    await expect(storage.increment('name')).rejects.toThrow('not a number');
+  });
+
+  it('should isolate plugins and clear one plugin', async () => {
+    const a = provider.forPlugin('A');
+    const b = provider.forPlugin('B');
+    await a.set('key', 'a');
+    await b.set('key', 'b');
+
+    expect(await a.get('key')).toBe('a');
+    expect(await b.get('key')).toBe('b');
+
+    await provider.clear('A');
+
+    expect(await a.get('key')).toBeUndefined();
+    expect(await b.get('key')).toBe('b');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for ban list subscriptions and signatures.
+ */
+
+import { describe, expect, it, beforeEach, afterEach, mock, type Mock } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Ok, createEmptyPlayer, type EOSID, type Player, type SteamID } from '@squadscript/types';
+import {
+  RemoteBanListService,
+  type BanListSubscription,
+} from '../src/services/remote-ban-list.service';
+import type { NotificationService } from '../src/services/notification.service';
+import { TypedEventEmitter } from '../src/events/emitter';
+import type { SquadServer } from '../src/server';
+import type { ServerEventMap } from '../src/types';
+import {
+  BAN_LIST_SIGNATURE_HEADER,
+  signBanList,
+  verifyBanListSignature,
+} from '../src/services/ban-list-signature';
+
+const EOS_ID = '0002a10186d9414496bf20d22d3860ba' as EOSID;
+const STEAM_ID = '76561198000000002' as SteamID;
+const ADMIN_EOS_ID = '0002a10186d9414496bf20d22d3860bb' as EOSID;
+
+class FakeServer extends TypedEventEmitter<ServerEventMap> {
+  players: Player[] = [createEmptyPlayer(ADMIN_EOS_ID, 'Admin')];
+  readonly kick = mock<SquadServer['kick']>(async () => Ok(undefined));
+  readonly warn = mock<SquadServer['warn']>(async () => Ok(undefined));
+
+  hasPermission(id: string, permission: string): boolean {
+    return id === ADMIN_EOS_ID && permission === 'canseeadminchat';
+  }
+}
+
+describe('ban list signatures', () => {
+  it('should verify bodies signed with the same secret', () => {
+    const signature = signBanList('Banned:1:0\n', 'secret');
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyBanListSignature('Banned:1:0\n', signature, 'secret')).toBe(true);
+    expect(verifyBanListSignature('Banned:2:0\n', signature, 'secret')).toBe(false);
+    expect(verifyBanListSignature('Banned:1:0\n', signature, 'other')).toBe(false);
+    expect(verifyBanListSignature('Banned:1:0\n', null, 'secret')).toBe(false);
+  });
+});
+
+describe('RemoteBanListService', () => {
+  let dir: string;
+  let server: FakeServer;
+  let notifications: { create: Mock<NotificationService['create']> };
+  let service: RemoteBanListService | null;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'squadscript-ban-lists-'));
+    server = new FakeServer();
+    notifications = { create: mock<NotificationService['create']>(async () => {}) };
+    service = null;
+  });
+
+  afterEach(async () => {
+    service?.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function subscribe(lists: Array<Omit<BanListSubscription, 'type' | 'source'> & { content: string }>) {
+    const subscriptions = await Promise.all(lists.map(async ({ content, ...rest }, index) => {
+      const source = join(dir, `list-${index}.cfg`);
+      await writeFile(source, content);
+      return { ...rest, type: 'local' as const, source };
+    }));
+
+    service = new RemoteBanListService(server, { subscriptions, notifications });
+    await service.start();
+    return service;
+  }
+
+  const playerJoins = (eosID = EOS_ID, steamID = STEAM_ID) => {
+    server.emit('PLAYER_JOIN_SUCCEEDED', { time: new Date(), raw: '', player: { eosID, name: 'Cheater' }, eosID, steamID });
+    return Bun.sleep(0);
+  };
+
+  it('should match players by Steam or EOS ID and ignore expired entries', async () => {
+    const list = await subscribe([{
+      name: 'Community A',
+      action: 'log',
+      content: `Banned:${STEAM_ID}:0 //Cheating\nBanned:${EOS_ID}:1000 //Expired\n`,
+    }]);
+
+    expect(list.check([EOS_ID, STEAM_ID]).map((match) => match.entry.reason)).toEqual(['Cheating']);
+    expect(list.check([EOS_ID])).toEqual([]);
+  });
+
+  it('should kick listed players on kick lists', async () => {
+    await subscribe([{ name: 'Community A', action: 'kick', content: `Banned:${EOS_ID}:0 //Cheating\n` }]);
+
+    await playerJoins();
+
+    expect(server.kick).toHaveBeenCalledWith(EOS_ID, 'Banned on Community A: Cheating');
+    expect(notifications.create).not.toHaveBeenCalled();
+  });
+
+  it('should use a custom kick reason', async () => {
+    await subscribe([{
+      name: 'Community A',
+      action: 'kick',
+      kickReason: 'You are banned on a partner server',
+      content: `Banned:${EOS_ID}:0\n`,
+    }]);
+
+    await playerJoins();
+
+    expect(server.kick).toHaveBeenCalledWith(EOS_ID, 'You are banned on a partner server');
+  });
+
+  it('should notify the dashboard and warn admins on alert lists', async () => {
+    await subscribe([{ name: 'Community B', action: 'alert', content: `Banned:${STEAM_ID}:0\n` }]);
+
+    await playerJoins();
+
+    expect(server.kick).not.toHaveBeenCalled();
+    expect(notifications.create).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Ban List Match',
+      message: 'Cheater is on ban list "Community B"',
+    }));
+    expect(server.warn).toHaveBeenCalledWith(ADMIN_EOS_ID, 'Cheater is on ban list "Community B"');
+  });
+
+  it('should take the strongest action when several lists match', async () => {
+    await subscribe([
+      { name: 'Logged', action: 'log', content: `Banned:${EOS_ID}:0\n` },
+      { name: 'Kicked', action: 'kick', content: `Banned:${EOS_ID}:0\n` },
+    ]);
+
+    await playerJoins();
+
+    expect(server.kick).toHaveBeenCalledTimes(1);
+    expect(server.kick).toHaveBeenCalledWith(EOS_ID, 'Banned on Kicked');
+  });
+
+  it('should do nothing for players on no list', async () => {
+    await subscribe([{ name: 'Community A', action: 'kick', content: `Banned:${EOS_ID}:0\n` }]);
+
+    await playerJoins('0002a10186d9414496bf20d22d3860ff' as EOSID, '76561198000000099' as SteamID);
+
+    expect(server.kick).not.toHaveBeenCalled();
+  });
+
+  it('should reject unsigned lists when a secret is configured', async () => {
+    const list = await subscribe([{
+      name: 'Signed',
+      action: 'kick',
+      secret: 'shared',
+      content: `Banned:${EOS_ID}:0\n`,
+    }]);
+
+    expect(list.check([EOS_ID])).toEqual([]);
+  });
+
+  it('should accept remote lists with a valid signature', async () => {
+    const content = `Banned:${EOS_ID}:0 //Cheating\n`;
+    let signature = signBanList(content, 'shared');
+    const http = Bun.serve({
+      port: 0,
+      fetch: () => new Response(content, { headers: { [BAN_LIST_SIGNATURE_HEADER]: signature } }),
+    });
+
+    try {
+      service = new RemoteBanListService(server, {
+        subscriptions: [{
+          name: 'Partner',
+          type: 'remote',
+          source: `http://127.0.0.1:${http.port}/api/ban-list`,
+          action: 'kick',
+          secret: 'shared',
+        }],
+      });
+      await service.start();
+      expect(service.check([EOS_ID])).toHaveLength(1);
+
+      // A tampered refresh keeps the last good list
+      signature = signBanList('Banned:x:0\n', 'shared');
+      await service.refresh('Partner');
+      expect(service.check([EOS_ID])).toHaveLength(1);
+    } finally {
+      http.stop(true);
+    }
+  });
+});
@@ -6,6 +6,7 @@
 
 import { describe, expect, it, beforeEach, afterEach, mock, spyOn } from 'bun:test';
 import { SubscriptionManager } from '../src/plugins/subscription-manager';
+import { BudgetViolationType, HandlerMonitor, type BudgetViolation } from '../src/plugins/handler-monitor';
 
 describe('SubscriptionManager', () => {
   let manager: SubscriptionManager;
@@ -251,6 +252,52 @@ describe('SubscriptionManager', () => {
     });
   });
 
+  describe('handler monitor', () => {
+    it('should call handlers directly without a monitor', () => {
+      const handler = mock((_data: number) => {});
+
+      manager.wrapHandler('EVENT', handler)(42);
+
+      expect(handler).toHaveBeenCalledWith(42);
+    });
+
+    it('should run wrapped handlers through the monitor', async () => {
+      const monitor = new HandlerMonitor();
+      manager.setMonitor(monitor);
+      const handler = mock((_data: number) => {});
+
+      await manager.wrapHandler('EVENT', handler)(42);
+
+      expect(handler).toHaveBeenCalledWith(42);
+      expect(monitor.getStats()[0]).toMatchObject({ key: 'EVENT', calls: 1 });
+    });
+
+    it('should measure timer callbacks by label', async () => {
+      const monitor = new HandlerMonitor();
+      manager.setMonitor(monitor);
+
+      manager.setTimeout(() => {}, 1, 'poll');
+      await Bun.sleep(20);
+
+      expect(monitor.getStats()[0]).toMatchObject({ key: 'timeout:poll', calls: 1 });
+    });
+
+    it('should refuse timers beyond the budget', () => {
+      const violations: BudgetViolation[] = [];
+      manager.setMonitor(new HandlerMonitor({
+        budget: { maxTimers: 2 },
+        onViolation: (violation) => violations.push(violation),
+      }));
+
+      manager.setInterval(() => {}, 1000, 'a');
+      manager.setTimeout(() => {}, 1000, 'b');
+
+      expect(() => manager.setInterval(() => {}, 1000, 'c')).toThrow('the plugin already has 2 timers');
+      expect(manager.totalCount).toBe(2);
+      expect(violations).toEqual([expect.objectContaining({ type: BudgetViolationType.TIMERS, key: 'interval:c' })]);
+    });
+  });
+
   describe('totalCount', () => {
     it('should return sum of all tracked resources', () => {
       manager.trackSubscription(() => {});
@@ -0,0 +1,135 @@
+/**
+ * @squadscript/server
+ *
+ * Tests for the users API: who may change which accounts.
+ */
+
+import { describe, expect, it, beforeEach } from 'bun:test';
+import { Param, getTableColumns, type SQL, type Table } from 'drizzle-orm';
+import { createUsersModule } from '../src/api/modules/users';
+import { AuthService } from '../src/api/modules/auth/service';
+import type { Permission } from '../src/api/modules/auth/permissions';
+import type { DrizzleDB } from '../src/db';
+import { roles, users } from '../src/db/schema';
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the database, covering the queries the user and
+ * role repositories make. Conditions are single `eq()` comparisons.
+ */
+function createFakeDb(tables: Map<Table, Row[]>): DrizzleDB {
+  const rowsOf = (table: Table) => tables.get(table) ?? [];
+
+  const matching = (table: Table, condition: SQL) => {
+    const columns = Object.entries(getTableColumns(table));
+    const key = columns.find(([, column]) => condition.queryChunks.includes(column))?.[0];
+    const param = condition.queryChunks.find((chunk) => chunk instanceof Param);
+    return rowsOf(table).filter((row) => key !== undefined && row[key] === param?.value);
+  };
+
+  const db = {
+    select: () => ({
+      from: (table: Table) => Object.assign(Promise.resolve(rowsOf(table)), {
+        where: async (condition: SQL) => matching(table, condition),
+      }),
+    }),
+    update: (table: Table) => ({
+      set: (data: Row) => ({
+        where: (condition: SQL) => ({
+          returning: async () => matching(table, condition).map((row) => Object.assign(row, data)),
+        }),
+      }),
+    }),
+    delete: (table: Table) => ({
+      where: (condition: SQL) => ({
+        returning: async () => {
+          const removed = matching(table, condition);
+          tables.set(table, rowsOf(table).filter((row) => !removed.includes(row)));
+          return removed;
+        },
+      }),
+    }),
+  };
+  return db as unknown as DrizzleDB;
+}
+
+function createAccount(id: string, role: string): Row {
+  return { id, username: id, password: 'original-hash', role, createdAt: new Date(), updatedAt: new Date() };
+}
+
+function tokenFor(role: string, permissions: readonly Permission[]): string {
+  return AuthService.signJWT({ id: `${role}-1`, username: role, role, permissions });
+}
+
+function request(method: string, path: string, token: string, body?: unknown): Request {
+  return new Request(`http://localhost${path}`, {
+    method,
+    headers: {
+      authorization: `Bearer ${token}`,
+      ...(body !== undefined && { 'content-type': 'application/json' }),
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+describe('users API', () => {
+  const manager = tokenFor('manager', ['users.manage', 'players.kick']);
+  const admin = tokenFor('admin', []);
+
+  let tables: Map<Table, Row[]>;
+  let app: ReturnType<typeof createUsersModule>;
+
+  const account = (id: string) => tables.get(users)?.find((row) => row.id === id);
+
+  beforeEach(() => {
+    tables = new Map<Table, Row[]>([
+      [users, [createAccount('operator-1', 'operator'), createAccount('moderator-1', 'moderator')]],
+      [roles, [
+        { name: 'operator', permissions: ['players.kick', 'rcon.execute'] },
+        { name: 'moderator', permissions: ['players.kick'] },
+      ]],
+    ]);
+    app = createUsersModule(createFakeDb(tables));
+  });
+
+  describe('PATCH /users/:id', () => {
+    it('should not reset passwords of accounts with permissions the user lacks', async () => {
+      const response = await app.handle(request('PATCH', '/users/operator-1', manager, { password: 'hunter22' }));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: "Cannot grant permissions you don't have: rcon.execute" });
+      expect(account('operator-1')?.password).toBe('original-hash');
+    });
+
+    it('should reset passwords of accounts whose permissions the user holds', async () => {
+      const response = await app.handle(request('PATCH', '/users/moderator-1', manager, { password: 'hunter22' }));
+
+      expect(response.status).toBe(200);
+      expect(account('moderator-1')?.password).not.toBe('original-hash');
+    });
+
+    it('should let admins reset any password', async () => {
+      const response = await app.handle(request('PATCH', '/users/operator-1', admin, { password: 'hunter22' }));
+
+      expect(response.status).toBe(200);
+      expect(account('operator-1')?.password).not.toBe('original-hash');
+    });
+  });
+
+  describe('DELETE /users/:id', () => {
+    it('should not delete accounts with permissions the user lacks', async () => {
+      const response = await app.handle(request('DELETE', '/users/operator-1', manager));
+
+      expect(response.status).toBe(403);
+      expect(account('operator-1')).toBeDefined();
+    });
+
+    it('should delete accounts whose permissions the user holds', async () => {
+      const response = await app.handle(request('DELETE', '/users/moderator-1', manager));
+
+      expect(response.status).toBe(200);
+      expect(account('moderator-1')).toBeUndefined();
+    });
+  });
+});